@@ -106,7 +106,17 @@ export default [
       'no-console': 'off' // Allow console in tests
     }
   },
-  
+
+  // Node-only simulation code (worker_threads, process metrics)
+  {
+    files: ['src/benchmark/**/*.ts'],
+    languageOptions: {
+      globals: {
+        ...globals.node
+      }
+    }
+  },
+
   // Global ignores
   {
     ignores: [
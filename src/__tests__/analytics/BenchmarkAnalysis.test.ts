@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { GameAnalytics, type AnalyzedGame } from '@/analytics/GameAnalytics'
+import { StatisticalTests } from '@/analytics/StatisticalTests'
+import { TestDataGenerator } from '../utils/TestHelpers'
+import type { GameStage } from '@/domain/types/card.types'
+
+/**
+ * Significance-based analysis of benchmark output (deterministic data only)
+ */
+describe('Benchmark result analysis', () => {
+  const createRecord = (index: number, victory: boolean, overrides: Record<string, unknown> = {}) => ({
+    gameIndex: index,
+    outcome: victory ? 'victory' : 'game_over',
+    strategy: 'Intermediate',
+    finalStage: (victory ? 'fulfillment' : 'youth') as GameStage,
+    turns: victory ? 15 : 6 + (index % 3),
+    score: victory ? 40 : 10,
+    finalVitality: victory ? 30 : 0,
+    insuranceCount: index % 4,
+    insuranceBurden: 0,
+    stats: TestDataGenerator.createTestPlayerStats(),
+    ...overrides
+  })
+
+  // `victories` wins out of `total`, spread evenly through the list
+  const createGames = (victories: number, total: number, overrides: Record<string, unknown> = {}): AnalyzedGame[] =>
+    GameAnalytics.loadResults(Array.from({ length: total }, (_, i) =>
+      createRecord(i, Math.floor((i + 1) * victories / total) > Math.floor(i * victories / total), overrides)))
+
+  const analytics = new GameAnalytics()
+
+  describe('loadResults', () => {
+    it('reads the gameResults of a saved benchmark and skips unfinished games', () => {
+      const json = JSON.stringify({
+        statistics: {},
+        gameResults: [createRecord(0, true), createRecord(1, false), { ...createRecord(2, false), outcome: 'error' }]
+      })
+
+      const games = GameAnalytics.loadResults(json)
+
+      expect(games).toHaveLength(2)
+      expect(games[0]).toMatchObject({ victory: true, turns: 15, finalVitality: 30, strategy: 'Intermediate' })
+      expect(games[1]!.victory).toBe(false)
+    })
+
+    it('rejects results saved without per-game records', () => {
+      expect(() => GameAnalytics.loadResults({ statistics: {} })).toThrow('No per-game records found')
+    })
+  })
+
+  describe('win rate evaluation', () => {
+    it('reports the win rate with a confidence interval', () => {
+      const summary = analytics.analyzeWinRate(createGames(60, 100))
+
+      expect(summary.winRate).toBe(0.6)
+      expect(summary.confidenceInterval.lower).toBeCloseTo(0.502, 3)
+      expect(summary.confidenceInterval.upper).toBeCloseTo(0.691, 3)
+    })
+
+    it('only calls a win rate off-target when the whole interval is outside the band', () => {
+      const target = { min: 0.2, max: 0.8 }
+
+      expect(analytics.evaluateWinRate(createGames(5, 100), target).verdict).toBe('too_hard')
+      expect(analytics.evaluateWinRate(createGames(97, 100), target).verdict).toBe('too_easy')
+      expect(analytics.evaluateWinRate(createGames(50, 100), target).verdict).toBe('within_target')
+      // 1 win in 10 games could still be 20% or more
+      expect(analytics.evaluateWinRate(createGames(1, 10), target).verdict).toBe('inconclusive')
+    })
+  })
+
+  describe('comparisons', () => {
+    it('detects a significant win rate change between balance configs', () => {
+      const comparison = analytics.compareConfigs(createGames(80, 200), createGames(140, 200))
+      const [pair] = comparison.pairwise
+
+      expect(comparison.significant).toBe(true)
+      expect(pair!.winRate.difference).toBeCloseTo(-0.3, 6)
+      expect(pair!.winRate.pValue).toBeLessThan(0.001)
+      expect(pair!.turns.significant).toBe(true)
+    })
+
+    it('does not call a small difference significant', () => {
+      const comparison = analytics.compareConfigs(createGames(100, 200), createGames(104, 200))
+
+      expect(comparison.significant).toBe(false)
+      expect(comparison.pairwise[0]!.winRate.pValue).toBeGreaterThan(0.5)
+    })
+
+    it('groups games by strategy', () => {
+      const games = [
+        ...createGames(20, 40, { strategy: 'Beginner' }),
+        ...createGames(36, 40, { strategy: 'Advanced' })
+      ]
+
+      const comparison = analytics.compareStrategies(games)
+
+      expect(comparison.groups.map(group => group.name)).toEqual(['Beginner', 'Advanced'])
+      expect(comparison.winRateTest!.degreesOfFreedom).toBe(1)
+      expect(comparison.significant).toBe(true)
+    })
+  })
+
+  describe('correlations', () => {
+    it('relates insurance count, final vitality and turns survived', () => {
+      // More insurance, more vitality left and longer games
+      const games = GameAnalytics.loadResults(Array.from({ length: 30 }, (_, i) => createRecord(i, i % 2 === 0, {
+        insuranceCount: i % 5,
+        finalVitality: (i % 5) * 10 + (i % 2),
+        turns: 5 + (i % 5) * 2
+      })))
+
+      const result = analytics.analyzeCorrelations(games, ['insuranceCount', 'finalVitality', 'turnsSurvived'])
+
+      expect(result.variables).toEqual(['insuranceCount', 'finalVitality', 'turnsSurvived'])
+      expect(result.matrix[0]![1]).toBeGreaterThan(0.9)
+      expect(result.significantPairs.map(pair => `${pair.variable1}-${pair.variable2}`))
+        .toContain('insuranceCount-turnsSurvived')
+    })
+
+    it('rejects unknown variables', () => {
+      expect(() => analytics.analyzeCorrelations(createGames(5, 10), ['luck'])).toThrow('Unknown variable: luck')
+    })
+  })
+
+  describe('balance report', () => {
+    it('summarizes stages and recommends changes for an off-target win rate', () => {
+      const balance = analytics.analyzeGameBalance(createGames(10, 200, { strategy: 'Advanced' }))
+
+      expect(balance.winRate.verdict).toBe('too_hard')
+      expect(balance.stageBalance.youth!.gamesReached).toBe(200)
+      expect(balance.stageBalance.youth!.issues).toContain('more than half of the players are lost here')
+      expect(balance.recommendations[0]!.priority).toBe('high')
+      expect(balance.overallBalance).toBeLessThan(100)
+    })
+  })
+})
+
+describe('StatisticalTests reference values', () => {
+  const stats = new StatisticalTests()
+
+  it('matches known p-values and quantiles', () => {
+    // χ² = 10 with 2 degrees of freedom: p = e^-5
+    expect(stats.chiSquareGoodnessOfFit([10, 20, 30], [20, 20, 20]).pValue).toBeCloseTo(Math.exp(-5), 6)
+    // t(0.975, 10) = 2.228
+    expect(stats.confidenceIntervalMean([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]).marginOfError).toBeCloseTo(2.228, 3)
+    // F(2, 6) = 2.846: p = (1 + F / 3)^-3
+    expect(stats.oneWayANOVA([[1, 2, 3], [2, 3, 4], [3, 4, 6]]).pValue).toBeCloseTo(0.1351, 4)
+    // 60/100 vs 45/100: z = 2.124, p = 0.0337
+    expect(stats.twoProportionTest(60, 100, 45, 100).pValue).toBeCloseTo(0.0337, 4)
+  })
+
+  it('calculates eta-squared as the between-groups share of the total sum of squares', () => {
+    const anova = stats.oneWayANOVA([[1, 2, 3], [4, 5, 6], [7, 8, 9]])
+
+    // SS between = 54, SS within = 6
+    expect(stats.etaSquared(anova)).toBeCloseTo(0.9, 10)
+  })
+})
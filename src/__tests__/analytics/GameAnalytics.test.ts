@@ -17,28 +17,28 @@ describe('Game Analytics Deep Tests', () => {
     
     // Generate mock game data for analysis
     mockGameData = Array.from({ length: 100 }, (_, index) => {
-      const totalChallenges = Math.floor(Math.random() * 10) + 1
-      const successfulChallenges = Math.floor(Math.random() * totalChallenges)
+      const totalChallenges = Math.floor(TestDataGenerator.random() * 10) + 1
+      const successfulChallenges = Math.floor(TestDataGenerator.random() * totalChallenges)
       const failedChallenges = totalChallenges - successfulChallenges
       
       return {
         gameId: index,
         workerId: index % 4,
-        outcome: Math.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
+        outcome: TestDataGenerator.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
         stats: {
           totalChallenges: totalChallenges,
           successfulChallenges: successfulChallenges,
           failedChallenges: failedChallenges,
-          cardsAcquired: Math.floor(Math.random() * 20),
-          highestVitality: Math.floor(Math.random() * 100) + 20,
-          turnsPlayed: Math.floor(Math.random() * 15) + 5,
+          cardsAcquired: Math.floor(TestDataGenerator.random() * 20),
+          highestVitality: Math.floor(TestDataGenerator.random() * 100) + 20,
+          turnsPlayed: Math.floor(TestDataGenerator.random() * 15) + 5,
           challengesCompleted: successfulChallenges,
           challengesFailed: failedChallenges,
-          finalVitality: Math.floor(Math.random() * 100),
-          finalInsuranceBurden: Math.floor(Math.random() * 50),
-          score: Math.floor(Math.random() * 1000) + 100
+          finalVitality: Math.floor(TestDataGenerator.random() * 100),
+          finalInsuranceBurden: Math.floor(TestDataGenerator.random() * 50),
+          score: Math.floor(TestDataGenerator.random() * 1000) + 100
         },
-        duration: Math.floor(Math.random() * 300) + 60,
+        duration: Math.floor(TestDataGenerator.random() * 300) + 60,
         strategy: 'balanced',
         stage: 'youth'
       }
@@ -71,10 +71,10 @@ describe('Game Analytics Deep Tests', () => {
 
     it('should analyze challenge difficulty balance', () => {
       const challengeData = mockGameData.map((game, index) => {
-        const total = game.stats.challengesCompleted + game.stats.challengesFailed
+        const total = (game.stats.challengesCompleted ?? 0) + (game.stats.challengesFailed ?? 0)
         return {
           challengeId: `challenge_${index}`,
-          successRate: total === 0 ? 0 : game.stats.challengesCompleted / total,
+          successRate: total === 0 ? 0 : (game.stats.challengesCompleted ?? 0) / total,
           attemptCount: total,
           stage: game.stage as GameStage
         }
@@ -94,7 +94,7 @@ describe('Game Analytics Deep Tests', () => {
       const biasedData = mockGameData.map((game, index) => ({
         ...game,
         strategy: index < 70 ? 'aggressive' : 'defensive',
-        score: index < 70 ? game.stats.score + 500 : game.stats.score // Aggressive strategy gets bonus
+        score: index < 70 ? (game.stats.score ?? 0) + 500 : (game.stats.score ?? 0) // Aggressive strategy gets bonus
       }))
       
       const analysis = gameAnalytics.detectOverpoweredStrategies(biasedData)
@@ -125,12 +125,12 @@ describe('Game Analytics Deep Tests', () => {
   describe('Player Behavior Analysis', () => {
     it('should analyze decision patterns', () => {
       const decisionData = mockGameData.map(game => ({
-        playerId: `player_${Math.floor(Math.random() * 50)}`,
-        decisions: Array.from({ length: game.totalTurns }, (_, turn) => ({
+        playerId: `player_${Math.floor(TestDataGenerator.random() * 50)}`,
+        decisions: Array.from({ length: game.stats.turnsPlayed }, (_, turn) => ({
           turn,
-          cardSelected: Math.floor(Math.random() * 5),
-          timeToDecide: Math.random() * 10 + 1,
-          outcomeSuccess: Math.random() > 0.3
+          cardSelected: Math.floor(TestDataGenerator.random() * 5),
+          timeToDecide: TestDataGenerator.random() * 10 + 1,
+          outcomeSuccess: TestDataGenerator.random() > 0.3
         }))
       }))
       
@@ -146,11 +146,11 @@ describe('Game Analytics Deep Tests', () => {
     it('should identify player archetypes', () => {
       const playerData = Array.from({ length: 50 }, (_, i) => ({
         playerId: `player_${i}`,
-        gamesPlayed: Math.floor(Math.random() * 20) + 1,
-        averageScore: Math.random() * 1000 + 200,
-        preferredStrategy: ['aggressive', 'defensive', 'balanced'][Math.floor(Math.random() * 3)],
-        riskTolerance: Math.random(),
-        sessionLength: Math.random() * 120 + 10 // minutes
+        gamesPlayed: Math.floor(TestDataGenerator.random() * 20) + 1,
+        averageScore: TestDataGenerator.random() * 1000 + 200,
+        preferredStrategy: ['aggressive', 'defensive', 'balanced'][Math.floor(TestDataGenerator.random() * 3)],
+        riskTolerance: TestDataGenerator.random(),
+        sessionLength: TestDataGenerator.random() * 120 + 10 // minutes
       }))
       
       const archetypes = gameAnalytics.identifyPlayerArchetypes(playerData)
@@ -171,10 +171,10 @@ describe('Game Analytics Deep Tests', () => {
     it('should analyze learning progression', () => {
       const progressionData = Array.from({ length: 30 }, (_, gameIndex) => ({
         gameNumber: gameIndex + 1,
-        score: 200 + gameIndex * 15 + Math.random() * 50, // Increasing trend with noise
-        completionTime: 300 - gameIndex * 5 + Math.random() * 30, // Decreasing trend
-        mistakeCount: Math.max(0, 8 - gameIndex * 0.2 + Math.random() * 2),
-        strategyComplexity: Math.min(10, gameIndex * 0.3 + Math.random())
+        score: 200 + gameIndex * 15 + TestDataGenerator.random() * 50, // Increasing trend with noise
+        completionTime: 300 - gameIndex * 5 + TestDataGenerator.random() * 30, // Decreasing trend
+        mistakeCount: Math.max(0, 8 - gameIndex * 0.2 + TestDataGenerator.random() * 2),
+        strategyComplexity: Math.min(10, gameIndex * 0.3 + TestDataGenerator.random())
       }))
       
       const analysis = gameAnalytics.analyzeLearningProgression(progressionData)
@@ -191,11 +191,11 @@ describe('Game Analytics Deep Tests', () => {
     it('should calculate player engagement metrics', () => {
       const engagementData = Array.from({ length: 100 }, (_, i) => ({
         playerId: `player_${i}`,
-        sessionsPerWeek: Math.random() * 7 + 1,
-        averageSessionLength: Math.random() * 60 + 15,
-        retentionDays: Math.floor(Math.random() * 30) + 1,
-        completionRate: Math.random() * 0.4 + 0.6, // 60-100%
-        socialInteractions: Math.floor(Math.random() * 10)
+        sessionsPerWeek: TestDataGenerator.random() * 7 + 1,
+        averageSessionLength: TestDataGenerator.random() * 60 + 15,
+        retentionDays: Math.floor(TestDataGenerator.random() * 30) + 1,
+        completionRate: TestDataGenerator.random() * 0.4 + 0.6, // 60-100%
+        socialInteractions: Math.floor(TestDataGenerator.random() * 10)
       }))
       
       const metrics = gameAnalytics.calculateEngagementMetrics(engagementData)
@@ -213,13 +213,13 @@ describe('Game Analytics Deep Tests', () => {
     it('should identify performance bottlenecks', async () => {
       // Simulate performance data from multiple games
       const performanceData = Array.from({ length: 50 }, () => ({
-        gameId: `game_${Math.random().toString(36).substr(2, 9)}`,
-        initializationTime: Math.random() * 100 + 50,
-        renderingTime: Math.random() * 20 + 5,
-        inputProcessingTime: Math.random() * 10 + 2,
-        memoryUsage: Math.random() * 100 + 20,
-        frameRate: Math.random() * 30 + 30,
-        loadingTime: Math.random() * 200 + 100
+        gameId: `game_${TestDataGenerator.random().toString(36).substr(2, 9)}`,
+        initializationTime: TestDataGenerator.random() * 100 + 50,
+        renderingTime: TestDataGenerator.random() * 20 + 5,
+        inputProcessingTime: TestDataGenerator.random() * 10 + 2,
+        memoryUsage: TestDataGenerator.random() * 100 + 20,
+        frameRate: TestDataGenerator.random() * 30 + 30,
+        loadingTime: TestDataGenerator.random() * 200 + 100
       }))
       
       const analysis = gameAnalytics.analyzePerformanceBottlenecks(performanceData)
@@ -235,10 +235,10 @@ describe('Game Analytics Deep Tests', () => {
     it('should analyze memory usage patterns', () => {
       const memoryData = Array.from({ length: 100 }, (_, i) => ({
         timestamp: i * 1000,
-        heapUsed: 50 + Math.sin(i * 0.1) * 10 + Math.random() * 5,
+        heapUsed: 50 + Math.sin(i * 0.1) * 10 + TestDataGenerator.random() * 5,
         heapTotal: 100 + Math.sin(i * 0.05) * 20,
-        external: Math.random() * 10 + 5,
-        gcEvents: Math.random() > 0.9 ? 1 : 0
+        external: TestDataGenerator.random() * 10 + 5,
+        gcEvents: TestDataGenerator.random() > 0.9 ? 1 : 0
       }))
       
       const analysis = gameAnalytics.analyzeMemoryPatterns(memoryData)
@@ -253,16 +253,16 @@ describe('Game Analytics Deep Tests', () => {
     it('should benchmark against baseline performance', async () => {
       // Create baseline performance data
       const baselineData = Array.from({ length: 20 }, () => ({
-        executionTime: 100 + Math.random() * 20,
-        memoryUsage: 50 + Math.random() * 10,
-        renderTime: 16.67 + Math.random() * 2 // ~60fps
+        executionTime: 100 + TestDataGenerator.random() * 20,
+        memoryUsage: 50 + TestDataGenerator.random() * 10,
+        renderTime: 16.67 + TestDataGenerator.random() * 2 // ~60fps
       }))
       
       // Create current performance data (slightly degraded)
       const currentData = Array.from({ length: 20 }, () => ({
-        executionTime: 110 + Math.random() * 25,
-        memoryUsage: 55 + Math.random() * 15,
-        renderTime: 18 + Math.random() * 3
+        executionTime: 110 + TestDataGenerator.random() * 25,
+        memoryUsage: 55 + TestDataGenerator.random() * 15,
+        renderTime: 18 + TestDataGenerator.random() * 3
       }))
       
       const comparison = gameAnalytics.benchmarkPerformance(currentData, baselineData)
@@ -282,7 +282,7 @@ describe('Game Analytics Deep Tests', () => {
         ...game,
         timeOfDay: (index % 24), // Hour of day
         dayOfWeek: (index % 7), // Day of week
-        difficulty: ['easy', 'medium', 'hard'][Math.floor(Math.random() * 3)],
+        difficulty: ['easy', 'medium', 'hard'][Math.floor(TestDataGenerator.random() * 3)],
         playerLevel: Math.floor(index / 10) + 1
       }))
       
@@ -297,9 +297,9 @@ describe('Game Analytics Deep Tests', () => {
 
     it('should perform clustering analysis', () => {
       const clusteringData = mockGameData.map(game => [
-        game.stats.finalVitality,
-        game.stats.finalInsuranceBurden,
-        game.stats.score,
+        game.stats.finalVitality ?? 0,
+        game.stats.finalInsuranceBurden ?? 0,
+        game.stats.score ?? 0,
         game.stats.turnsPlayed
       ])
       
@@ -322,9 +322,9 @@ describe('Game Analytics Deep Tests', () => {
       // Create data spanning multiple time periods
       const timeSeriesData = Array.from({ length: 365 }, (_, day) => ({
         date: new Date(2023, 0, day + 1),
-        playerCount: 1000 + Math.sin(day * 2 * Math.PI / 7) * 200 + Math.random() * 100, // Weekly pattern
-        averageScore: 500 + Math.sin(day * 2 * Math.PI / 30) * 50 + Math.random() * 50, // Monthly pattern
-        engagementRate: 0.7 + Math.sin(day * 2 * Math.PI / 365) * 0.1 + Math.random() * 0.1 // Yearly pattern
+        playerCount: 1000 + Math.sin(day * 2 * Math.PI / 7) * 200 + TestDataGenerator.random() * 100, // Weekly pattern
+        averageScore: 500 + Math.sin(day * 2 * Math.PI / 30) * 50 + TestDataGenerator.random() * 50, // Monthly pattern
+        engagementRate: 0.7 + Math.sin(day * 2 * Math.PI / 365) * 0.1 + TestDataGenerator.random() * 0.1 // Yearly pattern
       }))
       
       const trends = gameAnalytics.identifySeasonalTrends(timeSeriesData)
@@ -341,8 +341,8 @@ describe('Game Analytics Deep Tests', () => {
       // Create trending data
       const historicalData = Array.from({ length: 100 }, (_, i) => ({
         period: i + 1,
-        value: 100 + i * 2 + Math.sin(i * 0.1) * 10 + Math.random() * 5,
-        confidence: Math.random() * 0.2 + 0.8
+        value: 100 + i * 2 + Math.sin(i * 0.1) * 10 + TestDataGenerator.random() * 5,
+        confidence: TestDataGenerator.random() * 0.2 + 0.8
       }))
       
       const predictions = gameAnalytics.predictTrends(historicalData, 10) // Predict next 10 periods
@@ -362,15 +362,15 @@ describe('Game Analytics Deep Tests', () => {
   describe('A/B Testing and Experimentation', () => {
     it('should analyze A/B test results', () => {
       const aGroupData = Array.from({ length: 50 }, () => ({
-        converted: Math.random() > 0.4, // 60% conversion rate
-        value: Math.random() * 100 + 50,
-        engagementTime: Math.random() * 30 + 20
+        converted: TestDataGenerator.random() > 0.4, // 60% conversion rate
+        value: TestDataGenerator.random() * 100 + 50,
+        engagementTime: TestDataGenerator.random() * 30 + 20
       }))
       
       const bGroupData = Array.from({ length: 50 }, () => ({
-        converted: Math.random() > 0.3, // 70% conversion rate
-        value: Math.random() * 120 + 60,
-        engagementTime: Math.random() * 35 + 25
+        converted: TestDataGenerator.random() > 0.3, // 70% conversion rate
+        value: TestDataGenerator.random() * 120 + 60,
+        engagementTime: TestDataGenerator.random() * 35 + 25
       }))
       
       const analysis = gameAnalytics.analyzeABTest(aGroupData, bGroupData)
@@ -424,7 +424,7 @@ describe('Game Analytics Deep Tests', () => {
       
       // Each row should have same number of features
       if (features.featureMatrix.length > 1) {
-        const featureCount = features.featureMatrix[0].length
+        const featureCount = features.featureMatrix[0]!.length
         features.featureMatrix.forEach(row => {
           expect(row.length).toBe(featureCount)
         })
@@ -494,9 +494,9 @@ describe('Game Analytics Deep Tests', () => {
       for (let i = 0; i < 50; i++) {
         streamProcessor.addData({
           timestamp: Date.now() + i * 1000,
-          score: Math.random() * 1000,
-          completion_time: Math.random() * 300,
-          engagement: Math.random()
+          score: TestDataGenerator.random() * 1000,
+          completion_time: TestDataGenerator.random() * 300,
+          engagement: TestDataGenerator.random()
         })
       }
       
@@ -517,7 +517,7 @@ describe('Game Analytics Deep Tests', () => {
       expect(anomalyDetector).toBeDefined()
       
       // Test normal data - ベースラインの範囲内でデータを生成
-      const baselineScores = mockGameData.slice(0, 30).map(d => d.stats.score)
+      const baselineScores = mockGameData.slice(0, 30).map(d => d.stats.score ?? 0)
       const avgScore = baselineScores.reduce((a, b) => a + b, 0) / baselineScores.length
       const normalPoint = TestDataGenerator.createTestPlayerStats({
         score: Math.floor(avgScore), // ベースラインの平均値に近いスコア
@@ -547,7 +547,7 @@ describe('Game Analytics Deep Tests', () => {
       const largeDataset = Array.from({ length: 10000 }, (_, i) => ({
         gameId: i,
         workerId: i % 4,
-        outcome: Math.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
+        outcome: TestDataGenerator.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
         stats: TestDataGenerator.createTestPlayerStats({ turnsPlayed: i % 10 + 1 }),
         duration: 180,
         strategy: 'balanced',
@@ -574,7 +574,7 @@ describe('Game Analytics Deep Tests', () => {
         const dataset = Array.from({ length: size }, (_, i) => ({
           gameId: i,
           workerId: i % 4,
-          outcome: Math.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
+          outcome: TestDataGenerator.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
           stats: TestDataGenerator.createTestPlayerStats(),
           duration: 180,
           strategy: 'balanced',
@@ -600,7 +600,7 @@ describe('Game Analytics Deep Tests', () => {
       const largeDataset = Array.from({ length: 5000 }, (_, i) => ({
         gameId: i,
         workerId: i % 4,
-        outcome: Math.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
+        outcome: TestDataGenerator.random() > 0.5 ? 'victory' : 'game_over' as 'victory' | 'game_over',
         stats: TestDataGenerator.createTestPlayerStats(),
         duration: 180,
         strategy: 'balanced',
@@ -245,7 +245,8 @@ describe('Statistical Analysis Accuracy Tests', () => {
       
       expect(etaSquared).toBeGreaterThan(0)
       expect(etaSquared).toBeLessThanOrEqual(1)
-      expect(etaSquared).toBeCloseTo(1, 1) // Perfect separation
+      // SSB = 54, SSW = 6: the groups are well separated but not perfectly (spread within each group)
+      expect(etaSquared).toBeCloseTo(54 / 60, 10)
     })
 
     it('should calculate Pearson correlation coefficient', () => {
@@ -413,11 +414,12 @@ describe('Statistical Analysis Accuracy Tests', () => {
     it('should validate against known statistical distributions', () => {
       // Test chi-square distribution properties
       const degreesOfFreedom = 5
-      const chiSquareValues = Array.from({ length: 1000 }, () => {
+      // Seeded and large enough that the sample variance (SD about 0.2 here) stays within the tolerance
+      const chiSquareValues = Array.from({ length: 10000 }, () => {
         // Generate chi-square distributed values (sum of squared normal variables)
         let sum = 0
         for (let i = 0; i < degreesOfFreedom; i++) {
-          const normal = Math.sqrt(-2 * Math.log(Math.random())) * Math.cos(2 * Math.PI * Math.random())
+          const normal = Math.sqrt(-2 * Math.log(1 - TestDataGenerator.random())) * Math.cos(2 * Math.PI * TestDataGenerator.random())
           sum += normal * normal
         }
         return sum
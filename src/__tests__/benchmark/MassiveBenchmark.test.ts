@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { MassiveBenchmark } from '@/benchmark/MassiveBenchmark'
-import { TestDataGenerator, PerformanceTestHelper, MemoryTestHelper, StatisticalTestHelper } from '../utils/TestHelpers'
+import { TestDataGenerator, PerformanceTestHelper, MemoryTestHelper } from '../utils/TestHelpers'
 import type { GameConfig } from '@/domain/types/game.types'
 
 describe('Massive Scale Benchmark Tests', () => {
@@ -11,7 +11,7 @@ describe('Massive Scale Benchmark Tests', () => {
     TestDataGenerator.setSeed(12345)
     testConfig = TestDataGenerator.createTestGameConfig({
       maxTurns: 3, // Keep games short for testing
-      initialVitality: 100
+      startingVitality: 100
     })
     
     benchmark = new MassiveBenchmark()
@@ -268,14 +268,13 @@ describe('Massive Scale Benchmark Tests', () => {
 
         await benchmark.runBenchmark(config)
         
-        if (global.gc) global.gc() // Force garbage collection
+        globalThis.gc?.() // Force garbage collection
         
         memoryReadings.push(MemoryTestHelper.getMemoryDelta())
       }
 
       // Memory should not grow significantly between batches
-      const memoryStats = StatisticalTestHelper.calculateStats(memoryReadings)
-      const memoryGrowth = memoryReadings[memoryReadings.length - 1] - memoryReadings[0]
+      const memoryGrowth = memoryReadings[memoryReadings.length - 1]! - memoryReadings[0]!
 
       expect(memoryGrowth).toBeLessThan(20 * 1024 * 1024) // Less than 20MB growth
 
@@ -316,7 +315,7 @@ describe('Massive Scale Benchmark Tests', () => {
       // Force cleanup
       await benchmark.cleanup()
       
-      if (global.gc) global.gc()
+      globalThis.gc?.()
       
       const finalMemory = MemoryTestHelper.getMemoryDelta()
       const memoryRetention = finalMemory - initialMemory
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GameTurnManager } from '@/domain/services/GameTurnManager'
 import { Game } from '@/domain/entities/Game'
+import { CardEffectEngine } from '@/domain/services/CardEffectEngine'
 
 // Mock dependencies
 const mockStageManager = {
@@ -26,8 +27,14 @@ const mockGame = {
     setStage: vi.fn(),
     expireAllInsurances: vi.fn(), // Add missing method
     getActiveInsurances: vi.fn().mockReturnValue([]),
+    isEndlessMode: vi.fn().mockReturnValue(false),
+    advanceCardEffects: vi.fn(),
+    resolveCardEffects: vi.fn().mockReturnValue(CardEffectEngine.createEmptyOutcome()),
+    applyCardEffects: vi.fn(),
+    drawLifeEvent: vi.fn(), // Life event at turn start (none drawn)
     heal: vi.fn(),
     updateInsuranceBurden: vi.fn(), // Called inside updateInsuranceExpirations logic via (game as any)
+    refreshRiskProfile: vi.fn(), // Called before paying the insurance burden
     cardManager: {
         discardHand: vi.fn(),
         drawCards: vi.fn()
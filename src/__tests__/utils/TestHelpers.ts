@@ -1,7 +1,9 @@
 import type { GameRenderer } from '@/interfaces/GameRenderer'
 import type { Game } from '@/domain/entities/Game'
 import type { Card } from '@/domain/entities/Card'
-import type { PlayerStats, ChallengeResult, GameConfig } from '@/domain/types/game.types'
+import type { PlayerStats, ChallengeResult, ChallengeStakes, GameConfig, PendingInsuranceClaim } from '@/domain/types/game.types'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '@/domain/services/ReplayabilityService'
 import type { GameStage } from '@/domain/types/card.types'
 import { CardFactory } from '@/domain/services/CardFactory'
 
@@ -188,6 +190,28 @@ export class MockRenderer implements GameRenderer {
     return this.inputValues[this.inputIndex++] || 'renew'
   }
 
+  async askInsuranceClaim(claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    this.recordCall('askInsuranceClaim', claim, payout)
+    return true
+  }
+
+  async askLifeEventChoice(event: RandomEvent): Promise<number> {
+    this.recordCall('askLifeEventChoice', event)
+    return 0
+  }
+
+  async askDreamSelection(cards: Card[]): Promise<Card> {
+    this.recordCall('askDreamSelection', cards)
+    const index = this.inputValues[this.inputIndex++] || 0
+    return cards[index] || cards[0]!
+  }
+
+  async askChallengeSelection(challenges: Card[], stakes?: (ChallengeStakes | undefined)[]): Promise<Card> {
+    this.recordCall('askChallengeSelection', challenges, stakes)
+    const index = this.inputValues[this.inputIndex++] || 0
+    return challenges[index] || challenges[0]!
+  }
+
   async askConfirmation(message: string, defaultChoice?: 'yes' | 'no'): Promise<'yes' | 'no'> {
     this.recordCall('askConfirmation', message, defaultChoice)
     return this.inputValues[this.inputIndex++] || defaultChoice || 'no'
@@ -426,9 +450,7 @@ export class MemoryTestHelper {
    * Start memory monitoring
    */
   static startMemoryMonitoring(): void {
-    if (global.gc) {
-      global.gc()
-    }
+    globalThis.gc?.()
     this.initialMemory = process.memoryUsage().heapUsed
   }
 
@@ -436,9 +458,7 @@ export class MemoryTestHelper {
    * Get current memory usage delta
    */
   static getMemoryDelta(): number {
-    if (global.gc) {
-      global.gc()
-    }
+    globalThis.gc?.()
     const currentMemory = process.memoryUsage().heapUsed
     return currentMemory - this.initialMemory
   }
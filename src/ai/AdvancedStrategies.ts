@@ -2,6 +2,7 @@ import type { Card } from '@/domain/entities/Card'
 import type { Game } from '@/domain/entities/Game'
 import type { PlayerStats, GameConfig } from '@/domain/types/game.types'
 import type { GameStage } from '@/domain/types/card.types'
+import { defaultRandom, pickRandom, randomInt, shuffleArray, type RandomSource } from '@/common/SeededRandom'
 
 /**
  * AI strategy interface
@@ -122,6 +123,35 @@ export interface GeneticIndividual {
   parents?: string[]
 }
 
+/**
+ * Version of the exported Q-learning and genetic models (bump when the shape changes)
+ */
+export const AI_MODEL_VERSION = 1
+
+/**
+ * Learned state of QLearningStrategy
+ */
+export interface QLearningModel {
+  type: 'q-learning'
+  version: number
+  parameters: MLParameters
+  gameCount: number
+  qTable: Record<string, Record<string, number>> // state key -> action -> Q-value
+}
+
+/**
+ * Learned state of GeneticStrategy
+ */
+export interface GeneticModel {
+  type: 'genetic'
+  version: number
+  generation: number
+  mutationRate: number
+  crossoverRate: number
+  population: GeneticIndividual[]
+  currentIndex: number // individual being evaluated
+}
+
 /**
  * Monte Carlo tree search node
  */
@@ -142,10 +172,16 @@ export class RandomStrategy implements AIStrategy {
   name = 'Random'
   description = 'Makes random decisions for baseline comparison'
 
+  private readonly random: RandomSource
+
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random
+  }
+
   selectCards(availableCards: Card[], requiredPower: number, gameState: GameState): Card[] {
     if (availableCards.length === 0) return []
     
-    const shuffled = [...availableCards].sort(() => Math.random() - 0.5)
+    const shuffled = shuffleArray(this.random, availableCards)
     const selected: Card[] = []
     let totalPower = 0
     
@@ -159,19 +195,19 @@ export class RandomStrategy implements AIStrategy {
   }
 
   shouldAttemptChallenge(challenge: Card, availableCards: Card[], gameState: GameState): boolean {
-    return Math.random() > 0.3 // 70% chance to attempt
+    return this.random.next() > 0.3 // 70% chance to attempt
   }
 
   selectInsuranceType(availableTypes: ('whole_life' | 'term')[], gameState: GameState): 'whole_life' | 'term' {
-    return availableTypes[Math.floor(Math.random() * availableTypes.length)]
+    return pickRandom(this.random, availableTypes) ?? 'term'
   }
 
   shouldRenewInsurance(insurance: Card, cost: number, gameState: GameState): boolean {
-    return Math.random() > 0.5
+    return this.random.next() > 0.5
   }
 
   calculateRiskScore(gameState: GameState): number {
-    return Math.random()
+    return this.random.next()
   }
 
   adaptStrategy(gameResults: GameResult[], currentPerformance: StrategyPerformance): void {
@@ -373,6 +409,7 @@ export class QLearningStrategy implements AIStrategy {
   name = 'Q-Learning'
   description = 'Uses reinforcement learning to optimize decisions'
   
+  private readonly random: RandomSource
   private qTable: Map<string, Map<string, number>> = new Map()
   private parameters: MLParameters = {
     learningRate: 0.1,
@@ -383,12 +420,53 @@ export class QLearningStrategy implements AIStrategy {
     updateFrequency: 100
   }
   private gameCount: number = 0
+  // Decisions made since the last adaptStrategy() call, credited with that game's outcome
   private recentExperiences: Array<{
     state: string
     action: string
     reward: number
     nextState: string
   }> = []
+  private training = true
+
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random
+  }
+
+  /**
+   * Switch between learning (explores and records decisions) and playing greedily with the learned Q-values
+   */
+  setTraining(enabled: boolean): void {
+    this.training = enabled
+    this.recentExperiences = []
+  }
+
+  /**
+   * Copy of the learned Q-table and parameters, ready for JSON
+   */
+  exportModel(): QLearningModel {
+    return {
+      type: 'q-learning',
+      version: AI_MODEL_VERSION,
+      parameters: { ...this.parameters },
+      gameCount: this.gameCount,
+      qTable: Object.fromEntries(Array.from(this.qTable, ([state, actions]) => [state, Object.fromEntries(actions)]))
+    }
+  }
+
+  /**
+   * Continue from an exported model (replaces the current Q-table)
+   * @throws {Error} When the model is not a Q-learning model of this version
+   */
+  importModel(model: QLearningModel): void {
+    if (model.type !== 'q-learning' || model.version !== AI_MODEL_VERSION) {
+      throw new Error(`Unsupported Q-learning model: ${model.type} v${model.version} (expected q-learning v${AI_MODEL_VERSION})`)
+    }
+    this.parameters = { ...model.parameters }
+    this.gameCount = model.gameCount
+    this.qTable = new Map(Object.entries(model.qTable).map(([state, actions]) => [state, new Map(Object.entries(actions))]))
+    this.recentExperiences = []
+  }
 
   selectCards(availableCards: Card[], requiredPower: number, gameState: GameState): Card[] {
     const stateKey = this.encodeGameState(gameState)
@@ -415,7 +493,8 @@ export class QLearningStrategy implements AIStrategy {
   }
 
   shouldRenewInsurance(insurance: Card, cost: number, gameState: GameState): boolean {
-    const stateKey = this.encodeGameState(gameState) + `_${insurance.id}_${cost}`
+    // Card IDs differ in every game, so the insurance is identified by name
+    const stateKey = this.encodeGameState(gameState) + `_${insurance.name}_${cost}`
     const actions = ['renew', 'expire']
     
     const action = this.selectAction(stateKey, actions)
@@ -436,6 +515,12 @@ export class QLearningStrategy implements AIStrategy {
   }
 
   adaptStrategy(gameResults: GameResult[], currentPerformance: StrategyPerformance): void {
+    // Credit the decisions made during the last game with its outcome
+    const lastResult = gameResults[gameResults.length - 1]
+    if (lastResult) {
+      this.learnFromExperiences(lastResult.outcome === 'victory' ? 1 : -1)
+    }
+
     // Update Q-table based on game results
     for (const result of gameResults) {
       this.updateQValuesFromGame(result)
@@ -449,9 +534,20 @@ export class QLearningStrategy implements AIStrategy {
   }
 
   private selectAction(stateKey: string, possibleActions: string[]): string {
+    const action = this.chooseAction(stateKey, possibleActions)
+    if (this.training) {
+      this.recentExperiences.push({ state: stateKey, action, reward: 0, nextState: '' })
+      if (this.recentExperiences.length > this.parameters.memorySize) {
+        this.recentExperiences.shift()
+      }
+    }
+    return action
+  }
+
+  private chooseAction(stateKey: string, possibleActions: string[]): string {
     // ε-greedy action selection
-    if (Math.random() < this.parameters.explorationRate) {
-      return possibleActions[Math.floor(Math.random() * possibleActions.length)]
+    if (this.training && this.random.next() < this.parameters.explorationRate) {
+      return possibleActions[randomInt(this.random, possibleActions.length)]
     }
     
     const stateActions = this.qTable.get(stateKey) || new Map()
@@ -469,6 +565,23 @@ export class QLearningStrategy implements AIStrategy {
     return bestAction
   }
 
+  /**
+   * Q-learning over the recorded decisions: each leads to the next one, the last to the final reward
+   */
+  private learnFromExperiences(finalReward: number): void {
+    const experiences = this.recentExperiences
+    this.recentExperiences = []
+    
+    // Walk backwards so the final reward reaches earlier decisions within one game
+    for (let i = experiences.length - 1; i >= 0; i--) {
+      const experience = experiences[i]!
+      const isLast = i === experiences.length - 1
+      experience.reward = isLast ? finalReward : 0
+      experience.nextState = isLast ? '' : experiences[i + 1]!.state
+      this.updateQValue(experience.state, experience.action, experience.reward, experience.nextState)
+    }
+  }
+
   private updateQValue(state: string, action: string, reward: number, nextState: string): void {
     if (!this.qTable.has(state)) {
       this.qTable.set(state, new Map())
@@ -544,10 +657,60 @@ export class GeneticStrategy implements AIStrategy {
   private mutationRate: number = 0.1
   private crossoverRate: number = 0.8
   private currentIndividual: GeneticIndividual
+  private currentIndex: number = 0
+  private readonly random: RandomSource
   
-  constructor() {
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random
     this.initializePopulation()
-    this.currentIndividual = this.population[0]
+    this.currentIndividual = this.population[0]!
+  }
+
+  /**
+   * Switch between evaluating the individuals in turn and playing with the fittest one
+   */
+  setTraining(enabled: boolean): void {
+    if (enabled) {
+      this.currentIndividual = this.population[this.currentIndex]!
+    } else {
+      this.currentIndividual = this.population.reduce((best, individual) =>
+        individual.fitness > best.fitness ? individual : best)
+    }
+  }
+
+  /**
+   * Copy of the population, ready for JSON
+   */
+  exportModel(): GeneticModel {
+    return {
+      type: 'genetic',
+      version: AI_MODEL_VERSION,
+      generation: this.generation,
+      mutationRate: this.mutationRate,
+      crossoverRate: this.crossoverRate,
+      population: this.population.map(individual => ({ ...individual, genes: [...individual.genes] })),
+      currentIndex: this.currentIndex
+    }
+  }
+
+  /**
+   * Continue from an exported model (replaces the current population)
+   * @throws {Error} When the model is not a genetic model of this version
+   */
+  importModel(model: GeneticModel): void {
+    if (model.type !== 'genetic' || model.version !== AI_MODEL_VERSION) {
+      throw new Error(`Unsupported genetic model: ${model.type} v${model.version} (expected genetic v${AI_MODEL_VERSION})`)
+    }
+    if (model.population.length === 0) {
+      throw new Error('Genetic model has an empty population')
+    }
+    this.population = model.population.map(individual => ({ ...individual, genes: [...individual.genes] }))
+    this.populationSize = this.population.length
+    this.generation = model.generation
+    this.mutationRate = model.mutationRate
+    this.crossoverRate = model.crossoverRate
+    this.currentIndex = Math.min(Math.max(0, model.currentIndex), this.population.length - 1)
+    this.currentIndividual = this.population[this.currentIndex]!
   }
 
   selectCards(availableCards: Card[], requiredPower: number, gameState: GameState): Card[] {
@@ -556,8 +719,8 @@ export class GeneticStrategy implements AIStrategy {
     const efficiency = genes[1] // 0-1 scale
     
     const sorted = [...availableCards].sort((a, b) => {
-      const scoreA = (a.power || 0) * efficiency + Math.random() * (1 - efficiency)
-      const scoreB = (b.power || 0) * efficiency + Math.random() * (1 - efficiency)
+      const scoreA = (a.power || 0) * efficiency + this.random.next() * (1 - efficiency)
+      const scoreB = (b.power || 0) * efficiency + this.random.next() * (1 - efficiency)
       return scoreB - scoreA
     })
     
@@ -603,22 +766,25 @@ export class GeneticStrategy implements AIStrategy {
     return Math.max(0, Math.min(1, vitalityRisk + turnRisk + insuranceRisk))
   }
 
-  adaptStrategy(gameResults: GameResult[], currentPerformance: StrategyPerformance): void {
+  adaptStrategy(_gameResults: GameResult[], currentPerformance: StrategyPerformance): void {
     // Update fitness of current individual
     this.currentIndividual.fitness = this.calculateFitness(currentPerformance)
     
-    // Check if it's time to evolve
-    if (gameResults.length >= this.populationSize) {
+    // Evaluate the individuals in turn and evolve once the whole generation has played
+    this.currentIndex++
+    if (this.currentIndex >= this.population.length) {
       this.evolvePopulation()
       this.generation++
+      this.currentIndex = 0
     }
+    this.currentIndividual = this.population[this.currentIndex]!
   }
 
   private initializePopulation(): void {
     for (let i = 0; i < this.populationSize; i++) {
       this.population.push({
         id: `gen0_${i}`,
-        genes: Array.from({ length: 10 }, () => Math.random()),
+        genes: Array.from({ length: 10 }, () => this.random.next()),
         fitness: 0,
         generation: 0
       })
@@ -640,7 +806,7 @@ export class GeneticStrategy implements AIStrategy {
       const parent1 = this.tournamentSelection()
       const parent2 = this.tournamentSelection()
       
-      if (Math.random() < this.crossoverRate) {
+      if (this.random.next() < this.crossoverRate) {
         const offspring = this.crossover(parent1, parent2)
         this.mutate(offspring)
         newPopulation.push(offspring)
@@ -658,7 +824,7 @@ export class GeneticStrategy implements AIStrategy {
     const tournament = []
     
     for (let i = 0; i < tournamentSize; i++) {
-      const randomIndex = Math.floor(Math.random() * this.population.length)
+      const randomIndex = randomInt(this.random, this.population.length)
       tournament.push(this.population[randomIndex])
     }
     
@@ -668,7 +834,7 @@ export class GeneticStrategy implements AIStrategy {
   }
 
   private crossover(parent1: GeneticIndividual, parent2: GeneticIndividual): GeneticIndividual {
-    const crossoverPoint = Math.floor(Math.random() * parent1.genes.length)
+    const crossoverPoint = randomInt(this.random, parent1.genes.length)
     const childGenes = [
       ...parent1.genes.slice(0, crossoverPoint),
       ...parent2.genes.slice(crossoverPoint)
@@ -685,8 +851,8 @@ export class GeneticStrategy implements AIStrategy {
 
   private mutate(individual: GeneticIndividual): void {
     for (let i = 0; i < individual.genes.length; i++) {
-      if (Math.random() < this.mutationRate) {
-        individual.genes[i] = Math.random()
+      if (this.random.next() < this.mutationRate) {
+        individual.genes[i] = this.random.next()
       }
     }
   }
@@ -711,6 +877,11 @@ export class MCTSStrategy implements AIStrategy {
   private root: MCTSNode | null = null
   private iterations: number = 1000
   private explorationConstant: number = Math.sqrt(2)
+  private readonly random: RandomSource
+
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random
+  }
 
   selectCards(availableCards: Card[], requiredPower: number, gameState: GameState): Card[] {
     const rootState = { ...gameState }
@@ -799,7 +970,7 @@ export class MCTSStrategy implements AIStrategy {
       const actions = this.getValidActions(currentState)
       if (actions.length === 0) break
       
-      const randomAction = actions[Math.floor(Math.random() * actions.length)]
+      const randomAction = actions[randomInt(this.random, actions.length)]
       currentState = this.applyAction(currentState, randomAction)
       steps++
     }
@@ -926,8 +1097,13 @@ export class AdvancedAIManager {
   private performanceHistory: Map<string, StrategyPerformance[]> = new Map()
   private currentStrategy: AIStrategy
   private gameResults: GameResult[] = []
+  private readonly random: RandomSource
 
-  constructor() {
+  /**
+   * @param random Random source shared by all strategies (pass a SeededRandom for reproducible runs)
+   */
+  constructor(random: RandomSource = defaultRandom) {
+    this.random = random
     this.initializeStrategies()
     this.currentStrategy = this.strategies.get('Balanced')!
   }
@@ -936,13 +1112,13 @@ export class AdvancedAIManager {
    * Initialize all available strategies
    */
   private initializeStrategies(): void {
-    this.strategies.set('Random', new RandomStrategy())
+    this.strategies.set('Random', new RandomStrategy(this.random))
     this.strategies.set('Greedy', new GreedyStrategy())
     this.strategies.set('Conservative', new ConservativeStrategy())
     this.strategies.set('Balanced', new BalancedStrategy())
-    this.strategies.set('Q-Learning', new QLearningStrategy())
-    this.strategies.set('Genetic', new GeneticStrategy())
-    this.strategies.set('MCTS', new MCTSStrategy())
+    this.strategies.set('Q-Learning', new QLearningStrategy(this.random))
+    this.strategies.set('Genetic', new GeneticStrategy(this.random))
+    this.strategies.set('MCTS', new MCTSStrategy(this.random))
   }
 
   /**
@@ -1179,21 +1355,21 @@ export class AdvancedAIManager {
   private async simulateGame(): Promise<GameResult> {
     // Simplified game simulation
     const mockResult: GameResult = {
-      outcome: Math.random() > 0.5 ? 'victory' : 'game_over',
+      outcome: this.random.next() > 0.5 ? 'victory' : 'game_over',
       finalStats: {
-        totalChallenges: Math.floor(Math.random() * 20) + 5,
-        successfulChallenges: Math.floor(Math.random() * 15) + 2,
-        failedChallenges: Math.floor(Math.random() * 10),
-        cardsAcquired: Math.floor(Math.random() * 10) + 2,
-        highestVitality: Math.floor(Math.random() * 30) + 10,
-        turnsPlayed: Math.floor(Math.random() * 15) + 5,
+        totalChallenges: Math.floor(this.random.next() * 20) + 5,
+        successfulChallenges: Math.floor(this.random.next() * 15) + 2,
+        failedChallenges: Math.floor(this.random.next() * 10),
+        cardsAcquired: Math.floor(this.random.next() * 10) + 2,
+        highestVitality: Math.floor(this.random.next() * 30) + 10,
+        turnsPlayed: Math.floor(this.random.next() * 15) + 5,
         gameStartTime: Date.now() - 300000,
         gameEndTime: Date.now()
       },
       strategy: this.currentStrategy.name,
       gameState: {} as GameState, // Simplified
       decisions: [],
-      finalScore: Math.floor(Math.random() * 100) + 50
+      finalScore: Math.floor(this.random.next() * 100) + 50
     }
     
     return mockResult
@@ -1217,5 +1393,3 @@ export interface StrategyTournamentResult {
     bestPerformance: number
   }
 }
-
-export { AdvancedAIManager }
\ No newline at end of file
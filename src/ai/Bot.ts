@@ -0,0 +1,209 @@
+import type { Card } from '../domain/entities/Card'
+import type { Game } from '../domain/entities/Game'
+import type { GameAction, InsuranceTypeChoice, PendingInsuranceClaim } from '../domain/types/game.types'
+import type { InsurancePayoutQuote } from '../domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '../domain/services/ReplayabilityService'
+import { defaultRandom, randomInt, type RandomSource } from '../common/SeededRandom'
+
+/**
+ * A player that can make every decision of the game loop.
+ *
+ * Each decision is a choice among Game.getLegalActions(): characters, dreams, challenges,
+ * card toggles, insurance offers, reward cards, renewals, claims, life events and ending the turn.
+ * Drivers only ever hand a bot the actions that answer the current question, so the same bot
+ * can play through Game.apply() (BotPlayer) or answer GameController's prompts (BotGameRenderer).
+ */
+export interface Bot {
+  readonly name: string
+  readonly description: string
+  /**
+   * Pick one of the given actions (never empty) for the current state of the game
+   */
+  chooseAction(game: Game, actions: GameAction[]): GameAction | Promise<GameAction>
+}
+
+/**
+ * Insurance offer chosen after a successful challenge
+ */
+export interface InsuranceDecision {
+  insuranceType: InsuranceTypeChoice['insuranceType']
+  durationType: 'term' | 'whole_life'
+}
+
+/**
+ * Base for bots built from per-decision rules.
+ *
+ * Sorts the legal actions into the decision they belong to and asks the matching hook.
+ * Subclasses pick the challenge and the cards to play for it; the other decisions default to a
+ * plain game (solid character, claim any payout, best life event option) so subclasses only
+ * override the ones they have an opinion on.
+ */
+export abstract class RuleBasedBot implements Bot {
+  abstract readonly name: string
+  abstract readonly description: string
+
+  // Card selection planned for the current challenge, kept by card ID so it survives cloning
+  private plannedSelection: { key: string; cardIds: Set<string> } | undefined
+
+  /**
+   * @param random Random source for the bot's own random choices (keep it apart from the game's)
+   */
+  constructor(protected readonly random: RandomSource = defaultRandom) {}
+
+  chooseAction(game: Game, actions: GameAction[]): GameAction {
+    const byType = <T extends GameAction['type']>(type: T) =>
+      actions.filter((action): action is Extract<GameAction, { type: T }> => action.type === type)
+
+    const claimAction = this.findClaimAction(game, actions)
+    if (claimAction) return claimAction
+
+    const lifeEventOptions = byType('choose_life_event')
+    if (lifeEventOptions.length > 0 && game.pendingLifeEvent) {
+      const index = this.chooseLifeEventOption(game, game.pendingLifeEvent)
+      return lifeEventOptions.find(action => action.choiceIndex === index) ?? lifeEventOptions[0]!
+    }
+
+    const characters = byType('select_character')
+    if (characters.length > 0) {
+      const id = this.chooseCharacter(game, characters.map(action => action.characterId))
+      return characters.find(action => action.characterId === id) ?? characters[0]!
+    }
+
+    const dreams = byType('select_dream')
+    if (dreams.length > 0) {
+      const index = this.chooseDream(game, dreams.map(action => game.cardChoices?.[action.choiceIndex]).filter(isCard))
+      return dreams[index] ?? dreams[0]!
+    }
+
+    const challenges = byType('start_challenge')
+    if (challenges.length > 0) {
+      const cards = challenges.map(action => action.choiceIndex === undefined ? undefined : game.cardChoices?.[action.choiceIndex])
+      const index = this.chooseChallenge(game, cards.filter(isCard))
+      return challenges[index] ?? challenges[0]!
+    }
+
+    const resolve = actions.find(action => action.type === 'resolve_challenge')
+    if (resolve) {
+      return this.nextChallengeAction(game, byType('toggle_card_selection')) ?? resolve
+    }
+
+    const insuranceOffers = byType('select_insurance_type')
+    if (insuranceOffers.length > 0) {
+      const choices = game.insuranceTypeChoices ?? []
+      const decision = this.chooseInsurance(game, choices)
+      const offer = decision && insuranceOffers.find(action =>
+        action.insuranceType === decision.insuranceType && action.durationType === decision.durationType)
+      const skip = actions.find(action => action.type === 'skip_insurance_selection')
+      if (offer) return offer
+      if (!decision && skip) return skip
+      return insuranceOffers[0]!
+    }
+
+    const rewards = byType('select_reward_card')
+    const skipReward = actions.find(action => action.type === 'skip_reward_card')
+    if (rewards.length > 0 && skipReward) {
+      const index = this.chooseRewardCard(game, game.rewardCardChoices ?? [])
+      return rewards.find(action => action.choiceIndex === index) ?? skipReward
+    }
+
+    const renewal = byType('renew_insurance').find(action => {
+      const insurance = game.activeInsurances[action.insuranceIndex]
+      return insurance && this.shouldRenewInsurance(game, insurance, game.getInsuranceRenewalCost(insurance))
+    })
+    if (renewal) return renewal
+
+    // start / start_challenge_phase / draw_cards / next_turn have nothing to decide
+    return actions.find(action => action.type !== 'renew_insurance') ?? actions[0]!
+  }
+
+  protected chooseCharacter(_game: Game, characterIds: string[]): string {
+    return characterIds.includes('solid') ? 'solid' : characterIds[0]!
+  }
+
+  protected chooseDream(_game: Game, dreams: Card[]): number {
+    return randomInt(this.random, dreams.length)
+  }
+
+  /**
+   * Index of the challenge to take on
+   */
+  protected abstract chooseChallenge(game: Game, challenges: Card[]): number
+
+  /**
+   * Cards to play for the current challenge (asked once per challenge)
+   */
+  protected abstract selectChallengeCards(game: Game, challenge: Card): Card[]
+
+  /**
+   * Insurance to take after a successful challenge, or undefined to pass
+   */
+  protected chooseInsurance(_game: Game, choices: InsuranceTypeChoice[]): InsuranceDecision | undefined {
+    const choice = choices[0]
+    return choice ? { insuranceType: choice.insuranceType, durationType: 'term' } : undefined
+  }
+
+  /**
+   * Index of the reward card to take, or undefined to pass
+   */
+  protected chooseRewardCard(_game: Game, choices: Card[]): number | undefined {
+    return choices.length > 0 ? 0 : undefined
+  }
+
+  protected shouldRenewInsurance(game: Game, _insurance: Card, cost: number): boolean {
+    return game.vitality > cost
+  }
+
+  /**
+   * Claim whenever the insurance actually pays out (a zero payout would only end the contract)
+   */
+  protected shouldClaimInsurance(_game: Game, _claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): boolean {
+    return payout.amount > 0 || payout.effect === 'skip_challenge'
+  }
+
+  /**
+   * Take the option with the best immediate vitality change (ties keep the first option)
+   */
+  protected chooseLifeEventOption(_game: Game, event: RandomEvent): number {
+    const choices = event.choices ?? []
+    return choices.reduce((best, choice, index) =>
+      (choice.effects.vitalityChange ?? 0) > (choices[best]?.effects.vitalityChange ?? 0) ? index : best, 0)
+  }
+
+  private findClaimAction(game: Game, actions: GameAction[]): GameAction | undefined {
+    const accept = actions.find(action => action.type === 'accept_insurance_claim')
+    const decline = actions.find(action => action.type === 'decline_insurance_claim')
+    const claim = game.pendingInsuranceClaim
+    if (!accept || !decline || !claim) return accept ?? decline
+
+    const payout = game.getInsuranceClaimPayout(claim)
+    return payout && this.shouldClaimInsurance(game, claim, payout) ? accept : decline
+  }
+
+  /**
+   * Toggle the next card that differs from the planned selection, or undefined when it matches
+   */
+  private nextChallengeAction(
+    game: Game,
+    toggles: Extract<GameAction, { type: 'toggle_card_selection' }>[]
+  ): GameAction | undefined {
+    const challenge = game.currentChallenge
+    if (!challenge) return undefined
+
+    const key = `${game.turn}:${challenge.id}`
+    if (this.plannedSelection?.key !== key) {
+      const cards = this.selectChallengeCards(game, challenge)
+      this.plannedSelection = { key, cardIds: new Set(cards.map(card => card.id)) }
+    }
+
+    const selectedIds = new Set(game.selectedCards.map(card => card.id))
+    const planned = this.plannedSelection.cardIds
+    return toggles.find(action => {
+      const card = game.hand[action.handIndex]
+      return card !== undefined && planned.has(card.id) !== selectedIds.has(card.id)
+    })
+  }
+}
+
+function isCard(card: Card | undefined): card is Card {
+  return card !== undefined
+}
@@ -0,0 +1,131 @@
+import type { Card } from '../domain/entities/Card'
+import type { Game } from '../domain/entities/Game'
+import type { InsuranceTypeChoice } from '../domain/types/game.types'
+import {
+  AIStrategyFactory,
+  type AIStrategy as AutoPlayStrategy,
+  type AIStrategyType
+} from '../domain/services/AIStrategyService'
+import type { AIStrategy, GameState } from './AdvancedStrategies'
+import type { DemoStrategy } from './DemoStrategies'
+import { RuleBasedBot, type InsuranceDecision } from './Bot'
+import type { RandomSource } from '../common/SeededRandom'
+
+/**
+ * Bot playing with an AIStrategy from AdvancedStrategies (including the personas)
+ */
+export class StrategyBot extends RuleBasedBot {
+  readonly name: string
+  readonly description: string
+
+  constructor(readonly strategy: AIStrategy, random?: RandomSource, name: string = strategy.name) {
+    super(random)
+    this.name = name
+    this.description = strategy.description
+  }
+
+  protected override chooseChallenge(game: Game, challenges: Card[]): number {
+    const state = toGameState(game)
+    return Math.max(0, challenges.findIndex(challenge => this.strategy.shouldAttemptChallenge(challenge, game.hand, state)))
+  }
+
+  protected override selectChallengeCards(game: Game, challenge: Card): Card[] {
+    return this.strategy.selectCards(game.hand, challenge.power || 0, toGameState(game))
+  }
+
+  protected override chooseInsurance(game: Game, choices: InsuranceTypeChoice[]): InsuranceDecision | undefined {
+    const choice = choices[0]
+    if (!choice) return undefined
+    return {
+      insuranceType: choice.insuranceType,
+      durationType: this.strategy.selectInsuranceType(['term', 'whole_life'], toGameState(game))
+    }
+  }
+
+  protected override chooseRewardCard(game: Game, choices: Card[]): number | undefined {
+    const [card] = this.strategy.selectCards(choices, 0, toGameState(game))
+    return card ? choices.indexOf(card) : undefined
+  }
+
+  protected override shouldRenewInsurance(game: Game, insurance: Card, cost: number): boolean {
+    return this.strategy.shouldRenewInsurance(insurance, cost, toGameState(game))
+  }
+}
+
+/**
+ * Bot playing with one of the CUI demo strategies
+ */
+export class DemoStrategyBot extends RuleBasedBot {
+  constructor(
+    readonly strategy: DemoStrategy,
+    readonly name: string,
+    readonly description: string,
+    random?: RandomSource
+  ) {
+    super(random)
+  }
+
+  protected override chooseChallenge(_game: Game, challenges: Card[]): number {
+    return Math.max(0, challenges.findIndex(challenge => this.strategy.decideChallengeAction(challenge) === 'start'))
+  }
+
+  protected override selectChallengeCards(game: Game): Card[] {
+    return this.strategy.selectCards(game.hand, 0, game.hand.length)
+  }
+
+  protected override chooseInsurance(_game: Game, choices: InsuranceTypeChoice[]): InsuranceDecision | undefined {
+    const choice = choices[0]
+    if (!choice) return undefined
+    return { insuranceType: choice.insuranceType, durationType: this.strategy.chooseInsuranceType(['term', 'whole_life']) }
+  }
+
+  protected override chooseRewardCard(_game: Game, choices: Card[]): number | undefined {
+    const [card] = this.strategy.selectCards(choices, 0, 1)
+    return card ? choices.indexOf(card) : undefined
+  }
+
+  protected override shouldRenewInsurance(_game: Game, insurance: Card, cost: number): boolean {
+    return this.strategy.decideInsuranceRenewal(insurance, cost) === 'renew'
+  }
+}
+
+/**
+ * Bot playing with one of the browser auto-play strategies (AIStrategyService)
+ */
+export class AutoPlayStrategyBot extends RuleBasedBot {
+  readonly strategy: AutoPlayStrategy
+  readonly description: string
+
+  constructor(type: AIStrategyType, readonly name: string) {
+    super()
+    this.strategy = AIStrategyFactory.createStrategy(type)
+    this.description = AIStrategyFactory.getStrategyDescription(type)
+  }
+
+  protected override chooseChallenge(game: Game, challenges: Card[]): number {
+    return Math.max(0, challenges.indexOf(this.strategy.selectChallenge(challenges, game).challenge))
+  }
+
+  protected override selectChallengeCards(game: Game, challenge: Card): Card[] {
+    return this.strategy.selectCards(challenge, game.hand, game).cards
+  }
+}
+
+/**
+ * Summary of the game in the shape AdvancedStrategies expect
+ */
+export function toGameState(game: Game): GameState {
+  return {
+    vitality: game.vitality,
+    maxVitality: game.maxVitality,
+    turn: game.turn,
+    stage: game.stage,
+    phase: game.phase,
+    playerHand: game.hand,
+    insuranceCards: game.activeInsurances,
+    insuranceBurden: game.insuranceBurden,
+    discardPile: [],
+    ...(game.currentChallenge ? { currentChallenge: game.currentChallenge } : {}),
+    stats: game.stats
+  }
+}
@@ -0,0 +1,184 @@
+import type { GameRenderer } from '../interfaces/GameRenderer'
+import type { Game } from '../domain/entities/Game'
+import type { Card } from '../domain/entities/Card'
+import type { ChallengeResult, GameAction } from '../domain/types/game.types'
+import type { RandomEvent } from '../domain/services/ReplayabilityService'
+import type { Bot } from './Bot'
+
+type InsuranceOffer = Extract<GameAction, { type: 'select_insurance_type' }>
+
+/**
+ * Renderer that answers GameController's prompts with a bot.
+ *
+ * Each prompt is turned into the actions that answer it, the bot picks one and the answer is
+ * mapped back (e.g. askCardSelection for a challenge becomes toggles plus resolve, played out on a clone).
+ * Draws nothing, so it is what headless runs (benchmarks, verify-balance) use; the CUI demo
+ * reuses it for the decisions and prints them itself.
+ */
+export class BotGameRenderer implements GameRenderer {
+  private game?: Game
+  private insuranceOffer?: InsuranceOffer
+  private debugMode = false
+
+  constructor(readonly bot: Bot) {}
+
+  setDebugMode(enabled: boolean): void {
+    this.debugMode = enabled
+  }
+
+  // === System ===
+  clear(): void { }
+  async initialize(): Promise<void> { }
+  dispose(): void { }
+  isWaitingForInput(): boolean { return false }
+
+  // === State Tracking ===
+  displayGameState(game: Game): void {
+    this.game = game
+  }
+
+  displayHand(): void { }
+  displayChallenge(): void { }
+  displayVitality(): void { }
+  displayInsuranceCards(): void { }
+  displayInsuranceBurden(): void { }
+  displayProgress(): void { }
+
+  // === Decisions ===
+
+  async askCardSelection(
+    cards: Card[],
+    minSelection: number = 1,
+    maxSelection: number = 1,
+    message?: string
+  ): Promise<Card[]> {
+    const game = this.requireGame()
+
+    if (game.phase === 'challenge' && game.currentChallenge) {
+      return this.chooseChallengeCards(game)
+    }
+
+    const rewards = game.rewardCardChoices ?? []
+    if (cards.length > 0 && cards.every(card => rewards.includes(card))) {
+      const action = await this.decide([
+        ...rewards.map((_, choiceIndex) => ({ type: 'select_reward_card', choiceIndex }) as const),
+        { type: 'skip_reward_card' }
+      ])
+      const card = action.type === 'select_reward_card' ? rewards[action.choiceIndex] : undefined
+      return card ? [card] : []
+    }
+
+    this.log(`No bot decision for card selection "${message}" (${minSelection}-${maxSelection} cards), taking the first ${minSelection}`)
+    return cards.slice(0, minSelection)
+  }
+
+  async askChallengeAction(): Promise<'start' | 'skip'> {
+    return 'start'
+  }
+
+  async askInsuranceChoice(cards: Card[]): Promise<Card> {
+    const choices = this.requireGame().insuranceTypeChoices ?? []
+    if (choices.length === 0) return cards[0]!
+
+    // GameController always takes one of the offers, so passing is not offered here
+    const action = await this.decide(choices.flatMap(choice => [
+      { type: 'select_insurance_type', insuranceType: choice.insuranceType, durationType: 'term' } as const,
+      { type: 'select_insurance_type', insuranceType: choice.insuranceType, durationType: 'whole_life' } as const
+    ]))
+    if (action.type !== 'select_insurance_type') return cards[0]!
+
+    this.insuranceOffer = action
+    const choice = choices.find(candidate => candidate.insuranceType === action.insuranceType)
+    return cards.find(card => card.name === choice?.baseCard.name) ?? cards[0]!
+  }
+
+  async askInsuranceTypeChoice(availableTypes: ('whole_life' | 'term')[]): Promise<'whole_life' | 'term'> {
+    const durationType = this.insuranceOffer?.durationType
+    delete this.insuranceOffer
+    return durationType && availableTypes.includes(durationType) ? durationType : availableTypes[0]!
+  }
+
+  async askInsuranceRenewalChoice(insurance: Card): Promise<'renew' | 'expire'> {
+    const insuranceIndex = this.requireGame().activeInsurances.indexOf(insurance)
+    if (insuranceIndex < 0) return 'expire'
+
+    // Letting a term insurance run out is the same as ending the turn without renewing it
+    const action = await this.decide([{ type: 'renew_insurance', insuranceIndex }, { type: 'next_turn' }])
+    return action.type === 'renew_insurance' ? 'renew' : 'expire'
+  }
+
+  async askInsuranceClaim(): Promise<boolean> {
+    const action = await this.decide([{ type: 'accept_insurance_claim' }, { type: 'decline_insurance_claim' }])
+    return action.type === 'accept_insurance_claim'
+  }
+
+  async askLifeEventChoice(event: RandomEvent): Promise<number> {
+    const action = await this.decide((event.choices ?? []).map((_, choiceIndex) => ({ type: 'choose_life_event', choiceIndex })))
+    return action.type === 'choose_life_event' ? action.choiceIndex : 0
+  }
+
+  async askDreamSelection(cards: Card[]): Promise<Card> {
+    const action = await this.decide(cards.map((_, choiceIndex) => ({ type: 'select_dream', choiceIndex })))
+    return cards[action.type === 'select_dream' ? action.choiceIndex : 0]!
+  }
+
+  async askChallengeSelection(challenges: Card[]): Promise<Card> {
+    const action = await this.decide(challenges.map((_, choiceIndex) => ({ type: 'start_challenge', choiceIndex })))
+    const index = action.type === 'start_challenge' ? action.choiceIndex ?? 0 : 0
+    return challenges[index] ?? challenges[0]!
+  }
+
+  async askConfirmation(_message: string, defaultChoice: 'yes' | 'no' = 'no'): Promise<'yes' | 'no'> {
+    return defaultChoice
+  }
+
+  // === Feedback ===
+  showChallengeResult(result: ChallengeResult): void {
+    this.log(`Challenge result: ${result.success ? 'success' : 'failure'}`)
+  }
+  showMessage(): void { }
+  showError(error: string): void {
+    console.error(`[BotGameRenderer Error] ${error}`)
+  }
+  showGameOver(): void { }
+  showVictory(): void { }
+  showStageClear(): void { }
+
+  /**
+   * Let the bot toggle cards on a clone until it resolves, and return the cards it left selected
+   */
+  private async chooseChallengeCards(game: Game): Promise<Card[]> {
+    const copy = game.clone()
+    const resolve: GameAction = { type: 'resolve_challenge' }
+
+    // Each card needs at most one toggle to reach any selection; stop a bot that keeps toggling
+    for (let step = 0; step < copy.hand.length * 2; step++) {
+      const toggles = copy.hand.map((_, handIndex) => ({ type: 'toggle_card_selection', handIndex }) as const)
+      const action = await this.bot.chooseAction(copy, [...toggles, resolve])
+      if (action.type !== 'toggle_card_selection') break
+      copy.toggleCardSelection(copy.hand[action.handIndex]!)
+    }
+
+    const selectedIds = new Set(copy.selectedCards.map(card => card.id))
+    return game.hand.filter(card => selectedIds.has(card.id))
+  }
+
+  private async decide(actions: GameAction[]): Promise<GameAction> {
+    const action = await this.bot.chooseAction(this.requireGame(), actions)
+    this.log(`${this.bot.name}: ${JSON.stringify(action)}`)
+    return action
+  }
+
+  private requireGame(): Game {
+    if (!this.game) {
+      throw new Error('BotGameRenderer has not been shown a game yet')
+    }
+    return this.game
+  }
+
+  private log(message: string): void {
+    if (this.debugMode) {
+      console.log(`[DEBUG] ${message}`)
+    }
+  }
+}
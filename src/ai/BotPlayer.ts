@@ -0,0 +1,46 @@
+import type { Game } from '../domain/entities/Game'
+import type { GameAction } from '../domain/types/game.types'
+import type { Bot } from './Bot'
+
+export interface BotPlayOptions {
+  /** Stop before the next action once this returns true */
+  until?: (game: Game) => boolean
+  /** Safety limit on applied actions */
+  maxSteps?: number
+}
+
+/** Long enough for a whole game */
+export const DEFAULT_MAX_BOT_STEPS = 2000
+
+/**
+ * Lets a bot play a game directly through Game.getLegalActions() and Game.apply().
+ * Used where there is no GameController, e.g. browser auto-play; every action is recorded,
+ * so the game can be replayed and saved as if a person had played it.
+ */
+export class BotPlayer {
+  /**
+   * Apply the bot's actions until the game ends, `until` holds or maxSteps is reached
+   * @returns The applied actions in order
+   */
+  static async play(game: Game, bot: Bot, options: BotPlayOptions = {}): Promise<GameAction[]> {
+    const { until, maxSteps = DEFAULT_MAX_BOT_STEPS } = options
+    const applied: GameAction[] = []
+
+    let actions = game.getLegalActions()
+    while (actions.length > 0 && applied.length < maxSteps && !until?.(game)) {
+      const action = await bot.chooseAction(game, actions)
+      await game.apply(action)
+      applied.push(action)
+      actions = game.getLegalActions()
+    }
+    return applied
+  }
+
+  /**
+   * Play the rest of the current turn (including ending it)
+   */
+  static async playTurn(game: Game, bot: Bot): Promise<GameAction[]> {
+    const turn = game.turn
+    return this.play(game, bot, { until: current => current.turn !== turn })
+  }
+}
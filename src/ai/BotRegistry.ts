@@ -0,0 +1,113 @@
+import { AIStrategyFactory, type AIStrategyType } from '../domain/services/AIStrategyService'
+import { defaultRandom, type RandomSource } from '../common/SeededRandom'
+import type { Bot } from './Bot'
+import { AutoPlayStrategyBot, DemoStrategyBot, StrategyBot } from './BotAdapters'
+import { AdvancedPersona, BeginnerPersona, IntermediatePersona } from './Personas'
+import {
+  BalancedStrategy,
+  ConservativeStrategy,
+  GeneticStrategy,
+  GreedyStrategy,
+  MCTSStrategy,
+  QLearningStrategy,
+  RandomStrategy,
+  type AIStrategy
+} from './AdvancedStrategies'
+import {
+  AggressiveDemoStrategy,
+  ConservativeDemoStrategy,
+  SmartDemoStrategy,
+  type DemoStrategy
+} from './DemoStrategies'
+
+/**
+ * Creates a fresh bot; random is the only source the bot may use for its own random choices
+ */
+export type BotFactory = (random: RandomSource) => Bot
+
+export interface BotInfo {
+  name: string
+  description: string
+}
+
+/**
+ * Registry names of the browser auto-play strategies (AIStrategyService)
+ */
+export const AUTO_PLAY_BOT_NAMES: Record<AIStrategyType, string> = {
+  conservative: 'Auto-Conservative',
+  aggressive: 'Auto-Aggressive',
+  balanced: 'Auto-Balanced',
+  adaptive: 'Auto-Adaptive'
+}
+
+/**
+ * Bots selectable by name.
+ *
+ * Names are what crosses worker and CLI boundaries (benchmark tasks, `cui demo --strategy`,
+ * verify-balance, the browser settings), so every caller creates its bots here.
+ * Each create() returns a new instance because bots may keep per-game state.
+ */
+export class BotRegistry {
+  private static readonly bots = new Map<string, { description: string; create: BotFactory }>()
+
+  /**
+   * Register a bot (replaces a bot registered under the same name)
+   */
+  static register(name: string, description: string, create: BotFactory): void {
+    this.bots.set(name, { description, create })
+  }
+
+  static has(name: string): boolean {
+    return this.bots.has(name)
+  }
+
+  /**
+   * @throws {Error} When no bot is registered under the name
+   */
+  static create(name: string, random: RandomSource = defaultRandom): Bot {
+    const entry = this.bots.get(name)
+    if (!entry) {
+      throw new Error(`Unknown bot: ${name} (available: ${this.getNames().join(', ')})`)
+    }
+    return entry.create(random)
+  }
+
+  static getNames(): string[] {
+    return Array.from(this.bots.keys())
+  }
+
+  static list(): BotInfo[] {
+    return Array.from(this.bots, ([name, { description }]) => ({ name, description }))
+  }
+}
+
+// AdvancedStrategies and personas, under the names benchmarks already report
+const strategies: [string, (random: RandomSource) => AIStrategy][] = [
+  ['Beginner', () => new BeginnerPersona()],
+  ['Intermediate', () => new IntermediatePersona()],
+  ['Advanced', () => new AdvancedPersona()],
+  ['Random', random => new RandomStrategy(random)],
+  ['Greedy', () => new GreedyStrategy()],
+  ['Conservative', () => new ConservativeStrategy()],
+  ['Balanced', () => new BalancedStrategy()],
+  ['Q-Learning', random => new QLearningStrategy(random)],
+  ['Genetic', random => new GeneticStrategy(random)],
+  ['MCTS', random => new MCTSStrategy(random)]
+]
+strategies.forEach(([name, createStrategy]) => {
+  BotRegistry.register(name, createStrategy(defaultRandom).description,
+    random => new StrategyBot(createStrategy(random), random, name))
+})
+
+for (const [type, name] of Object.entries(AUTO_PLAY_BOT_NAMES) as [AIStrategyType, string][]) {
+  BotRegistry.register(name, AIStrategyFactory.getStrategyDescription(type), () => new AutoPlayStrategyBot(type, name))
+}
+
+const demoStrategies: [string, string, (random: RandomSource) => DemoStrategy][] = [
+  ['Demo-Smart', 'Plays strong cards and mostly accepts challenges', random => new SmartDemoStrategy(random)],
+  ['Demo-Aggressive', 'Plays every card, always challenges and lets insurance lapse', () => new AggressiveDemoStrategy()],
+  ['Demo-Conservative', 'Plays few cheap cards, skips hard challenges and keeps insurance', () => new ConservativeDemoStrategy()]
+]
+demoStrategies.forEach(([name, description, createStrategy]) => {
+  BotRegistry.register(name, description, random => new DemoStrategyBot(createStrategy(random), name, description, random))
+})
@@ -0,0 +1,121 @@
+import type { Card } from '../domain/entities/Card'
+import { defaultRandom, type RandomSource } from '../common/SeededRandom'
+
+/**
+ * Demo Strategy Interface
+ * Defines how the AI makes decisions during demo
+ */
+export interface DemoStrategy {
+  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[]
+  decideChallengeAction(challenge: Card): 'start' | 'skip'
+  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term'
+  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire'
+  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no'
+}
+
+/**
+ * Smart Demo Strategy
+ * Makes intelligent decisions based on game state
+ */
+export class SmartDemoStrategy implements DemoStrategy {
+  constructor(private readonly random: RandomSource = defaultRandom) {}
+
+  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[] {
+    if (cards.length === 0 || minSelection === 0) {
+      // Sometimes choose not to select anything if optional
+      return this.random.next() < 0.3 ? [] : cards.slice(0, Math.min(1, maxSelection))
+    }
+
+    // Sort by power and select highest power cards
+    const sortedCards = [...cards].sort((a, b) => (b.power || 0) - (a.power || 0))
+    const selectionCount = Math.min(
+      maxSelection,
+      Math.max(minSelection, Math.ceil(cards.length * 0.6))
+    )
+
+    return sortedCards.slice(0, selectionCount)
+  }
+
+  decideChallengeAction(): 'start' | 'skip' {
+    // Mostly accept challenges, but sometimes skip for variety
+    return this.random.next() < 0.8 ? 'start' : 'skip'
+  }
+
+  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
+    // Prefer whole life insurance if available
+    return availableTypes.includes('whole_life') ? 'whole_life' : availableTypes[0]!
+  }
+
+  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
+    // Renew if cost is reasonable (≤ 3)
+    return cost <= 3 ? 'renew' : 'expire'
+  }
+
+  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no' {
+    // Mostly go with the default, but add some randomness
+    return this.random.next() < 0.7 ? defaultChoice : (defaultChoice === 'yes' ? 'no' : 'yes')
+  }
+}
+
+/**
+ * Aggressive Demo Strategy
+ * Takes more risks and aggressive plays
+ */
+export class AggressiveDemoStrategy implements DemoStrategy {
+  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[] {
+    // Always select maximum possible cards
+    return cards.slice(0, maxSelection)
+  }
+
+  decideChallengeAction(): 'start' | 'skip' {
+    // Always accept challenges
+    return 'start'
+  }
+
+  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
+    // Prefer term insurance (cheaper, more risk)
+    return availableTypes.includes('term') ? 'term' : availableTypes[0]!
+  }
+
+  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
+    // Renew only very cheap insurance
+    return cost <= 1 ? 'renew' : 'expire'
+  }
+
+  makeConfirmationChoice(): 'yes' | 'no' {
+    // Always say yes to everything
+    return 'yes'
+  }
+}
+
+/**
+ * Conservative Demo Strategy
+ * Plays it safe and cautious
+ */
+export class ConservativeDemoStrategy implements DemoStrategy {
+  selectCards(cards: Card[], minSelection: number): Card[] {
+    // Select minimum required cards, prefer low cost
+    const sortedCards = [...cards].sort((a, b) => (a.cost || 0) - (b.cost || 0))
+    return sortedCards.slice(0, minSelection)
+  }
+
+  decideChallengeAction(challenge: Card): 'start' | 'skip' {
+    // Skip challenges with high power requirements
+    return (challenge.power || 0) > 5 ? 'skip' : 'start'
+  }
+
+  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
+    // Always prefer whole life for security
+    return availableTypes.includes('whole_life') ? 'whole_life' : availableTypes[0]!
+  }
+
+  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
+    // Renew most insurance for security
+    return cost <= 5 ? 'renew' : 'expire'
+  }
+
+  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no' {
+    // Always stick with defaults (conservative)
+    return defaultChoice
+  }
+}
@@ -0,0 +1,104 @@
+import type { Game } from '../domain/entities/Game'
+import type { GameAction } from '../domain/types/game.types'
+import { GameConstantsAccessor } from '../domain/constants/GameConstants'
+import type { SeededRandom } from '../common/SeededRandom'
+import { withSilentConsole } from '../common/SilentConsole'
+
+/**
+ * Picks the next action of a rollout from the legal actions of the current state.
+ */
+export type RolloutPolicy = (game: Game, actions: GameAction[]) => GameAction
+
+export interface ForwardSuccessor {
+  action: GameAction
+  game: Game
+}
+
+export interface RolloutResult {
+  /** State the rollout ended in (a clone; the starting game is untouched) */
+  game: Game
+  steps: number
+  /** True when the game ended (victory / game over) before the step limit */
+  finished: boolean
+}
+
+/** Long enough for a whole game of random legal actions */
+export const DEFAULT_MAX_ROLLOUT_STEPS = 2000
+
+/**
+ * Forward model for search-based bots (MCTS, expectimax).
+ *
+ * Every method works on Game.clone() copies and drives them through Game.apply(),
+ * so bots roll out the real rules instead of a hand-built summary of the state.
+ * Simulations run with console output muted and with the clone's balance overrides;
+ * the shared overrides are restored afterwards so the game being played is unaffected.
+ * Each clone has its own copy of the ID sequence, so card IDs made in a simulation
+ * do not advance the IDs of the real game.
+ * Simulations must not be interleaved with moves on the real game while awaiting.
+ */
+export class GameForwardModel {
+  /**
+   * State after applying the actions in order
+   */
+  static async simulate(game: Game, actions: GameAction[]): Promise<Game> {
+    const copy = game.clone()
+    await this.isolated(copy, async () => {
+      for (const action of actions) {
+        await copy.apply(action)
+      }
+    })
+    return copy
+  }
+
+  /**
+   * Every legal action paired with the state it leads to
+   */
+  static async successors(game: Game): Promise<ForwardSuccessor[]> {
+    const successors: ForwardSuccessor[] = []
+    for (const action of game.getLegalActions()) {
+      successors.push({ action, game: await this.simulate(game, [action]) })
+    }
+    return successors
+  }
+
+  /**
+   * Play a clone forward with the policy until the game ends or maxSteps actions were applied
+   */
+  static async rollout(
+    game: Game,
+    policy: RolloutPolicy,
+    maxSteps: number = DEFAULT_MAX_ROLLOUT_STEPS
+  ): Promise<RolloutResult> {
+    const copy = game.clone()
+    return this.isolated(copy, async () => {
+      let steps = 0
+      let actions = copy.getLegalActions()
+      while (actions.length > 0 && steps < maxSteps) {
+        await copy.apply(policy(copy, actions))
+        steps++
+        actions = copy.getLegalActions()
+      }
+      return { game: copy, steps, finished: actions.length === 0 }
+    })
+  }
+
+  /**
+   * Uniformly random legal actions (the usual MCTS default policy)
+   */
+  static randomPolicy(random: SeededRandom): RolloutPolicy {
+    return (_game, actions) => actions[random.nextInt(actions.length)]!
+  }
+
+  /**
+   * Run with the simulated game's balance overrides, muting its logs
+   */
+  private static async isolated<T>(game: Game, run: () => Promise<T>): Promise<T> {
+    const overrides = GameConstantsAccessor.getOverrides()
+    GameConstantsAccessor.setOverrides(game.config.balanceConfig)
+    try {
+      return await withSilentConsole(run)
+    } finally {
+      GameConstantsAccessor.setOverrides(overrides)
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { Game } from '../domain/entities/Game'
+import type { GameConfig } from '../domain/types/game.types'
+import { SeededRandom } from '../common/SeededRandom'
+import { withSilentConsole } from '../common/SilentConsole'
+import { DEFAULT_GAME_CONFIG } from '../benchmark/MassiveBenchmark'
+import type { GameResult, StrategyPerformance } from './AdvancedStrategies'
+import { StrategyBot, toGameState } from './BotAdapters'
+import { BotPlayer } from './BotPlayer'
+import {
+  TRAINABLE_STRATEGIES,
+  TRAINED_MODEL_FILE_VERSION,
+  TRAINED_MODEL_FORMAT,
+  TrainedModels,
+  type LearningCurveBlock,
+  type LearningCurvePoint,
+  type TrainableStrategyType,
+  type TrainedModelFile
+} from './TrainedModels'
+
+/**
+ * Model trainer configuration
+ */
+export interface ModelTrainerConfig {
+  type: TrainableStrategyType
+  episodes: number // games to play in this run
+  gamesPerUpdate: number // games per learning step (genetic: games each individual is evaluated on)
+  curveInterval: number // episodes per learning-curve point
+  checkpointInterval: number // episodes between checkpoints (0 = only when training ends)
+  gameConfig?: GameConfig
+  seed?: number
+  resume?: TrainedModelFile // continue training this model (its type wins over `type`)
+  name?: string // bot name stored in the model
+  onCurvePoint?: (point: LearningCurvePoint) => void
+  onCheckpoint?: (file: TrainedModelFile) => void | Promise<void>
+}
+
+/**
+ * Model training result
+ */
+export interface ModelTrainingResult {
+  model: TrainedModelFile
+  episodes: number // played in this run
+  winRate: number // over this run, exploration included
+  executionTime: number // ms
+}
+
+/**
+ * Default bot names of trained models
+ */
+export const TRAINED_MODEL_NAMES: Record<TrainableStrategyType, string> = {
+  'q-learning': 'Q-Learning (trained)',
+  genetic: 'Genetic (trained)'
+}
+
+/**
+ * Trains a Q-learning or genetic strategy by playing many games and checkpoints it as a model file.
+ *
+ * Games are played through Game.apply() (no renderer), each on a seed derived from
+ * the run seed and the episode number, so a resumed run keeps getting new games.
+ * After every `gamesPerUpdate` games the strategy learns through adaptStrategy(), and
+ * once more on the games left over when the run ends. Curve points are taken every
+ * `curveInterval` games; the unfinished block is saved so a resumed run completes it.
+ *
+ * @example
+ * const trainer = new ModelTrainer({ type: 'q-learning', episodes: 5000 })
+ * const { model } = await trainer.train()
+ * await writeFile('q-learning.model.json', TrainedModels.stringify(model))
+ */
+export class ModelTrainer {
+  private readonly config: ModelTrainerConfig & { seed: number }
+
+  constructor(config: Partial<ModelTrainerConfig> = {}) {
+    const type = config.resume?.model.type ?? config.type ?? 'q-learning'
+    this.config = {
+      episodes: 1000,
+      gamesPerUpdate: type === 'genetic' ? 5 : 1,
+      curveInterval: 100,
+      checkpointInterval: 0,
+      ...config,
+      type,
+      seed: config.seed ?? config.resume?.seed ?? SeededRandom.generateSeed()
+    }
+    validateConfig(this.config)
+  }
+
+  /**
+   * Play the configured episodes, learning as it goes
+   */
+  async train(): Promise<ModelTrainingResult> {
+    const startTime = performance.now()
+    const { resume, episodes, gamesPerUpdate, curveInterval, checkpointInterval } = this.config
+    const firstEpisode = resume?.episodes ?? 0
+    const baseRandom = new SeededRandom(this.config.seed)
+    const random = baseRandom.fork(`strategy-${firstEpisode}`)
+    const strategy = resume ? TrainedModels.loadStrategy(resume, random, true) : TrainedModels.createStrategy(this.config.type, random)
+    const learningCurve = [...(resume?.learningCurve ?? [])]
+    const name = this.config.name ?? resume?.name ?? TRAINED_MODEL_NAMES[this.config.type]
+    let block: LearningCurveBlock = { games: 0, victories: 0, totalScore: 0, ...resume?.curveBlock }
+
+    const createFile = (played: number): TrainedModelFile => ({
+      format: TRAINED_MODEL_FORMAT,
+      version: TRAINED_MODEL_FILE_VERSION,
+      name,
+      savedAt: new Date().toISOString(),
+      seed: this.config.seed,
+      episodes: firstEpisode + played,
+      learningCurve: [...learningCurve],
+      ...(block.games > 0 ? { curveBlock: { ...block } } : {}),
+      model: strategy.exportModel()
+    })
+
+    let batch: GameResult[] = []
+    let victories = 0
+    for (let played = 1; played <= episodes; played++) {
+      const seed = baseRandom.fork(`episode-${firstEpisode + played}`).seed
+      const result = await this.playEpisode(new StrategyBot(strategy, random, name), seed)
+      if (result.outcome === 'victory') victories++
+      batch.push(result)
+      block = {
+        games: block.games + 1,
+        victories: block.victories + (result.outcome === 'victory' ? 1 : 0),
+        totalScore: block.totalScore + result.finalScore
+      }
+
+      if (batch.length === gamesPerUpdate) {
+        strategy.adaptStrategy(batch, summarizePerformance(batch))
+        batch = []
+      }
+      if (block.games >= curveInterval) {
+        const point = {
+          episodes: firstEpisode + played,
+          winRate: block.victories / block.games,
+          averageScore: block.totalScore / block.games
+        }
+        learningCurve.push(point)
+        this.config.onCurvePoint?.(point)
+        block = { games: 0, victories: 0, totalScore: 0 }
+      }
+      if (checkpointInterval > 0 && played % checkpointInterval === 0 && played < episodes) {
+        await this.config.onCheckpoint?.(createFile(played))
+      }
+    }
+
+    if (batch.length > 0) {
+      strategy.adaptStrategy(batch, summarizePerformance(batch))
+    }
+    const model = createFile(episodes)
+    await this.config.onCheckpoint?.(model)
+    return {
+      model,
+      episodes,
+      winRate: victories / episodes,
+      executionTime: performance.now() - startTime
+    }
+  }
+
+  private async playEpisode(bot: StrategyBot, seed: number): Promise<GameResult> {
+    // Setting up the game and reading its final state log as well, so they stay inside the silenced run
+    return withSilentConsole(async (): Promise<GameResult> => {
+      const game = new Game({ ...(this.config.gameConfig ?? DEFAULT_GAME_CONFIG), seed })
+      await BotPlayer.play(game, bot)
+      return {
+        // A game cut off by the step limit counts as a loss
+        outcome: game.status === 'victory' ? 'victory' : 'game_over',
+        finalStats: game.stats,
+        strategy: bot.name,
+        gameState: toGameState(game),
+        decisions: [],
+        finalScore: game.score
+      }
+    })
+  }
+}
+
+/**
+ * Performance of a batch of games, as adaptStrategy() expects it
+ */
+function summarizePerformance(results: GameResult[]): StrategyPerformance {
+  const scores = results.map(result => result.finalScore)
+  const totalScore = scores.reduce((sum, score) => sum + score, 0)
+  const totalTurns = results.reduce((sum, result) => sum + result.finalStats.turnsPlayed, 0)
+  const challenges = results.reduce((sum, result) => sum + result.finalStats.totalChallenges, 0)
+  const successes = results.reduce((sum, result) => sum + result.finalStats.successfulChallenges, 0)
+  const mean = totalScore / results.length
+  const deviation = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / results.length)
+
+  return {
+    winRate: results.filter(result => result.outcome === 'victory').length / results.length,
+    averageScore: mean,
+    averageTurns: totalTurns / results.length,
+    challengeSuccessRate: challenges > 0 ? successes / challenges : 0,
+    efficiency: totalTurns > 0 ? totalScore / totalTurns : 0,
+    adaptability: 0.5,
+    consistency: mean > 0 ? Math.max(0, Math.min(1, 1 - deviation / mean)) : 0
+  }
+}
+
+function validateConfig(config: ModelTrainerConfig): void {
+  if (!TRAINABLE_STRATEGIES.includes(config.type)) {
+    throw new Error(`Unknown trainable strategy: ${config.type} (available: ${TRAINABLE_STRATEGIES.join(', ')})`)
+  }
+  const counts = { episodes: 1, gamesPerUpdate: 1, curveInterval: 1, checkpointInterval: 0 }
+  Object.entries(counts).forEach(([name, minimum]) => {
+    const value = config[name as keyof typeof counts]
+    if (!Number.isInteger(value) || value < minimum) {
+      throw new Error(`Invalid ${name}: ${value}`)
+    }
+  })
+}
@@ -0,0 +1,132 @@
+import { defaultRandom, type RandomSource } from '../common/SeededRandom'
+import type { Bot } from './Bot'
+import { StrategyBot } from './BotAdapters'
+import {
+  GeneticStrategy,
+  QLearningStrategy,
+  type GeneticModel,
+  type QLearningModel
+} from './AdvancedStrategies'
+
+export const TRAINABLE_STRATEGIES = ['q-learning', 'genetic'] as const
+
+export type TrainableStrategyType = typeof TRAINABLE_STRATEGIES[number]
+
+export type TrainableStrategy = QLearningStrategy | GeneticStrategy
+
+/**
+ * Marks a JSON file as a trained model
+ */
+export const TRAINED_MODEL_FORMAT = 'life-game-ai-model'
+
+/**
+ * Version of the model file layout (the learned model inside has its own version)
+ */
+export const TRAINED_MODEL_FILE_VERSION = 1
+
+/**
+ * Win rate over one block of training episodes
+ */
+export interface LearningCurvePoint {
+  episodes: number // episodes played when the block ended
+  winRate: number
+  averageScore: number
+}
+
+/**
+ * Episodes played since the last learning-curve point
+ */
+export interface LearningCurveBlock {
+  games: number
+  victories: number
+  totalScore: number
+}
+
+/**
+ * Trained model as stored on disk
+ */
+export interface TrainedModelFile {
+  format: typeof TRAINED_MODEL_FORMAT
+  version: number
+  name: string // bot name used in demos and benchmark reports
+  savedAt: string // ISO date
+  seed: number
+  episodes: number // training episodes so far, including resumed runs
+  learningCurve: LearningCurvePoint[]
+  curveBlock?: LearningCurveBlock // unfinished curve block, continued by a resumed run
+  model: QLearningModel | GeneticModel
+}
+
+/**
+ * Reads, writes and plays trained Q-learning and genetic models.
+ *
+ * Only converts between JSON and strategies; reading and writing the files is left to
+ * the CLIs, so this also works where there is no file system.
+ *
+ * @example
+ * const file = TrainedModels.parse(await readFile('q-learning.model.json', 'utf8'))
+ * const bot = TrainedModels.createBot(file)
+ */
+export class TrainedModels {
+  /**
+   * Create an untrained strategy of the given type
+   */
+  static createStrategy(type: TrainableStrategyType, random: RandomSource = defaultRandom): TrainableStrategy {
+    switch (type) {
+      case 'q-learning':
+        return new QLearningStrategy(random)
+      case 'genetic':
+        return new GeneticStrategy(random)
+      default:
+        throw new Error(`Unknown trainable strategy: ${type} (available: ${TRAINABLE_STRATEGIES.join(', ')})`)
+    }
+  }
+
+  /**
+   * Create a strategy that continues from the model
+   * @param training false to play greedily with what was learned (no exploration)
+   */
+  static loadStrategy(file: TrainedModelFile, random: RandomSource = defaultRandom, training: boolean = false): TrainableStrategy {
+    const { model } = file
+    let strategy: TrainableStrategy
+    if (model.type === 'q-learning') {
+      const qLearning = new QLearningStrategy(random)
+      qLearning.importModel(model)
+      strategy = qLearning
+    } else {
+      const genetic = new GeneticStrategy(random)
+      genetic.importModel(model)
+      strategy = genetic
+    }
+    strategy.setTraining(training)
+    return strategy
+  }
+
+  /**
+   * Bot that plays the model without learning further
+   */
+  static createBot(file: TrainedModelFile, random: RandomSource = defaultRandom): Bot {
+    return new StrategyBot(this.loadStrategy(file, random), random, file.name)
+  }
+
+  static stringify(file: TrainedModelFile): string {
+    return JSON.stringify(file, null, 2)
+  }
+
+  /**
+   * @throws {Error} When the JSON is not a trained model file of a supported version
+   */
+  static parse(json: string): TrainedModelFile {
+    const file = JSON.parse(json) as Partial<TrainedModelFile>
+    if (file?.format !== TRAINED_MODEL_FORMAT) {
+      throw new Error('Not a trained model file')
+    }
+    if (file.version !== TRAINED_MODEL_FILE_VERSION) {
+      throw new Error(`Unsupported model file version: ${file.version} (expected ${TRAINED_MODEL_FILE_VERSION})`)
+    }
+    if (!file.model || !TRAINABLE_STRATEGIES.includes(file.model.type)) {
+      throw new Error(`Unknown model type: ${file.model?.type}`)
+    }
+    return file as TrainedModelFile
+  }
+}
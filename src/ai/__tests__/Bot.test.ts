@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { BotRegistry, AUTO_PLAY_BOT_NAMES } from '../BotRegistry'
+import { BotPlayer } from '../BotPlayer'
+import { BotGameRenderer } from '../BotGameRenderer'
+import { Game } from '../../domain/entities/Game'
+import { GameReplayer } from '../../domain/services/GameReplayer'
+import { GameControllerFactory } from '../../controllers/GameController'
+import { SeededRandom } from '../../common/SeededRandom'
+import { withSilentConsole } from '../../common/SilentConsole'
+import type { GameConfig } from '../../domain/types/game.types'
+
+describe('Bots', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 15,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 2,
+    seed: 23
+  }
+
+  it('registry offers the benchmark, auto-play and demo bots by name', () => {
+    const names = BotRegistry.getNames()
+
+    expect(names).toEqual(expect.arrayContaining(['Beginner', 'Intermediate', 'Advanced', 'MCTS', 'Demo-Smart']))
+    expect(names).toEqual(expect.arrayContaining(Object.values(AUTO_PLAY_BOT_NAMES)))
+    expect(BotRegistry.create('Advanced').name).toBe('Advanced')
+    expect(() => BotRegistry.create('Nobody')).toThrow('Unknown bot: Nobody')
+  })
+
+  it.each(BotRegistry.getNames())('%s plays a whole game through legal actions that replay exactly', async name => {
+    const game = new Game(config)
+    const actions = await withSilentConsole(() => BotPlayer.play(game, BotRegistry.create(name, new SeededRandom(1))))
+
+    expect(['victory', 'game_over']).toContain(game.status)
+    expect(actions.length).toBe(game.getActionLog().actions.length)
+
+    const result = await withSilentConsole(() => GameReplayer.verify(GameReplayer.createReplay(game)))
+    expect(result.differences).toEqual([])
+  })
+
+  it('bots with random choices play the same game from the same random source', async () => {
+    const play = async () => {
+      const game = new Game(config)
+      await withSilentConsole(() => BotPlayer.play(game, BotRegistry.create('Demo-Smart', new SeededRandom(5))))
+      return game.getActionLog().actions
+    }
+
+    expect(await play()).toEqual(await play())
+  })
+
+  it('playTurn stops as soon as the turn ends', async () => {
+    const game = new Game(config)
+    const bot = BotRegistry.create('Intermediate')
+    // start() moves the game from turn 0 to turn 1
+    await BotPlayer.playTurn(game, bot)
+    expect(game.turn).toBe(1)
+
+    const turn = game.turn
+    const actions = await BotPlayer.playTurn(game, bot)
+    expect(game.turn === turn + 1 || !game.isInProgress()).toBe(true)
+    expect(actions.at(-1)?.type === 'next_turn' || !game.isInProgress()).toBe(true)
+  })
+
+  it('answers GameController prompts through BotGameRenderer', async () => {
+    const renderer = new BotGameRenderer(BotRegistry.create('Demo-Conservative'))
+    const controller = GameControllerFactory.create(config, renderer)
+
+    await withSilentConsole(() => controller.playGame())
+
+    expect(['victory', 'game_over']).toContain(controller.getGameState().status)
+  })
+})
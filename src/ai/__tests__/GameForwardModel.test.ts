@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { GameForwardModel } from '../GameForwardModel'
+import { Game } from '../../domain/entities/Game'
+import { GameReplayer } from '../../domain/services/GameReplayer'
+import { GameConstantsAccessor } from '../../domain/constants/GameConstants'
+import { SeededRandom } from '../../common/SeededRandom'
+import type { GameConfig } from '../../domain/types/game.types'
+
+describe('GameForwardModel', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 22
+  }
+
+  // Play random legal actions until the first challenge hand is drawn
+  const createGameInChallenge = async () => {
+    const game = new Game(config)
+    const random = new SeededRandom(3)
+    while (game.phase !== 'challenge' || game.getLegalActions()[0]?.type === 'draw_cards') {
+      const actions = game.getLegalActions()
+      await game.apply(actions[random.nextInt(actions.length)]!)
+    }
+    return game
+  }
+
+  it('clone copies the full state and evolves exactly like the original', async () => {
+    const game = await createGameInChallenge()
+    const copy = game.clone()
+
+    expect(copy).not.toBe(game)
+    expect(copy.hand[0]).not.toBe(game.hand[0])
+    expect(GameReplayer.compareSnapshots(game.toSnapshot(), copy.toSnapshot())).toEqual([])
+    expect(copy.getLegalActions()).toEqual(game.getLegalActions())
+
+    const random = new SeededRandom(5)
+    for (let step = 0; step < 30 && game.getLegalActions().length > 0; step++) {
+      const actions = game.getLegalActions()
+      const action = actions[random.nextInt(actions.length)]!
+      await game.apply(action)
+      await copy.apply(action)
+    }
+    expect(GameReplayer.compareSnapshots(game.toSnapshot(), copy.toSnapshot())).toEqual([])
+  })
+
+  it('rollouts and simulations leave the original game and shared settings untouched', async () => {
+    const game = await createGameInChallenge()
+    const before = game.toSnapshot()
+    const overrides = GameConstantsAccessor.getOverrides()
+
+    const result = await GameForwardModel.rollout(game, GameForwardModel.randomPolicy(new SeededRandom(9)))
+    const successors = await GameForwardModel.successors(game)
+
+    expect(result.finished).toBe(true)
+    expect(['victory', 'game_over']).toContain(result.game.status)
+    expect(successors.map(successor => successor.action)).toEqual(game.getLegalActions())
+
+    expect(game.toSnapshot()).toEqual({ ...before, savedAt: expect.any(String) })
+    expect(GameConstantsAccessor.getOverrides()).toBe(overrides)
+  })
+
+  it('simulate reaches the same state as applying the actions to the game', async () => {
+    const game = await createGameInChallenge()
+    const actions = [{ type: 'toggle_card_selection', handIndex: 0 }, { type: 'resolve_challenge' }] as const
+
+    const simulated = await GameForwardModel.simulate(game, [...actions])
+    for (const action of actions) {
+      await game.apply(action)
+    }
+
+    expect(GameReplayer.compareSnapshots(game.toSnapshot(), simulated.toSnapshot())).toEqual([])
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ModelTrainer } from '../ModelTrainer'
+import { TrainedModels, type TrainedModelFile } from '../TrainedModels'
+import { BotPlayer } from '../BotPlayer'
+import { Game } from '../../domain/entities/Game'
+import { MassiveBenchmark } from '../../benchmark/MassiveBenchmark'
+import { SeededRandom } from '../../common/SeededRandom'
+import { withSilentConsole } from '../../common/SilentConsole'
+import type { GameConfig } from '../../domain/types/game.types'
+
+describe('ModelTrainer', () => {
+  const gameConfig: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 15,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 2
+  }
+
+  it('trains Q-learning with learning-curve points and checkpoints', async () => {
+    const checkpoints: TrainedModelFile[] = []
+    const trainer = new ModelTrainer({
+      type: 'q-learning',
+      episodes: 6,
+      curveInterval: 3,
+      checkpointInterval: 2,
+      gameConfig,
+      seed: 8,
+      onCheckpoint: file => { checkpoints.push(file) }
+    })
+
+    const { model, episodes } = await trainer.train()
+
+    expect(episodes).toBe(6)
+    expect(checkpoints.map(file => file.episodes)).toEqual([2, 4, 6])
+    expect(model.learningCurve.map(point => point.episodes)).toEqual([3, 6])
+    expect(model.model.type).toBe('q-learning')
+    if (model.model.type === 'q-learning') {
+      expect(model.model.gameCount).toBe(6)
+      expect(Object.keys(model.model.qTable).length).toBeGreaterThan(0)
+    }
+  })
+
+  it('saves models that load back and play greedily', async () => {
+    const { model } = await new ModelTrainer({ type: 'q-learning', episodes: 3, curveInterval: 3, gameConfig, seed: 2 }).train()
+    const loaded = TrainedModels.parse(TrainedModels.stringify(model))
+
+    expect(loaded).toEqual(model)
+    expect(TrainedModels.loadStrategy(loaded).exportModel()).toEqual(model.model)
+
+    const game = new Game({ ...gameConfig, seed: 4 })
+    await withSilentConsole(() => BotPlayer.play(game, TrainedModels.createBot(loaded, new SeededRandom(1))))
+    expect(['victory', 'game_over']).toContain(game.status)
+  })
+
+  it('resumes training where the model left off', async () => {
+    const first = await new ModelTrainer({ type: 'genetic', episodes: 4, gamesPerUpdate: 2, curveInterval: 2, gameConfig, seed: 3 }).train()
+    const second = await new ModelTrainer({ resume: first.model, episodes: 2, gamesPerUpdate: 2, curveInterval: 2, gameConfig }).train()
+
+    expect(second.model.model.type).toBe('genetic')
+    expect(second.model.seed).toBe(3)
+    expect(second.model.episodes).toBe(6)
+    expect(second.model.learningCurve.map(point => point.episodes)).toEqual([2, 4, 6])
+    if (second.model.model.type === 'genetic') {
+      // Two individuals were evaluated in the first run, one more after resuming
+      expect(second.model.model.currentIndex).toBe(3)
+    }
+  })
+
+  it('learns from leftover games and completes the unfinished curve block after resuming', async () => {
+    const first = await new ModelTrainer({ type: 'q-learning', episodes: 5, gamesPerUpdate: 2, curveInterval: 3, gameConfig, seed: 5 }).train()
+
+    expect(first.model.learningCurve.map(point => point.episodes)).toEqual([3])
+    expect(first.model.curveBlock?.games).toBe(2)
+    if (first.model.model.type === 'q-learning') {
+      expect(first.model.model.gameCount).toBe(5)
+    }
+
+    const second = await new ModelTrainer({ resume: first.model, episodes: 4, gamesPerUpdate: 2, curveInterval: 3, gameConfig }).train()
+    expect(second.model.learningCurve.map(point => point.episodes)).toEqual([3, 6, 9])
+    expect(second.model.curveBlock).toBeUndefined()
+  })
+
+  it('plays episodes without console output', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    try {
+      await new ModelTrainer({ type: 'q-learning', episodes: 1, curveInterval: 1, gameConfig, seed: 7 }).train()
+      expect(log.mock.calls).toEqual([])
+    } finally {
+      log.mockRestore()
+    }
+  })
+
+  it('lets benchmarks play a trained model', async () => {
+    const { model } = await new ModelTrainer({ type: 'q-learning', episodes: 2, curveInterval: 2, gameConfig, seed: 6 }).train()
+    const result = await new MassiveBenchmark({ totalGames: 2, model, gameConfig, seed: 1, includeGameRecords: true }).execute()
+
+    expect(result.execution.strategy).toBe('Q-Learning (trained)')
+    expect(result.gameResults!.every(record => record.outcome === 'victory' || record.outcome === 'game_over')).toBe(true)
+  })
+
+  it('rejects files that are not supported models', () => {
+    expect(() => TrainedModels.parse('{"format":"other"}')).toThrow('Not a trained model file')
+    expect(() => TrainedModels.parse('{"format":"life-game-ai-model","version":99}')).toThrow('Unsupported model file version: 99')
+    expect(() => new ModelTrainer({ type: 'mcts' as never })).toThrow('Unknown trainable strategy: mcts')
+  })
+})
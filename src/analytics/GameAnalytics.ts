@@ -0,0 +1,1768 @@
+import type { PlayerStats } from '../domain/types/game.types'
+import type { GameStage } from '../domain/types/card.types'
+import type { GameResultSummary } from '../benchmark/MassiveBenchmark'
+import { defaultRandom, shuffleArray, type RandomSource } from '../common/SeededRandom'
+import {
+  StatisticalTests,
+  type ANOVAResult,
+  type ChiSquareResult,
+  type CorrelationMatrix,
+  type DescriptiveStatistics,
+  type ProportionTestResult,
+  type TTestResult
+} from './StatisticalTests'
+import {
+  AnomalyDetector,
+  StreamProcessor,
+  type AnomalyDetectorConfig,
+  type StreamProcessorConfig
+} from './StreamAnalytics'
+
+/**
+ * A finished game as read from benchmark output
+ * (MassiveBenchmark `gameResults`, or any records with at least `outcome` and `stats`)
+ */
+export interface GameRecordInput {
+  outcome: string
+  stats: PlayerStats
+  strategy?: string
+  turns?: number
+  score?: number
+  finalStage?: GameStage
+  finalVitality?: number
+  insuranceCount?: number
+  insuranceBurden?: number
+}
+
+/**
+ * Normalized game used by all analyses
+ */
+export interface AnalyzedGame {
+  outcome: string
+  victory: boolean
+  strategy: string
+  finalStage: GameStage
+  turns: number
+  score: number
+  finalVitality: number
+  insuranceCount: number
+  insuranceBurden: number
+  stats: PlayerStats
+}
+
+export interface WinRateRange {
+  min: number // 0-1
+  max: number // 0-1
+}
+
+export interface WinRateSummary {
+  games: number
+  victories: number
+  winRate: number // 0-1
+  confidenceInterval: { lower: number; upper: number }
+  confidenceLevel: number
+}
+
+export interface GroupSummary extends WinRateSummary {
+  name: string
+  averageTurns: number
+  averageScore: number
+}
+
+export interface PairwiseComparison {
+  groupA: string
+  groupB: string
+  winRate: ProportionTestResult
+  turns: TTestResult
+  score: TTestResult
+}
+
+export interface GroupComparison {
+  groups: GroupSummary[]
+  winRateTest?: ChiSquareResult // victories vs defeats across all groups
+  turnsTest: ANOVAResult
+  pairwise: PairwiseComparison[]
+  significant: boolean // win rates differ between groups
+}
+
+export type WinRateVerdict = 'too_hard' | 'too_easy' | 'within_target' | 'inconclusive'
+
+export interface WinRateEvaluation extends WinRateSummary {
+  target: WinRateRange
+  verdict: WinRateVerdict
+  message: string
+}
+
+export interface StageBalance {
+  gamesReached: number
+  clearRate: number // % of games reaching the stage that did not end there in game over
+  winRate: number // same as clearRate; name read by the CLI
+  issues: string[]
+}
+
+export interface BalanceRecommendation {
+  priority: 'high' | 'medium' | 'low'
+  title: string
+  description: string
+}
+
+export interface BalanceAnalysis {
+  overallBalance: number // 0-100
+  winRate: WinRateEvaluation
+  stageBalance: Partial<Record<GameStage, StageBalance>>
+  recommendations: BalanceRecommendation[]
+}
+
+export interface ComprehensiveReport {
+  summary: WinRateSummary & {
+    averageTurns: number
+    averageScore: number
+    averageFinalVitality: number
+    averageInsuranceCount: number
+  }
+  gameBalance: BalanceAnalysis
+  strategies: {
+    comparison?: GroupComparison
+    winningStrategies: string[] // strategies whose win rate is significantly above the rest
+  }
+  correlations: CorrelationMatrix
+  recommendations: string[]
+}
+
+export interface WinRateDistribution {
+  batches: number // one batch per worker
+  mean: number // 0-1, over batches
+  median: number
+  standardDeviation: number
+  overallWinRate: number // 0-1, over all games
+  confidenceInterval: { lower: number; upper: number } // for overallWinRate
+}
+
+export interface GameLengthAnalysis {
+  averageLength: number // turns
+  optimalLength: number // length with the best win rate among the common lengths
+  winRateByLength: Array<{ turns: number; games: number; winRate: number }>
+}
+
+export interface ChallengeBalanceInput {
+  challengeId: string
+  successRate: number // 0-1
+  attemptCount: number
+  stage: GameStage
+}
+
+export interface ChallengeBalanceAnalysis {
+  balanceScore: number // 0-100, share of attempts on challenges inside CHALLENGE_SUCCESS_TARGET
+  averageSuccessRate: number // weighted by attempts
+  tooHard: string[] // challenge ids
+  tooEasy: string[]
+  byStage: Partial<Record<GameStage, { challenges: number; averageSuccessRate: number }>>
+  recommendations: string[]
+}
+
+export interface StrategyPerformanceSummary {
+  games: number
+  winRate: number // 0-1
+  averageScore: number
+}
+
+export interface OverpoweredStrategyAnalysis {
+  strategyPerformance: Record<string, StrategyPerformanceSummary>
+  dominantStrategies: string[] // significantly ahead of all other games on score or win rate
+  balanceScore: number // 0-1, lowest over highest average score
+}
+
+export interface BalanceMetrics {
+  giniCoefficient: number // inequality of scores, 0 = all equal
+  varianceInOutcomes: number // variance of the victory indicator, p(1 - p)
+  playerProgression: Array<{ turns: number; games: number; averageScore: number }> // by game length
+  difficultyProgression: Record<string, { games: number; winRate: number; challengeSuccessRate: number }> // by final stage
+}
+
+export interface DecisionRecord {
+  turn: number
+  cardSelected: number // index of the chosen card
+  timeToDecide: number // seconds
+  outcomeSuccess: boolean
+}
+
+export interface PlayerDecisions {
+  playerId: string
+  decisions: DecisionRecord[]
+}
+
+export type DecisionStyle = 'quick' | 'steady' | 'deliberate'
+
+export interface DecisionPatternAnalysis {
+  averageDecisionTime: number
+  decisionTimeDistribution: DescriptiveStatistics
+  cardSelectionFrequency: Record<number, number> // share of decisions per card index
+  learningCurve: Array<{ turn: number; decisions: number; successRate: number; averageDecisionTime: number }>
+  playerTypes: Record<DecisionStyle, number> // players by their average decision time against the quartiles
+}
+
+export interface PlayerProfile {
+  playerId: string
+  gamesPlayed: number
+  averageScore: number
+  preferredStrategy?: string | undefined
+  riskTolerance: number // 0-1
+  sessionLength: number // minutes
+}
+
+export interface PlayerArchetype {
+  name: string
+  players: number
+  percentage: number // of all players
+  characteristics: {
+    riskTolerance: number // averages over the archetype's players
+    averageScore: number
+    gamesPlayed: number
+    sessionLength: number
+    preferredStrategy?: string // most common preference
+  }
+}
+
+export interface LearningProgressRecord {
+  gameNumber: number
+  score: number
+  completionTime: number
+  mistakeCount: number
+  strategyComplexity: number
+}
+
+export type LearningMetric = Exclude<keyof LearningProgressRecord, 'gameNumber'>
+
+export interface LearningTrend {
+  slope: number // per game
+  pValue: number
+  direction: 'improving' | 'declining' | 'flat'
+}
+
+export interface LearningProgression {
+  learningRate: number // score gained per game (regression slope)
+  skillCeiling: number // best rolling average score
+  plateauPoint: number // game number where the rolling average first comes within 5% of the ceiling
+  improvementTrends: Record<LearningMetric, LearningTrend>
+}
+
+export interface EngagementRecord {
+  playerId: string
+  sessionsPerWeek: number
+  averageSessionLength: number // minutes
+  retentionDays: number
+  completionRate: number // 0-1
+  socialInteractions: number
+}
+
+export interface EngagementMetrics {
+  averageRetention: number // days
+  sessionFrequency: number // sessions per week
+  engagementScore: number // 0-100
+  churnRisk: { rate: number; players: string[] } // players scoring below CHURN_RISK_SCORE
+}
+
+export interface PerformanceSample {
+  gameId: string
+  initializationTime: number // ms
+  renderingTime: number // ms per frame
+  inputProcessingTime: number // ms
+  memoryUsage: number // MB
+  frameRate: number // fps
+  loadingTime: number // ms
+}
+
+export type PerformanceMetric = Exclude<keyof PerformanceSample, 'gameId'>
+
+export interface PerformanceMetricSummary {
+  metric: PerformanceMetric
+  budget: number
+  mean: number
+  worstCase: number // 95th percentile (5th for frame rate)
+  overBudgetRate: number // 0-1
+}
+
+export interface PerformanceBottleneckAnalysis {
+  bottleneckAreas: PerformanceMetricSummary[] // metrics whose worst case misses the budget
+  performanceScore: number // 0-100, share of measurements within budget
+  optimizationPriorities: PerformanceMetric[] // bottlenecks, most often over budget first
+  benchmarkComparison: Record<PerformanceMetric, PerformanceMetricSummary>
+}
+
+export interface MemorySample {
+  timestamp: number // ms
+  heapUsed: number // MB
+  heapTotal: number // MB
+  external: number // MB
+  gcEvents: number // collections since the previous sample
+}
+
+export interface MemoryPatternAnalysis {
+  averageUsage: number // MB of heap used
+  peakUsage: number
+  memoryLeaks: { suspected: boolean; growthRate: number; pValue: number } // growth in MB per minute
+  gcFrequency: number // collections per minute
+  optimizationSuggestions: string[]
+}
+
+export interface MetricComparison {
+  baseline: number // mean
+  current: number
+  ratio: number // current / baseline
+  test: TTestResult // current - baseline
+}
+
+export interface PerformanceComparison {
+  metrics: Record<string, MetricComparison>
+  performanceRatio: number // geometric mean of baseline / current; above 1 = faster than the baseline
+  regressionAreas: string[] // significantly higher than the baseline
+  improvementAreas: string[]
+  overallScore: number // 0-100, share of metrics without a regression
+}
+
+export interface PatternGameInput extends GameResultSummary {
+  timeOfDay?: number // hour 0-23
+  dayOfWeek?: number // 0 = Sunday
+  difficulty?: string | undefined
+  playerLevel?: number
+}
+
+export interface TemporalBucket {
+  period: number
+  games: number
+  winRate: number
+}
+
+export interface PatternAnomaly {
+  gameId: number
+  metric: string
+  value: number
+  zScore: number
+}
+
+export interface PatternDiscovery {
+  temporalPatterns: { byHour: TemporalBucket[]; byDayOfWeek: TemporalBucket[] }
+  correlations: CorrelationMatrix
+  anomalies: PatternAnomaly[] // most extreme first
+  significantFindings: string[]
+}
+
+export interface Cluster {
+  centroid: number[]
+  points: number[][]
+  indices: number[] // positions of the points in the input
+  cohesion: number // mean distance of the points to the centroid, in standard deviations
+}
+
+export interface SeasonalDataPoint {
+  date: Date
+  [metric: string]: number | Date
+}
+
+export interface SeasonalTrends {
+  metric: string
+  weeklyPattern: number[] // mean by day of week (0 = Sunday) over the overall mean; 0 without data
+  monthlyPattern: number[] // same by day of month (index 0 = the 1st)
+  yearlyPattern: number[] // same by month (0 = January)
+  peakPeriods: string[] // peak of each pattern
+  trendStrength: number // 0-1, R² of the linear trend
+}
+
+export interface TrendObservation {
+  period: number
+  value: number
+}
+
+export interface TrendPrediction {
+  period: number
+  predictedValue: number
+  lowerBound: number
+  upperBound: number
+  confidence: number // confidence level of the bounds
+}
+
+export interface ABTestObservation {
+  converted: boolean
+  value?: number
+}
+
+export interface ABTestAnalysis {
+  conversionRateA: number
+  conversionRateB: number
+  conversionRateDifference: number // B - A
+  confidenceInterval: { lower: number; upper: number } // for the difference
+  pValue: number
+  statisticalSignificance: boolean
+  valueTest?: TTestResult // B - A, when every observation has a value
+  recommendedAction: 'adopt_b' | 'keep_a' | 'continue_testing'
+}
+
+export interface PowerAnalysisInput {
+  sampleSizeA: number
+  sampleSizeB: number
+  effectSize: number // standardized (Cohen's d or h)
+  alpha?: number // default: the analyzer's significance level
+  targetPower?: number // default 0.8
+}
+
+export interface PowerAnalysis {
+  power: number
+  minimumSampleSize: number // per group to reach the target power
+  detectedEffectSize: number // smallest effect the given groups detect with the target power
+  recommendation: string
+}
+
+export interface ExperimentDesignInput {
+  expectedEffectSize: number // relative change of the conversion rate (0.2 = +20%)
+  desiredPower: number
+  significanceLevel: number
+  baselineConversionRate: number
+  dailySampleSize?: number // players entering the experiment per day (default 100)
+}
+
+export interface ExperimentDesign {
+  recommendedSampleSize: number // per group
+  totalSampleSize: number
+  experimentDuration: number // days
+  minimumDetectableEffect: number // smallest absolute change of the conversion rate detectable with that sample
+  stratificationRecommendations: string[]
+}
+
+export interface MLFeatureSet {
+  featureMatrix: number[][]
+  featureNames: string[]
+  targetVariable: number[] // 1 = victory
+}
+
+export type FeatureScaling = 'min-max' | 'z-score'
+
+export interface NormalizedFeatures {
+  features: number[][]
+  method: FeatureScaling
+  scalingParameters: Array<{ offset: number; scale: number }> // per column: (value - offset) / scale
+}
+
+export interface DatasetSplit<T> {
+  training: T[]
+  validation: T[]
+  testing: T[]
+}
+
+export interface GameAnalyticsConfig {
+  confidenceLevel: number
+  targetWinRate: WinRateRange // used when the strategy has no entry in WIN_RATE_TARGETS
+  minimumGamesPerGroup: number // smaller groups are left out of comparisons (at least 2)
+}
+
+/**
+ * Win rate bands each persona is expected to land in (same bands as verify-balance)
+ */
+export const WIN_RATE_TARGETS: Record<string, WinRateRange> = {
+  Beginner: { min: 0.2, max: 0.8 },
+  Advanced: { min: 0.5, max: 0.95 }
+}
+
+/**
+ * Per-game variables available to correlation analysis
+ */
+export const ANALYTICS_VARIABLES: Record<string, (game: AnalyzedGame) => number> = {
+  insuranceCount: game => game.insuranceCount,
+  insuranceBurden: game => game.insuranceBurden,
+  finalVitality: game => game.finalVitality,
+  turnsSurvived: game => game.turns,
+  score: game => game.score,
+  victory: game => (game.victory ? 1 : 0),
+  turnsPlayed: game => game.stats.turnsPlayed,
+  cardsAcquired: game => game.stats.cardsAcquired,
+  successfulChallenges: game => game.stats.successfulChallenges,
+  highestVitality: game => game.stats.highestVitality,
+  winRate: game => (game.victory ? 1 : 0) // alias kept for the CLI's variable list
+}
+
+const DEFAULT_CORRELATION_VARIABLES = ['insuranceCount', 'finalVitality', 'turnsSurvived', 'score', 'victory']
+
+const STAGES: GameStage[] = ['youth', 'middle', 'fulfillment']
+
+// Outcomes that did not produce a finished game
+const UNFINISHED_OUTCOMES = new Set(['error', 'timeout'])
+
+/**
+ * Success rate band a challenge should land in
+ */
+export const CHALLENGE_SUCCESS_TARGET: WinRateRange = { min: 0.3, max: 0.8 }
+
+/**
+ * Budget per measurement; frame rate is a minimum, everything else a maximum
+ */
+export const PERFORMANCE_BUDGETS: Record<PerformanceMetric, number> = {
+  initializationTime: 100,
+  renderingTime: 16.7, // one frame at 60 fps
+  inputProcessingTime: 50,
+  memoryUsage: 150,
+  frameRate: 60,
+  loadingTime: 1000
+}
+
+// Values that count as fully engaged in the engagement score
+const ENGAGEMENT_TARGETS = { sessionsPerWeek: 7, averageSessionLength: 60, retentionDays: 30, socialInteractions: 10 }
+const CHURN_RISK_SCORE = 40
+
+// Archetypes by risk tolerance (exclusive upper bounds)
+const PLAYER_ARCHETYPES = [
+  { name: 'Cautious', maxRiskTolerance: 1 / 3 },
+  { name: 'Balanced', maxRiskTolerance: 2 / 3 },
+  { name: 'Risk-taker', maxRiskTolerance: Infinity }
+]
+
+// 1 = higher is better
+const LEARNING_METRICS: Record<LearningMetric, 1 | -1> = {
+  score: 1,
+  completionTime: -1,
+  mistakeCount: -1,
+  strategyComplexity: 1
+}
+const LEARNING_WINDOW = 5 // games per rolling average
+
+// Heap growth over the sampled window, as a share of the average heap, that counts as a leak
+const LEAK_GROWTH_SHARE = 0.1
+const GC_PER_MINUTE_LIMIT = 60
+
+/**
+ * Per-game variables searched for correlations by discoverPatterns
+ */
+const PATTERN_VARIABLES: Record<string, (game: PatternGameInput) => number | undefined> = {
+  score: game => summaryScore(game),
+  victory: game => (isVictory(game) ? 1 : 0),
+  turnsPlayed: game => game.stats.turnsPlayed,
+  totalChallenges: game => game.stats.totalChallenges,
+  successfulChallenges: game => game.stats.successfulChallenges,
+  finalVitality: game => game.stats.finalVitality,
+  duration: game => game.duration,
+  playerLevel: game => game.playerLevel
+}
+const PATTERN_ANOMALY_VARIABLES = ['score', 'turnsPlayed', 'duration']
+const ANOMALY_Z_SCORE = 3
+
+/**
+ * Per-game features for outcome models (score is left out: it already reflects the outcome)
+ */
+const ML_FEATURES: Record<string, (game: GameResultSummary) => number> = {
+  turnsPlayed: game => game.stats.turnsPlayed,
+  totalChallenges: game => game.stats.totalChallenges,
+  successfulChallenges: game => game.stats.successfulChallenges,
+  failedChallenges: game => game.stats.failedChallenges,
+  challengeSuccessRate: game => (game.stats.totalChallenges > 0 ? game.stats.successfulChallenges / game.stats.totalChallenges : 0),
+  cardsAcquired: game => game.stats.cardsAcquired,
+  highestVitality: game => game.stats.highestVitality,
+  finalVitality: game => game.stats.finalVitality ?? 0,
+  finalInsuranceBurden: game => game.stats.finalInsuranceBurden ?? 0,
+  duration: game => game.duration
+}
+
+const DEFAULT_TARGET_POWER = 0.8
+const DEFAULT_DAILY_SAMPLE_SIZE = 100
+const MAX_KMEANS_ITERATIONS = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+/**
+ * Analysis of simulation results with significance testing
+ *
+ * Reads the per-game records written by MassiveBenchmark and answers questions
+ * such as "is this win rate really outside the target band?" or "did the new
+ * balance config change the win rate, or is the difference noise?".
+ * The same toolkit covers per-worker GameResultSummary lists, player behavior,
+ * performance samples, experiments and ML preparation.
+ *
+ * @example
+ * const analytics = GameAnalyticsFactory.createBalanceAnalyzer()
+ * const baseline = GameAnalytics.loadResults(await readFile('before.json', 'utf8'))
+ * const candidate = GameAnalytics.loadResults(await readFile('after.json', 'utf8'))
+ * const comparison = analytics.compareConfigs(baseline, candidate)
+ * comparison.pairwise[0].winRate.pValue
+ */
+export class GameAnalytics {
+  private readonly config: GameAnalyticsConfig
+  private readonly stats: StatisticalTests
+
+  constructor(config: Partial<GameAnalyticsConfig> = {}) {
+    this.config = {
+      confidenceLevel: 0.95,
+      targetWinRate: { min: 0.2, max: 0.95 },
+      minimumGamesPerGroup: 2,
+      ...config
+    }
+    this.config.minimumGamesPerGroup = Math.max(2, this.config.minimumGamesPerGroup)
+    this.stats = new StatisticalTests({ confidenceLevel: this.config.confidenceLevel })
+  }
+
+  /**
+   * Read finished games from benchmark output
+   *
+   * Accepts a MassiveBenchmark result (or any object with `gameResults`), a plain
+   * array of game records, or their JSON text. Errored and timed-out games are skipped.
+   * @throws {Error} when the data contains no per-game records
+   */
+  static loadResults(data: unknown): AnalyzedGame[] {
+    const parsed = typeof data === 'string' ? JSON.parse(data) as unknown : data
+    const records = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { gameResults?: unknown } | null)?.gameResults
+
+    if (!Array.isArray(records)) {
+      throw new Error('No per-game records found (run the benchmark with includeGameRecords enabled)')
+    }
+
+    return (records as GameRecordInput[])
+      .filter(record => record?.stats && !UNFINISHED_OUTCOMES.has(record.outcome))
+      .map(record => normalizeGame(record))
+  }
+
+  /**
+   * Win rate with its confidence interval
+   */
+  analyzeWinRate(games: AnalyzedGame[]): WinRateSummary {
+    requireGames(games)
+    const victories = games.filter(game => game.victory).length
+    const interval = this.stats.confidenceIntervalProportion(victories, games.length)
+    return {
+      games: games.length,
+      victories,
+      winRate: interval.proportion,
+      confidenceInterval: { lower: interval.lower, upper: interval.upper },
+      confidenceLevel: interval.confidenceLevel
+    }
+  }
+
+  /**
+   * Judge a win rate against a target band
+   * Only a confidence interval entirely outside the band counts as too hard or too easy.
+   */
+  evaluateWinRate(games: AnalyzedGame[], target: WinRateRange = this.targetFor(games)): WinRateEvaluation {
+    const summary = this.analyzeWinRate(games)
+    const { lower, upper } = summary.confidenceInterval
+    const range = `${percent(target.min)}-${percent(target.max)}`
+    const observed = `${percent(summary.winRate)} (CI ${percent(lower)}-${percent(upper)}, n=${summary.games})`
+
+    let verdict: WinRateVerdict
+    let message: string
+    if (upper < target.min) {
+      verdict = 'too_hard'
+      message = `Win rate ${observed} is significantly below the target ${range}`
+    } else if (lower > target.max) {
+      verdict = 'too_easy'
+      message = `Win rate ${observed} is significantly above the target ${range}`
+    } else if (lower >= target.min && upper <= target.max) {
+      verdict = 'within_target'
+      message = `Win rate ${observed} is within the target ${range}`
+    } else {
+      verdict = 'inconclusive'
+      message = `Win rate ${observed} overlaps the edge of the target ${range}; run more games to decide`
+    }
+
+    return { ...summary, target, verdict, message }
+  }
+
+  /**
+   * Compare win rate, game length and score between labelled groups of games
+   * (strategies, balance configs, ...)
+   */
+  compareGroups(groups: Record<string, AnalyzedGame[]>): GroupComparison {
+    const entries = Object.entries(groups).filter(([, games]) => games.length >= this.config.minimumGamesPerGroup)
+    if (entries.length < 2) {
+      throw new Error(`At least 2 groups with ${this.config.minimumGamesPerGroup}+ games are needed for a comparison`)
+    }
+
+    const summaries: GroupSummary[] = entries.map(([name, games]) => ({
+      name,
+      ...this.analyzeWinRate(games),
+      averageTurns: average(games.map(game => game.turns)),
+      averageScore: average(games.map(game => game.score))
+    }))
+
+    const table = summaries.map(summary => [summary.victories, summary.games - summary.victories])
+    const allSameOutcome = table.every(row => row[0] === 0) || table.every(row => row[1] === 0)
+    const winRateTest = allSameOutcome ? undefined : this.stats.chiSquareIndependence(table)
+    const turnsTest = this.stats.oneWayANOVA(entries.map(([, games]) => games.map(game => game.turns)))
+
+    const pairwise: PairwiseComparison[] = []
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const [nameA, gamesA] = entries[i]!
+        const [nameB, gamesB] = entries[j]!
+        pairwise.push({
+          groupA: nameA,
+          groupB: nameB,
+          winRate: this.stats.twoProportionTest(summaries[i]!.victories, gamesA.length, summaries[j]!.victories, gamesB.length),
+          turns: this.stats.twoSampleTTest(gamesA.map(game => game.turns), gamesB.map(game => game.turns)),
+          score: this.stats.twoSampleTTest(gamesA.map(game => game.score), gamesB.map(game => game.score))
+        })
+      }
+    }
+
+    return {
+      groups: summaries,
+      ...(winRateTest ? { winRateTest } : {}),
+      turnsTest,
+      pairwise,
+      significant: winRateTest?.significant ?? false
+    }
+  }
+
+  /**
+   * Compare the strategies that played the games
+   */
+  compareStrategies(games: AnalyzedGame[]): GroupComparison {
+    return this.compareGroups(groupBy(games, game => game.strategy))
+  }
+
+  /**
+   * Compare games played under two balance configs
+   */
+  compareConfigs(baseline: AnalyzedGame[], candidate: AnalyzedGame[]): GroupComparison {
+    return this.compareGroups({ baseline, candidate })
+  }
+
+  /**
+   * Correlations between per-game variables (names from ANALYTICS_VARIABLES)
+   * @throws {Error} for unknown variable names
+   */
+  analyzeCorrelations(games: AnalyzedGame[], variables: string[] = DEFAULT_CORRELATION_VARIABLES): CorrelationMatrix {
+    requireGames(games, 3)
+    const data: Record<string, number[]> = {}
+    variables.forEach(variable => {
+      const extract = ANALYTICS_VARIABLES[variable]
+      if (!extract) {
+        throw new Error(`Unknown variable: ${variable} (available: ${Object.keys(ANALYTICS_VARIABLES).join(', ')})`)
+      }
+      data[variable] = games.map(extract)
+    })
+    return this.stats.correlationMatrix(data)
+  }
+
+  /**
+   * Balance overview: win rate against its target and how many games each stage loses
+   */
+  analyzeGameBalance(data: unknown): BalanceAnalysis {
+    const games = toGames(data)
+    const winRate = this.evaluateWinRate(games)
+    const recommendations: BalanceRecommendation[] = []
+    const stageBalance: Partial<Record<GameStage, StageBalance>> = {}
+
+    STAGES.forEach((stage, index) => {
+      const reached = games.filter(game => STAGES.indexOf(game.finalStage) >= index)
+      if (reached.length === 0) return
+
+      const lost = reached.filter(game => game.finalStage === stage && game.outcome === 'game_over').length
+      const clearRate = ((reached.length - lost) / reached.length) * 100
+      const issues: string[] = []
+      // A stage losing a significant share of the players that reach it is a difficulty spike
+      if (lost > 0 && reached.length >= 2) {
+        const interval = this.stats.confidenceIntervalProportion(lost, reached.length)
+        if (interval.lower > 0.5) issues.push('more than half of the players are lost here')
+      }
+      if (stage !== 'youth' && reached.length < games.length * 0.1) {
+        issues.push('reached by fewer than 10% of games')
+      }
+      stageBalance[stage] = { gamesReached: reached.length, clearRate, winRate: clearRate, issues }
+      issues.forEach(issue => recommendations.push({
+        priority: 'medium',
+        title: `${stage} stage`,
+        description: `${capitalize(issue)} (${reached.length} games reached the stage)`
+      }))
+    })
+
+    if (winRate.verdict === 'too_hard' || winRate.verdict === 'too_easy') {
+      recommendations.unshift({
+        priority: 'high',
+        title: winRate.verdict === 'too_hard' ? 'Game is too hard' : 'Game is too easy',
+        description: winRate.message
+      })
+    } else if (winRate.verdict === 'inconclusive') {
+      recommendations.push({ priority: 'low', title: 'Not enough games', description: winRate.message })
+    }
+
+    return {
+      overallBalance: balanceScore(winRate),
+      winRate,
+      stageBalance,
+      recommendations
+    }
+  }
+
+  /**
+   * Everything above in one report
+   */
+  generateComprehensiveReport(data: unknown): ComprehensiveReport {
+    const games = toGames(data)
+    const gameBalance = this.analyzeGameBalance(games)
+    const strategies = groupBy(games, game => game.strategy)
+    const comparison = Object.values(strategies).filter(group => group.length >= this.config.minimumGamesPerGroup).length >= 2
+      ? this.compareGroups(strategies)
+      : undefined
+
+    const winningStrategies = comparison
+      ? comparison.groups
+        .filter(group => comparison.pairwise.every(pair =>
+          (pair.groupA !== group.name && pair.groupB !== group.name) ||
+          (pair.winRate.significant && (pair.groupA === group.name ? pair.winRate.difference > 0 : pair.winRate.difference < 0))))
+        .map(group => group.name)
+      : []
+
+    const recommendations = gameBalance.recommendations.map(rec => `[${rec.priority}] ${rec.title}: ${rec.description}`)
+    winningStrategies.forEach(name => recommendations.push(`Strategy ${name} wins significantly more often than all others`))
+
+    return {
+      summary: {
+        ...this.analyzeWinRate(games),
+        averageTurns: average(games.map(game => game.turns)),
+        averageScore: average(games.map(game => game.score)),
+        averageFinalVitality: average(games.map(game => game.finalVitality)),
+        averageInsuranceCount: average(games.map(game => game.insuranceCount))
+      },
+      gameBalance,
+      strategies: { ...(comparison ? { comparison } : {}), winningStrategies },
+      correlations: games.length >= 3 ? this.analyzeCorrelations(games) : { variables: [], matrix: [], significantPairs: [] },
+      recommendations
+    }
+  }
+
+  // === Benchmark game summaries ===
+
+  /**
+   * Spread of the win rate between workers (each worker's games are one batch)
+   */
+  analyzeWinRateDistribution(games: GameResultSummary[]): WinRateDistribution {
+    requireGames(games)
+    const rates = Object.values(groupBy(games, game => String(game.workerId)))
+      .map(batch => batch.filter(isVictory).length / batch.length)
+    const interval = this.stats.confidenceIntervalProportion(games.filter(isVictory).length, games.length)
+    return {
+      batches: rates.length,
+      mean: this.stats.calculateMean(rates),
+      median: this.stats.calculateMedian(rates),
+      standardDeviation: this.stats.calculateStandardDeviation(rates),
+      overallWinRate: interval.proportion,
+      confidenceInterval: { lower: interval.lower, upper: interval.upper }
+    }
+  }
+
+  /**
+   * Game length with the best win rate
+   * Only lengths seen in at least 5% of the games compete, so a rare length cannot win on noise.
+   */
+  analyzeOptimalGameLength(games: GameResultSummary[]): GameLengthAnalysis {
+    requireGames(games)
+    const winRateByLength = Object.entries(groupBy(games, game => String(game.stats.turnsPlayed)))
+      .map(([turns, group]) => ({ turns: Number(turns), games: group.length, winRate: group.filter(isVictory).length / group.length }))
+      .sort((a, b) => a.turns - b.turns)
+    const minimumGames = Math.max(this.config.minimumGamesPerGroup, Math.ceil(games.length * 0.05))
+    const common = winRateByLength.filter(entry => entry.games >= minimumGames)
+    const optimal = (common.length > 0 ? common : winRateByLength)
+      .reduce((best, entry) => (entry.winRate > best.winRate ? entry : best))
+
+    return {
+      averageLength: average(games.map(game => game.stats.turnsPlayed)),
+      optimalLength: optimal.turns,
+      winRateByLength
+    }
+  }
+
+  /**
+   * How many challenge attempts land in the CHALLENGE_SUCCESS_TARGET band
+   */
+  analyzeChallengeBalance(challenges: ChallengeBalanceInput[]): ChallengeBalanceAnalysis {
+    if (challenges.length === 0) {
+      throw new Error('At least 1 challenge is needed')
+    }
+    const { min, max } = CHALLENGE_SUCCESS_TARGET
+    const attempts = challenges.reduce((sum, challenge) => sum + challenge.attemptCount, 0)
+    // Without any attempts every challenge counts once
+    const weightOf = (challenge: ChallengeBalanceInput) => (attempts > 0 ? challenge.attemptCount : 1)
+    const weightedRate = (group: ChallengeBalanceInput[]) => {
+      const weight = group.reduce((sum, challenge) => sum + weightOf(challenge), 0)
+      return weight > 0 ? group.reduce((sum, challenge) => sum + challenge.successRate * weightOf(challenge), 0) / weight : 0
+    }
+
+    const inBand = challenges.filter(challenge => challenge.successRate >= min && challenge.successRate <= max)
+    const tooHard = challenges.filter(challenge => challenge.successRate < min).map(challenge => challenge.challengeId)
+    const tooEasy = challenges.filter(challenge => challenge.successRate > max).map(challenge => challenge.challengeId)
+    const totalWeight = challenges.reduce((sum, challenge) => sum + weightOf(challenge), 0)
+    const balanced = inBand.reduce((sum, challenge) => sum + weightOf(challenge), 0)
+
+    const byStage: ChallengeBalanceAnalysis['byStage'] = {}
+    const recommendations: string[] = []
+    STAGES.forEach(stage => {
+      const group = challenges.filter(challenge => challenge.stage === stage)
+      if (group.length === 0) return
+      const averageSuccessRate = weightedRate(group)
+      byStage[stage] = { challenges: group.length, averageSuccessRate }
+      if (averageSuccessRate < min) {
+        recommendations.push(`${stage}: challenges succeed only ${percent(averageSuccessRate)} of the time; lower their power`)
+      } else if (averageSuccessRate > max) {
+        recommendations.push(`${stage}: challenges succeed ${percent(averageSuccessRate)} of the time; raise their power`)
+      }
+    })
+    if (tooHard.length > 0) {
+      recommendations.push(`${tooHard.length} challenge(s) succeed less than ${percent(min)} of the time: ${listSome(tooHard)}`)
+    }
+    if (tooEasy.length > 0) {
+      recommendations.push(`${tooEasy.length} challenge(s) succeed more than ${percent(max)} of the time: ${listSome(tooEasy)}`)
+    }
+
+    return {
+      balanceScore: (balanced / totalWeight) * 100,
+      averageSuccessRate: weightedRate(challenges),
+      tooHard,
+      tooEasy,
+      byStage,
+      recommendations
+    }
+  }
+
+  /**
+   * Strategies that score or win significantly more than all other games
+   */
+  detectOverpoweredStrategies(games: GameResultSummary[]): OverpoweredStrategyAnalysis {
+    requireGames(games)
+    const groups = groupBy(games, game => game.strategy)
+    const strategyPerformance: Record<string, StrategyPerformanceSummary> = {}
+    Object.entries(groups).forEach(([strategy, group]) => {
+      strategyPerformance[strategy] = {
+        games: group.length,
+        winRate: group.filter(isVictory).length / group.length,
+        averageScore: average(group.map(summaryScore))
+      }
+    })
+
+    const minimumGames = this.config.minimumGamesPerGroup
+    const dominantStrategies = Object.entries(groups)
+      .filter(([strategy, group]) => {
+        const rest = games.filter(game => game.strategy !== strategy)
+        if (group.length < minimumGames || rest.length < minimumGames) return false
+        const score = this.stats.twoSampleTTest(group.map(summaryScore), rest.map(summaryScore))
+        const winRate = this.stats.twoProportionTest(group.filter(isVictory).length, group.length, rest.filter(isVictory).length, rest.length)
+        return (score.significant && score.meanDifference > 0) || (winRate.significant && winRate.difference > 0)
+      })
+      .map(([strategy]) => strategy)
+
+    const averages = Object.values(strategyPerformance).map(performance => performance.averageScore)
+    const highest = Math.max(...averages)
+    return {
+      strategyPerformance,
+      dominantStrategies,
+      balanceScore: highest > 0 ? Math.max(0, Math.min(...averages)) / highest : 1
+    }
+  }
+
+  /**
+   * Score inequality, outcome variance and how score and difficulty change over a game
+   */
+  calculateBalanceMetrics(games: GameResultSummary[]): BalanceMetrics {
+    requireGames(games)
+    const winRate = games.filter(isVictory).length / games.length
+    const playerProgression = Object.entries(groupBy(games, game => String(game.stats.turnsPlayed)))
+      .map(([turns, group]) => ({ turns: Number(turns), games: group.length, averageScore: average(group.map(summaryScore)) }))
+      .sort((a, b) => a.turns - b.turns)
+
+    const difficultyProgression: BalanceMetrics['difficultyProgression'] = {}
+    Object.entries(groupBy(games, game => game.stage)).forEach(([stage, group]) => {
+      const challenges = group.reduce((sum, game) => sum + game.stats.totalChallenges, 0)
+      const successes = group.reduce((sum, game) => sum + game.stats.successfulChallenges, 0)
+      difficultyProgression[stage] = {
+        games: group.length,
+        winRate: group.filter(isVictory).length / group.length,
+        challengeSuccessRate: challenges > 0 ? successes / challenges : 0
+      }
+    })
+
+    return {
+      giniCoefficient: giniCoefficient(games.map(summaryScore)),
+      varianceInOutcomes: winRate * (1 - winRate),
+      playerProgression,
+      difficultyProgression
+    }
+  }
+
+  // === Player behavior ===
+
+  analyzeDecisionPatterns(players: PlayerDecisions[]): DecisionPatternAnalysis {
+    const decisions = players.flatMap(player => player.decisions)
+    if (decisions.length === 0) {
+      throw new Error('At least 1 decision is needed')
+    }
+
+    const cardSelectionFrequency: Record<number, number> = {}
+    Object.entries(groupBy(decisions, decision => String(decision.cardSelected))).forEach(([card, group]) => {
+      cardSelectionFrequency[Number(card)] = group.length / decisions.length
+    })
+    const learningCurve = Object.entries(groupBy(decisions, decision => String(decision.turn)))
+      .map(([turn, group]) => ({
+        turn: Number(turn),
+        decisions: group.length,
+        successRate: group.filter(decision => decision.outcomeSuccess).length / group.length,
+        averageDecisionTime: average(group.map(decision => decision.timeToDecide))
+      }))
+      .sort((a, b) => a.turn - b.turn)
+
+    // A player's style is their average decision time against the quartiles of all players' averages
+    const playerTimes = Object.values(groupBy(players.filter(player => player.decisions.length > 0), player => player.playerId))
+      .map(entries => average(entries.flatMap(entry => entry.decisions).map(decision => decision.timeToDecide)))
+    const q1 = this.stats.calculatePercentile(playerTimes, 25)
+    const q3 = this.stats.calculatePercentile(playerTimes, 75)
+    const playerTypes: Record<DecisionStyle, number> = { quick: 0, steady: 0, deliberate: 0 }
+    playerTimes.forEach(time => {
+      if (time < q1) playerTypes.quick++
+      else if (time > q3) playerTypes.deliberate++
+      else playerTypes.steady++
+    })
+
+    const times = decisions.map(decision => decision.timeToDecide)
+    return {
+      averageDecisionTime: average(times),
+      decisionTimeDistribution: this.stats.calculateDescriptiveStats(times),
+      cardSelectionFrequency,
+      learningCurve,
+      playerTypes
+    }
+  }
+
+  /**
+   * Players grouped by risk tolerance; archetypes nobody falls into are left out
+   */
+  identifyPlayerArchetypes(players: PlayerProfile[]): PlayerArchetype[] {
+    if (players.length === 0) {
+      throw new Error('At least 1 player is needed')
+    }
+    const groups = groupBy(players, player =>
+      (PLAYER_ARCHETYPES.find(archetype => player.riskTolerance < archetype.maxRiskTolerance) ?? PLAYER_ARCHETYPES[PLAYER_ARCHETYPES.length - 1]!).name)
+
+    return PLAYER_ARCHETYPES.flatMap(({ name }) => {
+      const members = groups[name]
+      if (!members) return []
+      const preferredStrategy = mostCommon(members.flatMap(member => member.preferredStrategy ?? []))
+      return [{
+        name,
+        players: members.length,
+        percentage: (members.length / players.length) * 100,
+        characteristics: {
+          riskTolerance: average(members.map(member => member.riskTolerance)),
+          averageScore: average(members.map(member => member.averageScore)),
+          gamesPlayed: average(members.map(member => member.gamesPlayed)),
+          sessionLength: average(members.map(member => member.sessionLength)),
+          ...(preferredStrategy !== undefined ? { preferredStrategy } : {})
+        }
+      }]
+    })
+  }
+
+  /**
+   * Trends of one player's games in the order they were played
+   */
+  analyzeLearningProgression(games: LearningProgressRecord[]): LearningProgression {
+    if (games.length < 3) {
+      throw new Error(`At least 3 games are needed (got ${games.length})`)
+    }
+    const sorted = [...games].sort((a, b) => a.gameNumber - b.gameNumber)
+    const gameNumbers = sorted.map(game => game.gameNumber)
+    const trend = (metric: LearningMetric): LearningTrend => {
+      const { slope, pValue } = this.stats.simpleLinearRegression(gameNumbers, sorted.map(game => game[metric]))
+      let direction: LearningTrend['direction'] = 'flat'
+      if (pValue < this.stats.alpha) {
+        direction = slope * LEARNING_METRICS[metric] > 0 ? 'improving' : 'declining'
+      }
+      return { slope, pValue, direction }
+    }
+    const improvementTrends: Record<LearningMetric, LearningTrend> = {
+      score: trend('score'),
+      completionTime: trend('completionTime'),
+      mistakeCount: trend('mistakeCount'),
+      strategyComplexity: trend('strategyComplexity')
+    }
+
+    const window = Math.min(LEARNING_WINDOW, sorted.length)
+    const rolling = sorted.slice(window - 1).map((_, i) => average(sorted.slice(i, i + window).map(game => game.score)))
+    const skillCeiling = Math.max(...rolling)
+    const plateauIndex = rolling.findIndex(value => value >= skillCeiling - Math.abs(skillCeiling) * 0.05)
+
+    return {
+      learningRate: improvementTrends.score.slope,
+      skillCeiling,
+      plateauPoint: sorted[plateauIndex + window - 1]!.gameNumber,
+      improvementTrends
+    }
+  }
+
+  calculateEngagementMetrics(players: EngagementRecord[]): EngagementMetrics {
+    if (players.length === 0) {
+      throw new Error('At least 1 player is needed')
+    }
+    const scores = players.map(engagementScore)
+    const atRisk = players.filter((_, i) => scores[i]! < CHURN_RISK_SCORE).map(player => player.playerId)
+    return {
+      averageRetention: average(players.map(player => player.retentionDays)),
+      sessionFrequency: average(players.map(player => player.sessionsPerWeek)),
+      engagementScore: average(scores),
+      churnRisk: { rate: atRisk.length / players.length, players: atRisk }
+    }
+  }
+
+  // === Performance ===
+
+  /**
+   * Measurements checked against PERFORMANCE_BUDGETS
+   */
+  analyzePerformanceBottlenecks(samples: PerformanceSample[]): PerformanceBottleneckAnalysis {
+    if (samples.length === 0) {
+      throw new Error('At least 1 performance sample is needed')
+    }
+    const summaries = (Object.keys(PERFORMANCE_BUDGETS) as PerformanceMetric[]).map((metric): PerformanceMetricSummary => {
+      const budget = PERFORMANCE_BUDGETS[metric]
+      const values = samples.map(sample => sample[metric])
+      return {
+        metric,
+        budget,
+        mean: average(values),
+        worstCase: this.stats.calculatePercentile(values, metric === 'frameRate' ? 5 : 95),
+        overBudgetRate: values.filter(value => missesBudget(metric, value)).length / values.length
+      }
+    })
+    const bottleneckAreas = summaries.filter(summary => missesBudget(summary.metric, summary.worstCase))
+
+    return {
+      bottleneckAreas,
+      performanceScore: (1 - average(summaries.map(summary => summary.overBudgetRate))) * 100,
+      optimizationPriorities: [...bottleneckAreas]
+        .sort((a, b) => b.overBudgetRate - a.overBudgetRate)
+        .map(summary => summary.metric),
+      benchmarkComparison: Object.fromEntries(summaries.map(summary => [summary.metric, summary])) as Record<PerformanceMetric, PerformanceMetricSummary>
+    }
+  }
+
+  /**
+   * Heap use over time; a significant upward trend is reported as a suspected leak
+   */
+  analyzeMemoryPatterns(samples: MemorySample[]): MemoryPatternAnalysis {
+    if (samples.length < 3) {
+      throw new Error(`At least 3 memory samples are needed (got ${samples.length})`)
+    }
+    const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp)
+    const used = sorted.map(sample => sample.heapUsed)
+    const minutes = sorted.map(sample => (sample.timestamp - sorted[0]!.timestamp) / 60000)
+    const span = minutes[minutes.length - 1]!
+    const regression = span > 0 ? this.stats.simpleLinearRegression(minutes, used) : undefined
+
+    const averageUsage = average(used)
+    const peakUsage = used.reduce((peak, value) => Math.max(peak, value))
+    const growthRate = regression?.slope ?? 0
+    const suspected = regression !== undefined && regression.pValue < this.stats.alpha &&
+      growthRate * span > averageUsage * LEAK_GROWTH_SHARE
+    const gcFrequency = span > 0 ? sorted.reduce((sum, sample) => sum + sample.gcEvents, 0) / span : 0
+    const fullest = sorted.reduce((highest, sample) => Math.max(highest, sample.heapTotal > 0 ? sample.heapUsed / sample.heapTotal : 0), 0)
+
+    const optimizationSuggestions: string[] = []
+    if (suspected) {
+      optimizationSuggestions.push(`Heap use grows by ${growthRate.toFixed(2)} MB per minute; look for objects kept alive between games`)
+    }
+    if (fullest > 0.9) {
+      optimizationSuggestions.push(`Heap use reached ${percent(fullest)} of the allocated heap`)
+    }
+    if (gcFrequency > GC_PER_MINUTE_LIMIT) {
+      optimizationSuggestions.push(`Garbage collection runs ${gcFrequency.toFixed(0)} times per minute; reuse objects in hot paths`)
+    }
+    if (average(sorted.map(sample => sample.external)) > averageUsage / 2) {
+      optimizationSuggestions.push('External memory is more than half of the heap in use; check buffers that are not released')
+    }
+
+    return {
+      averageUsage,
+      peakUsage,
+      memoryLeaks: { suspected, growthRate, pValue: regression?.pValue ?? 1 },
+      gcFrequency,
+      optimizationSuggestions
+    }
+  }
+
+  /**
+   * Compare samples against a baseline run metric by metric
+   * Every metric is taken as a cost (time, memory): higher than the baseline is a regression.
+   */
+  benchmarkPerformance(current: Array<Record<string, number>>, baseline: Array<Record<string, number>>): PerformanceComparison {
+    if (current.length < 2 || baseline.length < 2) {
+      throw new Error('At least 2 current and 2 baseline samples are needed')
+    }
+    const names = Object.keys(baseline[0]!).filter(name =>
+      [...current, ...baseline].every(sample => Number.isFinite(sample[name])))
+    if (names.length === 0) {
+      throw new Error('Current and baseline samples share no numeric metric')
+    }
+
+    const metrics: Record<string, MetricComparison> = {}
+    names.forEach(name => {
+      const before = baseline.map(sample => sample[name]!)
+      const after = current.map(sample => sample[name]!)
+      metrics[name] = {
+        baseline: average(before),
+        current: average(after),
+        ratio: average(after) / average(before),
+        test: this.stats.twoSampleTTest(after, before)
+      }
+    })
+    const regressionAreas = names.filter(name => metrics[name]!.test.significant && metrics[name]!.test.meanDifference > 0)
+    const improvementAreas = names.filter(name => metrics[name]!.test.significant && metrics[name]!.test.meanDifference < 0)
+
+    return {
+      metrics,
+      // Geometric mean, so one metric twice as slow and another twice as fast cancel out
+      performanceRatio: Math.exp(average(names.map(name => -Math.log(metrics[name]!.ratio)))),
+      regressionAreas,
+      improvementAreas,
+      overallScore: (1 - regressionAreas.length / names.length) * 100
+    }
+  }
+
+  // === Pattern discovery ===
+
+  /**
+   * Search games for time-of-day effects, significant correlations and outliers
+   */
+  discoverPatterns(games: PatternGameInput[]): PatternDiscovery {
+    requireGames(games, 3)
+    const data: Record<string, number[]> = {}
+    Object.entries(PATTERN_VARIABLES).forEach(([name, extract]) => {
+      const values = games.map(extract)
+      if (values.every((value): value is number => value !== undefined && Number.isFinite(value))) {
+        data[name] = values
+      }
+    })
+    const correlations = this.stats.correlationMatrix(data)
+
+    const anomalies: PatternAnomaly[] = []
+    PATTERN_ANOMALY_VARIABLES.forEach(metric => {
+      const values = data[metric]
+      if (!values) return
+      const mean = average(values)
+      const sd = this.stats.calculateStandardDeviation(values)
+      if (sd === 0) return
+      values.forEach((value, i) => {
+        const zScore = (value - mean) / sd
+        if (Math.abs(zScore) > ANOMALY_Z_SCORE) {
+          anomalies.push({ gameId: games[i]!.gameId, metric, value, zScore })
+        }
+      })
+    })
+    anomalies.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+
+    const significantFindings = correlations.significantPairs.map(pair =>
+      `${pair.variable1} and ${pair.variable2} are ${pair.correlation > 0 ? 'positively' : 'negatively'} correlated ` +
+      `(r = ${pair.correlation.toFixed(2)}, p = ${pair.pValue.toPrecision(2)})`)
+    const difficulties = Object.values(groupBy(games.filter(game => game.difficulty !== undefined), game => game.difficulty!))
+    const table = difficulties.map(group => [group.filter(isVictory).length, group.filter(game => !isVictory(game)).length])
+    if (table.length >= 2 && table.some(row => row[0]! > 0) && table.some(row => row[1]! > 0)) {
+      const test = this.stats.chiSquareIndependence(table)
+      if (test.significant) {
+        significantFindings.push(`Win rate differs by difficulty (χ² = ${test.chiSquare.toFixed(2)}, p = ${test.pValue.toPrecision(2)})`)
+      }
+    }
+    if (anomalies.length > 0) {
+      significantFindings.push(`${anomalies.length} outlier value(s) more than ${ANOMALY_Z_SCORE} standard deviations from the mean`)
+    }
+
+    return {
+      temporalPatterns: {
+        byHour: temporalBuckets(games, game => game.timeOfDay),
+        byDayOfWeek: temporalBuckets(games, game => game.dayOfWeek)
+      },
+      correlations,
+      anomalies,
+      significantFindings
+    }
+  }
+
+  /**
+   * k-means clustering on z-scored features, so no feature dominates through its units
+   * Deterministic: starts from the point nearest the mean, then the point farthest from the
+   * centres chosen so far. A cluster left empty takes over the worst-placed point.
+   * @throws {Error} when k is not between 1 and the number of points
+   */
+  performClustering(points: number[][], k: number): Cluster[] {
+    if (!Number.isInteger(k) || k < 1 || k > points.length) {
+      throw new Error(`Invalid cluster count: ${k} (for ${points.length} points)`)
+    }
+    const { features } = this.normalizeFeatures(points, 'z-score')
+    const origin = features[0]!.map(() => 0)
+    const centres = [features[nearestIndex(features, origin)]!]
+    while (centres.length < k) {
+      centres.push(features[farthestIndex(features, centres)]!)
+    }
+
+    let assignments = assignPoints(features, centres)
+    for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+      centres.forEach((_, c) => { centres[c] = meanPoint(features.filter((_, i) => assignments[i] === c)) })
+      const next = assignPoints(features, centres)
+      if (next.every((cluster, i) => cluster === assignments[i])) break
+      assignments = next
+    }
+
+    return centres.map((_, c) => {
+      const indices = assignments.flatMap((cluster, i) => (cluster === c ? [i] : []))
+      const centre = meanPoint(indices.map(i => features[i]!))
+      return {
+        centroid: meanPoint(indices.map(i => points[i]!)),
+        points: indices.map(i => points[i]!),
+        indices,
+        cohesion: average(indices.map(i => distance(features[i]!, centre)))
+      }
+    })
+  }
+
+  /**
+   * Weekly, monthly and yearly seasonality of a daily metric, as ratios to its overall mean
+   */
+  identifySeasonalTrends(series: SeasonalDataPoint[], metric: string = 'playerCount'): SeasonalTrends {
+    if (series.length < 3) {
+      throw new Error(`At least 3 data points are needed (got ${series.length})`)
+    }
+    const points = [...series].sort((a, b) => a.date.getTime() - b.date.getTime())
+    const values = points.map(point => {
+      const value = point[metric]
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${metric} is not a number on ${point.date.toISOString()}`)
+      }
+      return value
+    })
+    const overall = average(values)
+    const pattern = (size: number, bucketOf: (date: Date) => number): number[] => {
+      const sums = new Array<number>(size).fill(0)
+      const counts = new Array<number>(size).fill(0)
+      points.forEach((point, i) => {
+        const bucket = bucketOf(point.date)
+        sums[bucket] = sums[bucket]! + values[i]!
+        counts[bucket] = counts[bucket]! + 1
+      })
+      return sums.map((sum, bucket) => (counts[bucket]! > 0 && overall !== 0 ? sum / counts[bucket]! / overall : 0))
+    }
+
+    const weeklyPattern = pattern(7, date => date.getDay())
+    const monthlyPattern = pattern(31, date => date.getDate() - 1)
+    const yearlyPattern = pattern(12, date => date.getMonth())
+    const days = points.map(point => (point.date.getTime() - points[0]!.date.getTime()) / DAY_MS)
+
+    return {
+      metric,
+      weeklyPattern,
+      monthlyPattern,
+      yearlyPattern,
+      peakPeriods: [
+        DAY_NAMES[argMax(weeklyPattern)]!,
+        `day ${argMax(monthlyPattern) + 1} of the month`,
+        MONTH_NAMES[argMax(yearlyPattern)]!
+      ],
+      trendStrength: new Set(days).size > 1 ? this.stats.simpleLinearRegression(days, values).rSquared : 0
+    }
+  }
+
+  /**
+   * Extend the linear trend of a series by `periods` periods, with prediction intervals
+   */
+  predictTrends(history: TrendObservation[], periods: number): TrendPrediction[] {
+    if (!Number.isInteger(periods) || periods < 1) {
+      throw new Error(`Invalid periods: ${periods}`)
+    }
+    if (history.length < 3) {
+      throw new Error(`At least 3 observations are needed (got ${history.length})`)
+    }
+    const sorted = [...history].sort((a, b) => a.period - b.period)
+    const last = sorted[sorted.length - 1]!.period
+    const future = Array.from({ length: periods }, (_, i) => last + i + 1)
+
+    return this.stats.predictLinear(sorted.map(point => point.period), sorted.map(point => point.value), future)
+      .map(prediction => ({
+        period: prediction.x,
+        predictedValue: prediction.predicted,
+        lowerBound: prediction.lower,
+        upperBound: prediction.upper,
+        confidence: prediction.confidenceLevel
+      }))
+  }
+
+  // === Experiments ===
+
+  /**
+   * Did variant B convert better than A?
+   */
+  analyzeABTest(groupA: ABTestObservation[], groupB: ABTestObservation[]): ABTestAnalysis {
+    if (groupA.length === 0 || groupB.length === 0) {
+      throw new Error('Both groups need at least 1 observation')
+    }
+    const conversionsA = groupA.filter(observation => observation.converted).length
+    const conversionsB = groupB.filter(observation => observation.converted).length
+    const test = this.stats.twoProportionTest(conversionsB, groupB.length, conversionsA, groupA.length)
+    const valuesA = groupA.flatMap(observation => observation.value ?? [])
+    const valuesB = groupB.flatMap(observation => observation.value ?? [])
+    const hasValues = valuesA.length === groupA.length && valuesB.length === groupB.length && valuesA.length >= 2 && valuesB.length >= 2
+
+    let recommendedAction: ABTestAnalysis['recommendedAction'] = 'continue_testing'
+    if (test.significant) {
+      recommendedAction = test.difference > 0 ? 'adopt_b' : 'keep_a'
+    }
+    return {
+      conversionRateA: conversionsA / groupA.length,
+      conversionRateB: conversionsB / groupB.length,
+      conversionRateDifference: test.difference,
+      confidenceInterval: test.confidenceInterval,
+      pValue: test.pValue,
+      statisticalSignificance: test.significant,
+      ...(hasValues ? { valueTest: this.stats.twoSampleTTest(valuesB, valuesA) } : {}),
+      recommendedAction
+    }
+  }
+
+  calculateStatisticalPower(input: PowerAnalysisInput): PowerAnalysis {
+    const alpha = input.alpha ?? this.stats.alpha
+    const targetPower = input.targetPower ?? DEFAULT_TARGET_POWER
+    const power = this.stats.twoSamplePower(input.effectSize, input.sampleSizeA, input.sampleSizeB, alpha)
+    const minimumSampleSize = this.stats.sampleSizeForPower(input.effectSize, targetPower, alpha)
+
+    return {
+      power,
+      minimumSampleSize,
+      detectedEffectSize: this.stats.minimumDetectableEffect(input.sampleSizeA, input.sampleSizeB, targetPower, alpha),
+      recommendation: power >= targetPower
+        ? `Power ${percent(power)} reaches the target ${percent(targetPower)}; the groups are large enough`
+        : `Power ${percent(power)} is below the target ${percent(targetPower)}; use at least ${minimumSampleSize} per group`
+    }
+  }
+
+  /**
+   * Sample size and duration for a conversion-rate experiment (effect measured as Cohen's h)
+   */
+  designExperiment(input: ExperimentDesignInput): ExperimentDesign {
+    const { baselineConversionRate: baseline, expectedEffectSize, desiredPower, significanceLevel } = input
+    if (!(baseline > 0 && baseline < 1)) {
+      throw new Error(`Baseline conversion rate must be between 0 and 1: ${baseline}`)
+    }
+    const expected = Math.max(0, Math.min(1, baseline * (1 + expectedEffectSize)))
+    const recommendedSampleSize = this.stats.sampleSizeForPower(cohensH(expected, baseline), desiredPower, significanceLevel)
+    const totalSampleSize = recommendedSampleSize * 2
+    const experimentDuration = Math.ceil(totalSampleSize / (input.dailySampleSize ?? DEFAULT_DAILY_SAMPLE_SIZE))
+    const detectable = this.stats.minimumDetectableEffect(recommendedSampleSize, recommendedSampleSize, desiredPower, significanceLevel)
+
+    const stratificationRecommendations = [
+      'Assign players, not single games, so nobody plays both variants',
+      'Stratify by difficulty and strategy so both groups get the same mix'
+    ]
+    if (experimentDuration < 7) {
+      stratificationRecommendations.push('Run for at least a full week so both groups cover weekday and weekend play')
+    }
+    if (baseline < 0.05) {
+      stratificationRecommendations.push('Stratify by player activity too: with so few conversions one group can get most of them by chance')
+    }
+
+    return {
+      recommendedSampleSize,
+      totalSampleSize,
+      experimentDuration,
+      minimumDetectableEffect: rateFromCohensH(baseline, detectable) - baseline,
+      stratificationRecommendations
+    }
+  }
+
+  // === Machine learning preparation ===
+
+  /**
+   * ML_FEATURES for every game, with victory as the target
+   */
+  prepareMLFeatures(games: GameResultSummary[]): MLFeatureSet {
+    const extractors = Object.values(ML_FEATURES)
+    return {
+      featureMatrix: games.map(game => extractors.map(extract => extract(game))),
+      featureNames: Object.keys(ML_FEATURES),
+      targetVariable: games.map(game => (isVictory(game) ? 1 : 0))
+    }
+  }
+
+  /**
+   * Scale each column to 0-1 (min-max) or to mean 0 and standard deviation 1 (z-score)
+   * Constant columns are only shifted.
+   */
+  normalizeFeatures(features: number[][], method: FeatureScaling = 'min-max'): NormalizedFeatures {
+    if (features.length === 0) {
+      throw new Error('At least 1 feature row is needed')
+    }
+    const width = features[0]!.length
+    if (features.some(row => row.length !== width)) {
+      throw new Error('All feature rows must have the same length')
+    }
+
+    const scalingParameters = Array.from({ length: width }, (_, column) => {
+      const values = features.map(row => row[column]!)
+      if (method === 'z-score') {
+        const sd = this.stats.calculateStandardDeviation(values)
+        return { offset: average(values), scale: sd > 0 ? sd : 1 }
+      }
+      const min = values.reduce((lowest, value) => Math.min(lowest, value))
+      const max = values.reduce((highest, value) => Math.max(highest, value))
+      return { offset: min, scale: max > min ? max - min : 1 }
+    })
+
+    return {
+      features: features.map(row => row.map((value, column) => (value - scalingParameters[column]!.offset) / scalingParameters[column]!.scale)),
+      method,
+      scalingParameters
+    }
+  }
+
+  /**
+   * Shuffle and cut into training, validation and test sets
+   * Pass a SeededRandom for a reproducible split.
+   */
+  splitDataset<T>(data: T[], trainRatio: number, validationRatio: number, testRatio: number, random: RandomSource = defaultRandom): DatasetSplit<T> {
+    const ratios = [trainRatio, validationRatio, testRatio]
+    if (ratios.some(ratio => !(ratio >= 0)) || Math.abs(ratios.reduce((sum, ratio) => sum + ratio, 0) - 1) > 1e-9) {
+      throw new Error(`Split ratios must be non-negative and add up to 1: ${ratios.join(', ')}`)
+    }
+    const shuffled = shuffleArray(random, data)
+    const trainingSize = Math.round(data.length * trainRatio)
+    const validationEnd = trainingSize + Math.round(data.length * validationRatio)
+    return {
+      training: shuffled.slice(0, trainingSize),
+      validation: shuffled.slice(trainingSize, validationEnd),
+      testing: shuffled.slice(validationEnd)
+    }
+  }
+
+  // === Real-time analytics ===
+
+  createStreamProcessor(config: StreamProcessorConfig): StreamProcessor {
+    return new StreamProcessor(config, this.stats)
+  }
+
+  createAnomalyDetector(config: AnomalyDetectorConfig): AnomalyDetector {
+    return new AnomalyDetector(config, this.stats)
+  }
+
+  /**
+   * Target band for a set of games: the strategy's own band when all games share one
+   */
+  private targetFor(games: AnalyzedGame[]): WinRateRange {
+    const strategies = new Set(games.map(game => game.strategy))
+    const [strategy] = strategies
+    return (strategies.size === 1 && strategy !== undefined && WIN_RATE_TARGETS[strategy]) || this.config.targetWinRate
+  }
+}
+
+/**
+ * Preset analyzers used by the CLI
+ */
+export class GameAnalyticsFactory {
+  static createBalanceAnalyzer(): GameAnalytics {
+    return new GameAnalytics({ confidenceLevel: 0.95 })
+  }
+
+  static createResearchAnalyzer(): GameAnalytics {
+    return new GameAnalytics({ confidenceLevel: 0.99, minimumGamesPerGroup: 30 })
+  }
+}
+
+function normalizeGame(record: GameRecordInput): AnalyzedGame {
+  return {
+    outcome: record.outcome,
+    victory: record.outcome === 'victory',
+    strategy: record.strategy ?? 'unknown',
+    finalStage: record.finalStage ?? 'youth',
+    turns: record.turns ?? record.stats.turnsPlayed,
+    score: record.score ?? record.stats.score ?? 0,
+    finalVitality: record.finalVitality ?? record.stats.finalVitality ?? 0,
+    insuranceCount: record.insuranceCount ?? 0,
+    insuranceBurden: record.insuranceBurden ?? record.stats.finalInsuranceBurden ?? 0,
+    stats: record.stats
+  }
+}
+
+function toGames(data: unknown): AnalyzedGame[] {
+  const games = Array.isArray(data) && data.every(isAnalyzedGame)
+    ? data
+    : GameAnalytics.loadResults(data)
+  requireGames(games)
+  return games
+}
+
+function isAnalyzedGame(value: unknown): value is AnalyzedGame {
+  return typeof (value as AnalyzedGame)?.victory === 'boolean'
+}
+
+function requireGames(games: readonly unknown[], minimum = 1): void {
+  if (games.length < minimum) {
+    throw new Error(`At least ${minimum} finished game(s) are needed (got ${games.length})`)
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Record<string, T[]> {
+  const groups: Record<string, T[]> = {}
+  items.forEach(item => {
+    (groups[key(item)] ??= []).push(item)
+  })
+  return groups
+}
+
+/**
+ * 100 inside the target band, falling off with the distance of the observed
+ * win rate from the band (0 at 50 percentage points away)
+ */
+function balanceScore(evaluation: WinRateEvaluation): number {
+  const distance = evaluation.winRate < evaluation.target.min
+    ? evaluation.target.min - evaluation.winRate
+    : Math.max(0, evaluation.winRate - evaluation.target.max)
+  return Math.max(0, 100 - distance * 200)
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function isVictory(game: { outcome: string }): boolean {
+  return game.outcome === 'victory'
+}
+
+function summaryScore(game: GameResultSummary): number {
+  return game.score ?? game.stats.score ?? 0
+}
+
+/**
+ * Gini coefficient of the values (negative values count as 0)
+ */
+function giniCoefficient(values: number[]): number {
+  const sorted = values.map(value => Math.max(0, value)).sort((a, b) => a - b)
+  const total = sorted.reduce((sum, value) => sum + value, 0)
+  if (total === 0) return 0
+  const weighted = sorted.reduce((sum, value, i) => sum + (2 * (i + 1) - sorted.length - 1) * value, 0)
+  return weighted / (sorted.length * total)
+}
+
+/**
+ * 0-100: each habit as a share of its ENGAGEMENT_TARGETS value (capped at 1) and the completion rate, averaged
+ */
+function engagementScore(player: EngagementRecord): number {
+  const parts = [
+    player.sessionsPerWeek / ENGAGEMENT_TARGETS.sessionsPerWeek,
+    player.averageSessionLength / ENGAGEMENT_TARGETS.averageSessionLength,
+    player.retentionDays / ENGAGEMENT_TARGETS.retentionDays,
+    player.socialInteractions / ENGAGEMENT_TARGETS.socialInteractions,
+    player.completionRate
+  ]
+  return average(parts.map(part => Math.max(0, Math.min(1, part)))) * 100
+}
+
+function missesBudget(metric: PerformanceMetric, value: number): boolean {
+  return metric === 'frameRate' ? value < PERFORMANCE_BUDGETS[metric] : value > PERFORMANCE_BUDGETS[metric]
+}
+
+function temporalBuckets(games: PatternGameInput[], periodOf: (game: PatternGameInput) => number | undefined): TemporalBucket[] {
+  const groups = groupBy(games.filter(game => periodOf(game) !== undefined), game => String(periodOf(game)))
+  return Object.entries(groups)
+    .map(([period, group]) => ({ period: Number(period), games: group.length, winRate: group.filter(isVictory).length / group.length }))
+    .sort((a, b) => a.period - b.period)
+}
+
+// === k-means ===
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]!) ** 2, 0))
+}
+
+function meanPoint(points: number[][]): number[] {
+  return points[0]!.map((_, dimension) => average(points.map(point => point[dimension]!)))
+}
+
+function nearestIndex(points: number[][], target: number[]): number {
+  let nearest = 0
+  points.forEach((point, i) => {
+    if (distance(point, target) < distance(points[nearest]!, target)) nearest = i
+  })
+  return nearest
+}
+
+function farthestIndex(points: number[][], centres: number[][]): number {
+  const gap = (point: number[]) => Math.min(...centres.map(centre => distance(point, centre)))
+  let farthest = 0
+  points.forEach((point, i) => {
+    if (gap(point) > gap(points[farthest]!)) farthest = i
+  })
+  return farthest
+}
+
+/**
+ * Nearest centre of every point; a centre left without points moves onto the point
+ * farthest from its own centre among clusters that can spare one
+ */
+function assignPoints(points: number[][], centres: number[][]): number[] {
+  const assignments = points.map(point => nearestIndex(centres, point))
+  const sizes = centres.map((_, c) => assignments.filter(cluster => cluster === c).length)
+  centres.forEach((_, c) => {
+    if (sizes[c]! > 0) return
+    let worst = -1
+    let worstDistance = -1
+    points.forEach((point, i) => {
+      const cluster = assignments[i]!
+      const gap = distance(point, centres[cluster]!)
+      if (sizes[cluster]! > 1 && gap > worstDistance) {
+        worst = i
+        worstDistance = gap
+      }
+    })
+    sizes[assignments[worst]!]!--
+    sizes[c] = 1
+    assignments[worst] = c
+    centres[c] = [...points[worst]!]
+  })
+  return assignments
+}
+
+// === Small helpers ===
+
+function argMax(values: number[]): number {
+  return values.reduce((best, value, i) => (value > values[best]! ? i : best), 0)
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1))
+  let best: string | undefined
+  let bestCount = 0
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  })
+  return best
+}
+
+/**
+ * Cohen's h between two proportions
+ */
+function cohensH(p1: number, p2: number): number {
+  return 2 * Math.asin(Math.sqrt(p1)) - 2 * Math.asin(Math.sqrt(p2))
+}
+
+/**
+ * Proportion that lies Cohen's h above the baseline
+ */
+function rateFromCohensH(baseline: number, h: number): number {
+  const angle = Math.min(Math.PI / 2, Math.asin(Math.sqrt(baseline)) + h / 2)
+  return Math.sin(angle) ** 2
+}
+
+function listSome(ids: string[], limit = 5): string {
+  return ids.length > limit ? `${ids.slice(0, limit).join(', ')}, ...` : ids.join(', ')
+}
@@ -0,0 +1,910 @@
+/**
+ * Statistical tests for simulation results
+ *
+ * Descriptive statistics, significance tests (chi-square, t-tests, ANOVA,
+ * proportion tests), effect sizes, confidence intervals, correlation and
+ * regression, implemented without external dependencies.
+ * Used to judge whether a balance change actually moved win rates or game
+ * length, instead of comparing raw averages by eye.
+ */
+
+export interface StatisticalTestsOptions {
+  confidenceLevel?: number // default 0.95 (significance level = 1 - confidenceLevel)
+}
+
+export interface DescriptiveStatistics {
+  count: number
+  mean: number
+  median: number
+  standardDeviation: number
+  variance: number
+  min: number
+  max: number
+  q1: number
+  q3: number
+  skewness: number
+}
+
+export interface ChiSquareResult {
+  chiSquare: number
+  degreesOfFreedom: number
+  pValue: number
+  significant: boolean
+  cramersV?: number // effect size (test of independence only)
+}
+
+export interface TTestResult {
+  tStatistic: number
+  degreesOfFreedom: number
+  pValue: number
+  significant: boolean
+  meanDifference: number
+  confidenceInterval: { lower: number; upper: number } // for the mean difference
+}
+
+export interface ProportionTestResult {
+  zStatistic: number
+  pValue: number
+  significant: boolean
+  difference: number // proportion1 - proportion2
+  confidenceInterval: { lower: number; upper: number } // for the difference
+}
+
+export interface ANOVAResult {
+  fStatistic: number
+  betweenGroupsDF: number
+  withinGroupsDF: number
+  sumOfSquaresBetween: number
+  sumOfSquaresWithin: number
+  pValue: number
+  significant: boolean
+}
+
+export interface MeanConfidenceInterval {
+  mean: number
+  lower: number
+  upper: number
+  marginOfError: number
+  confidenceLevel: number
+}
+
+export interface ProportionConfidenceInterval {
+  proportion: number
+  lower: number
+  upper: number
+  confidenceLevel: number
+}
+
+export interface CorrelationResult {
+  correlation: number
+  pValue: number
+  significant: boolean
+  sampleSize: number
+}
+
+export interface CorrelationMatrix {
+  variables: string[]
+  matrix: number[][]
+  significantPairs: Array<{
+    variable1: string
+    variable2: string
+    correlation: number
+    pValue: number
+  }>
+}
+
+export interface RegressionResult {
+  slope: number
+  intercept: number
+  rSquared: number
+  correlation: number
+  standardError: number // of the slope
+  pValue: number // slope != 0
+}
+
+export interface LinearPrediction {
+  x: number
+  predicted: number
+  lower: number // prediction interval for a single new observation
+  upper: number
+  confidenceLevel: number
+}
+
+export interface ShapiroWilkResult {
+  wStatistic: number
+  pValue: number
+  significant: boolean // true = normality rejected
+}
+
+export interface NormalityTestResult extends ShapiroWilkResult {
+  isNormal: boolean
+  interpretation: string
+}
+
+// Smallest reported p-value; below this the value is not meaningful in double precision
+const MIN_P_VALUE = Number.EPSILON
+
+/**
+ * Statistical test toolkit
+ *
+ * @example
+ * const stats = new StatisticalTests({ confidenceLevel: 0.95 })
+ * const ci = stats.confidenceIntervalProportion(wins, games)
+ * const test = stats.twoProportionTest(winsA, gamesA, winsB, gamesB)
+ */
+export class StatisticalTests {
+  private readonly confidenceLevel: number
+
+  constructor(options: StatisticalTestsOptions = {}) {
+    this.confidenceLevel = options.confidenceLevel ?? 0.95
+    validateConfidenceLevel(this.confidenceLevel)
+  }
+
+  /**
+   * Significance level used to decide `significant`
+   */
+  get alpha(): number {
+    return 1 - this.confidenceLevel
+  }
+
+  // === Descriptive statistics ===
+
+  calculateMean(data: number[]): number {
+    validateSample(data)
+    return mean(data)
+  }
+
+  calculateMedian(data: number[]): number {
+    validateSample(data)
+    return quantileSorted(sortAscending(data), 0.5)
+  }
+
+  /**
+   * Population variance (divides by n)
+   */
+  calculateVariance(data: number[]): number {
+    validateSample(data)
+    const m = mean(data)
+    return data.reduce((sum, value) => sum + (value - m) ** 2, 0) / data.length
+  }
+
+  /**
+   * Population standard deviation (divides by n)
+   */
+  calculateStandardDeviation(data: number[]): number {
+    return Math.sqrt(this.calculateVariance(data))
+  }
+
+  /**
+   * Percentile (0-100) with midpoint interpolation between order statistics
+   */
+  calculatePercentile(data: number[], percentile: number): number {
+    validateSample(data)
+    if (!(percentile >= 0 && percentile <= 100)) {
+      throw new Error(`Percentile must be between 0 and 100: ${percentile}`)
+    }
+    return quantileSorted(sortAscending(data), percentile / 100)
+  }
+
+  calculateDescriptiveStats(data: number[]): DescriptiveStatistics {
+    validateSample(data)
+    const sorted = sortAscending(data)
+    const m = mean(data)
+    const variance = this.calculateVariance(data)
+    const sd = Math.sqrt(variance)
+    return {
+      count: data.length,
+      mean: m,
+      median: quantileSorted(sorted, 0.5),
+      standardDeviation: sd,
+      variance,
+      min: sorted[0]!,
+      max: sorted[sorted.length - 1]!,
+      q1: quantileSorted(sorted, 0.25),
+      q3: quantileSorted(sorted, 0.75),
+      skewness: sd === 0 ? 0 : data.reduce((sum, value) => sum + ((value - m) / sd) ** 3, 0) / data.length
+    }
+  }
+
+  // === Chi-square tests ===
+
+  /**
+   * Do observed counts follow the expected counts?
+   */
+  chiSquareGoodnessOfFit(observed: number[], expected: number[]): ChiSquareResult {
+    validateSample(observed)
+    validateSample(expected)
+    if (observed.length !== expected.length || observed.length < 2) {
+      throw new Error('Observed and expected must have the same length (at least 2 categories)')
+    }
+    if (expected.some(value => value <= 0)) {
+      throw new Error('Expected counts must be positive')
+    }
+
+    const chiSquare = observed.reduce((sum, o, i) => sum + (o - expected[i]!) ** 2 / expected[i]!, 0)
+    const degreesOfFreedom = observed.length - 1
+    const pValue = clampPValue(chiSquareSurvival(chiSquare, degreesOfFreedom))
+    return { chiSquare, degreesOfFreedom, pValue, significant: pValue < this.alpha }
+  }
+
+  /**
+   * Are the rows and columns of a contingency table independent?
+   * e.g. rows = strategies, columns = [victories, defeats]
+   */
+  chiSquareIndependence(table: number[][]): ChiSquareResult {
+    const rows = table.length
+    const columns = table[0]?.length ?? 0
+    if (rows < 2 || columns < 2 || table.some(row => row.length !== columns)) {
+      throw new Error('Contingency table must be at least 2x2 and rectangular')
+    }
+    table.forEach(row => validateSample(row))
+
+    const rowTotals = table.map(row => row.reduce((a, b) => a + b, 0))
+    const columnTotals = Array.from({ length: columns }, (_, j) => table.reduce((sum, row) => sum + row[j]!, 0))
+    const total = rowTotals.reduce((a, b) => a + b, 0)
+    if (rowTotals.some(value => value === 0) || columnTotals.some(value => value === 0)) {
+      throw new Error('Contingency table has an empty row or column')
+    }
+
+    let chiSquare = 0
+    table.forEach((row, i) => row.forEach((observed, j) => {
+      const expected = rowTotals[i]! * columnTotals[j]! / total
+      chiSquare += (observed - expected) ** 2 / expected
+    }))
+
+    const degreesOfFreedom = (rows - 1) * (columns - 1)
+    const pValue = clampPValue(chiSquareSurvival(chiSquare, degreesOfFreedom))
+    return {
+      chiSquare,
+      degreesOfFreedom,
+      pValue,
+      significant: pValue < this.alpha,
+      cramersV: Math.sqrt(chiSquare / (total * (Math.min(rows, columns) - 1)))
+    }
+  }
+
+  // === t-tests ===
+
+  oneSampleTTest(sample: number[], populationMean: number): TTestResult {
+    validateSample(sample, 2)
+    const n = sample.length
+    const difference = mean(sample) - populationMean
+    const standardError = Math.sqrt(sampleVariance(sample) / n)
+    return this.tTestResult(difference, standardError, n - 1)
+  }
+
+  /**
+   * Welch's t-test (does not assume equal variances)
+   * Positive t means sample1 has the larger mean.
+   */
+  twoSampleTTest(sample1: number[], sample2: number[]): TTestResult {
+    validateSample(sample1, 2)
+    validateSample(sample2, 2)
+    const v1 = sampleVariance(sample1) / sample1.length
+    const v2 = sampleVariance(sample2) / sample2.length
+    const standardError = Math.sqrt(v1 + v2)
+    const degreesOfFreedom = standardError === 0
+      ? sample1.length + sample2.length - 2
+      : (v1 + v2) ** 2 / (v1 ** 2 / (sample1.length - 1) + v2 ** 2 / (sample2.length - 1))
+    return this.tTestResult(mean(sample1) - mean(sample2), standardError, degreesOfFreedom)
+  }
+
+  /**
+   * Paired t-test on after - before
+   * Positive t means the values increased.
+   */
+  pairedTTest(before: number[], after: number[]): TTestResult {
+    if (before.length !== after.length) {
+      throw new Error('Paired samples must have the same length')
+    }
+    const differences = after.map((value, i) => value - before[i]!)
+    return this.oneSampleTTest(differences, 0)
+  }
+
+  // === Proportions ===
+
+  /**
+   * Two-proportion z-test, e.g. win rates under two balance configs
+   */
+  twoProportionTest(successes1: number, trials1: number, successes2: number, trials2: number): ProportionTestResult {
+    validateProportion(successes1, trials1)
+    validateProportion(successes2, trials2)
+    const p1 = successes1 / trials1
+    const p2 = successes2 / trials2
+    const pooled = (successes1 + successes2) / (trials1 + trials2)
+    const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / trials1 + 1 / trials2))
+    const zStatistic = pooledError === 0 ? 0 : (p1 - p2) / pooledError
+    const pValue = clampPValue(2 * normalSurvival(Math.abs(zStatistic)))
+
+    const z = normalQuantile(1 - this.alpha / 2)
+    const unpooledError = Math.sqrt(p1 * (1 - p1) / trials1 + p2 * (1 - p2) / trials2)
+    return {
+      zStatistic,
+      pValue,
+      significant: pValue < this.alpha,
+      difference: p1 - p2,
+      confidenceInterval: { lower: p1 - p2 - z * unpooledError, upper: p1 - p2 + z * unpooledError }
+    }
+  }
+
+  // === ANOVA and effect sizes ===
+
+  oneWayANOVA(groups: number[][]): ANOVAResult {
+    if (groups.length < 2) {
+      throw new Error('ANOVA needs at least 2 groups')
+    }
+    groups.forEach(group => validateSample(group))
+    const all = groups.flat()
+    const grandMean = mean(all)
+
+    const sumOfSquaresBetween = groups.reduce((sum, group) => sum + group.length * (mean(group) - grandMean) ** 2, 0)
+    const sumOfSquaresWithin = groups.reduce((sum, group) => {
+      const m = mean(group)
+      return sum + group.reduce((s, value) => s + (value - m) ** 2, 0)
+    }, 0)
+    const betweenGroupsDF = groups.length - 1
+    const withinGroupsDF = all.length - groups.length
+    if (withinGroupsDF <= 0) {
+      throw new Error('ANOVA needs more observations than groups')
+    }
+
+    const msBetween = sumOfSquaresBetween / betweenGroupsDF
+    const msWithin = sumOfSquaresWithin / withinGroupsDF
+    const fStatistic = msWithin > 0 ? msBetween / msWithin : (msBetween > 0 ? Infinity : 0)
+    const pValue = clampPValue(fSurvival(fStatistic, betweenGroupsDF, withinGroupsDF))
+    return {
+      fStatistic,
+      betweenGroupsDF,
+      withinGroupsDF,
+      sumOfSquaresBetween,
+      sumOfSquaresWithin,
+      pValue,
+      significant: pValue < this.alpha
+    }
+  }
+
+  /**
+   * Share of the total variance explained by group membership
+   */
+  etaSquared(anova: ANOVAResult): number {
+    const total = anova.sumOfSquaresBetween + anova.sumOfSquaresWithin
+    return total === 0 ? 0 : anova.sumOfSquaresBetween / total
+  }
+
+  /**
+   * Cohen's d for (mean2 - mean1) using the pooled standard deviation
+   */
+  cohensD(group1: number[], group2: number[]): number {
+    validateSample(group1, 2)
+    validateSample(group2, 2)
+    const pooledVariance = ((group1.length - 1) * sampleVariance(group1) + (group2.length - 1) * sampleVariance(group2)) /
+      (group1.length + group2.length - 2)
+    return pooledVariance === 0 ? 0 : (mean(group2) - mean(group1)) / Math.sqrt(pooledVariance)
+  }
+
+  // === Confidence intervals ===
+
+  /**
+   * t-based confidence interval for the mean
+   */
+  confidenceIntervalMean(sample: number[], confidenceLevel: number = this.confidenceLevel): MeanConfidenceInterval {
+    validateConfidenceLevel(confidenceLevel)
+    validateSample(sample, 2)
+    const m = mean(sample)
+    const marginOfError = tQuantile(1 - (1 - confidenceLevel) / 2, sample.length - 1) *
+      Math.sqrt(sampleVariance(sample) / sample.length)
+    return { mean: m, lower: m - marginOfError, upper: m + marginOfError, marginOfError, confidenceLevel }
+  }
+
+  /**
+   * Wilson score interval for a proportion (stays inside [0, 1] for rates near 0% or 100%)
+   */
+  confidenceIntervalProportion(
+    successes: number,
+    trials: number,
+    confidenceLevel: number = this.confidenceLevel
+  ): ProportionConfidenceInterval {
+    validateConfidenceLevel(confidenceLevel)
+    validateProportion(successes, trials)
+    const p = successes / trials
+    const z = normalQuantile(1 - (1 - confidenceLevel) / 2)
+    const denominator = 1 + z ** 2 / trials
+    const center = (p + z ** 2 / (2 * trials)) / denominator
+    const margin = z * Math.sqrt(p * (1 - p) / trials + z ** 2 / (4 * trials ** 2)) / denominator
+    return {
+      proportion: p,
+      lower: Math.max(0, center - margin),
+      upper: Math.min(1, center + margin),
+      confidenceLevel
+    }
+  }
+
+  // === Correlation and regression ===
+
+  /**
+   * Pearson correlation coefficient (0 when either variable is constant)
+   */
+  pearsonCorrelation(x: number[], y: number[]): number {
+    validatePaired(x, y)
+    const mx = mean(x)
+    const my = mean(y)
+    let sxy = 0
+    let sxx = 0
+    let syy = 0
+    x.forEach((xi, i) => {
+      const dx = xi - mx
+      const dy = y[i]! - my
+      sxy += dx * dy
+      sxx += dx * dx
+      syy += dy * dy
+    })
+    return sxx === 0 || syy === 0 ? 0 : Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)))
+  }
+
+  /**
+   * Pearson correlation with a t-test of r != 0
+   */
+  correlationTest(x: number[], y: number[]): CorrelationResult {
+    const correlation = this.pearsonCorrelation(x, y)
+    const n = x.length
+    const pValue = n < 3 ? 1 : clampPValue(correlationPValue(correlation, n))
+    return { correlation, pValue, significant: pValue < this.alpha, sampleSize: n }
+  }
+
+  correlationMatrix(data: Record<string, number[]>): CorrelationMatrix {
+    const variables = Object.keys(data)
+    const matrix = variables.map(() => variables.map(() => 0))
+    const significantPairs: CorrelationMatrix['significantPairs'] = []
+
+    variables.forEach((variable1, i) => {
+      matrix[i]![i] = 1
+      for (let j = i + 1; j < variables.length; j++) {
+        const variable2 = variables[j]!
+        const result = this.correlationTest(data[variable1]!, data[variable2]!)
+        matrix[i]![j] = result.correlation
+        matrix[j]![i] = result.correlation
+        if (result.significant) {
+          significantPairs.push({ variable1, variable2, correlation: result.correlation, pValue: result.pValue })
+        }
+      }
+    })
+
+    return { variables, matrix, significantPairs }
+  }
+
+  simpleLinearRegression(x: number[], y: number[]): RegressionResult {
+    validatePaired(x, y)
+    const n = x.length
+    const mx = mean(x)
+    const my = mean(y)
+    const sxx = x.reduce((sum, xi) => sum + (xi - mx) ** 2, 0)
+    if (sxx === 0) {
+      throw new Error('Regression needs at least two distinct x values')
+    }
+    const sxy = x.reduce((sum, xi, i) => sum + (xi - mx) * (y[i]! - my), 0)
+    const slope = sxy / sxx
+    const intercept = my - slope * mx
+    const correlation = this.pearsonCorrelation(x, y)
+
+    const residualSumOfSquares = y.reduce((sum, yi, i) => sum + (yi - (intercept + slope * x[i]!)) ** 2, 0)
+    const standardError = n > 2 ? Math.sqrt(residualSumOfSquares / (n - 2) / sxx) : 0
+    const pValue = n > 2 ? clampPValue(correlationPValue(correlation, n)) : 1
+    return { slope, intercept, rSquared: correlation ** 2, correlation, standardError, pValue }
+  }
+
+  /**
+   * Predict y at new x values from a least-squares line, with t-based prediction intervals
+   */
+  predictLinear(x: number[], y: number[], at: number[], confidenceLevel: number = this.confidenceLevel): LinearPrediction[] {
+    validateConfidenceLevel(confidenceLevel)
+    validateSample(x, 3)
+    const { slope, intercept } = this.simpleLinearRegression(x, y)
+    const n = x.length
+    const mx = mean(x)
+    const sxx = x.reduce((sum, xi) => sum + (xi - mx) ** 2, 0)
+    const residualStandardError = Math.sqrt(y.reduce((sum, yi, i) => sum + (yi - (intercept + slope * x[i]!)) ** 2, 0) / (n - 2))
+    const t = tQuantile(1 - (1 - confidenceLevel) / 2, n - 2)
+
+    return at.map(value => {
+      const predicted = intercept + slope * value
+      const margin = t * residualStandardError * Math.sqrt(1 + 1 / n + (value - mx) ** 2 / sxx)
+      return { x: value, predicted, lower: predicted - margin, upper: predicted + margin, confidenceLevel }
+    })
+  }
+
+  // === Power analysis ===
+  // Normal approximations for a two-sided two-sample test of a standardized effect (Cohen's d or h)
+
+  /**
+   * Probability of detecting the effect with the given group sizes
+   */
+  twoSamplePower(effectSize: number, sampleSize1: number, sampleSize2: number, alpha: number = this.alpha): number {
+    validatePowerInputs(alpha)
+    if (!(sampleSize1 > 0 && sampleSize2 > 0)) {
+      throw new Error(`Sample sizes must be positive: ${sampleSize1}, ${sampleSize2}`)
+    }
+    const noncentrality = Math.abs(effectSize) * Math.sqrt(sampleSize1 * sampleSize2 / (sampleSize1 + sampleSize2))
+    return 1 - normalCdf(normalQuantile(1 - alpha / 2) - noncentrality)
+  }
+
+  /**
+   * Games needed in each of two equal groups to reach the power
+   */
+  sampleSizeForPower(effectSize: number, power: number, alpha: number = this.alpha): number {
+    validatePowerInputs(alpha, power)
+    if (effectSize === 0) {
+      throw new Error('A zero effect cannot be detected with any sample size')
+    }
+    const z = normalQuantile(1 - alpha / 2) + normalQuantile(power)
+    return Math.ceil(2 * (z / Math.abs(effectSize)) ** 2)
+  }
+
+  /**
+   * Smallest standardized effect the group sizes detect with the power
+   */
+  minimumDetectableEffect(sampleSize1: number, sampleSize2: number, power: number, alpha: number = this.alpha): number {
+    validatePowerInputs(alpha, power)
+    return (normalQuantile(1 - alpha / 2) + normalQuantile(power)) * Math.sqrt(1 / sampleSize1 + 1 / sampleSize2)
+  }
+
+  /**
+   * Standard normal CDF P(Z <= z)
+   */
+  normalCdf(z: number): number {
+    return normalCdf(z)
+  }
+
+  // === Normality ===
+
+  /**
+   * Shapiro-Wilk test using Royston's approximation (3 <= n <= 5000)
+   */
+  shapiroWilkTest(data: number[]): ShapiroWilkResult {
+    validateSample(data, 3)
+    if (data.length > 5000) {
+      throw new Error('Shapiro-Wilk test supports at most 5000 observations')
+    }
+    const { wStatistic, pValue } = shapiroWilk(sortAscending(data))
+    const p = clampPValue(pValue)
+    return { wStatistic, pValue: p, significant: p < this.alpha }
+  }
+
+  /**
+   * Shapiro-Wilk test with a readable verdict
+   * Larger samples are tested on an evenly spaced subsample of 5000 order statistics.
+   */
+  normalityTest(data: number[]): NormalityTestResult {
+    const sorted = sortAscending(data)
+    const sample = sorted.length > 5000
+      ? Array.from({ length: 5000 }, (_, i) => sorted[Math.floor(i * sorted.length / 5000)]!)
+      : sorted
+    const result = this.shapiroWilkTest(sample)
+    const isNormal = !result.significant
+    return {
+      ...result,
+      isNormal,
+      interpretation: `Shapiro-Wilk W = ${result.wStatistic.toFixed(4)}, p = ${result.pValue.toFixed(4)}: ` +
+        (isNormal
+          ? 'no evidence against normality'
+          : `not normally distributed at the ${(this.alpha * 100).toFixed(0)}% level`)
+    }
+  }
+
+  private tTestResult(difference: number, standardError: number, degreesOfFreedom: number): TTestResult {
+    const tStatistic = standardError > 0 ? difference / standardError : (difference === 0 ? 0 : Math.sign(difference) * Infinity)
+    const pValue = clampPValue(tTwoSidedPValue(tStatistic, degreesOfFreedom))
+    const margin = tQuantile(1 - this.alpha / 2, degreesOfFreedom) * standardError
+    return {
+      tStatistic,
+      degreesOfFreedom,
+      pValue,
+      significant: pValue < this.alpha,
+      meanDifference: difference,
+      confidenceInterval: { lower: difference - margin, upper: difference + margin }
+    }
+  }
+}
+
+export default StatisticalTests
+
+// === Validation ===
+
+function validateSample(data: number[], minimumSize = 1): void {
+  if (!Array.isArray(data) || data.length < minimumSize) {
+    throw new Error(`Sample needs at least ${minimumSize} value(s)`)
+  }
+  if (data.some(value => !Number.isFinite(value))) {
+    throw new Error('Sample contains NaN or infinite values')
+  }
+}
+
+function validatePaired(x: number[], y: number[]): void {
+  validateSample(x, 2)
+  validateSample(y, 2)
+  if (x.length !== y.length) {
+    throw new Error('Variables must have the same number of observations')
+  }
+}
+
+function validateProportion(successes: number, trials: number): void {
+  if (!Number.isInteger(trials) || trials <= 0 || !(successes >= 0 && successes <= trials)) {
+    throw new Error(`Invalid proportion: ${successes}/${trials}`)
+  }
+}
+
+function validatePowerInputs(alpha: number, power = 0.5): void {
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new Error(`Significance level must be between 0 and 1: ${alpha}`)
+  }
+  if (!(power > 0 && power < 1)) {
+    throw new Error(`Power must be between 0 and 1: ${power}`)
+  }
+}
+
+function validateConfidenceLevel(level: number): void {
+  if (!(level > 0 && level < 1)) {
+    throw new Error(`Confidence level must be between 0 and 1: ${level}`)
+  }
+}
+
+// === Basic helpers ===
+
+function mean(data: number[]): number {
+  return data.reduce((sum, value) => sum + value, 0) / data.length
+}
+
+function sampleVariance(data: number[]): number {
+  const m = mean(data)
+  return data.reduce((sum, value) => sum + (value - m) ** 2, 0) / (data.length - 1)
+}
+
+function sortAscending(data: number[]): number[] {
+  return [...data].sort((a, b) => a - b)
+}
+
+/**
+ * Quantile of sorted data; order statistic i sits at (i - 0.5) / n
+ */
+function quantileSorted(sorted: number[], q: number): number {
+  const position = Math.min(Math.max(q * sorted.length + 0.5, 1), sorted.length) - 1
+  const lower = Math.floor(position)
+  const fraction = position - lower
+  return fraction === 0
+    ? sorted[lower]!
+    : sorted[lower]! + fraction * (sorted[lower + 1]! - sorted[lower]!)
+}
+
+function clampPValue(p: number): number {
+  return Math.min(1, Math.max(MIN_P_VALUE, p))
+}
+
+function correlationPValue(r: number, n: number): number {
+  if (Math.abs(r) >= 1) return 0
+  return tTwoSidedPValue(r * Math.sqrt((n - 2) / (1 - r * r)), n - 2)
+}
+
+// === Distributions ===
+
+/**
+ * Standard normal upper tail P(Z > z) (W. J. Cody's erfc approximation, |error| < 1.2e-7)
+ */
+function normalSurvival(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.5 * x)
+  const erfc = t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))))
+  return z >= 0 ? erfc / 2 : 1 - erfc / 2
+}
+
+function normalCdf(z: number): number {
+  return 1 - normalSurvival(z)
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's algorithm, relative error < 1.2e-9)
+ */
+function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239]
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1]
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+  const low = 0.02425
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p)
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1)
+}
+
+/**
+ * ln Γ(x) (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  coefficients.forEach(c => { series += c / ++y })
+  return -tmp + Math.log(2.5066282746310007 * series / x)
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  // The continued fraction converges quickly only on one side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300
+  let c = 1
+  let d = 1 - (a + b) * x / (a + 1)
+  d = 1 / (Math.abs(d) < tiny ? tiny : d)
+  let h = d
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d)
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c
+    h *= d * c
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d)
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-12) break
+  }
+  return h
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ */
+function incompleteGammaUpper(a: number, x: number): number {
+  if (x <= 0) return 1
+  const logFront = -x + a * Math.log(x) - logGamma(a)
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break
+    }
+    return 1 - sum * Math.exp(logFront)
+  }
+
+  // Continued fraction for Q(a, x)
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    d = 1 / (Math.abs(d) < tiny ? tiny : d)
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-14) break
+  }
+  return Math.exp(logFront) * h
+}
+
+function chiSquareSurvival(x: number, degreesOfFreedom: number): number {
+  return incompleteGammaUpper(degreesOfFreedom / 2, x / 2)
+}
+
+function fSurvival(f: number, d1: number, d2: number): number {
+  if (f === Infinity) return 0
+  if (f <= 0) return 1
+  return incompleteBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2)
+}
+
+function tTwoSidedPValue(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5)
+}
+
+/**
+ * Inverse Student t CDF by bisection on the two-sided p-value
+ */
+function tQuantile(p: number, degreesOfFreedom: number): number {
+  if (p === 0.5) return 0
+  if (p < 0.5) return -tQuantile(1 - p, degreesOfFreedom)
+  const targetTwoSided = 2 * (1 - p)
+  let low = 0
+  let high = 1
+  while (tTwoSidedPValue(high, degreesOfFreedom) > targetTwoSided && high < 1e8) high *= 2
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (tTwoSidedPValue(mid, degreesOfFreedom) > targetTwoSided) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+/**
+ * Shapiro-Wilk W and p-value for sorted data (Royston 1992 / 1995)
+ */
+function shapiroWilk(sorted: number[]): { wStatistic: number; pValue: number } {
+  const n = sorted.length
+  const m = mean(sorted)
+  const sumOfSquares = sorted.reduce((sum, value) => sum + (value - m) ** 2, 0)
+  if (sumOfSquares === 0) {
+    return { wStatistic: 1, pValue: 1 }
+  }
+
+  // Expected normal order statistics and their weights
+  const mValues = Array.from({ length: n }, (_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)))
+  const mm = mValues.reduce((sum, value) => sum + value * value, 0)
+  const weights: number[] = new Array(n)
+
+  if (n === 3) {
+    weights[0] = -Math.SQRT1_2
+    weights[1] = 0
+    weights[2] = Math.SQRT1_2
+  } else {
+    const u = 1 / Math.sqrt(n)
+    const c = mValues.map(value => value / Math.sqrt(mm))
+    const an = c[n - 1]! + 0.221157 * u - 0.147981 * u ** 2 - 2.071190 * u ** 3 + 4.434685 * u ** 4 - 2.706056 * u ** 5
+    const an1 = c[n - 2]! + 0.042981 * u - 0.293762 * u ** 2 - 1.752461 * u ** 3 + 5.682633 * u ** 4 - 3.582633 * u ** 5
+    const tailCount = n > 5 ? 2 : 1
+    const phi = tailCount === 2
+      ? (mm - 2 * mValues[n - 1]! ** 2 - 2 * mValues[n - 2]! ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2)
+      : (mm - 2 * mValues[n - 1]! ** 2) / (1 - 2 * an ** 2)
+
+    for (let i = 0; i < n; i++) weights[i] = mValues[i]! / Math.sqrt(phi)
+    weights[n - 1] = an
+    weights[0] = -an
+    if (tailCount === 2) {
+      weights[n - 2] = an1
+      weights[1] = -an1
+    }
+  }
+
+  const numerator = weights.reduce((sum, weight, i) => sum + weight * sorted[i]!, 0) ** 2
+  const wStatistic = Math.min(1, numerator / sumOfSquares)
+
+  if (n === 3) {
+    const pValue = 6 / Math.PI * (Math.asin(Math.sqrt(wStatistic)) - Math.asin(Math.sqrt(0.75)))
+    return { wStatistic, pValue: Math.max(0, pValue) }
+  }
+
+  let z: number
+  if (n <= 11) {
+    const gamma = 0.459 * n - 2.273
+    const mu = 0.5440 - 0.39978 * n + 0.025054 * n ** 2 - 0.0006714 * n ** 3
+    const sigma = Math.exp(1.3822 - 0.77857 * n + 0.062767 * n ** 2 - 0.0020322 * n ** 3)
+    z = (-Math.log(gamma - Math.log(1 - wStatistic)) - mu) / sigma
+  } else {
+    const ln = Math.log(n)
+    const mu = 0.0038915 * ln ** 3 - 0.083751 * ln ** 2 - 0.31082 * ln - 1.5861
+    const sigma = Math.exp(0.0030302 * ln ** 2 - 0.082676 * ln - 0.4803)
+    z = (Math.log(1 - wStatistic) - mu) / sigma
+  }
+  return { wStatistic, pValue: normalSurvival(z) }
+}
@@ -0,0 +1,192 @@
+import type { PlayerStats } from '../domain/types/game.types'
+import type { GameResultSummary } from '../benchmark/MassiveBenchmark'
+import { StatisticalTests } from './StatisticalTests'
+
+/**
+ * One observation of a live metric stream
+ */
+export interface StreamDataPoint {
+  timestamp: number // ms
+  [metric: string]: number
+}
+
+export interface StreamProcessorConfig {
+  windowSize: number // most recent points kept
+  metrics: string[]
+  updateInterval?: number // ms of stream time between two alerts on the same metric (default 0)
+  alertThreshold?: number // |z| of a new value against the window that raises an alert (default 3)
+}
+
+export interface StreamAlert {
+  timestamp: number
+  metric: string
+  value: number
+  zScore: number
+}
+
+export interface StreamMetrics {
+  count: number // points in the window
+  averages: Record<string, number>
+  trends: Record<string, number> // least-squares slope per second over the window (0 with fewer than 3 points)
+}
+
+export interface AnomalyDetectorConfig {
+  sensitivity: number // 0-1; a point is anomalous when its score exceeds this
+  windowSize: number // reference observations kept (baseline first, then normal points seen)
+  baseline: GameResultSummary[]
+  metrics?: AnomalyMetric[]
+}
+
+export type AnomalyMetric = 'score' | 'finalVitality' | 'finalInsuranceBurden' | 'turnsPlayed' | 'cardsAcquired'
+
+export interface AnomalyResult {
+  isAnomaly: boolean
+  score: number // 0-1, the largest of the metric scores
+  metricScores: Partial<Record<AnomalyMetric, number>>
+  reasons: string[]
+}
+
+// Observations needed in the window before values are judged against it
+const MINIMUM_REFERENCE_SIZE = 10
+
+const DEFAULT_ANOMALY_METRICS: AnomalyMetric[] = ['score', 'finalVitality', 'finalInsuranceBurden']
+
+// Metrics that cannot be negative in a real game
+const NON_NEGATIVE_METRICS = new Set<AnomalyMetric>(['score', 'finalVitality', 'finalInsuranceBurden', 'turnsPlayed', 'cardsAcquired'])
+
+/**
+ * Sliding-window averages, trends and outlier alerts over a live metric stream
+ *
+ * @example
+ * const processor = new StreamProcessor({ windowSize: 100, metrics: ['score'] })
+ * processor.addData({ timestamp: Date.now(), score: 420 })
+ * processor.getCurrentMetrics().averages.score
+ */
+export class StreamProcessor {
+  private readonly config: Required<StreamProcessorConfig>
+  private readonly stats: StatisticalTests
+  private readonly window: StreamDataPoint[] = []
+  private readonly alerts: StreamAlert[] = []
+  private readonly lastAlertAt = new Map<string, number>()
+
+  constructor(config: StreamProcessorConfig, stats: StatisticalTests = new StatisticalTests()) {
+    if (!Number.isInteger(config.windowSize) || config.windowSize < 1) {
+      throw new Error(`Invalid windowSize: ${config.windowSize}`)
+    }
+    this.config = { updateInterval: 0, alertThreshold: 3, ...config }
+    this.stats = stats
+  }
+
+  addData(point: StreamDataPoint): void {
+    this.config.metrics.forEach(metric => {
+      const value = point[metric]
+      if (value === undefined || !Number.isFinite(value)) return
+      const zScore = this.zScore(metric, value)
+      if (Math.abs(zScore) < this.config.alertThreshold) return
+      const last = this.lastAlertAt.get(metric)
+      if (last !== undefined && point.timestamp - last < this.config.updateInterval) return
+      this.alerts.push({ timestamp: point.timestamp, metric, value, zScore })
+      this.lastAlertAt.set(metric, point.timestamp)
+    })
+
+    this.window.push(point)
+    if (this.window.length > this.config.windowSize) {
+      this.window.shift()
+    }
+  }
+
+  getCurrentMetrics(): StreamMetrics {
+    const averages: Record<string, number> = {}
+    const trends: Record<string, number> = {}
+    this.config.metrics.forEach(metric => {
+      const points = this.window.filter(point => Number.isFinite(point[metric]))
+      const values = points.map(point => point[metric]!)
+      averages[metric] = values.length > 0 ? this.stats.calculateMean(values) : 0
+      const times = points.map(point => point.timestamp / 1000)
+      trends[metric] = points.length >= 3 && new Set(times).size > 1
+        ? this.stats.simpleLinearRegression(times, values).slope
+        : 0
+    })
+    return { count: this.window.length, averages, trends }
+  }
+
+  getAlerts(): StreamAlert[] {
+    return [...this.alerts]
+  }
+
+  private zScore(metric: string, value: number): number {
+    const values = this.window.map(point => point[metric]).filter((v): v is number => Number.isFinite(v))
+    if (values.length < MINIMUM_REFERENCE_SIZE) return 0
+    const mean = this.stats.calculateMean(values)
+    const sd = this.stats.calculateStandardDeviation(values)
+    return sd > 0 ? (value - mean) / sd : 0
+  }
+}
+
+/**
+ * Flags player stats that do not look like the reference games
+ *
+ * Each metric scores 2Φ(|z|) - 1 against the reference window (the share of a normal
+ * distribution closer to the mean than the value), so a sensitivity of 0.95 flags
+ * values beyond about 1.96 standard deviations. Impossible values (negative vitality,
+ * score, ...) score 1. Points that are not anomalous join the reference window.
+ */
+export class AnomalyDetector {
+  private readonly config: AnomalyDetectorConfig
+  private readonly stats: StatisticalTests
+  private readonly metrics: AnomalyMetric[]
+  private readonly reference: PlayerStats[]
+
+  constructor(config: AnomalyDetectorConfig, stats: StatisticalTests = new StatisticalTests()) {
+    if (!(config.sensitivity > 0 && config.sensitivity < 1)) {
+      throw new Error(`Sensitivity must be between 0 and 1: ${config.sensitivity}`)
+    }
+    if (!Number.isInteger(config.windowSize) || config.windowSize < MINIMUM_REFERENCE_SIZE) {
+      throw new Error(`windowSize must be an integer of at least ${MINIMUM_REFERENCE_SIZE}: ${config.windowSize}`)
+    }
+    if (config.baseline.length < MINIMUM_REFERENCE_SIZE) {
+      throw new Error(`At least ${MINIMUM_REFERENCE_SIZE} baseline games are needed (got ${config.baseline.length})`)
+    }
+    this.config = config
+    this.stats = stats
+    this.metrics = config.metrics ?? DEFAULT_ANOMALY_METRICS
+    this.reference = config.baseline
+      .map(game => (game.score === undefined ? game.stats : { ...game.stats, score: game.score }))
+      .slice(-config.windowSize)
+  }
+
+  detectAnomaly(point: PlayerStats): AnomalyResult {
+    const metricScores: AnomalyResult['metricScores'] = {}
+    const reasons: string[] = []
+
+    this.metrics.forEach(metric => {
+      const value = point[metric]
+      if (value === undefined) return
+      if (NON_NEGATIVE_METRICS.has(metric) && value < 0) {
+        metricScores[metric] = 1
+        reasons.push(`${metric} ${value} is impossible`)
+        return
+      }
+      const values = this.reference.map(stats => stats[metric]).filter((v): v is number => v !== undefined)
+      if (values.length < 2) return
+      const mean = this.stats.calculateMean(values)
+      const sd = this.stats.calculateStandardDeviation(values)
+      const z = sd > 0 ? Math.abs(value - mean) / sd : (value === mean ? 0 : Infinity)
+      const score = 2 * this.stats.normalCdf(z) - 1
+      metricScores[metric] = score
+      if (score > this.config.sensitivity) {
+        reasons.push(`${metric} ${value} is ${z.toFixed(1)} standard deviations from the reference mean ${mean.toFixed(1)}`)
+      }
+    })
+
+    const score = Math.max(0, ...Object.values(metricScores))
+    const isAnomaly = score > this.config.sensitivity
+    if (!isAnomaly) {
+      this.reference.push(point)
+      if (this.reference.length > this.config.windowSize) {
+        this.reference.shift()
+      }
+    }
+    return { isAnomaly, score, metricScores, reasons }
+  }
+}
@@ -0,0 +1,440 @@
+import type { BalanceConfig, GameConfig } from '../domain/types/game.types'
+import { AGE_CONSTANTS, BALANCE_CONSTANTS, GameConstantsAccessor } from '../domain/constants/GameConstants'
+import { SeededRandom } from '../common/SeededRandom'
+import { StatisticalTests } from '../analytics/StatisticalTests'
+import { DEFAULT_GAME_CONFIG, MassiveBenchmark } from './MassiveBenchmark'
+
+export const TUNING_METHODS = ['random', 'grid', 'evolutionary'] as const
+
+export type TuningMethod = typeof TUNING_METHODS[number]
+
+/**
+ * One tunable value of BalanceConfig, addressed by a dotted path
+ * (e.g. `stageParameters.youth.maxVitality`)
+ */
+export interface BalanceParameter {
+  path: string
+  min: number
+  max: number
+  step: number // candidates are snapped to min + k * step
+}
+
+/**
+ * Balance tuner configuration
+ */
+export interface BalanceTunerConfig {
+  method: TuningMethod
+  targets: Record<string, number> // persona name (in BotRegistry) -> target win rate (0-1)
+  parameters: BalanceParameter[]
+  baseConfig?: BalanceConfig // candidates are built on top of it (defaults to the current overrides)
+  gameConfig?: GameConfig
+  gamesPerCandidate: number // games per persona for every candidate
+  iterations: number // candidates to evaluate (random, evolutionary)
+  gridPoints: number // values per parameter (grid)
+  populationSize: number // evolutionary
+  mutationRate: number // evolutionary: chance of mutating each parameter of a child
+  seed?: number
+  workerThreads?: number
+  gameTimeout?: number
+  confidenceLevel: number
+  onEvaluation?: (evaluation: CandidateEvaluation, completed: number, total: number) => void
+}
+
+export interface PersonaEvaluation {
+  persona: string
+  games: number // games that reached victory, game over or the turn limit
+  victories: number
+  winRate: number
+  target: number
+  deviation: number // winRate - target
+  confidenceInterval: { lower: number, upper: number }
+}
+
+export interface CandidateEvaluation {
+  index: number // 0 = baseline
+  values: Record<string, number> // parameter path -> value
+  config: BalanceConfig
+  personas: PersonaEvaluation[]
+  score: number // root mean square deviation from the targets (lower is better)
+}
+
+/**
+ * Balance tuning result
+ */
+export interface BalanceTuningResult {
+  method: TuningMethod
+  seed: number
+  bestConfig: BalanceConfig
+  best: CandidateEvaluation
+  baseline: CandidateEvaluation
+  improvement: number // baseline score - best score
+  evaluations: CandidateEvaluation[]
+  totalGames: number
+  executionTime: number // ms
+}
+
+/**
+ * Target win rates per persona
+ */
+export const DEFAULT_TUNING_TARGETS: Record<string, number> = {
+  Beginner: 0.3,
+  Intermediate: 0.55,
+  Advanced: 0.8
+}
+
+/**
+ * Default search space: values the game engine reads through GameConstantsAccessor
+ * (vitalitySettings is not read by the engine yet, so it is left out).
+ * The stage transition ranges do not overlap, so youth always ends before middle.
+ */
+export const DEFAULT_TUNING_PARAMETERS: BalanceParameter[] = [
+  { path: 'stageParameters.youth.maxVitality', min: 40, max: 100, step: 5 },
+  { path: 'stageParameters.middle.maxVitality', min: 40, max: 100, step: 5 },
+  { path: 'stageParameters.fulfillment.maxVitality', min: 30, max: 90, step: 5 },
+  { path: 'challengeSettings.successBonusBase', min: 2, max: 14, step: 1 },
+  { path: 'progressionSettings.stageTransitionTurns.youthToMiddle', min: 5, max: 9, step: 1 },
+  { path: 'progressionSettings.stageTransitionTurns.middleToFulfillment', min: 12, max: 16, step: 1 }
+]
+
+// Built-in values of every BalanceConfig section, used when the base config does not set a value
+const DEFAULT_BALANCE: BalanceConfig = {
+  stageParameters: AGE_CONSTANTS.STAGE_PARAMETERS,
+  vitalitySettings: BALANCE_CONSTANTS.VITALITY_SETTINGS,
+  cardLimits: BALANCE_CONSTANTS.CARD_LIMITS,
+  challengeSettings: BALANCE_CONSTANTS.CHALLENGE_SETTINGS,
+  progressionSettings: BALANCE_CONSTANTS.PROGRESSION_SETTINGS
+}
+
+// Guards against a grid that would take days to evaluate
+const MAX_GRID_CANDIDATES = 1000
+
+/**
+ * Searches the BalanceConfig space for values that bring each persona's
+ * win rate to its target.
+ *
+ * Every candidate is played by every persona through MassiveBenchmark.
+ * All candidates use the same game seeds (common random numbers), so
+ * differences between candidates come from the config rather than the deal.
+ * Overrides set through GameConstantsAccessor are restored afterwards.
+ *
+ * @example
+ * const tuner = new BalanceTuner({ method: 'evolutionary', gamesPerCandidate: 200 })
+ * const result = await tuner.tune()
+ * await writeFile('balance-config.json', JSON.stringify(result.bestConfig, null, 2))
+ */
+export class BalanceTuner {
+  private readonly config: BalanceTunerConfig & { seed: number }
+  private readonly statistics: StatisticalTests
+  private readonly cache = new Map<string, CandidateEvaluation>()
+  private evaluations: CandidateEvaluation[] = []
+  private plannedEvaluations = 0
+
+  constructor(config: Partial<BalanceTunerConfig> = {}) {
+    this.config = {
+      method: 'random',
+      targets: DEFAULT_TUNING_TARGETS,
+      parameters: DEFAULT_TUNING_PARAMETERS,
+      gamesPerCandidate: 100,
+      iterations: 20,
+      gridPoints: 3,
+      populationSize: 8,
+      mutationRate: 0.3,
+      confidenceLevel: 0.95,
+      ...config,
+      seed: config.seed ?? SeededRandom.generateSeed()
+    }
+    validateConfig(this.config)
+    this.statistics = new StatisticalTests({ confidenceLevel: this.config.confidenceLevel })
+  }
+
+  /**
+   * Run the search and return the best config found
+   */
+  async tune(): Promise<BalanceTuningResult> {
+    const startTime = performance.now()
+    const previousOverrides = GameConstantsAccessor.getOverrides()
+    const baseConfig = this.config.baseConfig ?? previousOverrides ?? {}
+    const random = new SeededRandom(this.config.seed).fork('search')
+    this.cache.clear()
+    this.evaluations = []
+
+    try {
+      this.plannedEvaluations = 1 + this.countCandidates()
+      const baselineValues = this.readValues(baseConfig)
+      const baseline = await this.evaluate(baselineValues, baseConfig)
+
+      switch (this.config.method) {
+        case 'random':
+          for (let i = 0; i < this.config.iterations; i++) {
+            await this.evaluateValues(this.randomValues(random), baseConfig)
+          }
+          break
+        case 'grid':
+          for (const values of this.gridValues()) {
+            await this.evaluateValues(values, baseConfig)
+          }
+          break
+        case 'evolutionary':
+          await this.evolve(this.snapValues(baselineValues), baseConfig, random)
+          break
+      }
+
+      const best = this.evaluations.reduce((a, b) => (b.score < a.score ? b : a))
+      return {
+        method: this.config.method,
+        seed: this.config.seed,
+        bestConfig: best.config,
+        best,
+        baseline,
+        improvement: baseline.score - best.score,
+        evaluations: this.evaluations,
+        totalGames: this.evaluations.reduce((sum, evaluation) =>
+          sum + evaluation.personas.reduce((games, persona) => games + persona.games, 0), 0),
+        executionTime: performance.now() - startTime
+      }
+    } finally {
+      GameConstantsAccessor.setOverrides(previousOverrides)
+    }
+  }
+
+  /**
+   * Build the BalanceConfig for a set of parameter values
+   */
+  buildConfig(values: Record<string, number>, baseConfig: BalanceConfig = {}): BalanceConfig {
+    const config = structuredClone(baseConfig)
+    Object.entries(values).forEach(([path, value]) => setPath(config, path, value))
+
+    // stageTransitionTurns replaces the built-in object as a whole, so it needs both turns
+    const transitions = config.progressionSettings?.stageTransitionTurns
+    if (transitions) {
+      const defaults = BALANCE_CONSTANTS.PROGRESSION_SETTINGS.stageTransitionTurns
+      transitions.youthToMiddle ??= defaults.youthToMiddle
+      transitions.middleToFulfillment ??= defaults.middleToFulfillment
+    }
+    return config
+  }
+
+  private async evolve(
+    baselineValues: Record<string, number>,
+    baseConfig: BalanceConfig,
+    random: SeededRandom
+  ): Promise<void> {
+    const { populationSize, iterations } = this.config
+    let population = [baselineValues]
+    while (population.length < populationSize) {
+      population.push(this.randomValues(random))
+    }
+
+    let budget = iterations
+    let evaluated: CandidateEvaluation[] = []
+    while (budget > 0) {
+      const generation: CandidateEvaluation[] = []
+      for (const values of population) {
+        if (budget === 0) break
+        const cached = this.cache.get(valuesKey(values))
+        if (!cached) budget--
+        generation.push(cached ?? await this.evaluateValues(values, baseConfig))
+      }
+      // Every child was already evaluated: the population has converged
+      if (generation.every(evaluation => evaluated.includes(evaluation))) break
+
+      // Keep the best quarter, fill the rest with mutated crossovers of tournament winners
+      evaluated = [...evaluated, ...generation]
+        .sort((a, b) => a.score - b.score)
+        .filter((evaluation, i, all) => all.findIndex(other => other.index === evaluation.index) === i)
+        .slice(0, populationSize)
+      const eliteCount = Math.max(1, Math.floor(populationSize / 4))
+      population = evaluated.slice(0, eliteCount).map(evaluation => evaluation.values)
+      while (population.length < populationSize) {
+        const child = this.crossover(this.tournament(evaluated, random), this.tournament(evaluated, random), random)
+        population.push(this.mutate(child, random))
+      }
+    }
+  }
+
+  private tournament(candidates: CandidateEvaluation[], random: SeededRandom): Record<string, number> {
+    const a = candidates[random.nextInt(candidates.length)]!
+    const b = candidates[random.nextInt(candidates.length)]!
+    return (a.score <= b.score ? a : b).values
+  }
+
+  private crossover(
+    a: Record<string, number>,
+    b: Record<string, number>,
+    random: SeededRandom
+  ): Record<string, number> {
+    return Object.fromEntries(this.config.parameters.map(({ path }) =>
+      [path, (random.next() < 0.5 ? a[path] : b[path])!]))
+  }
+
+  private mutate(values: Record<string, number>, random: SeededRandom): Record<string, number> {
+    return Object.fromEntries(this.config.parameters.map(parameter => {
+      const value = values[parameter.path]!
+      if (random.next() >= this.config.mutationRate) return [parameter.path, value]
+      // Gaussian step with a standard deviation of 15% of the range
+      const gaussian = Math.sqrt(-2 * Math.log(1 - random.next())) * Math.cos(2 * Math.PI * random.next())
+      return [parameter.path, snap(parameter, value + gaussian * 0.15 * (parameter.max - parameter.min))]
+    }))
+  }
+
+  private randomValues(random: SeededRandom): Record<string, number> {
+    return Object.fromEntries(this.config.parameters.map(parameter =>
+      [parameter.path, snap(parameter, parameter.min + random.next() * (parameter.max - parameter.min))]))
+  }
+
+  private *gridValues(): Generator<Record<string, number>> {
+    const axes = this.config.parameters.map(parameter => gridAxis(parameter, this.config.gridPoints))
+    const total = axes.reduce((product, axis) => product * axis.length, 1)
+    for (let i = 0; i < total; i++) {
+      let rest = i
+      yield Object.fromEntries(this.config.parameters.map((parameter, p) => {
+        const axis = axes[p]!
+        const value = axis[rest % axis.length]!
+        rest = Math.floor(rest / axis.length)
+        return [parameter.path, value]
+      }))
+    }
+  }
+
+  private countCandidates(): number {
+    if (this.config.method !== 'grid') return this.config.iterations
+    const total = this.config.parameters.reduce((product, parameter) =>
+      product * gridAxis(parameter, this.config.gridPoints).length, 1)
+    if (total > MAX_GRID_CANDIDATES) {
+      throw new Error(`Grid has ${total} candidates (limit ${MAX_GRID_CANDIDATES}); ` +
+        'use fewer parameters or grid points, or another method')
+    }
+    return total
+  }
+
+  private readValues(config: BalanceConfig): Record<string, number> {
+    return Object.fromEntries(this.config.parameters.map(({ path }) => {
+      const value = getPath(config, path) ?? getPath(DEFAULT_BALANCE, path)
+      if (typeof value !== 'number') {
+        throw new Error(`Balance parameter is not a number: ${path}`)
+      }
+      return [path, value]
+    }))
+  }
+
+  private snapValues(values: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(this.config.parameters.map(parameter =>
+      [parameter.path, snap(parameter, values[parameter.path]!)]))
+  }
+
+  private async evaluateValues(values: Record<string, number>, baseConfig: BalanceConfig): Promise<CandidateEvaluation> {
+    return this.cache.get(valuesKey(values)) ?? this.evaluate(values, this.buildConfig(values, baseConfig))
+  }
+
+  private async evaluate(values: Record<string, number>, config: BalanceConfig): Promise<CandidateEvaluation> {
+    const personas: PersonaEvaluation[] = []
+    for (const [persona, target] of Object.entries(this.config.targets)) {
+      personas.push(await this.evaluatePersona(persona, target, config))
+    }
+
+    const evaluation: CandidateEvaluation = {
+      index: this.evaluations.length,
+      values,
+      config,
+      personas,
+      score: Math.sqrt(personas.reduce((sum, persona) => sum + persona.deviation ** 2, 0) / personas.length)
+    }
+    this.cache.set(valuesKey(values), evaluation)
+    this.evaluations.push(evaluation)
+    this.config.onEvaluation?.(evaluation, this.evaluations.length, this.plannedEvaluations)
+    return evaluation
+  }
+
+  private async evaluatePersona(persona: string, target: number, balanceConfig: BalanceConfig): Promise<PersonaEvaluation> {
+    const benchmark = new MassiveBenchmark({
+      totalGames: this.config.gamesPerCandidate,
+      strategy: persona,
+      gameConfig: { ...(this.config.gameConfig ?? DEFAULT_GAME_CONFIG), balanceConfig },
+      seed: new SeededRandom(this.config.seed).fork(`persona-${persona}`).seed,
+      workerThreads: this.config.workerThreads ?? 0,
+      ...(this.config.gameTimeout !== undefined ? { gameTimeout: this.config.gameTimeout } : {}),
+      enablePerformanceMonitoring: false,
+      showProgress: false
+    })
+    const { outcomes } = (await benchmark.execute()).statistics
+    const games = outcomes.victories + outcomes.gameOvers + outcomes.turnLimits
+    if (games === 0) {
+      throw new Error(`No ${persona} games finished; check the balance config and game timeout`)
+    }
+
+    const interval = this.statistics.confidenceIntervalProportion(outcomes.victories, games)
+    return {
+      persona,
+      games,
+      victories: outcomes.victories,
+      winRate: interval.proportion,
+      target,
+      deviation: interval.proportion - target,
+      confidenceInterval: { lower: interval.lower, upper: interval.upper }
+    }
+  }
+}
+
+function validateConfig(config: BalanceTunerConfig): void {
+  if (!TUNING_METHODS.includes(config.method)) {
+    throw new Error(`Unknown tuning method: ${config.method} (available: ${TUNING_METHODS.join(', ')})`)
+  }
+  if (Object.keys(config.targets).length === 0) {
+    throw new Error('At least one persona target is required')
+  }
+  Object.entries(config.targets).forEach(([persona, target]) => {
+    if (!(target >= 0 && target <= 1)) {
+      throw new Error(`Target win rate for ${persona} must be between 0 and 1: ${target}`)
+    }
+  })
+  if (config.parameters.length === 0) {
+    throw new Error('At least one balance parameter is required')
+  }
+  config.parameters.forEach(parameter => {
+    if (!(parameter.min < parameter.max) || !(parameter.step > 0)) {
+      throw new Error(`Invalid range for balance parameter ${parameter.path}`)
+    }
+  })
+  const counts = { gamesPerCandidate: 1, iterations: 1, gridPoints: 2, populationSize: 2 }
+  Object.entries(counts).forEach(([name, minimum]) => {
+    const value = config[name as keyof typeof counts]
+    if (!Number.isInteger(value) || value < minimum) {
+      throw new Error(`Invalid ${name}: ${value}`)
+    }
+  })
+}
+
+function snap(parameter: BalanceParameter, value: number): number {
+  const steps = Math.round((value - parameter.min) / parameter.step)
+  const snapped = parameter.min + steps * parameter.step
+  // Strip floating point noise from fractional steps (0.1 + 0.2)
+  return Math.min(parameter.max, Math.max(parameter.min, Number(snapped.toPrecision(12))))
+}
+
+function gridAxis(parameter: BalanceParameter, points: number): number[] {
+  const values = Array.from({ length: points }, (_, i) =>
+    snap(parameter, parameter.min + (parameter.max - parameter.min) * i / (points - 1)))
+  return [...new Set(values)]
+}
+
+function valuesKey(values: Record<string, number>): string {
+  return JSON.stringify(Object.entries(values).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function getPath(target: object, path: string): unknown {
+  return path.split('.').reduce<unknown>((node, key) =>
+    (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), target)
+}
+
+function setPath(target: object, path: string, value: number): void {
+  const keys = path.split('.')
+  const last = keys.pop()!
+  let node = target as Record<string, unknown>
+  keys.forEach(key => {
+    if (node[key] === null || typeof node[key] !== 'object') {
+      node[key] = {}
+    }
+    node = node[key] as Record<string, unknown>
+  })
+  node[last] = value
+}
@@ -0,0 +1,246 @@
+import { GameControllerFactory } from '../controllers/GameController'
+import type { GameRenderer } from '../interfaces/GameRenderer'
+import type { GameConfig, PlayerStats } from '../domain/types/game.types'
+import type { GameStage } from '../domain/types/card.types'
+import { BotGameRenderer } from '../ai/BotGameRenderer'
+import { BotRegistry } from '../ai/BotRegistry'
+import type { Bot } from '../ai/Bot'
+import { TrainedModels, type TrainedModelFile } from '../ai/TrainedModels'
+import { SeededRandom } from '../common/SeededRandom'
+import { withSilentConsole } from '../common/SilentConsole'
+
+export type BenchmarkGameOutcome = 'victory' | 'game_over' | 'turn_limit' | 'timeout' | 'error'
+
+/**
+ * One game to be played by the benchmark
+ */
+export interface BenchmarkGameTask {
+  gameIndex: number
+  seed: number
+  strategy: string // bot name in BotRegistry (or the model's name)
+  gameConfig: GameConfig
+  timeout: number // ms per game (0 = unlimited)
+  deadline?: number // epoch ms (Date.now()) when the whole run times out
+}
+
+/**
+ * Turns spent in a stage during one game
+ */
+export interface BenchmarkStageRecord {
+  stage: GameStage
+  turns: number
+}
+
+/**
+ * Result of one benchmark game
+ */
+export interface BenchmarkGameRecord {
+  gameIndex: number
+  seed: number
+  strategy: string
+  outcome: BenchmarkGameOutcome
+  finalStage: GameStage
+  turns: number
+  score: number
+  finalVitality: number
+  insuranceCount: number // active insurances when the game ended
+  insuranceBurden: number
+  difficultyAdjustments: number // challenges whose power was adapted to recent performance
+  stats: PlayerStats
+  stages: BenchmarkStageRecord[]
+  duration: number // ms
+  memoryUsed: number // heap bytes after the game
+  error?: string
+}
+
+/**
+ * Hooks for in-process runs (functions cannot be sent to worker threads)
+ */
+export interface BenchmarkGameHooks {
+  createBot?: (task: BenchmarkGameTask) => Bot
+  createRenderer?: (bot: Bot) => GameRenderer
+}
+
+/**
+ * Play one headless game through GameController and summarize it.
+ * Never throws: failures are reported as the 'error' outcome.
+ * @param model trained model to play instead of a registered bot (the same for every game of a run)
+ */
+export async function runBenchmarkGame(
+  task: BenchmarkGameTask,
+  hooks: BenchmarkGameHooks = {},
+  model?: TrainedModelFile
+): Promise<BenchmarkGameRecord> {
+  return withSilentConsole(() => playGame(task, hooks, model))
+}
+
+async function playGame(task: BenchmarkGameTask, hooks: BenchmarkGameHooks, model: TrainedModelFile | undefined): Promise<BenchmarkGameRecord> {
+  const startTime = performance.now()
+  const record = (fields: Omit<BenchmarkGameRecord, 'gameIndex' | 'seed' | 'strategy' | 'duration' | 'memoryUsed'>): BenchmarkGameRecord => ({
+    gameIndex: task.gameIndex,
+    seed: task.seed,
+    strategy: task.strategy,
+    duration: performance.now() - startTime,
+    memoryUsed: getHeapUsed(),
+    ...fields
+  })
+
+  try {
+    const maxTurns = task.gameConfig.maxTurns
+    if (maxTurns !== undefined && (!Number.isInteger(maxTurns) || maxTurns <= 0)) {
+      throw new Error(`Invalid maxTurns: ${maxTurns}`)
+    }
+    const timeLimit = getTimeLimit(task)
+    if (timeLimit !== undefined && timeLimit <= 0) {
+      return record({ ...unplayedFields(), outcome: 'timeout', error: 'Run timed out before the game started' })
+    }
+
+    const bot = hooks.createBot?.(task) ??
+      (model ? TrainedModels.createBot(model, new SeededRandom(task.seed).fork('strategy')) : createBot(task.strategy, task.seed))
+    const renderer = hooks.createRenderer?.(bot) ?? new BotGameRenderer(bot)
+    const controller = GameControllerFactory.create({ ...task.gameConfig, seed: task.seed }, renderer)
+    const game = controller.getGameState()
+
+    // GameController reports progress after every turn; use it to record which stage
+    // each turn was played in and to stop on the turn limit, or on the time limit
+    // when the turns themselves never wait for timers
+    const turnStages = new Map<number, GameStage>()
+    let timedOut = false
+    let reachedTurnLimit = false
+    const stopOnTimeout = (): void => {
+      timedOut = true
+      controller.stopGame()
+    }
+    const displayProgress = renderer.displayProgress.bind(renderer)
+    renderer.displayProgress = (stage: string, turn: number) => {
+      if (!turnStages.has(turn)) turnStages.set(turn, stage as GameStage)
+      if (maxTurns !== undefined && turn > maxTurns) {
+        reachedTurnLimit = true
+        controller.stopGame()
+      } else if (timeLimit !== undefined && performance.now() - startTime > timeLimit) {
+        stopOnTimeout()
+      }
+      displayProgress(stage, turn)
+    }
+
+    // A bot or renderer that never answers would hang the game inside a turn,
+    // so the deadline also races the whole game
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined
+    try {
+      await (timeLimit === undefined
+        ? controller.playGame()
+        : Promise.race([
+          controller.playGame(),
+          new Promise<void>(resolve => {
+            deadlineTimer = setTimeout(() => {
+              stopOnTimeout()
+              resolve()
+            }, timeLimit)
+          })
+        ]))
+    } finally {
+      clearTimeout(deadlineTimer)
+    }
+    const stats = game.stats
+
+    let outcome: BenchmarkGameOutcome
+    if (game.status === 'victory') outcome = 'victory'
+    else if (game.status === 'game_over') outcome = 'game_over'
+    else if (reachedTurnLimit) outcome = 'turn_limit'
+    else if (timedOut) outcome = 'timeout'
+    else outcome = 'error'
+
+    const turns = outcome === 'turn_limit' ? maxTurns! : game.turn
+    if (!turnStages.has(turns)) turnStages.set(turns, game.stage)
+    const stageTurns = new Map<GameStage, number>()
+    turnStages.forEach((stage, turn) => {
+      if (turn >= 1 && turn <= turns) stageTurns.set(stage, (stageTurns.get(stage) ?? 0) + 1)
+    })
+
+    return record({
+      outcome,
+      finalStage: game.stage,
+      turns,
+      score: game.score,
+      finalVitality: game.vitality,
+      insuranceCount: game.activeInsurances.length,
+      insuranceBurden: game.insuranceBurden,
+      difficultyAdjustments: game.getDifficultyAdjustments().length,
+      stats: { ...stats, finalVitality: game.vitality, score: game.score },
+      stages: Array.from(stageTurns, ([stage, count]) => ({ stage, turns: count })),
+      ...(outcome === 'error' ? { error: `Game stopped in ${game.phase} phase (status: ${game.status})` } : {})
+    })
+  } catch (error) {
+    return record({
+      ...unplayedFields(),
+      outcome: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * Record of a game that never reported back, e.g. from a worker that was terminated
+ */
+export function createTimeoutRecord(task: BenchmarkGameTask, duration: number): BenchmarkGameRecord {
+  return {
+    gameIndex: task.gameIndex,
+    seed: task.seed,
+    strategy: task.strategy,
+    duration,
+    memoryUsed: getHeapUsed(),
+    ...unplayedFields(),
+    outcome: 'timeout',
+    error: `Game did not finish within ${Math.round(duration)}ms`
+  }
+}
+
+/**
+ * Time the game may take from now: the game timeout, cut short by the run deadline
+ * @returns ms (0 or less when the run is already over), or undefined when unlimited
+ */
+export function getTimeLimit(task: BenchmarkGameTask): number | undefined {
+  const limits: number[] = []
+  if (task.timeout > 0) limits.push(task.timeout)
+  if (task.deadline !== undefined) limits.push(task.deadline - Date.now())
+  return limits.length > 0 ? Math.min(...limits) : undefined
+}
+
+/**
+ * Create a bot by its registered name
+ */
+export function createBot(name: string, seed: number): Bot {
+  if (!BotRegistry.has(name)) {
+    throw new Error(`Unknown benchmark strategy: ${name}`)
+  }
+  return BotRegistry.create(name, new SeededRandom(seed).fork('strategy'))
+}
+
+function getHeapUsed(): number {
+  return typeof process !== 'undefined' && process.memoryUsage ? process.memoryUsage().heapUsed : 0
+}
+
+function unplayedFields(): Omit<BenchmarkGameRecord, 'gameIndex' | 'seed' | 'strategy' | 'duration' | 'memoryUsed' | 'outcome'> {
+  return {
+    finalStage: 'youth',
+    turns: 0,
+    score: 0,
+    finalVitality: 0,
+    insuranceCount: 0,
+    insuranceBurden: 0,
+    difficultyAdjustments: 0,
+    stats: emptyStats(),
+    stages: []
+  }
+}
+
+function emptyStats(): PlayerStats {
+  return {
+    totalChallenges: 0,
+    successfulChallenges: 0,
+    failedChallenges: 0,
+    cardsAcquired: 0,
+    highestVitality: 0,
+    turnsPlayed: 0
+  }
+}
@@ -0,0 +1,30 @@
+import { parentPort, workerData } from 'worker_threads'
+import { runBenchmarkGame, type BenchmarkGameRecord, type BenchmarkGameTask } from './BenchmarkGameRunner'
+import type { TrainedModelFile } from '../ai/TrainedModels'
+
+/**
+ * Worker thread entry point for MassiveBenchmark.
+ * Plays the games assigned in workerData one by one and posts each record back.
+ */
+export interface BenchmarkWorkerData {
+  workerId: number
+  tasks: BenchmarkGameTask[]
+  model?: TrainedModelFile // sent once per worker rather than with every task
+}
+
+export type BenchmarkWorkerMessage =
+  | { type: 'start'; gameIndex: number } // lets the main thread time the game
+  | { type: 'result'; record: BenchmarkGameRecord }
+  | { type: 'done'; workerId: number }
+
+const run = async (): Promise<void> => {
+  const { workerId, tasks, model } = workerData as BenchmarkWorkerData
+  for (const task of tasks) {
+    parentPort?.postMessage({ type: 'start', gameIndex: task.gameIndex } satisfies BenchmarkWorkerMessage)
+    const record = await runBenchmarkGame(task, {}, model)
+    parentPort?.postMessage({ type: 'result', record } satisfies BenchmarkWorkerMessage)
+  }
+  parentPort?.postMessage({ type: 'done', workerId } satisfies BenchmarkWorkerMessage)
+}
+
+void run()
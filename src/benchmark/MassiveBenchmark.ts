@@ -0,0 +1,667 @@
+import type { GameConfig, PlayerStats } from '../domain/types/game.types'
+import type { GameStage } from '../domain/types/card.types'
+import { fileURLToPath } from 'url'
+import { GameConstantsAccessor } from '../domain/constants/GameConstants'
+import { SeededRandom } from '../common/SeededRandom'
+import {
+  createTimeoutRecord,
+  getTimeLimit,
+  runBenchmarkGame,
+  type BenchmarkGameHooks,
+  type BenchmarkGameOutcome,
+  type BenchmarkGameRecord,
+  type BenchmarkGameTask
+} from './BenchmarkGameRunner'
+import type { BenchmarkWorkerData, BenchmarkWorkerMessage } from './BenchmarkWorker'
+import type { TrainedModelFile } from '../ai/TrainedModels'
+
+export type { BenchmarkGameRecord } from './BenchmarkGameRunner'
+
+/**
+ * Massive benchmark configuration
+ */
+export interface MassiveBenchmarkConfig extends BenchmarkGameHooks {
+  totalGames: number
+  workerThreads?: number // 0 = run in the main thread
+  concurrency?: number // games in flight at once when running in the main thread
+  strategy?: string // bot name in BotRegistry
+  model?: TrainedModelFile // trained model to play instead of `strategy`
+  gameConfig?: GameConfig
+  seed?: number // base seed; each game gets a seed derived from it
+  gameTimeout?: number // ms per game (0 = unlimited)
+  runTimeout?: number // ms for the whole run; games not finished by then count as timeouts (0 = unlimited)
+  enablePerformanceMonitoring?: boolean
+  showProgress?: boolean
+  retryFailedGames?: boolean
+  maxRetries?: number
+  includeGameRecords?: boolean
+}
+
+/**
+ * Options accepted by runBenchmark (test harness style)
+ */
+export interface BenchmarkRunOptions {
+  gameCount: number
+  concurrency?: number
+  timeout?: number // ms for the whole run
+  useWorkerThreads?: boolean
+  collectStats?: boolean
+  collectDetailedStats?: boolean
+  collectWorkerStats?: boolean
+  collectErrorDetails?: boolean
+  memoryLimit?: number
+  retryFailedGames?: boolean
+  maxRetries?: number
+  gameConfig?: GameConfig
+  strategy?: string
+  seed?: number
+}
+
+export interface DistributionStatistics {
+  count: number
+  mean: number
+  standardDeviation: number
+  min: number
+  max: number
+}
+
+export interface StageStatistics {
+  gamesReached: number
+  victories: number
+  gameOvers: number // games that ended in this stage
+  averageTurns: number // turns spent in this stage per game that reached it
+}
+
+export interface WorkerStatistics {
+  workerId: number
+  gamesProcessed: number
+  totalTime: number
+  errors: number
+}
+
+export interface BenchmarkErrorDetail {
+  gameIndex: number
+  error: string
+  timestamp: number
+}
+
+/**
+ * One finished game reduced to what the analytics read, tagged with the worker that played it
+ */
+export interface GameResultSummary {
+  gameId: number
+  workerId: number
+  outcome: BenchmarkGameOutcome
+  stats: PlayerStats
+  duration: number // ms
+  strategy: string
+  stage: string // stage the game ended in
+  score?: number // overrides stats.score
+}
+
+/**
+ * Massive benchmark result
+ */
+export interface MassiveBenchmarkResult {
+  totalGames: number
+  successfulGames: number // games that reached victory, game over or the turn limit
+  failedGames: number // errors and timeouts
+  timeoutGames: number
+  executionTime: number // ms
+  execution: {
+    completedGames: number
+    totalDuration: number // ms
+    gamesPerSecond: number
+    averageGameTime: number // ms
+    workerThreads: number
+    strategy: string
+    seed: number // base seed of the run
+  }
+  statistics: {
+    outcomes: {
+      victories: number
+      gameOvers: number
+      turnLimits: number
+      victoryRate: number // %
+      averageTurns: number
+      averageScore: number
+    }
+    challenges: {
+      total: number
+      successful: number
+      failed: number
+      successRate: number // %
+    }
+    stages: Record<GameStage, StageStatistics>
+    executionTime: DistributionStatistics
+    memoryUsage: {
+      average: number // bytes
+      peak: number // bytes
+    }
+    gameOutcomes: {
+      completed: number
+      failed: number
+      timeout: number
+    }
+  }
+  systemUsage: {
+    memory: {
+      peakUsage: number // MB
+      averageUsage: number // MB
+    }
+    cpu: {
+      averageUsage: number // %
+    }
+  }
+  performance: {
+    metrics: {
+      memoryUsage: { used: number } // MB
+      cpuUsage: number // %
+    }
+  }
+  workerMetrics?: {
+    threadsUsed: number
+    workerStats: WorkerStatistics[]
+    fallbackToMainThread: boolean
+  }
+  retryMetrics?: {
+    totalRetries: number
+    successfulRetries: number
+  }
+  errorDetails: BenchmarkErrorDetail[]
+  gameResults?: BenchmarkGameRecord[] // per-game records, read by the analytics commands
+}
+
+const STAGES: GameStage[] = ['youth', 'middle', 'fulfillment']
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  difficulty: 'normal',
+  startingVitality: 15,
+  startingHandSize: 5,
+  maxHandSize: 7,
+  dreamCardCount: 2
+}
+
+// Resolved at runtime (a literal in new URL() would be rewritten as a bundled asset by Vite)
+const WORKER_MODULE = './BenchmarkWorker.ts'
+const WORKER_TSCONFIG = '../../tsconfig.app.json'
+
+// How long a worker may overrun a game's time limit before it is terminated;
+// normally the worker reports the timeout itself well within this
+const WORKER_TIMEOUT_GRACE = 1000
+
+// How often progress is reported
+const PROGRESS_INTERVAL = 100
+
+/**
+ * Runs many headless games through GameController and aggregates the results.
+ *
+ * Games are played by a bot from BotRegistry (persona, advanced strategy, ...) through
+ * BotGameRenderer, either in the main thread or spread over worker_threads.
+ * Every game gets its own seed derived from the base seed, so a run is
+ * reproducible and any single game can be replayed from its record.
+ *
+ * @example
+ * const benchmark = new MassiveBenchmark({ totalGames: 1000, strategy: 'Advanced' })
+ * const results = await benchmark.execute()
+ * console.log(results.statistics.outcomes.victoryRate)
+ */
+export class MassiveBenchmark {
+  private readonly config: MassiveBenchmarkConfig
+  private readonly activeWorkers = new Set<{ terminate(): Promise<number> }>()
+
+  constructor(config: Partial<MassiveBenchmarkConfig> = {}) {
+    // The base seed is fixed up front so phases and retries derive the same game seeds
+    this.config = { totalGames: 1000, ...config, seed: config.seed ?? SeededRandom.generateSeed() }
+  }
+
+  /**
+   * Run the configured number of games
+   */
+  async execute(): Promise<MassiveBenchmarkResult> {
+    return this.run(this.config.totalGames, 0)
+  }
+
+  /**
+   * Run the games in several phases so records from one phase can be released
+   * before the next starts. Seeds continue across phases.
+   */
+  async executeInPhases(phases: number[]): Promise<MassiveBenchmarkResult[]> {
+    const results: MassiveBenchmarkResult[] = []
+    let offset = 0
+    for (const games of phases) {
+      results.push(await this.run(games, offset))
+      offset += games
+    }
+    return results
+  }
+
+  /**
+   * Run a benchmark with one-off options, keeping this instance's other settings
+   */
+  async runBenchmark(options: BenchmarkRunOptions): Promise<MassiveBenchmarkResult> {
+    const concurrency = options.concurrency ?? 1
+    const benchmark = new MassiveBenchmark({
+      ...this.config,
+      totalGames: options.gameCount,
+      concurrency,
+      workerThreads: options.useWorkerThreads ? concurrency : 0,
+      ...(options.timeout !== undefined ? { runTimeout: options.timeout } : {}),
+      ...(options.gameConfig ? { gameConfig: options.gameConfig } : {}),
+      ...(options.strategy ? { strategy: options.strategy } : {}),
+      ...(options.seed !== undefined ? { seed: options.seed } : {}),
+      ...(options.retryFailedGames !== undefined ? { retryFailedGames: options.retryFailedGames } : {}),
+      ...(options.maxRetries !== undefined ? { maxRetries: options.maxRetries } : {}),
+      enablePerformanceMonitoring: options.collectStats ?? options.collectDetailedStats ?? false,
+      showProgress: false
+    })
+    return benchmark.execute()
+  }
+
+  /**
+   * Terminate any worker threads that are still running
+   */
+  async cleanup(): Promise<void> {
+    await Promise.all(Array.from(this.activeWorkers, worker => worker.terminate()))
+    this.activeWorkers.clear()
+  }
+
+  private async run(totalGames: number, offset: number): Promise<MassiveBenchmarkResult> {
+    const deadline = this.config.runTimeout ? Date.now() + this.config.runTimeout : undefined
+    const tasks = this.createTasks(totalGames, offset, deadline)
+    const startTime = performance.now()
+    const startCpu = process.cpuUsage()
+    const memorySamples: number[] = []
+
+    const workerCount = Math.min(this.config.workerThreads ?? 0, tasks.length)
+    const { records, workerMetrics } = workerCount > 0
+      ? await this.runInWorkers(tasks, workerCount, memorySamples)
+      : { records: await this.runInMainThread(tasks, memorySamples), workerMetrics: undefined }
+
+    const retryMetrics = this.config.retryFailedGames
+      ? await this.retryFailedGames(records, deadline)
+      : undefined
+
+    const totalDuration = performance.now() - startTime
+    const cpu = process.cpuUsage(startCpu)
+    memorySamples.push(process.memoryUsage().heapUsed)
+
+    const result = this.summarize(records, totalDuration, memorySamples, (cpu.user + cpu.system) / 1000)
+    if (workerMetrics) result.workerMetrics = workerMetrics
+    if (retryMetrics) result.retryMetrics = retryMetrics
+    if (this.config.includeGameRecords) result.gameResults = records
+
+    if (this.config.showProgress) {
+      console.log(`✅ ${result.execution.completedGames}/${totalGames} games in ${(totalDuration / 1000).toFixed(1)}s ` +
+        `(${result.execution.gamesPerSecond.toFixed(1)} games/s)`)
+    }
+    return result
+  }
+
+  private createTasks(totalGames: number, offset: number, deadline: number | undefined): BenchmarkGameTask[] {
+    if (!Number.isInteger(totalGames) || totalGames < 0) {
+      throw new Error(`Invalid totalGames: ${totalGames}`)
+    }
+
+    const baseRandom = new SeededRandom(this.config.seed!)
+    const baseConfig = this.config.gameConfig ?? DEFAULT_GAME_CONFIG
+    // Overrides set by the caller must travel with the config to reach worker threads
+    const balanceConfig = baseConfig.balanceConfig ?? GameConstantsAccessor.getOverrides()
+    const gameConfig: GameConfig = balanceConfig ? { ...baseConfig, balanceConfig } : { ...baseConfig }
+    const strategy = this.config.model?.name ?? this.config.strategy ?? 'Intermediate'
+
+    return Array.from({ length: totalGames }, (_, i) => ({
+      gameIndex: offset + i,
+      seed: baseRandom.fork(`game-${offset + i}`).seed,
+      strategy,
+      gameConfig,
+      timeout: this.config.gameTimeout ?? 0,
+      ...(deadline !== undefined ? { deadline } : {})
+    }))
+  }
+
+  private async runInMainThread(
+    tasks: BenchmarkGameTask[],
+    memorySamples: number[]
+  ): Promise<BenchmarkGameRecord[]> {
+    const records: BenchmarkGameRecord[] = new Array(tasks.length)
+    const concurrency = Math.max(1, this.config.concurrency ?? 1)
+    let next = 0
+    let completed = 0
+
+    const lane = async (): Promise<void> => {
+      while (next < tasks.length) {
+        const index = next++
+        records[index] = await runBenchmarkGame(tasks[index]!, this.config, this.config.model)
+        completed++
+        if (completed % PROGRESS_INTERVAL === 0) {
+          this.sample(memorySamples)
+          this.reportProgress(completed, tasks.length)
+        }
+        // Games only await microtasks, so without this timers (game deadlines
+        // included) and I/O would wait until the whole in-process run ends
+        await new Promise(resolve => setImmediate(resolve))
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, lane))
+    return records
+  }
+
+  private async runInWorkers(
+    tasks: BenchmarkGameTask[],
+    workerCount: number,
+    memorySamples: number[]
+  ): Promise<{ records: BenchmarkGameRecord[]; workerMetrics: NonNullable<MassiveBenchmarkResult['workerMetrics']> }> {
+    const { Worker } = await import('worker_threads')
+    const workerUrl = new URL(WORKER_MODULE, import.meta.url)
+    // Worker threads do not inherit the TypeScript loader, so the source is loaded
+    // through tsx with the app's path aliases
+    const bootstrap = `import('tsx/esm/api').then(({ tsImport }) => tsImport(${JSON.stringify(workerUrl.href)}, {
+      parentURL: ${JSON.stringify(workerUrl.href)},
+      tsconfig: ${JSON.stringify(fileURLToPath(new URL(WORKER_TSCONFIG, import.meta.url)))}
+    }))`
+    const records = new Map<number, BenchmarkGameRecord>()
+    const workerStats: WorkerStatistics[] = []
+    let fallbackToMainThread = false
+
+    // Round-robin keeps the amount of work per worker even
+    const chunks = Array.from({ length: workerCount }, (_, workerId) =>
+      tasks.filter((_, i) => i % workerCount === workerId))
+
+    await Promise.all(chunks.map(async (chunk, workerId) => {
+      const stats: WorkerStatistics = { workerId, gamesProcessed: 0, totalTime: 0, errors: 0 }
+      workerStats.push(stats)
+      const startTime = performance.now()
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const worker = new Worker(bootstrap, {
+            eval: true,
+            workerData: {
+              workerId,
+              tasks: chunk,
+              ...(this.config.model ? { model: this.config.model } : {})
+            } satisfies BenchmarkWorkerData
+          })
+          this.activeWorkers.add(worker)
+
+          // A game stuck in synchronous code never reaches its own deadline,
+          // so the worker is terminated when it overruns the time limit
+          let watchdog: ReturnType<typeof setTimeout> | undefined
+          const startWatchdog = (task: BenchmarkGameTask): void => {
+            const timeLimit = getTimeLimit(task)
+            if (timeLimit === undefined) return
+            const gameStart = performance.now()
+            watchdog = setTimeout(() => {
+              records.set(task.gameIndex, createTimeoutRecord(task, performance.now() - gameStart))
+              reject(new Error(`Benchmark worker ${workerId} did not finish game ${task.gameIndex} in time`))
+              void worker.terminate()
+            }, Math.max(0, timeLimit) + WORKER_TIMEOUT_GRACE)
+          }
+
+          worker.on('message', (message: BenchmarkWorkerMessage) => {
+            clearTimeout(watchdog)
+            if (message.type === 'start') {
+              startWatchdog(chunk.find(task => task.gameIndex === message.gameIndex)!)
+            } else if (message.type === 'result') {
+              records.set(message.record.gameIndex, message.record)
+              stats.gamesProcessed++
+              if (message.record.outcome === 'error') stats.errors++
+              if (records.size % PROGRESS_INTERVAL === 0) {
+                this.sample(memorySamples)
+                this.reportProgress(records.size, tasks.length)
+              }
+            } else {
+              resolve()
+            }
+          })
+          worker.on('error', reject)
+          worker.on('exit', code => {
+            clearTimeout(watchdog)
+            this.activeWorkers.delete(worker)
+            if (code !== 0) reject(new Error(`Benchmark worker ${workerId} exited with code ${code}`))
+            else resolve()
+          })
+        })
+      } catch (error) {
+        // Games the worker did not finish are played in the main thread instead
+        const remaining = chunk.filter(task => !records.has(task.gameIndex))
+        if (remaining.length > 0) {
+          fallbackToMainThread = true
+          stats.errors++
+          if (this.config.showProgress) {
+            console.warn(`⚠️ ${error instanceof Error ? error.message : String(error)}; ` +
+              `running ${remaining.length} games in the main thread`)
+          }
+          const fallbackRecords = await this.runInMainThread(remaining, memorySamples)
+          fallbackRecords.forEach(record => records.set(record.gameIndex, record))
+        }
+      }
+
+      stats.totalTime = performance.now() - startTime
+    }))
+
+    return {
+      records: tasks.map(task => records.get(task.gameIndex)!),
+      workerMetrics: {
+        threadsUsed: workerCount,
+        workerStats: workerStats.sort((a, b) => a.workerId - b.workerId),
+        fallbackToMainThread
+      }
+    }
+  }
+
+  /**
+   * Replay games that ended with an error, in place
+   */
+  private async retryFailedGames(
+    records: BenchmarkGameRecord[],
+    deadline: number | undefined
+  ): Promise<NonNullable<MassiveBenchmarkResult['retryMetrics']>> {
+    const maxRetries = this.config.maxRetries ?? 1
+    let totalRetries = 0
+    let successfulRetries = 0
+
+    for (let i = 0; i < records.length; i++) {
+      const task = this.toTask(records[i]!, deadline)
+      for (let attempt = 0; attempt < maxRetries && records[i]!.outcome === 'error'; attempt++) {
+        totalRetries++
+        records[i] = await runBenchmarkGame(task, this.config, this.config.model)
+        if (records[i]!.outcome !== 'error') successfulRetries++
+      }
+    }
+
+    return { totalRetries, successfulRetries }
+  }
+
+  private toTask(record: BenchmarkGameRecord, deadline: number | undefined): BenchmarkGameTask {
+    const [task] = this.createTasks(1, record.gameIndex, deadline)
+    return task!
+  }
+
+  private summarize(
+    records: BenchmarkGameRecord[],
+    totalDuration: number,
+    memorySamples: number[],
+    cpuTime: number
+  ): MassiveBenchmarkResult {
+    const count = (outcome: BenchmarkGameRecord['outcome']) =>
+      records.filter(record => record.outcome === outcome).length
+    const victories = count('victory')
+    const gameOvers = count('game_over')
+    const turnLimits = count('turn_limit')
+    const timeouts = count('timeout')
+    const errors = count('error')
+    const finished = records.filter(record => record.outcome !== 'error' && record.outcome !== 'timeout')
+
+    const totalChallenges = sum(finished, record => record.stats.totalChallenges)
+    const successfulChallenges = sum(finished, record => record.stats.successfulChallenges)
+    const memory = records.map(record => record.memoryUsed).concat(memorySamples)
+    const averageMemory = average(memory)
+    const peakMemory = max(memory)
+    const cpuUsage = totalDuration > 0 ? Math.min(100, (cpuTime / totalDuration) * 100) : 0
+
+    return {
+      totalGames: records.length,
+      successfulGames: finished.length,
+      failedGames: errors + timeouts,
+      timeoutGames: timeouts,
+      executionTime: totalDuration,
+      execution: {
+        completedGames: finished.length,
+        totalDuration,
+        gamesPerSecond: totalDuration > 0 ? (finished.length / totalDuration) * 1000 : 0,
+        averageGameTime: average(finished.map(record => record.duration)),
+        workerThreads: this.config.workerThreads ?? 0,
+        strategy: this.config.model?.name ?? this.config.strategy ?? 'Intermediate',
+        seed: this.config.seed!
+      },
+      statistics: {
+        outcomes: {
+          victories,
+          gameOvers,
+          turnLimits,
+          victoryRate: finished.length > 0 ? (victories / finished.length) * 100 : 0,
+          averageTurns: average(finished.map(record => record.turns)),
+          averageScore: average(finished.map(record => record.score))
+        },
+        challenges: {
+          total: totalChallenges,
+          successful: successfulChallenges,
+          failed: totalChallenges - successfulChallenges,
+          successRate: totalChallenges > 0 ? (successfulChallenges / totalChallenges) * 100 : 0
+        },
+        stages: summarizeStages(finished),
+        executionTime: distribution(finished.map(record => record.duration)),
+        memoryUsage: {
+          average: averageMemory,
+          peak: peakMemory
+        },
+        gameOutcomes: {
+          completed: finished.length,
+          failed: errors,
+          timeout: timeouts
+        }
+      },
+      systemUsage: {
+        memory: {
+          peakUsage: toMB(peakMemory),
+          averageUsage: toMB(averageMemory)
+        },
+        cpu: {
+          averageUsage: cpuUsage
+        }
+      },
+      performance: {
+        metrics: {
+          memoryUsage: { used: toMB(memorySamples[memorySamples.length - 1] ?? 0) },
+          cpuUsage
+        }
+      },
+      errorDetails: records
+        .filter(record => record.error !== undefined)
+        .map(record => ({ gameIndex: record.gameIndex, error: record.error!, timestamp: Date.now() }))
+    }
+  }
+
+  private sample(memorySamples: number[]): void {
+    if (this.config.enablePerformanceMonitoring) {
+      memorySamples.push(process.memoryUsage().heapUsed)
+    }
+  }
+
+  private reportProgress(completed: number, total: number): void {
+    if (this.config.showProgress) {
+      console.log(`  ${completed}/${total} games (${((completed / total) * 100).toFixed(0)}%)`)
+    }
+  }
+}
+
+/**
+ * Preset benchmarks used by the CLI (overrides e.g. play a trained model)
+ */
+export class MassiveBenchmarkFactory {
+  static createQuickBenchmark(overrides: Partial<MassiveBenchmarkConfig> = {}): MassiveBenchmark {
+    return new MassiveBenchmark({
+      totalGames: 1000,
+      workerThreads: 0,
+      enablePerformanceMonitoring: true,
+      showProgress: true,
+      includeGameRecords: true,
+      ...overrides
+    })
+  }
+
+  static createBalanceBenchmark(overrides: Partial<MassiveBenchmarkConfig> = {}): MassiveBenchmark {
+    return new MassiveBenchmark({
+      totalGames: 10000,
+      workerThreads: 2,
+      enablePerformanceMonitoring: true,
+      showProgress: true,
+      includeGameRecords: true,
+      ...overrides
+    })
+  }
+
+  static createResearchBenchmark(overrides: Partial<MassiveBenchmarkConfig> = {}): MassiveBenchmark {
+    return new MassiveBenchmark({
+      totalGames: 100000,
+      workerThreads: 4,
+      enablePerformanceMonitoring: true,
+      showProgress: true,
+      ...overrides
+    })
+  }
+
+  static createStressBenchmark(overrides: Partial<MassiveBenchmarkConfig> = {}): MassiveBenchmark {
+    return new MassiveBenchmark({
+      totalGames: 1000000,
+      workerThreads: 8,
+      enablePerformanceMonitoring: false,
+      showProgress: true,
+      ...overrides
+    })
+  }
+}
+
+function summarizeStages(records: BenchmarkGameRecord[]): Record<GameStage, StageStatistics> {
+  return Object.fromEntries(STAGES.map(stage => {
+    const reached = records.filter(record => record.stages.some(entry => entry.stage === stage))
+    const turns = reached.map(record => record.stages.find(entry => entry.stage === stage)!.turns)
+    return [stage, {
+      gamesReached: reached.length,
+      victories: reached.filter(record => record.outcome === 'victory' && record.finalStage === stage).length,
+      gameOvers: reached.filter(record => record.outcome === 'game_over' && record.finalStage === stage).length,
+      averageTurns: average(turns)
+    }]
+  })) as Record<GameStage, StageStatistics>
+}
+
+function distribution(values: number[]): DistributionStatistics {
+  const mean = average(values)
+  const variance = average(values.map(value => (value - mean) ** 2))
+  return {
+    count: values.length,
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    min: values.length > 0 ? values.reduce((a, b) => Math.min(a, b)) : 0,
+    max: max(values)
+  }
+}
+
+function sum<T>(items: T[], selector: (item: T) => number): number {
+  return items.reduce((total, item) => total + selector(item), 0)
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? sum(values, value => value) / values.length : 0
+}
+
+function max(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => Math.max(a, b)) : 0
+}
+
+function toMB(bytes: number): number {
+  return bytes / 1024 / 1024
+}
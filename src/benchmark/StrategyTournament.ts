@@ -0,0 +1,289 @@
+import type { BalanceConfig, GameConfig } from '../domain/types/game.types'
+import { GameConstantsAccessor } from '../domain/constants/GameConstants'
+import { SeededRandom } from '../common/SeededRandom'
+import { StatisticalTests } from '../analytics/StatisticalTests'
+import { BotRegistry } from '../ai/BotRegistry'
+import type { BenchmarkGameRecord } from './BenchmarkGameRunner'
+import { DEFAULT_GAME_CONFIG, MassiveBenchmark } from './MassiveBenchmark'
+
+/**
+ * Strategy tournament configuration
+ */
+export interface StrategyTournamentConfig {
+  strategies: string[] // bot names in BotRegistry (defaults to every registered bot)
+  gamesPerStrategy: number // every strategy plays the same seeded games
+  gameConfig?: GameConfig
+  balanceConfig?: BalanceConfig
+  seed?: number
+  workerThreads?: number
+  gameTimeout?: number
+  initialRating: number
+  kFactor: number // Elo K-factor: the largest rating change from one match
+  confidenceLevel: number
+  onStrategyComplete?: (standing: TournamentStanding, completed: number, total: number) => void
+}
+
+/**
+ * Leaderboard entry of one strategy
+ */
+export interface TournamentStanding {
+  rank: number
+  strategy: string
+  rating: number
+  games: number // games that reached victory, game over or the turn limit
+  victories: number
+  winRate: number
+  averageScore: number
+  averageTurns: number
+  matches: { wins: number, draws: number, losses: number } // head-to-head results on shared seeds
+}
+
+/**
+ * Paired comparison of two strategies on the seeds both finished
+ */
+export interface TournamentPairing {
+  first: string
+  second: string
+  games: number
+  firstWinRate: number
+  secondWinRate: number
+  difference: number // firstWinRate - secondWinRate
+  confidenceInterval: { lower: number, upper: number } // for the difference
+  pValue: number
+  significant: boolean
+  onlyFirstWon: number // seeds where only the first strategy won
+  onlySecondWon: number
+}
+
+/**
+ * Strategy tournament result
+ */
+export interface TournamentResult {
+  seed: number
+  gamesPerStrategy: number
+  kFactor: number
+  leaderboard: TournamentStanding[] // best rating first
+  pairings: TournamentPairing[]
+  totalGames: number
+  executionTime: number // ms
+}
+
+/**
+ * Plays every strategy over the same seeded games and ranks them.
+ *
+ * All strategies share the game seeds (common random numbers), so each seed
+ * is a head-to-head match: a victory beats a loss, otherwise the higher score wins.
+ * Ratings come from Elo updates over those matches in seed order, which keeps
+ * them reproducible from the seed. Win rates are compared pairwise with a paired
+ * t-test on the per-seed results, so a balance change that favours one play style
+ * shows up as a significant difference.
+ * Overrides set through GameConstantsAccessor are restored afterwards.
+ *
+ * @example
+ * const tournament = new StrategyTournament({ gamesPerStrategy: 200 })
+ * const result = await tournament.run()
+ * console.log(result.leaderboard[0]?.strategy)
+ */
+export class StrategyTournament {
+  private readonly config: StrategyTournamentConfig & { seed: number }
+  private readonly statistics: StatisticalTests
+
+  constructor(config: Partial<StrategyTournamentConfig> = {}) {
+    this.config = {
+      strategies: BotRegistry.getNames(),
+      gamesPerStrategy: 100,
+      initialRating: 1500,
+      kFactor: 16,
+      confidenceLevel: 0.95,
+      ...config,
+      seed: config.seed ?? SeededRandom.generateSeed()
+    }
+    validateConfig(this.config)
+    this.statistics = new StatisticalTests({ confidenceLevel: this.config.confidenceLevel })
+  }
+
+  /**
+   * Play all games and build the leaderboard
+   */
+  async run(): Promise<TournamentResult> {
+    const startTime = performance.now()
+    const previousOverrides = GameConstantsAccessor.getOverrides()
+    const { strategies } = this.config
+
+    try {
+      const records = new Map<string, Map<number, BenchmarkGameRecord>>()
+      for (const strategy of strategies) {
+        records.set(strategy, await this.playGames(strategy))
+        this.config.onStrategyComplete?.(this.standing(strategy, records.get(strategy)!), records.size, strategies.length)
+      }
+
+      const matches = new Map(strategies.map(strategy => [strategy, { wins: 0, draws: 0, losses: 0 }]))
+      const ratings = new Map(strategies.map(strategy => [strategy, this.config.initialRating]))
+      for (let gameIndex = 0; gameIndex < this.config.gamesPerStrategy; gameIndex++) {
+        forEachPair(strategies, (first, second) => {
+          const a = records.get(first)!.get(gameIndex)
+          const b = records.get(second)!.get(gameIndex)
+          if (!a || !b) return
+
+          const result = compareGames(a, b)
+          this.updateRatings(ratings, first, second, result)
+          const key = result === 1 ? 'wins' : result === 0 ? 'losses' : 'draws'
+          const opposite = result === 1 ? 'losses' : result === 0 ? 'wins' : 'draws'
+          matches.get(first)![key]++
+          matches.get(second)![opposite]++
+        })
+      }
+
+      const leaderboard = strategies
+        .map(strategy => ({
+          ...this.standing(strategy, records.get(strategy)!),
+          rating: Math.round(ratings.get(strategy)!),
+          matches: matches.get(strategy)!
+        }))
+        .sort((a, b) => b.rating - a.rating || b.winRate - a.winRate)
+        .map((standing, index) => ({ ...standing, rank: index + 1 }))
+
+      const pairings: TournamentPairing[] = []
+      forEachPair(strategies, (first, second) => {
+        const pairing = this.comparePair(first, records.get(first)!, second, records.get(second)!)
+        if (pairing) pairings.push(pairing)
+      })
+
+      return {
+        seed: this.config.seed,
+        gamesPerStrategy: this.config.gamesPerStrategy,
+        kFactor: this.config.kFactor,
+        leaderboard,
+        pairings,
+        totalGames: leaderboard.reduce((sum, standing) => sum + standing.games, 0),
+        executionTime: performance.now() - startTime
+      }
+    } finally {
+      GameConstantsAccessor.setOverrides(previousOverrides)
+    }
+  }
+
+  /**
+   * Finished games of one strategy by game index (timeouts and errors are left out)
+   */
+  private async playGames(strategy: string): Promise<Map<number, BenchmarkGameRecord>> {
+    const gameConfig = this.config.gameConfig ?? DEFAULT_GAME_CONFIG
+    const benchmark = new MassiveBenchmark({
+      totalGames: this.config.gamesPerStrategy,
+      strategy,
+      gameConfig: this.config.balanceConfig ? { ...gameConfig, balanceConfig: this.config.balanceConfig } : gameConfig,
+      seed: this.config.seed,
+      workerThreads: this.config.workerThreads ?? 0,
+      ...(this.config.gameTimeout !== undefined ? { gameTimeout: this.config.gameTimeout } : {}),
+      enablePerformanceMonitoring: false,
+      showProgress: false,
+      includeGameRecords: true
+    })
+    const { gameResults = [] } = await benchmark.execute()
+    const finished = gameResults.filter(record => record.outcome !== 'timeout' && record.outcome !== 'error')
+    if (finished.length === 0) {
+      throw new Error(`No ${strategy} games finished; check the game config and game timeout`)
+    }
+    return new Map(finished.map(record => [record.gameIndex, record]))
+  }
+
+  private standing(strategy: string, records: Map<number, BenchmarkGameRecord>): TournamentStanding {
+    const games = Array.from(records.values())
+    const victories = games.filter(record => record.outcome === 'victory').length
+    return {
+      rank: 0,
+      strategy,
+      rating: this.config.initialRating,
+      games: games.length,
+      victories,
+      winRate: victories / games.length,
+      averageScore: games.reduce((sum, record) => sum + record.score, 0) / games.length,
+      averageTurns: games.reduce((sum, record) => sum + record.turns, 0) / games.length,
+      matches: { wins: 0, draws: 0, losses: 0 }
+    }
+  }
+
+  /**
+   * @param result 1 when first won the match, 0 when second won, 0.5 for a draw
+   */
+  private updateRatings(ratings: Map<string, number>, first: string, second: string, result: number): void {
+    const a = ratings.get(first)!
+    const b = ratings.get(second)!
+    const expected = 1 / (1 + 10 ** ((b - a) / 400))
+    const change = this.config.kFactor * (result - expected)
+    ratings.set(first, a + change)
+    ratings.set(second, b - change)
+  }
+
+  private comparePair(
+    first: string,
+    firstRecords: Map<number, BenchmarkGameRecord>,
+    second: string,
+    secondRecords: Map<number, BenchmarkGameRecord>
+  ): TournamentPairing | undefined {
+    const firstWins: number[] = []
+    const secondWins: number[] = []
+    firstRecords.forEach((record, gameIndex) => {
+      const other = secondRecords.get(gameIndex)
+      if (!other) return
+      firstWins.push(record.outcome === 'victory' ? 1 : 0)
+      secondWins.push(other.outcome === 'victory' ? 1 : 0)
+    })
+    // The paired t-test needs at least two shared seeds
+    if (firstWins.length < 2) return undefined
+
+    const test = this.statistics.pairedTTest(secondWins, firstWins)
+    const firstWinRate = firstWins.reduce((sum, win) => sum + win, 0) / firstWins.length
+    const secondWinRate = secondWins.reduce((sum, win) => sum + win, 0) / secondWins.length
+    return {
+      first,
+      second,
+      games: firstWins.length,
+      firstWinRate,
+      secondWinRate,
+      difference: test.meanDifference,
+      confidenceInterval: test.confidenceInterval,
+      pValue: test.pValue,
+      significant: test.significant,
+      onlyFirstWon: firstWins.filter((win, i) => win > secondWins[i]!).length,
+      onlySecondWon: firstWins.filter((win, i) => win < secondWins[i]!).length
+    }
+  }
+}
+
+/**
+ * Head-to-head result of two games on the same seed: 1 = a won, 0 = b won, 0.5 = draw
+ */
+function compareGames(a: BenchmarkGameRecord, b: BenchmarkGameRecord): number {
+  const aWon = a.outcome === 'victory'
+  const bWon = b.outcome === 'victory'
+  if (aWon !== bWon) return aWon ? 1 : 0
+  if (a.score !== b.score) return a.score > b.score ? 1 : 0
+  return 0.5
+}
+
+function forEachPair(strategies: string[], visit: (first: string, second: string) => void): void {
+  strategies.forEach((first, i) => {
+    strategies.slice(i + 1).forEach(second => visit(first, second))
+  })
+}
+
+function validateConfig(config: StrategyTournamentConfig): void {
+  if (config.strategies.length < 2) {
+    throw new Error('A tournament needs at least two strategies')
+  }
+  if (new Set(config.strategies).size !== config.strategies.length) {
+    throw new Error(`Duplicate strategy in tournament: ${config.strategies.join(', ')}`)
+  }
+  config.strategies.forEach(strategy => {
+    if (!BotRegistry.has(strategy)) {
+      throw new Error(`Unknown strategy: ${strategy} (available: ${BotRegistry.getNames().join(', ')})`)
+    }
+  })
+  if (!Number.isInteger(config.gamesPerStrategy) || config.gamesPerStrategy < 2) {
+    throw new Error(`Invalid gamesPerStrategy: ${config.gamesPerStrategy}`)
+  }
+  if (!(config.kFactor > 0)) {
+    throw new Error(`Invalid kFactor: ${config.kFactor}`)
+  }
+}
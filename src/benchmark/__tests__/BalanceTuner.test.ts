@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { BalanceTuner, type BalanceParameter } from '../BalanceTuner'
+import { GameConstantsAccessor } from '../../domain/constants/GameConstants'
+
+describe('BalanceTuner', () => {
+  const parameters: BalanceParameter[] = [
+    { path: 'stageParameters.youth.maxVitality', min: 40, max: 80, step: 10 },
+    { path: 'challengeSettings.successBonusBase', min: 4, max: 12, step: 4 }
+  ]
+
+  afterEach(() => {
+    GameConstantsAccessor.clearOverrides()
+  })
+
+  it('builds nested configs on top of the base config', () => {
+    const tuner = new BalanceTuner({ parameters })
+
+    const config = tuner.buildConfig({
+      'stageParameters.youth.maxVitality': 70,
+      'progressionSettings.stageTransitionTurns.youthToMiddle': 5
+    }, { challengeSettings: { enableDynamicDifficulty: false } })
+
+    expect(config).toEqual({
+      stageParameters: { youth: { maxVitality: 70 } },
+      challengeSettings: { enableDynamicDifficulty: false },
+      // The other transition turn is kept at its built-in value
+      progressionSettings: { stageTransitionTurns: { youthToMiddle: 5, middleToFulfillment: 14 } }
+    })
+  })
+
+  it('rejects invalid targets and parameter ranges', () => {
+    expect(() => new BalanceTuner({ targets: { Beginner: 30 } })).toThrow('between 0 and 1')
+    expect(() => new BalanceTuner({ parameters: [{ path: 'vitalitySettings.defaultStarting', min: 50, max: 20, step: 5 }] }))
+      .toThrow('Invalid range for balance parameter vitalitySettings.defaultStarting')
+    expect(() => new BalanceTuner({ method: 'grid', parameters, gridPoints: 1 })).toThrow('Invalid gridPoints')
+    expect(() => new BalanceTuner({ method: 'annealing' as never })).toThrow('Unknown tuning method: annealing')
+  })
+
+  it('evaluates the baseline and every grid point against the targets', async () => {
+    GameConstantsAccessor.setOverrides({ cardLimits: { maxHandSize: 8 } })
+    const progress: number[] = []
+    const tuner = new BalanceTuner({
+      method: 'grid',
+      parameters,
+      gridPoints: 2,
+      targets: { Intermediate: 0.5 },
+      gamesPerCandidate: 3,
+      seed: 42,
+      onEvaluation: (_, completed, total) => progress.push(completed / total)
+    })
+
+    const result = await tuner.tune()
+
+    // Baseline + 2 x 2 grid
+    expect(result.evaluations).toHaveLength(5)
+    expect(progress.at(-1)).toBe(1)
+    expect(result.baseline.values).toEqual({
+      'stageParameters.youth.maxVitality': 60,
+      'challengeSettings.successBonusBase': 8
+    })
+    expect(result.evaluations.slice(1).map(evaluation => evaluation.values['stageParameters.youth.maxVitality']))
+      .toEqual([40, 80, 40, 80])
+    // Candidates are built on the overrides that were active, which are restored afterwards
+    expect(result.evaluations[1]!.config.cardLimits).toEqual({ maxHandSize: 8 })
+    expect(GameConstantsAccessor.getOverrides()).toEqual({ cardLimits: { maxHandSize: 8 } })
+
+    const [persona] = result.best.personas
+    expect(persona!.games).toBe(3)
+    expect(result.best.score).toBeCloseTo(Math.abs(persona!.winRate - 0.5), 10)
+    expect(result.best.score).toBeLessThanOrEqual(result.baseline.score)
+    expect(result.totalGames).toBe(15)
+  })
+
+  it('finds the same configs again from the same seed', async () => {
+    const run = () => new BalanceTuner({
+      method: 'evolutionary',
+      parameters,
+      targets: { Random: 0.5 },
+      gamesPerCandidate: 2,
+      iterations: 4,
+      populationSize: 2,
+      seed: 7
+    }).tune()
+
+    const first = await run()
+    const second = await run()
+
+    expect(second.evaluations.map(evaluation => evaluation.values))
+      .toEqual(first.evaluations.map(evaluation => evaluation.values))
+    expect(second.bestConfig).toEqual(first.bestConfig)
+  })
+})
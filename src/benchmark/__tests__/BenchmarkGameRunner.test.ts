@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { runBenchmarkGame, type BenchmarkGameTask } from '../BenchmarkGameRunner'
+import { MassiveBenchmark } from '../MassiveBenchmark'
+import { BotGameRenderer } from '../../ai/BotGameRenderer'
+import type { GameConfig } from '../../domain/types/game.types'
+
+describe('Benchmark game runner', () => {
+  const gameConfig: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 15,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 2
+  }
+
+  const createTask = (overrides: Partial<BenchmarkGameTask> = {}): BenchmarkGameTask => ({
+    gameIndex: 0,
+    seed: 2024,
+    strategy: 'Intermediate',
+    gameConfig,
+    timeout: 0,
+    ...overrides
+  })
+
+  it('plays a game to the end and records the turns spent in each stage', async () => {
+    const record = await runBenchmarkGame(createTask())
+
+    expect(['victory', 'game_over']).toContain(record.outcome)
+    expect(record.turns).toBeGreaterThan(0)
+    expect(record.stages[0]?.stage).toBe('youth')
+    expect(record.stages.reduce((total, stage) => total + stage.turns, 0)).toBe(record.turns)
+  })
+
+  it('gives the same result for the same seed', async () => {
+    const first = await runBenchmarkGame(createTask({ strategy: 'Random' }))
+    const second = await runBenchmarkGame(createTask({ strategy: 'Random' }))
+
+    expect(second.outcome).toBe(first.outcome)
+    expect(second.turns).toBe(first.turns)
+    expect(second.stats).toEqual(first.stats)
+  })
+
+  it('stops at the configured turn limit', async () => {
+    const record = await runBenchmarkGame(createTask({ gameConfig: { ...gameConfig, maxTurns: 2 } }))
+
+    expect(record.outcome).toBe('turn_limit')
+    expect(record.turns).toBe(2)
+  })
+
+  it('times out a game that waits for an answer that never comes', async () => {
+    const record = await runBenchmarkGame(createTask({ timeout: 50 }), {
+      createRenderer: bot => Object.assign(new BotGameRenderer(bot), {
+        askChallengeSelection: () => new Promise<never>(() => {})
+      })
+    })
+
+    expect(record.outcome).toBe('timeout')
+    expect(record.duration).toBeGreaterThanOrEqual(45)
+  })
+
+  it('does not start games once the run deadline has passed', async () => {
+    const record = await runBenchmarkGame(createTask({ deadline: Date.now() - 1 }))
+
+    expect(record.outcome).toBe('timeout')
+    expect(record.turns).toBe(0)
+  })
+
+  it('reports invalid settings as errors instead of throwing', async () => {
+    const invalidConfig = await runBenchmarkGame(createTask({ gameConfig: { ...gameConfig, maxTurns: -1 } }))
+    const unknownStrategy = await runBenchmarkGame(createTask({ strategy: 'Unknown' }))
+
+    expect(invalidConfig.outcome).toBe('error')
+    expect(unknownStrategy.error).toContain('Unknown benchmark strategy')
+  })
+})
+
+describe('MassiveBenchmark', () => {
+  it('aggregates outcomes and per-stage statistics', async () => {
+    const benchmark = new MassiveBenchmark({ totalGames: 6, workerThreads: 0, concurrency: 2, seed: 7 })
+    const results = await benchmark.execute()
+    const { outcomes } = results.statistics
+
+    expect(results.totalGames).toBe(6)
+    expect(results.successfulGames + results.failedGames).toBe(6)
+    expect(outcomes.victories + outcomes.gameOvers + outcomes.turnLimits).toBe(results.execution.completedGames)
+    expect(outcomes.victoryRate).toBeGreaterThanOrEqual(0)
+    expect(outcomes.victoryRate).toBeLessThanOrEqual(100)
+    expect(outcomes.averageTurns).toBeGreaterThan(0)
+    expect(results.statistics.stages.youth.gamesReached).toBe(results.execution.completedGames)
+  })
+
+  it('derives the same games from the same seed', async () => {
+    const run = () => new MassiveBenchmark({ totalGames: 3, seed: 99, includeGameRecords: true }).execute()
+    const [first, second] = [await run(), await run()]
+
+    expect(second.gameResults!.map(game => game.seed)).toEqual(first.gameResults!.map(game => game.seed))
+    expect(second.statistics.outcomes).toEqual(first.statistics.outcomes)
+  })
+
+  it('reports failed games with their index', async () => {
+    const results = await new MassiveBenchmark().runBenchmark({
+      gameCount: 3,
+      gameConfig: { difficulty: 'normal', startingVitality: 15, startingHandSize: 5, maxHandSize: 7, dreamCardCount: 2, maxTurns: -1 }
+    })
+
+    expect(results.failedGames).toBe(3)
+    expect(results.errorDetails.map(detail => detail.gameIndex)).toEqual([0, 1, 2])
+  })
+})
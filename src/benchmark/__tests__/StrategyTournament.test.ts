@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { StrategyTournament } from '../StrategyTournament'
+import { BotRegistry } from '../../ai/BotRegistry'
+import type { GameConfig } from '../../domain/types/game.types'
+
+describe('StrategyTournament', () => {
+  const strategies = ['Beginner', 'Advanced', 'Random']
+
+  it('ranks every strategy on the same seeded games', async () => {
+    const result = await new StrategyTournament({ strategies, gamesPerStrategy: 6, seed: 11 }).run()
+
+    expect(result.leaderboard.map(standing => standing.rank)).toEqual([1, 2, 3])
+    expect(result.leaderboard.map(standing => standing.strategy).sort()).toEqual([...strategies].sort())
+    expect(result.leaderboard[0]!.rating).toBeGreaterThanOrEqual(result.leaderboard[2]!.rating)
+    // Elo is zero-sum, so the ratings stay centred on the initial rating (up to rounding)
+    const total = result.leaderboard.reduce((sum, standing) => sum + standing.rating, 0)
+    expect(Math.abs(total - 1500 * strategies.length)).toBeLessThanOrEqual(2)
+
+    // Every match is counted once for each side
+    const matches = result.leaderboard.map(standing => standing.matches)
+    expect(matches.reduce((sum, m) => sum + m.wins, 0)).toBe(matches.reduce((sum, m) => sum + m.losses, 0))
+    expect(result.pairings).toHaveLength(3)
+    result.pairings.forEach(pairing => {
+      expect(pairing.difference).toBeCloseTo(pairing.firstWinRate - pairing.secondWinRate)
+      expect(pairing.onlyFirstWon - pairing.onlySecondWon).toBe(Math.round(pairing.difference * pairing.games))
+    })
+  })
+
+  it('gives the same leaderboard for the same seed', async () => {
+    const run = () => new StrategyTournament({ strategies: ['Beginner', 'Greedy'], gamesPerStrategy: 4, seed: 5 }).run()
+    const [first, second] = [await run(), await run()]
+
+    expect(second.leaderboard).toEqual(first.leaderboard)
+    expect(second.pairings).toEqual(first.pairings)
+  })
+
+  it('gives the same leaderboard for the same seed over every registered bot', async () => {
+    const gameConfig: GameConfig = {
+      difficulty: 'normal',
+      startingVitality: 15,
+      startingHandSize: 5,
+      maxHandSize: 7,
+      dreamCardCount: 2
+    }
+    // No strategies given: the default is every bot in BotRegistry, including the demo bots
+    const run = () => new StrategyTournament({ gamesPerStrategy: 6, seed: 9, gameConfig }).run()
+    const [first, second] = [await run(), await run()]
+
+    expect(first.leaderboard.map(standing => standing.strategy).sort()).toEqual(BotRegistry.getNames().sort())
+    expect(second.leaderboard).toEqual(first.leaderboard)
+    expect(second.pairings).toEqual(first.pairings)
+  }, 60000) // plays every bot, MCTS included, twice
+
+  it('rejects unknown or too few strategies', () => {
+    expect(() => new StrategyTournament({ strategies: ['Beginner'] })).toThrow('at least two strategies')
+    expect(() => new StrategyTournament({ strategies: ['Beginner', 'Nobody'] })).toThrow('Unknown strategy: Nobody')
+    expect(() => new StrategyTournament({ strategies, gamesPerStrategy: 1 })).toThrow('Invalid gamesPerStrategy')
+  })
+})
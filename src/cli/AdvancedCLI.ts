@@ -15,9 +15,13 @@ import { cpus } from 'os'
 // Import optimization and research systems
 import { GamePerformanceAnalyzer, PerformanceAnalyzerFactory } from '@/performance/GamePerformanceAnalyzer'
 import { MassiveBenchmark, MassiveBenchmarkFactory } from '@/benchmark/MassiveBenchmark'
+import { BalanceTuner, DEFAULT_TUNING_PARAMETERS } from '@/benchmark/BalanceTuner'
+import { StrategyTournament } from '@/benchmark/StrategyTournament'
 import { GameAnalytics, GameAnalyticsFactory } from '@/analytics/GameAnalytics'
 import { OptimizationSuite } from '@/optimization'
 import { AdvancedAIManager } from '@/ai/AdvancedStrategies'
+import { TrainedModels, TRAINABLE_STRATEGIES } from '@/ai/TrainedModels'
+import { ModelTrainer } from '@/ai/ModelTrainer'
 import { ExperimentFramework } from '@/research/ExperimentFramework'
 import { MemoryProfiler, MemoryProfilerFactory } from '@/performance/MemoryProfiler'
 import { RealTimeMonitor, RealTimeMonitorFactory } from '@/performance/RealTimeMonitor'
@@ -31,6 +35,10 @@ import type { GameConfig } from '@/domain/types/game.types'
 
 const program = new Command()
 
+// Benchmark overrides that play a trained model file instead of the default bot
+const loadModelOverrides = async (path?: string) =>
+  path ? { model: TrainedModels.parse(await readFile(path, 'utf8')) } : {}
+
 // Enhanced CLI Configuration
 program
   .name('life-game-advanced')
@@ -299,6 +307,30 @@ analyticsCommand
       if (data.gameResults && Array.isArray(data.gameResults)) {
         console.log(chalk.white('\n📊 Statistical Test Results:'))
         
+        // Win rate with confidence interval
+        const analytics = new GameAnalytics({ confidenceLevel: parseFloat(options.confidence) })
+        const games = GameAnalytics.loadResults(data)
+        if (games.length > 0) {
+          const winRate = analytics.analyzeWinRate(games)
+          console.log(`\nWin Rate: ${(winRate.winRate * 100).toFixed(1)}% ` +
+            `(${(winRate.confidenceLevel * 100).toFixed(0)}% CI ${(winRate.confidenceInterval.lower * 100).toFixed(1)}%` +
+            `-${(winRate.confidenceInterval.upper * 100).toFixed(1)}%, n=${winRate.games})`)
+        }
+        
+        // Strategy comparison
+        const strategyCount = new Set(games.map(game => game.strategy)).size
+        if (strategyCount > 1) {
+          const comparison = analytics.compareStrategies(games)
+          console.log(`\nStrategy Comparison:`)
+          comparison.groups.forEach(group => {
+            console.log(`  ${group.name.padEnd(15)} ${(group.winRate * 100).toFixed(1)}% win rate, ${group.averageTurns.toFixed(1)} turns (n=${group.games})`)
+          })
+          if (comparison.winRateTest) {
+            console.log(`  Chi-square: χ² = ${comparison.winRateTest.chiSquare.toFixed(2)}, p = ${comparison.winRateTest.pValue.toFixed(4)}` +
+              (comparison.significant ? chalk.yellow(' (win rates differ significantly)') : ' (no significant difference)'))
+          }
+        }
+        
         // Descriptive statistics
         const winRates = data.gameResults.map(g => g.outcome === 'victory' ? 1 : 0)
         const turns = data.gameResults.map(g => g.stats.turnsPlayed)
@@ -360,36 +392,19 @@ analyticsCommand
       const dataContent = await readFile(options.file, 'utf8')
       const data = JSON.parse(dataContent)
       
-      const statisticalTests = new StatisticalTests()
+      const analytics = new GameAnalytics()
       
       if (data.gameResults && Array.isArray(data.gameResults)) {
-        const variables = options.variables ? options.variables.split(',') : 
-          ['turnsPlayed', 'cardsAcquired', 'successfulChallenges', 'highestVitality']
-        
-        // Prepare data for correlation analysis
-        const correlationData: Record<string, number[]> = {}
-        
-        variables.forEach(variable => {
-          correlationData[variable] = data.gameResults.map(game => {
-            switch (variable) {
-              case 'turnsPlayed': return game.stats.turnsPlayed
-              case 'cardsAcquired': return game.stats.cardsAcquired
-              case 'successfulChallenges': return game.stats.successfulChallenges
-              case 'highestVitality': return game.stats.highestVitality
-              case 'winRate': return game.outcome === 'victory' ? 1 : 0
-              default: return 0
-            }
-          })
-        })
-        
-        const correlationMatrix = statisticalTests.correlationMatrix(correlationData)
+        // Defaults to insurance count, final vitality, turns survived, score and victory
+        const variables = options.variables ? options.variables.split(',') : undefined
+        const correlationMatrix = analytics.analyzeCorrelations(GameAnalytics.loadResults(data), variables)
         
         console.log(chalk.white('\n🔗 Correlation Matrix:'))
         console.log('Variables:', correlationMatrix.variables.join(', '))
         
         correlationMatrix.matrix.forEach((row, i) => {
           const rowStr = row.map(val => val.toFixed(3).padStart(7)).join(' ')
-          console.log(`${correlationMatrix.variables[i].padEnd(15)}: ${rowStr}`)
+          console.log(`${(correlationMatrix.variables[i] ?? '').padEnd(15)}: ${rowStr}`)
         })
         
         if (correlationMatrix.significantPairs.length > 0) {
@@ -405,6 +420,42 @@ analyticsCommand
     }
   })
 
+analyticsCommand
+  .command('compare')
+  .description('Test whether two benchmark runs (e.g. balance configs) differ significantly')
+  .requiredOption('-b, --baseline <path>', 'Benchmark results JSON before the change')
+  .requiredOption('-c, --candidate <path>', 'Benchmark results JSON after the change')
+  .option('--confidence <level>', 'Confidence level (0.90, 0.95, 0.99)', '0.95')
+  .action(async (options) => {
+    console.log(chalk.cyan('⚖️ Comparing benchmark runs...'))
+    
+    try {
+      const baseline = GameAnalytics.loadResults(await readFile(options.baseline, 'utf8'))
+      const candidate = GameAnalytics.loadResults(await readFile(options.candidate, 'utf8'))
+      const analytics = new GameAnalytics({ confidenceLevel: parseFloat(options.confidence) })
+      const comparison = analytics.compareConfigs(baseline, candidate)
+      const [pair] = comparison.pairwise
+      
+      console.log(chalk.white('\n📊 Results:'))
+      comparison.groups.forEach(group => {
+        console.log(`  ${group.name.padEnd(10)} win rate ${(group.winRate * 100).toFixed(1)}% ` +
+          `(CI ${(group.confidenceInterval.lower * 100).toFixed(1)}%-${(group.confidenceInterval.upper * 100).toFixed(1)}%), ` +
+          `${group.averageTurns.toFixed(1)} turns, score ${group.averageScore.toFixed(0)} (n=${group.games})`)
+      })
+      
+      if (pair) {
+        const verdict = (significant: boolean) => significant ? chalk.yellow('significant') : 'not significant'
+        console.log(chalk.white('\n🔬 Significance:'))
+        console.log(`  Win rate: ${(-pair.winRate.difference * 100).toFixed(1)} pts, p = ${pair.winRate.pValue.toFixed(4)} (${verdict(pair.winRate.significant)})`)
+        console.log(`  Turns:    ${(-pair.turns.meanDifference).toFixed(2)}, p = ${pair.turns.pValue.toFixed(4)} (${verdict(pair.turns.significant)})`)
+        console.log(`  Score:    ${(-pair.score.meanDifference).toFixed(1)}, p = ${pair.score.pValue.toFixed(4)} (${verdict(pair.score.significant)})`)
+      }
+      
+    } catch (error) {
+      console.error(chalk.red(`❌ Comparison failed: ${error}`))
+    }
+  })
+
 // === Optimization Commands ===
 const optimizationCommand = program
   .command('optimize')
@@ -412,83 +463,89 @@ const optimizationCommand = program
 
 optimizationCommand
   .command('auto-tune')
-  .description('Automatically tune performance parameters')
-  .option('--baseline-games <count>', 'Games to run for baseline', '100')
-  .option('--test-games <count>', 'Games to run for each test', '50')
+  .description('Search BalanceConfig values that bring each persona to its target win rate')
+  .option('-m, --method <method>', 'Search method (random, grid, evolutionary)', 'random')
+  .option('-g, --games <count>', 'Games per persona for each candidate', '100')
+  .option('-i, --iterations <count>', 'Candidates to evaluate (random, evolutionary)', '20')
+  .option('--grid-points <count>', 'Values per parameter (grid)', '3')
+  .option('--population <size>', 'Population size (evolutionary)', '8')
+  .option('-t, --targets <list>', 'Target win rates', 'Beginner=0.3,Intermediate=0.55,Advanced=0.8')
+  .option('-p, --parameters <paths>', 'Comma-separated parameter paths or path=min:max:step ranges (default: built-in space)')
+  .option('-c, --config <path>', 'Balance config JSON to start from')
+  .option('-s, --seed <seed>', 'Seed for reproducible tuning')
+  .option('-w, --workers <count>', 'Worker threads per benchmark', '0')
+  .option('-o, --output <file>', 'Output file for the best balance config', 'balance-config.tuned.json')
+  .option('--report <file>', 'Output file for the full tuning report')
   .action(async (options) => {
-    console.log(chalk.cyan('🎯 Starting automatic performance tuning...'))
-    
-    const suite = OptimizationSuite.getInstance()
-    const baselineGames = parseInt(options.baselineGames)
-    const testGames = parseInt(options.testGames)
-    
-    console.log(chalk.blue('📊 Running baseline performance test...'))
-    
-    // Get baseline performance
-    const baselineBenchmark = new MassiveBenchmark({
-      totalGames: baselineGames,
-      enablePerformanceMonitoring: true,
-      showProgress: true
-    })
-    
-    const baseline = await baselineBenchmark.execute()
-    const baselineSpeed = baseline.execution.gamesPerSecond
-    const baselineMemory = baseline.performance.metrics.memoryUsage.used
+    console.log(chalk.cyan('🎯 Starting automatic balance tuning...'))
     
-    console.log(chalk.white(`Baseline: ${baselineSpeed.toFixed(2)} games/s, ${baselineMemory.toFixed(1)}MB`))
-    
-    // Test different optimization settings
-    const optimizations = [
-      { name: 'Object Pooling', action: () => suite.enableMonitoring() },
-      { name: 'Cache Warming', action: () => suite.warmUp() },
-      { name: 'Full Optimization', action: () => suite.optimizeAll() }
-    ]
-    
-    const results = []
-    
-    for (const opt of optimizations) {
-      console.log(chalk.blue(`🔧 Testing: ${opt.name}...`))
-      
-      // Apply optimization
-      await opt.action()
+    try {
+      const targets = Object.fromEntries(options.targets.split(',').map((entry: string) => {
+        const [persona, target] = entry.split('=')
+        return [persona!.trim(), parseFloat(target ?? '')]
+      }))
+      const parameters = options.parameters
+        ? options.parameters.split(',').map((entry: string) => {
+          // Either a default parameter path or a custom range: path=min:max:step
+          const [path, range] = entry.trim().split('=')
+          if (range) {
+            const [min, max, step] = range.split(':').map(parseFloat)
+            return { path: path!, min: min!, max: max!, step: step ?? 1 }
+          }
+          const parameter = DEFAULT_TUNING_PARAMETERS.find(candidate => candidate.path === path)
+          if (!parameter) {
+            throw new Error(`Unknown parameter: ${path} (available: ${DEFAULT_TUNING_PARAMETERS.map(p => p.path).join(', ')})`)
+          }
+          return parameter
+        })
+        : DEFAULT_TUNING_PARAMETERS
       
-      // Test performance
-      const testBenchmark = new MassiveBenchmark({
-        totalGames: testGames,
-        enablePerformanceMonitoring: true,
-        showProgress: false
+      const tuner = new BalanceTuner({
+        method: options.method,
+        targets,
+        parameters,
+        gamesPerCandidate: parseInt(options.games),
+        iterations: parseInt(options.iterations),
+        gridPoints: parseInt(options.gridPoints),
+        populationSize: parseInt(options.population),
+        workerThreads: parseInt(options.workers),
+        ...(options.config ? { baseConfig: JSON.parse(await readFile(options.config, 'utf8')) } : {}),
+        ...(options.seed ? { seed: parseInt(options.seed) } : {}),
+        onEvaluation: (evaluation, completed, total) => {
+          const rates = evaluation.personas.map(p => `${p.persona} ${(p.winRate * 100).toFixed(0)}%`).join(', ')
+          console.log(chalk.gray(`  [${completed}/${total}] score ${evaluation.score.toFixed(3)} (${rates})`))
+        }
       })
       
-      const testResult = await testBenchmark.execute()
-      const testSpeed = testResult.execution.gamesPerSecond
-      const testMemory = testResult.performance.metrics.memoryUsage.used
+      const result = await tuner.tune()
       
-      const speedImprovement = ((testSpeed - baselineSpeed) / baselineSpeed) * 100
-      const memoryChange = testMemory - baselineMemory
+      console.log(chalk.green(`\n✅ Tuning completed: ${result.evaluations.length} candidates, ${result.totalGames} games in ${(result.executionTime / 1000).toFixed(1)}s (seed ${result.seed})`))
+      console.log(chalk.white('🏆 Best candidate:'))
+      Object.entries(result.best.values).forEach(([path, value]) => {
+        const baseline = result.baseline.values[path]
+        console.log(`  ${path.padEnd(58)} ${String(baseline).padStart(6)} → ${value}`)
+      })
       
-      results.push({
-        name: opt.name,
-        speed: testSpeed,
-        speedImprovement,
-        memory: testMemory,
-        memoryChange
+      console.log(chalk.white('\n📊 Win rates (baseline → best):'))
+      result.best.personas.forEach((persona, i) => {
+        const baseline = result.baseline.personas[i]!
+        console.log(`  ${persona.persona.padEnd(14)} ${(baseline.winRate * 100).toFixed(1)}% → ${(persona.winRate * 100).toFixed(1)}% ` +
+          `(CI ${(persona.confidenceInterval.lower * 100).toFixed(1)}%-${(persona.confidenceInterval.upper * 100).toFixed(1)}%, ` +
+          `target ${(persona.target * 100).toFixed(0)}%)`)
       })
+      console.log(`  Score: ${result.baseline.score.toFixed(3)} → ${result.best.score.toFixed(3)}`)
+      
+      await writeFile(options.output, JSON.stringify(result.bestConfig, null, 2))
+      console.log(chalk.blue(`💾 Best balance config saved to ${options.output}`))
+      
+      if (options.report) {
+        await writeFile(options.report, JSON.stringify(result, null, 2))
+        console.log(chalk.blue(`📄 Tuning report saved to ${options.report}`))
+      }
       
-      console.log(chalk.green(`  ${opt.name}: ${speedImprovement >= 0 ? '+' : ''}${speedImprovement.toFixed(1)}% speed, ${memoryChange >= 0 ? '+' : ''}${memoryChange.toFixed(1)}MB memory`))
+    } catch (error) {
+      console.error(chalk.red(`❌ Auto-tuning failed: ${error}`))
     }
-    
-    console.log(chalk.green('\n✅ Auto-tuning completed'))
-    console.log(chalk.white('🏆 Best Results:'))
-    
-    const bestSpeed = results.reduce((best, current) => 
-      current.speedImprovement > best.speedImprovement ? current : best
-    )
-    console.log(`  Fastest: ${bestSpeed.name} (+${bestSpeed.speedImprovement.toFixed(1)}% speed)`)
-    
-    const bestMemory = results.reduce((best, current) => 
-      current.memoryChange < best.memoryChange ? current : best
-    )
-    console.log(`  Most Memory Efficient: ${bestMemory.name} (${bestMemory.memoryChange >= 0 ? '+' : ''}${bestMemory.memoryChange.toFixed(1)}MB)`)
   })
 
 optimizationCommand
@@ -562,8 +619,9 @@ benchmarkCommand
   .command('quick')
   .description('Quick benchmark (1K games)')
   .option('-o, --output <dir>', 'Output directory', './benchmark-results')
+  .option('-m, --model <path>', 'Trained model file to play instead of the default bot')
   .action(async (options) => {
-    const benchmark = MassiveBenchmarkFactory.createQuickBenchmark()
+    const benchmark = MassiveBenchmarkFactory.createQuickBenchmark(await loadModelOverrides(options.model))
     console.log(chalk.cyan('⚡ Running quick massive benchmark...'))
     
     const results = await benchmark.execute()
@@ -583,8 +641,9 @@ benchmarkCommand
   .command('balance')
   .description('Balance testing benchmark (10K games)')
   .option('-o, --output <dir>', 'Output directory', './benchmark-results')
+  .option('-m, --model <path>', 'Trained model file to play instead of the default bot')
   .action(async (options) => {
-    const benchmark = MassiveBenchmarkFactory.createBalanceBenchmark()
+    const benchmark = MassiveBenchmarkFactory.createBalanceBenchmark(await loadModelOverrides(options.model))
     console.log(chalk.cyan('⚖️ Running balance testing benchmark...'))
     
     const results = await benchmark.execute()
@@ -604,13 +663,14 @@ benchmarkCommand
   .command('research')
   .description('Research benchmark (100K games)')
   .option('-o, --output <dir>', 'Output directory', './benchmark-results')
+  .option('-m, --model <path>', 'Trained model file to play instead of the default bot')
   .option('--phases', 'Run in phases to prevent memory issues')
   .action(async (options) => {
     console.log(chalk.cyan('🔬 Running research-grade benchmark...'))
     
     if (options.phases) {
       // Run in phases
-      const benchmark = MassiveBenchmarkFactory.createResearchBenchmark()
+      const benchmark = MassiveBenchmarkFactory.createResearchBenchmark(await loadModelOverrides(options.model))
       const phases = [20000, 20000, 20000, 20000, 20000] // 5 phases of 20K each
       
       const results = await benchmark.executeInPhases(phases)
@@ -625,7 +685,7 @@ benchmarkCommand
       await writeFile(filename, JSON.stringify(results, null, 2))
       console.log(chalk.blue(`📄 Results saved to: ${filename}`))
     } else {
-      const benchmark = MassiveBenchmarkFactory.createResearchBenchmark()
+      const benchmark = MassiveBenchmarkFactory.createResearchBenchmark(await loadModelOverrides(options.model))
       const results = await benchmark.execute()
       
       console.log(chalk.green('✅ Research benchmark completed'))
@@ -642,6 +702,7 @@ benchmarkCommand
   .command('stress')
   .description('Stress test benchmark (1M games)')
   .option('-o, --output <dir>', 'Output directory', './benchmark-results')
+  .option('-m, --model <path>', 'Trained model file to play instead of the default bot')
   .action(async (options) => {
     console.log(chalk.red('💪 Running stress test benchmark...'))
     console.log(chalk.yellow('⚠️ This will take several hours and use significant system resources'))
@@ -658,7 +719,7 @@ benchmarkCommand
       return
     }
     
-    const benchmark = MassiveBenchmarkFactory.createStressBenchmark()
+    const benchmark = MassiveBenchmarkFactory.createStressBenchmark(await loadModelOverrides(options.model))
     const results = await benchmark.execute()
     
     console.log(chalk.green('✅ Stress test completed'))
@@ -774,33 +835,117 @@ const aiCommand = program
 
 aiCommand
   .command('tournament')
-  .description('Run AI strategy tournament')
+  .description('Play every strategy on the same seeded games and rank them by Elo rating')
   .option('-g, --games <count>', 'Games per strategy', '100')
-  .option('-o, --output <file>', 'Output tournament results')
+  .option('-s, --strategies <names>', 'Comma-separated bot names (default: every registered bot)')
+  .option('-c, --config <path>', 'Balance config JSON to play with')
+  .option('--seed <seed>', 'Seed for reproducible games')
+  .option('-k, --k-factor <value>', 'Elo K-factor', '16')
+  .option('-w, --workers <count>', 'Worker threads per strategy', '0')
+  .option('-o, --output <file>', 'Output file for the leaderboard report', 'tournament-leaderboard.json')
   .action(async (options) => {
     console.log(chalk.cyan('🏆 Starting AI strategy tournament...'))
     
-    const aiManager = new AdvancedAIManager()
-    const gamesPerStrategy = parseInt(options.games)
-    
-    const results = await aiManager.runStrategyTournament(gamesPerStrategy)
-    
-    console.log(chalk.green('✅ Tournament completed'))
-    console.log(chalk.white('🏆 Results:'))
-    console.log(`Winner: ${results.winner}`)
-    console.log(`Total Games: ${results.summary.totalGames.toLocaleString()}`)
-    console.log(`Best Performance: ${results.summary.bestPerformance.toFixed(3)}`)
-    
-    console.log(chalk.blue('\n📊 Strategy Rankings:'))
-    results.strategies.forEach((strategy, index) => {
-      const rank = index + 1
-      const medal = rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : '  '
-      console.log(`${medal} ${rank}. ${strategy.name}: ${strategy.overallScore.toFixed(3)} (${strategy.performance.winRate.toFixed(1)}% win rate)`)
-    })
-    
-    if (options.output) {
-      await writeFile(options.output, JSON.stringify(results, null, 2))
-      console.log(chalk.blue(`📄 Full results saved to: ${options.output}`))
+    try {
+      const tournament = new StrategyTournament({
+        gamesPerStrategy: parseInt(options.games),
+        kFactor: parseFloat(options.kFactor),
+        workerThreads: parseInt(options.workers),
+        ...(options.strategies ? { strategies: options.strategies.split(',').map((name: string) => name.trim()) } : {}),
+        ...(options.config ? { balanceConfig: JSON.parse(await readFile(options.config, 'utf8')) } : {}),
+        ...(options.seed ? { seed: parseInt(options.seed) } : {}),
+        onStrategyComplete: (standing, completed, total) => {
+          console.log(chalk.gray(`  [${completed}/${total}] ${standing.strategy}: ${(standing.winRate * 100).toFixed(1)}% win rate`))
+        }
+      })
+      
+      const result = await tournament.run()
+      
+      console.log(chalk.green(`\n✅ Tournament completed: ${result.totalGames.toLocaleString()} games in ${(result.executionTime / 1000).toFixed(1)}s (seed ${result.seed})`))
+      console.log(chalk.white('\n📊 Leaderboard:'))
+      console.log(chalk.gray('─'.repeat(84)))
+      console.log('Rank'.padEnd(6) + 'Strategy'.padEnd(20) + 'Elo'.padStart(6) + 'Win rate'.padStart(10) +
+        'W-D-L'.padStart(16) + 'Score'.padStart(10) + 'Turns'.padStart(8) + 'Games'.padStart(8))
+      console.log(chalk.gray('─'.repeat(84)))
+      result.leaderboard.forEach(standing => {
+        const medal = standing.rank === 1 ? '🥇' : standing.rank === 2 ? '🥈' : standing.rank === 3 ? '🥉' : '  '
+        const { wins, draws, losses } = standing.matches
+        console.log(
+          `${medal}${String(standing.rank).padStart(2)}  ` +
+          standing.strategy.padEnd(20) +
+          String(standing.rating).padStart(6) +
+          `${(standing.winRate * 100).toFixed(1)}%`.padStart(10) +
+          `${wins}-${draws}-${losses}`.padStart(16) +
+          standing.averageScore.toFixed(0).padStart(10) +
+          standing.averageTurns.toFixed(1).padStart(8) +
+          String(standing.games).padStart(8)
+        )
+      })
+      
+      const significant = result.pairings.filter(pairing => pairing.significant)
+      console.log(chalk.white(`\n🔬 Significant win rate differences (${significant.length} of ${result.pairings.length} pairs):`))
+      significant
+        .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+        .forEach(pairing => {
+          const [better, worse] = pairing.difference > 0 ? [pairing.first, pairing.second] : [pairing.second, pairing.first]
+          console.log(`  ${better} > ${worse}: ${(Math.abs(pairing.difference) * 100).toFixed(1)} pts ` +
+            `(CI ${(pairing.confidenceInterval.lower * 100).toFixed(1)} to ${(pairing.confidenceInterval.upper * 100).toFixed(1)}, ` +
+            `p = ${pairing.pValue.toFixed(4)}, n=${pairing.games})`)
+        })
+      
+      await writeFile(options.output, JSON.stringify(result, null, 2))
+      console.log(chalk.blue(`\n📄 Leaderboard report saved to: ${options.output}`))
+      
+    } catch (error) {
+      console.error(chalk.red(`❌ Tournament failed: ${error}`))
+    }
+  })
+
+aiCommand
+  .command('train')
+  .description('Train a Q-learning or genetic model and checkpoint it to a JSON file')
+  .option('-t, --type <type>', `Strategy to train (${TRAINABLE_STRATEGIES.join(', ')})`, 'q-learning')
+  .option('-e, --episodes <count>', 'Games to play', '1000')
+  .option('--games-per-update <count>', 'Games per learning step (default: 1, genetic: 5 per individual)')
+  .option('--curve-interval <count>', 'Episodes per learning-curve point', '100')
+  .option('--checkpoint-every <count>', 'Save the model every N episodes (0 = only at the end)', '500')
+  .option('-r, --resume <path>', 'Continue training a saved model')
+  .option('-n, --name <name>', 'Bot name stored in the model')
+  .option('-s, --seed <seed>', 'Seed for reproducible training')
+  .option('-o, --output <file>', 'Model file to write', 'ai-model.json')
+  .action(async (options) => {
+    try {
+      const resume = options.resume ? TrainedModels.parse(await readFile(options.resume, 'utf8')) : undefined
+      const trainer = new ModelTrainer({
+        type: options.type,
+        episodes: parseInt(options.episodes),
+        curveInterval: parseInt(options.curveInterval),
+        checkpointInterval: parseInt(options.checkpointEvery),
+        ...(options.gamesPerUpdate ? { gamesPerUpdate: parseInt(options.gamesPerUpdate) } : {}),
+        ...(resume ? { resume } : {}),
+        ...(options.name ? { name: options.name } : {}),
+        ...(options.seed ? { seed: parseInt(options.seed) } : {}),
+        onCurvePoint: (point) => {
+          const bar = '█'.repeat(Math.round(point.winRate * 40))
+          console.log(`  ${String(point.episodes).padStart(7)}  ${(point.winRate * 100).toFixed(1).padStart(5)}%  ${bar}`)
+        },
+        onCheckpoint: async (file) => {
+          await writeFile(options.output, TrainedModels.stringify(file))
+          console.log(chalk.gray(`  💾 Checkpoint after ${file.episodes} episodes saved to ${options.output}`))
+        }
+      })
+      
+      console.log(chalk.cyan(`🧠 Training ${resume ? `${resume.name} from episode ${resume.episodes}` : options.type}...`))
+      console.log(chalk.white('📈 Learning curve (episodes, win rate):'))
+      const result = await trainer.train()
+      
+      console.log(chalk.green(`\n✅ Training completed: ${result.episodes} episodes in ${(result.executionTime / 1000).toFixed(1)}s ` +
+        `(${(result.winRate * 100).toFixed(1)}% win rate while exploring)`))
+      console.log(chalk.blue(`📄 Model saved to: ${options.output} (${result.model.episodes} episodes in total)`))
+      console.log(chalk.gray(`  Play it with: cui demo --model ${options.output}`))
+      
+    } catch (error) {
+      console.error(chalk.red(`❌ Training failed: ${error}`))
     }
   })
 
@@ -1053,6 +1198,7 @@ program
     console.log(chalk.white('\n📊 Analytics:'))
     console.log('  life-game-advanced analytics analyze -i results.json --comprehensive')
     console.log('  life-game-advanced analytics balance -i results.json')
+    console.log('  life-game-advanced optimize auto-tune --method evolutionary')
     
     console.log(chalk.white('\n🤖 AI Strategy:'))
     console.log('  life-game-advanced ai tournament --games 500')
@@ -1,32 +1,39 @@
 
-import { BeginnerPersona, IntermediatePersona, AdvancedPersona } from '../ai/Personas'
-import { PersonaGameRenderer } from '../ai/PersonaGameRenderer'
+import { BotRegistry } from '../ai/BotRegistry'
+import { BotGameRenderer } from '../ai/BotGameRenderer'
 import { GameControllerFactory } from '../controllers/GameController'
 import type { GameConfig, PlayerStats } from '../domain/types/game.types'
+import { GameAnalytics, WIN_RATE_TARGETS, type GameRecordInput } from '../analytics/GameAnalytics'
 import chalk from 'chalk'
 
 const GAMES_PER_PERSONA = 50;
 
+// Bots to verify: names from BotRegistry given on the command line, the personas by default
+const DEFAULT_BOTS = ['Beginner', 'Intermediate', 'Advanced'];
+
+type PersonaResult = { win: number, loss: number, stats: PlayerStats[], games: GameRecordInput[] };
+
 const runVerification = async () => {
     console.log(chalk.bold.cyan('🎮 Starting Level Design Verification (Balance Check)'));
     console.log(`Running ${GAMES_PER_PERSONA} games per persona...\n`);
 
-    const personas = [
-        new BeginnerPersona(),
-        new IntermediatePersona(),
-        new AdvancedPersona()
-    ];
+    const botNames = process.argv.slice(2).length > 0 ? process.argv.slice(2) : DEFAULT_BOTS;
+    const unknown = botNames.filter(name => !BotRegistry.has(name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown bot: ${unknown.join(', ')} (available: ${BotRegistry.getNames().join(', ')})`);
+    }
 
-    const results: Record<string, { win: number, loss: number, stats: PlayerStats[] }> = {};
+    const results: Record<string, PersonaResult> = {};
 
-    for (const persona of personas) {
-        console.log(chalk.blue(`👤 Testing Persona: ${persona.name}`));
-        results[persona.name] = { win: 0, loss: 0, stats: [] };
+    for (const botName of botNames) {
+        console.log(chalk.blue(`🤖 Testing Bot: ${botName}`));
+        const entry: PersonaResult = { win: 0, loss: 0, stats: [], games: [] };
+        results[botName] = entry;
 
         for (let i = 0; i < GAMES_PER_PERSONA; i++) {
             process.stdout.write(`\r   Running Game ${i + 1}/${GAMES_PER_PERSONA} (${Math.round(((i + 1) / GAMES_PER_PERSONA) * 100)}%)...`);
 
-            const renderer = new PersonaGameRenderer(persona);
+            const renderer = new BotGameRenderer(BotRegistry.create(botName));
             const controller = GameControllerFactory.createDefault(renderer);
 
             // Disable debug logs for bulk run
@@ -38,12 +45,13 @@ const runVerification = async () => {
                 const game = controller.getGameState();
 
                 if (game.status === 'victory') {
-                    results[persona.name].win++;
+                    entry.win++;
                 } else {
-                    results[persona.name].loss++;
+                    entry.loss++;
                 }
 
-                results[persona.name].stats.push(finalStats);
+                entry.stats.push(finalStats);
+                entry.games.push({ outcome: game.status, stats: finalStats });
             } catch (e) {
                 console.error(`\nError in game ${i}:`, e);
             }
@@ -54,7 +62,7 @@ const runVerification = async () => {
     printReport(results);
 }
 
-const printReport = (results: Record<string, { win: number, loss: number, stats: PlayerStats[] }>) => {
+const printReport = (results: Record<string, PersonaResult>) => {
     console.log(chalk.bold.green('\n📊 Verification Report'));
     console.log('='.repeat(60));
 
@@ -74,19 +82,12 @@ const printReport = (results: Record<string, { win: number, loss: number, stats:
         console.log(`  Avg Cards Acquired: ${avgCards.toFixed(1)}`);
         console.log(`  Avg Successful Challenges: ${successChallenges.toFixed(1)}`);
 
-        // Evaluation
-        let evaluation = "";
-        if (name === 'Beginner') {
-            if (parseFloat(winRate) < 20) evaluation = "Too Hard for Beginners";
-            else if (parseFloat(winRate) > 80) evaluation = "Too Easy for Beginners";
-            else evaluation = "Good Balance";
-        } else if (name === 'Advanced') {
-            if (parseFloat(winRate) < 50) evaluation = "Too Hard for Advanced";
-            else if (parseFloat(winRate) > 95) evaluation = "Too Easy for Advanced";
-            else evaluation = "Good Balance";
+        // Evaluation (judged on the confidence interval, not the raw rate)
+        const target = WIN_RATE_TARGETS[name];
+        if (target && total > 0) {
+            const evaluation = new GameAnalytics().evaluateWinRate(GameAnalytics.loadResults(data.games), target);
+            console.log(chalk.magenta(`  Evaluation: ${evaluation.message}`));
         }
-
-        if (evaluation) console.log(chalk.magenta(`  Evaluation: ${evaluation}`));
     }
     console.log('='.repeat(60));
 }
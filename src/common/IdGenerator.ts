@@ -1,3 +1,71 @@
+import type { SeededRandom } from './SeededRandom'
+
+/**
+ * ID系列の状態（連番と乱数源の状態）
+ */
+export interface IdSequenceState {
+  counter: number
+  randomState: number
+}
+
+/**
+ * シード付きゲームのID系列
+ *
+ * 時刻を使わず連番と乱数源からIDを生成するため、同じシードで同じ操作をすれば同じIDが得られる。
+ * ゲームごとに持ち、状態をスナップショットに含めることで、復元したゲームも作成済みのIDと重複しない。
+ */
+export class IdSequence {
+  private counter = 0
+
+  /**
+   * @param random ID専用の乱数源（ゲーム進行の乱数列とは別系列にする）
+   */
+  constructor(private readonly random: SeededRandom) {}
+
+  /**
+   * 系列の次のIDを生成
+   * @param prefix プレフィックス（例: 'card', 'game'）
+   */
+  generate(prefix: string): string {
+    const randomString = this.random.next().toString(36).substr(2, 9) || '0'
+    return `${prefix}_${++this.counter}_${randomString}`
+  }
+
+  /**
+   * 現在の状態を取得（スナップショット用）
+   */
+  getState(): IdSequenceState {
+    return { counter: this.counter, randomState: this.random.getState() }
+  }
+
+  /**
+   * 状態を復元（スナップショット用）
+   */
+  setState(state: IdSequenceState): void {
+    this.counter = state.counter
+    this.random.setState(state.randomState)
+  }
+}
+
+/**
+ * 非同期処理をまたいで実行中のID系列を保持する入れ物（Node の AsyncLocalStorage と同じ形）
+ */
+interface SequenceStorage {
+  run<T>(sequence: IdSequence, run: () => T): T
+  getStore(): IdSequence | undefined
+}
+
+/**
+ * AsyncLocalStorage が使える環境（Node 20.16 以降）ではそれを使う
+ * ブラウザでは undefined になり、IdGenerator は実行中の系列の一覧で代用する。
+ */
+function createSequenceStorage(): SequenceStorage | undefined {
+  const runtime = (globalThis as { process?: { getBuiltinModule?: (id: string) => unknown } }).process
+  const hooks = runtime?.getBuiltinModule?.('node:async_hooks') as
+    { AsyncLocalStorage?: new () => SequenceStorage } | undefined
+  return hooks?.AsyncLocalStorage ? new hooks.AsyncLocalStorage() : undefined
+}
+
 /**
  * 統一されたID生成ユーティリティ
  * 
@@ -6,13 +74,59 @@
  */
 export class IdGenerator {
   private static counter = 0
-  
+  private static readonly storage = createSequenceStorage()
+  // AsyncLocalStorage がない環境で実行中の系列（後から始まったものが末尾）
+  private static readonly runningSequences: IdSequence[] = []
+
+  /**
+   * ID系列を使って処理を実行
+   * 処理中に生成するIDは時刻ではなく系列から作る（GameはこれでIDを自分の系列から作る）。
+   * 非同期の処理は完了するまで系列を使う。AsyncLocalStorage がある環境では並行する
+   * ゲームもそれぞれ自分の系列を使う。ない環境（ブラウザ）では最後に始まった処理の系列を使うため、
+   * 非同期のアクションを並行して進めるゲームは1つまでにする。
+   * @param sequence 使用するID系列
+   * @param run 実行する処理
+   * @returns 処理の戻り値
+   */
+  static runWith<T>(sequence: IdSequence, run: () => T): T {
+    if (this.storage) {
+      return this.storage.run(sequence, run)
+    }
+
+    this.runningSequences.push(sequence)
+    const finish = () => {
+      // 終わる順番が始めた順番と違っても、自分の分だけを外す
+      this.runningSequences.splice(this.runningSequences.lastIndexOf(sequence), 1)
+    }
+
+    let result: T
+    try {
+      result = run()
+    } catch (error) {
+      finish()
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(finish) as T
+    }
+
+    finish()
+    return result
+  }
+
   /**
    * 汎用的なユニークIDを生成
    * @param prefix プレフィックス（例: 'card', 'game', 'cmd'）
    * @returns ユニークなID文字列
    */
   static generate(prefix: string = 'id'): string {
+    const sequence = this.storage
+      ? this.storage.getStore()
+      : this.runningSequences[this.runningSequences.length - 1]
+    if (sequence) {
+      return sequence.generate(prefix)
+    }
     return `${prefix}_${Date.now()}_${this.getRandomString()}`
   }
 
@@ -0,0 +1,154 @@
+/**
+ * 乱数源インターフェース
+ *
+ * Math.random と同じく [0, 1) の値を返す。
+ * ゲーム・カード生成・AI戦略はこのインターフェース経由で乱数を取得し、
+ * シード付きの実装を差し込むことでプレイを再現可能にする。
+ */
+export interface RandomSource {
+  next(): number
+}
+
+/**
+ * Math.random をそのまま使う既定の乱数源
+ */
+export const defaultRandom: RandomSource = {
+  next: () => Math.random()
+}
+
+/**
+ * シード付き乱数生成器（mulberry32）
+ *
+ * 同じシードからは常に同じ乱数列を生成する。
+ * バランスシミュレーションやプレイテストで発生した不具合を
+ * シード値だけで再現できるようにするために使用する。
+ *
+ * @example
+ * const random = new SeededRandom(12345)
+ * random.next()       // 0.0 <= x < 1.0
+ * random.nextInt(6)   // 0〜5
+ */
+export class SeededRandom implements RandomSource {
+  readonly seed: number
+  private state: number
+
+  constructor(seed: number) {
+    if (!Number.isFinite(seed)) {
+      throw new Error('Seed must be a finite number')
+    }
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * 新しいシード値をランダムに生成
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * 文字列からシード付き乱数生成器を作成（日付・チャレンジIDなど）
+   */
+  static fromString(text: string): SeededRandom {
+    return new SeededRandom(hashString(text))
+  }
+
+  /**
+   * 次の乱数を取得 [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * 0以上 maxExclusive 未満の整数を取得
+   */
+  nextInt(maxExclusive: number): number {
+    return randomInt(this, maxExclusive)
+  }
+
+  /**
+   * 独立した乱数列を派生させる
+   * 派生元の乱数列を消費しないため、用途ごとに系列を分けたい場合に使用する
+   */
+  fork(salt: string): SeededRandom {
+    return new SeededRandom((this.seed ^ hashString(salt)) >>> 0)
+  }
+
+  /**
+   * 内部状態を取得（スナップショット用）
+   */
+  getState(): number {
+    return this.state
+  }
+
+  /**
+   * 内部状態を復元（スナップショット用）
+   */
+  setState(state: number): void {
+    this.state = state >>> 0
+  }
+}
+
+/**
+ * 0以上 maxExclusive 未満の整数を取得
+ */
+export function randomInt(random: RandomSource, maxExclusive: number): number {
+  if (maxExclusive <= 0) return 0
+  return Math.floor(random.next() * maxExclusive)
+}
+
+/**
+ * 配列から要素を1つ選ぶ（空配列の場合はundefined）
+ */
+export function pickRandom<T>(random: RandomSource, items: readonly T[]): T | undefined {
+  if (items.length === 0) return undefined
+  return items[randomInt(random, items.length)]
+}
+
+/**
+ * 重みに比例した確率で要素を1つ選ぶ（空配列・重みの合計が0の場合はundefined）
+ */
+export function pickWeighted<T>(random: RandomSource, items: readonly T[], weightOf: (item: T) => number): T | undefined {
+  const weights = items.map(item => Math.max(0, weightOf(item)))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  if (total <= 0) return undefined
+
+  let threshold = random.next() * total
+  for (let i = 0; i < items.length; i++) {
+    threshold -= weights[i]!
+    if (threshold < 0) return items[i]
+  }
+  return items[items.length - 1]
+}
+
+/**
+ * 配列をシャッフルした新しい配列を返す（Fisher-Yatesアルゴリズム）
+ */
+export function shuffleArray<T>(random: RandomSource, items: readonly T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1)
+    const temp = result[i] as T
+    result[i] = result[j] as T
+    result[j] = temp
+  }
+  return result
+}
+
+/**
+ * 文字列を32bitハッシュに変換
+ */
+function hashString(text: string): number {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash) + text.charCodeAt(i)
+    hash = hash & hash // 32bit integer
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,43 @@
+// 実行中の処理が止めているコンソール出力（重なった実行で共有する）
+let silencedConsole: Pick<Console, 'log' | 'info' | 'debug' | 'warn'> | null = null
+let silentRuns = 0
+
+/**
+ * コンソール出力を止めて処理を実行
+ *
+ * Gameや各画面は操作のたびにログを出すため、大量に実行するベンチマークや
+ * ボットの先読みではこれで出力を止める。
+ * 同期処理・非同期処理のどちらも渡せ、Promiseの場合は完了時に元に戻す。
+ * 重なった実行は保存したコンソールを共有し、最後に終わった実行が元に戻す。
+ */
+export function withSilentConsole<T>(run: () => T): T {
+  if (silentRuns++ === 0) {
+    silencedConsole = { log: console.log, info: console.info, debug: console.debug, warn: console.warn }
+    const noop = () => {}
+    console.log = noop
+    console.info = noop
+    console.debug = noop
+    console.warn = noop
+  }
+
+  let result: T
+  try {
+    result = run()
+  } catch (error) {
+    restoreConsole()
+    throw error
+  }
+
+  if (result instanceof Promise) {
+    return result.finally(restoreConsole) as T
+  }
+  restoreConsole()
+  return result
+}
+
+function restoreConsole(): void {
+  if (--silentRuns === 0 && silencedConsole) {
+    Object.assign(console, silencedConsole)
+    silencedConsole = null
+  }
+}
@@ -2,9 +2,12 @@ import type { GameRenderer } from '../interfaces/GameRenderer'
 import { Game } from '../domain/entities/Game'
 import { Card } from '../domain/entities/Card'
 import { CardFactory } from '../domain/services/CardFactory'
-import type { ChallengeResult, GameConfig, PlayerStats } from '../domain/types/game.types'
+import type { ChallengeResult, GameConfig, GameSnapshot, PlayerStats } from '../domain/types/game.types'
 import type { GameStage } from '../domain/types/card.types'
 import { IdGenerator } from '../common/IdGenerator'
+import { BALANCE_CONSTANTS } from '../domain/constants/GameConstants'
+import type { AchievementTracker, AchievementUpdate } from '../domain/services/AchievementTracker'
+import type { RandomEvent } from '../domain/services/ReplayabilityService'
 
 /**
  * ゲーム制御クラス
@@ -14,12 +17,20 @@ import { IdGenerator } from '../common/IdGenerator'
 export class GameController {
   private readonly game: Game
   private readonly renderer: GameRenderer
+  private readonly achievementTracker: AchievementTracker | undefined
   private isGameRunning: boolean = false
   private debugMode: boolean = false
+  // ターン開始時点の状態（セーブはターンの区切りで行う）
+  private turnStartSnapshot: GameSnapshot | undefined
 
-  constructor(config: GameConfig, renderer: GameRenderer) {
-    this.game = new Game(config)
+  /**
+   * @param config 新しいゲームの設定、またはセーブデータから復元した進行中のゲーム
+   */
+  constructor(config: GameConfig | Game, renderer: GameRenderer, achievementTracker?: AchievementTracker) {
+    this.game = config instanceof Game ? config : new Game(config)
     this.renderer = renderer
+    this.achievementTracker = achievementTracker
+    this.game.setAchievementTracker(achievementTracker)
   }
 
   // === 公開API ===
@@ -29,6 +40,8 @@ export class GameController {
    * ゲーム全体の進行を制御
    */
   async playGame(): Promise<PlayerStats> {
+    const removeAchievementListener = this.achievementTracker?.addListener(update => this.showAchievements(update))
+
     try {
       this.isGameRunning = true
       await this.renderer.initialize()
@@ -52,6 +65,7 @@ export class GameController {
     } catch (error) {
       this.handleGameError(error as Error)
     } finally {
+      removeAchievementListener?.()
       this.isGameRunning = false
       this.renderer.dispose()
     }
@@ -64,6 +78,7 @@ export class GameController {
    */
   async playTurn(): Promise<void> {
     this.log(`=== ターン ${this.game.turn} 開始 ===`)
+    this.turnStartSnapshot = this.game.toSnapshot()
 
     // フェーズごとの処理
     // await this.handleDrawPhase() // 廃止: チャレンジ決定後にドローする
@@ -80,8 +95,10 @@ export class GameController {
 
     if (this.game.status !== 'in_progress') return
 
-    // ターン終了処理
-    this.game.nextTurn()
+    // ターン終了処理（ステージが変わると保険が発動することがある）
+    const turnResult = this.game.nextTurn()
+    await this.handlePendingInsuranceClaims()
+    await this.handleLifeEvent(turnResult.lifeEvent)
     this.updateDisplay()
 
     this.log(`=== ターン ${this.game.turn - 1} 完了 ===`)
@@ -94,6 +111,17 @@ export class GameController {
     return this.game
   }
 
+  /**
+   * セーブ用のゲームを取得
+   * ターンの途中ならターン開始時点の状態を復元して返す（再開するとそのターンの最初から進む）
+   */
+  getSavableGame(): Game {
+    if (!this.turnStartSnapshot || this.game.status !== 'in_progress') {
+      return this.game
+    }
+    return Game.fromSnapshot(this.turnStartSnapshot)
+  }
+
   /**
    * ゲームの強制終了
    */
@@ -116,6 +144,12 @@ export class GameController {
    * ゲーム初期化
    */
   private async initializeGame(): Promise<void> {
+    // セーブデータから復元したゲームはその状態から再開する
+    if (this.game.status === 'in_progress') {
+      await this.resumeGame()
+      return
+    }
+
     // ゲーム開始（ステータス変更）
     this.game.start()
 
@@ -152,6 +186,27 @@ export class GameController {
     await this.renderer.showMessage('ゲームが開始されました！', 'success')
   }
 
+  /**
+   * 復元したゲームの再開
+   * 開始直後の選択や、保存時に残っていたライフイベント・保険請求の選択から続ける
+   */
+  private async resumeGame(): Promise<void> {
+    this.updateDisplay()
+    if (this.game.phase === 'character_selection') {
+      this.game.selectCharacter('solid')
+    }
+    if (this.game.phase === 'dream_selection') {
+      await this.handleDreamSelectionPhase()
+    }
+    if (this.game.pendingLifeEvent) {
+      await this.handleLifeEvent(this.game.pendingLifeEvent)
+    }
+    await this.handlePendingInsuranceClaims()
+
+    this.updateDisplay()
+    await this.renderer.showMessage(`ターン${this.game.turn}から再開します`, 'success')
+  }
+
   /**
    * 夢選択フェーズ
    */
@@ -164,7 +219,8 @@ export class GameController {
       throw new Error('夢カードの選択肢がありません')
     }
 
-    // ユーザーに選択させる
+    // ユーザーに選択させる（選択前に開始時の状態を表示しておく）
+    this.updateDisplay()
     const selectedDream = await this.renderer.askDreamSelection(choices)
 
     // 選択を適用
@@ -218,14 +274,15 @@ export class GameController {
     }
 
     // プレイヤーに選択してもらう
-    const selectedChallenge = await this.renderer.askChallengeSelection(choices)
+    const stakes = choices.map(challenge => this.game.getChallengeStakes(challenge))
+    const selectedChallenge = await this.renderer.askChallengeSelection(choices, stakes)
 
     // チャレンジ開始（選択されなかったカードはデッキに戻る/捨てられる等の処理が内部で行われる）
     this.game.startChallenge(selectedChallenge)
 
     // v2: 課題選択後にカードを7枚引く（ドキドキ感のため）
-    await this.game.drawCards(7)
-    this.log(`課題「${selectedChallenge.name}」に挑戦！カードを7枚引きました`)
+    await this.game.drawCards(BALANCE_CONSTANTS.CARD_LIMITS.challengeDrawCount)
+    this.log(`課題「${selectedChallenge.name}」に挑戦！カードを${BALANCE_CONSTANTS.CARD_LIMITS.challengeDrawCount}枚引きました`)
 
     this.updateDisplay()
     console.log('[DEBUG-GC] Pre-Execution')
@@ -246,6 +303,7 @@ export class GameController {
       // startChallengeは既に呼ばれている
       const result = this.game.resolveChallenge()
       this.renderer.showChallengeResult(result)
+      await this.handlePendingInsuranceClaims()
       await this.handleChallengeFailure(result) // 結果処理も呼ぶ必要あり
       return
     }
@@ -265,6 +323,7 @@ export class GameController {
     const result = this.game.resolveChallenge()
     console.log(`[DEBUG-GC] Challenge resolved. Success: ${result.success}`)
     this.renderer.showChallengeResult(result)
+    await this.handlePendingInsuranceClaims()
 
     // 結果に応じた処理
     if (result.success) {
@@ -277,6 +336,39 @@ export class GameController {
     this.updateDisplay()
   }
 
+  /**
+   * 保留中の保険請求を処理
+   * 支払い見込みを示して請求するか確認する（支払い後のダメージで次の保険が発動することがある）
+   */
+  private async handlePendingInsuranceClaims(): Promise<void> {
+    let claim = this.game.pendingInsuranceClaim
+    while (claim) {
+      const payout = this.game.getInsuranceClaimPayout(claim)!
+      if (await this.renderer.askInsuranceClaim(claim, payout)) {
+        await this.game.resolveInsuranceClaim()
+        await this.renderer.showMessage(`${claim.insurance.name}を請求しました: ${payout.description}`, 'success')
+      } else {
+        this.game.declineInsuranceClaim()
+      }
+      claim = this.game.pendingInsuranceClaim
+    }
+  }
+
+  /**
+   * ターン開始時のライフイベントを処理
+   * 選択肢のあるイベントは選択を求め、効果のダメージで発動した保険請求も処理する
+   */
+  private async handleLifeEvent(event: RandomEvent | undefined): Promise<void> {
+    if (!event || this.game.status !== 'in_progress') return
+
+    await this.renderer.showMessage(`ライフイベント「${event.name}」: ${event.description}`, 'info')
+    if (this.game.pendingLifeEvent) {
+      const choiceIndex = await this.renderer.askLifeEventChoice(this.game.pendingLifeEvent)
+      this.game.chooseLifeEventOption(choiceIndex)
+    }
+    await this.handlePendingInsuranceClaims()
+  }
+
   /**
    * チャレンジ用カード選択
    */
@@ -304,22 +396,22 @@ export class GameController {
       await this.handleInsuranceTypeSelection(result.insuranceTypeChoices)
     }
 
-    // 2. 報酬カード選択がある場合
-    if (result.cardChoices && result.cardChoices.length > 0) {
+    // 2. 報酬カード選択がある場合（獲得しない選択も可）
+    const rewardChoices = this.game.rewardCardChoices
+    if (rewardChoices && rewardChoices.length > 0) {
       const selectedCard = await this.renderer.askCardSelection(
-        result.cardChoices,
+        rewardChoices,
+        0,
         1,
-        1,
-        '報酬として受け取るカードを選択してください'
+        '報酬として受け取るカードを選択してください（選ばなければ見送り）'
       )
 
-      if (selectedCard.length > 0) {
-        const cardToAcquire = selectedCard[0]
-        if (cardToAcquire) {
-          this.game.addCardToPlayerDeck(cardToAcquire)
-          this.game.stats.cardsAcquired++
-          await this.renderer.showMessage(`「${cardToAcquire.name}」を獲得しました！`, 'success')
-        }
+      const cardToAcquire = selectedCard[0]
+      if (cardToAcquire) {
+        this.game.selectRewardCard(cardToAcquire.id)
+        await this.renderer.showMessage(`「${cardToAcquire.name}」を獲得しました！`, 'success')
+      } else {
+        this.game.skipRewardCard()
       }
     }
   }
@@ -430,8 +522,8 @@ export class GameController {
 
       await this.renderer.showMessage(`「${selectedInsurance.name}」保険を獲得しました！`, 'success')
 
-      // コスト支払い（契約コスト）
-      const cost = selectedInsurance.cost
+      // コスト支払い（年齢・リスクで調整した契約時の保険料）
+      const cost = this.game.getInsurancePremiumQuote(selectedInsurance).total
       if (this.game.vitality >= cost) {
         this.game.heal(-cost)
         await this.renderer.showMessage(`契約コスト ${cost} を支払いました`, 'info')
@@ -465,16 +557,12 @@ export class GameController {
           continue
         }
 
-        const renewalCost = this.calculateRenewalCost(insurance)
-        const choice = await this.renderer.askInsuranceRenewalChoice(insurance, renewalCost)
+        const renewalQuote = this.game.getInsuranceRenewalQuote(insurance)
+        const renewalCost = renewalQuote.total
+        const choice = await this.renderer.askInsuranceRenewalChoice(insurance, renewalCost, renewalQuote)
 
         if (choice === 'renew') {
-          if (this.game.vitality >= renewalCost) {
-            this.game.heal(-renewalCost)
-
-            // 期間を延長（元の期間またはデフォルト5ターン）
-            insurance.remainingTurns = (insurance.durationType === 'term' ? 5 : 10)
-
+          if (this.game.renewInsurance(insurance)) {
             await this.renderer.showMessage(`「${insurance.name}」を更新しました（期間延長, コスト: ${renewalCost}）`, 'success')
           } else {
             await this.renderer.showMessage(`体力不足のため「${insurance.name}」を更新できませんでした`, 'warning')
@@ -482,6 +570,7 @@ export class GameController {
           }
         } else {
           // 「更新しない」を選んだ場合も、ここでは即時失効させず、期間満了を待つ
+          this.game.declineInsuranceRenewal(insurance)
           await this.renderer.showMessage(`「${insurance.name}」の更新を見送りました`)
         }
       }
@@ -501,21 +590,6 @@ export class GameController {
     }
   }
 
-  /**
-   * 保険更新コストの計算
-   */
-  private calculateRenewalCost(insurance: Card): number {
-    // 基本コスト + 年齢による増加
-    const baseCost = insurance.cost || 1
-    // ステージごとの倍率
-    const ageMultiplier = {
-      youth: 1.0,
-      middle: 1.2,
-      fulfillment: 1.5
-    }[this.game.stage] || 1.0
-    return Math.ceil(baseCost * ageMultiplier)
-  }
-
   /**
    * ステージ遷移処理
    */
@@ -528,13 +602,18 @@ export class GameController {
     if (nextStage) {
       this.game.stage = nextStage
       this.game.status = 'in_progress'
+      this.achievementTracker?.recordStageChange(this.game)
 
       // 新しいチャレンジデッキ作成
-      const challengeCards = CardFactory.createChallengeCards(nextStage)
+      const challengeCards = CardFactory.createChallengeCards(nextStage, this.game.getRandom())
       this.game.challengeDeck.addCards(challengeCards)
-      this.game.challengeDeck.shuffle()
+      this.game.challengeDeck.shuffle(this.game.getRandom())
 
       await this.renderer.showMessage(`ステージ ${nextStage} に進みました！`, 'success')
+    } else if (this.game.isEndlessMode()) {
+      // エンドレスモードは充実期のチャレンジを補充して続行
+      this.game.status = 'in_progress'
+      this.game.refillChallengeDeck()
     } else {
       // 全ステージクリア
       this.game.status = 'victory'
@@ -571,6 +650,9 @@ export class GameController {
    * 最終結果表示
    */
   private async showFinalResult(): Promise<void> {
+    // 状態を直接変更した終了はGameから通知されないため、ここで記録する
+    this.achievementTracker?.recordGameEnd(this.game)
+
     if (this.game.status === 'victory') {
       this.renderer.showVictory(this.game.stats)
     } else if (this.game.status === 'game_over') {
@@ -578,6 +660,19 @@ export class GameController {
     }
   }
 
+  /**
+   * 新しく解除されたアチーブメントを表示
+   */
+  private showAchievements(update: AchievementUpdate): void {
+    update.newlyUnlocked.forEach(achievement => {
+      if (this.renderer.showAchievementUnlocked) {
+        this.renderer.showAchievementUnlocked(achievement)
+      } else {
+        this.renderer.showMessage(`🏆 アチーブメント解除: ${achievement.name}`, 'success')
+      }
+    })
+  }
+
   /**
    * 画面表示の更新
    */
@@ -620,8 +715,15 @@ export class GameControllerFactory {
   /**
    * ゲームコントローラーを作成
    */
-  static create(config: GameConfig, renderer: GameRenderer): GameController {
-    return new GameController(config, renderer)
+  static create(config: GameConfig, renderer: GameRenderer, achievementTracker?: AchievementTracker): GameController {
+    return new GameController(config, renderer, achievementTracker)
+  }
+
+  /**
+   * セーブデータから復元したゲームを再開するコントローラーを作成
+   */
+  static resume(game: Game, renderer: GameRenderer, achievementTracker?: AchievementTracker): GameController {
+    return new GameController(game, renderer, achievementTracker)
   }
 
   /**
@@ -1,7 +1,9 @@
 import type { GameRenderer } from '@/interfaces/GameRenderer'
 import type { Game } from '@/domain/entities/Game'
 import type { Card } from '@/domain/entities/Card'
-import type { PlayerStats, ChallengeResult } from '@/domain/types/game.types'
+import type { PlayerStats, ChallengeResult, PendingInsuranceClaim } from '@/domain/types/game.types'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '@/domain/services/ReplayabilityService'
 
 /**
  * コンソール用ゲームレンダラー
@@ -183,6 +185,30 @@ export class ConsoleRenderer implements GameRenderer {
     return 'expire'
   }
 
+  async askInsuranceClaim(claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    console.log(`\n保険「${claim.insurance.name}」を請求できます`)
+    console.log(`  支払い: ${payout.description}`)
+    if (payout.payoutRatio < 1 || payout.deductible > 0) {
+      console.log(`  (基準額 ${payout.baseAmount} × ${Math.round(payout.payoutRatio * 100)}% - 免責 ${payout.deductible})`)
+    }
+    console.log('  請求すると保険契約は終了します')
+
+    const input = await this.askInput('請求しますか？ (y/n): ')
+    return input.toLowerCase() === 'y' || input.toLowerCase() === 'yes'
+  }
+
+  async askLifeEventChoice(event: RandomEvent): Promise<number> {
+    const choices = event.choices ?? []
+    console.log(`\nライフイベント「${event.name}」: ${event.description}`)
+    choices.forEach((choice, index) => {
+      console.log(`  ${index + 1}. ${choice.label} - ${choice.description}`)
+    })
+
+    const input = await this.askInput(`選択 (1-${choices.length}): `)
+    const index = parseInt(input) - 1
+    return index >= 0 && index < choices.length ? index : 0
+  }
+
   async askConfirmation(message: string, defaultChoice: 'yes' | 'no' = 'no'): Promise<'yes' | 'no'> {
     const defaultStr = defaultChoice === 'yes' ? ' [Y/n]' : ' [y/N]'
     const input = await this.askInput(message + defaultStr + ': ')
@@ -377,6 +403,18 @@ export class AutoPlayRenderer extends ConsoleRenderer {
     // コストが低い場合は更新
     return cost <= 3 ? 'renew' : 'expire'
   }
+
+  override async askInsuranceClaim(_claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    await this.delay()
+    // 支払いがある場合は請求
+    return payout.amount > 0 || payout.effect === 'skip_challenge'
+  }
+
+  override async askLifeEventChoice(): Promise<number> {
+    await this.delay()
+    // 最初の選択肢を選ぶ
+    return 0
+  }
   
   async askConfirmation(message: string, defaultChoice: 'yes' | 'no' = 'no'): Promise<'yes' | 'no'> {
     await this.delay()
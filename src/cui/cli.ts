@@ -8,18 +8,34 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import figlet from 'figlet'
-import { writeFile } from 'fs/promises'
+import { readFile, writeFile } from 'fs/promises'
 import { GameController, GameControllerFactory } from '@/controllers/GameController'
 import { InteractiveCUIRenderer } from './renderers/InteractiveCUIRenderer'
-import { DemoModeRenderer, SmartDemoStrategy, AggressiveDemoStrategy, ConservativeDemoStrategy } from './modes/DemoMode'
+import { DemoModeRenderer, DEFAULT_DEMO_BOT, resolveDemoBotName } from './modes/DemoMode'
+import { BotRegistry } from '../ai/BotRegistry'
+import { TrainedModels } from '../ai/TrainedModels'
 import { BenchmarkModeRenderer } from './modes/BenchmarkMode'
 import { TutorialModeRenderer } from './modes/TutorialMode'
 import { DebugModeRenderer } from './modes/DebugMode'
 import type { CUIConfig } from './config/CUIConfig'
-import type { GameConfig } from '@/domain/types/game.types'
+import type { GameConfig, PlayerStats, SaveData } from '@/domain/types/game.types'
+import type { Game } from '@/domain/entities/Game'
+import { GameReplayer } from '@/domain/services/GameReplayer'
+import { AchievementTracker } from '@/domain/services/AchievementTracker'
+import { ReplayabilityService, type DailyChallenge } from '@/domain/services/ReplayabilityService'
+import { SaveSlotService } from '@/domain/services/SaveSlotService'
+import { StorageAdapter } from '@/infrastructure/storage/StorageAdapter'
+import { FileSystemStorage } from '@/infrastructure/storage/FileSystemStorage'
 
 const program = new Command()
 
+// Save slots are stored as JSON files in save-data/
+const saveStorage = StorageAdapter.createFileSystemAdapter(new FileSystemStorage('save-data'))
+const SAVE_SLOTS: readonly string[] = [SaveSlotService.AUTO_SAVE_SLOT, ...SaveSlotService.MANUAL_SAVE_SLOTS]
+
+// The game being played, saved to the auto slot when the session is interrupted
+let activeSession: { controller: GameController, challenge?: DailyChallenge } | null = null
+
 // CLI Configuration
 program
   .name('life-game-cui')
@@ -38,6 +54,7 @@ program
   .option('-d, --difficulty <level>', 'Game difficulty (easy, normal, hard)', 'normal')
   .option('--vitality <amount>', 'Starting vitality', '20')
   .option('--hand-size <size>', 'Starting hand size', '5')
+  .option('--endless', 'Keep playing after the fulfillment stage and survive as long as possible')
   .action(async (options) => {
     try {
       await runInteractiveGame(options)
@@ -47,13 +64,77 @@ program
     }
   })
 
+// === Daily Challenge Command ===
+program
+  .command('daily')
+  .description('Play the seeded daily (or weekly) challenge')
+  .option('-w, --weekly', 'Play this week\'s challenge instead of today\'s')
+  .option('--date <date>', 'Challenge date (YYYY-MM-DD)')
+  .option('-t, --theme <theme>', 'UI theme (default, dark, colorful, minimal, matrix)', 'default')
+  .option('-s, --speed <speed>', 'Animation speed (slow, normal, fast, off)', 'normal')
+  .option('-c, --compact', 'Use compact layout')
+  .option('--no-animations', 'Disable animations')
+  .option('--no-colors', 'Disable colored output')
+  .option('-d, --difficulty <level>', 'Game difficulty (easy, normal, hard)', 'normal')
+  .action(async (options) => {
+    try {
+      await runDailyChallenge(options)
+    } catch (error) {
+      console.error(chalk.red('❌ Error starting challenge:'), error)
+      process.exit(1)
+    }
+  })
+
+// === Save Commands ===
+program
+  .command('saves')
+  .description('List saved games')
+  .action(async () => {
+    try {
+      await listSaves()
+    } catch (error) {
+      console.error(chalk.red('❌ Error reading saves:'), error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('save [slot]')
+  .description('Copy the auto-save of the last interrupted game into a manual slot (1-3)')
+  .action(async (slot?: string) => {
+    try {
+      await saveAutoSaveToSlot(slot ?? SaveSlotService.MANUAL_SAVE_SLOTS[0])
+    } catch (error) {
+      console.error(chalk.red('❌ Error saving game:'), error)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('load <slot>')
+  .description('Resume a saved game (slot: auto, 1, 2, 3)')
+  .option('-t, --theme <theme>', 'UI theme (default, dark, colorful, minimal, matrix)', 'default')
+  .option('-s, --speed <speed>', 'Animation speed (slow, normal, fast, off)', 'normal')
+  .option('-c, --compact', 'Use compact layout')
+  .option('--no-animations', 'Disable animations')
+  .option('--no-colors', 'Disable colored output')
+  .action(async (slot: string, options) => {
+    try {
+      await loadSavedGame(slot, options)
+    } catch (error) {
+      console.error(chalk.red('❌ Error loading game:'), error)
+      process.exit(1)
+    }
+  })
+
 // === Demo Mode Command ===
 program
   .command('demo')
   .description('Watch AI play the game automatically')
   .option('-s, --speed <speed>', 'Demo speed (slow, normal, fast, turbo)', 'normal')
   .option('-t, --theme <theme>', 'UI theme', 'default')
-  .option('--strategy <strategy>', 'AI strategy (smart, aggressive, conservative)', 'smart')
+  .option('--strategy <bot>', `Bot that plays (${BotRegistry.getNames().join(', ')})`, DEFAULT_DEMO_BOT)
+  .option('-m, --model <path>', 'Trained model file to play instead of --strategy (see: advanced ai train)')
   .option('-g, --games <count>', 'Number of games to play', '1')
   .option('-d, --difficulty <level>', 'Game difficulty (easy, normal, hard)', 'normal')
   .option('--pause', 'Allow pausing during demo')
@@ -105,6 +186,8 @@ program
   .option('-t, --theme <theme>', 'UI theme', 'default')
   .option('-d, --difficulty <level>', 'Game difficulty', 'normal')
   .option('--log-level <level>', 'Debug log level', 'info')
+  .option('--replay <file>', 'Step through a recorded .replay.json instead of playing')
+  .option('--save-replay <file>', 'Save the played game as a .replay.json when it ends')
   .action(async (options) => {
     try {
       await runDebugMode(options)
@@ -156,47 +239,258 @@ async function main() {
 
 async function runInteractiveGame(options: any): Promise<void> {
   const config = createCUIConfig(options)
-  const gameConfig = createGameConfig(options)
+  // 通常プレイでは動的難易度を有効にする
+  const gameConfig: GameConfig = { ...createGameConfig(options), dynamicDifficulty: true }
 
   const renderer = new InteractiveCUIRenderer(config)
-  const controller = GameControllerFactory.create(gameConfig, renderer)
+  const achievements = await loadAchievementTracker()
+  const controller = GameControllerFactory.create(gameConfig, renderer, achievements)
 
   console.log(chalk.green('🎮 Starting interactive game...'))
 
-  const stats = await controller.playGame()
+  const stats = await playSession(controller, renderer, achievements)
+  if (stats) {
+    showFinalStatistics(controller.getGameState(), stats)
+  }
+}
 
+function showFinalStatistics(game: Game, stats: PlayerStats): void {
   console.log(chalk.blue('\n🎯 Final Statistics:'))
   console.log(`Games Played: 1`)
   console.log(`Outcome: ${stats.totalChallenges > 0 ? 'Completed' : 'Incomplete'}`)
   console.log(`Success Rate: ${((stats.successfulChallenges / Math.max(stats.totalChallenges, 1)) * 100).toFixed(1)}%`)
+
+  if (game.isEndlessMode()) {
+    console.log(chalk.magenta(`♾️  Turns Survived: ${game.getTurnsSurvived()} (endless level ${game.getEndlessLevel()})`))
+  }
+}
+
+async function runDailyChallenge(options: any): Promise<void> {
+  const date = options.date ? new Date(`${options.date}T00:00:00Z`) : new Date()
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${options.date}`)
+  }
+
+  let challenge: DailyChallenge = options.weekly
+    ? ReplayabilityService.generateWeeklyChallenge(ReplayabilityService.getWeekStart(date))
+    : ReplayabilityService.generateDailyChallenge(date)
+  // Continue from earlier attempts (a cleared challenge stays cleared, the best score is kept)
+  challenge = ReplayabilityService.startChallenge(await saveStorage.loadChallengeProgress(challenge))
+
+  showChallengeRules(challenge)
+
+  const config = createCUIConfig(options)
+  const gameConfig = ReplayabilityService.createChallengeGameConfig(challenge, createGameConfig(options))
+
+  const renderer = new InteractiveCUIRenderer(config)
+  const achievements = await loadAchievementTracker()
+  const controller = GameControllerFactory.create(gameConfig, renderer, achievements)
+
+  if (await playSession(controller, renderer, achievements, challenge)) {
+    await showChallengeOutcome(challenge, controller.getGameState())
+  }
+}
+
+/**
+ * Record the finished attempt, save the challenge progress and show the result
+ */
+async function showChallengeOutcome(challenge: DailyChallenge, game: Game): Promise<void> {
+  const endedAt = game.completedAt ?? new Date()
+  const elapsedSeconds = game.startedAt ? Math.floor((endedAt.getTime() - game.startedAt.getTime()) / 1000) : 0
+  challenge = ReplayabilityService.recordChallengeAttempt(challenge, {
+    outcome: game.status === 'victory' ? 'victory' : 'game_over',
+    score: game.score,
+    elapsedSeconds
+  })
+  await saveStorage.saveChallengeProgress(challenge)
+
+  const completed = challenge.completionStatus === 'completed'
+  console.log(chalk.blue(`\n📅 ${challenge.name} (${challenge.date})`))
+  console.log(`Result: ${completed ? chalk.green('Cleared') : chalk.red('Failed')}`)
+  console.log(`Score: ${game.score} (best ${challenge.bestScore ?? game.score})`)
+  console.log(`Time: ${elapsedSeconds}s${challenge.rules.timeLimit !== undefined ? ` / ${challenge.rules.timeLimit}s` : ''}`)
+  if (completed) {
+    console.log(chalk.yellow(`Reward: +${challenge.rewards.experience} EXP${challenge.rewards.title ? `, title "${challenge.rewards.title}"` : ''}`))
+  }
+}
+
+/**
+ * Create an achievement tracker that continues from the saved achievements
+ */
+async function loadAchievementTracker(): Promise<AchievementTracker> {
+  const tracker = new AchievementTracker()
+  const saved = await saveStorage.loadAchievements()
+  if (saved) {
+    tracker.restore(saved)
+  }
+  return tracker
+}
+
+/**
+ * Play a game with the in-game save command enabled
+ * Returns the final stats, or null when the game was interrupted (progress goes to the auto slot)
+ * Achievements are saved once the game is finished
+ */
+async function playSession(
+  controller: GameController,
+  renderer: InteractiveCUIRenderer,
+  achievements: AchievementTracker,
+  challenge?: DailyChallenge
+): Promise<PlayerStats | null> {
+  activeSession = { controller, ...(challenge ? { challenge } : {}) }
+  renderer.setSaveHandler(slotId => saveSession(slotId))
+
+  try {
+    const stats = await controller.playGame()
+
+    // Ctrl-C inside a prompt ends playGame() without finishing the game
+    if (controller.getGameState().status === 'in_progress') {
+      await saveSession(SaveSlotService.AUTO_SAVE_SLOT)
+      console.log(chalk.yellow('💾 Progress saved. Resume with: pnpm cui load auto'))
+      return null
+    }
+
+    // A finished game is no longer resumable
+    await saveStorage.deleteSaveData(SaveSlotService.AUTO_SAVE_SLOT)
+    await saveStorage.saveAchievements(achievements.getAchievements())
+    return stats
+  } finally {
+    activeSession = null
+  }
+}
+
+/**
+ * Save the active game into a slot (a game in mid-turn is saved as of the start of that turn)
+ */
+async function saveSession(slotId: string): Promise<void> {
+  if (!activeSession) return
+  const { controller, challenge } = activeSession
+  await saveStorage.saveSaveData(slotId, SaveSlotService.createSaveData(controller.getSavableGame(), challenge))
+}
+
+async function listSaves(): Promise<void> {
+  const saves = await saveStorage.getAllSaveData()
+
+  console.log(chalk.blue('💾 Saved Games:'))
+  for (const slotId of SAVE_SLOTS) {
+    const save = saves.find(data => data.id === slotId)
+    console.log(`  ${slotId.padEnd(5)} ${save ? describeSave(save) : chalk.gray('(empty)')}`)
+  }
+}
+
+async function saveAutoSaveToSlot(slotId: string): Promise<void> {
+  if (!(SaveSlotService.MANUAL_SAVE_SLOTS as readonly string[]).includes(slotId)) {
+    throw new Error(`Unknown save slot: ${slotId} (use ${SaveSlotService.MANUAL_SAVE_SLOTS.join(', ')})`)
+  }
+
+  const autoSave = await saveStorage.loadSaveData(SaveSlotService.AUTO_SAVE_SLOT)
+  if (!autoSave) {
+    console.log(chalk.yellow('No auto-save to copy. Use the in-game save command, or interrupt a game with Ctrl-C first.'))
+    return
+  }
+
+  await saveStorage.saveSaveData(slotId, autoSave)
+  console.log(chalk.green(`💾 Saved to slot ${slotId}: `) + describeSave(autoSave))
+}
+
+async function loadSavedGame(slotId: string, options: any): Promise<void> {
+  if (!SAVE_SLOTS.includes(slotId)) {
+    throw new Error(`Unknown save slot: ${slotId} (use ${SAVE_SLOTS.join(', ')})`)
+  }
+
+  const saveData = await saveStorage.loadSaveData(slotId)
+  if (!saveData || !SaveSlotService.isResumable(saveData)) {
+    console.log(chalk.yellow(`No resumable game in slot ${slotId}. Run "pnpm cui saves" to list saved games.`))
+    return
+  }
+
+  // The challenge may have been attempted again since this game was saved
+  const challenge = saveData.metadata.challenge && await saveStorage.loadChallengeProgress(saveData.metadata.challenge)
+  if (challenge) {
+    showChallengeRules(challenge)
+  }
+
+  const renderer = new InteractiveCUIRenderer(createCUIConfig(options))
+  const game = SaveSlotService.restoreGame(saveData)
+  const achievements = await loadAchievementTracker()
+  const controller = GameControllerFactory.resume(game, renderer, achievements)
+
+  console.log(chalk.green(`🎮 Resuming slot ${slotId}: `) + describeSave(saveData))
+
+  const stats = await playSession(controller, renderer, achievements, challenge)
+  if (!stats) return
+
+  if (challenge) {
+    await showChallengeOutcome(challenge, game)
+  } else {
+    showFinalStatistics(game, stats)
+  }
+}
+
+function describeSave(save: SaveData): string {
+  const { preview, savedAt, challenge } = save.metadata
+  const parts = [
+    `${preview.stage} turn ${preview.turn}`,
+    `vitality ${preview.vitality}/${preview.maxVitality}`,
+    `insurance: ${preview.insurances.join(', ') || 'none'}`
+  ]
+  if (preview.dreamName) parts.push(`dream: ${preview.dreamName}`)
+  if (preview.isEndless) parts.push('endless')
+  if (challenge) parts.push(challenge.name)
+  if (!SaveSlotService.isResumable(save)) parts.push('finished')
+
+  return `${parts.join(' | ')} ${chalk.gray(`(${new Date(savedAt).toLocaleString()})`)}`
+}
+
+function showChallengeRules(challenge: DailyChallenge): void {
+  console.log(chalk.magenta(`📅 ${challenge.name} (${challenge.date})`))
+  console.log(chalk.gray(challenge.description))
+
+  const { rules } = challenge
+  rules.specialConditions?.forEach(condition => console.log(`  • ${condition}`))
+  if (rules.timeLimit !== undefined) {
+    console.log(`  ⏱  Time limit: ${rules.timeLimit}s`)
+  }
+  if (rules.startingCards?.length) {
+    console.log(`  🃏 Starting deck: ${rules.startingCards.join(', ')}`)
+  }
+  if (rules.bannedCards?.length) {
+    console.log(`  🚫 Banned: ${rules.bannedCards.join(', ')}`)
+  }
+  if (rules.modifiers?.vitalityMultiplier) {
+    console.log(`  ❤️  Starting vitality x${rules.modifiers.vitalityMultiplier}`)
+  }
+  if (rules.modifiers?.experienceMultiplier) {
+    console.log(`  ✨ Experience x${rules.modifiers.experienceMultiplier}`)
+  }
+  if (rules.modifiers?.cardRarityBonus) {
+    console.log(`  💎 Rarer reward cards (+${rules.modifiers.cardRarityBonus})`)
+  }
+  console.log()
 }
 
 async function runDemoMode(options: any): Promise<void> {
   const config = createCUIConfig(options)
   const gameConfig = createGameConfig(options)
   const gamesCount = parseInt(options.games) || 1
+  const botName = resolveDemoBotName(options.strategy)
+  if (!BotRegistry.has(botName)) {
+    throw new Error(`Unknown bot: ${options.strategy} (available: ${BotRegistry.getNames().join(', ')})`)
+  }
+  const model = options.model ? TrainedModels.parse(await readFile(options.model, 'utf8')) : undefined
 
   console.log(chalk.magenta('🎭 Starting demo mode...'))
+  if (model) {
+    console.log(chalk.gray(`🧠 ${model.name} (${model.episodes} training episodes)`))
+  }
 
   for (let i = 0; i < gamesCount; i++) {
     if (gamesCount > 1) {
       console.log(chalk.cyan(`\n🎮 Game ${i + 1}/${gamesCount}`))
     }
 
-    const renderer = new DemoModeRenderer(config, options.speed)
-
-    // Set strategy
-    switch (options.strategy) {
-      case 'aggressive':
-        renderer.setDemoStrategy(new AggressiveDemoStrategy())
-        break
-      case 'conservative':
-        renderer.setDemoStrategy(new ConservativeDemoStrategy())
-        break
-      default:
-        renderer.setDemoStrategy(new SmartDemoStrategy())
-    }
-
+    const bot = model ? TrainedModels.createBot(model) : BotRegistry.create(botName)
+    const renderer = new DemoModeRenderer(config, options.speed, bot)
     const controller = GameControllerFactory.create(gameConfig, renderer)
 
     if (options.pause && i === 0) {
@@ -281,11 +575,24 @@ async function runDebugMode(options: any): Promise<void> {
   console.log(chalk.red('🐛 Starting debug mode...'))
 
   const renderer = new DebugModeRenderer(config)
+
+  if (options.replay) {
+    const replay = GameReplayer.parse(await readFile(options.replay, 'utf-8'))
+    await renderer.stepThroughReplay(replay)
+    return
+  }
+
   const controller = GameControllerFactory.create(gameConfig, renderer)
 
   controller.setDebugMode(true)
 
   await controller.playGame()
+
+  if (options.saveReplay) {
+    const replay = GameReplayer.createReplay(controller.getGameState())
+    await writeFile(options.saveReplay, JSON.stringify(replay, null, 2))
+    console.log(chalk.green(`✅ Replay saved: ${options.saveReplay} (${replay.actions.length} actions)`))
+  }
 }
 
 async function manageConfig(options: any): Promise<void> {
@@ -344,7 +651,8 @@ function createGameConfig(options: any): GameConfig {
     startingVitality: parseInt(options.vitality) || difficulty.startingVitality,
     startingHandSize: parseInt(options.handSize) || difficulty.startingHandSize,
     maxHandSize: difficulty.maxHandSize,
-    dreamCardCount: 2
+    dreamCardCount: 2,
+    ...(options.endless ? { endless: true } : {})
   }
 }
 
@@ -371,10 +679,24 @@ Basic Gameplay:
   pnpm cui:play                          # Start interactive game
   pnpm cui:play --theme dark             # Use dark theme
   pnpm cui:play --compact --no-animations # Minimal interface
+  pnpm cui:play --endless                # Survive past the fulfillment stage
+
+Saving & Resuming:
+  pnpm cui saves                         # List saved games (save-data/)
+  pnpm cui load auto                     # Resume the game interrupted with Ctrl-C
+  pnpm cui load 2                        # Resume manual slot 2
+  pnpm cui save 1                        # Keep the auto-save in slot 1
+  (choose "💾 セーブする" at the start of a turn to save during play)
+
+Daily Challenges:
+  pnpm cui:daily                         # Today's seeded challenge
+  pnpm cui:daily --weekly                # This week's challenge
+  pnpm cui:daily --date 2026-01-01       # Replay a past day's challenge
 
 Demo & Testing:
   pnpm cui:demo --speed fast             # Fast AI demo
-  pnpm cui:demo --strategy aggressive    # Aggressive AI play
+  pnpm cui:demo --strategy Advanced      # Watch any registered bot play
+  pnpm cui:demo --model ai-model.json    # Watch a trained model play
   pnpm cui:benchmark --games 1000        # Performance test
 
 Learning:
@@ -424,8 +746,16 @@ process.on('unhandledRejection', (reason) => {
   process.exit(1)
 })
 
-// Graceful shutdown
-process.on('SIGINT', () => {
+// Graceful shutdown (the game in progress is kept in the auto slot)
+process.on('SIGINT', async () => {
+  if (activeSession) {
+    try {
+      await saveSession(SaveSlotService.AUTO_SAVE_SLOT)
+      console.log(chalk.yellow('\n💾 Progress saved. Resume with: pnpm cui load auto'))
+    } catch (error) {
+      console.error(chalk.red('\n❌ Failed to save progress:'), error)
+    }
+  }
   console.log(chalk.yellow('\n👋 Game interrupted. Thanks for playing!'))
   process.exit(0)
 })
@@ -3,11 +3,14 @@
  * Export all CUI components for easy importing
  */
 
+import { DemoModeRenderer, DEFAULT_DEMO_BOT, resolveDemoBotName } from './modes/DemoMode'
+import { BotRegistry } from '../ai/BotRegistry'
+
 // Main Renderers
 export { InteractiveCUIRenderer } from './renderers/InteractiveCUIRenderer'
 
 // Specialized Modes
-export { DemoModeRenderer, SmartDemoStrategy, AggressiveDemoStrategy, ConservativeDemoStrategy } from './modes/DemoMode'
+export { DemoModeRenderer, SmartDemoStrategy, AggressiveDemoStrategy, ConservativeDemoStrategy, resolveDemoBotName } from './modes/DemoMode'
 export { BenchmarkModeRenderer } from './modes/BenchmarkMode'
 export { TutorialModeRenderer } from './modes/TutorialMode'
 export { DebugModeRenderer } from './modes/DebugMode'
@@ -54,26 +57,13 @@ export function createInteractiveCUI(theme: 'default' | 'dark' | 'colorful' | 'm
 }
 
 /**
- * Create a demo mode renderer with specified strategy
+ * Create a demo mode renderer played by the named bot (BotRegistry name or smart / aggressive / conservative)
  */
 export function createDemoCUI(
-  strategy: 'smart' | 'aggressive' | 'conservative' = 'smart',
+  strategy: string = DEFAULT_DEMO_BOT,
   speed: 'slow' | 'normal' | 'fast' | 'turbo' = 'normal'
 ) {
-  const renderer = new DemoModeRenderer({}, speed)
-  
-  switch (strategy) {
-    case 'aggressive':
-      renderer.setDemoStrategy(new AggressiveDemoStrategy())
-      break
-    case 'conservative':
-      renderer.setDemoStrategy(new ConservativeDemoStrategy())
-      break
-    default:
-      renderer.setDemoStrategy(new SmartDemoStrategy())
-  }
-  
-  return renderer
+  return new DemoModeRenderer({}, speed, BotRegistry.create(resolveDemoBotName(strategy)))
 }
 
 /**
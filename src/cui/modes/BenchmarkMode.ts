@@ -1,6 +1,7 @@
 import { InteractiveCUIRenderer } from '../renderers/InteractiveCUIRenderer'
 import type { Card } from '@/domain/entities/Card'
-import type { PlayerStats } from '@/domain/types/game.types'
+import type { PendingInsuranceClaim, PlayerStats } from '@/domain/types/game.types'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
 import type { CUIConfig } from '../config/CUIConfig'
 import chalk from 'chalk'
 import cliProgress from 'cli-progress'
@@ -88,6 +89,16 @@ export class BenchmarkModeRenderer extends InteractiveCUIRenderer {
     return cost <= 3 ? 'renew' : 'expire'
   }
 
+  override async askInsuranceClaim(_claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    // Claim whenever the insurance actually pays out
+    return payout.amount > 0 || payout.effect === 'skip_challenge'
+  }
+
+  override async askLifeEventChoice(): Promise<number> {
+    // Always take the first option
+    return 0
+  }
+
   async askConfirmation(message: string, defaultChoice: 'yes' | 'no' = 'no'): Promise<'yes' | 'no'> {
     return defaultChoice
   }
@@ -1,11 +1,13 @@
 import { InteractiveCUIRenderer } from '../renderers/InteractiveCUIRenderer'
 import type { Game } from '@/domain/entities/Game'
 import type { Card } from '@/domain/entities/Card'
-import type { PlayerStats, ChallengeResult } from '@/domain/types/game.types'
+import type { PlayerStats, ChallengeResult, GameAction, GameReplay } from '@/domain/types/game.types'
+import { GameReplayer } from '@/domain/services/GameReplayer'
 import type { CUIConfig } from '../config/CUIConfig'
 import chalk from 'chalk'
 import boxen from 'boxen'
 import inquirer from 'inquirer'
+import { readFile, writeFile } from 'fs/promises'
 
 /**
  * Debug Mode Renderer
@@ -14,6 +16,7 @@ import inquirer from 'inquirer'
 export class DebugModeRenderer extends InteractiveCUIRenderer {
   private debugLog: DebugLogEntry[] = []
   private debugCommands: Map<string, DebugCommand> = new Map()
+  private replayer: GameReplayer | null = null
 
   constructor(config?: Partial<CUIConfig>) {
     super({
@@ -186,6 +189,11 @@ export class DebugModeRenderer extends InteractiveCUIRenderer {
       description: 'Simulate challenge outcomes',
       handler: (args, game) => this.simulateChallenge(args, game)
     })
+
+    this.debugCommands.set('replay', {
+      description: 'Save, load, step through and verify .replay.json files',
+      handler: (args, game) => this.handleReplayCommand(args, game)
+    })
   }
 
   private async showDebugHelp(): Promise<void> {
@@ -205,6 +213,10 @@ Examples:
   debug state - Show detailed game state  
   debug memory - Show memory usage
   debug export - Export debug data to JSON
+  debug replay save bug.replay.json - Save the current game as a replay
+  debug replay load bug.replay.json - Load a replay for stepping
+  debug replay step [count] - Apply the next action(s) of the loaded replay
+  debug replay verify - Run the rest of the replay and compare the end state
 `
 
     const helpBox = boxen(helpText.trim(), {
@@ -390,6 +402,128 @@ Examples:
     })
   }
 
+  // === Replay ===
+
+  /**
+   * Step through a replay interactively, then verify its end state
+   */
+  async stepThroughReplay(replay: GameReplay): Promise<void> {
+    this.replayer = new GameReplayer(replay)
+    console.log(chalk.red(`🐛 Replay loaded: ${replay.actions.length} actions (seed: ${replay.config.seed})`))
+
+    while (this.replayer.hasNext()) {
+      const { next } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'next',
+          message: `Action ${this.replayer.getPosition() + 1}/${replay.actions.length}:`,
+          choices: [
+            { name: 'Step', value: 'step' },
+            { name: 'Show state', value: 'state' },
+            { name: 'Run to end', value: 'end' }
+          ]
+        }
+      ])
+
+      if (next === 'state') {
+        this.showDetailedGameState(this.replayer.getGame())
+      } else if (next === 'end') {
+        break
+      } else {
+        await this.stepReplay(1)
+      }
+    }
+
+    await this.verifyReplay()
+  }
+
+  private async handleReplayCommand(args: string[], game?: Game): Promise<void> {
+    const [subcommand, arg] = args
+
+    switch (subcommand) {
+      case 'save': {
+        if (!game) {
+          console.log(chalk.red('❌ No game state available'))
+          return
+        }
+        const path = arg || `game-${game.getSeed()}.replay.json`
+        const replay = GameReplayer.createReplay(game)
+        await writeFile(path, JSON.stringify(replay, null, 2))
+        console.log(chalk.green(`✅ Replay saved: ${path} (${replay.actions.length} actions)`))
+        this.logDebug(`Replay saved: ${path}`, 'system')
+        break
+      }
+      case 'load': {
+        if (!arg) {
+          console.log(chalk.red('❌ Usage: debug replay load <file>'))
+          return
+        }
+        const replay = GameReplayer.parse(await readFile(arg, 'utf-8'))
+        this.replayer = new GameReplayer(replay)
+        console.log(chalk.green(`✅ Replay loaded: ${arg} (${replay.actions.length} actions, seed: ${replay.config.seed})`))
+        this.logDebug(`Replay loaded: ${arg}`, 'system')
+        break
+      }
+      case 'step':
+        await this.stepReplay(Number(arg) || 1)
+        break
+      case 'verify':
+        await this.verifyReplay()
+        break
+      default:
+        console.log(chalk.red('❌ Usage: debug replay <save|load|step|verify> [arg]'))
+    }
+  }
+
+  private async stepReplay(count: number): Promise<void> {
+    if (!this.replayer) {
+      console.log(chalk.red('❌ No replay loaded'))
+      return
+    }
+
+    for (let i = 0; i < count && this.replayer.hasNext(); i++) {
+      const action = await this.replayer.step()
+      if (!action) break
+
+      const game = this.replayer.getGame()
+      console.log(
+        chalk.yellow(`#${this.replayer.getPosition()} ${this.formatAction(action)}`) +
+        chalk.dim(` → ${game.stage} T${game.turn} ${game.phase} | Vitality ${game.vitality}/${game.maxVitality}`)
+      )
+      this.logDebug(`Replay step ${this.replayer.getPosition()}: ${action.type}`, 'input')
+    }
+
+    if (!this.replayer.hasNext()) {
+      console.log(chalk.dim('End of replay'))
+    }
+  }
+
+  private async verifyReplay(): Promise<void> {
+    if (!this.replayer) {
+      console.log(chalk.red('❌ No replay loaded'))
+      return
+    }
+
+    await this.replayer.runToEnd()
+    const result = this.replayer.verify()
+
+    if (result.matches) {
+      console.log(chalk.green(`✅ Replay matches the recorded end state (${result.actionCount} actions)`))
+    } else {
+      console.log(chalk.red(`❌ Replay diverged from the recorded end state:`))
+      result.differences.forEach(difference => console.log(chalk.dim(`  ${difference}`)))
+    }
+    this.logDebug(`Replay verified: ${result.matches ? 'MATCH' : 'DIVERGED'}`, 'system')
+  }
+
+  private formatAction(action: GameAction): string {
+    const { type, ...params } = action
+    const details = Object.entries(params)
+      .map(([key, value]) => key === 'card' ? `card=${(value as { name: string }).name}` : `${key}=${value}`)
+      .join(' ')
+    return details ? `${type} ${details}` : type
+  }
+
   // === Utility Methods ===
 
   private logDebug(message: string, type: DebugLogType): void {
@@ -1,17 +1,52 @@
 import { InteractiveCUIRenderer } from '../renderers/InteractiveCUIRenderer'
 import type { Card } from '@/domain/entities/Card'
+import type { Game } from '@/domain/entities/Game'
+import type { PendingInsuranceClaim } from '@/domain/types/game.types'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '@/domain/services/ReplayabilityService'
 import type { CUIConfig } from '../config/CUIConfig'
+import type { Bot } from '@/ai/Bot'
+import { BotGameRenderer } from '@/ai/BotGameRenderer'
+import { BotRegistry } from '@/ai/BotRegistry'
 import chalk from 'chalk'
 
+export type { DemoStrategy } from '@/ai/DemoStrategies'
+export { SmartDemoStrategy, AggressiveDemoStrategy, ConservativeDemoStrategy } from '@/ai/DemoStrategies'
+
+/**
+ * Bot played by `cui demo` when no strategy is given
+ */
+export const DEFAULT_DEMO_BOT = 'Demo-Smart'
+
+// Names `cui demo --strategy` accepted before it took any bot name
+const LEGACY_DEMO_STRATEGIES: Record<string, string> = {
+  smart: 'Demo-Smart',
+  aggressive: 'Demo-Aggressive',
+  conservative: 'Demo-Conservative'
+}
+
+/**
+ * Registry name of the bot for a `--strategy` value (bot name or one of the old demo strategy names)
+ */
+export function resolveDemoBotName(strategy: string = DEFAULT_DEMO_BOT): string {
+  return BotRegistry.has(strategy) ? strategy : LEGACY_DEMO_STRATEGIES[strategy] ?? strategy
+}
+
 /**
  * Demo Mode Renderer
- * Automated gameplay demonstration with configurable speed
+ * Automated gameplay demonstration with configurable speed.
+ * Every prompt is answered by a bot from BotRegistry; this renderer shows what it decided.
  */
 export class DemoModeRenderer extends InteractiveCUIRenderer {
   private demoSpeed: 'slow' | 'normal' | 'fast' | 'turbo'
-  private demoStrategy: DemoStrategy
-
-  constructor(config?: Partial<CUIConfig>, speed: 'slow' | 'normal' | 'fast' | 'turbo' = 'normal') {
+  private botRenderer: BotGameRenderer
+  private game?: Game
+
+  constructor(
+    config?: Partial<CUIConfig>,
+    speed: 'slow' | 'normal' | 'fast' | 'turbo' = 'normal',
+    bot: Bot = BotRegistry.create(DEFAULT_DEMO_BOT)
+  ) {
     super({
       ...config,
       autoAdvance: true,
@@ -20,7 +55,7 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
     })
 
     this.demoSpeed = speed
-    this.demoStrategy = new SmartDemoStrategy()
+    this.botRenderer = new BotGameRenderer(bot)
   }
 
   override async initialize(): Promise<void> {
@@ -28,11 +63,18 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
 
     console.log(chalk.bold.magenta('🎭 デモモード開始'))
     console.log(chalk.gray(`速度: ${this.demoSpeed.toUpperCase()}`))
+    console.log(chalk.gray(`ボット: ${this.botRenderer.bot.name}`))
     console.log(chalk.gray('AIが自動的にゲームをプレイする様子をご覧ください...\n'))
 
     await this.delay(this.getDemoDelay() * 3)
   }
 
+  override displayGameState(game: Game): void {
+    this.game = game
+    this.botRenderer.displayGameState(game)
+    super.displayGameState(game)
+  }
+
   // === Automated Input Methods ===
 
   override async askCardSelection(
@@ -50,8 +92,7 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
 
     await this.delay(this.getDemoDelay())
 
-    // Use strategy to select cards
-    const selectedCards = this.demoStrategy.selectCards(cards, minSelection, maxSelection)
+    const selectedCards = await this.botRenderer.askCardSelection(cards, minSelection, maxSelection, message)
 
     // Show selection process
     if (selectedCards.length > 0) {
@@ -68,11 +109,11 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
   }
 
   override async askChallengeAction(challenge: Card): Promise<'start' | 'skip'> {
-    console.log('\n' + chalk.bold.yellow('🤖 AIが課題を評価中...'))
+    console.log('\n' + chalk.bold.yellow(`🤖 AIが課題「${challenge.name}」を評価中...`))
 
     await this.delay(this.getDemoDelay())
 
-    const action = this.demoStrategy.decideChallengeAction(challenge)
+    const action = await this.botRenderer.askChallengeAction()
 
     const actionText = action === 'start' ?
       chalk.green('⚔️ AIは課題への挑戦を決定しました！') :
@@ -89,7 +130,7 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
 
     await this.delay(this.getDemoDelay())
 
-    const choice = this.demoStrategy.chooseInsuranceType(availableTypes)
+    const choice = await this.botRenderer.askInsuranceTypeChoice(availableTypes)
     const typeName = choice === 'whole_life' ? '終身保険' : '定期保険'
 
     console.log(chalk.cyan(`🛡️ AIの選択: ${typeName}`))
@@ -104,7 +145,7 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
 
     await this.delay(this.getDemoDelay())
 
-    const decision = this.demoStrategy.decideInsuranceRenewal(insurance, cost)
+    const decision = await this.botRenderer.askInsuranceRenewalChoice(insurance)
 
     const decisionText = decision === 'renew' ?
       chalk.green(`💰 AIは保険の更新を決定しました (コスト: ${cost})`) :
@@ -116,13 +157,81 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
     return decision
   }
 
+  override async askInsuranceClaim(claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    console.log('\n' + chalk.bold.cyan('🤖 AIが保険の請求を検討中...'))
+    console.log(chalk.gray(`保険: ${claim.insurance.name}, 支払い: ${payout.description}`))
+
+    await this.delay(this.getDemoDelay())
+
+    const accept = await this.botRenderer.askInsuranceClaim()
+    console.log(accept ?
+      chalk.green(`💰 AIは保険を請求しました (${payout.description})`) :
+      chalk.yellow('❌ AIは保険の請求を見送りました'))
+    await this.delay(this.getDemoDelay())
+
+    return accept
+  }
+
+  override async askLifeEventChoice(event: RandomEvent): Promise<number> {
+    console.log('\n' + chalk.bold.magenta(`🤖 AIがライフイベント「${event.name}」の対応を検討中...`))
+    console.log(chalk.gray(event.description))
+
+    await this.delay(this.getDemoDelay())
+
+    const choiceIndex = await this.botRenderer.askLifeEventChoice(event)
+    console.log(chalk.green(`🔀 AIは「${event.choices?.[choiceIndex]?.label}」を選びました`))
+    await this.delay(this.getDemoDelay())
+
+    return choiceIndex
+  }
+
+  override async askDreamSelection(cards: Card[]): Promise<Card> {
+    console.log('\n' + chalk.bold.magenta('🤖 AIが夢を選択中...'))
+
+    await this.delay(this.getDemoDelay())
+
+    const dream = await this.botRenderer.askDreamSelection(cards)
+    console.log(chalk.magenta(`🌟 AIの夢: ${dream.name}`))
+    await this.delay(this.getDemoDelay())
+
+    return dream
+  }
+
+  override async askChallengeSelection(challenges: Card[]): Promise<Card> {
+    console.log('\n' + chalk.bold.yellow('🤖 AIが挑戦する課題を選択中...'))
+    challenges.forEach((challenge, index) => {
+      console.log(chalk.gray(`  ${index + 1}. ${challenge.name}（必要パワー: ${challenge.power}）`))
+    })
+
+    await this.delay(this.getDemoDelay())
+
+    const challenge = await this.botRenderer.askChallengeSelection(challenges)
+    console.log(chalk.green(`⚔️ AIは「${challenge.name}」に挑戦します！`))
+    await this.delay(this.getDemoDelay())
+
+    return challenge
+  }
+
+  override async askInsuranceChoice(cards: Card[], message?: string): Promise<Card> {
+    console.log('\n' + chalk.bold.cyan('🤖 AIが保険を選択中...'))
+    console.log(chalk.gray(message || '保険を選択中...'))
+
+    await this.delay(this.getDemoDelay())
+
+    const insurance = await this.botRenderer.askInsuranceChoice(cards)
+    console.log(chalk.cyan(`🛡️ AIの選択: ${insurance.name}`))
+    await this.delay(this.getDemoDelay())
+
+    return insurance
+  }
+
   override async askConfirmation(message: string, defaultChoice: 'yes' | 'no' = 'no'): Promise<'yes' | 'no'> {
     console.log('\n' + chalk.bold.gray('🤖 AIが決定を下しています...'))
     console.log(chalk.gray(`質問: ${message}`))
 
     await this.delay(this.getDemoDelay())
 
-    const decision = this.demoStrategy.makeConfirmationChoice(message, defaultChoice)
+    const decision = await this.botRenderer.askConfirmation(message, defaultChoice)
     const responseText = decision === 'yes' ?
       chalk.green('✅ AIの回答: はい') :
       chalk.red('❌ AIの回答: いいえ')
@@ -176,11 +285,12 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
   }
 
   /**
-   * Set demo strategy
+   * Set the bot that plays the demo
    */
-  setDemoStrategy(strategy: DemoStrategy): void {
-    this.demoStrategy = strategy
-    console.log(chalk.gray('🎭 デモ戦略更新'))
+  setBot(bot: Bot): void {
+    this.botRenderer = new BotGameRenderer(bot)
+    if (this.game) this.botRenderer.displayGameState(this.game)
+    console.log(chalk.gray(`🎭 デモのボット更新: ${bot.name}`))
   }
 
   /**
@@ -197,120 +307,3 @@ export class DemoModeRenderer extends InteractiveCUIRenderer {
     })
   }
 }
-
-/**
- * Demo Strategy Interface
- * Defines how the AI makes decisions during demo
- */
-export interface DemoStrategy {
-  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[]
-  decideChallengeAction(challenge: Card): 'start' | 'skip'
-  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term'
-  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire'
-  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no'
-}
-
-/**
- * Smart Demo Strategy
- * Makes intelligent decisions based on game state
- */
-export class SmartDemoStrategy implements DemoStrategy {
-  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[] {
-    if (cards.length === 0 || minSelection === 0) {
-      // Sometimes choose not to select anything if optional
-      return Math.random() < 0.3 ? [] : cards.slice(0, Math.min(1, maxSelection))
-    }
-
-    // Sort by power and select highest power cards
-    const sortedCards = [...cards].sort((a, b) => (b.power || 0) - (a.power || 0))
-    const selectionCount = Math.min(
-      maxSelection,
-      Math.max(minSelection, Math.ceil(cards.length * 0.6))
-    )
-
-    return sortedCards.slice(0, selectionCount)
-  }
-
-  decideChallengeAction(challenge: Card): 'start' | 'skip' {
-    // Mostly accept challenges, but sometimes skip for variety
-    return Math.random() < 0.8 ? 'start' : 'skip'
-  }
-
-  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
-    // Prefer whole life insurance if available
-    return availableTypes.includes('whole_life') ? 'whole_life' : availableTypes[0]!
-  }
-
-  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
-    // Renew if cost is reasonable (≤ 3)
-    return cost <= 3 ? 'renew' : 'expire'
-  }
-
-  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no' {
-    // Mostly go with the default, but add some randomness
-    return Math.random() < 0.7 ? defaultChoice : (defaultChoice === 'yes' ? 'no' : 'yes')
-  }
-}
-
-/**
- * Aggressive Demo Strategy
- * Takes more risks and aggressive plays
- */
-export class AggressiveDemoStrategy implements DemoStrategy {
-  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[] {
-    // Always select maximum possible cards
-    return cards.slice(0, maxSelection)
-  }
-
-  decideChallengeAction(challenge: Card): 'start' | 'skip' {
-    // Always accept challenges
-    return 'start'
-  }
-
-  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
-    // Prefer term insurance (cheaper, more risk)
-    return availableTypes.includes('term') ? 'term' : availableTypes[0]!
-  }
-
-  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
-    // Renew only very cheap insurance
-    return cost <= 1 ? 'renew' : 'expire'
-  }
-
-  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no' {
-    // Always say yes to everything
-    return 'yes'
-  }
-}
-
-/**
- * Conservative Demo Strategy
- * Plays it safe and cautious
- */
-export class ConservativeDemoStrategy implements DemoStrategy {
-  selectCards(cards: Card[], minSelection: number, maxSelection: number): Card[] {
-    // Select minimum required cards, prefer low cost
-    const sortedCards = [...cards].sort((a, b) => (a.cost || 0) - (b.cost || 0))
-    return sortedCards.slice(0, minSelection)
-  }
-
-  decideChallengeAction(challenge: Card): 'start' | 'skip' {
-    // Skip challenges with high power requirements
-    return (challenge.power || 0) > 5 ? 'skip' : 'start'
-  }
-
-  chooseInsuranceType(availableTypes: ('whole_life' | 'term')[]): 'whole_life' | 'term' {
-    // Always prefer whole life for security
-    return availableTypes.includes('whole_life') ? 'whole_life' : availableTypes[0]!
-  }
-
-  decideInsuranceRenewal(insurance: Card, cost: number): 'renew' | 'expire' {
-    // Renew most insurance for security
-    return cost <= 5 ? 'renew' : 'expire'
-  }
-
-  makeConfirmationChoice(message: string, defaultChoice: 'yes' | 'no'): 'yes' | 'no' {
-    // Always stick with defaults (conservative)
-    return defaultChoice
-  }
-}
\ No newline at end of file
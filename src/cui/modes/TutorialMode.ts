@@ -1,5 +1,7 @@
 import { InteractiveCUIRenderer } from '../renderers/InteractiveCUIRenderer'
 import type { Card } from '@/domain/entities/Card'
+import type { ChallengeStakes } from '@/domain/types/game.types'
+import type { PremiumBreakdown } from '@/domain/services/InsurancePremiumCalculationService'
 import type { CUIConfig } from '../config/CUIConfig'
 import chalk from 'chalk'
 import boxen from 'boxen'
@@ -91,7 +93,7 @@ export class TutorialModeRenderer extends InteractiveCUIRenderer {
     return selected
   }
 
-  override async askChallengeSelection(challenges: Card[]): Promise<Card> {
+  override async askChallengeSelection(challenges: Card[], stakes?: (ChallengeStakes | undefined)[]): Promise<Card> {
     if (!this.explainedConcepts.has('challenge_selection')) {
       await this.explainChallengeSelection(challenges)
       this.explainedConcepts.add('challenge_selection')
@@ -103,7 +105,7 @@ export class TutorialModeRenderer extends InteractiveCUIRenderer {
     // Analyze simplified
     challenges.forEach(c => this.analyzeChallenge(c))
 
-    const selected = await super.askChallengeSelection(challenges)
+    const selected = await super.askChallengeSelection(challenges, stakes)
 
     return selected
   }
@@ -126,7 +128,7 @@ export class TutorialModeRenderer extends InteractiveCUIRenderer {
     return choice
   }
 
-  override async askInsuranceRenewalChoice(insurance: Card, cost: number): Promise<'renew' | 'expire'> {
+  override async askInsuranceRenewalChoice(insurance: Card, cost: number, breakdown?: PremiumBreakdown): Promise<'renew' | 'expire'> {
     if (!this.explainedConcepts.has('insurance_renewal')) {
       await this.explainInsuranceRenewal()
       this.explainedConcepts.add('insurance_renewal')
@@ -137,7 +139,7 @@ export class TutorialModeRenderer extends InteractiveCUIRenderer {
 
     await this.analyzeInsuranceRenewal(insurance, cost)
 
-    const decision = await super.askInsuranceRenewalChoice(insurance, cost)
+    const decision = await super.askInsuranceRenewalChoice(insurance, cost, breakdown)
 
     await this.explainRenewalChoice(insurance, cost, decision)
 
@@ -1,7 +1,12 @@
 import type { GameRenderer } from '@/interfaces/GameRenderer'
 import type { Game } from '@/domain/entities/Game'
 import type { Card } from '@/domain/entities/Card'
-import type { PlayerStats, ChallengeResult } from '@/domain/types/game.types'
+import type { PlayerStats, ChallengeResult, ChallengeStakes, PendingInsuranceClaim } from '@/domain/types/game.types'
+import type { Achievement } from '@/domain/services/AchievementSystemService'
+import type { PremiumBreakdown } from '@/domain/services/InsurancePremiumCalculationService'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '@/domain/services/ReplayabilityService'
+import { SaveSlotService } from '@/domain/services/SaveSlotService'
 
 import { CUIConfigManager, type CUIConfig } from '../config/CUIConfig'
 import { CardRenderer } from '../utils/CardRenderer'
@@ -25,6 +30,8 @@ export class InteractiveCUIRenderer implements GameRenderer {
   protected animationHelper!: AnimationHelper
   private isWaitingInput: boolean = false
   private isInitialized: boolean = false
+  // In-game save command (offered at challenge selection when set)
+  private saveHandler: ((slotId: string) => Promise<void>) | undefined
 
   constructor(config?: Partial<CUIConfig>) {
     this.configManager = new CUIConfigManager(config)
@@ -40,6 +47,14 @@ export class InteractiveCUIRenderer implements GameRenderer {
     this.animationHelper = new AnimationHelper(config, theme)
   }
 
+  /**
+   * Enable the in-game save command
+   * The handler receives the manual slot chosen by the player
+   */
+  setSaveHandler(handler: ((slotId: string) => Promise<void>) | undefined): void {
+    this.saveHandler = handler
+  }
+
   // === GameRenderer Implementation ===
 
   async initialize(): Promise<void> {
@@ -84,6 +99,13 @@ export class InteractiveCUIRenderer implements GameRenderer {
       game.status === 'game_over' ? 'red' : 'yellow'
     lines.push(chalk[statusColor as keyof typeof chalk](`📊 ステータス: ${game.status}`))
 
+    // 発動中のイベント・ライフイベントの一時効果
+    game.activeEvents.forEach(event => {
+      const power = event.power !== 0 ? ` ${event.power > 0 ? '+' : ''}${event.power}` : ''
+      const effects = event.effects?.length ? chalk.gray(` (${event.effects.join(' / ')})`) : ''
+      lines.push(chalk.magenta(`🔀 ${event.name}${power} 残り${event.remainingTurns}ターン`) + effects)
+    })
+
     console.log('\n' + lines.join('\n'))
 
     // カード枚数情報を表示
@@ -329,7 +351,7 @@ export class InteractiveCUIRenderer implements GameRenderer {
     return selected[0] || cards[0]
   }
 
-  async askInsuranceRenewalChoice(insurance: Card, cost: number): Promise<'renew' | 'expire'> {
+  async askInsuranceRenewalChoice(insurance: Card, cost: number, breakdown?: PremiumBreakdown): Promise<'renew' | 'expire'> {
     this.isWaitingInput = true
 
     try {
@@ -341,6 +363,20 @@ export class InteractiveCUIRenderer implements GameRenderer {
       })
       console.log(insuranceDisplay)
 
+      // 更新保険料の内訳（基本コストから順に調整）
+      if (breakdown) {
+        console.log(chalk.bold('💴 更新保険料の内訳:'))
+        console.log(`  基本コスト: ${breakdown.basePremium}`)
+        breakdown.adjustments.forEach(adjustment => {
+          const rate = `×${adjustment.multiplier.toFixed(2)}`
+          const colored = adjustment.multiplier > 1 ? chalk.red(rate) : adjustment.multiplier < 1 ? chalk.green(rate) : chalk.gray(rate)
+          console.log(`  ${adjustment.label}: ${colored} → ${adjustment.premium}`)
+        })
+        if (breakdown.minimumApplied) {
+          console.log(chalk.gray(`  最低保険料を適用: ${breakdown.total}`))
+        }
+      }
+
       const { choice } = await inquirer.prompt([
         {
           type: 'list',
@@ -360,12 +396,91 @@ export class InteractiveCUIRenderer implements GameRenderer {
     }
   }
 
+  async askInsuranceClaim(claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean> {
+    this.isWaitingInput = true
+
+    try {
+      console.log('\n' + chalk.bold.cyan('🛡️ 保険の請求:'))
+
+      const insuranceDisplay = this.cardRenderer.renderCard(claim.insurance, {
+        style: 'detailed',
+        selected: true
+      })
+      console.log(insuranceDisplay)
+
+      // 支払い見込み（一部支払い・免責があれば計算式も示す）
+      console.log(chalk.bold('💴 支払い見込み: ') + chalk.green(payout.description))
+      if (payout.payoutRatio < 1 || payout.deductible > 0) {
+        const ratio = payout.payoutRatio < 1 ? ` × ${Math.round(payout.payoutRatio * 100)}%` : ''
+        const deductible = payout.deductible > 0 ? ` - 免責 ${payout.deductible}` : ''
+        console.log(chalk.gray(`  基準額 ${payout.baseAmount}${ratio}${deductible} = ${payout.amount}`))
+      }
+      console.log(chalk.yellow('⚠️ 請求すると保険契約は終了します'))
+
+      const { accept } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'accept',
+          message: `「${claim.insurance.name}」を請求しますか？`,
+          default: true
+        }
+      ])
+
+      return accept
+
+    } finally {
+      this.isWaitingInput = false
+    }
+  }
+
+  async askLifeEventChoice(event: RandomEvent): Promise<number> {
+    this.isWaitingInput = true
+
+    try {
+      console.log('\n' + chalk.bold.magenta(`🔀 ライフイベント: ${event.name}`))
+      console.log(chalk.gray(event.description))
+
+      const { choiceIndex } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'choiceIndex',
+          message: 'どうしますか？',
+          choices: (event.choices ?? []).map((choice, index) => ({
+            name: `${choice.label} - ${choice.description}`,
+            value: index
+          }))
+        }
+      ])
+
+      return choiceIndex
+
+    } finally {
+      this.isWaitingInput = false
+    }
+  }
+
   async askDreamSelection(cards: Card[]): Promise<Card> {
     const selected = await this.askCardSelection(cards, 1, 1, '🌠 夢を選択してください:')
     return selected[0]
   }
 
-  async askChallengeSelection(challenges: Card[]): Promise<Card> {
+  async askChallengeSelection(challenges: Card[], stakes: (ChallengeStakes | undefined)[] = []): Promise<Card> {
+    // リスクチャレンジは挑む前に損得の見込みを示す
+    const riskLabels = { low: '低リスク', medium: '中リスク', high: '高リスク', extreme: '極限リスク' }
+    challenges.forEach((challenge, index) => {
+      const stake = stakes[index]
+      if (!stake) return
+      const immunity = stake.insuranceImmunity ? chalk.yellow(' ⚠️ 保険無効') : ''
+      console.log(
+        chalk.bold(`🎲 [${index + 1}] ${challenge.name} (${riskLabels[stake.riskLevel]}): `) +
+        chalk.green(`成功 +${stake.expectedGain}`) + ' / ' + chalk.red(`失敗 -${stake.expectedLoss}`) + immunity
+      )
+    })
+
+    while (this.saveHandler && await this.askTurnMenu() === 'save') {
+      await this.askSaveSlot(this.saveHandler)
+    }
+
     const selected = await this.askCardSelection(challenges, 1, 1, '⚔️ 挑戦する課題を選択:')
     return selected[0]
   }
@@ -426,11 +541,23 @@ export class InteractiveCUIRenderer implements GameRenderer {
     if (result.powerBreakdown) {
       console.log('\n' + chalk.dim('📊 パワー内訳:'))
       console.log(chalk.dim(`  基本: ${result.powerBreakdown.base}`))
+      if (result.powerBreakdown.skill) console.log(chalk.dim(`  スキル: ${result.powerBreakdown.skill}`))
+      if (result.powerBreakdown.combo) console.log(chalk.dim(`  コンボ: +${result.powerBreakdown.combo}`))
+      if (result.powerBreakdown.event) console.log(chalk.dim(`  イベント: ${result.powerBreakdown.event}`))
+      if (result.powerBreakdown.effect) console.log(chalk.dim(`  カード効果: ${result.powerBreakdown.effect}`))
       console.log(chalk.dim(`  保険: ${result.powerBreakdown.insurance}`))
       console.log(chalk.dim(`  負担: ${result.powerBreakdown.burden}`))
       console.log(chalk.dim(`  合計: ${result.powerBreakdown.total}`))
     }
 
+    // リスクチャレンジの報酬・代償
+    if (result.riskOutcome) {
+      const { successBonus, failurePenalty, insuranceImmunity } = result.riskOutcome
+      if (successBonus > 0) console.log(chalk.green(`🎲 リスク報酬: +${successBonus} 活力`))
+      if (failurePenalty > 0) console.log(chalk.red(`🎲 リスクの代償: -${failurePenalty} 活力`))
+      if (insuranceImmunity) console.log(chalk.yellow('⚠️ このチャレンジでは保険が効かなかった'))
+    }
+
     // Celebration animation for success
     if (result.success && this.configManager.getConfig().visualEffects) {
       setTimeout(() => {
@@ -462,6 +589,20 @@ export class InteractiveCUIRenderer implements GameRenderer {
     }
   }
 
+  showAchievementUnlocked(achievement: Achievement): void {
+    const content = [
+      chalk.yellow.bold(`🏆 アチーブメント解除: ${achievement.name}`),
+      chalk.gray(achievement.description),
+      chalk.green(`+${achievement.reward.experience} EXP`)
+    ].join('\n')
+
+    console.log('\n' + boxen(content, {
+      padding: { left: 1, right: 1, top: 0, bottom: 0 },
+      borderStyle: 'round',
+      borderColor: 'yellow'
+    }))
+  }
+
   showError(error: string): void {
     console.log(`\n❌ ${chalk.red.bold('エラー:')} ${chalk.red(error)}`)
 
@@ -545,6 +686,58 @@ export class InteractiveCUIRenderer implements GameRenderer {
 
   // === Private Helper Methods ===
 
+  /**
+   * Ask whether to pick a challenge or save before the turn starts
+   */
+  private async askTurnMenu(): Promise<'challenge' | 'save'> {
+    this.isWaitingInput = true
+
+    try {
+      const { action } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: 'どうしますか？',
+          choices: [
+            { name: '⚔️ 課題を選ぶ', value: 'challenge' },
+            { name: '💾 セーブする', value: 'save' }
+          ]
+        }
+      ])
+
+      return action
+
+    } finally {
+      this.isWaitingInput = false
+    }
+  }
+
+  /**
+   * Ask for a manual save slot and save the game there
+   */
+  private async askSaveSlot(saveHandler: (slotId: string) => Promise<void>): Promise<void> {
+    this.isWaitingInput = true
+
+    try {
+      const { slotId } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'slotId',
+          message: '保存先のスロットを選択:',
+          choices: SaveSlotService.MANUAL_SAVE_SLOTS.map(slot => ({ name: `スロット ${slot}`, value: slot }))
+        }
+      ])
+
+      await saveHandler(slotId)
+      this.showMessage(`スロット ${slotId} に保存しました`, 'success')
+
+    } catch (error) {
+      this.showError(`保存に失敗しました: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      this.isWaitingInput = false
+    }
+  }
+
   private async showGameTitle(): Promise<void> {
     try {
       const title = figlet.textSync('LIFE GAME', {
@@ -125,3 +125,139 @@ describe('Insurance Triggers', () => {
         expect(game.phase).toBe('resolution')
     })
 })
+
+describe('Insurance Claim Registry - 宣言した発動条件と支払い', () => {
+    const config: GameConfig = {
+        difficulty: 'normal',
+        startingVitality: 60,
+        startingHandSize: 5,
+        maxHandSize: 7,
+        dreamCardCount: 3,
+        seed: 17
+    }
+
+    const createInsurance = (params: Partial<Card> & Pick<Card, 'insuranceTriggerType'>) => new Card({
+        id: `ins-${params.insuranceTriggerType}`,
+        name: 'テスト保険',
+        description: 'テスト用のトリガー型保険',
+        type: 'insurance',
+        power: 0,
+        cost: 1,
+        insuranceType: 'medical',
+        insuranceEffectType: 'trigger',
+        durationType: 'whole_life',
+        effects: [],
+        ...params
+    })
+
+    const createGameWith = (insurance: Card) => {
+        const game = new Game(config)
+        game.start()
+        game.setPhase('draw')
+        game.addInsurance(insurance)
+        return game
+    }
+
+    // 手札を使わずに挑み、必ず失敗する
+    const failChallenge = (game: Game, params: Partial<Card> = {}) => {
+        game.setPhase('draw')
+        game.startChallenge(new Card({
+            id: `challenge-${game.stats.totalChallenges}`,
+            name: '無理な挑戦',
+            description: '',
+            type: 'challenge',
+            power: 15,
+            cost: 0,
+            effects: [],
+            ...params
+        }))
+        const result = game.resolveChallenge()
+        expect(result.success).toBe(false)
+        return result
+    }
+
+    it('保障額に比例する支払いに一部支払いと免責を適用し、請求前に見込みを示す', async () => {
+        const insurance = createInsurance({
+            insuranceTriggerType: 'on_death',
+            coverage: 100,
+            insurancePayout: { effect: 'heal', coverageRate: 0.3, payoutRatio: 0.5, deductible: 4 }
+        })
+        const game = createGameWith(insurance)
+
+        game.applyDamage(game.vitality)
+        expect(game.getInsuranceClaimPayout()).toEqual({
+            effect: 'heal',
+            baseAmount: 30,
+            payoutRatio: 0.5,
+            deductible: 4,
+            amount: 11,
+            description: '活力を11回復'
+        })
+
+        await game.resolveInsuranceClaim()
+        expect(game.vitality).toBe(11)
+        expect(game.status).toBe('in_progress')
+    })
+
+    it('チャレンジの連続失敗で発動する', async () => {
+        const game = createGameWith(createInsurance({
+            insuranceTriggerType: 'on_consecutive_failures',
+            insuranceTrigger: { consecutiveFailures: 2 }
+        }))
+
+        failChallenge(game)
+        expect(game.pendingInsuranceClaim).toBeUndefined()
+        failChallenge(game)
+        expect(game.getConsecutiveFailures()).toBe(2)
+        expect(game.pendingInsuranceClaim?.triggerType).toBe('on_consecutive_failures')
+
+        const vitality = game.vitality
+        await game.resolveInsuranceClaim()
+        expect(game.vitality).toBe(vitality + 10)
+    })
+
+    it('特定カテゴリーのチャレンジの失敗ではダメージを預かり、断ると本来のダメージを受ける', () => {
+        const game = createGameWith(createInsurance({
+            insuranceTriggerType: 'on_challenge_category',
+            insuranceTrigger: { challengeCategory: 'physical' },
+            insurancePayout: { effect: 'reduce_damage', amount: 3 }
+        }))
+        const vitality = game.vitality
+
+        failChallenge(game, { dreamCategory: 'intellectual' })
+        expect(game.pendingInsuranceClaim).toBeUndefined()
+        const afterOtherCategory = game.vitality
+        expect(afterOtherCategory).toBeLessThan(vitality)
+
+        const result = failChallenge(game, { dreamCategory: 'physical' })
+        expect(game.pendingInsuranceClaim?.context?.damage).toBe(-result.vitalityChange)
+        expect(game.vitality).toBe(afterOtherCategory)
+        expect(game.getInsuranceClaimPayout()?.description).toBe('ダメージを3軽減')
+
+        game.declineInsuranceClaim()
+        expect(game.pendingInsuranceClaim).toBeUndefined()
+        expect(game.vitality).toBe(afterOtherCategory + result.vitalityChange)
+    })
+
+    it('指定したステージへの移行で発動し、保存・復元後も条件と支払いを保つ', async () => {
+        const insurance = createInsurance({
+            insuranceTriggerType: 'on_stage_change',
+            insuranceTrigger: { stage: 'fulfillment' },
+            insurancePayout: { effect: 'heal', amount: 8 }
+        })
+        const game = createGameWith(insurance)
+        game.applyDamage(40)
+
+        game.setStage('middle')
+        expect(game.pendingInsuranceClaim).toBeUndefined()
+
+        const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+        restored.setStage('fulfillment')
+        expect(restored.pendingInsuranceClaim?.triggerType).toBe('on_stage_change')
+
+        const vitality = restored.vitality
+        await restored.resolveInsuranceClaim()
+        expect(restored.vitality).toBe(vitality + 8)
+        expect(restored.activeInsurances).toHaveLength(0)
+    })
+})
@@ -155,6 +155,7 @@ export const BALANCE_CONSTANTS = {
     maxHandSize: 10,           // 最大手札数
     startingHandSize: 5,       // 初期手札数
     defaultDrawCount: 1,       // デフォルトドロー数
+    challengeDrawCount: 7,     // 課題を選んだ後に引く枚数
     maxDeckSize: 100          // 最大デッキサイズ
   } as const,
 
@@ -166,7 +167,15 @@ export const BALANCE_CONSTANTS = {
     maxDifficulty: 20,         // 最大難易度
     successBonusBase: 8,       // 成功時ボーナス基準値 (Increased to reward skilled play)
     failurePenaltyRatio: 1.5,  // 失敗時ペナルティ比率 (Increased to punish reckless play)
-    enableDynamicDifficulty: true // 動的難易度調整の有効化
+    enableDynamicDifficulty: true // 動的難易度調整の許可（false なら GameConfig.dynamicDifficulty を指定しても調整しない）
+  } as const,
+
+  /**
+   * ライフイベント関連
+   */
+  LIFE_EVENT_SETTINGS: {
+    enabled: true,             // ターン開始時のライフイベントの有効化
+    eventChance: 0.25          // 1ターンにライフイベントが起きる確率
   } as const,
 
   /**
@@ -290,6 +299,13 @@ export class GameConstantsAccessor {
     this.overrides = config
   }
 
+  /**
+   * 現在のオーバーライド設定を取得
+   */
+  static getOverrides(): BalanceConfig | undefined {
+    return this.overrides
+  }
+
   /**
    * オーバーライドをクリア
    */
@@ -332,6 +348,7 @@ export class GameConstantsAccessor {
         ...base,
         CARD_LIMITS: { ...base.CARD_LIMITS, ...this.overrides.cardLimits },
         CHALLENGE_SETTINGS: { ...base.CHALLENGE_SETTINGS, ...this.overrides.challengeSettings },
+        LIFE_EVENT_SETTINGS: { ...base.LIFE_EVENT_SETTINGS, ...this.overrides.lifeEventSettings },
         VITALITY_SETTINGS: { ...base.VITALITY_SETTINGS, ...this.overrides.vitalitySettings },
         PROGRESSION_SETTINGS: { ...base.PROGRESSION_SETTINGS, ...this.overrides.progressionSettings }
       }
@@ -0,0 +1,18 @@
+import standardCardPack from './standard.json'
+
+/**
+ * 同梱のカードパック（このディレクトリの JSON。スキーマを除く）
+ * JSON を置くだけで CardFactory に登録され、GameConfig.cardPacks で選べるようになる
+ */
+export const bundledCardPacks: unknown[] = loadBundledCardPacks()
+
+function loadBundledCardPacks(): unknown[] {
+  try {
+    return Object.values(
+      import.meta.glob<unknown>(['./*.json', '!./*.schema.json'], { eager: true, import: 'default' })
+    )
+  } catch {
+    // import.meta.glob は Vite が変換するため、tsx で動くベンチマークのワーカーなどでは標準パックだけを使う
+    return [standardCardPack]
+  }
+}
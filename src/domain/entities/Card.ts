@@ -1,6 +1,7 @@
 import type {
   CardEffect,
   CardEffectType,
+  CardSnapshot,
   CardType,
   ComboCardProperties,
   DreamCategory,
@@ -9,6 +10,8 @@ import type {
   ICard,
   InsuranceDurationType,
   InsuranceEffectType,
+  InsurancePayout,
+  InsuranceTriggerCondition,
   InsuranceType,
   LifeCardCategory,
   RewardType,
@@ -59,6 +62,8 @@ export class Card implements IAdvancedCard {
   remainingTurns?: number // 可変プロパティ（ターンごとに減少）
   readonly insuranceEffectType?: InsuranceEffectType
   readonly insuranceTriggerType?: InsuranceTriggerType // トリガー型保険の発動条件
+  readonly insuranceTrigger?: InsuranceTriggerCondition // 発動条件の詳細
+  readonly insurancePayout?: InsurancePayout // 請求時の支払い内容
   // Phase 4 夢カード用プロパティ
   readonly dreamCategory?: DreamCategory
 
@@ -109,6 +114,12 @@ export class Card implements IAdvancedCard {
     if ('insuranceTriggerType' in params) {
       this.insuranceTriggerType = params.insuranceTriggerType
     }
+    if ('insuranceTrigger' in params) {
+      this.insuranceTrigger = params.insuranceTrigger
+    }
+    if ('insurancePayout' in params) {
+      this.insurancePayout = params.insurancePayout
+    }
 
     // Phase 4 夢カードのプロパティ
     if ('dreamCategory' in params) {
@@ -342,6 +353,54 @@ export class Card implements IAdvancedCard {
     return this.copy()
   }
 
+  /**
+   * JSONとして保存可能なスナップショットを作成
+   * 復元はCardFactory.fromSnapshot()を使用する
+   * @returns {CardSnapshot} カードのスナップショット
+   */
+  toSnapshot(): CardSnapshot {
+    const snapshot: CardSnapshot = {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      type: this.type,
+      power: this.power,
+      cost: this.cost,
+      effects: this.effects.map(effect => ({ ...effect }))
+    }
+
+    const optionalProps = {
+      imageUrl: this.imageUrl,
+      category: this.category,
+      insuranceType: this.insuranceType,
+      coverage: this.coverage,
+      penalty: this.penalty,
+      ageBonus: this.ageBonus,
+      durationType: this.durationType,
+      remainingTurns: this.remainingTurns,
+      insuranceEffectType: this.insuranceEffectType,
+      insuranceTriggerType: this.insuranceTriggerType,
+      insuranceTrigger: this.insuranceTrigger ? { ...this.insuranceTrigger } : undefined,
+      insurancePayout: this.insurancePayout ? { ...this.insurancePayout } : undefined,
+      dreamCategory: this.dreamCategory,
+      skillProperties: this.skillProperties ? { ...this.skillProperties } : undefined,
+      comboProperties: this.comboProperties ? { ...this.comboProperties } : undefined,
+      eventProperties: this.eventProperties ? { ...this.eventProperties } : undefined,
+      isUnlockable: this.isUnlockable,
+      unlockCondition: this.unlockCondition,
+      rewardType: this.rewardType
+    }
+
+    // 未設定のプロパティは含めない（復元時に'in'判定が変わらないように）
+    Object.entries(optionalProps).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (snapshot as unknown as Record<string, unknown>)[key] = value
+      }
+    })
+
+    return snapshot
+  }
+
   /**
    * 残りターン数を減少させる（定期保険用）
    * @returns {Card} ターン数を減らした新しいCardインスタンス
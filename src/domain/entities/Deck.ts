@@ -1,5 +1,6 @@
 import type { Card } from './Card'
 import type { CardType } from '../types/card.types'
+import { defaultRandom, randomInt, type RandomSource } from '../../common/SeededRandom'
 
 /**
  * デッキエンティティ
@@ -39,7 +40,7 @@ export class Deck {
    */
   addCard(card: Card): void {
     // V3.3 Debug: Trace Dream Card Leak
-    if (this.name === 'Player Deck' && (card.type === 'dream' || card.power >= 25)) {
+    if (this.name === 'Player Deck' && (card.type === 'dream' || (card.power >= 25 && !card.isLegendaryCard()))) {
       console.warn(`[Deck: ${this.name}] 🚨 SUSPICIOUS ADDITION DETECTED 🚨: ${card.name} (Type: ${card.type}, Power: ${card.power})`)
       // console.trace() // Trace stack to find the culprit
     }
@@ -52,7 +53,7 @@ export class Deck {
   addCards(cards: Card[]): void {
     // V3.3 Debug: Trace Dream Card Leak
     if (this.name === 'Player Deck') {
-      const suspicious = cards.filter(c => c.type === 'dream' || c.power >= 25)
+      const suspicious = cards.filter(c => c.type === 'dream' || (c.power >= 25 && !c.isLegendaryCard()))
       if (suspicious.length > 0) {
         console.warn(`[Deck: ${this.name}] 🚨 SUSPICIOUS BATCH ADDITION 🚨:`, suspicious.map(c => `${c.name} (${c.type})`))
         // console.trace()
@@ -92,12 +93,25 @@ export class Deck {
     return false
   }
 
+  /**
+   * 同じIDのカードを差し替える（位置は変えない）
+   */
+  replaceCard(card: Card): boolean {
+    const index = this.cards.findIndex(c => c.id === card.id)
+    if (index !== -1) {
+      this.cards[index] = card
+      return true
+    }
+    return false
+  }
+
   /**
    * デッキをシャッフル（Fisher-Yatesアルゴリズム）
+   * @param random 乱数源（シード付きゲームではゲームの乱数源を渡す）
    */
-  shuffle(): void {
+  shuffle(random: RandomSource = defaultRandom): void {
     for (let i = this.cards.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = randomInt(random, i + 1);
       [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]]
     }
   }
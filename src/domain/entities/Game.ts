@@ -7,14 +7,32 @@ import { GameStageManager } from '../services/GameStageManager'
 import { InsuranceExpirationManager } from '../services/InsuranceExpirationManager'
 import { ChallengeResolutionService } from '../services/ChallengeResolutionService'
 import { GameTurnManager } from '../services/GameTurnManager'
-import { GameChallengeService } from '../services/GameChallengeService'
+import { GameChallengeService, type PowerBreakdown } from '../services/GameChallengeService'
 import { GameInsuranceService } from '../services/GameInsuranceService'
 import { AIStrategyService, type AIStrategyType } from '../services/AIStrategyService'
 import { GameStateManager } from '../services/GameStateManager'
 import { GameActionProcessor } from '../services/GameActionProcessor'
-import { IdGenerator } from '../../common/IdGenerator'
+import { GameActionRecorder } from '../services/GameActionRecorder'
+import { EndlessModeService } from '../services/EndlessModeService'
+import { DifficultyBalanceService, type DynamicDifficulty } from '../services/DifficultyBalanceService'
+import { CardEffectEngine, type CardEffectContext, type CardEffectHook, type CardEffectOutcome } from '../services/CardEffectEngine'
+import { InsuranceClaimRegistry, type InsurancePayoutQuote, type InsuranceTriggerEvent } from '../services/InsuranceClaimRegistry'
+import type { AchievementTracker } from '../services/AchievementTracker'
+import { ReplayabilityService, type RandomEvent, type RandomEventEffects } from '../services/ReplayabilityService'
+import { IdGenerator, IdSequence } from '../../common/IdGenerator'
+import { withSilentConsole } from '../../common/SilentConsole'
+import { SeededRandom, shuffleArray } from '../../common/SeededRandom'
+import { SkillSystemService } from '../services/SkillSystemService'
+import { LegalActionGenerator } from '../services/LegalActionGenerator'
 import type {
+  ActiveEvent,
   ChallengeResult,
+  ChallengeStakes,
+  Character,
+  DeckSnapshot,
+  DifficultyAdjustment,
+  GameAction,
+  GameActionLog,
   GameConfig,
   GamePhase,
   GameStatus,
@@ -23,17 +41,24 @@ import type {
   InsuranceTypeSelectionResult,
   PlayerStats,
   TurnResult,
-  PendingInsuranceClaim
+  PendingInsuranceClaim,
+  GameSnapshot,
+  LegacyCardSnapshot,
+  LegacyGameSnapshot
 } from '../types/game.types'
 import {
   AVAILABLE_CHARACTERS,
-  DREAM_AGE_ADJUSTMENTS
+  DREAM_AGE_ADJUSTMENTS,
+  GAME_SNAPSHOT_VERSION,
+  PROGRESSION_FEATURES
 } from '../types/game.types'
-import type { GameStage, InsuranceTriggerType } from '../types/card.types'
+import type { CardSnapshot, GameStage, InsuranceTriggerType, RewardCardType } from '../types/card.types'
+import type { CardCatalog } from '../types/cardPack.types'
 import { Vitality } from '../valueObjects/Vitality'
 import { InsurancePremium } from '../valueObjects/InsurancePremium'
 import { RiskProfile } from '../valueObjects/RiskProfile'
-import type { PlayerHistory } from '../services/InsurancePremiumCalculationService'
+import { RiskFactor, type RiskFactorType } from '../valueObjects/RiskFactor'
+import type { PlayerHistory, PremiumBreakdown } from '../services/InsurancePremiumCalculationService'
 import { GameConstantsAccessor } from '../constants/GameConstants'
 
 /**
@@ -85,15 +110,17 @@ export class Game implements IGameState {
 
   stats: PlayerStats
   config: GameConfig
+  // config.cardPacks を重ねたカード定義（カードの生成元）
+  readonly cardCatalog: CardCatalog
 
   // Phase 5: リスクプロファイルとプレイヤー履歴
-  private readonly _riskProfile: RiskProfile
+  private _riskProfile: RiskProfile
   private readonly _playerHistory: PlayerHistory
 
   // Phase 2-4:  // 保険関連
   activeInsurances: Card[] = []
   expiredInsurances: Card[] = []
-  private readonly _insuranceBurden: InsurancePremium
+  private _insuranceBurden: InsurancePremium
 
   // v2: 新要素
   agingDeck: Deck
@@ -103,7 +130,15 @@ export class Game implements IGameState {
 
   // 選択肢
   insuranceTypeChoices: InsuranceTypeChoice[] | undefined = undefined
+  rewardCardChoices: Card[] | undefined = undefined // チャレンジ成功時の報酬カード（任意で1枚獲得）
   pendingInsuranceClaim: PendingInsuranceClaim | undefined = undefined
+  pendingLifeEvent: RandomEvent | undefined = undefined // 選択待ちのライフイベント
+
+  // 発動中のイベント（イベントカード・複数ターン効果の継続効果）
+  activeEvents: ActiveEvent[] = []
+
+  // カード効果（vitality_boost）による最大活力の上昇分
+  private _cardVitalityBonus: number = 0
 
   // 経験学習システム（GAME_DESIGN.mdより）
   private readonly _learningHistory: Map<string, number> = new Map() // チャレンジ名 -> 失敗回数
@@ -122,10 +157,267 @@ export class Game implements IGameState {
     this._learningHistory.set(challengeName, failures)
   }
 
+  // チャレンジの連続失敗回数（連続失敗で発動する保険用）
+  private _consecutiveFailures = 0
+
+  /**
+   * チャレンジの結果で連続失敗回数を更新
+   * @returns 更新後の連続失敗回数
+   */
+  updateConsecutiveFailures(success: boolean): number {
+    this._consecutiveFailures = success ? 0 : this._consecutiveFailures + 1
+    return this._consecutiveFailures
+  }
+
+  /**
+   * チャレンジの連続失敗回数を取得
+   */
+  getConsecutiveFailures(): number {
+    return this._consecutiveFailures
+  }
+
+  // 動的難易度（最近のチャレンジ結果と、それによる調整の記録）
+  private _dynamicDifficulty: DynamicDifficulty = DifficultyBalanceService.createInitialDifficulty()
+  private _difficultyAdjustments: DifficultyAdjustment[] = []
+
+  /**
+   * 動的難易度が有効か判定
+   * GameConfig.dynamicDifficulty で有効にしたゲームだけが対象（balanceConfig.challengeSettings.enableDynamicDifficulty が false なら無効）
+   */
+  isDynamicDifficultyEnabled(): boolean {
+    return this.config.dynamicDifficulty === true
+      && GameConstantsAccessor.getBalanceSettings().CHALLENGE_SETTINGS.enableDynamicDifficulty !== false
+  }
+
+  /**
+   * 現在の動的難易度を取得（無効なら調整なし）
+   */
+  getDynamicDifficulty(): DynamicDifficulty {
+    return this.isDynamicDifficultyEnabled()
+      ? this._dynamicDifficulty
+      : DifficultyBalanceService.createInitialDifficulty()
+  }
+
+  /**
+   * チャレンジの結果を動的難易度に反映
+   */
+  updateDynamicDifficulty(success: boolean): void {
+    const { recentPerformance } = DifficultyBalanceService.updatePerformanceHistory(this._dynamicDifficulty, success)
+    this._dynamicDifficulty = DifficultyBalanceService.calculateRunDifficulty(recentPerformance)
+  }
+
+  /**
+   * 動的難易度による調整を記録
+   */
+  recordDifficultyAdjustment(adjustment: DifficultyAdjustment): void {
+    this._difficultyAdjustments.push(adjustment)
+  }
+
+  /**
+   * 動的難易度による調整の記録を取得
+   */
+  getDifficultyAdjustments(): DifficultyAdjustment[] {
+    return this._difficultyAdjustments.map(adjustment => ({ ...adjustment }))
+  }
+
+  /**
+   * ゲームの乱数生成器を取得
+   * カード生成やシャッフルなど、ゲーム展開に影響する乱数は必ずこれを使用する
+   */
+  getRandom(): SeededRandom {
+    return this._random
+  }
+
+  /**
+   * このゲームの乱数シードを取得
+   */
+  getSeed(): number {
+    return this._random.seed
+  }
+
+  /**
+   * プレイヤーの意思決定ログを取得
+   * GameReplayerで新しいGameに再実行できる
+   */
+  getActionLog(): GameActionLog {
+    return this._actionRecorder.getLog()
+  }
+
+  /**
+   * 最後に記録されたプレイヤーの意思決定（まだ何もしていなければundefined）
+   */
+  get lastAction(): GameAction | undefined {
+    return this._actionRecorder.lastAction
+  }
+
+  /**
+   * 現在の状態で実行できるアクションの一覧
+   * 戻り値の各アクションはapply()でそのまま実行できる
+   */
+  getLegalActions(): GameAction[] {
+    return LegalActionGenerator.getLegalActions(this)
+  }
+
+  /**
+   * アクションを実行する（ボット・画面・リプレイ共通の入口）
+   * 合法かどうかは判定しないため、getLegalActions()にないアクションは各操作のエラーになり得る
+   * @throws {Error} 指定された位置のカードが存在しない場合
+   */
+  async apply(action: GameAction): Promise<void> {
+    switch (action.type) {
+      case 'start':
+        this.start()
+        break
+      case 'select_character':
+        this.selectCharacter(action.characterId)
+        break
+      case 'start_dream_selection':
+        this.startDreamSelectionPhase()
+        break
+      case 'select_dream':
+        await this.selectDream(Game.cardAt(this.cardChoices, action.choiceIndex, 'card choices'))
+        break
+      case 'draw_cards':
+        await this.drawCards(action.count)
+        break
+      case 'start_challenge_phase':
+        this.startChallengePhase()
+        break
+      case 'draw_challenge_card':
+        this.drawChallengeCard()
+        break
+      case 'start_challenge':
+        this.startChallenge(action.card
+          ? CardFactory.fromSnapshot(action.card)
+          : Game.cardAt(this.cardChoices, action.choiceIndex, 'card choices'))
+        break
+      case 'toggle_card_selection':
+        this.toggleCardSelection(Game.cardAt(this.hand, action.handIndex, 'hand'))
+        break
+      case 'resolve_challenge':
+        this.resolveChallenge()
+        break
+      case 'select_card':
+        this.selectCard(Game.cardAt(this.cardChoices, action.choiceIndex, 'card choices').id)
+        break
+      case 'select_insurance_type':
+        this.selectInsuranceType(action.insuranceType, action.durationType)
+        break
+      case 'skip_insurance_selection':
+        this.skipInsuranceSelection()
+        break
+      case 'select_reward_card':
+        this.selectRewardCard(Game.cardAt(this.rewardCardChoices, action.choiceIndex, 'reward card choices').id)
+        break
+      case 'skip_reward_card':
+        this.skipRewardCard()
+        break
+      case 'renew_insurance':
+        this.renewInsurance(Game.cardAt(this.activeInsurances, action.insuranceIndex, 'active insurances'))
+        break
+      case 'decline_insurance_renewal':
+        this.declineInsuranceRenewal(Game.cardAt(this.activeInsurances, action.insuranceIndex, 'active insurances'))
+        break
+      case 'trigger_insurance_claim':
+        this.triggerInsuranceClaim(
+          Game.cardAt(this.activeInsurances, action.insuranceIndex, 'active insurances'),
+          action.triggerType
+        )
+        break
+      case 'accept_insurance_claim':
+        await this.resolveInsuranceClaim()
+        break
+      case 'decline_insurance_claim':
+        this.declineInsuranceClaim()
+        break
+      case 'choose_life_event':
+        this.chooseLifeEventOption(action.choiceIndex)
+        break
+      case 'next_turn':
+        this.nextTurn()
+        break
+      case 'advance_stage':
+        this.advanceStage()
+        break
+      case 'refill_challenge_deck':
+        this.refillChallengeDeck()
+        break
+    }
+  }
+
+  /**
+   * アクションが指すカードを取得
+   */
+  private static cardAt(cards: Card[] | undefined, index: number | undefined, source: string): Card {
+    const card = index === undefined ? undefined : cards?.[index]
+    if (!card) {
+      throw new Error(`No card at index ${index} in ${source}`)
+    }
+    return card
+  }
+
+  /**
+   * プレイヤーレベルで解放される機能が利用可能か判定
+   * config.unlockedFeatures が未指定なら全機能を利用可能とする
+   */
+  isFeatureUnlocked(feature: string): boolean {
+    return !this.config.unlockedFeatures || this.config.unlockedFeatures.includes(feature)
+  }
+
+  /**
+   * カードが使用禁止か判定（config.bannedCards）
+   */
+  isCardBanned(cardName: string): boolean {
+    return this.config.bannedCards?.includes(cardName) ?? false
+  }
+
+  /**
+   * エンドレスモードか判定（config.endless）
+   */
+  isEndlessMode(): boolean {
+    return this.config.endless === true
+  }
+
+  /**
+   * 現在のエンドレスレベルを取得（エンドレスモード以外は常に0）
+   */
+  getEndlessLevel(): number {
+    return this.isEndlessMode() ? EndlessModeService.getEndlessLevel(this.turn) : 0
+  }
+
+  /**
+   * 生き延びたターン数を取得（エンドレスモードのスコア）
+   */
+  getTurnsSurvived(): number {
+    return this.stats.turnsPlayed
+  }
+
+  /**
+   * アチーブメントトラッカーを設定
+   * チャレンジ結果・保険請求・ステージ変更・勝敗がトラッカーに記録される
+   */
+  setAchievementTracker(tracker?: AchievementTracker): void {
+    this._achievementTracker = tracker
+  }
+
   // AI戦略設定
   private _aiEnabled: boolean = false
   private _currentAIStrategy: AIStrategyType = 'balanced'
 
+  // 報酬カードの提示枚数
+  private static readonly REWARD_CARD_CHOICE_COUNT = 3
+
+  // 契約期間の定義が見つからない定期保険の更新期間
+  private static readonly DEFAULT_INSURANCE_TERM = 5
+
+  // 報酬カードの各タイプを解放するプレイヤーレベルの機能
+  private static readonly REWARD_CARD_FEATURES: Record<RewardCardType, string> = {
+    skill: PROGRESSION_FEATURES.skillCards,
+    combo: PROGRESSION_FEATURES.comboCards,
+    event: PROGRESSION_FEATURES.eventCards,
+    legendary: PROGRESSION_FEATURES.legendaryCards
+  }
+
   // パフォーマンス最適化: オブジェクトプール
   private static readonly OBJECT_POOLS = {
     cards: [] as Card[],
@@ -156,6 +448,19 @@ export class Game implements IGameState {
   startedAt?: Date
   completedAt?: Date
 
+  // シード付き乱数生成器（同じシードなら同じ展開になる）
+  private readonly _random: SeededRandom
+  // ライフイベント用の乱数（イベントの有無でデッキの展開が変わらないよう別系列にする）
+  private readonly _lifeEventRandom: SeededRandom
+  // ゲームごとのID系列（複数のゲームが同時にあっても互いのIDの連番を進めない）
+  private readonly _ids: IdSequence
+
+  // プレイヤーの意思決定ログ（リプレイ用）
+  private _actionRecorder: GameActionRecorder
+
+  // アチーブメント進捗の記録先（未設定なら記録しない）
+  private _achievementTracker: AchievementTracker | undefined = undefined
+
   /**
    * Gameインスタンスを作成
    * @param {GameConfig} [config] - ゲーム設定（オプション）
@@ -164,9 +469,9 @@ export class Game implements IGameState {
    * @param {number} [config.startingHandSize=5] - 初期手札枚数
    * @param {number} [config.maxHandSize=10] - 最大手札枚数
    * @param {number} [config.dreamCardCount=3] - 夢カード枚数
+   * @param {number} [config.seed] - 乱数シード（省略時は自動生成）
    */
   constructor(config?: GameConfig) {
-    this.id = this.generateId()
     this.status = 'not_started'
     this.phase = 'setup'
     this.stage = 'youth'
@@ -182,9 +487,19 @@ export class Game implements IGameState {
     }
     const resolvedConfig: GameConfig = { ...defaults, ...config }
 
+    // 乱数シードを確定（未指定なら生成し、再現用にconfigへ記録する）
+    resolvedConfig.seed = resolvedConfig.seed ?? SeededRandom.generateSeed()
+    this._random = new SeededRandom(resolvedConfig.seed)
+    // ID生成はゲーム進行の乱数列を消費しないよう別系列にする
+    this._ids = new IdSequence(this._random.fork('ids'))
+    this._lifeEventRandom = this._random.fork('lifeEvents')
+    this.id = this.generateId()
+
     // console.log('[Game] Constructor Config:', JSON.stringify(resolvedConfig)) // DEBUG
 
     this.config = resolvedConfig
+    this.cardCatalog = CardFactory.createCatalog(resolvedConfig.cardPacks)
+    this._actionRecorder = new GameActionRecorder(resolvedConfig)
 
     // Apply balance overrides if provided
     if (this.config.balanceConfig) {
@@ -202,11 +517,13 @@ export class Game implements IGameState {
       // Should not happen as we fallback to [0], but for TS safety
       throw new Error('No available characters found')
     }
+    this.assertCharacterUnlocked(character)
 
     // console.log(`[Game] Selected Character: ${character.name}`)
 
     const basePower = (resolvedConfig.startingVitality !== undefined) ? resolvedConfig.startingVitality : 100
-    const startingVitality = basePower + character.initialVitalityModifier
+    const vitalityBonus = resolvedConfig.vitalityBonus ?? 0
+    const startingVitality = basePower + character.initialVitalityModifier + vitalityBonus
 
     // Hardcore fix: If difficulty is hardcore and base is default (100), force it to 20? No, that's hidden logic.
     // Better to fix the caller.
@@ -215,7 +532,7 @@ export class Game implements IGameState {
     if (!ageParams) throw new Error(`Invalid stage parameters for ${this.stage}`)
 
     // キャラクター補正を含めた最大活力
-    const baseMaxVitality = ageParams.maxVitality + character.initialVitalityModifier
+    const baseMaxVitality = ageParams.maxVitality + character.initialVitalityModifier + vitalityBonus
     const maxVitality = baseMaxVitality
 
     const cheatThreshold = 200
@@ -262,7 +579,7 @@ export class Game implements IGameState {
     const challengeDeck = new Deck('Challenge Deck')
 
     // 初期デッキを作成
-    const initialCards = CardFactory.createStarterLifeCards()
+    const initialCards = this.withIds(() => this.createStartingCards())
     initialCards.forEach(card => { playerDeck.addCard(card); })
 
     // Verify and Sanitize Player Deck (Fix for Dream Leak)
@@ -273,11 +590,11 @@ export class Game implements IGameState {
     }
 
     // チャレンジデッキを作成
-    const challengeCards = CardFactory.createChallengeCards(this.stage)
+    const challengeCards = this.withIds(() => this.createChallengeCards())
     challengeCards.forEach(card => { challengeDeck.addCard(card); })
 
     // Initialize CardManager with config already set
-    this.cardManager.initialize(playerDeck, challengeDeck, this.config)
+    this.cardManager.initialize(playerDeck, challengeDeck, this.config, this._random)
 
     this.stats = {
       totalChallenges: 0,
@@ -306,9 +623,9 @@ export class Game implements IGameState {
 
     // v2: 初期化
     this.agingDeck = new Deck('Aging Deck')
-    const agingCards = CardFactory.createAgingCards(20)
+    const agingCards = this.withIds(() => CardFactory.createAgingCards(20, this.cardCatalog))
     this.cardManager.getState().agingDeck.addCards(agingCards)
-    this.cardManager.getState().agingDeck.shuffle()
+    this.cardManager.getState().agingDeck.shuffle(this._random)
 
     this.score = 0
 
@@ -426,6 +743,14 @@ export class Game implements IGameState {
     return { ...this._playerHistory }
   }
 
+  /**
+   * プレイヤー履歴を更新（getPlayerHistory()で取得して書き換えた履歴を反映する）
+   * @param history 新しいプレイヤー履歴
+   */
+  setPlayerHistory(history: PlayerHistory): void {
+    Object.assign(this._playerHistory, history)
+  }
+
   /**
    * 利用可能体力を取得（保険料負担を考慮）
    * キャッシュによる最適化版
@@ -500,13 +825,8 @@ export class Game implements IGameState {
       console.log('[Game] Aging Card Game Over Condition Met!')
 
       // 障害保険チェック
-      const insurance = this.activeInsurances.find(c =>
-        c.insuranceTriggerType === 'on_aging_gameover'
-      )
-
-      if (insurance) {
+      if (this.checkInsuranceTriggers({ type: 'on_aging_gameover' })) {
         console.log('[Game] Disability Insurance found! Triggering claim.')
-        this.triggerInsuranceClaim(insurance, 'on_aging_gameover')
         // 保険発動待ち状態になるため、ここではゲームオーバーにしない
         // ただし、もし保険を拒否すればゲームオーバーになる必要がある
         // declineInsuranceClaim内で再度チェックするか、
@@ -561,7 +881,21 @@ export class Game implements IGameState {
    * @private
    */
   private generateId(): string {
-    return IdGenerator.generateGameId()
+    return this.withIds(() => IdGenerator.generateGameId())
+  }
+
+  /**
+   * このゲームのID系列でIDを生成しながら処理を実行
+   */
+  private withIds<T>(run: () => T): T {
+    return IdGenerator.runWith(this._ids, run)
+  }
+
+  /**
+   * プレイヤーの意思決定を記録しながら実行（実行中のIDはこのゲームのID系列から作る）
+   */
+  private record<T>(action: GameAction, execute: () => T): T {
+    return this.withIds(() => this._actionRecorder.record(action, execute))
   }
 
   /**
@@ -569,35 +903,45 @@ export class Game implements IGameState {
    * @throws {Error} 既にゲームが開始されている場合
    */
   start(): void {
-    if (this.status !== 'not_started') {
-      throw new Error('Game has already started')
-    }
+    this.record({ type: 'start' }, () => {
+      if (this.status !== 'not_started') {
+        throw new Error('Game has already started')
+      }
 
-    this.changeStatus('in_progress')
-    this.startedAt = new Date()
+      this.changeStatus('in_progress')
+      this.startedAt = new Date()
 
-    // v2: Start with Character Selection
-    // this.startDreamSelectionPhase() -> moved to after character selection
-    this.changePhase('character_selection')
-    console.info('[Game Phase] Character Selection Started')
+      // v2: Start with Character Selection
+      // this.startDreamSelectionPhase() -> moved to after character selection
+      this.changePhase('character_selection')
+      console.info('[Game Phase] Character Selection Started')
+    })
   }
 
   /**
    * キャラクターを選択
    */
   selectCharacter(characterId: string): void {
+    this.record({ type: 'select_character', characterId }, () => {
+      this.applyCharacterSelection(characterId)
+    })
+  }
+
+  private applyCharacterSelection(characterId: string): void {
     if (this.phase !== 'character_selection') throw new Error('Not in character selection phase')
 
     const character = AVAILABLE_CHARACTERS.find(c => c.id === characterId)
     if (!character) throw new Error('Invalid character selection')
+    this.assertCharacterUnlocked(character)
 
     this.config.characterId = characterId
 
     // Re-apply modifiers logic
     const ageParams = GameConstantsAccessor.getStageParameters(this.stage)
     const baseStarting = this.config.startingVitality
-    const startVal = baseStarting + character.initialVitalityModifier
-    const maxVal = ageParams.maxVitality + character.initialVitalityModifier
+    const vitalityBonus = this.config.vitalityBonus ?? 0
+    const startVal = baseStarting + character.initialVitalityModifier + vitalityBonus
+    const maxVal = ageParams.maxVitality + character.initialVitalityModifier + vitalityBonus
 
     const actualMax = Math.max(startVal, maxVal)
     this._vitality = Vitality.create(Math.min(startVal, actualMax), actualMax)
@@ -608,23 +952,36 @@ export class Game implements IGameState {
     this.startDreamSelectionPhase()
   }
 
+  private assertCharacterUnlocked(character: Character): void {
+    if (character.requiredFeature && !this.isFeatureUnlocked(character.requiredFeature)) {
+      throw new Error(`Character is locked: ${character.id}`)
+    }
+  }
+
   /**
    * 夢選択フェーズを開始
    */
   startDreamSelectionPhase(): void {
-    const dreams = CardFactory.createDreamCards()
-    // random 3
-    const shuffled = dreams.sort(() => Math.random() - 0.5).slice(0, 3)
-
-    this.cardManager.setCardChoices(shuffled)
-    this.changePhase('dream_selection')
-    console.info('[Game Phase] Dream Selection Started')
+    this.record({ type: 'start_dream_selection' }, () => {
+      const dreams = CardFactory.createDreamCards(this.cardCatalog)
+      // random 3
+      const shuffled = shuffleArray(this._random, dreams).slice(0, 3)
+
+      this.cardManager.setCardChoices(shuffled)
+      this.changePhase('dream_selection')
+      console.info('[Game Phase] Dream Selection Started')
+    })
   }
 
   /**
    * 夢カードを選択
    */
   async selectDream(card: Card): Promise<void> {
+    const choiceIndex = this.findChoiceIndex(card)
+    return this.record({ type: 'select_dream', choiceIndex }, () => this.applyDreamSelection(card))
+  }
+
+  private async applyDreamSelection(card: Card): Promise<void> {
     if (this.phase !== 'dream_selection') throw new Error('Not in dream selection phase')
 
     const choices = this.cardManager.getState().cardChoices
@@ -649,6 +1006,10 @@ export class Game implements IGameState {
    * @returns {Promise<Card[]>} ドローしたカードの配列
    */
   async drawCards(count: number): Promise<Card[]> {
+    return this.record({ type: 'draw_cards', count }, () => this.executeDrawCards(count))
+  }
+
+  private async executeDrawCards(count: number): Promise<Card[]> {
     console.debug('[Game] drawCards called', count)
     const result = await this.actionProcessor.executeAction<number, Card[]>('draw_cards', this, count)
     console.debug('[Game] actionProcessor result:', result)
@@ -670,6 +1031,12 @@ export class Game implements IGameState {
    * 2枚引いて選択肢を提示する
    */
   startChallengePhase(): void {
+    this.record({ type: 'start_challenge_phase' }, () => {
+      this.prepareChallengeChoices()
+    })
+  }
+
+  private prepareChallengeChoices(): void {
     // Phase check
     if (this.phase !== 'draw') {
       // Allow re-roll or other special cases? For now strict.
@@ -725,6 +1092,16 @@ export class Game implements IGameState {
    * @throws {Error} 適切なフェーズ以外で実行された場合
    */
   startChallenge(challengeCard: Card): void {
+    const choiceIndex = this.findChoiceIndex(challengeCard)
+    const action: GameAction = choiceIndex >= 0
+      ? { type: 'start_challenge', choiceIndex }
+      : { type: 'start_challenge', card: challengeCard.toSnapshot() }
+    this.record(action, () => {
+      this.beginChallenge(challengeCard)
+    })
+  }
+
+  private beginChallenge(challengeCard: Card): void {
     // v2: If in challenge_choice phase, validate selection
     if (this.phase === 'challenge_choice') {
       const choices = this.cardManager.getState().cardChoices
@@ -757,7 +1134,7 @@ export class Game implements IGameState {
    * チャレンジカードを直接引く（状態更新あり）
    */
   drawChallengeCard(): Card | null {
-    return this.cardManager.drawChallengeCard()
+    return this.record({ type: 'draw_challenge_card' }, () => this.cardManager.drawChallengeCard())
   }
 
   /**
@@ -766,7 +1143,11 @@ export class Game implements IGameState {
    * @returns {boolean} 選択状態（true:選択、false:解除）
    */
   toggleCardSelection(card: Card): boolean {
-    return this.cardManager.toggleCardSelection(card)
+    const handIndex = this.cardManager.getState().hand.findIndex(c => c.id === card.id)
+    return this.record(
+      { type: 'toggle_card_selection', handIndex },
+      () => this.cardManager.toggleCardSelection(card)
+    )
   }
 
   /**
@@ -775,15 +1156,18 @@ export class Game implements IGameState {
    * @throws {Error} アクティブなチャレンジがない場合
    */
   resolveChallenge(): ChallengeResult {
-    const result = this.challengeService.resolveChallenge(this)
-
-    // 夢達成チェック: 夢チャレンジに成功したら勝利
-    if (result.success && this.currentChallenge?.isDreamCard()) {
-      console.log('[Game] 🎉 Dream achieved! Victory!')
-      this.changeStatus('victory')
-    }
+    return this.record({ type: 'resolve_challenge' }, () => {
+      const result = this.challengeService.resolveChallenge(this)
+      this._achievementTracker?.recordChallengeResult(this, result)
+
+      // 夢達成チェック: 夢チャレンジに成功したら勝利（エンドレスモードでは続行）
+      if (result.success && this.currentChallenge?.isDreamCard() && !this.isEndlessMode()) {
+        console.log('[Game] 🎉 Dream achieved! Victory!')
+        this.changeStatus('victory')
+      }
 
-    return result
+      return result
+    })
   }
 
   /**
@@ -813,6 +1197,11 @@ export class Game implements IGameState {
    * カードを選択してデッキに追加（従来のカード選択フェーズ用）
    */
   selectCard(cardId: string): boolean {
+    const choiceIndex = this.cardManager.getState().cardChoices?.findIndex(c => c.id === cardId) ?? -1
+    return this.record({ type: 'select_card', choiceIndex }, () => this.acquireCardChoice(cardId))
+  }
+
+  private acquireCardChoice(cardId: string): boolean {
     if (this.phase !== 'card_selection') {
       throw new Error('Not in card selection phase')
     }
@@ -846,7 +1235,10 @@ export class Game implements IGameState {
    * 保険種類を選択してカードを作成・追加
    */
   selectInsuranceType(insuranceType: string, durationType: 'term' | 'whole_life'): InsuranceTypeSelectionResult {
-    return this.insuranceService.selectInsuranceType(this, insuranceType, durationType)
+    return this.record(
+      { type: 'select_insurance_type', insuranceType, durationType },
+      () => this.insuranceService.selectInsuranceType(this, insuranceType, durationType)
+    )
   }
 
   /**
@@ -854,111 +1246,455 @@ export class Game implements IGameState {
    * 保険料負担なしで進行できるが、リスクに対する保障がない
    */
   skipInsuranceSelection(): void {
-    console.log('[Game] Skipping insurance selection - proceeding without insurance')
+    this.record({ type: 'skip_insurance_selection' }, () => {
+      console.log('[Game] Skipping insurance selection - proceeding without insurance')
 
-    // 保険種類選択肢をクリア
-    this.insuranceTypeChoices = undefined
+      // 保険種類選択肢をクリア
+      this.insuranceTypeChoices = undefined
 
-    // 解決フェーズに移行
-    this.changePhase('resolution')
+      // 解決フェーズに移行
+      this.changePhase('resolution')
+    })
   }
 
   /**
-   * 保険発動をトリガー
+   * チャレンジ成功時の報酬カード候補を生成（解放済みのタイプのみ、使用禁止カードを除く）
+   * チャレンジのレア度ボーナスがあるほど、動的難易度で難しくなっているほど、レア度の高いカードが候補に出やすい
    */
-  triggerInsuranceClaim(insurance: Card, triggerType: InsuranceTriggerType): void {
-    console.log(`[Game] Insurance Triggered: ${insurance.name} (${triggerType})`)
-    this.pendingInsuranceClaim = {
-      insurance,
-      triggerType
+  createRewardCardChoices(): Card[] {
+    const types = (Object.keys(Game.REWARD_CARD_FEATURES) as RewardCardType[])
+      .filter(type => this.isFeatureUnlocked(Game.REWARD_CARD_FEATURES[type]))
+    if (types.length === 0) return []
+
+    return CardFactory.createRewardCards(
+      this.stage,
+      Game.REWARD_CARD_CHOICE_COUNT,
+      this._random,
+      types,
+      this.config.bannedCards,
+      this.cardCatalog,
+      (this.config.rewardRarityBonus ?? 0) + this.getDynamicDifficulty().adaptiveModifiers.cardRarityBonus
+    )
+  }
+
+  /**
+   * 報酬カードを選択してデッキに追加
+   * 報酬の選択はフェーズを変えないため、保険選択の前後どちらでも行える
+   */
+  selectRewardCard(cardId: string): void {
+    const choiceIndex = this.rewardCardChoices?.findIndex(card => card.id === cardId) ?? -1
+    this.record({ type: 'select_reward_card', choiceIndex }, () => {
+      const card = this.rewardCardChoices?.[choiceIndex]
+      if (!card) {
+        throw new Error('Invalid reward card selection')
+      }
+
+      this.cardManager.addToPlayerDeck(card)
+      this.stats.cardsAcquired++
+      this.rewardCardChoices = undefined
+    })
+  }
+
+  /**
+   * 報酬カードを獲得せずに進む（デッキを薄く保つ選択）
+   */
+  skipRewardCard(): void {
+    this.record({ type: 'skip_reward_card' }, () => {
+      this.rewardCardChoices = undefined
+    })
+  }
+
+  /**
+   * イベントカードを発動し、継続ターンの間チャレンジのパワーに加える
+   * 同じイベントが発動中なら残りターンを更新する
+   */
+  activateEvent(card: Card): void {
+    if (!card.eventProperties) return
+
+    // 発動したターンはカード自体のパワーとして加わり、以降はターン開始時に残りターンが減る
+    this.addActiveEvent({ name: card.name, power: card.power, remainingTurns: card.eventProperties.duration })
+  }
+
+  private addActiveEvent(event: ActiveEvent): void {
+    this.activeEvents = this.activeEvents.filter(active => active.name !== event.name)
+    this.activeEvents.push(event)
+  }
+
+  /**
+   * ライフイベントが有効か判定（balanceConfig.lifeEventSettings.enabled）
+   */
+  isLifeEventsEnabled(): boolean {
+    return GameConstantsAccessor.getBalanceSettings().LIFE_EVENT_SETTINGS.enabled
+  }
+
+  /**
+   * ターン開始時のライフイベントを引く
+   * 選択肢のあるイベントは選択待ち（pendingLifeEvent）にし、それ以外は即座に効果を適用する
+   * @returns 起きたイベント（起きなければundefined）
+   */
+  drawLifeEvent(): RandomEvent | undefined {
+    if (!this.isLifeEventsEnabled() || this.status !== 'in_progress') {
+      return undefined
+    }
+
+    const { eventChance } = GameConstantsAccessor.getBalanceSettings().LIFE_EVENT_SETTINGS
+    const event = ReplayabilityService.drawLifeEvent(this.stage, eventChance, this._lifeEventRandom)
+    if (!event) {
+      return undefined
+    }
+
+    if (event.choices && event.choices.length > 0) {
+      this.pendingLifeEvent = event
+    } else {
+      this.applyLifeEventEffects(event.name, event.effects)
     }
+    return event
+  }
+
+  /**
+   * 選択待ちのライフイベントの選択肢を選ぶ
+   * @param choiceIndex 選択肢の番号
+   */
+  chooseLifeEventOption(choiceIndex: number): void {
+    this.record({ type: 'choose_life_event', choiceIndex }, () => {
+      const choice = this.pendingLifeEvent?.choices?.[choiceIndex]
+      if (!this.pendingLifeEvent || !choice) {
+        throw new Error('Invalid life event choice')
+      }
+
+      const event = this.pendingLifeEvent
+      this.pendingLifeEvent = undefined
+      this.applyLifeEventEffects(`${event.name}（${choice.label}）`, choice.effects)
+    })
+  }
+
+  /**
+   * ライフイベントの効果を適用
+   * 一時効果は発動中のイベントとして継続ターンの間残る
+   */
+  private applyLifeEventEffects(source: string, effects: RandomEventEffects): void {
+    if (effects.vitalityChange) {
+      this.updateVitality(effects.vitalityChange)
+    }
+    effects.cardRewards?.forEach(card => this.addCardToPlayerDeck(card))
+
+    const modifiers = effects.temporaryModifiers
+    if (modifiers) {
+      this.addActiveEvent({
+        name: source,
+        power: modifiers.power ?? 0,
+        remainingTurns: modifiers.duration,
+        effects: [...modifiers.effects],
+        ...(modifiers.vitalityPerTurn !== undefined ? { vitalityPerTurn: modifiers.vitalityPerTurn } : {})
+      })
+    }
+  }
+
+  /**
+   * ターン開始時のカード効果の更新
+   * スキルのクールダウンを1減らし、イベントの残りターンを進める（継続中のライフイベントの活力の増減も適用）
+   */
+  advanceCardEffects(): void {
+    const { hand, discardPile, playerDeck } = this.cardManager.getState()
+    const coolingSkills = [...hand, ...discardPile, ...playerDeck.getCards()]
+      .filter(card => card.isSkillCard() && !SkillSystemService.canUseSkill(card))
+    SkillSystemService.processSkillCooldowns(coolingSkills)
+      .forEach(skill => this.cardManager.replaceCard(skill))
+
+    this.activeEvents = this.activeEvents
+      .map(event => ({ ...event, remainingTurns: event.remainingTurns - 1 }))
+      .filter(event => event.remainingTurns > 0)
+
+    // 継続中のライフイベントによる活力の増減
+    this.activeEvents.forEach(event => {
+      if (event.vitalityPerTurn && this.status === 'in_progress') {
+        this.updateVitality(event.vitalityPerTurn)
+      }
+    })
+  }
+
+  /**
+   * 指定したタイミングで発動するカード効果を解決（ゲーム状態は変更しない）
+   * @param hook 発動タイミング
+   * @param context 状況の上書き（チャレンジの成否・ダメージ量など）
+   * @param sources 発動元のカード（省略時はタイミングに応じたカード）
+   */
+  resolveCardEffects(
+    hook: CardEffectHook,
+    context: Partial<CardEffectContext> = {},
+    sources: Card[] = this.getCardEffectSources(hook)
+  ): CardEffectOutcome {
+    const { hand, selectedCards } = this.cardManager.getState()
+    return CardEffectEngine.resolve(hook, sources, {
+      vitality: this.vitality,
+      maxVitality: this.maxVitality,
+      turn: this.turn,
+      stage: this.stage,
+      insuranceCount: this.activeInsurances.length,
+      handSize: hand.length,
+      playedCards: [...selectedCards],
+      challenge: this.currentChallenge,
+      ...context
+    })
+  }
+
+  /**
+   * カード効果の解決結果をゲームに適用
+   * パワー・ダメージ軽減・保険料割引は呼び出し側の計算で使うため、ここでは扱わない
+   */
+  applyCardEffects(outcome: CardEffectOutcome): void {
+    if (outcome.heal > 0) this.heal(outcome.heal)
+    if (outcome.damage > 0) this.applyDamage(outcome.damage)
+    if (outcome.drawCards > 0) this.cardManager.drawCards(outcome.drawCards)
+
+    if (outcome.maxVitalityBonus !== 0) {
+      this._cardVitalityBonus += outcome.maxVitalityBonus
+      const newMaxVitality = Math.max(1, this.maxVitality + outcome.maxVitalityBonus)
+      this._vitality = Vitality.create(Math.min(this.vitality, newMaxVitality), newMaxVitality)
+      this._dirtyFlags.vitality = true
+    }
+
+    outcome.transforms.forEach(({ card, power }) => {
+      this.cardManager.replaceCard(card.copy({ power: Math.max(0, card.power + power) }))
+    })
+    outcome.lingeringEffects.forEach(event => this.addActiveEvent({ ...event }))
+  }
+
+  /**
+   * カード効果を解決して適用
+   */
+  triggerCardEffects(hook: CardEffectHook, context: Partial<CardEffectContext> = {}): CardEffectOutcome {
+    const outcome = this.resolveCardEffects(hook, context)
+    this.applyCardEffects(outcome)
+    return outcome
+  }
+
+  /**
+   * カード効果の発動元を取得
+   * チャレンジ時は使ったカード、それ以外は手元のカード（チャレンジに使っていない手札・有効な保険）と
+   * persistent 効果を持つ山札・捨て札のカード
+   */
+  private getCardEffectSources(hook: CardEffectHook): Card[] {
+    const { hand, discardPile, playerDeck, selectedCards } = this.cardManager.getState()
+    if (hook === 'on_play' || hook === 'on_challenge_resolve') {
+      return [...selectedCards]
+    }
+
+    const persistent = [...discardPile, ...playerDeck.getCards()].filter(card => card.hasEffect('persistent'))
+    return [...hand.filter(card => !selectedCards.includes(card)), ...this.activeInsurances, ...persistent]
+  }
+
+  /**
+   * 新規契約時の保険料を内訳付きで取得
+   * 年齢・保険種別・保障額・リスクプロファイルから保険料計算サービスで算出する
+   */
+  getInsurancePremiumQuote(card: Card): PremiumBreakdown {
+    return this.insuranceService.getPremiumQuote(this, card)
+  }
+
+  /**
+   * 定期保険の更新時の保険料を内訳付きで取得
+   * 新規契約時の調整に加え、保険請求の実績による継続割引・料金増加を反映する
+   */
+  getInsuranceRenewalQuote(insurance: Card): PremiumBreakdown {
+    return this.insuranceService.getRenewalQuote(this, insurance)
+  }
+
+  /**
+   * 定期保険の更新コストを計算
+   */
+  getInsuranceRenewalCost(insurance: Card): number {
+    return this.getInsuranceRenewalQuote(insurance).total
+  }
+
+  /**
+   * 定期保険を更新する（更新コストを活力で支払い、期間を延長）
+   * @returns {boolean} 更新できた場合true（活力不足の場合false）
+   */
+  renewInsurance(insurance: Card): boolean {
+    const insuranceIndex = this.activeInsurances.indexOf(insurance)
+    return this.record({ type: 'renew_insurance', insuranceIndex }, () => {
+      if (insuranceIndex === -1) {
+        throw new Error('Insurance is not active')
+      }
+
+      const renewalCost = this.getInsuranceRenewalCost(insurance)
+      if (this.vitality < renewalCost) {
+        return false
+      }
+
+      this.heal(-renewalCost)
+      // 契約時と同じ期間だけ延長
+      insurance.remainingTurns = this.getInsuranceTermDuration(insurance)
+      // デッキ側の同じカードにも反映し、キャッシュ済みの状態を捨てる
+      this.cardManager.replaceCard(insurance)
+      return true
+    })
+  }
+
+  /**
+   * 定期保険の契約期間（カードパックの定義、見つからなければ既定値）
+   */
+  private getInsuranceTermDuration(insurance: Card): number {
+    const definition = this.cardCatalog.insuranceTypes.find(def => def.insuranceType === insurance.insuranceType)
+    return definition?.termOption.duration ?? Game.DEFAULT_INSURANCE_TERM
+  }
+
+  /**
+   * 定期保険の更新を見送る
+   * 即時失効はさせず、期間満了を待つ
+   */
+  declineInsuranceRenewal(insurance: Card): void {
+    const insuranceIndex = this.activeInsurances.indexOf(insurance)
+    this.record({ type: 'decline_insurance_renewal', insuranceIndex }, () => {
+      if (insuranceIndex === -1) {
+        throw new Error('Insurance is not active')
+      }
+      console.log(`[Game] Insurance renewal declined: ${insurance.name}`)
+    })
+  }
+
+  /**
+   * 保険発動をトリガー
+   * @param context 発動時の状況（保留中のダメージなど）
+   */
+  triggerInsuranceClaim(insurance: Card, triggerType: InsuranceTriggerType, context?: PendingInsuranceClaim['context']): void {
+    const insuranceIndex = this.activeInsurances.indexOf(insurance)
+    this.record({ type: 'trigger_insurance_claim', insuranceIndex, triggerType }, () => {
+      console.log(`[Game] Insurance Triggered: ${insurance.name} (${triggerType})`)
+      this.pendingInsuranceClaim = {
+        insurance,
+        triggerType,
+        ...(context !== undefined && { context })
+      }
+    })
+  }
+
+  /**
+   * 出来事で発動する保険があれば請求を保留にする（判定はInsuranceClaimRegistry）
+   * ダメージを伴う出来事では、ダメージを保留中の請求に預ける
+   * @returns {boolean} 保険請求が保留になった場合true
+   */
+  checkInsuranceTriggers(event: InsuranceTriggerEvent): boolean {
+    const insurance = this.activeInsurances.find(card =>
+      card !== this.pendingInsuranceClaim?.insurance && InsuranceClaimRegistry.matches(card, event))
+    if (!insurance) return false
+
+    this.triggerInsuranceClaim(insurance, event.type, event.damage !== undefined ? { damage: event.damage } : undefined)
+    return this.pendingInsuranceClaim !== undefined
+  }
+
+  /**
+   * 保険請求の支払い見込みを取得（請求前の表示用）
+   * @param claim 対象の請求（省略時は保留中の請求）
+   */
+  getInsuranceClaimPayout(claim: PendingInsuranceClaim | undefined = this.pendingInsuranceClaim): InsurancePayoutQuote | undefined {
+    if (!claim) return undefined
+    return InsuranceClaimRegistry.calculatePayout(claim.insurance, claim.triggerType, {
+      damage: claim.context?.damage,
+      startingHandSize: this.config.startingHandSize
+    })
   }
 
   /**
    * 保険請求を実行（効果適用と契約終了）
    */
   async resolveInsuranceClaim(): Promise<void> {
+    return this.record({ type: 'accept_insurance_claim' }, () => this.acceptInsuranceClaim())
+  }
+
+  private async acceptInsuranceClaim(): Promise<void> {
     if (!this.pendingInsuranceClaim) return
 
-    const { insurance, triggerType } = this.pendingInsuranceClaim
-    console.log(`[Game] Resolving Insurance Claim: ${insurance.name}`)
+    const claim = this.pendingInsuranceClaim
+    const payout = this.getInsuranceClaimPayout(claim)!
+    console.log(`[Game] Resolving Insurance Claim: ${claim.insurance.name}`)
 
     // 1. 契約終了（削除）
-    this.removeInsurance(insurance)
+    this.removeInsurance(claim.insurance)
 
     // 2. 期限切れ（使用済み）リストに追加
     this.expiredInsurances = this.expiredInsurances || []
-    this.expiredInsurances.push(insurance)
-
-    // 3. 効果適用
-    await this.applyInsuranceEffect(triggerType)
+    this.expiredInsurances.push(claim.insurance)
 
-    // 4. クレーム状態をクリア
+    // 3. クレーム状態をクリア（支払い後のダメージで別の保険が発動できるように先に行う）
     this.pendingInsuranceClaim = undefined
 
+    // 4. 効果適用
+    await this.applyInsuranceEffect(payout, claim)
+    this._achievementTracker?.recordInsuranceClaim(this)
+
+    // 5. 請求履歴を記録（以降の保険料が上がる）
+    this.insuranceService.recordInsuranceClaim(this)
+
     // StateManager通知はフェーズ変更などで行うため、ここでは特別な保存は不要
     // this.stateManager.saveState(this)
   }
 
   /**
-   * 保険効果を適用
+   * 保険効果を適用（支払い効果と支払額はInsuranceClaimRegistryで計算済み）
    */
-  private async applyInsuranceEffect(triggerType: InsuranceTriggerType): Promise<void> {
-    switch (triggerType) {
-      case 'on_aging_gameover':
+  private async applyInsuranceEffect(payout: InsurancePayoutQuote, claim: PendingInsuranceClaim): Promise<void> {
+    console.log(`[Game] Applying Insurance Payout: ${payout.description}`)
+    switch (payout.effect) {
+      case 'redraw_hand':
         // 障害保険: 手札を全て捨てて引き直す
-        console.log('[Game] Applying Disability Insurance Effect: Reset Hand')
         this.cardManager.discardHand()
-        // 初期枚数（5枚）引く
-        await this.drawCards(this.config.startingHandSize)
+        await this.drawCards(payout.amount)
         break
 
-      case 'on_death':
+      case 'heal':
         // 生命保険: 活力回復
-        console.log('[Game] Applying Life Insurance Effect: Revive')
-        this.heal(10) // Fixed amount 10
+        this.heal(payout.amount)
         break
 
-      case 'on_heavy_damage':
-        console.log('[Game] Applying Medical Insurance Effect: Damage Reduction')
-        // 医療保険: ダメージを1に軽減
-        this.applyDamage(1)
-        // コンテキストクリアは不要（終了後にpendingごと消える）
+      case 'reduce_damage': {
+        // 医療保険: 保留中のダメージから支払額を差し引いて受ける
+        const remainingDamage = Math.max(0, (claim.context?.damage ?? 0) - payout.amount)
+        if (remainingDamage > 0) {
+          this.applyDamage(remainingDamage)
+        }
         break
+      }
 
-      case 'on_demand':
-        console.log('[Game] Applying Income Protection Effect: Skip Challenge')
+      case 'skip_challenge':
         // 就業不能保険: チャレンジをスキップ
-        // 現在のチャレンジ状態をクリア
         this.currentChallenge = undefined
         this.cardManager.clearSelection()
 
-        // フェーズを解決（の後の状態）へ
-        // 結果なしで解決フェーズへ移行すれば、報酬選択なしで次へ進めるはず
+        // 結果なしで解決フェーズへ移行すれば、報酬選択なしで次へ進める
         this.changePhase('resolution')
         break
     }
   }
 
-
-
   /**
    * 保険請求を拒否
    */
   declineInsuranceClaim(): void {
+    this.record({ type: 'decline_insurance_claim' }, () => {
+      this.rejectInsuranceClaim()
+    })
+  }
+
+  private rejectInsuranceClaim(): void {
     console.log(`[Game] Insurance Claim Declined`)
 
-    const triggerType = this.pendingInsuranceClaim?.triggerType
-    const context = this.pendingInsuranceClaim?.context
+    const claim = this.pendingInsuranceClaim
+    const triggerType = claim?.triggerType
+    const context = claim?.context
 
-    // 1. 保留処理の再開 (on_heavy_damage)
-    if (triggerType === 'on_heavy_damage' && context?.damage) {
+    // 1. 保留処理の再開 (ダメージを預けた請求)
+    // 断った保険は保留中のため再発動せず、別の保険（生命保険など）は発動できる
+    if (context?.damage) {
       console.log('[Game] Applying original damage after decline')
       this.applyDamage(context.damage)
     }
 
-    // クレーム状態をクリア
-    this.pendingInsuranceClaim = undefined
+    // クレーム状態をクリア（ダメージで別の保険が発動した場合はそちらを残す）
+    if (this.pendingInsuranceClaim === claim) {
+      this.pendingInsuranceClaim = undefined
+    }
 
     // 2. ゲームオーバー確定チェック (on_death, on_aging_gameover)
     // 注意: applyDamageで再度on_deathチェックが入る可能性があるが、pendingがundefinedならgame_overになるはず
@@ -1005,18 +1741,9 @@ export class Game implements IGameState {
     if (change === 0) return
 
     // 医療保険チェック (on_heavy_damage) - ダメージ適用前に判定
-    if (change < 0 && Math.abs(change) >= 10) {
-      // activeInsurancesの確認
-      const insurance = this.activeInsurances.find(c => c.insuranceTriggerType === 'on_heavy_damage')
-      if (insurance) {
-        this.triggerInsuranceClaim(insurance, 'on_heavy_damage')
-
-        // 保留状態で処理中断（ダメージ適用しない）
-        if (this.pendingInsuranceClaim) {
-          this.pendingInsuranceClaim.context = { damage: Math.abs(change) }
-          return
-        }
-      }
+    if (change < 0 && this.checkInsuranceTriggers({ type: 'on_heavy_damage', damage: -change })) {
+      // 保留状態で処理中断（ダメージ適用しない）
+      return
     }
 
     // const previousVitality = this.vitality // Unused variable removed
@@ -1061,10 +1788,8 @@ export class Game implements IGameState {
       this.activeInsurances.forEach((c, i) => console.error(`[DEBUG] Ins[${i}]: id=${c.id}, trigger=${c.insuranceTriggerType}`))
 
       // 生命保険チェック (on_death)
-      const insurance = this.activeInsurances.find(c => c.insuranceTriggerType === 'on_death')
-      if (insurance) {
-        console.error(`[DEBUG] FOUND Life Insurance: ${insurance.id}`)
-        this.triggerInsuranceClaim(insurance, 'on_death')
+      if (this.checkInsuranceTriggers({ type: 'on_death' })) {
+        console.error('[DEBUG] FOUND Life Insurance')
         // まだゲームオーバーにしない
         return
       } else {
@@ -1101,7 +1826,8 @@ export class Game implements IGameState {
       return
     }
 
-    const newMaxVitality = ageParams.maxVitality
+    // プレイヤーレベルの活力ボーナスはステージが変わっても維持する
+    const newMaxVitality = ageParams.maxVitality + (this.config.vitalityBonus ?? 0) + this._cardVitalityBonus
 
     // 現在の活力値が新しい上限を超える場合は調整
     const currentValue = this._vitality.getValue()
@@ -1121,8 +1847,10 @@ export class Game implements IGameState {
    * 次のターンへ
    */
   nextTurn(): TurnResult {
-    this.updateScore()
-    return this.turnManager.nextTurn(this)
+    return this.record({ type: 'next_turn' }, () => {
+      this.updateScore()
+      return this.turnManager.nextTurn(this)
+    })
   }
 
 
@@ -1130,23 +1858,80 @@ export class Game implements IGameState {
    * ステージを進める（手動用）
    */
   advanceStage(): void {
-    const advanceResult = this.stageManager.advanceStage(this.stage)
+    this.record({ type: 'advance_stage' }, () => {
+      const advanceResult = this.stageManager.advanceStage(this.stage)
 
-    if (advanceResult.isCompleted) {
-      // 最終ステージクリア
-      this.changeStatus('victory')
-    } else if (advanceResult.newStage) {
-      this.changeStage(advanceResult.newStage)
-    }
+      if (advanceResult.isCompleted) {
+        // 最終ステージクリア（エンドレスモードでは充実期のまま続行）
+        if (!this.isEndlessMode()) {
+          this.changeStatus('victory')
+        }
+      } else if (advanceResult.newStage) {
+        this.changeStage(advanceResult.newStage)
+      }
+    })
   }
 
   /**
    * チャレンジデッキを現在のステージ用のカードで補充する
    */
   refillChallengeDeck(): void {
-    const newCards = CardFactory.createChallengeCards(this.stage)
-    this.cardManager.refillChallengeDeck(newCards)
-    console.debug(`[Game] Challenge deck refilled for stage ${this.stage}: ${newCards.length} cards`)
+    this.record({ type: 'refill_challenge_deck' }, () => {
+      const newCards = this.createChallengeCards()
+      this.cardManager.refillChallengeDeck(newCards)
+      console.debug(`[Game] Challenge deck refilled for stage ${this.stage}: ${newCards.length} cards`)
+    })
+  }
+
+  /**
+   * 現在のステージのチャレンジカードを生成（未解放・使用禁止のカードを除く）
+   * エンドレスレベルに応じて必要パワーを上げる
+   */
+  private createChallengeCards(): Card[] {
+    const powerMultiplier = EndlessModeService.getChallengePowerMultiplier(this.getEndlessLevel())
+
+    const challenges = CardFactory.createChallengeCards(
+      this.stage,
+      this._random,
+      this.isFeatureUnlocked(PROGRESSION_FEATURES.riskChallenges),
+      this.cardCatalog
+    )
+
+    return challenges
+      .filter(card => !this.isCardBanned(card.name))
+      .map(card => powerMultiplier === 1 ? card : card.copy({ power: card.getPower().multiply(powerMultiplier).getValue() }))
+  }
+
+  /**
+   * エンドレスレベルの上昇に合わせて老化カードを捨て札に加える
+   */
+  addEndlessAgingCards(): void {
+    CardFactory.createAgingCards(EndlessModeService.getAgingCardCount(this.getEndlessLevel()), this.cardCatalog)
+      .forEach(card => this.cardManager.addToDiscardPile(card))
+  }
+
+  /**
+   * 初期デッキのカードを生成
+   * config.startingCards があればその構成（同名の重複可）にし、使用禁止カードを除く
+   */
+  private createStartingCards(): Card[] {
+    const startingCards = this.config.startingCards
+      ? this.config.startingCards.map(name => {
+        const card = CardFactory.createStarterLifeCards(this.cardCatalog).find(starter => starter.name === name)
+        if (!card) throw new Error(`Unknown starting card: ${name}`)
+        return card
+      })
+      : CardFactory.createStarterLifeCards(this.cardCatalog)
+
+    return startingCards.filter(card => !this.isCardBanned(card.name))
+  }
+
+  /**
+   * 現在の選択肢におけるカードの位置を取得（アクションログ用）
+   * @returns {number} 選択肢に含まれない場合は-1
+   */
+  private findChoiceIndex(card: Card): number {
+    return this.cardManager.getState().cardChoices?.findIndex(c => c.id === card.id) ?? -1
   }
 
   /**
@@ -1288,6 +2073,12 @@ export class Game implements IGameState {
    * スコア計算
    */
   private updateScore(): void {
+    // エンドレスモードは生き延びたターン数がスコア
+    if (this.isEndlessMode()) {
+      this.score = this.getTurnsSurvived()
+      return
+    }
+
     // Basic score calculation
     // Vitality * 1
     // Active Insurance: Coverage * 0.1? Or just a flat bonus per active card?
@@ -1363,6 +2154,13 @@ export class Game implements IGameState {
     this.insuranceService.updateInsuranceBurden(this)
   }
 
+  /**
+   * プレイヤー履歴からリスクプロファイルを作り直し、保険料負担を更新
+   */
+  refreshRiskProfile(): void {
+    this.insuranceService.refreshRiskProfile(this)
+  }
+
 
 
   /**
@@ -1370,15 +2168,18 @@ export class Game implements IGameState {
    * @param cards 使用するカード
    * @returns パワーの詳細な内訳
    */
-  calculateTotalPower(cards: Card[]): {
-    base: number
-    insurance: number
-    burden: number
-    total: number
-  } {
+  calculateTotalPower(cards: Card[]): PowerBreakdown {
     return this.challengeService.calculateTotalPower(this, cards)
   }
 
+  /**
+   * リスクチャレンジの損得の見込みを取得（選択前の表示用）
+   * @returns リスクチャレンジでなければundefined
+   */
+  getChallengeStakes(challenge: Card): ChallengeStakes | undefined {
+    return this.challengeResolutionService.calculateRiskStakes(challenge, this.stage, this)
+  }
+
 
 
 
@@ -1481,6 +2282,254 @@ export class Game implements IGameState {
     return snapshot as IGameState
   }
 
+  /**
+   * 保存・復元用の完全なスナップショットを作成
+   *
+   * getSnapshot()と異なり山札・老化デッキ・保留中の保険請求・学習履歴・乱数状態まで含む。
+   * 戻り値はJSON.stringifyでそのまま保存でき、Game.fromSnapshot()で復元できる。
+   * @returns {GameSnapshot} ゲームのスナップショット
+   */
+  toSnapshot(): GameSnapshot {
+    const cardState = this.cardManager.getState()
+    const cards = (list: Card[]): CardSnapshot[] => list.map(card => card.toSnapshot())
+    const deck = (target: Deck): DeckSnapshot => ({ name: target.getName(), cards: cards(target.getCards()) })
+    const riskFactorTypes: RiskFactorType[] = ['age', 'health', 'claims', 'lifestyle']
+
+    return {
+      version: GAME_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      id: this.id,
+      status: this.status,
+      phase: this.phase,
+      stage: this.stage,
+      turn: this.turn,
+      score: this.score,
+      config: JSON.parse(JSON.stringify(this.config)),
+      vitality: { value: this.vitality, max: this.maxVitality },
+      insuranceBurden: this.insuranceBurden,
+      riskFactors: riskFactorTypes.flatMap(type => {
+        const factor = this._riskProfile.getFactor(type)
+        return factor ? [{ type, value: factor.getValue() }] : []
+      }),
+      random: { seed: this._random.seed, state: this._random.getState() },
+      hand: cards(cardState.hand),
+      discardPile: cards(cardState.discardPile),
+      playerDeck: deck(cardState.playerDeck),
+      challengeDeck: deck(cardState.challengeDeck),
+      agingDeck: deck(cardState.agingDeck),
+      selectedCardIds: cardState.selectedCards.map(card => card.id),
+      cardChoices: cardState.cardChoices ? cards(cardState.cardChoices) : undefined,
+      managedInsuranceMarket: cards(cardState.insuranceMarket),
+      managedActiveInsurances: cards(cardState.activeInsurances),
+      currentChallenge: this.currentChallenge?.toSnapshot(),
+      selectedDream: this.selectedDream?.toSnapshot(),
+      activeInsurances: cards(this.activeInsurances),
+      expiredInsurances: cards(this.expiredInsurances),
+      insuranceMarket: cards(this.insuranceMarket),
+      insuranceTypeChoices: this.insuranceTypeChoices
+        ? JSON.parse(JSON.stringify(this.insuranceTypeChoices))
+        : undefined,
+      rewardCardChoices: this.rewardCardChoices ? cards(this.rewardCardChoices) : undefined,
+      activeEvents: this.activeEvents.map(event => ({ ...event })),
+      cardVitalityBonus: this._cardVitalityBonus,
+      pendingInsuranceClaim: this.pendingInsuranceClaim
+        ? {
+          ...this.pendingInsuranceClaim,
+          insurance: this.pendingInsuranceClaim.insurance.toSnapshot()
+        }
+        : undefined,
+      pendingLifeEventId: this.pendingLifeEvent?.id,
+      lifeEventRandomState: this._lifeEventRandom.getState(),
+      idSequence: this._ids.getState(),
+      stats: { ...this.stats },
+      playerHistory: { ...this._playerHistory },
+      learningHistory: Array.from(this._learningHistory.entries()),
+      challengeDifficultyModifier: this.challengeDifficultyModifier,
+      recentChallengeResults: [...this._dynamicDifficulty.recentPerformance],
+      consecutiveFailures: this._consecutiveFailures,
+      difficultyAdjustments: this.getDifficultyAdjustments(),
+      ai: { enabled: this._aiEnabled, strategy: this._currentAIStrategy },
+      actionLog: this._actionRecorder.getLog(),
+      startedAt: this.startedAt?.toISOString(),
+      completedAt: this.completedAt?.toISOString()
+    }
+  }
+
+  /**
+   * スナップショットからゲームを復元
+   *
+   * すべてのカードは実際のCardインスタンスとして復元され、
+   * 復元後のゲームはそのままプレイを継続できる。
+   * バージョンのない旧形式はv0として移行してから復元する。
+   * @param {GameSnapshot | LegacyGameSnapshot} snapshot - toSnapshot()で作成したスナップショット
+   * @returns {Game} 復元されたゲーム
+   * @throws {Error} 未対応のバージョンの場合
+   */
+  static fromSnapshot(snapshot: GameSnapshot | LegacyGameSnapshot): Game {
+    if (snapshot && snapshot.version === undefined) {
+      return Game.fromSnapshot(Game.migrateLegacySnapshot(snapshot))
+    }
+    if (snapshot?.version !== GAME_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported game snapshot version: ${snapshot?.version}`)
+    }
+
+    const cards = (list: CardSnapshot[]): Card[] => list.map(data => CardFactory.fromSnapshot(data))
+    const deck = (data: DeckSnapshot): Deck => new Deck(data.name, cards(data.cards))
+
+    const game = new Game(snapshot.config)
+
+    game.id = snapshot.id
+    game.status = snapshot.status
+    game.phase = snapshot.phase
+    game.stage = snapshot.stage
+    game.turn = snapshot.turn
+    game.score = snapshot.score
+
+    game._vitality = Vitality.create(snapshot.vitality.value, snapshot.vitality.max)
+    game._insuranceBurden = InsurancePremium.create(snapshot.insuranceBurden)
+    game._riskProfile = snapshot.riskFactors.reduce(
+      (profile, factor) => profile.withFactor(RiskFactor.create(factor.value, factor.type)),
+      RiskProfile.empty()
+    )
+    game._random.setState(snapshot.random.state)
+    if (snapshot.lifeEventRandomState !== undefined) {
+      game._lifeEventRandom.setState(snapshot.lifeEventRandomState)
+    }
+    if (snapshot.idSequence) {
+      game._ids.setState(snapshot.idSequence)
+    }
+
+    // 選択中のカードは手札と同じインスタンスを参照させる
+    const hand = cards(snapshot.hand)
+    const selectedCards = snapshot.selectedCardIds
+      .map(id => hand.find(card => card.id === id))
+      .filter((card): card is Card => card !== undefined)
+
+    game.cardManager.setState({
+      hand,
+      discardPile: cards(snapshot.discardPile),
+      playerDeck: deck(snapshot.playerDeck),
+      challengeDeck: deck(snapshot.challengeDeck),
+      agingDeck: deck(snapshot.agingDeck),
+      selectedCards,
+      cardChoices: snapshot.cardChoices ? cards(snapshot.cardChoices) : undefined,
+      insuranceMarket: cards(snapshot.managedInsuranceMarket),
+      activeInsurances: cards(snapshot.managedActiveInsurances)
+    })
+
+    game.currentChallenge = snapshot.currentChallenge ? CardFactory.fromSnapshot(snapshot.currentChallenge) : undefined
+    game.selectedDream = snapshot.selectedDream ? CardFactory.fromSnapshot(snapshot.selectedDream) : undefined
+    game.activeInsurances = cards(snapshot.activeInsurances)
+    game.expiredInsurances = cards(snapshot.expiredInsurances)
+    game.insuranceMarket = cards(snapshot.insuranceMarket)
+    game.insuranceTypeChoices = snapshot.insuranceTypeChoices
+      ? JSON.parse(JSON.stringify(snapshot.insuranceTypeChoices))
+      : undefined
+    game.rewardCardChoices = snapshot.rewardCardChoices ? cards(snapshot.rewardCardChoices) : undefined
+    game.activeEvents = (snapshot.activeEvents ?? []).map(event => ({ ...event }))
+    game._cardVitalityBonus = snapshot.cardVitalityBonus ?? 0
+
+    if (snapshot.pendingInsuranceClaim) {
+      // 保留中の請求は有効な保険カードと同じインスタンスを参照させる
+      const claimed = snapshot.pendingInsuranceClaim.insurance
+      game.pendingInsuranceClaim = {
+        ...snapshot.pendingInsuranceClaim,
+        insurance: game.activeInsurances.find(card => card.id === claimed.id) ?? CardFactory.fromSnapshot(claimed)
+      }
+    } else {
+      game.pendingInsuranceClaim = undefined
+    }
+    game.pendingLifeEvent = snapshot.pendingLifeEventId
+      ? ReplayabilityService.getLifeEvent(snapshot.pendingLifeEventId) ?? undefined
+      : undefined
+
+    game.stats = { ...snapshot.stats }
+    Object.assign(game._playerHistory, snapshot.playerHistory)
+    game._learningHistory.clear()
+    snapshot.learningHistory.forEach(([name, failures]) => game._learningHistory.set(name, failures))
+    game.challengeDifficultyModifier = snapshot.challengeDifficultyModifier
+    game._dynamicDifficulty = DifficultyBalanceService.calculateRunDifficulty(snapshot.recentChallengeResults ?? [])
+    game._difficultyAdjustments = (snapshot.difficultyAdjustments ?? []).map(adjustment => ({ ...adjustment }))
+    game._consecutiveFailures = snapshot.consecutiveFailures ?? 0
+    game._aiEnabled = snapshot.ai.enabled
+    game.setAIStrategy(snapshot.ai.strategy)
+    if (snapshot.actionLog) {
+      game._actionRecorder = new GameActionRecorder(snapshot.actionLog.config, snapshot.actionLog.actions)
+    }
+    if (snapshot.startedAt) game.startedAt = new Date(snapshot.startedAt)
+    if (snapshot.completedAt) game.completedAt = new Date(snapshot.completedAt)
+
+    return game
+  }
+
+  /**
+   * 旧形式（v0）のスナップショットを現在の形式に移行
+   *
+   * v0に含まれない山札・乱数状態などは同じ設定で作った新しいゲームの値で補う。
+   * @param {LegacyGameSnapshot} legacy - getSnapshot()をそのまま保存したデータ
+   * @returns {GameSnapshot} 現在のバージョンのスナップショット
+   */
+  private static migrateLegacySnapshot(legacy: LegacyGameSnapshot): GameSnapshot {
+    const base = withSilentConsole(() => new Game(legacy.config).toSnapshot())
+    const card = (data: LegacyCardSnapshot): CardSnapshot => ({
+      ...data,
+      description: data.description ?? '',
+      power: data.power ?? data._power?.value ?? 0,
+      cost: data.cost ?? data._cost?.value ?? 0,
+      effects: data.effects ?? []
+    })
+    const cards = (list: LegacyCardSnapshot[] | undefined): CardSnapshot[] => (list ?? []).map(card)
+    const deck = (data: LegacyGameSnapshot['playerDeck'], fallback: DeckSnapshot): DeckSnapshot =>
+      data ? { name: data.name ?? fallback.name, cards: cards(data.cards) } : fallback
+    const activeInsurances = cards(legacy.activeInsurances ?? legacy.insuranceCards)
+    const stats = { ...base.stats, ...legacy.stats }
+
+    return {
+      ...base,
+      id: legacy.id,
+      status: legacy.status,
+      phase: legacy.phase,
+      stage: legacy.stage,
+      turn: legacy.turn,
+      score: legacy.score ?? stats.score ?? 0,
+      vitality: { value: legacy.vitality, max: legacy.maxVitality ?? base.vitality.max },
+      insuranceBurden: legacy.insuranceBurden ?? 0,
+      hand: cards(legacy.hand),
+      discardPile: cards(legacy.discardPile),
+      playerDeck: deck(legacy.playerDeck, base.playerDeck),
+      challengeDeck: deck(legacy.challengeDeck, base.challengeDeck),
+      selectedCardIds: (legacy.selectedCards ?? []).map(data => data.id),
+      cardChoices: legacy.cardChoices ? cards(legacy.cardChoices) : undefined,
+      managedActiveInsurances: activeInsurances,
+      currentChallenge: legacy.currentChallenge ? card(legacy.currentChallenge) : undefined,
+      activeInsurances,
+      expiredInsurances: cards(legacy.expiredInsurances),
+      insuranceTypeChoices: legacy.insuranceTypeChoices,
+      stats,
+      actionLog: undefined,
+      startedAt: legacy.startedAt,
+      completedAt: legacy.completedAt
+    }
+  }
+
+  /**
+   * 先読み用にゲームを複製
+   *
+   * 山札・保険・値オブジェクト・乱数状態・アクション記録までコピーし、複製を進めても元のゲームは変わらない。
+   * アチーブメントの記録先は引き継がず、作成中のログ出力も止める。
+   * ID系列も複製されるため、複製を進めても元のゲームのIDの連番は進まない。
+   * 作成時に書き換わるバランス設定は呼び出し前の状態に戻す。
+   * @returns {Game} 元のゲームと同じ状態の別インスタンス
+   */
+  clone(): Game {
+    const overrides = GameConstantsAccessor.getOverrides()
+    try {
+      return withSilentConsole(() => Game.fromSnapshot(this.toSnapshot()))
+    } finally {
+      GameConstantsAccessor.setOverrides(overrides)
+    }
+  }
+
   /**
    * 状態変更イベントリスナーを設定
    * Observer Pattern の実装
@@ -1496,6 +2545,11 @@ export class Game implements IGameState {
     this.stateManager.addEventListener('stage_change', (event) => {
       console.info(`[Stage] ${event.previousValue} -> ${event.newValue}`)
       this.updateMaxVitalityForAge()
+      this.triggerCardEffects('on_stage_change')
+      this._achievementTracker?.recordStageChange(this)
+      if (!this.pendingInsuranceClaim) {
+        this.checkInsuranceTriggers({ type: 'on_stage_change', stage: event.newValue })
+      }
     })
 
     // ターン変更の監視
@@ -1510,6 +2564,10 @@ export class Game implements IGameState {
 
       if (event.newValue === 'game_over' || event.newValue === 'victory') {
         this.completedAt = new Date()
+        if (this.isEndlessMode()) {
+          this.updateScore()
+        }
+        this._achievementTracker?.recordGameEnd(this)
       }
     })
   }
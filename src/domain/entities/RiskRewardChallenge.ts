@@ -1,5 +1,5 @@
 import { Card } from './Card'
-import type { CardEffect, DreamCategory } from '../types/card.types'
+import type { CardEffect, CardSnapshot, DreamCategory, IAdvancedCard, RiskLevel } from '../types/card.types'
 import { IdGenerator } from '../../common/IdGenerator'
 
 /**
@@ -9,20 +9,21 @@ import { IdGenerator } from '../../common/IdGenerator'
  * 失敗時のペナルティが大きいが、成功時の報酬も大きい。
  */
 export class RiskRewardChallenge extends Card {
-  readonly riskLevel: 'low' | 'medium' | 'high' | 'extreme'
+  readonly riskLevel: RiskLevel
   readonly successBonus: number
   readonly failurePenalty: number
   readonly insuranceImmunity: boolean // 保険が効かないかどうか
 
   constructor(params: {
+    id?: string // スナップショットから復元する場合に指定
     name: string
     description: string
     power: number
-    riskLevel: 'low' | 'medium' | 'high' | 'extreme'
+    riskLevel: RiskLevel
     successBonus: number
     failurePenalty: number
     insuranceImmunity?: boolean
-    dreamCategory?: DreamCategory
+    dreamCategory?: DreamCategory | undefined
   }) {
     const effects: CardEffect[] = []
     
@@ -37,7 +38,7 @@ export class RiskRewardChallenge extends Card {
     }
 
     super({
-      id: IdGenerator.generateCardId(),
+      id: params.id ?? IdGenerator.generateCardId(),
       type: 'challenge',
       name: params.name,
       description: params.description,
@@ -53,6 +54,38 @@ export class RiskRewardChallenge extends Card {
     this.insuranceImmunity = params.insuranceImmunity || params.riskLevel === 'extreme'
   }
 
+  /**
+   * カードのコピーを作成（リスク情報を保持したまま複製する）
+   */
+  override copy(updates?: Partial<IAdvancedCard>): RiskRewardChallenge {
+    return new RiskRewardChallenge({
+      id: updates?.id ?? this.id,
+      name: updates?.name ?? this.name,
+      description: updates?.description ?? this.description,
+      power: updates?.power ?? this.power,
+      riskLevel: this.riskLevel,
+      successBonus: this.successBonus,
+      failurePenalty: this.failurePenalty,
+      insuranceImmunity: this.insuranceImmunity,
+      dreamCategory: updates?.dreamCategory ?? this.dreamCategory
+    })
+  }
+
+  /**
+   * リスク情報を含むスナップショットを作成
+   */
+  override toSnapshot(): CardSnapshot {
+    return {
+      ...super.toSnapshot(),
+      riskReward: {
+        riskLevel: this.riskLevel,
+        successBonus: this.successBonus,
+        failurePenalty: this.failurePenalty,
+        insuranceImmunity: this.insuranceImmunity
+      }
+    }
+  }
+
   /**
    * リスク倍率を取得
    */
@@ -113,7 +146,7 @@ export class RiskRewardChallenge extends Card {
    */
   static createRiskChallenge(
     stage: 'youth' | 'middle' | 'fulfillment',
-    riskLevel: 'low' | 'medium' | 'high' | 'extreme'
+    riskLevel: RiskLevel
   ): RiskRewardChallenge {
     const challengeTemplates = {
       youth: {
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../Game'
+import { Card } from '../Card'
+import { CardFactory } from '../../services/CardFactory'
+import type { GameConfig } from '../../types/game.types'
+
+describe('Game - 保険料計算サービスによる価格設定', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 15
+  }
+
+  const createTermInsurance = (id: string, insuranceType: 'medical' | 'life' = 'medical') => new Card({
+    id,
+    name: `定期${insuranceType}保険`,
+    description: 'テスト用の定期保険',
+    type: 'insurance',
+    power: 0,
+    cost: 10,
+    coverage: 200,
+    insuranceType,
+    insuranceEffectType: 'trigger',
+    insuranceTriggerType: 'on_death',
+    durationType: 'term',
+    remainingTurns: 1,
+    effects: []
+  })
+
+  const createGameWith = (...insurances: Card[]) => {
+    const game = new Game(config)
+    game.start()
+    insurances.forEach(insurance => game.addInsurance(insurance))
+    return game
+  }
+
+  it('更新コストは年齢・保険種別・保障額・継続割引・請求実績の内訳で決まる', () => {
+    const insurance = createTermInsurance('renewal-youth')
+    const game = createGameWith(insurance)
+
+    const quote = game.getInsuranceRenewalQuote(insurance)
+    expect(quote.basePremium).toBe(10)
+    expect(quote.adjustments.map(adjustment => adjustment.label))
+      .toEqual(['年齢', '保険種別', '保障額', 'リスク', '継続割引', '請求実績'])
+    expect(quote.adjustments.find(adjustment => adjustment.label === '継続割引')?.multiplier).toBeCloseTo(0.9)
+    expect(quote.total).toBe(quote.adjustments.at(-1)?.premium)
+    expect(game.getInsuranceRenewalCost(insurance)).toBe(quote.total)
+
+    // 年齢が上がると高くなる
+    game.setStage('fulfillment')
+    expect(game.getInsuranceRenewalCost(insurance)).toBeGreaterThan(quote.total)
+  })
+
+  it('更新すると保険料を支払い、契約時と同じ期間だけ延長する', () => {
+    const insurance = createTermInsurance('renewal-term')
+    const game = createGameWith(insurance)
+    const cost = game.getInsuranceRenewalCost(insurance)
+    const vitality = game.vitality
+
+    expect(game.renewInsurance(insurance)).toBe(true)
+    expect(game.vitality).toBe(vitality - cost)
+    const medical = CardFactory.getDefaultCatalog().insuranceTypes.find(def => def.insuranceType === 'medical')
+    expect(insurance.remainingTurns).toBe(medical?.termOption.duration)
+  })
+
+  it('保険請求の履歴で更新・新規契約・毎ターンの保険料が上がる', async () => {
+    const claimed = createTermInsurance('claimed', 'life')
+    const renewing = createTermInsurance('renewing')
+    const game = createGameWith(claimed, renewing)
+    const newcomer = createTermInsurance('newcomer')
+
+    const renewalBefore = game.getInsuranceRenewalQuote(renewing)
+    const purchaseBefore = game.getInsurancePremiumQuote(newcomer).total
+
+    game.triggerInsuranceClaim(claimed, 'on_death')
+    await game.resolveInsuranceClaim()
+    expect(game.getPlayerHistory().insuranceClaimCount).toBe(1)
+
+    const renewalAfter = game.getInsuranceRenewalQuote(renewing)
+    expect(renewalAfter.adjustments.find(adjustment => adjustment.label === '継続割引')?.multiplier).toBeCloseTo(0.95)
+    expect(renewalAfter.total).toBeGreaterThan(renewalBefore.total)
+    expect(game.getInsurancePremiumQuote(newcomer).total).toBeGreaterThan(purchaseBefore)
+
+    // 毎ターンの保険料負担も同じリスクプロファイルで計算される
+    const unclaimed = createGameWith(createTermInsurance('unclaimed'))
+    expect(game.insuranceBurden).toBeGreaterThan(unclaimed.insuranceBurden)
+  })
+
+  it('最低保険料を下回る場合は最低保険料を支払う', () => {
+    const choice = CardFactory.createInsuranceTypeChoices('youth')[0]!
+    const cheap = CardFactory.createTermInsuranceCard(choice)
+    const game = createGameWith(cheap)
+
+    const quote = game.getInsuranceRenewalQuote(cheap)
+    expect(quote.adjustments.at(-1)?.premium).toBe(0)
+    expect(quote.minimumApplied).toBe(true)
+    expect(quote.total).toBe(1)
+  })
+})
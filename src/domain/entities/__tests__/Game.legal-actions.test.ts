@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../Game'
+import { Card } from '../Card'
+import { GameReplayer } from '../../services/GameReplayer'
+import { SeededRandom } from '../../../common/SeededRandom'
+import type { GameConfig } from '../../types/game.types'
+
+describe('Game - 実行できるアクションの生成', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 21
+  }
+
+  it('フェーズに応じたアクションを返す', async () => {
+    const game = new Game(config)
+    expect(game.getLegalActions()).toEqual([{ type: 'start' }])
+
+    await game.apply({ type: 'start' })
+    expect(game.getLegalActions()).toContainEqual({ type: 'select_character', characterId: 'solid' })
+
+    await game.apply({ type: 'select_character', characterId: 'solid' })
+    expect(game.getLegalActions()).toEqual(game.cardChoices!.map((_, choiceIndex) => ({ type: 'select_dream', choiceIndex })))
+
+    await game.apply({ type: 'select_dream', choiceIndex: 0 })
+    expect(game.getLegalActions()).toEqual([{ type: 'start_challenge_phase' }])
+
+    await game.apply({ type: 'start_challenge_phase' })
+    await game.apply({ type: 'start_challenge', choiceIndex: 0 })
+    // 課題を選んだ直後は手札を引く
+    expect(game.getLegalActions()).toEqual([{ type: 'draw_cards', count: 7 }])
+
+    await game.apply({ type: 'draw_cards', count: 7 })
+    const actions = game.getLegalActions()
+    expect(actions).toContainEqual({ type: 'toggle_card_selection', handIndex: 0 })
+    expect(actions).toContainEqual({ type: 'resolve_challenge' })
+    expect(actions).not.toContainEqual({ type: 'next_turn' })
+  })
+
+  it('解放されていない機能のアクションは含めず、生成したアクションはすべて実行できる', async () => {
+    const lockedConfig: GameConfig = { ...config, unlockedFeatures: [] }
+    const game = new Game(lockedConfig)
+    await game.apply({ type: 'start' })
+
+    const characterActions = game.getLegalActions()
+    expect(characterActions).toContainEqual({ type: 'select_character', characterId: 'solid' })
+    expect(characterActions).not.toContainEqual({ type: 'select_character', characterId: 'adventurer' })
+    for (const action of characterActions) {
+      const fresh = new Game(lockedConfig)
+      await fresh.apply({ type: 'start' })
+      await expect(fresh.apply(action)).resolves.toBeUndefined()
+    }
+
+    const random = new SeededRandom(11)
+    for (let step = 0; step < 2000 && game.status !== 'victory' && game.status !== 'game_over'; step++) {
+      const actions = game.getLegalActions()
+      await game.apply(actions[random.nextInt(actions.length)]!)
+    }
+    expect(['victory', 'game_over']).toContain(game.status)
+  })
+
+  it('保留中の保険請求とライフイベントは他の操作より先に選ぶ', async () => {
+    const game = new Game({ ...config, balanceConfig: { lifeEventSettings: { enabled: false } } })
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+
+    const insurance = new Card({
+      id: 'income-protection',
+      name: '就業不能保険',
+      description: '',
+      type: 'insurance',
+      power: 0,
+      cost: 1,
+      insuranceTriggerType: 'on_demand',
+      effects: []
+    })
+    game.activeInsurances.push(insurance)
+    game.triggerInsuranceClaim(insurance, 'on_demand')
+    expect(game.getLegalActions()).toEqual([{ type: 'accept_insurance_claim' }, { type: 'decline_insurance_claim' }])
+
+    await game.apply({ type: 'decline_insurance_claim' })
+    expect(game.getLegalActions()).toEqual([{ type: 'start_challenge_phase' }])
+  })
+
+  it('合法なアクションだけで最後まで遊べ、記録はリプレイで再現できる', async () => {
+    const game = new Game(config)
+    const random = new SeededRandom(7)
+
+    for (let step = 0; step < 2000 && game.status !== 'victory' && game.status !== 'game_over'; step++) {
+      const actions = game.getLegalActions()
+      expect(actions.length).toBeGreaterThan(0)
+      await game.apply(actions[random.nextInt(actions.length)]!)
+    }
+
+    expect(['victory', 'game_over']).toContain(game.status)
+    expect(game.getLegalActions()).toEqual([])
+
+    const result = await GameReplayer.verify(GameReplayer.createReplay(game))
+    expect(result.differences).toEqual([])
+  })
+})
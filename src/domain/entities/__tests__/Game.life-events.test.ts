@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../Game'
+import { ReplayabilityService } from '../../services/ReplayabilityService'
+import { SeededRandom } from '../../../common/SeededRandom'
+import type { GameConfig } from '../../types/game.types'
+
+describe('Game - ターン開始時のライフイベント', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 18
+  }
+
+  const createStartedGame = (eventChance: number) => {
+    const game = new Game({ ...config, balanceConfig: { lifeEventSettings: { eventChance } } })
+    game.start()
+    return game
+  }
+
+  it('ステージごとの重みでイベントを選ぶ', () => {
+    expect(ReplayabilityService.drawLifeEvent('youth', 0, new SeededRandom(1))).toBeNull()
+
+    const countDraws = (stage: 'youth' | 'fulfillment', id: string) => {
+      const random = new SeededRandom(7)
+      let count = 0
+      for (let i = 0; i < 300; i++) {
+        if (ReplayabilityService.drawLifeEvent(stage, 1, random)?.id === id) count++
+      }
+      return count
+    }
+    // 結婚は青年期、病気は充実期に起きやすい
+    expect(countDraws('youth', 'marriage')).toBeGreaterThan(countDraws('fulfillment', 'marriage'))
+    expect(countDraws('fulfillment', 'illness')).toBeGreaterThan(countDraws('youth', 'illness'))
+  })
+
+  it('選択肢のあるイベントは選択待ちになり、保存・復元できる', () => {
+    const game = createStartedGame(1)
+    let lifeEvent = game.nextTurn().lifeEvent
+    while (!lifeEvent?.choices) {
+      lifeEvent = game.nextTurn().lifeEvent
+    }
+    expect(game.pendingLifeEvent?.id).toBe(lifeEvent.id)
+
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    expect(restored.pendingLifeEvent?.id).toBe(lifeEvent.id)
+
+    game.chooseLifeEventOption(0)
+    expect(game.pendingLifeEvent).toBeUndefined()
+    expect(game.getActionLog().actions.at(-1)).toEqual({ type: 'choose_life_event', choiceIndex: 0 })
+    expect(() => game.chooseLifeEventOption(0)).toThrow('Invalid life event choice')
+  })
+
+  it('一時効果は継続ターンの間チャレンジのパワーと活力に反映される', () => {
+    const game = createStartedGame(0)
+    game.applyDamage(20)
+    game.pendingLifeEvent = ReplayabilityService.getLifeEvent('illness')!
+
+    // 治療に専念: 3ターンの間チャレンジ-1、以降のターン開始時に活力+3
+    game.chooseLifeEventOption(0)
+    expect(game.activeEvents).toEqual([{
+      name: '病気（治療に専念する）',
+      power: -1,
+      remainingTurns: 3,
+      effects: ['療養中: チャレンジ-1・毎ターン活力+3'],
+      vitalityPerTurn: 3
+    }])
+
+    const vitality = game.vitality
+    game.nextTurn()
+    game.nextTurn()
+    expect(game.vitality).toBe(vitality + 6 - game.insuranceBurden * 2)
+    expect(game.activeEvents[0]?.remainingTurns).toBe(1)
+
+    game.nextTurn()
+    expect(game.activeEvents).toEqual([])
+  })
+
+  it('lifeEventSettings.enabled が false ならイベントは起きない', () => {
+    const game = new Game({ ...config, balanceConfig: { lifeEventSettings: { enabled: false, eventChance: 1 } } })
+    game.start()
+    for (let i = 0; i < 5; i++) {
+      expect(game.nextTurn().lifeEvent).toBeUndefined()
+    }
+    expect(game.pendingLifeEvent).toBeUndefined()
+  })
+})
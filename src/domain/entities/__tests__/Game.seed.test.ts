@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../Game'
+import { Deck } from '../Deck'
+import { CardFactory } from '../../services/CardFactory'
+import { SeededRandom } from '../../../common/SeededRandom'
+import { IdGenerator } from '../../../common/IdGenerator'
+
+describe('Game - シード付き乱数による再現性', () => {
+  const createGame = (seed?: number) => new Game({
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    ...(seed !== undefined ? { seed } : {})
+  })
+
+  const challengeNames = (game: Game) => game.challengeDeck.getCards().map(c => c.name)
+
+  it('同じシードなら同じチャレンジデッキが生成される', () => {
+    const a = createGame(12345)
+    const b = createGame(12345)
+
+    expect(challengeNames(a)).toEqual(challengeNames(b))
+  })
+
+  it('異なるシードではチャレンジデッキの並びが変わる', () => {
+    const a = createGame(1)
+    const b = createGame(2)
+
+    expect(challengeNames(a)).not.toEqual(challengeNames(b))
+  })
+
+  it('同じシードなら夢カードの選択肢と手札も一致する', async () => {
+    const a = createGame(777)
+    const b = createGame(777)
+
+    a.startDreamSelectionPhase()
+    b.startDreamSelectionPhase()
+    expect(a.cardChoices?.map(c => c.name)).toEqual(b.cardChoices?.map(c => c.name))
+
+    await a.selectDream(a.cardChoices![0]!)
+    await b.selectDream(b.cardChoices![0]!)
+    await a.drawCards(5)
+    await b.drawCards(5)
+    expect(a.hand.length).toBeGreaterThan(0)
+    expect(a.hand.map(c => c.name)).toEqual(b.hand.map(c => c.name))
+  })
+
+  it('IDの連番はゲームごとに持ち、同じシードのゲームを並行して作っても同じIDになる', () => {
+    const a = createGame(31)
+    const b = createGame(31)
+    const ids = (game: Game) => [game.id, ...game.challengeDeck.getCards().map(c => c.id)]
+
+    expect(ids(a)).toEqual(ids(b))
+    a.refillChallengeDeck()
+    b.refillChallengeDeck()
+    expect(ids(a)).toEqual(ids(b))
+  })
+
+  it('非同期のアクションを並行して進めても、各ゲームは自分の系列のIDを作り、終わった後に系列が残らない', async () => {
+    const play = async (game: Game) => {
+      game.startDreamSelectionPhase()
+      await game.selectDream(game.cardChoices![0]!)
+      await game.drawCards(3)
+      game.refillChallengeDeck()
+      await game.drawCards(2)
+    }
+    const ids = (game: Game) => [game.id, ...game.hand.map(c => c.id), ...game.challengeDeck.getCards().map(c => c.id)]
+
+    const expectedA = createGame(41)
+    const expectedB = createGame(43)
+    await play(expectedA)
+    await play(expectedB)
+
+    const a = createGame(41)
+    const b = createGame(43)
+    await Promise.all([play(a), play(b)])
+
+    expect(ids(a)).toEqual(ids(expectedA))
+    expect(ids(b)).toEqual(ids(expectedB))
+    expect(a.toSnapshot().idSequence).toEqual(expectedA.toSnapshot().idSequence)
+    // ゲームの外で作るIDは系列ではなく時刻から作る
+    expect(IdGenerator.generate('x')).toMatch(/^x_\d{13}_/)
+  })
+
+  it('スナップショットから復元したゲームは元のゲームと同じIDの続きを作る', () => {
+    const game = createGame(39)
+    game.refillChallengeDeck()
+    const usedIds = new Set(game.challengeDeck.getCards().map(c => c.id))
+    const restored = Game.fromSnapshot(game.toSnapshot())
+
+    game.refillChallengeDeck()
+    restored.refillChallengeDeck()
+    const ids = restored.challengeDeck.getCards().map(c => c.id)
+    expect(ids).toEqual(game.challengeDeck.getCards().map(c => c.id))
+    expect(ids.filter(id => usedIds.has(id))).toEqual([])
+  })
+
+  it('シード未指定時は生成したシードをconfigに記録する', () => {
+    const game = createGame()
+
+    expect(typeof game.getSeed()).toBe('number')
+    expect(game.config.seed).toBe(game.getSeed())
+    expect(challengeNames(createGame(game.getSeed()))).toEqual(challengeNames(game))
+  })
+})
+
+describe('SeededRandom', () => {
+  it('同じシードから同じ乱数列を生成する', () => {
+    const a = new SeededRandom(99)
+    const b = new SeededRandom(99)
+
+    const seqA = Array.from({ length: 10 }, () => a.next())
+    const seqB = Array.from({ length: 10 }, () => b.next())
+
+    expect(seqA).toEqual(seqB)
+    seqA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+
+  it('getState/setStateで途中から乱数列を再開できる', () => {
+    const random = new SeededRandom(5)
+    random.next()
+    const state = random.getState()
+    const expected = random.next()
+
+    random.setState(state)
+    expect(random.next()).toBe(expected)
+  })
+
+  it('forkした系列は派生元の乱数列を消費しない', () => {
+    const a = new SeededRandom(5)
+    const b = new SeededRandom(5)
+    a.fork('ids').next()
+
+    expect(a.next()).toBe(b.next())
+  })
+
+  it('Deck.shuffleとCardFactoryが乱数源を受け取る', () => {
+    const makeDeck = () => {
+      const deck = new Deck('Test')
+      deck.addCards(CardFactory.createStarterLifeCards())
+      deck.shuffle(new SeededRandom(3))
+      return deck.getCards().map(c => c.name)
+    }
+    expect(makeDeck()).toEqual(makeDeck())
+
+    const choicesA = CardFactory.createInsuranceTypeChoices('youth', new SeededRandom(8))
+    const choicesB = CardFactory.createInsuranceTypeChoices('youth', new SeededRandom(8))
+    expect(choicesA.map(c => c.name)).toEqual(choicesB.map(c => c.name))
+  })
+
+  it('有限でないシードはエラーになる', () => {
+    expect(() => new SeededRandom(Number.NaN)).toThrow()
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../Game'
+import { Card } from '../Card'
+import { RiskRewardChallenge } from '../RiskRewardChallenge'
+import { GAME_SNAPSHOT_VERSION, type GameSnapshot, type LegacyGameSnapshot } from '../../types/game.types'
+
+describe('Game - スナップショットの保存と復元', () => {
+  const createPlayingGame = async (): Promise<Game> => {
+    const game = new Game({
+      difficulty: 'normal',
+      startingVitality: 100,
+      startingHandSize: 5,
+      maxHandSize: 7,
+      dreamCardCount: 3,
+      seed: 2024
+    })
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    await game.drawCards(5)
+    return game
+  }
+
+  // JSON文字列を経由して保存・読み込みを再現する
+  const roundTrip = (game: Game): Game =>
+    Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())) as GameSnapshot)
+
+  const withoutTimestamp = (snapshot: GameSnapshot) => ({ ...snapshot, savedAt: '' })
+
+  it('復元したゲームのスナップショットが元と一致する', async () => {
+    const game = await createPlayingGame()
+    game.updateLearningHistory('就職活動', 2)
+    game.challengeDifficultyModifier = 3
+
+    const restored = roundTrip(game)
+
+    expect(withoutTimestamp(restored.toSnapshot())).toEqual(withoutTimestamp(game.toSnapshot()))
+    expect(restored.getLearningHistory('就職活動')).toBe(2)
+    expect(restored.startedAt).toBeInstanceOf(Date)
+  })
+
+  it('すべてのカードがCardインスタンスとして復元される', async () => {
+    const game = await createPlayingGame()
+    game.activeInsurances.push(Card.createInsuranceCard('医療保険', 2, 3))
+
+    const restored = roundTrip(game)
+
+    expect(restored.hand.length).toBe(game.hand.length)
+    restored.hand.forEach(card => expect(card).toBeInstanceOf(Card))
+    restored.playerDeck.getCards().forEach(card => expect(card).toBeInstanceOf(Card))
+    expect(restored.selectedDream).toBeInstanceOf(Card)
+    expect(restored.activeInsurances[0]).toBeInstanceOf(Card)
+    expect(restored.activeInsurances[0]!.power).toBe(2)
+  })
+
+  it('リスク・リワードチャレンジはサブクラスとして復元される', async () => {
+    const game = await createPlayingGame()
+    game.currentChallenge = RiskRewardChallenge.createRiskChallenge('youth', 'high')
+
+    const restored = roundTrip(game)
+
+    expect(restored.currentChallenge).toBeInstanceOf(RiskRewardChallenge)
+    expect((restored.currentChallenge as RiskRewardChallenge).riskLevel).toBe('high')
+    expect(restored.currentChallenge!.id).toBe(game.currentChallenge.id)
+  })
+
+  it('値オブジェクトと保留中の保険請求が復元される', async () => {
+    const game = await createPlayingGame()
+    const insurance = Card.createInsuranceCard('生命保険', 0, 4)
+    game.activeInsurances.push(insurance)
+    game.pendingInsuranceClaim = { insurance, triggerType: 'on_death' }
+    game.applyDamage(30)
+
+    const restored = roundTrip(game)
+
+    expect(restored.vitality).toBe(game.vitality)
+    expect(restored.maxVitality).toBe(game.maxVitality)
+    expect(restored.insuranceBurden).toBe(game.insuranceBurden)
+    expect(restored.getPlayerHistory()).toEqual(game.getPlayerHistory())
+    expect(restored.pendingInsuranceClaim?.triggerType).toBe('on_death')
+    // 請求対象は有効な保険カードと同じインスタンスを参照する
+    expect(restored.pendingInsuranceClaim?.insurance).toBe(restored.activeInsurances[0])
+  })
+
+  it('復元後も元のゲームと同じ展開でプレイを継続できる', async () => {
+    const game = await createPlayingGame()
+    const restored = roundTrip(game)
+
+    game.startChallengePhase()
+    restored.startChallengePhase()
+    expect(restored.cardChoices?.map(c => c.name)).toEqual(game.cardChoices?.map(c => c.name))
+    expect(restored.phase).toBe('challenge_choice')
+  })
+
+  it('バージョンのない旧形式はv0として移行して復元できる', async () => {
+    const game = await createPlayingGame()
+    game.toggleCardSelection(game.hand[0]!)
+    // 旧形式はgetSnapshot()をそのままJSONにして保存していた
+    const legacy = JSON.parse(JSON.stringify(game.getSnapshot())) as LegacyGameSnapshot
+    expect(legacy.version).toBeUndefined()
+
+    const restored = Game.fromSnapshot(legacy)
+
+    expect(restored.id).toBe(game.id)
+    expect(restored.phase).toBe(game.phase)
+    expect(restored.turn).toBe(game.turn)
+    expect(restored.vitality).toBe(game.vitality)
+    expect(restored.maxVitality).toBe(game.maxVitality)
+    expect(restored.hand.every(card => card instanceof Card)).toBe(true)
+    expect(restored.hand.map(card => [card.name, card.power, card.cost]))
+      .toEqual(game.hand.map(card => [card.name, card.power, card.cost]))
+    expect(restored.selectedCards.map(card => card.id)).toEqual([game.hand[0]!.id])
+    expect(restored.playerDeck.getCards().map(card => card.id)).toEqual(game.playerDeck.getCards().map(card => card.id))
+    expect(restored.stats).toEqual(game.stats)
+    expect(restored.toSnapshot().version).toBe(GAME_SNAPSHOT_VERSION)
+  })
+
+    it('未対応のバージョンは復元できない', async () => {
+    const game = await createPlayingGame()
+    const snapshot = { ...game.toSnapshot(), version: GAME_SNAPSHOT_VERSION + 1 }
+
+    expect(() => Game.fromSnapshot(snapshot)).toThrow('Unsupported game snapshot version')
+  })
+})
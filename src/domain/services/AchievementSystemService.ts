@@ -436,4 +436,33 @@ export class AchievementSystemService {
       unlockedBonuses: []
     }
   }
+
+  /**
+   * 保存済みの進捗と解除記録からプレイヤーアチーブメントデータを復元
+   * 経験値と永続ボーナスは解除済みアチーブメントの報酬から再計算する
+   * （定義から削除されたIDは無視する）
+   */
+  static restorePlayerAchievements(
+    progress: Record<string, number>,
+    unlocked: Array<{ id: string, unlockedAt: Date | string }>
+  ): PlayerAchievements {
+    const unlockedAt = new Map(unlocked.map(record => [record.id, new Date(record.unlockedAt)]))
+
+    const achievements = this.getAllAchievements().map(achievement => {
+      const date = unlockedAt.get(achievement.id)
+      if (date) {
+        return { ...achievement, isUnlocked: true, progress: achievement.maxProgress, unlockedAt: date }
+      }
+      return { ...achievement, progress: Math.min(progress[achievement.id] ?? 0, achievement.maxProgress) }
+    })
+
+    const unlockedAchievements = achievements.filter(achievement => achievement.isUnlocked)
+    return {
+      achievements,
+      totalExperience: unlockedAchievements.reduce((sum, achievement) => sum + achievement.reward.experience, 0),
+      unlockedBonuses: unlockedAchievements.flatMap(achievement => achievement.reward.permanentBonus
+        ? [{ ...achievement.reward.permanentBonus, source: achievement.name }]
+        : [])
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import type { Game } from '../entities/Game'
+import type { ChallengeResult } from '../types/game.types'
+import {
+  AchievementSystemService,
+  type Achievement,
+  type PlayerAchievements
+} from './AchievementSystemService'
+
+/**
+ * アチーブメント進捗を更新したゲームイベント
+ */
+export type AchievementEventType = 'challenge' | 'insurance_claim' | 'stage_change' | 'game_end'
+
+/**
+ * アチーブメント進捗の更新通知
+ */
+export interface AchievementUpdate {
+  type: AchievementEventType
+  newlyUnlocked: Achievement[]
+  achievements: PlayerAchievements
+}
+
+/**
+ * 通算で数えるアチーブメント（前回までの進捗に今回のゲームの成功数を加算する）
+ */
+const LIFETIME_CHALLENGE_ACHIEVEMENT = 'master_challenger'
+
+/**
+ * アチーブメントトラッカー
+ *
+ * 進行中のゲームのイベント（チャレンジ結果・保険請求・ステージ変更・勝敗）から
+ * AchievementSystemService の進捗を更新し、新しく解除されたアチーブメントを通知する。
+ * スキル・コンボ・カード収集系は対応するゲーム要素がまだないため進捗しない。
+ *
+ * @example
+ * const tracker = new AchievementTracker(savedAchievements)
+ * tracker.addListener(update => update.newlyUnlocked.forEach(showToast))
+ * game.setAchievementTracker(tracker)
+ */
+export class AchievementTracker {
+  private achievements: PlayerAchievements
+  private readonly listeners: Array<(update: AchievementUpdate) => void> = []
+
+  // 前回までの通算チャレンジ成功数
+  private lifetimeSuccesses: number
+
+  // このゲームでの記録
+  private consecutiveSuccesses = 0
+  private bestStreak = 0
+  private readonly acquiredInsuranceIds = new Set<string>()
+  private lowVitalityTurn: number | undefined = undefined
+  private survivedWithLowVitality = false
+
+  constructor(achievements: PlayerAchievements = AchievementSystemService.createInitialPlayerAchievements()) {
+    this.achievements = achievements
+    this.lifetimeSuccesses = this.getLifetimeSuccesses()
+  }
+
+  /**
+   * 現在のアチーブメントデータを取得
+   */
+  getAchievements(): PlayerAchievements {
+    return this.achievements
+  }
+
+  /**
+   * このゲームでの最高連続成功数を取得
+   */
+  getBestStreak(): number {
+    return this.bestStreak
+  }
+
+  /**
+   * 進捗更新リスナーを登録
+   * @returns リスナー解除関数
+   */
+  addListener(listener: (update: AchievementUpdate) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const index = this.listeners.indexOf(listener)
+      if (index > -1) {
+        this.listeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 保存済みのアチーブメントを読み込む
+   * ゲーム開始後に読み込みが終わった場合も、このゲームで解除したものは保持する
+   */
+  restore(saved: PlayerAchievements): void {
+    const progress = Object.fromEntries(saved.achievements.map(achievement => [achievement.id, achievement.progress]))
+    const unlocked = [...saved.achievements, ...this.achievements.achievements]
+      .filter(achievement => achievement.isUnlocked && achievement.unlockedAt)
+      .map(achievement => ({ id: achievement.id, unlockedAt: achievement.unlockedAt! }))
+
+    this.achievements = AchievementSystemService.restorePlayerAchievements(progress, unlocked)
+    this.lifetimeSuccesses = this.getLifetimeSuccesses()
+  }
+
+  /**
+   * チャレンジ結果を記録
+   */
+  recordChallengeResult(game: Game, result: ChallengeResult): Achievement[] {
+    this.consecutiveSuccesses = result.success ? this.consecutiveSuccesses + 1 : 0
+    this.bestStreak = Math.max(this.bestStreak, this.consecutiveSuccesses)
+    return this.update('challenge', game)
+  }
+
+  /**
+   * 保険請求を記録
+   */
+  recordInsuranceClaim(game: Game): Achievement[] {
+    return this.update('insurance_claim', game)
+  }
+
+  /**
+   * ステージ変更を記録
+   */
+  recordStageChange(game: Game): Achievement[] {
+    return this.update('stage_change', game)
+  }
+
+  /**
+   * ゲーム終了（勝利・ゲームオーバー）を記録
+   */
+  recordGameEnd(game: Game): Achievement[] {
+    return this.update('game_end', game)
+  }
+
+  private update(type: AchievementEventType, game: Game): Achievement[] {
+    this.observe(game)
+
+    const previouslyUnlocked = new Set(this.achievements.achievements
+      .filter(achievement => achievement.isUnlocked)
+      .map(achievement => achievement.id))
+
+    this.achievements = AchievementSystemService.updateProgress(
+      this.achievements,
+      { ...game.stats, successfulChallenges: this.lifetimeSuccesses + game.stats.successfulChallenges },
+      {
+        consecutiveSuccesses: this.consecutiveSuccesses,
+        legendaryCardsAcquired: game.playerDeck.getCards().filter(card => card.isLegendaryCard()).length,
+        survivedWithLowVitality: this.survivedWithLowVitality ? 1 : 0,
+        maxVitalityReached: Math.floor(game.stats.highestVitality / Math.max(game.maxVitality, 1) * 100),
+        insuranceCardsAcquired: this.acquiredInsuranceIds.size,
+        simultaneousInsuranceTypes: new Set(game.activeInsurances.map(card => card.insuranceType ?? card.name)).size,
+        allStagesCleared: game.status === 'victory' ? 1 : 0
+      }
+    )
+
+    const newlyUnlocked = this.achievements.achievements
+      .filter(achievement => achievement.isUnlocked && !previouslyUnlocked.has(achievement.id))
+    const update: AchievementUpdate = { type, newlyUnlocked, achievements: this.achievements }
+    this.listeners.forEach(listener => listener(update))
+    return newlyUnlocked
+  }
+
+  /**
+   * ゲーム状態からこのゲームでの記録を更新
+   */
+  private observe(game: Game): void {
+    game.activeInsurances.forEach(card => this.acquiredInsuranceIds.add(card.id))
+
+    const vitality = game.vitality
+    if (this.lowVitalityTurn !== undefined && game.turn > this.lowVitalityTurn && vitality > 0) {
+      this.survivedWithLowVitality = true
+    }
+    if (this.lowVitalityTurn === undefined && vitality > 0 && vitality <= 1) {
+      this.lowVitalityTurn = game.turn
+    }
+  }
+
+  private getLifetimeSuccesses(): number {
+    return this.achievements.achievements.find(achievement => achievement.id === LIFETIME_CHALLENGE_ACHIEVEMENT)?.progress ?? 0
+  }
+}
@@ -0,0 +1,305 @@
+import type { Card } from '../entities/Card'
+import type { CardEffect, CardEffectType, GameStage } from '../types/card.types'
+import type { ActiveEvent } from '../types/game.types'
+
+/**
+ * カード効果の発動タイミング
+ */
+export type CardEffectHook =
+  | 'on_play'              // チャレンジにカードを使ったとき（パワー計算時）
+  | 'on_challenge_resolve' // チャレンジの成否が決まったとき
+  | 'on_damage'            // チャレンジ失敗でダメージを受けるとき
+  | 'on_turn_end'          // ターン終了時
+  | 'on_stage_change'      // ステージが変わったとき
+
+/**
+ * 効果の発動条件を評価するための状況
+ */
+export interface CardEffectContext {
+  vitality: number
+  maxVitality: number
+  turn: number
+  stage: GameStage
+  insuranceCount: number
+  handSize: number
+  playedCards: Card[] // チャレンジに使うカード
+  challenge?: Card | undefined
+  challengePower?: number | undefined
+  playerPower?: number | undefined
+  success?: boolean | undefined
+  damage?: number | undefined // 軽減前のダメージ
+}
+
+/**
+ * 効果の解決結果
+ * パワー・ダメージ軽減・保険料割引は呼び出し側の計算に使い、それ以外はGameが適用する
+ */
+export interface CardEffectOutcome {
+  power: number
+  damageReduction: number
+  premiumDiscount: number
+  heal: number
+  damage: number
+  drawCards: number
+  maxVitalityBonus: number
+  transforms: { card: Card; power: number }[] // カードのパワーの増減
+  lingeringEffects: ActiveEvent[] // 複数ターン続く効果
+  specialActions: { card: Card; effect: CardEffect }[] // 組み込みの処理がない特殊行動
+  triggered: { card: Card; effect: CardEffect }[] // 発動した効果（ログ・表示用）
+}
+
+/**
+ * カード効果エンジン
+ *
+ * カードの effects（CardEffect）を発動タイミングごとに解釈し、結果をまとめて返す。
+ * 新しいカードは Game に分岐を追加せず、効果の種類・値・条件の組み合わせで設計できる。
+ *
+ * 発動条件（condition）は `&&` でつないだ節の並び:
+ * - `vitality<=20` `stage==middle` `success==true` などの比較（>=, <=, ==, !=, >, <）
+ * - `on:turn_end` 発動タイミングの指定（省略時は効果の種類ごとの既定値）
+ * - `turns:3` 複数ターン効果の継続ターン数
+ * - `就職,転職` 比較でない節はチャレンジ名に含まれるキーワードの候補
+ */
+export class CardEffectEngine {
+  // 複数ターン効果の既定の継続ターン数
+  static readonly DEFAULT_LINGERING_TURNS = 3
+
+  // 効果の種類ごとの既定の発動タイミング
+  static readonly DEFAULT_HOOKS: Record<CardEffectType, CardEffectHook> = {
+    power_boost: 'on_play',
+    challenge_bonus: 'on_play',
+    chain_combo: 'on_play',
+    synergy: 'on_play',
+    vitality_boost: 'on_play',
+    double_effect: 'on_play',
+    heal: 'on_challenge_resolve',
+    multi_turn: 'on_challenge_resolve',
+    special_action: 'on_challenge_resolve',
+    shield: 'on_damage',
+    damage_reduction: 'on_damage',
+    insurance_coverage: 'on_damage',
+    risk_mitigation: 'on_damage',
+    trigger_on_event: 'on_damage',
+    draw_cards: 'on_turn_end',
+    turn_heal: 'on_turn_end',
+    resource_generation: 'on_turn_end',
+    insurance_discount: 'on_turn_end',
+    aging_penalty: 'on_turn_end',
+    persistent: 'on_turn_end',
+    card_transform: 'on_stage_change'
+  }
+
+  // 保険カードでは既存の保険ルール（Cardの計算メソッド）が処理する効果
+  private static readonly INSURANCE_RULE_EFFECTS: CardEffectType[] = [
+    'shield',
+    'damage_reduction',
+    'turn_heal',
+    'challenge_bonus'
+  ]
+
+  // 他の効果を修飾するだけで、単独では何も起こさない効果
+  private static readonly MODIFIER_EFFECTS: CardEffectType[] = ['double_effect', 'persistent']
+
+  /**
+   * 空の解決結果を作成
+   */
+  static createEmptyOutcome(): CardEffectOutcome {
+    return {
+      power: 0,
+      damageReduction: 0,
+      premiumDiscount: 0,
+      heal: 0,
+      damage: 0,
+      drawCards: 0,
+      maxVitalityBonus: 0,
+      transforms: [],
+      lingeringEffects: [],
+      specialActions: [],
+      triggered: []
+    }
+  }
+
+  /**
+   * 指定したタイミングで発動するカード効果を解決
+   * @param hook 発動タイミング
+   * @param sources 効果の発動元になるカード
+   * @param context 発動条件の評価に使う状況
+   */
+  static resolve(hook: CardEffectHook, sources: Card[], context: CardEffectContext): CardEffectOutcome {
+    const outcome = this.createEmptyOutcome()
+
+    sources.forEach(card => {
+      // double_effect: 条件を満たすと同じカードの他の効果を倍加する
+      const multiplier = card.effects
+        .filter(effect => effect.type === 'double_effect' && this.evaluateCondition(effect.condition, context))
+        .reduce((product, effect) => product * effect.value, 1)
+
+      card.effects.forEach(effect => {
+        if (this.MODIFIER_EFFECTS.includes(effect.type)) return
+        if (card.isInsurance() && this.INSURANCE_RULE_EFFECTS.includes(effect.type)) return
+        if (this.getHook(effect) !== hook || !this.evaluateCondition(effect.condition, context)) return
+
+        this.applyEffect(card, effect, effect.value * multiplier, context, outcome)
+        outcome.triggered.push({ card, effect })
+      })
+    })
+
+    return outcome
+  }
+
+  /**
+   * 効果の発動タイミングを取得（条件の `on:` 指定を優先）
+   */
+  static getHook(effect: CardEffect): CardEffectHook {
+    const hook = this.findParameter(effect.condition, 'on')
+    return hook ? `on_${hook}` as CardEffectHook : this.DEFAULT_HOOKS[effect.type]
+  }
+
+  /**
+   * 発動条件を評価（条件なしなら常に発動）
+   */
+  static evaluateCondition(condition: string | undefined, context: CardEffectContext): boolean {
+    return this.splitClauses(condition).every(clause => {
+      // タイミング・継続ターン数の指定は条件ではない
+      if (/^(on|turns):/.test(clause)) return true
+
+      const comparison = clause.match(/^(\w+)\s*(>=|<=|==|!=|>|<)\s*(.+)$/)
+      if (comparison) {
+        const [, key, operator, expected] = comparison
+        return this.compare(this.getContextValue(key!, context), operator!, expected!.trim())
+      }
+
+      // キーワード: チャレンジ名にいずれかが含まれる
+      const challengeName = context.challenge?.name
+      return challengeName !== undefined && clause.split(',').some(keyword => {
+        const trimmed = keyword.trim()
+        return trimmed.length > 0 && challengeName.includes(trimmed)
+      })
+    })
+  }
+
+  /**
+   * 効果の種類ごとの処理
+   */
+  private static applyEffect(
+    card: Card,
+    effect: CardEffect,
+    value: number,
+    context: CardEffectContext,
+    outcome: CardEffectOutcome
+  ): void {
+    const partners = context.playedCards.filter(played => played.id !== card.id)
+
+    switch (effect.type) {
+      case 'power_boost':
+      case 'challenge_bonus':
+        outcome.power += value
+        break
+      case 'chain_combo':
+        // 一緒に使った連鎖カードの枚数に比例
+        outcome.power += value * partners.filter(played => played.hasEffect('chain_combo')).length
+        break
+      case 'synergy':
+        // 同じカテゴリー（なければ同じ種類）のカードを一緒に使った枚数に比例
+        outcome.power += value * partners.filter(played =>
+          card.category ? played.category === card.category : played.type === card.type
+        ).length
+        break
+      case 'heal':
+      case 'turn_heal':
+      case 'resource_generation':
+      case 'trigger_on_event':
+        outcome.heal += value
+        break
+      case 'aging_penalty':
+        outcome.damage += value
+        break
+      case 'draw_cards':
+        outcome.drawCards += value
+        break
+      case 'shield':
+      case 'damage_reduction':
+      case 'insurance_coverage':
+        outcome.damageReduction += value
+        break
+      case 'risk_mitigation':
+        // ダメージの割合（%）で軽減
+        outcome.damageReduction += Math.floor((context.damage ?? 0) * value / 100)
+        break
+      case 'vitality_boost':
+        outcome.maxVitalityBonus += value
+        break
+      case 'insurance_discount':
+        outcome.premiumDiscount += value
+        break
+      case 'multi_turn': {
+        const turns = Number(this.findParameter(effect.condition, 'turns') ?? this.DEFAULT_LINGERING_TURNS)
+        outcome.lingeringEffects.push({ name: card.name, power: value, remainingTurns: turns })
+        break
+      }
+      case 'card_transform':
+        outcome.transforms.push({ card, power: value })
+        break
+      case 'special_action':
+        outcome.specialActions.push({ card, effect })
+        break
+      case 'double_effect':
+      case 'persistent':
+        break
+    }
+  }
+
+  private static splitClauses(condition: string | undefined): string[] {
+    return (condition ?? '')
+      .split('&&')
+      .map(clause => clause.trim())
+      .filter(clause => clause.length > 0)
+  }
+
+  private static findParameter(condition: string | undefined, name: 'on' | 'turns'): string | undefined {
+    const clause = this.splitClauses(condition).find(candidate => candidate.startsWith(`${name}:`))
+    return clause?.slice(name.length + 1).trim()
+  }
+
+  private static getContextValue(key: string, context: CardEffectContext): string | number | boolean | undefined {
+    switch (key) {
+      case 'vitality': return context.vitality
+      case 'maxVitality': return context.maxVitality
+      case 'vitalityRate': return Math.floor(context.vitality / context.maxVitality * 100)
+      case 'turn': return context.turn
+      case 'stage': return context.stage
+      case 'insuranceCount': return context.insuranceCount
+      case 'handSize': return context.handSize
+      case 'playedCount': return context.playedCards.length
+      case 'challenge': return context.challenge?.name
+      case 'challengePower': return context.challengePower
+      case 'playerPower': return context.playerPower
+      case 'success': return context.success
+      case 'damage': return context.damage
+      default: return undefined
+    }
+  }
+
+  private static compare(actual: string | number | boolean | undefined, operator: string, expected: string): boolean {
+    if (actual === undefined) return false
+
+    if (typeof actual === 'number') {
+      const target = Number(expected)
+      if (Number.isNaN(target)) return false
+      switch (operator) {
+        case '>=': return actual >= target
+        case '<=': return actual <= target
+        case '>': return actual > target
+        case '<': return actual < target
+        case '==': return actual === target
+        case '!=': return actual !== target
+      }
+    }
+
+    switch (operator) {
+      case '==': return String(actual) === expected
+      case '!=': return String(actual) !== expected
+      default: return false
+    }
+  }
+}
@@ -1,23 +1,125 @@
 import { Card } from '../entities/Card'
 import type {
+  CardSnapshot,
   DreamCategory,
   GameStage,
   InsuranceType,
   LifeCardCategory,
+  RewardCardType,
   RewardType,
-  SkillRarity,
-  InsuranceEffectType,
-  InsuranceTriggerType
+  SkillRarity
 } from '../types/card.types'
 import type { InsuranceTypeChoice } from '../types/game.types'
+import type { CardCatalog, CardPack } from '../types/cardPack.types'
 import { IdGenerator } from '../../common/IdGenerator'
+import { defaultRandom, pickRandom, pickWeighted, randomInt, shuffleArray, type RandomSource } from '../../common/SeededRandom'
 import { RiskRewardChallenge } from '../entities/RiskRewardChallenge'
+import { CardPackValidator } from './CardPackValidator'
+import { bundledCardPacks } from '../data/cardPacks'
+
+// 報酬候補のレア度の段階（レア度ボーナスがあると段階が高いカードほど選ばれやすい）
+const REWARD_RARITY_TIERS: Record<SkillRarity, number> = { common: 0, rare: 1, epic: 2, legendary: 3 }
 
 /**
  * カードファクトリー
  * ゲーム用のカードを生成する
+ *
+ * ランダム性を持つ生成メソッドは末尾の引数で乱数源を受け取る。
+ * 省略時は Math.random を使用する。
+ *
+ * 人生・保険・チャレンジ・夢・老化・スキルなどのカードはカードパック（JSON）の定義から生成する。
+ * src/domain/data/cardPacks に置いたパックは起動時にすべて登録される。
+ * 生成メソッドは末尾の引数でカードカタログ（使うパックを重ねた定義）を受け取り、省略時は標準パックを使う。
  */
 export class CardFactory {
+  // GameConfig.cardPacks 未指定時に使うカードパック
+  static readonly DEFAULT_CARD_PACK_ID = 'standard'
+
+  // 登録済みのカードパック（起動時に同梱のパックをすべて検証して読み込む）
+  private static readonly cardPacks = new Map<string, CardPack>(
+    bundledCardPacks
+      .map(pack => CardPackValidator.assertValid(pack))
+      .map(pack => [pack.id, pack])
+  )
+
+  private static defaultCatalog: CardCatalog | undefined
+
+  /**
+   * カードパックを登録（同じIDのパックは置き換える）
+   * @throws 定義が不正な場合（CardPackValidator のエラーを含む）
+   */
+  static registerCardPack(pack: unknown): CardPack {
+    const validated = CardPackValidator.assertValid(pack)
+    this.cardPacks.set(validated.id, validated)
+    this.defaultCatalog = undefined
+    return validated
+  }
+
+  /**
+   * 登録済みのカードパック一覧を取得
+   */
+  static getCardPacks(): CardPack[] {
+    return [...this.cardPacks.values()]
+  }
+
+  /**
+   * 指定したカードパックを順に重ねたカードカタログを作成
+   * 同じ項目の同名カードは後のパックの定義で置き換え、新しいカードは末尾に加える
+   * @throws 未登録のパックを指定した場合、ゲームに必要な項目が欠けている場合
+   */
+  static createCatalog(packIds: string[] = [this.DEFAULT_CARD_PACK_ID]): CardCatalog {
+    const packs = packIds.map(id => {
+      const pack = this.cardPacks.get(id)
+      if (!pack) throw new Error(`Unknown card pack: ${id}`)
+      return pack
+    })
+
+    const mergeByName = <T extends { name: string }>(lists: (T[] | undefined)[]): T[] => {
+      const merged = new Map<string, T>()
+      lists.forEach(list => list?.forEach(def => merged.set(def.name, def)))
+      return [...merged.values()]
+    }
+    const mergeByStage = <T extends { name: string }>(select: (pack: CardPack) => Partial<Record<GameStage, T[]>> | undefined) => ({
+      youth: mergeByName(packs.map(pack => select(pack)?.youth)),
+      middle: mergeByName(packs.map(pack => select(pack)?.middle)),
+      fulfillment: mergeByName(packs.map(pack => select(pack)?.fulfillment))
+    })
+
+    const agingCard = packs.reduce<CardPack['agingCard']>((current, pack) => pack.agingCard ?? current, undefined)
+    const catalog = {
+      packIds: [...packIds],
+      starterLifeCards: mergeByName(packs.map(pack => pack.starterLifeCards)),
+      insuranceTypes: mergeByName(packs.map(pack => pack.insuranceTypes)),
+      challenges: mergeByStage(pack => pack.challenges),
+      dreams: mergeByName(packs.map(pack => pack.dreams)),
+      skills: mergeByStage(pack => pack.skills),
+      combos: mergeByName(packs.map(pack => pack.combos)),
+      events: mergeByStage(pack => pack.events),
+      legendaries: mergeByName(packs.map(pack => pack.legendaries))
+    }
+
+    // ゲームの進行に欠かせない項目（スキル・コンボなどの報酬カードはなくてもよい）
+    const missing = [
+      catalog.starterLifeCards.length === 0 && 'starterLifeCards',
+      catalog.insuranceTypes.length === 0 && 'insuranceTypes',
+      ...(['youth', 'middle', 'fulfillment'] as const).map(stage => catalog.challenges[stage].length === 0 && `challenges.${stage}`),
+      catalog.dreams.length === 0 && 'dreams',
+      !agingCard && 'agingCard'
+    ].filter((section): section is string => typeof section === 'string')
+    if (missing.length > 0 || !agingCard) {
+      throw new Error(`Card packs [${packIds.join(', ')}] do not define: ${missing.join(', ')}`)
+    }
+
+    return { ...catalog, agingCard }
+  }
+
+  /**
+   * 標準パックのカードカタログを取得
+   */
+  static getDefaultCatalog(): CardCatalog {
+    this.defaultCatalog ??= this.createCatalog()
+    return this.defaultCatalog
+  }
 
   /**
    * 年齢ボーナスを計算
@@ -40,23 +142,8 @@ export class CardFactory {
   /**
    * 初期デッキ用の人生カードを生成
    */
-  static createStarterLifeCards(): Card[] {
-    const starterCardDefinitions = [
-      // 健康カード
-      { name: '朝のジョギング', description: '健康的な一日の始まり', category: 'health' as LifeCardCategory, power: 3, cost: 1 },
-      { name: '栄養バランスの良い食事', description: '体調管理の基本', category: 'health' as LifeCardCategory, power: 5, cost: 2 },
-      // キャリアカード
-      { name: '新しいスキルの習得', description: '成長への投資', category: 'career' as LifeCardCategory, power: 5, cost: 2 },
-      { name: 'チームワーク', description: '仲間との協力', category: 'career' as LifeCardCategory, power: 3, cost: 1 },
-      // 家族カード
-      { name: '家族との団らん', description: '心の充電', category: 'family' as LifeCardCategory, power: 3, cost: 1 },
-      // 趣味カード
-      { name: '趣味の時間', description: 'リフレッシュタイム', category: 'hobby' as LifeCardCategory, power: 3, cost: 1 },
-      // 金融カード
-      { name: '計画的な貯蓄', description: '将来への備え', category: 'finance' as LifeCardCategory, power: 5, cost: 2 }
-    ]
-
-    return this.createCardsFromDefinitions(starterCardDefinitions, def => this.createLifeCard(def))
+  static createStarterLifeCards(catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    return this.createCardsFromDefinitions(catalog.starterLifeCards, def => this.createLifeCard(def))
   }
 
   /**
@@ -334,54 +421,18 @@ export class CardFactory {
   /**
    * 保険種類選択肢を生成（V3: 1つの保険タイプを提示し、プランA/Bを選ばせる）
    */
-  static createInsuranceTypeChoices(stage: GameStage = 'youth'): InsuranceTypeChoice[] {
+  static createInsuranceTypeChoices(
+    stage: GameStage = 'youth',
+    random: RandomSource = defaultRandom,
+    catalog: CardCatalog = this.getDefaultCatalog()
+  ): InsuranceTypeChoice[] {
     const ageBonus = this.calculateAgeBonus(stage)
 
-    // 新・保険ラインナップ（全3種）
-    const insuranceDefinitions = [
-      {
-        type: 'medical' as InsuranceType,
-        name: 'じぶんへの保険',
-        description: '失敗時のリスクを軽減する医療保険',
-        power: 0,
-        // Plan A: お守り (軽減3)
-        planA: { cost: 1, duration: 10, cut: 3, desc: '定額支払プラン（失敗ダメージ-3・コスト1）' },
-        // Plan B: 鉄壁 (軽減8)
-        planB: { cost: 2, cut: 8, desc: '充実保障プラン（失敗ダメージ-8・コスト2）' },
-        effectType: 'defensive' as InsuranceEffectType,
-        triggerType: 'on_heavy_damage' as InsuranceTriggerType
-      },
-      {
-        type: 'cancer' as InsuranceType, // がん保険
-        name: 'がん保険',
-        description: '予期せぬ大病（大ダメージ）に備える',
-        power: 0,
-        // Plan A: 一時金 (1回使い切り)
-        planA: { cost: 1, duration: 5, limit: 1, desc: '診断給付金プラン（20以上の損害を1回無効化・コスト1）' },
-        // Plan B: プレミアム (何度でも)
-        planB: { cost: 3, limit: -1, desc: '通院治療プラン（20以上の損害を何度でも無効化・コスト3）' },
-        effectType: 'defensive' as InsuranceEffectType,
-        triggerType: 'on_heavy_damage' as InsuranceTriggerType // 20以上の判定は別途
-      },
-      {
-        type: 'income' as InsuranceType,
-        name: 'はたらく人への保険',
-        description: '手札事故（就業不能）時のリセット保障',
-        power: 0,
-        // Plan A: スタンダード (2ターンに1回)
-        planA: { cost: 1, duration: 10, cooldown: 2, desc: '標準月額プラン（2ターンに1回マリガン可能・コスト1）' },
-        // Plan B: ワイド (毎ターン)
-        planB: { cost: 2, cooldown: 1, desc: 'あんしん手当プラン（毎ターンマリガン可能・コスト2）' },
-        effectType: 'specialized' as InsuranceEffectType, // Special action
-        triggerType: 'on_demand' as InsuranceTriggerType
-      }
-    ]
-
     // ランダムに1つ選択
-    const selectedDef = insuranceDefinitions[Math.floor(Math.random() * insuranceDefinitions.length)]!
+    const selectedDef = pickRandom(random, catalog.insuranceTypes)!
 
     const choice: InsuranceTypeChoice = {
-      insuranceType: selectedDef.type,
+      insuranceType: selectedDef.insuranceType,
       name: selectedDef.name,
       description: selectedDef.description,
       baseCard: {
@@ -390,24 +441,19 @@ export class CardFactory {
         type: 'insurance',
         power: selectedDef.power,
         cost: 1, // Placeholder
-        insuranceType: selectedDef.type,
-        coverage: 0, // Placeholder
-        insuranceEffectType: selectedDef.effectType,
-        insuranceTriggerType: selectedDef.triggerType,
+        insuranceType: selectedDef.insuranceType,
+        coverage: selectedDef.coverage ?? 0,
+        insuranceEffectType: selectedDef.insuranceEffectType,
+        ...(selectedDef.insuranceTriggerType && { insuranceTriggerType: selectedDef.insuranceTriggerType }),
+        ...(selectedDef.insuranceTrigger && { insuranceTrigger: { ...selectedDef.insuranceTrigger } }),
+        ...(selectedDef.insurancePayout && { insurancePayout: { ...selectedDef.insurancePayout } }),
         effects: [],
         ageBonus
       },
       // Plan A (mapped to termOption)
-      termOption: {
-        cost: selectedDef.planA.cost,
-        duration: selectedDef.planA.duration,
-        description: selectedDef.planA.desc
-      },
+      termOption: { ...selectedDef.termOption },
       // Plan B (mapped to wholeLifeOption)
-      wholeLifeOption: {
-        cost: selectedDef.planB.cost,
-        description: selectedDef.planB.desc
-      }
+      wholeLifeOption: { ...selectedDef.wholeLifeOption }
     }
 
     // カード生成時にこれらのプラン情報を引き継ぐため、
@@ -436,6 +482,8 @@ export class CardFactory {
       ageBonus: choice.baseCard.ageBonus,
       insuranceEffectType: choice.baseCard.insuranceEffectType,
       insuranceTriggerType: choice.baseCard.insuranceTriggerType, // トリガータイプを追加
+      insuranceTrigger: choice.baseCard.insuranceTrigger,
+      insurancePayout: choice.baseCard.insurancePayout,
       durationType: 'term',
       remainingTurns: choice.termOption.duration
     } as any)
@@ -458,6 +506,8 @@ export class CardFactory {
       ageBonus: choice.baseCard.ageBonus,
       insuranceEffectType: choice.baseCard.insuranceEffectType,
       insuranceTriggerType: choice.baseCard.insuranceTriggerType, // トリガータイプを追加
+      insuranceTrigger: choice.baseCard.insuranceTrigger,
+      insurancePayout: choice.baseCard.insurancePayout,
       durationType: 'whole_life'
     } as any)
   }
@@ -465,67 +515,36 @@ export class CardFactory {
   /**
    * チャレンジカードを生成
    */
-  static createChallengeCards(stage: GameStage): Card[] {
-    const challengeDefinitionsByStage = {
-      youth: [
-        // 基本チャレンジ（難易度: 低〜中）- Hand Size 5に合わせて調整 (Power ~10-15 needed to challenge typical hand)
-        // Starter Deck Avg Power ~1.4 * 5 = 7.0 (Nerfed).
-        // Challenge Power should be 8-12.
-        // V3.2 Balance: Hardcore. Power 10-16. 2 fails = death.
-        { name: 'アルバイト探し', description: '初めての収入を得る', power: 10, damage: 10, dreamCategory: 'physical' as DreamCategory },
-        { name: '一人暮らし', description: '独立への第一歩', power: 12, damage: 12, dreamCategory: 'physical' as DreamCategory },
-        { name: '資格試験', description: 'スキルアップのチャンス', power: 14, damage: 14, dreamCategory: 'intellectual' as DreamCategory },
-        { name: '就職活動', description: '新たなキャリアの始まり', power: 16, damage: 16, dreamCategory: 'physical' as DreamCategory },
-        // 中級チャレンジ
-        { name: '恋人との別れ', description: '初めての大きな失意', power: 13, damage: 13, dreamCategory: 'mixed' as DreamCategory },
-        { name: '転職活動', description: 'キャリアの分岐点', power: 15, damage: 15, dreamCategory: 'intellectual' as DreamCategory }
-      ],
-      middle: [
-        // 基本チャレンジ（難易度: 中）
-        // V3.1 Balance: Late game too easy (100% win rate). Buffing significantly.
-        { name: '結婚資金', description: '新しい家族のスタート', power: 22, damage: 8, dreamCategory: 'mixed' as DreamCategory },
-        { name: '子育て', description: '家族の成長', power: 24, damage: 8, dreamCategory: 'physical' as DreamCategory },
-        { name: '両親の健康', description: '家族の支え合い', power: 22, damage: 7, dreamCategory: 'mixed' as DreamCategory },
-        { name: '住宅購入', description: '大きな決断', power: 28, damage: 10, dreamCategory: 'physical' as DreamCategory },
-        // 高難度チャレンジ
-        { name: '親の介護', description: '家族の責任', power: 32, damage: 12, dreamCategory: 'mixed' as DreamCategory },
-        { name: '教育資金', description: '子供の将来への投資', power: 26, damage: 9, dreamCategory: 'intellectual' as DreamCategory }
-      ],
-      fulfillment: [
-        // 充実期（難易度: 高 - 人生の集大成、より壮大な目標へ）
-        // V3.1 Balance: Advanced players must face lethal threats.
-        { name: '次世代の育成', description: '若者たちに知識と経験を伝える', power: 25, damage: 8, dreamCategory: 'intellectual' as DreamCategory },
-        { name: '地域社会の変革', description: '住みよい社会を作るための活動', power: 28, damage: 10, dreamCategory: 'mixed' as DreamCategory },
-        { name: '生涯の研究発表', description: '長年の探究の成果を世に出す', power: 30, damage: 10, dreamCategory: 'intellectual' as DreamCategory },
-        { name: '世界平和への貢献', description: '国境を越えた慈善活動', power: 35, damage: 12, dreamCategory: 'mixed' as DreamCategory },
-        // 最高難度チャレンジ
-        { name: '宇宙旅行', description: '人類の夢、星々の海へ', power: 45, damage: 15, dreamCategory: 'physical' as DreamCategory, isDream: true },
-        { name: '伝説の継承', description: '自身の生き様を伝説として残す', power: 50, damage: 20, dreamCategory: 'mixed' as DreamCategory, isDream: true }
-      ]
-    }
-
-    const definitions = challengeDefinitionsByStage[stage] || challengeDefinitionsByStage.fulfillment
+  static createChallengeCards(
+    stage: GameStage,
+    random: RandomSource = defaultRandom,
+    includeRiskChallenges = true,
+    catalog: CardCatalog = this.getDefaultCatalog()
+  ): Card[] {
+    const definitions = catalog.challenges[stage] ?? catalog.challenges.fulfillment
 
     // ステージごとに適切な難易度のチャレンジを選択
     // ランダムに3-4枚選ぶが、難易度のバランスを考慮
-    const shuffled = [...definitions].sort(() => Math.random() - 0.5)
-    const selectedCount = 3 + Math.floor(Math.random() * 2) // 3-4枚
+    const shuffled = shuffleArray(random, definitions)
+    const selectedCount = 3 + randomInt(random, 2) // 3-4枚
     const selected = shuffled.slice(0, selectedCount)
 
-    const normalChallenges = this.createCardsFromDefinitions(selected, def => this.createChallengeCard({ ...def, penalty: def.damage, isDream: (def as any).isDream || false }))
+    const normalChallenges = this.createCardsFromDefinitions(selected, def => this.createChallengeCard({ ...def, penalty: def.damage, isDream: def.isDream ?? false }))
 
     // リスク・リワードチャレンジを追加（20%の確率）
-    const riskChallenges = this.createRiskRewardChallenges(stage)
+    // 未解放でも乱数は同じだけ消費し、解放状況でカード展開がずれないようにする
+    const generatedRiskChallenges = this.createRiskRewardChallenges(stage, random)
+    const riskChallenges = includeRiskChallenges ? generatedRiskChallenges : []
 
     // fulfillmentステージでは夢カードを大量に追加（夢達成で勝利できる）
     const challenges = [...normalChallenges, ...riskChallenges]
 
     // すべてのステージで夢カードが出現するチャンス（ユーザー要望）
     // V3.2 Hardcore: Youthステージでも夢（理不尽な死）が出現する
-    const dreamCards = this.createDreamCards()
+    const dreamCards = this.createDreamCards(catalog)
     const dreamCount = 1 // V3.3 Fix: multiple dreams are "yabai" (too much). Limit to 1.
     for (let i = 0; i < dreamCount; i++) {
-      const randomDream = dreamCards[Math.floor(Math.random() * dreamCards.length)]
+      const randomDream = pickRandom(random, dreamCards)
       if (randomDream) {
         challenges.push(randomDream)
       }
@@ -537,24 +556,14 @@ export class CardFactory {
   /**
    * 夢カード（最終目標）を生成
    */
-  static createDreamCards(): Card[] {
-    const dreamDefinitions = [
-      // 夢カード: 超高難易度チャレンジ（失敗・回避で難易度上昇）
-      // ユーザー要望: 難易度80
-      { name: '世界一周旅行', description: '未知の世界を体験する大冒険', power: 80, damage: 40, dreamCategory: 'physical' as DreamCategory },
-      { name: '本の出版', description: '自分の知識を世に残す挑戦', power: 80, damage: 40, dreamCategory: 'intellectual' as DreamCategory },
-      { name: '幸せな家庭', description: '愛に満ちた生活を築く', power: 75, damage: 35, dreamCategory: 'mixed' as DreamCategory },
-      { name: '起業して成功', description: '自分のビジネスで成功を掴む', power: 85, damage: 50, dreamCategory: 'mixed' as DreamCategory },
-      { name: '隠居生活', description: '静かで穏やかな余生を送る', power: 70, damage: 30, dreamCategory: 'physical' as DreamCategory }
-    ]
-
-    return this.createCardsFromDefinitions(dreamDefinitions, def => this.createChallengeCard({ ...def, penalty: def.damage, isDream: true }))
+  static createDreamCards(catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    return this.createCardsFromDefinitions(catalog.dreams, def => this.createChallengeCard({ ...def, penalty: def.damage, isDream: true }))
   }
 
   /**
    * リスク・リワードチャレンジを生成
    */
-  static createRiskRewardChallenges(stage: GameStage): Card[] {
+  static createRiskRewardChallenges(stage: GameStage, random: RandomSource = defaultRandom): Card[] {
     const challenges: Card[] = []
 
     // ステージに応じたリスクレベルの分布
@@ -567,11 +576,11 @@ export class CardFactory {
     const distribution = riskDistribution[stage as 'youth' | 'middle' | 'fulfillment'] || riskDistribution.youth
 
     // 各リスクレベルのチャレンジを生成（確率に基づく）
-    const random = Math.random()
+    const appearanceRoll = random.next()
 
-    if (random < 0.2) { // 20%の確率でリスクチャレンジを追加
+    if (appearanceRoll < 0.2) { // 20%の確率でリスクチャレンジを追加
       let riskLevel: 'low' | 'medium' | 'high' | 'extreme'
-      const levelRandom = Math.random()
+      const levelRandom = random.next()
 
       if (levelRandom < distribution.low) {
         riskLevel = 'low'
@@ -770,21 +779,18 @@ export class CardFactory {
   /**
    * 老化カードを作成
    */
-  static createAgingCards(count: number): Card[] {
+  static createAgingCards(count: number, catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    const { name, description, effects } = catalog.agingCard
     const cards: Card[] = []
     for (let i = 0; i < count; i++) {
       cards.push(new Card({
         id: IdGenerator.generateCardId(),
         type: 'aging',
-        name: '老化',
-        description: '年齢による衰え。使用不可。',
+        name,
+        description,
         power: 0,
         cost: 0,
-        effects: [{
-          type: 'aging_penalty',
-          value: 0,
-          description: '手札にあると活力が減少する可能性がある'
-        }]
+        effects: effects.map(effect => ({ ...effect }))
       }))
     }
     return cards
@@ -808,28 +814,8 @@ export class CardFactory {
   /**
    * スキルカードを生成
    */
-  static createSkillCards(stage: GameStage = 'youth'): Card[] {
-    const skillDefinitionsByStage = {
-      youth: [
-        { name: '集中力', description: '集中して取り組む能力', rarity: 'common' as SkillRarity, power: 3, cooldown: 0 },
-        { name: 'コミュニケーション', description: '人との関わりを深める', rarity: 'common' as SkillRarity, power: 4, cooldown: 1 },
-        { name: 'リーダーシップ', description: 'チームを率いる力', rarity: 'rare' as SkillRarity, power: 6, cooldown: 2 },
-        { name: '創造性', description: '新しいアイデアを生み出す', rarity: 'epic' as SkillRarity, power: 8, cooldown: 3 }
-      ],
-      middle: [
-        { name: '戦略的思考', description: '長期的な視点で考える', rarity: 'rare' as SkillRarity, power: 7, cooldown: 2 },
-        { name: 'メンタリング', description: '後輩を指導する能力', rarity: 'rare' as SkillRarity, power: 6, cooldown: 1 },
-        { name: '危機管理', description: 'リスクを予測し対処する', rarity: 'epic' as SkillRarity, power: 9, cooldown: 3 },
-        { name: 'イノベーション', description: '革新的な変化を起こす', rarity: 'legendary' as SkillRarity, power: 12, cooldown: 4 }
-      ],
-      fulfillment: [
-        { name: '人生の知恵', description: '経験から得た深い洞察', rarity: 'epic' as SkillRarity, power: 10, cooldown: 2 },
-        { name: 'レガシー構築', description: '次世代への価値ある遺産', rarity: 'legendary' as SkillRarity, power: 15, cooldown: 5 },
-        { name: '精神的平和', description: '内なる調和と安定', rarity: 'legendary' as SkillRarity, power: 13, cooldown: 3 }
-      ]
-    }
-
-    const definitions = skillDefinitionsByStage[stage] || skillDefinitionsByStage.youth
+  static createSkillCards(stage: GameStage = 'youth', catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    const definitions = catalog.skills[stage] ?? catalog.skills.youth
     return this.createCardsFromDefinitions(definitions, def =>
       Card.createSkillCard(def.name, def.rarity, def.power, def.cooldown)
     )
@@ -838,32 +824,8 @@ export class CardFactory {
   /**
    * コンボカードを生成
    */
-  static createComboCards(): Card[] {
-    const comboDefinitions = [
-      {
-        name: 'ワークライフバランス',
-        power: 2,
-        requiredCards: ['career', 'family'],
-        comboBonus: 4,
-        description: 'キャリアと家族の調和'
-      },
-      {
-        name: '健康的な成功',
-        power: 3,
-        requiredCards: ['health', 'finance'],
-        comboBonus: 5,
-        description: '健康と経済的安定の両立'
-      },
-      {
-        name: '充実した人生',
-        power: 4,
-        requiredCards: ['hobby', 'family', 'career'],
-        comboBonus: 8,
-        description: '趣味・家族・キャリアの三位一体'
-      }
-    ]
-
-    return this.createCardsFromDefinitions(comboDefinitions, def =>
+  static createComboCards(catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    return this.createCardsFromDefinitions(catalog.combos, def =>
       Card.createComboCard(def.name, def.power, def.requiredCards, def.comboBonus)
     )
   }
@@ -871,25 +833,8 @@ export class CardFactory {
   /**
    * イベントカードを生成
    */
-  static createEventCards(stage: GameStage = 'youth'): Card[] {
-    const eventDefinitionsByStage = {
-      youth: [
-        { name: '新年の抱負', description: '新しい年への決意', power: 5, duration: 3, globalEffect: false },
-        { name: '就職ブーム', description: '雇用機会の増加', power: 4, duration: 2, globalEffect: true },
-        { name: '健康ブーム', description: '健康への意識向上', power: 3, duration: 4, globalEffect: true }
-      ],
-      middle: [
-        { name: '経済成長期', description: '社会全体の活況', power: 6, duration: 3, globalEffect: true },
-        { name: '家族の絆', description: '家族関係の深化', power: 7, duration: 2, globalEffect: false },
-        { name: '技術革新', description: 'テクノロジーの進歩', power: 8, duration: 4, globalEffect: true }
-      ],
-      fulfillment: [
-        { name: '人生の総決算', description: '経験の統合と成熟', power: 10, duration: 2, globalEffect: false },
-        { name: '世代交代', description: '次世代への継承', power: 9, duration: 3, globalEffect: true }
-      ]
-    }
-
-    const definitions = eventDefinitionsByStage[stage] || eventDefinitionsByStage.youth
+  static createEventCards(stage: GameStage = 'youth', catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    const definitions = catalog.events[stage] ?? catalog.events.youth
     return this.createCardsFromDefinitions(definitions, def =>
       Card.createEventCard(def.name, def.power, def.duration, def.globalEffect)
     )
@@ -898,41 +843,83 @@ export class CardFactory {
   /**
    * レジェンダリーカードを生成（アンロック制）
    */
-  static createLegendaryCards(): Card[] {
-    const legendaryDefinitions = [
-      {
-        name: '人生の達人',
-        power: 20,
-        unlockCondition: '全ステージで50回以上成功',
-        description: '人生経験の集大成'
-      },
-      {
-        name: '運命を変える決断',
-        power: 25,
-        unlockCondition: '連続10回チャレンジ成功',
-        description: '人生を劇的に変える瞬間'
-      },
-      {
-        name: '完璧な調和',
-        power: 30,
-        unlockCondition: '全カテゴリのカードを50枚以上獲得',
-        description: 'すべての側面が完璧にバランスした状態'
-      }
-    ]
-
-    return this.createCardsFromDefinitions(legendaryDefinitions, def =>
+  static createLegendaryCards(catalog: CardCatalog = this.getDefaultCatalog()): Card[] {
+    return this.createCardsFromDefinitions(catalog.legendaries, def =>
       Card.createLegendaryCard(def.name, def.power, def.unlockCondition)
     )
   }
   /**
    * 報酬用カードを生成
+   * @param types 候補に含めるカードタイプ（プレイヤーレベルで解放済みのもの）
+   * @param excludedNames 候補から除くカード名（使用禁止カードなど）
+   * @param rarityBonus レア度ボーナス（0なら均等に選ぶ。大きいほどレア度の高いカードが選ばれやすい）
    */
-  static createRewardCards(stage: GameStage, count: number): Card[] {
-    // スキルカードを報酬の基本とする
-    const candidates = this.createSkillCards(stage)
+  static createRewardCards(
+    stage: GameStage,
+    count: number,
+    random: RandomSource = defaultRandom,
+    types: RewardCardType[] = ['skill', 'combo', 'event', 'legendary'],
+    excludedNames: string[] = [],
+    catalog: CardCatalog = this.getDefaultCatalog(),
+    rarityBonus: number = 0
+  ): Card[] {
+    const candidatesByType: Record<RewardCardType, () => Card[]> = {
+      skill: () => this.createSkillCards(stage, catalog),
+      combo: () => this.createComboCards(catalog),
+      event: () => this.createEventCards(stage, catalog),
+      legendary: () => this.createLegendaryCards(catalog)
+    }
+    const candidates = types
+      .flatMap(type => candidatesByType[type]())
+      .filter(card => !excludedNames.includes(card.name))
 
     // ランダムに選択
-    const shuffled = [...candidates].sort(() => Math.random() - 0.5)
-    return shuffled.slice(0, count)
+    if (rarityBonus <= 0) {
+      return shuffleArray(random, candidates).slice(0, count)
+    }
+
+    // レア度の段階ごとに重みを rarityBonus ずつ増やし、重複なしで選ぶ
+    const chosen: Card[] = []
+    while (chosen.length < count && candidates.length > 0) {
+      const card = pickWeighted(random, candidates, candidate => 1 + rarityBonus * this.getRewardRarityTier(candidate))!
+      chosen.push(card)
+      candidates.splice(candidates.indexOf(card), 1)
+    }
+    return chosen
+  }
+
+  /**
+   * 報酬カードのレア度の段階（スキルはレア度、レジェンダリーは最高、それ以外は最低）
+   */
+  private static getRewardRarityTier(card: Card): number {
+    if (card.isLegendaryCard()) return REWARD_RARITY_TIERS.legendary
+    return REWARD_RARITY_TIERS[card.skillProperties?.rarity ?? 'common']
+  }
+
+  /**
+   * スナップショットからカードを復元
+   * リスク・リワードチャレンジはサブクラスのインスタンスとして復元する
+   */
+  static fromSnapshot(snapshot: CardSnapshot): Card {
+    const { riskReward, ...params } = snapshot
+
+    if (riskReward) {
+      return new RiskRewardChallenge({
+        id: params.id,
+        name: params.name,
+        description: params.description,
+        power: params.power,
+        riskLevel: riskReward.riskLevel,
+        successBonus: riskReward.successBonus,
+        failurePenalty: riskReward.failurePenalty,
+        insuranceImmunity: riskReward.insuranceImmunity,
+        dreamCategory: params.dreamCategory
+      })
+    }
+
+    return new Card({
+      ...params,
+      effects: params.effects.map(effect => ({ ...effect }))
+    })
   }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import type { Card } from '../entities/Card'
 import { Deck } from '../entities/Deck'
 import type { GameConfig } from '../types/game.types'
+import { defaultRandom, type RandomSource } from '../../common/SeededRandom'
 
 /**
  * カード管理の状態
@@ -33,8 +34,9 @@ export interface DrawResult {
 export interface ICardManager {
   /**
    * カード管理状態を初期化
+   * @param random シャッフルに使う乱数源（省略時はMath.random）
    */
-  initialize(playerDeck: Deck, challengeDeck: Deck, config: GameConfig): void
+  initialize(playerDeck: Deck, challengeDeck: Deck, config: GameConfig, random?: RandomSource): void
 
   /**
    * 現在の状態を取得
@@ -112,6 +114,7 @@ export interface ICardManager {
   // v2 methods
   buyInsurance(card: Card): void
   removeCardFromGame(card: Card): void
+  replaceCard(card: Card): void
   addAgingCardToDiscard(): void
   getInsuranceMarket(): Card[]
   getActiveInsurances(): Card[]
@@ -131,6 +134,7 @@ export class CardManager implements ICardManager {
   private selectedCards: Card[] = []
   private cardChoices: Card[] | undefined
   private config?: GameConfig
+  private random: RandomSource = defaultRandom
   // v2 fields
   private agingDeck: Deck = new Deck('Aging Deck')
   private insuranceMarket: Card[] = []
@@ -151,7 +155,7 @@ export class CardManager implements ICardManager {
   /**
    * カード管理状態を初期化
    */
-  initialize(playerDeck: Deck, challengeDeck: Deck, config: GameConfig): void {
+  initialize(playerDeck: Deck, challengeDeck: Deck, config: GameConfig, random: RandomSource = defaultRandom): void {
     this.playerDeck = playerDeck
     this.challengeDeck = challengeDeck
     this.hand = []
@@ -160,6 +164,7 @@ export class CardManager implements ICardManager {
     this.selectedIdsSet.clear()
     this.cardChoices = undefined
     this.config = config
+    this.random = random
     // v2 init
     this.agingDeck = new Deck('Aging Deck') // Should be populated from outside or config in real app
     this.insuranceMarket = []
@@ -410,7 +415,7 @@ export class CardManager implements ICardManager {
    */
   private reshuffleDeck(): void {
     this.playerDeck.addCards(this.discardPile)
-    this.playerDeck.shuffle()
+    this.playerDeck.shuffle(this.random)
     this.discardPile = []
 
     // v2: Reshuffle Penalty (Aging Card)
@@ -457,6 +462,26 @@ export class CardManager implements ICardManager {
     }
   }
 
+  /**
+   * 同じIDのカードを更新後のカードに差し替える（手札・捨て札・山札）
+   * スキルのクールダウンなど、不変のカードの状態を更新するときに使う
+   */
+  replaceCard(card: Card): void {
+    const replaceIn = (cards: Card[]): boolean => {
+      const index = cards.findIndex(c => c.id === card.id)
+      if (index === -1) return false
+      cards[index] = card
+      return true
+    }
+
+    if (replaceIn(this.hand)) {
+      replaceIn(this.selectedCards)
+    } else if (!replaceIn(this.discardPile)) {
+      this.playerDeck.replaceCard(card)
+    }
+    this.invalidateCache()
+  }
+
   /**
    * 老化カードを捨て札に追加
    */
@@ -495,7 +520,7 @@ export class CardManager implements ICardManager {
   refillChallengeDeck(cards: Card[]): void {
     this.challengeDeck.clear()
     this.challengeDeck.addCards(cards)
-    this.challengeDeck.shuffle()
+    this.challengeDeck.shuffle(this.random)
     this.invalidateCache()
   }
 
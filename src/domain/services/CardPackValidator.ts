@@ -0,0 +1,389 @@
+import type {
+  DreamCategory,
+  GameStage,
+  InsuranceEffectType,
+  InsurancePayoutEffect,
+  InsuranceTriggerType,
+  InsuranceType,
+  LifeCardCategory,
+  SkillRarity
+} from '../types/card.types'
+import type { CardPack, CardPackValidationResult } from '../types/cardPack.types'
+import { CardEffectEngine } from './CardEffectEngine'
+
+// 検証前の定義（項目の値はまだ unknown）
+type Definition = Record<string, unknown> & Partial<Record<
+  | 'id' | 'name' | 'description' | 'dreamCategory' | 'isDream' | 'effects' | 'globalEffect' | 'requiredCards'
+  | 'insuranceEffectType' | 'insuranceTriggerType' | 'insuranceTrigger' | 'insurancePayout' | 'coverage'
+  | 'termOption' | 'wholeLifeOption',
+  unknown
+>>
+
+interface ValidationReport {
+  errors: string[]
+  warnings: string[]
+}
+
+/**
+ * カードパックバリデーター
+ *
+ * JSONから読み込んだカードパックが CardPack の形式に沿っているか検証する。
+ * 不正な定義（未知の保険種別・負のパワー・トリガー型保険の発動条件の欠落など）はエラー、
+ * 同じ項目内の同名カードや未知の項目は警告として、定義の位置（例: challenges.youth[2].power）付きで報告する。
+ */
+export class CardPackValidator {
+  private static readonly STAGES: GameStage[] = ['youth', 'middle', 'fulfillment']
+
+  private static readonly LIFE_CATEGORIES: Record<LifeCardCategory, true> = {
+    health: true, career: true, family: true, hobby: true, finance: true
+  }
+
+  private static readonly INSURANCE_TYPES: Record<InsuranceType, true> = {
+    life: true, medical: true, accident: true, income: true, asset: true,
+    health: true, disability: true, cancer: true, dental: true, travel: true
+  }
+
+  private static readonly INSURANCE_EFFECT_TYPES: Record<InsuranceEffectType, true> = {
+    offensive: true, defensive: true, recovery: true, specialized: true, comprehensive: true, trigger: true
+  }
+
+  private static readonly INSURANCE_TRIGGER_TYPES: Record<InsuranceTriggerType, true> = {
+    on_death: true, on_heavy_damage: true, on_aging_gameover: true, on_demand: true,
+    on_stage_change: true, on_consecutive_failures: true, on_challenge_category: true
+  }
+
+  private static readonly INSURANCE_PAYOUT_EFFECTS: Record<InsurancePayoutEffect, true> = {
+    heal: true, reduce_damage: true, redraw_hand: true, skip_challenge: true
+  }
+
+  private static readonly DREAM_CATEGORIES: Record<DreamCategory, true> = {
+    physical: true, intellectual: true, mixed: true
+  }
+
+  private static readonly SKILL_RARITIES: Record<SkillRarity, true> = {
+    common: true, rare: true, epic: true, legendary: true
+  }
+
+  // カード定義の一覧を持つ項目と、各定義の検証
+  private static readonly LIST_SECTIONS: Record<string, (report: ValidationReport, def: Definition, path: string) => void> = {
+    starterLifeCards: (report, def, path) => this.validateLifeCard(report, def, path),
+    insuranceTypes: (report, def, path) => this.validateInsuranceType(report, def, path),
+    dreams: (report, def, path) => this.validateChallenge(report, def, path),
+    combos: (report, def, path) => this.validateCombo(report, def, path),
+    legendaries: (report, def, path) => this.validateLegendary(report, def, path)
+  }
+
+  // ステージごとにカード定義の一覧を持つ項目
+  private static readonly STAGE_SECTIONS: Record<string, (report: ValidationReport, def: Definition, path: string) => void> = {
+    challenges: (report, def, path) => this.validateChallenge(report, def, path),
+    skills: (report, def, path) => this.validateSkill(report, def, path),
+    events: (report, def, path) => this.validateEvent(report, def, path)
+  }
+
+  /**
+   * カードパックを検証
+   * @param pack JSONから読み込んだカードパック
+   */
+  static validate(pack: unknown): CardPackValidationResult {
+    const report: ValidationReport = { errors: [], warnings: [] }
+
+    if (!this.isDefinition(pack)) {
+      return { isValid: false, errors: ['カードパックはオブジェクトである必要があります'], warnings: [] }
+    }
+
+    this.checkText(report, pack, 'id', '')
+    this.checkText(report, pack, 'name', '')
+    if (pack.description !== undefined && typeof pack.description !== 'string') {
+      report.errors.push('description: 文字列である必要があります')
+    }
+
+    Object.keys(pack).forEach(key => {
+      if (key === 'agingCard') {
+        this.validateAgingCard(report, pack[key], key)
+      } else if (key in this.LIST_SECTIONS) {
+        this.validateList(report, pack[key], key, this.LIST_SECTIONS[key]!)
+      } else if (key in this.STAGE_SECTIONS) {
+        this.validateStageLists(report, pack[key], key, this.STAGE_SECTIONS[key]!)
+      } else if (!['$schema', 'id', 'name', 'description'].includes(key)) {
+        report.warnings.push(`${key}: 未知の項目です（読み込まれません）`)
+      }
+    })
+
+    return { isValid: report.errors.length === 0, ...report }
+  }
+
+  /**
+   * 検証済みのカードパックとして扱う（エラーがあれば例外）
+   */
+  static assertValid(pack: unknown): CardPack {
+    const result = this.validate(pack)
+    if (!result.isValid) {
+      const id = this.isDefinition(pack) && typeof pack.id === 'string' ? pack.id : '(unknown)'
+      throw new Error(`Invalid card pack ${id}:\n${result.errors.join('\n')}`)
+    }
+    return pack as unknown as CardPack
+  }
+
+  private static validateList(
+    report: ValidationReport,
+    value: unknown,
+    path: string,
+    validateItem: (report: ValidationReport, def: Definition, path: string) => void
+  ): void {
+    if (!Array.isArray(value)) {
+      report.errors.push(`${path}: 配列である必要があります`)
+      return
+    }
+
+    const names = new Set<string>()
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`
+      if (!this.isDefinition(item)) {
+        report.errors.push(`${itemPath}: オブジェクトである必要があります`)
+        return
+      }
+      validateItem(report, item, itemPath)
+
+      if (typeof item.name === 'string') {
+        if (names.has(item.name)) {
+          report.warnings.push(`${itemPath}.name: 同じ名前のカードが既にあります (${item.name})`)
+        }
+        names.add(item.name)
+      }
+    })
+  }
+
+  private static validateStageLists(
+    report: ValidationReport,
+    value: unknown,
+    path: string,
+    validateItem: (report: ValidationReport, def: Definition, path: string) => void
+  ): void {
+    if (!this.isDefinition(value)) {
+      report.errors.push(`${path}: ステージ（youth / middle / fulfillment）ごとの配列を持つオブジェクトである必要があります`)
+      return
+    }
+
+    Object.entries(value).forEach(([stage, list]) => {
+      if (!this.STAGES.includes(stage as GameStage)) {
+        report.errors.push(`${path}.${stage}: 不明なステージです`)
+        return
+      }
+      this.validateList(report, list, `${path}.${stage}`, validateItem)
+    })
+  }
+
+  private static validateLifeCard(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkOneOf(report, def, 'category', path, this.LIFE_CATEGORIES, '人生カードのカテゴリー')
+    this.checkNumber(report, def, 'power', path)
+    this.checkNumber(report, def, 'cost', path)
+  }
+
+  private static validateInsuranceType(report: ValidationReport, def: Definition, path: string): void {
+    this.checkOneOf(report, def, 'insuranceType', path, this.INSURANCE_TYPES, '保険種別')
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkNumber(report, def, 'power', path)
+    this.checkOneOf(report, def, 'insuranceEffectType', path, this.INSURANCE_EFFECT_TYPES, '保険効果タイプ')
+
+    if (def.insuranceTriggerType !== undefined) {
+      this.checkOneOf(report, def, 'insuranceTriggerType', path, this.INSURANCE_TRIGGER_TYPES, '保険の発動条件')
+    } else if (def.insuranceEffectType === 'trigger') {
+      report.errors.push(`${path}.insuranceTriggerType: トリガー型保険には発動条件が必要です`)
+    }
+    if (def.coverage !== undefined) {
+      this.checkNumber(report, def, 'coverage', path)
+    }
+    if (def.insuranceTrigger !== undefined) {
+      this.validateInsuranceTrigger(report, def.insuranceTrigger, `${path}.insuranceTrigger`)
+    }
+    if (def.insurancePayout !== undefined) {
+      this.validateInsurancePayout(report, def.insurancePayout, `${path}.insurancePayout`)
+    }
+
+    const termOption = def.termOption
+    if (this.isDefinition(termOption)) {
+      this.checkNumber(report, termOption, 'cost', `${path}.termOption`)
+      this.checkNumber(report, termOption, 'duration', `${path}.termOption`, { min: 1, integer: true })
+      this.checkString(report, termOption, 'description', `${path}.termOption`)
+    } else {
+      report.errors.push(`${path}.termOption: 定期プラン（cost, duration, description）が必要です`)
+    }
+
+    const wholeLifeOption = def.wholeLifeOption
+    if (this.isDefinition(wholeLifeOption)) {
+      this.checkNumber(report, wholeLifeOption, 'cost', `${path}.wholeLifeOption`)
+      this.checkString(report, wholeLifeOption, 'description', `${path}.wholeLifeOption`)
+    } else {
+      report.errors.push(`${path}.wholeLifeOption: 終身プラン（cost, description）が必要です`)
+    }
+  }
+
+  private static validateInsuranceTrigger(report: ValidationReport, trigger: unknown, path: string): void {
+    if (!this.isDefinition(trigger)) {
+      report.errors.push(`${path}: オブジェクトである必要があります`)
+      return
+    }
+    if (trigger['damageThreshold'] !== undefined) {
+      this.checkNumber(report, trigger, 'damageThreshold', path, { min: 1 })
+    }
+    if (trigger['consecutiveFailures'] !== undefined) {
+      this.checkNumber(report, trigger, 'consecutiveFailures', path, { min: 1, integer: true })
+    }
+    if (trigger['challengeCategory'] !== undefined) {
+      this.checkOneOf(report, trigger, 'challengeCategory', path, this.DREAM_CATEGORIES, 'チャレンジカテゴリー')
+    }
+    if (trigger['stage'] !== undefined && !this.STAGES.includes(trigger['stage'] as GameStage)) {
+      report.errors.push(`${path}.stage: 不明なステージです (${String(trigger['stage'])})`)
+    }
+  }
+
+  private static validateInsurancePayout(report: ValidationReport, payout: unknown, path: string): void {
+    if (!this.isDefinition(payout)) {
+      report.errors.push(`${path}: オブジェクトである必要があります`)
+      return
+    }
+    this.checkOneOf(report, payout, 'effect', path, this.INSURANCE_PAYOUT_EFFECTS, '支払い効果')
+    ;(['amount', 'coverageRate', 'deductible'] as const).forEach(key => {
+      if (payout[key] !== undefined) {
+        this.checkNumber(report, payout, key, path)
+      }
+    })
+    if (payout['payoutRatio'] !== undefined) {
+      this.checkNumber(report, payout, 'payoutRatio', path)
+      if (typeof payout['payoutRatio'] === 'number' && payout['payoutRatio'] > 1) {
+        report.errors.push(`${path}.payoutRatio: 1以下である必要があります (${payout['payoutRatio']})`)
+      }
+    }
+  }
+
+  private static validateChallenge(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkNumber(report, def, 'power', path)
+    this.checkNumber(report, def, 'damage', path)
+    if (def.dreamCategory !== undefined) {
+      this.checkOneOf(report, def, 'dreamCategory', path, this.DREAM_CATEGORIES, '夢カテゴリー')
+    }
+    if (def.isDream !== undefined && typeof def.isDream !== 'boolean') {
+      report.errors.push(`${path}.isDream: true か false である必要があります`)
+    }
+  }
+
+  private static validateAgingCard(report: ValidationReport, value: unknown, path: string): void {
+    if (!this.isDefinition(value)) {
+      report.errors.push(`${path}: オブジェクトである必要があります`)
+      return
+    }
+    this.checkText(report, value, 'name', path)
+    this.checkString(report, value, 'description', path)
+
+    if (!Array.isArray(value.effects)) {
+      report.errors.push(`${path}.effects: 配列である必要があります`)
+      return
+    }
+    value.effects.forEach((effect, index) => {
+      const effectPath = `${path}.effects[${index}]`
+      if (!this.isDefinition(effect)) {
+        report.errors.push(`${effectPath}: オブジェクトである必要があります`)
+        return
+      }
+      this.checkOneOf(report, effect, 'type', effectPath, CardEffectEngine.DEFAULT_HOOKS, 'カード効果タイプ')
+      this.checkNumber(report, effect, 'value', effectPath, { min: -Infinity })
+      this.checkString(report, effect, 'description', effectPath)
+    })
+  }
+
+  private static validateSkill(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkOneOf(report, def, 'rarity', path, this.SKILL_RARITIES, 'スキルのレア度')
+    this.checkNumber(report, def, 'power', path)
+    this.checkNumber(report, def, 'cooldown', path, { integer: true })
+  }
+
+  private static validateCombo(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkNumber(report, def, 'power', path)
+    this.checkNumber(report, def, 'comboBonus', path)
+    const requiredCards = def.requiredCards
+    if (!Array.isArray(requiredCards) || requiredCards.length === 0 || requiredCards.some(card => typeof card !== 'string')) {
+      report.errors.push(`${path}.requiredCards: 1つ以上の文字列の配列である必要があります`)
+    }
+  }
+
+  private static validateEvent(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkNumber(report, def, 'power', path)
+    this.checkNumber(report, def, 'duration', path, { min: 1, integer: true })
+    if (typeof def.globalEffect !== 'boolean') {
+      report.errors.push(`${path}.globalEffect: true か false である必要があります`)
+    }
+  }
+
+  private static validateLegendary(report: ValidationReport, def: Definition, path: string): void {
+    this.checkText(report, def, 'name', path)
+    this.checkString(report, def, 'description', path)
+    this.checkNumber(report, def, 'power', path)
+    this.checkString(report, def, 'unlockCondition', path)
+  }
+
+  private static isDefinition(value: unknown): value is Definition {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  private static fieldPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key
+  }
+
+  // 空でない文字列
+  private static checkText(report: ValidationReport, def: Definition, key: string, path: string): void {
+    const value = def[key]
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      report.errors.push(`${this.fieldPath(path, key)}: 空でない文字列である必要があります`)
+    }
+  }
+
+  private static checkString(report: ValidationReport, def: Definition, key: string, path: string): void {
+    if (typeof def[key] !== 'string') {
+      report.errors.push(`${this.fieldPath(path, key)}: 文字列である必要があります`)
+    }
+  }
+
+  // 既定では0以上の数値
+  private static checkNumber(
+    report: ValidationReport,
+    def: Definition,
+    key: string,
+    path: string,
+    { min = 0, integer = false }: { min?: number; integer?: boolean } = {}
+  ): void {
+    const value = def[key]
+    const fieldPath = this.fieldPath(path, key)
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      report.errors.push(`${fieldPath}: 数値である必要があります`)
+    } else if (value < min) {
+      report.errors.push(`${fieldPath}: ${min}以上である必要があります (${value})`)
+    } else if (integer && !Number.isInteger(value)) {
+      report.errors.push(`${fieldPath}: 整数である必要があります (${value})`)
+    }
+  }
+
+  private static checkOneOf(
+    report: ValidationReport,
+    def: Definition,
+    key: string,
+    path: string,
+    allowed: Record<string, unknown>,
+    label: string
+  ): void {
+    const value = def[key]
+    if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(allowed, value)) {
+      report.errors.push(`${this.fieldPath(path, key)}: 不明な${label}です (${String(value)})`)
+    }
+  }
+}
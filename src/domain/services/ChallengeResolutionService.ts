@@ -1,9 +1,13 @@
 import type { Card } from '../entities/Card'
 import type { GameStage } from '../types/card.types'
-import type { ChallengeResult } from '../types/game.types'
+import type { ActiveEvent, ChallengeResult, ChallengeStakes } from '../types/game.types'
 import type { ICardManager } from './CardManager'
 import type { Game } from '../entities/Game'
+import type { PowerBreakdown } from './GameChallengeService'
+import type { CardEffectOutcome } from './CardEffectEngine'
 import { RiskRewardChallenge } from '../entities/RiskRewardChallenge'
+import { SkillSystemService } from './SkillSystemService'
+import { DifficultyBalanceService } from './DifficultyBalanceService'
 import { AGE_PARAMETERS, DREAM_AGE_ADJUSTMENTS } from '../types/game.types'
 import { MAX_TOTAL_DAMAGE_REDUCTION, MINIMUM_DAMAGE_AFTER_INSURANCE } from '../constants/insurance.constants'
 import { GameConstantsAccessor } from '../constants/GameConstants'
@@ -33,14 +37,23 @@ export class ChallengeResolutionService {
     game?: Game
   ): ChallengeResult {
     // リスクチャレンジの特殊ルール確認
-    const isRiskChallenge = challenge instanceof RiskRewardChallenge
-    const insuranceImmunity = isRiskChallenge && challenge.insuranceImmunity
+    const riskChallenge = challenge instanceof RiskRewardChallenge ? challenge : undefined
+    const insuranceImmunity = riskChallenge?.insuranceImmunity ?? false
 
     // 保険効果（特化型ボーナス）
     const insuranceBonus = (game && !insuranceImmunity) ? this.calculateInsuranceBonus(game, challenge) : 0
 
+    // 使ったカードの効果（on_play）
+    const playEffects = game?.resolveCardEffects('on_play')
+
     // パワー計算
-    const powerBreakdown = this.calculateTotalPower(selectedCards, insuranceBurden, insuranceBonus)
+    const powerBreakdown = this.calculateTotalPower(
+      selectedCards,
+      insuranceBurden,
+      insuranceBonus,
+      game?.activeEvents,
+      playEffects?.power
+    )
     const playerPower = powerBreakdown.total
 
     // 夢カードの年齢調整
@@ -52,10 +65,14 @@ export class ChallengeResolutionService {
     let vitalityChange = 0
     let message = ''
     let damageAmount: number | undefined
+    let damageEffects: CardEffectOutcome | undefined
+    // リスクチャレンジの成功ボーナス・失敗ペナルティ
+    const riskBonus = success ? (riskChallenge?.successBonus ?? 0) : 0
+    const riskPenalty = success ? 0 : (riskChallenge?.failurePenalty ?? 0)
 
     if (success) {
       // 成功時: 基本報酬 + 過労ダメージ計算
-      const bonusBase = GameConstantsAccessor.getBalanceSettings().CHALLENGE_SETTINGS.successBonusBase
+      const bonusBase = this.getSuccessReward(game)
       const powerDiff = playerPower - challengePower
 
       // V3変更: 「惜しい」判定廃止のため、過剰パワーは「過労」としてペナルティ
@@ -75,9 +92,12 @@ export class ChallengeResolutionService {
       const damageReduction = (game && !insuranceImmunity) ? this.calculateDamageReduction(game) : 0
       const finalOverworkDamage = Math.max(0, overworkDamage - damageReduction)
 
-      vitalityChange = baseReward - finalOverworkDamage
+      vitalityChange = baseReward + riskBonus - finalOverworkDamage
 
       message = `🎉 チャレンジ成功！ (+${baseReward})`
+      if (riskBonus > 0) {
+        message += ` リスクに見合う報酬を得た！ (+${riskBonus})`
+      }
       if (finalOverworkDamage > 0) {
         message += ` しかし頑張りすぎて疲れた... (-${finalOverworkDamage})`
       } else if (overworkDamage > 0 && finalOverworkDamage === 0) {
@@ -91,8 +111,13 @@ export class ChallengeResolutionService {
       // 保険軽減
       const damageReduction = (game && !insuranceImmunity) ? this.calculateDamageReduction(game) : 0
 
+      // 手元のカードの効果による軽減（on_damage）
+      damageEffects = game?.resolveCardEffects('on_damage', { damage: baseDamage })
+      const effectReduction = damageEffects?.damageReduction ?? 0
+
       // 最小ダメージ保証（どんなに軽減しても1は食らう、ただし完全無効化スキルがあれば別だが現状は1）
-      const finalDamage = Math.max(MINIMUM_DAMAGE_AFTER_INSURANCE, baseDamage - damageReduction)
+      // リスクチャレンジの失敗ペナルティは軽減できない
+      const finalDamage = Math.max(MINIMUM_DAMAGE_AFTER_INSURANCE, baseDamage - damageReduction - effectReduction) + riskPenalty
 
       // 夢（大ダメージ）に対する特殊防御（がん保険など）のロジックは
       // calculateDamageReductionに含めるか、ここで別途判定するか？
@@ -103,17 +128,21 @@ export class ChallengeResolutionService {
       vitalityChange = -finalDamage
       damageAmount = finalDamage
       message = `💥 失敗... ${finalDamage} のダメージを受けた`
+      if (riskPenalty > 0) {
+        message += ` (リスクの代償 -${riskPenalty} を含む)`
+      }
+    }
+
+    // カード効果の適用（使ったカード・ダメージ時・成否確定時）
+    if (game) {
+      if (playEffects) game.applyCardEffects(playEffects)
+      if (damageEffects) game.applyCardEffects(damageEffects)
+      game.triggerCardEffects('on_challenge_resolve', { success, playerPower, challengePower })
     }
 
     // カード破棄
     cardManager.discardSelectedCards()
 
-    // リスクチャレンジの場合の補正（もしあれば）
-    if (isRiskChallenge) {
-      // リスクチャレンジの計算ロジックを優先する場合ここに戻す必要あり
-      // 現状はV3ルール優先
-    }
-
     // 結果作成
     const result: ChallengeResult = {
       challenge,
@@ -131,33 +160,92 @@ export class ChallengeResolutionService {
       result.damageAmount = damageAmount
     }
 
+    if (riskChallenge) {
+      result.riskOutcome = {
+        riskLevel: riskChallenge.riskLevel,
+        insuranceImmunity,
+        successBonus: riskBonus,
+        failurePenalty: riskPenalty
+      }
+    }
+
     return result
   }
 
+  /**
+   * リスクチャレンジに挑んだ場合の損得の見込みを計算
+   * 失敗時の見込みには保険による軽減を含め、手札のカード効果による軽減は含めない
+   * @returns リスクチャレンジでなければundefined
+   */
+  calculateRiskStakes(challenge: Card, stage: GameStage, game?: Game): ChallengeStakes | undefined {
+    if (!(challenge instanceof RiskRewardChallenge)) return undefined
+
+    const bonusBase = this.getSuccessReward(game)
+    const damageReduction = (game && !challenge.insuranceImmunity) ? this.calculateDamageReduction(game) : 0
+    const baseDamage = Math.max(
+      MINIMUM_DAMAGE_AFTER_INSURANCE,
+      this.getDreamRequiredPower(challenge, stage) - damageReduction
+    )
+
+    return {
+      riskLevel: challenge.riskLevel,
+      insuranceImmunity: challenge.insuranceImmunity,
+      expectedGain: bonusBase + challenge.successBonus,
+      expectedLoss: baseDamage + challenge.failurePenalty
+    }
+  }
+
+  /**
+   * 成功時の基本報酬
+   * 動的難易度で難しくなっているほど多くなる
+   */
+  private getSuccessReward(game?: Game): number {
+    const bonusBase = GameConstantsAccessor.getBalanceSettings().CHALLENGE_SETTINGS.successBonusBase
+    if (!game) {
+      return bonusBase
+    }
+    return DifficultyBalanceService.adjustRewards(bonusBase, game.getDynamicDifficulty(), true).adjustedReward
+  }
+
   /**
    * 総合パワーを詳細に計算
    * @param cards 使用するカード
    * @param insuranceBurden 保険料負担
    * @param insuranceBonus 保険ボーナス
+   * @param activeEvents 発動中のイベント
+   * @param effectPower カード効果（CardEffect）によるパワー
    * @returns パワーの詳細な内訳
    */
-  private calculateTotalPower(cards: Card[], insuranceBurden: number, insuranceBonus: number = 0): {
-    base: number
-    insurance: number
-    burden: number
-    total: number
-  } {
-    // 基本パワー（保険以外のカード）
+  calculateTotalPower(
+    cards: Card[],
+    insuranceBurden: number,
+    insuranceBonus: number = 0,
+    activeEvents: ActiveEvent[] = [],
+    effectPower: number = 0
+  ): PowerBreakdown {
+    // 基本パワー（保険・スキル・イベント以外のカード）
     let basePower = 0
     let insurancePower = 0
+    let skillPower = 0
+    let comboPower = 0
+    // 発動中のイベントは毎回のチャレンジに加わる
+    let eventPower = activeEvents.reduce((sum, event) => sum + event.power, 0)
 
     cards.forEach(card => {
       if (card.type === 'insurance') {
         // 保険カードのパワー（年齢ボーナス込み）
         insurancePower += card.calculateEffectivePower()
+      } else if (card.isSkillCard()) {
+        // スキルカードはレア度・熟練度込み、クールダウン中はパワーなし
+        skillPower += SkillSystemService.canUseSkill(card) ? SkillSystemService.calculateEffectivePower(card) : 0
+      } else if (card.isEventCard()) {
+        eventPower += card.calculateEffectivePower()
       } else {
         // その他のカードの基本パワー
         basePower += card.calculateEffectivePower()
+        if (card.isComboCard()) {
+          comboPower += this.calculateComboBonus(card, cards)
+        }
       }
     })
 
@@ -165,16 +253,35 @@ export class ChallengeResolutionService {
     insurancePower += insuranceBonus
 
     // 総合パワー
-    const total = basePower + insurancePower - insuranceBurden
+    const total = basePower + skillPower + comboPower + eventPower + effectPower + insurancePower - insuranceBurden
 
     return {
       base: basePower,
       insurance: insurancePower,
       burden: -insuranceBurden, // 負の値として表示
-      total: Math.max(0, total) // 総合パワーは0以下にならない
+      total: Math.max(0, total), // 総合パワーは0以下にならない
+      skill: skillPower,
+      combo: comboPower,
+      event: eventPower,
+      effect: effectPower
     }
   }
 
+  /**
+   * コンボの成立ボーナスを計算
+   * 一緒に使うカードが requiredCards（カテゴリー・タイプ・カード名のいずれか）をすべて満たせば成立
+   */
+  private calculateComboBonus(comboCard: Card, cards: Card[]): number {
+    const properties = comboCard.comboProperties
+    if (!properties) return 0
+
+    const partners = cards.filter(card => card.id !== comboCard.id)
+    const fulfilled = properties.requiredCards.every(required =>
+      partners.some(card => card.category === required || card.type === required || card.name === required)
+    )
+    return fulfilled ? properties.comboBonus : 0
+  }
+
   /**
    * 夢カードの必要パワーを年齢調整込みで計算
    */
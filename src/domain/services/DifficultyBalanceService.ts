@@ -36,6 +36,8 @@ export interface BalanceAdjustment {
  * 動的難易度調整とゲームバランスを管理
  */
 export class DifficultyBalanceService {
+  // 1ゲーム中の調整を始めるのに必要なチャレンジ結果の数
+  static readonly MIN_RUN_PERFORMANCE_SAMPLES = 3
 
   /**
    * プレイヤーの実力に基づいて動的難易度を計算
@@ -70,15 +72,7 @@ export class DifficultyBalanceService {
       : 0.5 // デフォルト50%
 
     // 調整係数を計算（-0.5 to +0.5）
-    let adjustmentFactor = 0
-
-    if (isDynamicEnabled) {
-      if (averagePerformance < 0.3) {
-        adjustmentFactor = -0.3 // 難易度を下げる
-      } else if (averagePerformance > 0.8) {
-        adjustmentFactor = 0.2 // 難易度を上げる
-      }
-    }
+    let adjustmentFactor = isDynamicEnabled ? this.calculatePerformanceAdjustment(averagePerformance) : 0
 
     // ステージ別の調整
     const stageModifiers = {
@@ -91,20 +85,60 @@ export class DifficultyBalanceService {
     // チャレンジレベルを計算
     const challengeLevel = this.calculateChallengeLevel(playerLevel, totalAchievements, stage)
 
-    // 適応的モディファイアを設定
-    const adaptiveModifiers = {
-      challengePowerModifier: 1 + adjustmentFactor,
-      rewardMultiplier: 1 + (adjustmentFactor > 0 ? adjustmentFactor * 1.5 : 0),
-      cardRarityBonus: Math.max(0, adjustmentFactor * 2),
-      experienceModifier: 1 + Math.abs(adjustmentFactor) * 0.5
-    }
-
     return {
       baseDifficulty,
       adjustmentFactor,
       currentChallengeLevel: challengeLevel,
       recentPerformance: performance,
-      adaptiveModifiers
+      adaptiveModifiers: this.createAdaptiveModifiers(adjustmentFactor)
+    }
+  }
+
+  /**
+   * 1ゲーム中の最近のチャレンジ結果から動的難易度を計算
+   *
+   * calculateDynamicDifficulty と同じ基準で調整するが、プレイヤーのレベル・実績による
+   * 基本難易度やステージ補正は含めない（ステージの難しさはチャレンジカード自体に反映済み）。
+   * 結果が MIN_RUN_PERFORMANCE_SAMPLES 件に満たないうちは調整しない。
+   */
+  static calculateRunDifficulty(recentPerformance: number[]): DynamicDifficulty {
+    const adjustmentFactor = recentPerformance.length >= this.MIN_RUN_PERFORMANCE_SAMPLES
+      ? this.calculatePerformanceAdjustment(
+        recentPerformance.reduce((sum, p) => sum + p, 0) / recentPerformance.length
+      )
+      : 0
+
+    return {
+      baseDifficulty: 'normal',
+      adjustmentFactor,
+      currentChallengeLevel: 1,
+      recentPerformance: [...recentPerformance],
+      adaptiveModifiers: this.createAdaptiveModifiers(adjustmentFactor)
+    }
+  }
+
+  /**
+   * 最近の成功率から調整係数を計算
+   */
+  private static calculatePerformanceAdjustment(averagePerformance: number): number {
+    if (averagePerformance < 0.3) {
+      return -0.3 // 難易度を下げる
+    }
+    if (averagePerformance > 0.8) {
+      return 0.2 // 難易度を上げる
+    }
+    return 0
+  }
+
+  /**
+   * 調整係数から適応的モディファイアを作成
+   */
+  private static createAdaptiveModifiers(adjustmentFactor: number): DynamicDifficulty['adaptiveModifiers'] {
+    return {
+      challengePowerModifier: 1 + adjustmentFactor,
+      rewardMultiplier: 1 + (adjustmentFactor > 0 ? adjustmentFactor * 1.5 : 0),
+      cardRarityBonus: Math.max(0, adjustmentFactor * 2),
+      experienceModifier: 1 + Math.abs(adjustmentFactor) * 0.5
     }
   }
 
@@ -0,0 +1,85 @@
+import { GameConstantsAccessor } from '../constants/GameConstants'
+
+/**
+ * エンドレスモードのハイスコア記録
+ */
+export interface EndlessHighScore {
+  turnsSurvived: number
+  endlessLevel: number // 到達したエンドレスレベル
+  characterId?: string
+  achievedAt: string // ISO 8601
+}
+
+/**
+ * エンドレスモードサービス
+ *
+ * 通常のゲーム期間（PROGRESSION_SETTINGS.maxTurns）を過ぎると、
+ * 一定ターンごとにエンドレスレベルが上がり、チャレンジの必要パワー・
+ * 老化カードの流入数・保険料が上昇し続ける。
+ * レベルはターン数から決まるため、保存データやリプレイに追加の状態を持たない。
+ */
+export class EndlessModeService {
+  // エンドレスレベルが1上がるまでのターン数
+  static readonly TURNS_PER_LEVEL = 5
+  // レベルごとのチャレンジ必要パワーの上昇率
+  static readonly CHALLENGE_POWER_GROWTH = 0.15
+  // レベルごとの保険料の上昇率
+  static readonly PREMIUM_GROWTH = 0.2
+  // ハイスコア表に残す件数
+  static readonly HIGH_SCORE_LIMIT = 10
+
+  /**
+   * ターン数からエンドレスレベルを取得
+   * 通常のゲーム期間中は0、最終ターンに到達するとレベル1になる
+   */
+  static getEndlessLevel(turn: number): number {
+    const { maxTurns } = GameConstantsAccessor.getBalanceSettings().PROGRESSION_SETTINGS
+    if (turn < maxTurns) return 0
+    return Math.floor((turn - maxTurns) / this.TURNS_PER_LEVEL) + 1
+  }
+
+  /**
+   * このターンでエンドレスレベルが上がったか判定
+   */
+  static isLevelUpTurn(turn: number): boolean {
+    return this.getEndlessLevel(turn) > this.getEndlessLevel(turn - 1)
+  }
+
+  /**
+   * チャレンジの必要パワー倍率
+   */
+  static getChallengePowerMultiplier(level: number): number {
+    return 1 + level * this.CHALLENGE_POWER_GROWTH
+  }
+
+  /**
+   * 保険料の倍率
+   */
+  static getPremiumMultiplier(level: number): number {
+    return 1 + level * this.PREMIUM_GROWTH
+  }
+
+  /**
+   * レベルアップ時に捨て札へ加わる老化カードの枚数（レベルと同じ枚数）
+   */
+  static getAgingCardCount(level: number): number {
+    return Math.max(0, level)
+  }
+
+  /**
+   * ハイスコア表に記録を追加
+   * 生き延びたターン数の降順（同数なら先に達成した記録が上位）で上位のみ残す
+   * @returns 更新後の表と今回の順位（圏外ならundefined）
+   */
+  static recordHighScore(
+    table: EndlessHighScore[],
+    entry: EndlessHighScore
+  ): { table: EndlessHighScore[], rank: number | undefined } {
+    const updated = [...table, entry]
+      .sort((a, b) => b.turnsSurvived - a.turnsSurvived || a.achievedAt.localeCompare(b.achievedAt))
+      .slice(0, this.HIGH_SCORE_LIMIT)
+
+    const index = updated.indexOf(entry)
+    return { table: updated, rank: index === -1 ? undefined : index + 1 }
+  }
+}
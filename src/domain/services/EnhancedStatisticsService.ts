@@ -8,7 +8,7 @@
 import { type StatisticsData, StatisticsDataService, type StatisticsFilter, type StatisticsSort } from './StatisticsDataService'
 import { IndexedDBManager } from '@/infrastructure/storage/IndexedDBManager'
 import { StorageAdapter } from '@/infrastructure/storage/StorageAdapter'
-import type { Game } from '../entities/Game'
+import { Game } from '../entities/Game'
 
 export interface PlayerProfile {
   id: string
@@ -274,11 +274,7 @@ export class EnhancedStatisticsService {
     const games: Game[] = []
     for (const serialized of serializedGames) {
       try {
-        const gameState = JSON.parse(serialized.data)
-        // ここでGameインスタンスを復元する処理が必要
-        // 実際の実装では、Gameクラスに復元メソッドを追加するか、
-        // ファクトリーパターンを使用する
-        console.log('Game restoration from:', gameState)
+        games.push(Game.fromSnapshot(JSON.parse(serialized.data)))
       } catch (error) {
         console.error('ゲーム復元エラー:', error)
       }
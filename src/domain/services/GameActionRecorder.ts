@@ -0,0 +1,87 @@
+import type { GameAction, GameActionLog, GameConfig } from '../types/game.types'
+
+/**
+ * プレイヤーの意思決定を記録するサービス
+ *
+ * GameStateManagerが記録するフェーズ・ターン等の変化ではなく、
+ * その変化を引き起こした操作そのものを順番に記録する。
+ * 操作の内部から呼ばれた別の操作（保険効果による再ドローなど）は、
+ * 再実行時に外側の操作が再び行うため記録しない。
+ */
+export class GameActionRecorder {
+  private readonly config: GameConfig
+  private readonly actions: GameAction[]
+  private depth = 0
+
+  /**
+   * @param config 記録開始時のゲーム設定（シードを含む）
+   * @param actions 既存のログ（スナップショットから復元する場合）
+   */
+  constructor(config: GameConfig, actions: GameAction[] = []) {
+    this.config = JSON.parse(JSON.stringify(config))
+    this.actions = [...actions]
+  }
+
+  /**
+   * 操作を実行し、成功した場合のみ記録する
+   *
+   * 非同期の操作は完了後に記録する。
+   * @param action 記録する操作（実行前の状態から作成したもの）
+   * @param execute 操作の本体
+   * @returns 操作の戻り値
+   */
+  record<T>(action: GameAction, execute: () => T): T {
+    const isTopLevel = this.depth === 0
+    this.depth++
+
+    let result: T
+    try {
+      result = execute()
+    } catch (error) {
+      this.depth--
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        value => {
+          this.depth--
+          if (isTopLevel) this.actions.push(action)
+          return value
+        },
+        error => {
+          this.depth--
+          throw error
+        }
+      ) as T
+    }
+
+    this.depth--
+    if (isTopLevel) this.actions.push(action)
+    return result
+  }
+
+  /**
+   * 記録したアクションログを取得
+   */
+  getLog(): GameActionLog {
+    return {
+      config: JSON.parse(JSON.stringify(this.config)),
+      actions: JSON.parse(JSON.stringify(this.actions))
+    }
+  }
+
+  /**
+   * 最後に記録したアクション
+   */
+  get lastAction(): GameAction | undefined {
+    return this.actions[this.actions.length - 1]
+  }
+
+  /**
+   * 記録済みのアクション数
+   */
+  get length(): number {
+    return this.actions.length
+  }
+}
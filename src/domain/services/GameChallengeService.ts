@@ -28,6 +28,8 @@ import type { Game } from '../entities/Game'
 import type { ChallengeResult, InsuranceTypeChoice } from '../types/game.types'
 import { CardFactory } from './CardFactory'
 import type { ChallengeResolutionService } from './ChallengeResolutionService'
+import { SkillSystemService } from './SkillSystemService'
+import { DifficultyBalanceService } from './DifficultyBalanceService'
 
 /**
  * パワー計算の内訳
@@ -37,12 +39,20 @@ import type { ChallengeResolutionService } from './ChallengeResolutionService'
  * @property {number} insurance - 保険カードのパワー合計
  * @property {number} burden - 保険料負担（負の値）
  * @property {number} total - 総合パワー（最小値は0）
+ * @property {number} skill - スキルカードのパワー合計（クールダウン中は0）
+ * @property {number} combo - コンボ成立ボーナスの合計
+ * @property {number} event - イベントカードと発動中のイベントのパワー合計
+ * @property {number} effect - カード効果（CardEffect）によるパワー
  */
 export interface PowerBreakdown {
   base: number
   insurance: number
   burden: number
   total: number
+  skill: number
+  combo: number
+  event: number
+  effect: number
 }
 
 export class GameChallengeService {
@@ -69,6 +79,9 @@ export class GameChallengeService {
       const updatedCard = challengeCard.copy({ power: newPower })
       game.currentChallenge = updatedCard
     }
+
+    // 動的難易度: 最近の成功率に応じて必要パワーを調整
+    this.applyDynamicDifficulty(game)
   }
 
   /**
@@ -77,6 +90,7 @@ export class GameChallengeService {
   resolveChallenge(game: Game): ChallengeResult {
     try {
       this.validateChallenge(game)
+      const playedCards = [...game.selectedCards]
 
       // 新しいChallengeResolutionServiceを使用
       const result = this.resolutionService.resolveChallenge(
@@ -90,9 +104,20 @@ export class GameChallengeService {
 
       // 統計更新
       this.updateStatistics(game, result.success)
+      game.updateDynamicDifficulty(result.success)
+      const consecutiveFailures = game.updateConsecutiveFailures(result.success)
+      const challenge = game.currentChallenge!
+
+      // スキルのクールダウン開始・イベントの発動
+      this.applyPlayedCardEffects(game, playedCards)
 
       // 活力更新
-      this.updateVitality(game, result.vitalityChange)
+      this.updateVitality(game, result.vitalityChange, challenge)
+
+      // 連続失敗で発動する保険
+      if (!result.success && !game.pendingInsuranceClaim) {
+        game.checkInsuranceTriggers({ type: 'on_consecutive_failures', consecutiveFailures })
+      }
 
       // 経験学習システム: 失敗時に学習履歴を更新
       if (!result.success && game.currentChallenge) {
@@ -119,7 +144,8 @@ export class GameChallengeService {
           return result;
         }
 
-        const choices = CardFactory.createInsuranceTypeChoices(game.stage)
+        const choices = CardFactory.createInsuranceTypeChoices(game.stage, game.getRandom(), game.cardCatalog)
+          .filter(choice => !game.isCardBanned(choice.name))
         game.insuranceTypeChoices = choices
         console.log('[GameChallengeService] Generated insurance choices:', game.insuranceTypeChoices?.length)
 
@@ -130,8 +156,13 @@ export class GameChallengeService {
         // Phase transition is handled by calling context or Game logic
         result.insuranceTypeChoices = choices
 
-        // User Request: Omit Reward Cards explicitly.
-        // Reward generation logic has been removed to prevent deck bloat ("パワカ" issue)
+        // 報酬カード（解放済みのスキル・コンボ・イベント・レジェンダリー）は任意で1枚獲得できる
+        // デッキの肥大化（"パワカ" 問題）を避けるため、獲得しない選択もできる
+        const rewards = game.createRewardCardChoices()
+        game.rewardCardChoices = rewards.length > 0 ? rewards : undefined
+        if (game.rewardCardChoices) {
+          result.rewards = rewards
+        }
       }
 
       this.updateGameStateAfterChallenge(game, result)
@@ -164,25 +195,57 @@ export class GameChallengeService {
    * @returns {PowerBreakdown} パワーの詳細な内訳
    * 
    * @description
-   * 選択されたカードのパワーを計算し、保険料負担を考慮した
-   * 総合パワーを算出します。結果は常に0以上になります。
+   * 選択されたカードのパワーを計算し、スキル・コンボ・イベント・カード効果と
+   * 保険料負担を考慮した総合パワーを算出します（チャレンジ解決時と同じ計算）。
+   * 結果は常に0以上になります。
    */
   calculateTotalPower(game: Game, cards: Card[]): PowerBreakdown {
-    let basePower = 0
-    let insurancePower = 0
-
-    for (const card of cards) {
-      if (card.type === 'insurance') {
-        insurancePower += card.calculateEffectivePower()
-      } else {
-        basePower += card.calculateEffectivePower()
-      }
+    const effectPower = game.resolveCardEffects('on_play', { playedCards: cards }, cards).power
+    return this.resolutionService.calculateTotalPower(cards, game.insuranceBurden, 0, game.activeEvents, effectPower)
+  }
+
+  /**
+   * 動的難易度による調整を現在のチャレンジに適用し、記録する
+   * 成功時の活力報酬の倍率はチャレンジ解決時に ChallengeResolutionService が適用する
+   * @private
+   */
+  private applyDynamicDifficulty(game: Game): void {
+    const challenge = game.currentChallenge
+    const difficulty = game.getDynamicDifficulty()
+    if (!challenge || difficulty.adjustmentFactor === 0) {
+      return
     }
 
-    const burden = game.insuranceBurden
-    const total = Math.max(0, basePower + insurancePower + burden)
+    const { adjustedPower, rewardMultiplier } = DifficultyBalanceService.adjustChallengePower(challenge.power, difficulty, 1)
+    if (adjustedPower !== challenge.power) {
+      game.currentChallenge = challenge.copy({ power: adjustedPower })
+    }
+
+    const performance = difficulty.recentPerformance
+    game.recordDifficultyAdjustment({
+      turn: game.turn,
+      stage: game.stage,
+      challengeName: challenge.name,
+      originalPower: challenge.power,
+      adjustedPower,
+      rewardMultiplier,
+      successRate: performance.reduce((sum, result) => sum + result, 0) / performance.length
+    })
+  }
 
-    return { base: basePower, insurance: insurancePower, burden, total }
+  /**
+   * 使用したカードの効果を反映
+   * スキルカードはクールダウンを開始し、イベントカードは継続効果として発動する
+   * @private
+   */
+  private applyPlayedCardEffects(game: Game, playedCards: Card[]): void {
+    playedCards.forEach(card => {
+      if (SkillSystemService.canUseSkill(card)) {
+        game.cardManager.replaceCard(SkillSystemService.useSkill(card))
+      } else if (card.isEventCard() && card.eventProperties) {
+        game.activateEvent(card)
+      }
+    })
   }
 
   /**
@@ -240,22 +303,16 @@ export class GameChallengeService {
    * 活力を更新
    * @private
    */
-  private updateVitality(game: Game, change: number): void {
+  private updateVitality(game: Game, change: number, challenge: Card): void {
     if (change >= 0) {
       game.heal(change)
     } else {
       const damage = -change
 
-      // 医療保険トリガーチェック (ダメージ10以上)
-      if (damage >= 10) {
-        const insurance = game.activeInsurances.find(c => c.insuranceTriggerType === 'on_heavy_damage')
-        if (insurance) {
-          game.triggerInsuranceClaim(insurance, 'on_heavy_damage')
-          if (game.pendingInsuranceClaim) {
-            game.pendingInsuranceClaim.context = { damage }
-            return // ダメージ適用を保留
-          }
-        }
+      // 医療保険（大きなダメージ）・特定カテゴリーのチャレンジの保険はダメージ適用を保留
+      if (game.checkInsuranceTriggers({ type: 'on_heavy_damage', damage })
+        || game.checkInsuranceTriggers({ type: 'on_challenge_category', damage, challenge })) {
+        return
       }
 
       game.applyDamage(damage)
@@ -273,8 +330,8 @@ export class GameChallengeService {
     // 使用したカードを捨て札に
     game.cardManager.discardSelectedCards()
 
-    // フェーズ更新
-    game.phase = result.success
+    // フェーズ更新（保険の選択肢がすべて使用禁止なら保険選択を飛ばす）
+    game.phase = result.success && game.insuranceTypeChoices?.length
       ? 'insurance_type_selection'
       : 'resolution'
 
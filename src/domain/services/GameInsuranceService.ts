@@ -9,7 +9,8 @@ import type { Game } from '../entities/Game'
 import type { InsuranceTypeSelectionResult } from '../types/game.types'
 import { CardFactory } from './CardFactory'
 import { InsurancePremium } from '../valueObjects/InsurancePremium'
-import type { InsurancePremiumCalculationService } from './InsurancePremiumCalculationService'
+import type { InsurancePremiumCalculationService, PremiumBreakdown } from './InsurancePremiumCalculationService'
+import { EndlessModeService } from './EndlessModeService'
 
 export class GameInsuranceService {
   constructor(
@@ -75,14 +76,26 @@ export class GameInsuranceService {
 
   /**
    * 保険料負担を計算
+   * エンドレスモードではレベルに応じて保険料が上がる
    */
   calculateInsuranceBurden(game: Game): number {
     if (game.activeInsurances.length === 0) {
       return 0
     }
 
+    const burden = this.calculateBaseInsuranceBurden(game)
+    const level = game.getEndlessLevel()
+    if (level === 0 || burden === 0) {
+      return burden
+    }
+    return -Math.ceil(Math.abs(burden) * EndlessModeService.getPremiumMultiplier(level))
+  }
 
-
+  /**
+   * 保険料負担の基本額を計算（負の値）
+   * @private
+   */
+  private calculateBaseInsuranceBurden(game: Game): number {
     try {
       const totalBurden = this.premiumService.calculateTotalInsuranceBurden(
         game.activeInsurances,
@@ -118,6 +131,50 @@ export class GameInsuranceService {
     }
   }
 
+  /**
+   * 保険請求を履歴に記録し、保険料を再計算
+   * 請求が多いほどリスクプロファイルの請求履歴リスクが上がり、保険料が高くなる
+   */
+  recordInsuranceClaim(game: Game): void {
+    const history = game.getPlayerHistory()
+    history.insuranceClaimCount++
+    game.setPlayerHistory(history)
+
+    this.refreshRiskProfile(game)
+  }
+
+  /**
+   * 現在のターン数・ステージでリスクプロファイルを作り直し、保険料を再計算
+   */
+  refreshRiskProfile(game: Game): void {
+    const history = game.getPlayerHistory()
+    history.turnsPlayed = game.stats.turnsPlayed
+    game.setPlayerHistory(history)
+
+    this.updateRiskProfile(game)
+    this.updateInsuranceBurden(game)
+  }
+
+  /**
+   * 新規契約時の保険料（内訳付き）
+   */
+  getPremiumQuote(game: Game, card: Card): PremiumBreakdown {
+    return this.premiumService.calculatePremiumBreakdown(card, game.stage, game.getRiskProfile())
+  }
+
+  /**
+   * 更新時の保険料（内訳付き）
+   * これまでの保険請求の回数を使用実績として継続割引・料金増加に反映する
+   */
+  getRenewalQuote(game: Game, card: Card): PremiumBreakdown {
+    return this.premiumService.calculateRenewalPremiumBreakdown(
+      card,
+      game.stage,
+      game.getPlayerHistory().insuranceClaimCount,
+      game.getRiskProfile()
+    )
+  }
+
   /**
    * 推奨保険予算を取得
    */
@@ -245,8 +302,7 @@ export class GameInsuranceService {
     }
     history.totalChoiceCount++
 
-      // Gameの内部プロパティを更新
-      ; (game as any)._playerHistory = history
+    game.setPlayerHistory(history)
   }
 
   /**
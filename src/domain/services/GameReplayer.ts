@@ -0,0 +1,209 @@
+import { Game } from '../entities/Game'
+import {
+  GAME_REPLAY_VERSION,
+  type GameAction,
+  type GameReplay,
+  type GameSnapshot
+} from '../types/game.types'
+
+/**
+ * リプレイ検証の結果
+ */
+export interface ReplayVerificationResult {
+  matches: boolean
+  actionCount: number
+  differences: string[] // 一致しなかった項目のパス
+}
+
+// 実行ごとに変わるため比較しない項目
+const VOLATILE_KEYS = new Set(['id', 'savedAt', 'startedAt', 'completedAt', 'selectedCardIds', 'actionLog'])
+
+// 差分として報告する最大件数
+const MAX_DIFFERENCES = 20
+
+/**
+ * アクションログを新しいGameに再実行するリプレイヤー
+ *
+ * 同じシードのGameに同じ操作を順に適用し、記録時の最終状態と一致するかを検証する。
+ * バランス不具合の報告に添付された .replay.json を1手ずつ再現する用途を想定している。
+ *
+ * @example
+ * const replay = GameReplayer.createReplay(game)
+ * const replayer = new GameReplayer(GameReplayer.parse(json))
+ * while (replayer.hasNext()) await replayer.step()
+ * const result = replayer.verify()
+ */
+export class GameReplayer {
+  private readonly replay: GameReplay
+  private readonly game: Game
+  private position = 0
+
+  /**
+   * @param replay 再生するリプレイ
+   * @throws {Error} 未対応のバージョンの場合
+   */
+  constructor(replay: GameReplay) {
+    if (replay?.version !== GAME_REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version: ${replay?.version}`)
+    }
+    this.replay = replay
+    this.game = new Game(JSON.parse(JSON.stringify(replay.config)))
+  }
+
+  /**
+   * ゲームの記録からリプレイを作成
+   * 戻り値はJSON.stringifyでそのまま .replay.json として保存できる
+   */
+  static createReplay(game: Game): GameReplay {
+    const log = game.getActionLog()
+    return {
+      version: GAME_REPLAY_VERSION,
+      createdAt: new Date().toISOString(),
+      config: log.config,
+      actions: log.actions,
+      finalState: game.toSnapshot()
+    }
+  }
+
+  /**
+   * .replay.json の内容を読み込む
+   * @throws {Error} 形式が不正または未対応のバージョンの場合
+   */
+  static parse(json: string): GameReplay {
+    const replay = JSON.parse(json) as GameReplay
+    if (replay?.version !== GAME_REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version: ${replay?.version}`)
+    }
+    if (!Array.isArray(replay.actions) || !replay.config || !replay.finalState) {
+      throw new Error('Invalid replay file')
+    }
+    return replay
+  }
+
+  /**
+   * リプレイを最後まで再実行し、最終状態を検証する
+   */
+  static async verify(replay: GameReplay): Promise<ReplayVerificationResult> {
+    const replayer = new GameReplayer(replay)
+    await replayer.runToEnd()
+    return replayer.verify()
+  }
+
+  /**
+   * 1件のアクションをゲームに適用する（Game.apply()に委譲）
+   * @throws {Error} 記録された位置のカードが存在しない場合
+   */
+  static async applyAction(game: Game, action: GameAction): Promise<void> {
+    await game.apply(action)
+  }
+
+  /**
+   * 2つのスナップショットを比較し、一致しない項目のパスを返す
+   * IDやタイムスタンプなど実行ごとに変わる項目は比較しない
+   */
+  static compareSnapshots(expected: GameSnapshot, actual: GameSnapshot): string[] {
+    const differences: string[] = []
+    collectDifferences(expected, actual, '', differences)
+    return differences
+  }
+
+  /**
+   * 再生中のゲーム
+   */
+  getGame(): Game {
+    return this.game
+  }
+
+  /**
+   * 適用済みのアクション数
+   */
+  getPosition(): number {
+    return this.position
+  }
+
+  /**
+   * リプレイに含まれるアクション
+   */
+  getActions(): GameAction[] {
+    return this.replay.actions
+  }
+
+  /**
+   * 未適用のアクションが残っているか
+   */
+  hasNext(): boolean {
+    return this.position < this.replay.actions.length
+  }
+
+  /**
+   * 次のアクションを1件適用する
+   * @returns 適用したアクション（すべて適用済みの場合はundefined）
+   * @throws {Error} アクションを適用できなかった場合（何手目かを含む）
+   */
+  async step(): Promise<GameAction | undefined> {
+    const action = this.replay.actions[this.position]
+    if (!action) return undefined
+
+    try {
+      await GameReplayer.applyAction(this.game, action)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Replay diverged at action #${this.position + 1} (${action.type}): ${reason}`)
+    }
+    this.position++
+    return action
+  }
+
+  /**
+   * 残りのアクションをすべて適用する
+   */
+  async runToEnd(): Promise<Game> {
+    while (this.hasNext()) {
+      await this.step()
+    }
+    return this.game
+  }
+
+  /**
+   * 現在のゲーム状態が記録時の最終状態と一致するか検証する
+   */
+  verify(): ReplayVerificationResult {
+    const differences = GameReplayer.compareSnapshots(this.replay.finalState, this.game.toSnapshot())
+    if (this.hasNext()) {
+      differences.unshift(`actions: ${this.replay.actions.length - this.position} not applied`)
+    }
+    return {
+      matches: differences.length === 0,
+      actionCount: this.position,
+      differences
+    }
+  }
+}
+
+/**
+ * 値を再帰的に比較し、異なるパスを記録する
+ */
+function collectDifferences(expected: unknown, actual: unknown, path: string, differences: string[]): void {
+  if (differences.length >= MAX_DIFFERENCES) return
+
+  if (typeof expected !== 'object' || expected === null || typeof actual !== 'object' || actual === null) {
+    if (expected !== actual) {
+      differences.push(`${path || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+    }
+    return
+  }
+
+  if (Array.isArray(expected) !== Array.isArray(actual)) {
+    differences.push(`${path}: type mismatch`)
+    return
+  }
+
+  const expectedRecord = expected as Record<string, unknown>
+  const actualRecord = actual as Record<string, unknown>
+  const keys = new Set([...Object.keys(expectedRecord), ...Object.keys(actualRecord)])
+  keys.forEach(key => {
+    if (VOLATILE_KEYS.has(key)) return
+    const childPath = Array.isArray(expected) ? `${path}[${key}]` : (path ? `${path}.${key}` : key)
+    collectDifferences(expectedRecord[key], actualRecord[key], childPath, differences)
+  })
+}
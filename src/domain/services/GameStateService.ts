@@ -18,6 +18,7 @@ export interface GameState {
   canResolveChallenge(): boolean
   canSelectCards(): boolean
   canEndTurn(): boolean
+  /** @deprecated 実行できるアクションは Game.getLegalActions() を使用 */
   getValidActions(): string[]
 }
 
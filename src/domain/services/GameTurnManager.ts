@@ -20,6 +20,7 @@ import type { Game } from '../entities/Game'
 import type { TurnResult } from '../types/game.types'
 import type { GameStageManager } from './GameStageManager'
 import type { InsuranceExpirationManager } from './InsuranceExpirationManager'
+import { EndlessModeService } from './EndlessModeService'
 
 export class GameTurnManager {
   constructor(
@@ -40,13 +41,20 @@ export class GameTurnManager {
    * 2. ターン数をインクリメント
    * 3. ステージ進行をチェック
    * 4. 保険期限を更新
-   * 5. カードをドロー
+   * 5. ライフイベントを引く
    */
   nextTurn(game: Game): TurnResult {
     this.validateGameState(game)
 
+    // ターン終了時のカード効果（手札を捨てる前の手元のカードから発動し、ドローは捨てた後に行う）
+    const turnEndEffects = game.resolveCardEffects('on_turn_end')
+
     // 手札をすべて捨て札に移動 (デッキ構築ゲームの基本ルール)
     game.cardManager.discardHand()
+    game.applyCardEffects(turnEndEffects)
+
+    // 選ばなかった報酬カードは見送り
+    game.rewardCardChoices = undefined
 
     game.turn++
     game.stats.turnsPlayed++
@@ -55,6 +63,12 @@ export class GameTurnManager {
     // ステージ進行の判定
     this.checkStageProgression(game)
 
+    // スキルのクールダウン・イベントの残りターンを進める
+    game.advanceCardEffects()
+
+    // エンドレスモードのレベル上昇
+    this.checkEndlessProgression(game)
+
     // 勝利条件のチェック
     this.checkVictoryCondition(game)
     if (game.status === 'victory') {
@@ -67,8 +81,11 @@ export class GameTurnManager {
     // 保険期限の更新
     const expirationResult = this.updateInsuranceExpirations(game)
 
+    // ダメージ・保険請求の履歴を保険料に反映
+    game.refreshRiskProfile()
+
     // 保険料の支払い logic (GameTurnManager or Game entity responsibility)
-    const insuranceCost = game.insuranceBurden
+    const insuranceCost = Math.max(0, game.insuranceBurden - turnEndEffects.premiumDiscount)
     if (insuranceCost > 0) {
       // 活力が足りる場合のみ支払う
       if (game.vitality > insuranceCost) {
@@ -104,8 +121,12 @@ export class GameTurnManager {
     // 回復型保険の効果を適用
     this.applyRecoveryInsuranceEffects(game)
 
+    // ターン開始時のライフイベント（選択肢のあるイベントは選択待ちになる）
+    const lifeEvent = game.drawLifeEvent()
+
     return {
       ...(expirationResult ? { insuranceExpirations: expirationResult } : {}),
+      ...(lifeEvent ? { lifeEvent } : {}),
       newExpiredCount: expirationResult?.expiredCards.length || 0,
       remainingInsuranceCount: game.getActiveInsurances().length
     }
@@ -114,10 +135,14 @@ export class GameTurnManager {
   /**
    * 勝利条件をチェック
    * 勝利条件: 夢チャレンジをクリアした場合のみ（Game.tsのresolveChallengeで判定）
-   * 敗北条件: 最大ターン数に達しても夢を達成できなかった場合
+   * 敗北条件: 最大ターン数に達しても夢を達成できなかった場合（エンドレスモードはターン数の上限なし）
    * @private
    */
   private checkVictoryCondition(game: Game): void {
+    if (game.isEndlessMode()) {
+      return
+    }
+
     // 最大ターン数（夢を達成できなければゲームオーバー）
     // 夢達成には時間がかかるため、少し長めに設定
     const maxTurns = 100
@@ -160,6 +185,21 @@ export class GameTurnManager {
     }
   }
 
+  /**
+   * エンドレスレベルが上がったターンに老化カードを加え、保険料を再計算
+   * チャレンジの必要パワーはデッキ補充時にGameが現在のレベルで調整する
+   * @private
+   */
+  private checkEndlessProgression(game: Game): void {
+    if (!game.isEndlessMode() || !EndlessModeService.isLevelUpTurn(game.turn)) {
+      return
+    }
+
+    game.addEndlessAgingCards()
+    ;(game as any).updateInsuranceBurden()
+    console.log(`♾️ エンドレスレベル${game.getEndlessLevel()}: チャレンジと保険料が厳しくなりました`)
+  }
+
   /**
    * 保険期限を更新
    * @private
@@ -0,0 +1,180 @@
+import type { Card } from '../entities/Card'
+import type {
+  GameStage,
+  InsurancePayout,
+  InsurancePayoutEffect,
+  InsuranceTriggerType
+} from '../types/card.types'
+
+/**
+ * 保険の発動を判定するための出来事
+ */
+export interface InsuranceTriggerEvent {
+  type: InsuranceTriggerType
+  damage?: number // 受けようとしているダメージ
+  stage?: GameStage // 移行先のステージ
+  consecutiveFailures?: number // 現在の連続失敗回数
+  challenge?: Card // 失敗したチャレンジ
+}
+
+/**
+ * 保険カードが出来事で発動するかを判定する
+ */
+export type InsuranceTriggerMatcher = (insurance: Card, event: InsuranceTriggerEvent) => boolean
+
+/**
+ * 支払額を計算するための状況
+ */
+export interface InsurancePayoutContext {
+  damage?: number // 保留中のダメージ
+  startingHandSize: number
+}
+
+/**
+ * 支払い効果の既定の基準額と上限を決める
+ */
+export interface InsurancePayoutRule {
+  defaultAmount(context: InsurancePayoutContext): number
+  maxAmount?(context: InsurancePayoutContext): number
+  describe(amount: number): string
+}
+
+/**
+ * 請求前に提示する支払い見込み
+ */
+export interface InsurancePayoutQuote {
+  effect: InsurancePayoutEffect
+  baseAmount: number // 一部支払い・免責の前の基準額
+  payoutRatio: number
+  deductible: number
+  amount: number // 実際の支払額
+  description: string
+}
+
+/**
+ * 保険請求レジストリ
+ *
+ * トリガー型保険の発動条件（InsuranceTriggerType）ごとの判定と、支払い効果ごとの支払額の計算を登録する。
+ * 保険カードは insuranceTrigger・insurancePayout で条件と支払い内容を宣言し、
+ * 省略した項目は発動条件ごとの既定値を使う（支払いの適用はGameが行う）。
+ */
+export class InsuranceClaimRegistry {
+  // 発動条件ごとの既定の閾値
+  static readonly DEFAULT_DAMAGE_THRESHOLD = 10
+  static readonly DEFAULT_CONSECUTIVE_FAILURES = 3
+
+  // 発動条件ごとの既定の支払い内容（従来の固定効果と同じ）
+  static readonly DEFAULT_PAYOUTS: Record<InsuranceTriggerType, InsurancePayout> = {
+    on_death: { effect: 'heal', amount: 10 },
+    on_heavy_damage: { effect: 'reduce_damage' },
+    on_aging_gameover: { effect: 'redraw_hand' },
+    on_demand: { effect: 'skip_challenge' },
+    on_stage_change: { effect: 'heal', amount: 5 },
+    on_consecutive_failures: { effect: 'heal', amount: 10 },
+    on_challenge_category: { effect: 'reduce_damage' }
+  }
+
+  private static readonly triggers = new Map<InsuranceTriggerType, InsuranceTriggerMatcher>([
+    ['on_death', () => true],
+    ['on_heavy_damage', (insurance, event) =>
+      (event.damage ?? 0) >= (insurance.insuranceTrigger?.damageThreshold ?? InsuranceClaimRegistry.DEFAULT_DAMAGE_THRESHOLD)],
+    ['on_aging_gameover', () => true],
+    ['on_demand', () => true],
+    ['on_stage_change', (insurance, event) => {
+      const stage = insurance.insuranceTrigger?.stage
+      return stage === undefined || stage === event.stage
+    }],
+    ['on_consecutive_failures', (insurance, event) =>
+      (event.consecutiveFailures ?? 0) >= (insurance.insuranceTrigger?.consecutiveFailures ?? InsuranceClaimRegistry.DEFAULT_CONSECUTIVE_FAILURES)],
+    ['on_challenge_category', (insurance, event) => {
+      const category = insurance.insuranceTrigger?.challengeCategory
+      return (event.damage ?? 0) > 0 && category !== undefined && category === event.challenge?.dreamCategory
+    }]
+  ])
+
+  private static readonly payoutRules = new Map<InsurancePayoutEffect, InsurancePayoutRule>([
+    ['heal', {
+      defaultAmount: () => 0,
+      describe: amount => `活力を${amount}回復`
+    }],
+    // 既定では1ダメージだけ残す（従来の医療保険）
+    ['reduce_damage', {
+      defaultAmount: context => Math.max(0, (context.damage ?? 0) - 1),
+      maxAmount: context => context.damage ?? 0,
+      describe: amount => `ダメージを${amount}軽減`
+    }],
+    ['redraw_hand', {
+      defaultAmount: context => context.startingHandSize,
+      describe: amount => `手札を捨てて${amount}枚引き直す`
+    }],
+    ['skip_challenge', {
+      defaultAmount: () => 0,
+      describe: () => '現在のチャレンジをスキップ'
+    }]
+  ])
+
+  /**
+   * 発動条件の判定を登録（同じ条件は上書き）
+   */
+  static registerTrigger(type: InsuranceTriggerType, matcher: InsuranceTriggerMatcher): void {
+    this.triggers.set(type, matcher)
+  }
+
+  /**
+   * 支払い効果の計算を登録（同じ効果は上書き）
+   */
+  static registerPayoutRule(effect: InsurancePayoutEffect, rule: InsurancePayoutRule): void {
+    this.payoutRules.set(effect, rule)
+  }
+
+  /**
+   * 保険カードが出来事で発動するか
+   */
+  static matches(insurance: Card, event: InsuranceTriggerEvent): boolean {
+    if (insurance.insuranceTriggerType !== event.type) {
+      return false
+    }
+    const matcher = this.triggers.get(event.type)
+    return matcher ? matcher(insurance, event) : false
+  }
+
+  /**
+   * 保険カードの支払い内容（宣言がなければ発動条件ごとの既定値）
+   */
+  static getPayout(insurance: Card, triggerType: InsuranceTriggerType): InsurancePayout {
+    return insurance.insurancePayout ?? this.DEFAULT_PAYOUTS[triggerType]
+  }
+
+  /**
+   * 支払い見込みを計算
+   */
+  static calculatePayout(
+    insurance: Card,
+    triggerType: InsuranceTriggerType,
+    context: InsurancePayoutContext
+  ): InsurancePayoutQuote {
+    const payout = this.getPayout(insurance, triggerType)
+    const rule = this.payoutRules.get(payout.effect)
+    if (!rule) {
+      throw new Error(`Unknown insurance payout effect: ${payout.effect}`)
+    }
+
+    const baseAmount = payout.amount
+      ?? (payout.coverageRate !== undefined
+        ? Math.floor((insurance.coverage ?? 0) * payout.coverageRate)
+        : rule.defaultAmount(context))
+    const payoutRatio = payout.payoutRatio ?? 1
+    const deductible = payout.deductible ?? 0
+    const maxAmount = rule.maxAmount?.(context) ?? Infinity
+    const amount = Math.min(maxAmount, Math.max(0, Math.floor(baseAmount * payoutRatio) - deductible))
+
+    return {
+      effect: payout.effect,
+      baseAmount,
+      payoutRatio,
+      deductible,
+      amount,
+      description: rule.describe(amount)
+    }
+  }
+}
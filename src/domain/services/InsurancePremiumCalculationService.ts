@@ -39,6 +39,12 @@ export class InsurancePremiumCalculationService {
     'travel': 0.3          // 旅行保険: 70%安
   }
 
+  /**
+   * 新規契約・更新時に支払う最低保険料
+   * 段階ごとの切り捨てで保険料が0になり、無料で契約できてしまうのを防ぐ
+   */
+  static readonly MINIMUM_CONTRACT_PREMIUM = 1
+
   /**
    * 年齢調整済み保険料を計算
    * 
@@ -66,29 +72,21 @@ export class InsurancePremiumCalculationService {
     stage: GameStage,
     riskProfile?: RiskProfile
   ): InsurancePremium {
-    if (card.type !== 'insurance') {
-      throw new Error('Card must be an insurance card')
-    }
-
-    // 基本保険料取得
-    const basePremium = card.getCost()
-
-    // 年齢調整
-    const ageAdjustedPremium = this.calculateAgeAdjustedPremium(basePremium, stage)
-
-    // 保険種別調整
-    const typeAdjustedPremium = this.applyInsuranceTypeAdjustment(ageAdjustedPremium, card.insuranceType)
-
-    // カバレッジ調整
-    const coverageAdjustedPremium = this.applyCoverageAdjustment(typeAdjustedPremium, card.coverage)
-
-    // リスクプロファイル調整
-    if (riskProfile) {
-      const riskMultiplier = this.calculateRiskAdjustment(riskProfile, card.insuranceType)
-      return coverageAdjustedPremium.applyMultiplier(riskMultiplier)
-    }
+    return this.applyAdjustments(card, this.getComprehensiveAdjustments(card, stage, riskProfile))
+  }
 
-    return coverageAdjustedPremium
+  /**
+   * 新規契約時の保険料を内訳付きで計算
+   * 
+   * 金額は calculateComprehensivePremium と同じ（最低保険料を下回る場合は最低保険料）
+   * 
+   * @param card 保険カード
+   * @param stage プレイヤーの現在ステージ
+   * @param riskProfile プレイヤーのリスクプロファイル（オプション）
+   * @returns 保険料の内訳
+   */
+  calculatePremiumBreakdown(card: Card, stage: GameStage, riskProfile?: RiskProfile): PremiumBreakdown {
+    return this.createBreakdown(card, this.getComprehensiveAdjustments(card, stage, riskProfile))
   }
 
   /**
@@ -132,20 +130,36 @@ export class InsurancePremiumCalculationService {
    * @param card 更新対象の保険カード
    * @param currentStage 現在のステージ
    * @param usageHistory 使用履歴（使用回数）
+   * @param riskProfile プレイヤーのリスクプロファイル（オプション）
    * @returns 更新時保険料
    */
-  calculateRenewalPremium(card: Card, currentStage: GameStage, usageHistory: number): InsurancePremium {
-    // 基本更新料金
-    const basePremium = this.calculateComprehensivePremium(card, currentStage)
-
-    // 継続割引適用（長期継続者優遇）
-    const continuityDiscount = this.calculateContinuityDiscount(usageHistory)
-    const discountedPremium = basePremium.applyDiscount(continuityDiscount)
-
-    // 使用実績による調整（リスク評価）
-    const riskMultiplier = this.calculateRiskMultiplier(usageHistory)
+  calculateRenewalPremium(
+    card: Card,
+    currentStage: GameStage,
+    usageHistory: number,
+    riskProfile?: RiskProfile
+  ): InsurancePremium {
+    return this.applyAdjustments(card, this.getRenewalAdjustments(card, currentStage, usageHistory, riskProfile))
+  }
 
-    return discountedPremium.applyMultiplier(riskMultiplier)
+  /**
+   * 保険更新時の料金を内訳付きで計算
+   * 
+   * 金額は calculateRenewalPremium と同じ（最低保険料を下回る場合は最低保険料）
+   * 
+   * @param card 更新対象の保険カード
+   * @param currentStage 現在のステージ
+   * @param usageHistory 使用履歴（保険請求の回数）
+   * @param riskProfile プレイヤーのリスクプロファイル（オプション）
+   * @returns 保険料の内訳
+   */
+  calculateRenewalPremiumBreakdown(
+    card: Card,
+    currentStage: GameStage,
+    usageHistory: number,
+    riskProfile?: RiskProfile
+  ): PremiumBreakdown {
+    return this.createBreakdown(card, this.getRenewalAdjustments(card, currentStage, usageHistory, riskProfile))
   }
 
   /**
@@ -176,37 +190,114 @@ export class InsurancePremiumCalculationService {
   }
 
   /**
-   * 保険種別調整を適用
+   * 総合保険料の調整項目（年齢・保険種別・カバレッジ・リスク）
    * @private
    */
-  private applyInsuranceTypeAdjustment(
-    premium: InsurancePremium,
-    insuranceType?: InsuranceType
-  ): InsurancePremium {
+  private getComprehensiveAdjustments(card: Card, stage: GameStage, riskProfile?: RiskProfile): PremiumAdjustmentStep[] {
+    if (card.type !== 'insurance') {
+      throw new Error('Card must be an insurance card')
+    }
+
+    const steps: PremiumAdjustmentStep[] = [
+      { label: '年齢', multiplier: InsurancePremiumCalculationService.AGE_MULTIPLIERS[stage] || 1.0 },
+      { label: '保険種別', multiplier: this.getInsuranceTypeRate(card.insuranceType) },
+      { label: '保障額', multiplier: this.getCoverageMultiplier(card.coverage) }
+    ]
+
+    if (riskProfile) {
+      steps.push({ label: 'リスク', multiplier: this.calculateRiskAdjustment(riskProfile, card.insuranceType) })
+    }
+
+    return steps
+  }
+
+  /**
+   * 更新時の調整項目（総合保険料 + 継続割引 + 使用実績）
+   * @private
+   */
+  private getRenewalAdjustments(
+    card: Card,
+    stage: GameStage,
+    usageHistory: number,
+    riskProfile?: RiskProfile
+  ): PremiumAdjustmentStep[] {
+    return [
+      ...this.getComprehensiveAdjustments(card, stage, riskProfile),
+      // 継続割引（長期継続者優遇）
+      { label: '継続割引', discountRate: this.calculateContinuityDiscount(usageHistory) },
+      // 使用実績による調整（リスク評価）
+      { label: '請求実績', multiplier: this.calculateRiskMultiplier(usageHistory) }
+    ]
+  }
+
+  /**
+   * 基本保険料に調整項目を順に適用
+   * @private
+   */
+  private applyAdjustments(card: Card, steps: PremiumAdjustmentStep[]): InsurancePremium {
+    return steps.reduce((premium, step) => this.applyStep(premium, step), card.getCost())
+  }
+
+  /**
+   * 調整項目を1つ適用
+   * @private
+   */
+  private applyStep(premium: InsurancePremium, step: PremiumAdjustmentStep): InsurancePremium {
+    return step.discountRate !== undefined
+      ? premium.applyDiscount(step.discountRate)
+      : premium.applyMultiplier(step.multiplier ?? 1.0)
+  }
+
+  /**
+   * 調整項目ごとの保険料を記録した内訳を作成
+   * @private
+   */
+  private createBreakdown(card: Card, steps: PremiumAdjustmentStep[]): PremiumBreakdown {
+    const basePremium = card.getCost().getValue()
+    let premium = card.getCost()
+    const adjustments = steps.map((step): PremiumAdjustment => {
+      premium = this.applyStep(premium, step)
+      return {
+        label: step.label,
+        multiplier: step.discountRate !== undefined ? 1 - step.discountRate : step.multiplier ?? 1.0,
+        premium: premium.getValue()
+      }
+    })
+
+    const adjustedPremium = adjustments.at(-1)?.premium ?? basePremium
+    return {
+      basePremium,
+      adjustments,
+      minimumApplied: adjustedPremium < InsurancePremiumCalculationService.MINIMUM_CONTRACT_PREMIUM,
+      total: Math.max(adjustedPremium, InsurancePremiumCalculationService.MINIMUM_CONTRACT_PREMIUM)
+    }
+  }
+
+  /**
+   * 保険種別による料率を取得
+   * @private
+   */
+  private getInsuranceTypeRate(insuranceType?: InsuranceType): number {
     if (!insuranceType) {
-      return premium
+      return 1.0
     }
 
-    const typeRate = InsurancePremiumCalculationService.INSURANCE_TYPE_RATES[insuranceType] || 1.0
-    return premium.applyMultiplier(typeRate)
+    return InsurancePremiumCalculationService.INSURANCE_TYPE_RATES[insuranceType] || 1.0
   }
 
   /**
-   * カバレッジ調整を適用
+   * カバレッジによる倍率を取得
    * @private
    */
-  private applyCoverageAdjustment(premium: InsurancePremium, coverage?: number): InsurancePremium {
+  private getCoverageMultiplier(coverage?: number): number {
     if (!coverage || coverage <= 0) {
       // カバレッジ0の場合は基本料金の50%割引
-      return premium.applyMultiplier(0.5)
+      return 0.5
     }
 
-    // カバレッジ調整
     // カバレッジ200を基準（1.0倍）として、緩やかに変動させる
     // 以前の計算式 (coverage / 50) は過度な負担を生んでいたため修正
-    const coverageMultiplier = 0.5 + (coverage / 400)
-
-    return premium.applyMultiplier(coverageMultiplier)
+    return 0.5 + (coverage / 400)
   }
 
   /**
@@ -393,6 +484,34 @@ export class InsurancePremiumCalculationService {
   }
 }
 
+/**
+ * 保険料の調整項目（内部計算用）
+ */
+interface PremiumAdjustmentStep {
+  label: string
+  multiplier?: number
+  discountRate?: number // 割引として適用する場合の割引率
+}
+
+/**
+ * 保険料の調整項目ごとの金額
+ */
+export interface PremiumAdjustment {
+  label: string
+  multiplier: number // 掛けた倍率（割引は 1 - 割引率）
+  premium: number // 適用後の保険料
+}
+
+/**
+ * 保険料の内訳
+ */
+export interface PremiumBreakdown {
+  basePremium: number // カードの基本コスト
+  adjustments: PremiumAdjustment[] // 適用順の調整項目
+  minimumApplied: boolean // 最低保険料に引き上げた
+  total: number // 支払う保険料
+}
+
 /**
  * プレイヤー履歴インターフェース
  */
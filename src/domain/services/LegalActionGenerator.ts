@@ -0,0 +1,115 @@
+import type { Game } from '../entities/Game'
+import type { GameAction } from '../types/game.types'
+import { AVAILABLE_CHARACTERS } from '../types/game.types'
+import { BALANCE_CONSTANTS } from '../constants/GameConstants'
+
+/**
+ * 現在の状態で実行できるアクションの生成
+ *
+ * ボット・画面のボタン・テストが同じ判定を使えるよう、フェーズと保留中の選択から
+ * Game.apply()でそのまま実行できるアクションを列挙する。
+ * 保険請求とライフイベントの選択は他の操作より先に済ませる必要がある。
+ */
+export class LegalActionGenerator {
+  /**
+   * 実行できるアクションの一覧
+   */
+  static getLegalActions(game: Game): GameAction[] {
+    if (game.status === 'not_started') {
+      return [{ type: 'start' }]
+    }
+    if (game.status !== 'in_progress') {
+      return []
+    }
+
+    if (game.pendingInsuranceClaim) {
+      return [{ type: 'accept_insurance_claim' }, { type: 'decline_insurance_claim' }]
+    }
+    if (game.pendingLifeEvent) {
+      return (game.pendingLifeEvent.choices ?? []).map((_, choiceIndex) => ({ type: 'choose_life_event', choiceIndex }))
+    }
+
+    switch (game.phase) {
+      case 'character_selection':
+        return AVAILABLE_CHARACTERS
+          .filter(character => !character.requiredFeature || game.isFeatureUnlocked(character.requiredFeature))
+          .map(character => ({ type: 'select_character', characterId: character.id }))
+      case 'dream_selection':
+        return this.choiceIndexes(game.cardChoices).map(choiceIndex => ({ type: 'select_dream', choiceIndex }))
+      case 'draw':
+        return [{ type: 'start_challenge_phase' }]
+      case 'challenge_choice':
+        return this.choiceIndexes(game.cardChoices).map(choiceIndex => ({ type: 'start_challenge', choiceIndex }))
+      case 'challenge':
+        return this.getChallengeActions(game)
+      case 'card_selection':
+        return this.choiceIndexes(game.cardChoices).map(choiceIndex => ({ type: 'select_card', choiceIndex }))
+      case 'insurance_type_selection':
+        return [
+          ...(game.insuranceTypeChoices ?? []).flatMap(choice => [
+            { type: 'select_insurance_type', insuranceType: choice.insuranceType, durationType: 'term' } as const,
+            { type: 'select_insurance_type', insuranceType: choice.insuranceType, durationType: 'whole_life' } as const
+          ]),
+          { type: 'skip_insurance_selection' },
+          ...this.getRewardCardActions(game)
+        ]
+      case 'resolution':
+        return [
+          ...this.getRewardCardActions(game),
+          ...this.getRenewalActions(game),
+          { type: 'next_turn' }
+        ]
+      default:
+        return []
+    }
+  }
+
+  /**
+   * チャレンジ中のアクション
+   * 課題を選んだ直後は手札を引くことだけができる（各画面が課題の選択に続けて行う操作）
+   */
+  private static getChallengeActions(game: Game): GameAction[] {
+    if (game.lastAction?.type === 'start_challenge') {
+      return [{ type: 'draw_cards', count: BALANCE_CONSTANTS.CARD_LIMITS.challengeDrawCount }]
+    }
+
+    return [
+      ...game.hand.map((_, handIndex) => ({ type: 'toggle_card_selection', handIndex }) as const),
+      { type: 'resolve_challenge' },
+      // 就業不能保険などはチャレンジを見送るために使える
+      ...game.availableOnDemandInsurances.map(insurance => ({
+        type: 'trigger_insurance_claim',
+        insuranceIndex: game.activeInsurances.indexOf(insurance),
+        triggerType: 'on_demand'
+      }) as const)
+    ]
+  }
+
+  /**
+   * 報酬カードの獲得・見送り（フェーズを変えないため保険選択の前後どちらでも行える）
+   */
+  private static getRewardCardActions(game: Game): GameAction[] {
+    if (!game.rewardCardChoices?.length) return []
+    return [
+      ...this.choiceIndexes(game.rewardCardChoices).map(choiceIndex => ({ type: 'select_reward_card', choiceIndex }) as const),
+      { type: 'skip_reward_card' }
+    ]
+  }
+
+  /**
+   * 残り1ターン以内の定期保険の更新（活力で更新料を払える場合のみ）
+   * 更新しない場合はそのままターンを終える
+   */
+  private static getRenewalActions(game: Game): GameAction[] {
+    return game.activeInsurances.flatMap((insurance, insuranceIndex) =>
+      insurance.isTermInsurance()
+        && (insurance.remainingTurns ?? 0) <= 1
+        && game.vitality >= game.getInsuranceRenewalCost(insurance)
+        ? [{ type: 'renew_insurance', insuranceIndex } as const]
+        : [])
+  }
+
+  private static choiceIndexes(choices: unknown[] | undefined): number[] {
+    return (choices ?? []).map((_, index) => index)
+  }
+}
@@ -1,4 +1,5 @@
 import type { GameStage } from '../types/card.types'
+import { PROGRESSION_FEATURES, type GameConfig, type PlayerStats } from '../types/game.types'
 import type { PlayerAchievements } from './AchievementSystemService'
 
 /**
@@ -35,6 +36,29 @@ export interface PlayerProgression {
   favoriteStrategy: string
 }
 
+/**
+ * 1ゲーム分の結果（経験値の計算に使う）
+ */
+export interface CompletedGameSummary {
+  outcome: 'victory' | 'game_over'
+  stats: PlayerStats
+  playTimeMinutes: number
+  bestStreak: number
+  achievementExperience: number // このゲームで解除したアチーブメントの経験値
+  experienceMultiplier?: number // 日替りチャレンジなどの経験値倍率
+  bonusExperience?: number // チャレンジ報酬などの追加経験値（倍率・レベル補正なし）
+}
+
+/**
+ * ゲーム終了時の進行更新結果
+ */
+export interface GameCompletionResult {
+  updatedProgression: PlayerProgression
+  experienceGained: number
+  levelUps: LevelUpReward[]
+  newLevel: number
+}
+
 /**
  * プレイヤー進行システムサービス
  * レベル、経験値、スキルポイントの管理を担当
@@ -81,15 +105,15 @@ export class PlayerProgressionService {
    * レベルアップ報酬テーブル
    */
   private static readonly LEVEL_REWARDS: LevelUpReward[] = [
-    { level: 2, vitalityBonus: 5, skillPoints: 1 },
-    { level: 3, vitalityBonus: 5, unlockedFeatures: ['スキルカード'] },
-    { level: 4, vitalityBonus: 5, skillPoints: 1 },
-    { level: 5, vitalityBonus: 10, unlockedFeatures: ['コンボシステム'], skillPoints: 2 },
+    { level: 2, vitalityBonus: 5, unlockedFeatures: [PROGRESSION_FEATURES.adventurer], skillPoints: 1 },
+    { level: 3, vitalityBonus: 5, unlockedFeatures: [PROGRESSION_FEATURES.skillCards] },
+    { level: 4, vitalityBonus: 5, unlockedFeatures: [PROGRESSION_FEATURES.minimalist], skillPoints: 1 },
+    { level: 5, vitalityBonus: 10, unlockedFeatures: [PROGRESSION_FEATURES.comboCards], skillPoints: 2 },
     { level: 6, vitalityBonus: 5, skillPoints: 1 },
-    { level: 7, vitalityBonus: 5, skillPoints: 1 },
+    { level: 7, vitalityBonus: 5, unlockedFeatures: [PROGRESSION_FEATURES.riskChallenges], skillPoints: 1 },
     { level: 8, vitalityBonus: 5, skillPoints: 1 },
     { level: 9, vitalityBonus: 5, skillPoints: 1 },
-    { level: 10, vitalityBonus: 15, unlockedFeatures: ['イベントカード'], skillPoints: 3 },
+    { level: 10, vitalityBonus: 15, unlockedFeatures: [PROGRESSION_FEATURES.eventCards], skillPoints: 3 },
     { level: 11, vitalityBonus: 5, skillPoints: 1 },
     { level: 12, vitalityBonus: 5, skillPoints: 1 },
     { level: 13, vitalityBonus: 5, skillPoints: 1 },
@@ -104,7 +128,7 @@ export class PlayerProgressionService {
     { level: 22, vitalityBonus: 5, skillPoints: 1 },
     { level: 23, vitalityBonus: 5, skillPoints: 1 },
     { level: 24, vitalityBonus: 5, skillPoints: 1 },
-    { level: 25, vitalityBonus: 30, unlockedFeatures: ['レジェンダリーカード'], skillPoints: 6 },
+    { level: 25, vitalityBonus: 30, unlockedFeatures: [PROGRESSION_FEATURES.legendaryCards], skillPoints: 6 },
     { level: 26, vitalityBonus: 5, skillPoints: 1 },
     { level: 27, vitalityBonus: 5, skillPoints: 1 },
     { level: 28, vitalityBonus: 5, skillPoints: 1 },
@@ -112,6 +136,23 @@ export class PlayerProgressionService {
     { level: 30, vitalityBonus: 50, unlockedFeatures: ['マスターモード'], skillPoints: 10 }
   ]
 
+  /**
+   * 初期状態から解放済みの機能
+   */
+  private static readonly INITIAL_FEATURES: string[] = ['基本カード']
+
+  /**
+   * ゲーム内の活力ボーナスへの換算率
+   * レベル報酬の活力ボーナスは最大で数百になるため、1/10にして最大活力（50〜60）と釣り合わせる
+   */
+  private static readonly GAME_VITALITY_BONUS_RATIO = 0.1
+
+  /**
+   * ゲーム結果から得る経験値の基本値
+   */
+  private static readonly CHALLENGE_SUCCESS_EXPERIENCE = 10
+  private static readonly VICTORY_EXPERIENCE = 100
+
   /**
    * 経験値を追加してレベルアップを処理
    */
@@ -198,6 +239,98 @@ export class PlayerProgressionService {
       .reduce((sum, reward) => sum + reward.vitalityBonus, 0)
   }
 
+  /**
+   * ゲーム内で使う活力ボーナスを計算
+   */
+  static calculateGameVitalityBonus(level: number): number {
+    return Math.floor(this.calculateVitalityBonus(level) * this.GAME_VITALITY_BONUS_RATIO)
+  }
+
+  /**
+   * レベルに応じたゲーム開始時の補正を作成
+   * GameConfigに重ねて使う
+   */
+  static createGameBonuses(progression: PlayerProgression): Required<Pick<GameConfig, 'vitalityBonus' | 'unlockedFeatures'>> {
+    return {
+      vitalityBonus: this.calculateGameVitalityBonus(progression.level.currentLevel),
+      unlockedFeatures: [...progression.unlockedFeatures]
+    }
+  }
+
+  /**
+   * レベルまでに解放される機能を取得
+   */
+  static getUnlockedFeatures(level: number): string[] {
+    return [
+      ...this.INITIAL_FEATURES,
+      ...this.LEVEL_REWARDS
+        .filter(reward => reward.level <= level)
+        .flatMap(reward => reward.unlockedFeatures || [])
+    ]
+  }
+
+  /**
+   * 機能が解放されるレベルを取得
+   * @returns 初期状態から解放済みなら1、どのレベルでも解放されない場合はundefined
+   */
+  static getFeatureUnlockLevel(feature: string): number | undefined {
+    if (this.INITIAL_FEATURES.includes(feature)) return 1
+    return this.LEVEL_REWARDS.find(reward => reward.unlockedFeatures?.includes(feature))?.level
+  }
+
+  /**
+   * 保存済みの進行データを復元
+   * レベルと解放機能は総経験値から再計算する（報酬テーブルの変更を既存プレイヤーにも反映する）
+   */
+  static restoreProgression(saved: PlayerProgression): PlayerProgression {
+    const level = this.calculatePlayerLevel(saved.level.totalExperience)
+    const features = this.getUnlockedFeatures(level.currentLevel)
+
+    return {
+      ...saved,
+      level,
+      unlockedFeatures: [...features, ...saved.unlockedFeatures.filter(feature => !features.includes(feature))]
+    }
+  }
+
+  /**
+   * ゲーム結果から獲得経験値を計算
+   */
+  static calculateGameExperience(summary: CompletedGameSummary, level: number): number {
+    const challengeExperience = this.calculateExperienceBonus(
+      summary.stats.successfulChallenges * this.CHALLENGE_SUCCESS_EXPERIENCE,
+      'challenge_success',
+      level
+    )
+    const victoryExperience = summary.outcome === 'victory'
+      ? this.calculateExperienceBonus(this.VICTORY_EXPERIENCE, 'survival', level)
+      : 0
+    const achievementExperience = this.calculateExperienceBonus(summary.achievementExperience, 'achievement', level)
+
+    const multiplier = summary.experienceMultiplier ?? 1
+    return Math.floor((challengeExperience + victoryExperience + achievementExperience) * multiplier) +
+      (summary.bonusExperience ?? 0)
+  }
+
+  /**
+   * ゲーム終了を進行データに反映
+   * 経験値・プレイ時間・プレイ回数・最高連続成功数をまとめて更新する
+   */
+  static completeGame(progression: PlayerProgression, summary: CompletedGameSummary): GameCompletionResult {
+    const experienceGained = this.calculateGameExperience(summary, progression.level.currentLevel)
+    const { updatedProgression, levelUps, newLevel } = this.addExperience(progression, experienceGained)
+
+    return {
+      updatedProgression: this.updatePlayTime(
+        this.updateGameStats(updatedProgression, summary.outcome === 'victory', summary.bestStreak),
+        summary.playTimeMinutes
+      ),
+      experienceGained,
+      levelUps,
+      newLevel
+    }
+  }
+
   /**
    * 機能がアンロックされているかチェック
    */
@@ -290,7 +423,7 @@ export class PlayerProgressionService {
         totalExperience: 0
       },
       skillPoints: 0,
-      unlockedFeatures: ['基本カード'],
+      unlockedFeatures: [...this.INITIAL_FEATURES],
       playTime: 0,
       gamesPlayed: 0,
       bestStreak: 0,
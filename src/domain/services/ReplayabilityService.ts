@@ -1,9 +1,11 @@
 import { Card } from '../entities/Card'
 import { CardFactory } from './CardFactory'
 import type { Difficulty, GameStage, SkillRarity } from '../types/card.types'
+import type { GameConfig } from '../types/game.types'
 import type { PlayerProgression } from './PlayerProgressionService'
 import type { PlayerAchievements } from './AchievementSystemService'
 import type { DynamicDifficulty } from './DifficultyBalanceService'
+import { defaultRandom, pickRandom, pickWeighted, type RandomSource } from '../../common/SeededRandom'
 
 /**
  * プレイモード
@@ -45,6 +47,15 @@ export interface DailyChallenge {
   bestScore?: number
 }
 
+/**
+ * 日替り・週替りチャレンジの1回分のプレイ結果
+ */
+export interface ChallengeAttempt {
+  outcome: 'victory' | 'game_over'
+  score: number
+  elapsedSeconds: number
+}
+
 /**
  * カスタムルールセット
  */
@@ -75,15 +86,33 @@ export interface RandomEvent {
   description: string
   type: 'beneficial' | 'neutral' | 'challenging'
   triggerCondition: string
-  effects: {
-    vitalityChange?: number
-    cardRewards?: Card[]
-    temporaryModifiers?: {
-      duration: number
-      effects: string[]
-    }
-  }
+  effects: RandomEventEffects
   rarity: 'common' | 'rare' | 'legendary'
+  stageWeights?: Partial<Record<GameStage, number>> // ライフイベントのステージごとの出やすさ（省略時は1）
+  choices?: LifeEventChoice[] // 選択肢のあるライフイベント
+}
+
+/**
+ * ランダムイベントの効果
+ */
+export interface RandomEventEffects {
+  vitalityChange?: number
+  cardRewards?: Card[]
+  temporaryModifiers?: {
+    duration: number
+    effects: string[] // 表示用の効果の説明
+    power?: number // 継続中、毎回のチャレンジに加わるパワー
+    vitalityPerTurn?: number // 継続中、ターン開始時の活力の増減
+  }
+}
+
+/**
+ * ライフイベントの選択肢
+ */
+export interface LifeEventChoice {
+  label: string
+  description: string
+  effects: RandomEventEffects
 }
 
 /**
@@ -145,7 +174,7 @@ export class ReplayabilityService {
         description: '保険カードを使わずにクリア',
         mode: 'challenge',
         rules: {
-          bannedCards: ['医療保険', '生命保険', '収入保障保険'],
+          bannedCards: ['じぶんへの保険', 'がん保険', 'はたらく人への保険'],
           modifiers: { vitalityMultiplier: 1.2 }
         },
         rewards: { experience: 600, title: '自力救済者' }
@@ -201,15 +230,17 @@ export class ReplayabilityService {
 
   /**
    * ランダムイベントを生成
+   * @param random 乱数源（ゲームのシード付き乱数を渡すと再現可能になる）
    */
   static generateRandomEvent(
     stage: GameStage,
     playerLevel: number,
-    difficulty: DynamicDifficulty
+    difficulty: DynamicDifficulty,
+    random: RandomSource = defaultRandom
   ): RandomEvent | null {
     // レベルが低いうちはイベント発生率を下げる
     const eventChance = Math.min(0.3, playerLevel * 0.02)
-    if (Math.random() > eventChance) {
+    if (random.next() > eventChance) {
       return null
     }
 
@@ -222,7 +253,165 @@ export class ReplayabilityService {
       return null
     }
 
-    return filteredEvents[Math.floor(Math.random() * filteredEvents.length)]
+    return pickRandom(random, filteredEvents) ?? null
+  }
+
+  /**
+   * ターン開始時のライフイベントを引く
+   * イベントはステージごとの重み（stageWeights）に比例した確率で選ぶ
+   * @param eventChance イベントが起きる確率
+   * @param random 乱数源（ゲームのシード付き乱数を渡すと再現可能になる）
+   */
+  static drawLifeEvent(
+    stage: GameStage,
+    eventChance: number,
+    random: RandomSource = defaultRandom
+  ): RandomEvent | null {
+    if (random.next() >= eventChance) {
+      return null
+    }
+    return pickWeighted(random, this.getLifeEventsPool(), event => event.stageWeights?.[stage] ?? 1) ?? null
+  }
+
+  /**
+   * IDからライフイベントを取得（保留中のイベントの復元用）
+   */
+  static getLifeEvent(id: string): RandomEvent | null {
+    return this.getLifeEventsPool().find(event => event.id === id) ?? null
+  }
+
+  /**
+   * ライフイベントプールを取得
+   */
+  private static getLifeEventsPool(): RandomEvent[] {
+    return [
+      {
+        id: 'marriage',
+        name: '結婚',
+        description: '大切な人からプロポーズの返事を求められた',
+        type: 'neutral',
+        triggerCondition: 'turn_start',
+        effects: {},
+        rarity: 'common',
+        stageWeights: { youth: 3, middle: 2, fulfillment: 0.5 },
+        choices: [
+          {
+            label: '結婚する',
+            description: '式の準備で疲れるが、しばらく家族の支えで力が湧く',
+            effects: {
+              vitalityChange: -5,
+              temporaryModifiers: { duration: 3, effects: ['家族の支え: チャレンジ+2'], power: 2 }
+            }
+          },
+          {
+            label: '今はまだ待つ',
+            description: '自分の時間を大切にして心に余裕を持つ',
+            effects: { vitalityChange: 3 }
+          }
+        ]
+      },
+      {
+        id: 'job_change',
+        name: '転職の誘い',
+        description: '条件の良い会社から声がかかった',
+        type: 'neutral',
+        triggerCondition: 'turn_start',
+        effects: {},
+        rarity: 'common',
+        stageWeights: { youth: 2, middle: 3, fulfillment: 1 },
+        choices: [
+          {
+            label: '転職する',
+            description: '慣れるまでは大変だが、新しいスキルが身につく',
+            effects: {
+              cardRewards: [Card.createSkillCard('新しい職場の経験', 'rare', 5)],
+              temporaryModifiers: { duration: 2, effects: ['新しい職場に慣れない: チャレンジ-2'], power: -2 }
+            }
+          },
+          {
+            label: '今の職場に残る',
+            description: '慣れた環境で着実に働く',
+            effects: { vitalityChange: 2 }
+          }
+        ]
+      },
+      {
+        id: 'illness',
+        name: '病気',
+        description: '体調を崩して医師に休養を勧められた',
+        type: 'challenging',
+        triggerCondition: 'turn_start',
+        effects: {},
+        rarity: 'common',
+        stageWeights: { youth: 1, middle: 2, fulfillment: 3 },
+        choices: [
+          {
+            label: '治療に専念する',
+            description: 'しばらく力は出ないが、少しずつ回復する',
+            effects: {
+              temporaryModifiers: { duration: 3, effects: ['療養中: チャレンジ-1・毎ターン活力+3'], power: -1, vitalityPerTurn: 3 }
+            }
+          },
+          {
+            label: '無理して働き続ける',
+            description: '仕事は止めずに済むが、体に大きな負担がかかる',
+            effects: { vitalityChange: -12 }
+          }
+        ]
+      },
+      {
+        id: 'inheritance',
+        name: '遺産相続',
+        description: '親族から財産を受け継ぐことになった',
+        type: 'beneficial',
+        triggerCondition: 'turn_start',
+        effects: {},
+        rarity: 'rare',
+        stageWeights: { youth: 0.5, middle: 1.5, fulfillment: 2.5 },
+        choices: [
+          {
+            label: '生活の備えにする',
+            description: '暮らしに余裕ができて心身が休まる',
+            effects: { vitalityChange: 10 }
+          },
+          {
+            label: '自己投資に使う',
+            description: '学び直しで新しい力を得る',
+            effects: { cardRewards: [Card.createSkillCard('学び直し', 'epic', 8)] }
+          }
+        ]
+      },
+      {
+        id: 'lucky_find',
+        name: '思わぬ発見',
+        description: '古い引き出しから忘れていた貯金を発見した',
+        type: 'beneficial',
+        triggerCondition: 'turn_start',
+        effects: { vitalityChange: 5 },
+        rarity: 'common'
+      },
+      {
+        id: 'minor_setback',
+        name: '小さなトラブル',
+        description: '予期しない出費が発生した',
+        type: 'challenging',
+        triggerCondition: 'turn_start',
+        effects: { vitalityChange: -3 },
+        rarity: 'common'
+      },
+      {
+        id: 'mentor_meeting',
+        name: '人生の師匠との出会い',
+        description: '経験豊富な先輩からアドバイスを受けた',
+        type: 'beneficial',
+        triggerCondition: 'turn_start',
+        effects: {
+          temporaryModifiers: { duration: 3, effects: ['師匠の助言: チャレンジ+1'], power: 1 }
+        },
+        rarity: 'rare',
+        stageWeights: { youth: 2, middle: 1, fulfillment: 0.5 }
+      }
+    ]
   }
 
   /**
@@ -503,11 +692,78 @@ export class ReplayabilityService {
     }
   }
 
+  /**
+   * チャレンジのゲームシードを取得
+   * 同じチャレンジ（同じ日付・週）なら誰でも同じカード展開になる
+   */
+  static getChallengeSeed(challenge: DailyChallenge): number {
+    return this.hashString(challenge.id)
+  }
+
+  /**
+   * チャレンジのルールをゲーム設定に変換
+   * 初期カード・禁止カード・報酬カードのレア度ボーナスはGameが適用し、活力倍率は初期活力に掛ける。
+   * 経験値倍率はゲーム終了時の経験値計算で使う
+   */
+  static createChallengeGameConfig(challenge: DailyChallenge, base: GameConfig): GameConfig {
+    const { startingCards, bannedCards, modifiers } = challenge.rules
+    const vitalityMultiplier = modifiers?.vitalityMultiplier ?? 1
+
+    return {
+      ...base,
+      startingVitality: Math.round(base.startingVitality * vitalityMultiplier),
+      seed: this.getChallengeSeed(challenge),
+      ...(startingCards ? { startingCards: [...startingCards] } : {}),
+      ...(bannedCards ? { bannedCards: [...bannedCards] } : {}),
+      ...(modifiers?.cardRarityBonus ? { rewardRarityBonus: modifiers.cardRarityBonus } : {})
+    }
+  }
+
+  /**
+   * チャレンジを開始状態にする（クリア済みならそのまま）
+   */
+  static startChallenge(challenge: DailyChallenge): DailyChallenge {
+    if (challenge.completionStatus === 'completed') return challenge
+    return { ...challenge, completionStatus: 'in_progress' }
+  }
+
+  /**
+   * プレイ結果をチャレンジに記録
+   * 制限時間内の勝利でクリア。一度クリアしたチャレンジは失敗しても未クリアに戻らない
+   */
+  static recordChallengeAttempt(challenge: DailyChallenge, attempt: ChallengeAttempt): DailyChallenge {
+    const { timeLimit } = challenge.rules
+    const withinTimeLimit = timeLimit === undefined || attempt.elapsedSeconds <= timeLimit
+    const cleared = attempt.outcome === 'victory' && withinTimeLimit
+
+    return {
+      ...challenge,
+      completionStatus: cleared || challenge.completionStatus === 'completed' ? 'completed' : 'failed',
+      bestScore: Math.max(challenge.bestScore ?? 0, attempt.score)
+    }
+  }
+
+  /**
+   * 週替りチャレンジの基準日（UTCの月曜日）を取得
+   */
+  static getWeekStart(date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+    return start
+  }
+
   /**
    * 日付からシード値を生成
    */
   private static dateSeed(date: Date): number {
-    const str = date.toISOString().split('T')[0]
+    return this.hashString(date.toISOString().slice(0, 10))
+  }
+
+  /**
+   * 文字列からシード値を生成
+   */
+  private static hashString(str: string): number {
     let hash = 0
     for (let i = 0; i < str.length; i++) {
       const char = str.charCodeAt(i)
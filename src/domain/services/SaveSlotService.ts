@@ -0,0 +1,83 @@
+import { Game } from '../entities/Game'
+import {
+  GAME_SNAPSHOT_VERSION,
+  type SaveData,
+  type SaveSlotPreview
+} from '../types/game.types'
+import type { DailyChallenge } from './ReplayabilityService'
+
+/**
+ * セーブスロットサービス
+ *
+ * ゲームをセーブデータ（スナップショットと一覧表示用の概要）に変換し、セーブデータからゲームを復元する。
+ * ターン終了ごとの自動セーブ用スロットと、プレイヤーが選んで保存する手動スロットを持つ。
+ * 保存先（IndexedDB・LocalStorage）はStorageAdapterが扱う。
+ */
+export class SaveSlotService {
+  // ターン終了時の自動セーブ先
+  static readonly AUTO_SAVE_SLOT = 'auto'
+  // 手動セーブのスロット
+  static readonly MANUAL_SAVE_SLOTS = ['1', '2', '3'] as const
+
+  /**
+   * ゲームからセーブデータを作成
+   * @param challenge 日替り・週替りチャレンジ中なら、そのチャレンジ（再開時にルールと進捗を引き継ぐ）
+   */
+  static createSaveData(game: Game, challenge?: DailyChallenge | null, now: Date = new Date()): SaveData {
+    const startedAt = game.startedAt?.getTime() ?? now.getTime()
+    return {
+      version: GAME_SNAPSHOT_VERSION,
+      gameState: game.toSnapshot(),
+      metadata: {
+        savedAt: now.toISOString(),
+        playtime: Math.max(0, now.getTime() - startedAt),
+        preview: this.createPreview(game),
+        ...(challenge ? { challenge } : {})
+      }
+    }
+  }
+
+  /**
+   * 一覧表示用の概要を作成
+   */
+  static createPreview(game: Game): SaveSlotPreview {
+    return {
+      stage: game.stage,
+      turn: game.turn,
+      phase: game.phase,
+      vitality: game.vitality,
+      maxVitality: game.maxVitality,
+      insurances: game.activeInsurances.map(insurance => insurance.name),
+      ...(game.selectedDream ? { dreamName: game.selectedDream.name } : {}),
+      isEndless: game.isEndlessMode()
+    }
+  }
+
+  /**
+   * セーブデータからゲームを復元
+   * @throws {Error} 形式バージョンが異なる場合
+   */
+  static restoreGame(saveData: SaveData): Game {
+    if (saveData.version !== GAME_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported save data version: ${saveData.version}`)
+    }
+    return Game.fromSnapshot(saveData.gameState)
+  }
+
+  /**
+   * 再開できるセーブデータか判定（終了したゲームは再開しない）
+   */
+  static isResumable(saveData: SaveData): boolean {
+    return saveData.version === GAME_SNAPSHOT_VERSION && saveData.gameState.status === 'in_progress'
+  }
+
+  /**
+   * 「続きから」で再開するセーブデータ（再開できるもののうち最も新しいもの）
+   */
+  static findLatest<T extends SaveData>(saves: T[]): T | undefined {
+    return saves
+      .filter(save => this.isResumable(save))
+      .reduce<T | undefined>((latest, save) =>
+        !latest || save.metadata.savedAt > latest.metadata.savedAt ? save : latest, undefined)
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { AchievementTracker, type AchievementUpdate } from '../AchievementTracker'
+import { AchievementSystemService } from '../AchievementSystemService'
+import type { ChallengeResult } from '../../types/game.types'
+
+describe('AchievementTracker - ライブゲームのアチーブメント記録', () => {
+  const createGame = () => new Game({
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 4242
+  })
+
+  const success = { success: true } as ChallengeResult
+  const failure = { success: false } as ChallengeResult
+
+  const findAchievement = (tracker: AchievementTracker, id: string) =>
+    tracker.getAchievements().achievements.find(achievement => achievement.id === id)!
+
+  it('ゲーム中のチャレンジ成功で初勝利を解除して通知する', async () => {
+    const game = createGame()
+    const tracker = new AchievementTracker()
+    const updates: AchievementUpdate[] = []
+    tracker.addListener(update => updates.push(update))
+    game.setAchievementTracker(tracker)
+
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+
+    // 成功するまでチャレンジを繰り返す
+    while (game.status === 'in_progress' && game.stats.successfulChallenges === 0 && game.turn <= 10) {
+      game.startChallengePhase()
+      game.startChallenge(game.cardChoices![0]!)
+      await game.drawCards(5)
+      game.hand.forEach(card => game.toggleCardSelection(card))
+      game.resolveChallenge()
+
+      if (game.pendingInsuranceClaim) {
+        await game.resolveInsuranceClaim()
+      }
+      if (game.insuranceTypeChoices?.length) {
+        game.selectInsuranceType(game.insuranceTypeChoices[0]!.insuranceType, 'term')
+      }
+      if (game.status !== 'in_progress') break
+      game.nextTurn()
+    }
+
+    expect(game.stats.successfulChallenges).toBeGreaterThan(0)
+    expect(updates.some(update => update.type === 'challenge')).toBe(true)
+    expect(updates.flatMap(update => update.newlyUnlocked).map(achievement => achievement.id)).toContain('first_victory')
+    expect(findAchievement(tracker, 'first_victory').unlockedAt).toBeInstanceOf(Date)
+  })
+
+  it('連続成功は失敗でリセットされる', () => {
+    const game = createGame()
+    const tracker = new AchievementTracker()
+
+    tracker.recordChallengeResult(game, success)
+    tracker.recordChallengeResult(game, success)
+    expect(findAchievement(tracker, 'challenge_streak_5').progress).toBe(2)
+
+    tracker.recordChallengeResult(game, failure)
+    expect(findAchievement(tracker, 'challenge_streak_5').progress).toBe(0)
+  })
+
+  it('解除済みのアチーブメントは再通知しない', () => {
+    const game = createGame()
+    game.stats.successfulChallenges = 1
+    const tracker = new AchievementTracker()
+
+    expect(tracker.recordChallengeResult(game, success).map(achievement => achievement.id)).toContain('first_victory')
+    expect(tracker.recordChallengeResult(game, success).map(achievement => achievement.id)).not.toContain('first_victory')
+  })
+
+  it('通算チャレンジ成功数は保存済みの進捗に加算する', () => {
+    const saved = AchievementSystemService.restorePlayerAchievements({ master_challenger: 40 }, [])
+    const game = createGame()
+    game.stats.successfulChallenges = 3
+    const tracker = new AchievementTracker(saved)
+
+    tracker.recordChallengeResult(game, success)
+
+    expect(findAchievement(tracker, 'master_challenger').progress).toBe(43)
+  })
+
+  it('読み込み前にこのゲームで解除したものは復元後も保持する', () => {
+    const game = createGame()
+    game.stats.successfulChallenges = 1
+    const tracker = new AchievementTracker()
+    tracker.recordChallengeResult(game, success)
+
+    tracker.restore(AchievementSystemService.restorePlayerAchievements(
+      { master_challenger: 20 },
+      [{ id: 'survivor', unlockedAt: '2026-01-01T00:00:00.000Z' }]
+    ))
+
+    expect(findAchievement(tracker, 'first_victory').isUnlocked).toBe(true)
+    expect(findAchievement(tracker, 'survivor').unlockedAt).toEqual(new Date('2026-01-01T00:00:00.000Z'))
+    expect(findAchievement(tracker, 'master_challenger').progress).toBe(20)
+  })
+
+  it('保存形式から経験値と永続ボーナスを再計算する', () => {
+    const restored = AchievementSystemService.restorePlayerAchievements(
+      { first_victory: 1, master_challenger: 999, removed_achievement: 3 },
+      [{ id: 'first_victory', unlockedAt: '2026-01-01T00:00:00.000Z' }]
+    )
+
+    const firstVictory = restored.achievements.find(achievement => achievement.id === 'first_victory')!
+    const masterChallenger = restored.achievements.find(achievement => achievement.id === 'master_challenger')!
+    expect(firstVictory.isUnlocked).toBe(true)
+    expect(masterChallenger.isUnlocked).toBe(false)
+    expect(masterChallenger.progress).toBe(masterChallenger.maxProgress)
+    expect(restored.totalExperience).toBe(firstVictory.reward.experience)
+    expect(restored.achievements.some(achievement => achievement.id === 'removed_achievement')).toBe(false)
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { Card } from '../../entities/Card'
+import { CardEffectEngine, type CardEffectContext } from '../CardEffectEngine'
+import type { CardEffect, LifeCardCategory } from '../../types/card.types'
+import type { GameConfig } from '../../types/game.types'
+
+describe('CardEffectEngine - カード効果エンジン', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 2024
+  }
+
+  const createCard = (name: string, effects: CardEffect[], category: LifeCardCategory = 'career', power = 1) => new Card({
+    id: `effect-${name}`,
+    name,
+    description: name,
+    type: 'life',
+    category,
+    power,
+    cost: 0,
+    effects
+  })
+
+  const context = (overrides: Partial<CardEffectContext> = {}): CardEffectContext => ({
+    vitality: 40,
+    maxVitality: 100,
+    turn: 3,
+    stage: 'youth',
+    insuranceCount: 1,
+    handSize: 5,
+    playedCards: [],
+    ...overrides
+  })
+
+  const createStartedGame = async () => {
+    const game = new Game(config)
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    return game
+  }
+
+  it('発動条件は比較・キーワード・タイミング指定を && で組み合わせられる', () => {
+    const challenge = Card.createChallengeCard('就職活動', 5)
+
+    expect(CardEffectEngine.evaluateCondition(undefined, context())).toBe(true)
+    expect(CardEffectEngine.evaluateCondition('vitality<=40 && stage==youth', context())).toBe(true)
+    expect(CardEffectEngine.evaluateCondition('vitalityRate<40', context())).toBe(false)
+    expect(CardEffectEngine.evaluateCondition('転職,就職', context({ challenge }))).toBe(true)
+    expect(CardEffectEngine.evaluateCondition('結婚', context({ challenge }))).toBe(false)
+    expect(CardEffectEngine.evaluateCondition('success==true', context())).toBe(false) // 状況にない値は不成立
+
+    const delayed: CardEffect = { type: 'power_boost', value: 2, description: '', condition: 'on:turn_end && turns:2' }
+    expect(CardEffectEngine.getHook(delayed)).toBe('on_turn_end')
+    expect(CardEffectEngine.evaluateCondition(delayed.condition, context())).toBe(true)
+    expect(CardEffectEngine.getHook({ type: 'shield', value: 3, description: '' })).toBe('on_damage')
+  })
+
+  it('連鎖・シナジーは一緒に使うカードに比例し、倍加は同じカードの効果に掛かる', () => {
+    const chainA = createCard('連鎖A', [{ type: 'chain_combo', value: 2, description: '' }])
+    const chainB = createCard('連鎖B', [{ type: 'chain_combo', value: 2, description: '' }], 'family')
+    const synergy = createCard('シナジー', [{ type: 'synergy', value: 3, description: '' }])
+    const doubled = createCard('倍加', [
+      { type: 'power_boost', value: 4, description: '' },
+      { type: 'double_effect', value: 2, description: '', condition: 'vitality<=50' }
+    ])
+
+    const played = [chainA, chainB, synergy, doubled]
+    const outcome = CardEffectEngine.resolve('on_play', played, context({ playedCards: played }))
+    // 連鎖 2×1 + 2×1、シナジー 3×2（キャリアの連鎖A・倍加）、倍加 4×2
+    expect(outcome.power).toBe(2 + 2 + 6 + 8)
+    expect(outcome.triggered).toHaveLength(4)
+
+    // 条件を満たさなければ倍加しない
+    const healthy = CardEffectEngine.resolve('on_play', [doubled], context({ vitality: 80, playedCards: [doubled] }))
+    expect(healthy.power).toBe(4)
+  })
+
+  it('チャレンジに使ったカードの効果がパワーに加わり、複数ターン効果が続く', async () => {
+    const game = await createStartedGame()
+    const card = createCard('追い風', [
+      { type: 'power_boost', value: 30, description: '' },
+      { type: 'multi_turn', value: 2, description: '', condition: 'success==true && turns:2' }
+    ])
+
+    game.startChallengePhase()
+    game.startChallenge(game.cardChoices!.reduce((easiest, choice) => choice.power < easiest.power ? choice : easiest))
+    game.addCardToHand(card)
+    game.toggleCardSelection(card)
+    const result = game.resolveChallenge()
+
+    expect(result.success).toBe(true)
+    expect(result.powerBreakdown?.effect).toBe(30)
+    expect(result.playerPower).toBe(result.powerBreakdown?.total)
+    expect(game.activeEvents).toEqual([{ name: '追い風', power: 2, remainingTurns: 2 }])
+  })
+
+  it('手札のカードの軽減効果でチャレンジ失敗のダメージが減る', async () => {
+    const failChallenge = async (withShield: boolean) => {
+      const game = await createStartedGame()
+      game.startChallengePhase()
+      game.startChallenge(game.cardChoices!.reduce((hardest, choice) => choice.power > hardest.power ? choice : hardest))
+      if (withShield) {
+        game.addCardToHand(createCard('備え', [{ type: 'shield', value: 3, description: '' }]))
+      }
+      const before = game.vitality
+      const result = game.resolveChallenge()
+      expect(result.success).toBe(false)
+      return before - game.vitality
+    }
+
+    const unprotected = await failChallenge(false)
+    const protectedDamage = await failChallenge(true)
+    expect(unprotected).toBeGreaterThan(3)
+    expect(protectedDamage).toBe(unprotected - 3)
+  })
+
+  it('ターン終了時に回復・ドロー・保険料割引が発動する', async () => {
+    const game = await createStartedGame()
+    game.applyDamage(20)
+    game.addCardToHand(createCard('習慣', [
+      { type: 'turn_heal', value: 5, description: '' },
+      { type: 'draw_cards', value: 1, description: '' },
+      { type: 'insurance_discount', value: 2, description: '' }
+    ]))
+
+    const vitality = game.vitality
+    const handSize = game.hand.length
+    const outcome = game.resolveCardEffects('on_turn_end')
+    expect(outcome).toMatchObject({ heal: 5, drawCards: 1, premiumDiscount: 2 })
+
+    // 解決だけではゲーム状態は変わらない
+    expect(game.vitality).toBe(vitality)
+    expect(game.hand).toHaveLength(handSize)
+
+    game.applyCardEffects(outcome)
+    expect(game.vitality).toBe(vitality + 5)
+    expect(game.hand).toHaveLength(handSize + 1)
+  })
+
+  it('ステージが変わるとカードが変化し、最大活力の上昇は保存・復元後も残る', async () => {
+    const game = await createStartedGame()
+    const maturing = createCard('経験', [{ type: 'card_transform', value: 2, description: '' }], 'career', 3)
+    const growth = createCard('成長', [{ type: 'vitality_boost', value: 10, description: '', condition: 'on:stage_change' }])
+    game.addCardToHand(maturing)
+    game.addCardToHand(growth)
+
+    const plain = await createStartedGame()
+    game.setStage('middle')
+    plain.setStage('middle')
+
+    expect(game.hand.find(card => card.id === maturing.id)?.power).toBe(5)
+    expect(game.maxVitality).toBe(plain.maxVitality + 10)
+
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    expect(restored.maxVitality).toBe(game.maxVitality)
+
+    // 次のステージでも最大活力の計算に含まれる
+    restored.cardManager.discardHand()
+    restored.setStage('fulfillment')
+    plain.setStage('fulfillment')
+    expect(restored.maxVitality).toBe(plain.maxVitality + 10)
+  })
+})
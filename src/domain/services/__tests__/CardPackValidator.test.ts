@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Game } from '../../entities/Game'
+import { CardFactory } from '../CardFactory'
+import { CardPackValidator } from '../CardPackValidator'
+import standardCardPack from '../../data/cardPacks/standard.json'
+import { bundledCardPacks } from '../../data/cardPacks'
+import type { CardPack } from '../../types/cardPack.types'
+import type { GameConfig } from '../../types/game.types'
+
+describe('CardPackValidator - カードパック', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 31
+  }
+
+  const insuranceType = {
+    insuranceType: 'life',
+    name: 'テスト保険',
+    description: 'テスト用',
+    power: 0,
+    insuranceEffectType: 'trigger',
+    insuranceTriggerType: 'on_death',
+    termOption: { cost: 1, duration: 5, description: '定期' },
+    wholeLifeOption: { cost: 2, description: '終身' }
+  }
+
+  // 標準パックに重ねる拡張パック
+  const expansion: CardPack = {
+    id: 'test-expansion',
+    name: 'テスト拡張',
+    starterLifeCards: [
+      { name: '朝のジョギング', description: '上書きした定義', category: 'health', power: 9, cost: 1 },
+      { name: '読書', description: '追加した定義', category: 'hobby', power: 2, cost: 1 }
+    ],
+    challenges: {
+      youth: [{ name: '初めての海外旅行', description: '追加したチャレンジ', power: 11, damage: 11 }]
+    }
+  }
+
+  it('標準パックは検証を通り、これまでと同じカードを生成する', () => {
+    const result = CardPackValidator.validate(standardCardPack)
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] })
+
+    const starters = CardFactory.createStarterLifeCards()
+    expect(starters.map(card => card.name)).toEqual(standardCardPack.starterLifeCards.map(def => def.name))
+    expect(starters.find(card => card.name === '栄養バランスの良い食事')).toMatchObject({ type: 'life', category: 'health', power: 5, cost: 2 })
+    expect(CardFactory.createAgingCards(2).map(card => card.name)).toEqual(['老化', '老化'])
+    expect(CardFactory.createSkillCards('middle')).toHaveLength(4)
+  })
+
+  it('cardPacks ディレクトリに置いたパックを起動時にすべて登録する', async () => {
+    // 同梱のパックはスキーマを含まない
+    expect(bundledCardPacks).toContainEqual(standardCardPack)
+    expect(bundledCardPacks.every(pack => CardPackValidator.validate(pack).isValid)).toBe(true)
+
+    vi.resetModules()
+    vi.doMock('../../data/cardPacks', () => ({ bundledCardPacks: [standardCardPack, expansion] }))
+    try {
+      const { CardFactory: LoadedCardFactory } = await import('../CardFactory')
+      expect(LoadedCardFactory.getCardPacks().map(pack => pack.id)).toEqual([CardFactory.DEFAULT_CARD_PACK_ID, expansion.id])
+      expect(LoadedCardFactory.createCatalog([CardFactory.DEFAULT_CARD_PACK_ID, expansion.id]).challenges.youth.map(def => def.name))
+        .toContain('初めての海外旅行')
+    } finally {
+      vi.doUnmock('../../data/cardPacks')
+      vi.resetModules()
+    }
+  })
+
+  it('不正な定義を位置付きでエラーとして報告する', () => {
+    const result = CardPackValidator.validate({
+      id: 'broken',
+      name: '壊れたパック',
+      insuranceTypes: [
+        { ...insuranceType, insuranceType: 'pet' },
+        { ...insuranceType, insuranceTriggerType: undefined }
+      ],
+      challenges: {
+        youth: [{ name: '借金', description: '', power: -3, damage: 5 }],
+        retirement: []
+      }
+    })
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toEqual([
+      'insuranceTypes[0].insuranceType: 不明な保険種別です (pet)',
+      'insuranceTypes[1].insuranceTriggerType: トリガー型保険には発動条件が必要です',
+      'challenges.youth[0].power: 0以上である必要があります (-3)',
+      'challenges.retirement: 不明なステージです'
+    ])
+  })
+
+  it('同じ項目の同名カードと未知の項目は警告にとどめる', () => {
+    const result = CardPackValidator.validate({
+      id: 'noisy',
+      name: '警告のあるパック',
+      dreams: [
+        { name: '夢', description: '', power: 70, damage: 30 },
+        { name: '夢', description: '', power: 80, damage: 40 }
+      ],
+      pitfalls: []
+    })
+
+    expect(result.isValid).toBe(true)
+    expect(result.warnings).toEqual([
+      'dreams[1].name: 同じ名前のカードが既にあります (夢)',
+      'pitfalls: 未知の項目です（読み込まれません）'
+    ])
+    expect(() => CardFactory.registerCardPack({ id: 'empty' })).toThrow('Invalid card pack empty:\nname: 空でない文字列である必要があります')
+  })
+
+  it('指定したパックを順に重ね、同名カードは後のパックで上書きする', () => {
+    CardFactory.registerCardPack(expansion)
+    const catalog = CardFactory.createCatalog([CardFactory.DEFAULT_CARD_PACK_ID, expansion.id])
+
+    const starters = CardFactory.createStarterLifeCards(catalog)
+    expect(starters).toHaveLength(standardCardPack.starterLifeCards.length + 1)
+    expect(starters[0]).toMatchObject({ name: '朝のジョギング', description: '上書きした定義', power: 9 })
+    expect(starters.at(-1)?.name).toBe('読書')
+    expect(catalog.challenges.youth.map(def => def.name)).toContain('初めての海外旅行')
+    expect(catalog.challenges.middle).toEqual(CardFactory.getDefaultCatalog().challenges.middle)
+
+    // 単独では必要な項目が足りない
+    expect(() => CardFactory.createCatalog([expansion.id]))
+      .toThrow('Card packs [test-expansion] do not define: insuranceTypes, challenges.middle, challenges.fulfillment, dreams, agingCard')
+    expect(() => CardFactory.createCatalog(['missing'])).toThrow('Unknown card pack: missing')
+  })
+
+  it('GameConfig.cardPacks で使うパックを選び、保存・復元後も同じパックを使う', () => {
+    CardFactory.registerCardPack(expansion)
+    const game = new Game({ ...config, cardPacks: [CardFactory.DEFAULT_CARD_PACK_ID, expansion.id] })
+    expect(game.playerDeck.getCards().find(card => card.name === '朝のジョギング')?.power).toBe(9)
+    expect(game.playerDeck.getCards().some(card => card.name === '読書')).toBe(true)
+
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    expect(restored.cardCatalog.packIds).toEqual([CardFactory.DEFAULT_CARD_PACK_ID, expansion.id])
+
+    // 未指定なら標準パックと同じ展開になる
+    const standard = new Game({ ...config, cardPacks: [CardFactory.DEFAULT_CARD_PACK_ID] })
+    const unspecified = new Game(config)
+    expect(unspecified.playerDeck.getCards().map(card => card.name)).toEqual(standard.playerDeck.getCards().map(card => card.name))
+  })
+})
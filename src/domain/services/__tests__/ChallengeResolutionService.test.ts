@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { Card } from '../../entities/Card'
+import { CardFactory } from '../CardFactory'
+import { ChallengeResolutionService } from '../ChallengeResolutionService'
+import { SkillSystemService } from '../SkillSystemService'
+import { SeededRandom } from '../../../common/SeededRandom'
+import { RiskRewardChallenge } from '../../entities/RiskRewardChallenge'
+import { GameConstantsAccessor } from '../../constants/GameConstants'
+import { PROGRESSION_FEATURES, type GameConfig } from '../../types/game.types'
+
+describe('ChallengeResolutionService - スキル・コンボ・イベント・レジェンダリーカード', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 2024
+  }
+
+  const resolution = new ChallengeResolutionService()
+  const findCard = (cards: Card[], name: string) => cards.find(card => card.name === name)!
+
+  const createStartedGame = async (overrides: Partial<GameConfig> = {}) => {
+    const game = new Game({ ...config, ...overrides })
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    return game
+  }
+
+  // 一番易しいチャレンジに指定したカードだけで挑む
+  const playChallenge = (game: Game, cards: Card[]) => {
+    game.startChallengePhase()
+    game.startChallenge(game.cardChoices!.reduce((easiest, card) => card.power < easiest.power ? card : easiest))
+    cards.forEach(card => {
+      game.addCardToHand(card)
+      game.toggleCardSelection(card)
+    })
+    return game.resolveChallenge()
+  }
+
+  it('コンボは一緒に使うカードが必要なカテゴリーをすべて満たすと成立する', () => {
+    const combo = findCard(CardFactory.createComboCards(), 'ワークライフバランス')
+    const career = findCard(CardFactory.createStarterLifeCards(), 'チームワーク')
+    const family = findCard(CardFactory.createStarterLifeCards(), '家族との団らん')
+
+    const fulfilled = resolution.calculateTotalPower([combo, career, family], 2)
+    expect(fulfilled.combo).toBe(combo.comboProperties!.comboBonus)
+    expect(fulfilled.base).toBe(combo.power + career.power + family.power)
+    expect(fulfilled.total).toBe(fulfilled.base + fulfilled.combo - 2)
+
+    const partial = resolution.calculateTotalPower([combo, career], 2)
+    expect(partial.combo).toBe(0)
+    expect(partial.total).toBe(combo.power + career.power - 2)
+  })
+
+  it('スキルはレア度込みのパワーになり、クールダウン中はパワーなし', () => {
+    const skill = findCard(CardFactory.createSkillCards('youth'), 'リーダーシップ')
+
+    const ready = resolution.calculateTotalPower([skill], 0)
+    expect(ready.skill).toBe(SkillSystemService.calculateEffectivePower(skill))
+    expect(ready.skill).toBeGreaterThan(skill.power)
+
+    const cooling = resolution.calculateTotalPower([SkillSystemService.useSkill(skill)], 0)
+    expect(cooling.skill).toBe(0)
+    expect(cooling.total).toBe(0)
+  })
+
+  it('使ったスキルはクールダウンに入り、ターン経過で使えるようになる', async () => {
+    const game = await createStartedGame()
+    const skill = findCard(CardFactory.createSkillCards('youth'), 'リーダーシップ') // クールダウン2
+    const legendary = CardFactory.createLegendaryCards()[0]!
+
+    const result = playChallenge(game, [skill, legendary])
+    expect(result.success).toBe(true)
+    expect(result.powerBreakdown?.skill).toBe(SkillSystemService.calculateEffectivePower(skill))
+
+    const cooldownOf = () => game.discardPile.find(card => card.id === skill.id)?.skillProperties?.remainingCooldown
+    expect(cooldownOf()).toBe(2)
+    game.nextTurn()
+    expect(cooldownOf()).toBe(1)
+    game.nextTurn()
+    expect(cooldownOf()).toBe(0)
+  })
+
+  it('イベントは使ったターンから継続ターン数の間パワーに加わる', async () => {
+    const game = await createStartedGame()
+    const event = findCard(CardFactory.createEventCards('youth'), '就職ブーム') // 2ターン継続
+
+    const first = playChallenge(game, [event, CardFactory.createLegendaryCards()[0]!])
+    expect(first.powerBreakdown?.event).toBe(event.power)
+
+    game.nextTurn()
+    expect(game.activeEvents).toEqual([{ name: event.name, power: event.power, remainingTurns: 1 }])
+    expect(game.calculateTotalPower([]).event).toBe(event.power)
+
+    game.nextTurn()
+    expect(game.activeEvents).toHaveLength(0)
+    expect(game.calculateTotalPower([]).event).toBe(0)
+  })
+
+  it('報酬候補は解放済みのタイプだけで、使用禁止カードを除く', () => {
+    const random = () => new SeededRandom(7)
+    const skillNames = CardFactory.createSkillCards('youth').map(card => card.name)
+
+    const skillsOnly = CardFactory.createRewardCards('youth', 10, random(), ['skill'], ['集中力'])
+    expect(skillsOnly.map(card => card.name).sort()).toEqual(skillNames.filter(name => name !== '集中力').sort())
+
+    const all = CardFactory.createRewardCards('youth', 20, random())
+    expect(new Set(all.map(card => card.type))).toEqual(new Set(['skill', 'combo', 'event', 'legendary']))
+
+    // 報酬カードが未解放のプレイヤーには何も提示しない
+    const locked = new Game({ ...config, unlockedFeatures: [] })
+    expect(locked.createRewardCardChoices()).toEqual([])
+    const unlocked = new Game({ ...config, unlockedFeatures: [PROGRESSION_FEATURES.comboCards] })
+    expect(unlocked.createRewardCardChoices().every(card => card.isComboCard())).toBe(true)
+  })
+
+  it('成功時に報酬カードを提示し、選んだカードをデッキに加える', async () => {
+    const game = await createStartedGame()
+    const result = playChallenge(game, [CardFactory.createLegendaryCards()[0]!])
+
+    expect(result.success).toBe(true)
+    expect(result.rewards).toHaveLength(3)
+    expect(game.rewardCardChoices).toEqual(result.rewards)
+
+    // 保存・復元しても提示中の報酬を選べる
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    const reward = restored.rewardCardChoices![1]!
+    const deckSize = restored.playerDeck.size()
+    restored.selectRewardCard(reward.id)
+
+    expect(restored.rewardCardChoices).toBeUndefined()
+    expect(restored.playerDeck.size()).toBe(deckSize + 1)
+    expect(restored.playerDeck.getCards().some(card => card.name === reward.name)).toBe(true)
+    expect(restored.getActionLog().actions.at(-1)).toEqual({ type: 'select_reward_card', choiceIndex: 1 })
+
+    // 選ばずに次のターンへ進むと見送り
+    game.nextTurn()
+    expect(game.rewardCardChoices).toBeUndefined()
+  })
+})
+
+describe('ChallengeResolutionService - リスク・リワードチャレンジ', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 2024
+  }
+
+  const bonusBase = GameConstantsAccessor.getBalanceSettings().CHALLENGE_SETTINGS.successBonusBase
+  const defensiveInsurance = () => CardFactory.createDiverseInsuranceCards().find(card => card.name === '防御特化医療保険')!
+
+  const createStartedGame = async () => {
+    const game = new Game(config)
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    return game
+  }
+
+  // 指定したカードだけでリスクチャレンジに挑む
+  const playRiskChallenge = (game: Game, challenge: RiskRewardChallenge, cards: Card[]) => {
+    game.startChallenge(challenge)
+    cards.forEach(card => {
+      game.addCardToHand(card)
+      game.toggleCardSelection(card)
+    })
+    return game.resolveChallenge()
+  }
+
+  it('成功するとリスクに応じたボーナスが活力に加わる', async () => {
+    const game = await createStartedGame()
+    const challenge = RiskRewardChallenge.createRiskChallenge('youth', 'high')
+    const stakes = game.getChallengeStakes(challenge)
+    // 過労ダメージが出ないよう必要パワーちょうどのカードで挑む
+    const result = playRiskChallenge(game, challenge, [Card.createLifeCard('準備万端', challenge.power)])
+
+    expect(result.success).toBe(true)
+    expect(result.vitalityChange).toBe(bonusBase + challenge.successBonus)
+    expect(stakes?.expectedGain).toBe(result.vitalityChange)
+    expect(result.riskOutcome).toEqual({
+      riskLevel: 'high',
+      insuranceImmunity: false,
+      successBonus: challenge.successBonus,
+      failurePenalty: 0
+    })
+  })
+
+  it('失敗すると保険で軽減できない追加ペナルティを受ける', async () => {
+    const game = await createStartedGame()
+    game.addInsurance(defensiveInsurance())
+    const challenge = RiskRewardChallenge.createRiskChallenge('youth', 'medium')
+    const stakes = game.getChallengeStakes(challenge)!
+    const unprotected = new ChallengeResolutionService().calculateRiskStakes(challenge, 'youth')!
+
+    const result = playRiskChallenge(game, challenge, [])
+
+    expect(result.success).toBe(false)
+    expect(result.damageAmount).toBe(stakes.expectedLoss)
+    expect(result.vitalityChange).toBe(-stakes.expectedLoss)
+    expect(result.riskOutcome?.failurePenalty).toBe(challenge.failurePenalty)
+    expect(stakes.expectedLoss).toBeLessThan(unprotected.expectedLoss)
+    expect(unprotected.expectedLoss).toBe(challenge.power + challenge.failurePenalty)
+  })
+
+  it('極限リスクでは保険による軽減が見込みにも結果にも効かない', async () => {
+    const game = await createStartedGame()
+    game.addInsurance(defensiveInsurance())
+    const challenge = RiskRewardChallenge.createRiskChallenge('youth', 'extreme')
+    const stakes = game.getChallengeStakes(challenge)!
+
+    expect(stakes.insuranceImmunity).toBe(true)
+    expect(stakes.expectedLoss).toBe(challenge.power + challenge.failurePenalty)
+
+    const result = playRiskChallenge(game, challenge, [])
+    expect(result.damageAmount).toBe(stakes.expectedLoss)
+    expect(result.riskOutcome?.insuranceImmunity).toBe(true)
+
+    // 通常のチャレンジには見込みを出さない
+    expect(game.getChallengeStakes(Card.createChallengeCard('通常の課題', 5))).toBeUndefined()
+  })
+})
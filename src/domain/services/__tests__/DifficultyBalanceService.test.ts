@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { Card } from '../../entities/Card'
+import { DifficultyBalanceService } from '../DifficultyBalanceService'
+import type { GameConfig } from '../../types/game.types'
+
+describe('DifficultyBalanceService - ゲーム中の動的難易度', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 16
+  }
+
+  const createStartedGame = async (overrides: Partial<GameConfig> = {}) => {
+    const game = new Game({ ...config, ...overrides })
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    return game
+  }
+
+  // カードを使わずに最も難しいチャレンジへ挑み、失敗してターンを進める
+  const failChallenge = (game: Game) => {
+    game.startChallengePhase()
+    game.startChallenge(game.cardChoices!.reduce((hardest, choice) => choice.power > hardest.power ? choice : hardest))
+    expect(game.resolveChallenge().success).toBe(false)
+    game.nextTurn()
+  }
+
+  it('最近の成功率が低ければ易しく、高ければ難しくして報酬を増やす', () => {
+    expect(DifficultyBalanceService.calculateRunDifficulty([0, 0]).adjustmentFactor).toBe(0) // 結果が少ないうちは調整しない
+
+    const struggling = DifficultyBalanceService.calculateRunDifficulty([0, 0, 1, 0])
+    expect(struggling.adjustmentFactor).toBe(-0.3)
+    expect(DifficultyBalanceService.adjustChallengePower(10, struggling, 1).adjustedPower).toBe(7)
+    expect(DifficultyBalanceService.adjustRewards(8, struggling, true).adjustedReward).toBe(8)
+
+    const dominating = DifficultyBalanceService.calculateRunDifficulty([1, 1, 1, 1, 1])
+    expect(dominating.adjustmentFactor).toBe(0.2)
+    expect(DifficultyBalanceService.adjustChallengePower(10, dominating, 1).adjustedPower).toBe(12)
+    expect(DifficultyBalanceService.adjustRewards(8, dominating, true).adjustedReward).toBe(10)
+  })
+
+  it('失敗が続くとチャレンジの必要パワーが下がり、調整が記録される', async () => {
+    const game = await createStartedGame({ dynamicDifficulty: true })
+    for (let i = 0; i < DifficultyBalanceService.MIN_RUN_PERFORMANCE_SAMPLES; i++) {
+      failChallenge(game)
+    }
+    expect(game.getDifficultyAdjustments()).toEqual([])
+    expect(game.getDynamicDifficulty().recentPerformance).toEqual([0, 0, 0])
+
+    game.startChallengePhase()
+    const choice = game.cardChoices![0]!
+    game.startChallenge(choice)
+
+    const adjustedPower = Math.max(1, Math.round(choice.power * 0.7))
+    expect(game.currentChallenge?.power).toBe(adjustedPower)
+    expect(game.getDifficultyAdjustments()).toEqual([{
+      turn: game.turn,
+      stage: 'youth',
+      challengeName: choice.name,
+      originalPower: choice.power,
+      adjustedPower,
+      rewardMultiplier: 1,
+      successRate: 0
+    }])
+
+    // 保存・復元後も結果と記録が残る
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    expect(restored.getDynamicDifficulty().adjustmentFactor).toBe(-0.3)
+    expect(restored.getDifficultyAdjustments()).toEqual(game.getDifficultyAdjustments())
+  })
+
+  it('dynamicDifficulty を指定しないゲームでは調整しない', async () => {
+    const game = await createStartedGame()
+    for (let i = 0; i < DifficultyBalanceService.MIN_RUN_PERFORMANCE_SAMPLES; i++) {
+      failChallenge(game)
+    }
+
+    game.startChallengePhase()
+    const choice = game.cardChoices![0]!
+    game.startChallenge(choice)
+
+    expect(game.isDynamicDifficultyEnabled()).toBe(false)
+    expect(game.currentChallenge?.power).toBe(choice.power)
+    expect(game.getDifficultyAdjustments()).toEqual([])
+  })
+
+  it('enableDynamicDifficulty が false なら調整しない', async () => {
+    const game = await createStartedGame({ dynamicDifficulty: true, balanceConfig: { challengeSettings: { enableDynamicDifficulty: false } } })
+    for (let i = 0; i < DifficultyBalanceService.MIN_RUN_PERFORMANCE_SAMPLES; i++) {
+      failChallenge(game)
+    }
+
+    game.startChallengePhase()
+    const choice = game.cardChoices![0]!
+    game.startChallenge(choice)
+
+    expect(game.currentChallenge?.power).toBe(choice.power)
+    expect(game.getDynamicDifficulty().adjustmentFactor).toBe(0)
+    expect(game.getDifficultyAdjustments()).toEqual([])
+  })
+
+  it('成功が続くと必要パワーが上がり、成功時の活力報酬が増える', async () => {
+    // ちょうど必要パワーのカードで成功させ、過労ダメージなしの報酬を返す
+    const succeed = (game: Game) => {
+      game.startChallengePhase()
+      game.startChallenge(game.cardChoices![0]!)
+      const card = new Card({
+        id: 'exact-power',
+        name: 'ちょうどの力',
+        description: '',
+        type: 'life',
+        power: game.currentChallenge!.power,
+        cost: 0,
+        effects: []
+      })
+      game.addCardToHand(card)
+      game.toggleCardSelection(card)
+      const result = game.resolveChallenge()
+      expect(result.success).toBe(true)
+      return result
+    }
+
+    const game = await createStartedGame({ dynamicDifficulty: true })
+    const plain = await createStartedGame({ dynamicDifficulty: true })
+    for (let i = 0; i < DifficultyBalanceService.MIN_RUN_PERFORMANCE_SAMPLES; i++) {
+      game.updateDynamicDifficulty(true)
+    }
+
+    const adapted = succeed(game)
+    const baseline = succeed(plain)
+    expect(adapted.challengePower).toBe(Math.round(baseline.challengePower * 1.2))
+    expect(adapted.vitalityChange).toBe(Math.floor(baseline.vitalityChange * 1.3))
+    expect(game.getDifficultyAdjustments()[0]?.rewardMultiplier).toBeCloseTo(1.3)
+  })
+
+  it('成功が続くと報酬カードの候補にレア度の高いカードが出やすくなる', async () => {
+    // 30回分の候補のうち、コモン以外（レア以上のスキル・レジェンダリー）の枚数
+    const countRareChoices = (game: Game) => Array.from({ length: 30 }, () => game.createRewardCardChoices())
+      .flat()
+      .filter(card => card.isLegendaryCard() || (card.skillProperties && card.skillProperties.rarity !== 'common'))
+      .length
+
+    const game = await createStartedGame({ dynamicDifficulty: true })
+    const plain = await createStartedGame({ dynamicDifficulty: true })
+    for (let i = 0; i < DifficultyBalanceService.MIN_RUN_PERFORMANCE_SAMPLES; i++) {
+      game.updateDynamicDifficulty(true)
+    }
+    expect(game.getDynamicDifficulty().adaptiveModifiers.cardRarityBonus).toBeCloseTo(0.4)
+
+    const adapted = game.createRewardCardChoices().map(card => card.name)
+    expect(adapted).not.toEqual(plain.createRewardCardChoices().map(card => card.name))
+    expect(countRareChoices(game)).toBeGreaterThan(countRareChoices(plain))
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { CardFactory } from '../CardFactory'
+import { EndlessModeService, type EndlessHighScore } from '../EndlessModeService'
+import type { GameConfig } from '../../types/game.types'
+
+describe('EndlessModeService - エンドレスモード', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 4242
+  }
+
+  const createStartedGame = (endless: boolean) => {
+    const game = new Game({ ...config, endless })
+    game.start()
+    return game
+  }
+
+  it('通常のゲーム期間を過ぎると一定ターンごとにレベルが上がる', () => {
+    expect(EndlessModeService.getEndlessLevel(19)).toBe(0)
+    expect(EndlessModeService.getEndlessLevel(20)).toBe(1)
+    expect(EndlessModeService.getEndlessLevel(24)).toBe(1)
+    expect(EndlessModeService.getEndlessLevel(25)).toBe(2)
+    expect(EndlessModeService.isLevelUpTurn(20)).toBe(true)
+    expect(EndlessModeService.isLevelUpTurn(21)).toBe(false)
+    expect(EndlessModeService.isLevelUpTurn(25)).toBe(true)
+
+    // 通常モードではレベルは上がらない
+    const normal = createStartedGame(false)
+    normal.turn = 30
+    expect(normal.getEndlessLevel()).toBe(0)
+  })
+
+  it('最大ターン数や最終ステージを過ぎてもゲームが続く', () => {
+    const normal = createStartedGame(false)
+    const endless = createStartedGame(true)
+
+    for (const game of [normal, endless]) {
+      game.turn = 99
+      game.nextTurn()
+    }
+    expect(normal.status).toBe('game_over')
+    expect(endless.status).toBe('in_progress')
+
+    const finalStage = [createStartedGame(false), createStartedGame(true)]
+    finalStage.forEach(game => {
+      game.setStage('fulfillment')
+      game.advanceStage()
+    })
+    expect(finalStage[0]!.status).toBe('victory')
+    expect(finalStage[1]!.status).toBe('in_progress')
+    expect(finalStage[1]!.stage).toBe('fulfillment')
+  })
+
+  it('レベルが上がるたびに老化カードが捨て札に加わる', () => {
+    const game = createStartedGame(true)
+    game.turn = 19
+    game.nextTurn()
+    expect(game.discardPile.filter(card => card.type === 'aging')).toHaveLength(1)
+
+    game.turn = 24
+    game.nextTurn()
+    expect(game.discardPile.filter(card => card.type === 'aging')).toHaveLength(3)
+  })
+
+  it('レベルに応じてチャレンジの必要パワーと保険料が上がる', () => {
+    const normal = createStartedGame(false)
+    const endless = createStartedGame(true)
+
+    for (const game of [normal, endless]) {
+      game.turn = 25
+      game.setStage('fulfillment')
+      game.refillChallengeDeck()
+      game.addInsurance(CardFactory.createBasicInsuranceCards('fulfillment')[0]!)
+    }
+
+    const multiplier = EndlessModeService.getChallengePowerMultiplier(2)
+    expect(endless.challengeDeck.getCards().map(card => card.power))
+      .toEqual(normal.challengeDeck.getCards().map(card => Math.floor(card.power * multiplier)))
+
+    expect(normal.insuranceBurden).toBeGreaterThan(0)
+    expect(endless.insuranceBurden).toBe(Math.ceil(normal.insuranceBurden * EndlessModeService.getPremiumMultiplier(2)))
+  })
+
+  it('生き延びたターン数がスコアになる', () => {
+    const game = createStartedGame(true)
+    game.nextTurn()
+    game.nextTurn()
+    game.finishGame(false)
+
+    expect(game.getTurnsSurvived()).toBe(2)
+    expect(game.score).toBe(2)
+  })
+
+  it('ハイスコア表は生き延びたターン数の順に上位だけを残す', () => {
+    const entry = (turnsSurvived: number, day: number): EndlessHighScore => ({
+      turnsSurvived,
+      endlessLevel: EndlessModeService.getEndlessLevel(turnsSurvived),
+      achievedAt: new Date(Date.UTC(2026, 0, day)).toISOString()
+    })
+    const table = Array.from({ length: EndlessModeService.HIGH_SCORE_LIMIT }, (_, i) => entry(30 + i, i + 1))
+
+    const tied = EndlessModeService.recordHighScore(table, entry(35, 20))
+    expect(tied.rank).toBe(6) // 同数なら先に達成した記録が上位
+    expect(tied.table).toHaveLength(EndlessModeService.HIGH_SCORE_LIMIT)
+    expect(tied.table.map(score => score.turnsSurvived)).not.toContain(30)
+
+    const outOfRank = EndlessModeService.recordHighScore(tied.table, entry(20, 21))
+    expect(outOfRank.rank).toBeUndefined()
+    expect(outOfRank.table).toEqual(tied.table)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { GameReplayer } from '../GameReplayer'
+import type { GameReplay } from '../../types/game.types'
+
+describe('GameReplayer - アクションログとリプレイ', () => {
+  const createGame = () => new Game({
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 4242
+  })
+
+  // 常に最初の選択肢を選び、手札をすべて使う単純な方針でプレイする
+  const playGame = async (game: Game, maxTurns: number): Promise<void> => {
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+
+    while (game.status === 'in_progress' && game.turn <= maxTurns) {
+      game.startChallengePhase()
+      game.startChallenge(game.cardChoices![0]!)
+      await game.drawCards(5)
+      game.hand.forEach(card => game.toggleCardSelection(card))
+      game.resolveChallenge()
+
+      if (game.pendingInsuranceClaim) {
+        await game.resolveInsuranceClaim()
+      }
+      if (game.insuranceTypeChoices?.length) {
+        game.selectInsuranceType(game.insuranceTypeChoices[0]!.insuranceType, 'term')
+      }
+      if (game.status !== 'in_progress') break
+
+      game.activeInsurances
+        .filter(insurance => insurance.isTermInsurance() && (insurance.remainingTurns ?? 0) <= 1)
+        .forEach(insurance => game.renewInsurance(insurance))
+      game.nextTurn()
+    }
+  }
+
+  const saveAndLoad = (replay: GameReplay): GameReplay =>
+    GameReplayer.parse(JSON.stringify(replay))
+
+  it('プレイヤーの意思決定を順番に記録する', async () => {
+    const game = createGame()
+    await playGame(game, 1)
+
+    const types = game.getActionLog().actions.map(action => action.type)
+    expect(types.slice(0, 5)).toEqual([
+      'start',
+      'select_character',
+      'select_dream',
+      'start_challenge_phase',
+      'start_challenge'
+    ])
+    expect(types).toContain('toggle_card_selection')
+    expect(types).toContain('resolve_challenge')
+    // selectCharacter内部で開始される夢選択は別アクションとして記録しない
+    expect(types).not.toContain('start_dream_selection')
+  })
+
+  it('カードはIDではなく位置で記録する', async () => {
+    const game = createGame()
+    await playGame(game, 1)
+
+    const actions = game.getActionLog().actions
+    expect(actions).toContainEqual({ type: 'select_dream', choiceIndex: 0 })
+    expect(actions).toContainEqual({ type: 'start_challenge', choiceIndex: 0 })
+    expect(actions).toContainEqual({ type: 'toggle_card_selection', handIndex: 0 })
+  })
+
+  it('ログを新しいゲームに再実行すると最終状態が一致する', async () => {
+    const game = createGame()
+    await playGame(game, 8)
+    expect(game.turn).toBeGreaterThan(3)
+
+    const result = await GameReplayer.verify(saveAndLoad(GameReplayer.createReplay(game)))
+
+    expect(result.differences).toEqual([])
+    expect(result.matches).toBe(true)
+    expect(result.actionCount).toBe(game.getActionLog().actions.length)
+  })
+
+  it('1手ずつ再生できる', async () => {
+    const game = createGame()
+    await playGame(game, 2)
+    const replayer = new GameReplayer(saveAndLoad(GameReplayer.createReplay(game)))
+
+    expect(await replayer.step()).toEqual({ type: 'start' })
+    expect(replayer.getGame().phase).toBe('character_selection')
+    expect(replayer.getPosition()).toBe(1)
+    expect(replayer.verify().matches).toBe(false)
+
+    await replayer.runToEnd()
+    expect(replayer.hasNext()).toBe(false)
+    expect(replayer.verify().matches).toBe(true)
+  })
+
+  it('最終状態が食い違う場合は差分を報告する', async () => {
+    const game = createGame()
+    await playGame(game, 2)
+    const replay = GameReplayer.createReplay(game)
+    replay.finalState.vitality.value += 1
+
+    const result = await GameReplayer.verify(saveAndLoad(replay))
+
+    expect(result.matches).toBe(false)
+    expect(result.differences[0]).toContain('vitality.value')
+  })
+
+  it('適用できないアクションは何手目かを含めてエラーにする', async () => {
+    const game = createGame()
+    await playGame(game, 1)
+    const replay = GameReplayer.createReplay(game)
+    replay.actions[2] = { type: 'select_dream', choiceIndex: 9 }
+
+    await expect(GameReplayer.verify(replay)).rejects.toThrow('Replay diverged at action #3 (select_dream)')
+  })
+
+  it('スナップショットから復元してもアクションログを引き継ぐ', async () => {
+    const game = createGame()
+    await playGame(game, 1)
+
+    const restored = Game.fromSnapshot(JSON.parse(JSON.stringify(game.toSnapshot())))
+    restored.nextTurn()
+
+    const replay = GameReplayer.createReplay(restored)
+    expect(replay.actions.length).toBe(game.getActionLog().actions.length + 1)
+    expect((await GameReplayer.verify(replay)).matches).toBe(true)
+  })
+
+  it('未対応のバージョンは読み込めない', () => {
+    expect(() => GameReplayer.parse(JSON.stringify({ version: 99 }))).toThrow('Unsupported replay version')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { PlayerProgressionService, type CompletedGameSummary } from '../PlayerProgressionService'
+import { CardFactory } from '../CardFactory'
+import type { Card } from '../../entities/Card'
+import { RiskRewardChallenge } from '../../entities/RiskRewardChallenge'
+import { SeededRandom } from '../../../common/SeededRandom'
+import { PROGRESSION_FEATURES, type GameConfig } from '../../types/game.types'
+
+describe('PlayerProgressionService - ゲームをまたいだ進行', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 4242
+  }
+
+  const summary = (overrides: Partial<CompletedGameSummary> = {}): CompletedGameSummary => ({
+    outcome: 'game_over',
+    stats: {
+      totalChallenges: 6,
+      successfulChallenges: 4,
+      failedChallenges: 2,
+      cardsAcquired: 0,
+      highestVitality: 60,
+      turnsPlayed: 6
+    },
+    playTimeMinutes: 12,
+    bestStreak: 3,
+    achievementExperience: 0,
+    ...overrides
+  })
+
+  it('ゲーム終了で経験値とプレイ記録を反映する', () => {
+    const progression = PlayerProgressionService.createInitialProgression()
+
+    const result = PlayerProgressionService.completeGame(progression, summary())
+
+    expect(result.experienceGained).toBe(40)
+    expect(result.updatedProgression.level.totalExperience).toBe(40)
+    expect(result.updatedProgression.gamesPlayed).toBe(1)
+    expect(result.updatedProgression.playTime).toBe(12)
+    expect(result.updatedProgression.bestStreak).toBe(3)
+  })
+
+  it('勝利とアチーブメント解除は追加の経験値になる', () => {
+    const progression = PlayerProgressionService.createInitialProgression()
+
+    const result = PlayerProgressionService.completeGame(progression, summary({
+      outcome: 'victory',
+      achievementExperience: 100
+    }))
+
+    // チャレンジ 40 + 勝利 100 x 2.0 + アチーブメント 100 x 1.2
+    expect(result.experienceGained).toBe(360)
+    expect(result.newLevel).toBe(3)
+    expect(result.updatedProgression.unlockedFeatures).toContain(PROGRESSION_FEATURES.adventurer)
+  })
+
+  it('保存データのレベルと解放機能を総経験値から再計算する', () => {
+    const saved = {
+      ...PlayerProgressionService.createInitialProgression(),
+      level: { currentLevel: 1, currentExperience: 0, experienceToNext: 100, totalExperience: 1000 },
+      unlockedFeatures: ['基本カード', '旧バージョンの機能']
+    }
+
+    const restored = PlayerProgressionService.restoreProgression(saved)
+
+    expect(restored.level.currentLevel).toBe(6)
+    expect(restored.unlockedFeatures).toEqual(expect.arrayContaining([
+      PROGRESSION_FEATURES.adventurer,
+      PROGRESSION_FEATURES.minimalist,
+      '旧バージョンの機能'
+    ]))
+    expect(restored.unlockedFeatures).not.toContain(PROGRESSION_FEATURES.riskChallenges)
+    expect(PlayerProgressionService.getFeatureUnlockLevel(PROGRESSION_FEATURES.riskChallenges)).toBe(7)
+  })
+
+  it('レベルの活力ボーナスを最大活力に加算し、ステージが変わっても維持する', () => {
+    const progression = PlayerProgressionService.addExperience(
+      PlayerProgressionService.createInitialProgression(),
+      2700
+    ).updatedProgression
+    const bonuses = PlayerProgressionService.createGameBonuses(progression)
+    expect(bonuses.vitalityBonus).toBe(PlayerProgressionService.calculateGameVitalityBonus(10))
+
+    const base = new Game(config)
+    const boosted = new Game({ ...config, ...bonuses })
+    expect(boosted.maxVitality).toBe(base.maxVitality + bonuses.vitalityBonus)
+
+    // ステージ変更時の最大活力更新（changeStage 経由で呼ばれる）
+    for (const game of [base, boosted]) {
+      game.stage = 'middle'
+      ;(game as any).updateMaxVitalityForAge()
+    }
+    expect(boosted.maxVitality).toBe(base.maxVitality + bonuses.vitalityBonus)
+  })
+
+  it('未解放のキャラクターは選択できない', () => {
+    const { unlockedFeatures } = PlayerProgressionService.createGameBonuses(PlayerProgressionService.createInitialProgression())
+
+    const game = new Game({ ...config, unlockedFeatures })
+    game.start()
+    expect(() => game.selectCharacter('adventurer')).toThrow('Character is locked: adventurer')
+    expect(() => new Game({ ...config, unlockedFeatures, characterId: 'minimalist' })).toThrow('Character is locked')
+
+    // 解放状況を指定しない場合は全キャラクターを選択できる
+    const unrestricted = new Game(config)
+    unrestricted.start()
+    expect(() => unrestricted.selectCharacter('adventurer')).not.toThrow()
+  })
+
+  it('未解放ならリスクチャレンジを除き、乱数の消費は変えない', () => {
+    const isRisk = (card: Card) => card instanceof RiskRewardChallenge
+    // リスクチャレンジが出現するシードを探す
+    const seed = Array.from({ length: 50 }, (_, i) => i + 1)
+      .find(candidate => CardFactory.createChallengeCards('youth', new SeededRandom(candidate)).some(isRisk))!
+    expect(seed).toBeDefined()
+
+    const withRisk = CardFactory.createChallengeCards('youth', new SeededRandom(seed))
+    const withoutRisk = CardFactory.createChallengeCards('youth', new SeededRandom(seed), false)
+
+    expect(withoutRisk.some(isRisk)).toBe(false)
+    expect(withoutRisk.map(card => card.name)).toEqual(withRisk.filter(card => !isRisk(card)).map(card => card.name))
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { ReplayabilityService, type DailyChallenge } from '../ReplayabilityService'
+import { PlayerProgressionService } from '../PlayerProgressionService'
+import type { GameConfig } from '../../types/game.types'
+
+describe('ReplayabilityService - 日替り・週替りチャレンジ', () => {
+  const baseConfig: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 30,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 2
+  }
+
+  // 指定したテンプレートのチャレンジが出る日を探す
+  const findChallenge = (name: string): DailyChallenge => {
+    const challenge = Array.from({ length: 60 }, (_, i) => new Date(Date.UTC(2026, 0, i + 1)))
+      .map(date => ReplayabilityService.generateDailyChallenge(date))
+      .find(candidate => candidate.name === name)
+    expect(challenge).toBeDefined()
+    return challenge!
+  }
+
+  it('同じ日付なら同じチャレンジとシードになる', () => {
+    const date = new Date('2026-03-14T09:00:00Z')
+    const first = ReplayabilityService.createChallengeGameConfig(ReplayabilityService.generateDailyChallenge(date), baseConfig)
+    const second = ReplayabilityService.createChallengeGameConfig(ReplayabilityService.generateDailyChallenge(new Date('2026-03-14T21:00:00Z')), baseConfig)
+    const nextDay = ReplayabilityService.createChallengeGameConfig(ReplayabilityService.generateDailyChallenge(new Date('2026-03-15T09:00:00Z')), baseConfig)
+
+    expect(second).toEqual(first)
+    expect(nextDay.seed).not.toBe(first.seed)
+
+    const games = [new Game(first), new Game(second)]
+    games.forEach(game => game.start())
+    expect(games[1]!.cardChoices?.map(card => card.name)).toEqual(games[0]!.cardChoices?.map(card => card.name))
+  })
+
+  it('週替りチャレンジは週の月曜日を基準にする', () => {
+    const monday = ReplayabilityService.getWeekStart(new Date('2026-10-19T12:00:00Z'))
+    const sunday = ReplayabilityService.getWeekStart(new Date('2026-10-25T23:00:00Z'))
+
+    expect(monday.toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    expect(ReplayabilityService.generateWeeklyChallenge(sunday)).toEqual(ReplayabilityService.generateWeeklyChallenge(monday))
+  })
+
+  it('カードのレア度ボーナスで報酬カードの候補にレア度の高いカードが出やすくなる', () => {
+    const challenge = ReplayabilityService.generateWeeklyChallenge(new Date('2026-10-19T00:00:00Z'))
+    const config = ReplayabilityService.createChallengeGameConfig(challenge, baseConfig)
+    expect(config.rewardRarityBonus).toBe(0.5)
+
+    // 30回分の候補のうち、コモン以外（レア以上のスキル・レジェンダリー）の枚数
+    const countRareChoices = (game: Game) => Array.from({ length: 30 }, () => game.createRewardCardChoices())
+      .flat()
+      .filter(card => card.isLegendaryCard() || (card.skillProperties && card.skillProperties.rarity !== 'common'))
+      .length
+    const { rewardRarityBonus: _, ...plainConfig } = config
+
+    expect(new Game(config).createRewardCardChoices().map(card => card.name))
+      .not.toEqual(new Game(plainConfig).createRewardCardChoices().map(card => card.name))
+    expect(countRareChoices(new Game(config))).toBeGreaterThan(countRareChoices(new Game(plainConfig)))
+  })
+
+  it('初期カードの指定で初期デッキを構成する', () => {
+    const challenge = findChallenge('ミニマリストの挑戦')
+    const game = new Game(ReplayabilityService.createChallengeGameConfig(challenge, baseConfig))
+
+    expect(game.playerDeck.getCards().map(card => card.name).sort()).toEqual([...challenge.rules.startingCards!].sort())
+    expect(() => new Game({ ...baseConfig, startingCards: ['存在しないカード'] })).toThrow('Unknown starting card: 存在しないカード')
+  })
+
+  it('使用禁止カードは保険の選択肢から除き、活力倍率を初期活力に掛ける', async () => {
+    const challenge = findChallenge('保険なしサバイバル')
+    const config = ReplayabilityService.createChallengeGameConfig(challenge, baseConfig)
+    expect(config.startingVitality).toBe(36)
+
+    const game = new Game(config)
+    game.start()
+    challenge.rules.bannedCards!.forEach(name => expect(game.isCardBanned(name)).toBe(true))
+    expect(game.isCardBanned('朝のジョギング')).toBe(false)
+
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+
+    // 成功するまで一番易しいチャレンジを繰り返す
+    while (game.status === 'in_progress' && game.stats.successfulChallenges === 0 && game.turn <= 10) {
+      game.startChallengePhase()
+      game.startChallenge(game.cardChoices!.reduce((easiest, card) => card.power < easiest.power ? card : easiest))
+      await game.drawCards(5)
+      game.hand.forEach(card => game.toggleCardSelection(card))
+      game.resolveChallenge()
+
+      if (game.pendingInsuranceClaim) {
+        await game.resolveInsuranceClaim()
+      }
+      if (game.stats.successfulChallenges > 0 || game.status !== 'in_progress') break
+      game.nextTurn()
+    }
+
+    // 保険の選択肢がすべて禁止されているので保険選択フェーズを飛ばす
+    expect(game.stats.successfulChallenges).toBeGreaterThan(0)
+    expect(game.insuranceTypeChoices ?? []).toHaveLength(0)
+    expect(game.phase).toBe('resolution')
+  })
+
+  it('制限時間内の勝利でクリアし、クリア後の失敗で未クリアに戻らない', () => {
+    const challenge = ReplayabilityService.startChallenge(findChallenge('スピードマスター'))
+    expect(challenge.completionStatus).toBe('in_progress')
+
+    const late = ReplayabilityService.recordChallengeAttempt(challenge, { outcome: 'victory', score: 80, elapsedSeconds: 601 })
+    expect(late.completionStatus).toBe('failed')
+
+    const cleared = ReplayabilityService.recordChallengeAttempt(late, { outcome: 'victory', score: 50, elapsedSeconds: 600 })
+    expect(cleared.completionStatus).toBe('completed')
+    expect(cleared.bestScore).toBe(80)
+
+    const retried = ReplayabilityService.recordChallengeAttempt(ReplayabilityService.startChallenge(cleared), { outcome: 'game_over', score: 120, elapsedSeconds: 100 })
+    expect(retried.completionStatus).toBe('completed')
+    expect(retried.bestScore).toBe(120)
+  })
+
+  it('経験値倍率とクリア報酬をゲーム終了時の経験値に反映する', () => {
+    const summary = {
+      outcome: 'game_over' as const,
+      stats: {
+        totalChallenges: 6,
+        successfulChallenges: 4,
+        failedChallenges: 2,
+        cardsAcquired: 0,
+        highestVitality: 30,
+        turnsPlayed: 6
+      },
+      playTimeMinutes: 5,
+      bestStreak: 2,
+      achievementExperience: 0
+    }
+
+    expect(PlayerProgressionService.calculateGameExperience(summary, 1)).toBe(40)
+    expect(PlayerProgressionService.calculateGameExperience({ ...summary, experienceMultiplier: 1.5, bonusExperience: 500 }, 1)).toBe(560)
+  })
+})
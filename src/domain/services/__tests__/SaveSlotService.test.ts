@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { Game } from '../../entities/Game'
+import { Card } from '../../entities/Card'
+import { SaveSlotService } from '../SaveSlotService'
+import type { GameConfig, SaveData } from '../../types/game.types'
+
+describe('SaveSlotService - セーブスロット', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 19,
+    balanceConfig: { lifeEventSettings: { enabled: false } }
+  }
+
+  // チャレンジに成功して保険選択の途中まで進める
+  const createGameInInsuranceSelection = async () => {
+    const game = new Game(config)
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    game.startChallengePhase()
+    game.startChallenge(game.cardChoices!.find(choice => choice.type !== 'dream')!)
+    const card = new Card({
+      id: 'enough-power',
+      name: '十分な力',
+      description: '',
+      type: 'life',
+      power: game.currentChallenge!.power,
+      cost: 0,
+      effects: []
+    })
+    game.addCardToHand(card)
+    game.toggleCardSelection(card)
+    expect(game.resolveChallenge().success).toBe(true)
+    return game
+  }
+
+  // IndexedDB・LocalStorageへの保存と同じくJSONを経由させる
+  const roundTrip = (saveData: SaveData): SaveData => JSON.parse(JSON.stringify(saveData))
+
+  it('フェーズの途中の状態を保存し、同じ状態から再開できる', async () => {
+    const game = await createGameInInsuranceSelection()
+    expect(game.phase).toBe('insurance_type_selection')
+
+    const saveData = roundTrip(SaveSlotService.createSaveData(game))
+    expect(saveData.metadata.preview).toEqual({
+      stage: 'youth',
+      turn: game.turn,
+      phase: 'insurance_type_selection',
+      vitality: game.vitality,
+      maxVitality: game.maxVitality,
+      insurances: [],
+      dreamName: game.selectedDream!.name,
+      isEndless: false
+    })
+
+    const restored = SaveSlotService.restoreGame(saveData)
+    expect(restored.phase).toBe('insurance_type_selection')
+    expect(restored.insuranceTypeChoices).toEqual(game.insuranceTypeChoices)
+
+    // 再開後も元のゲームと同じ展開になる
+    const choice = game.insuranceTypeChoices![0]!
+    game.selectInsuranceType(choice.insuranceType, 'term')
+    restored.selectInsuranceType(choice.insuranceType, 'term')
+    game.nextTurn()
+    restored.nextTurn()
+    expect(restored.activeInsurances.map(card => card.name)).toEqual(game.activeInsurances.map(card => card.name))
+    expect(restored.vitality).toBe(game.vitality)
+    expect(restored.toSnapshot().random).toEqual(game.toSnapshot().random)
+  })
+
+  it('「続きから」は再開できるセーブのうち最も新しいものを選ぶ', async () => {
+    const game = await createGameInInsuranceSelection()
+    const older = { ...SaveSlotService.createSaveData(game, null, new Date('2026-01-01T00:00:00Z')), id: '1' }
+    const newer = { ...SaveSlotService.createSaveData(game, null, new Date('2026-01-02T00:00:00Z')), id: 'auto' }
+    const finished = {
+      ...SaveSlotService.createSaveData(game, null, new Date('2026-01-03T00:00:00Z')),
+      id: '2'
+    }
+    finished.gameState = { ...finished.gameState, status: 'game_over' }
+
+    expect(SaveSlotService.findLatest([older, finished, newer])?.id).toBe('auto')
+    expect(SaveSlotService.findLatest([finished])).toBeUndefined()
+  })
+
+  it('形式バージョンが異なるセーブデータは復元しない', async () => {
+    const game = await createGameInInsuranceSelection()
+    const saveData = { ...SaveSlotService.createSaveData(game), version: 999 }
+    expect(SaveSlotService.isResumable(saveData)).toBe(false)
+    expect(() => SaveSlotService.restoreGame(saveData)).toThrow('Unsupported save data version: 999')
+  })
+})
@@ -3,6 +3,11 @@
  */
 export type CardType = 'life' | 'insurance' | 'trouble' | 'challenge' | 'dream' | 'skill' | 'combo' | 'event' | 'legendary' | 'aging' | 'final_challenge'
 
+/**
+ * チャレンジ成功時の報酬になるカードタイプ
+ */
+export type RewardCardType = Extract<CardType, 'skill' | 'combo' | 'event' | 'legendary'>
+
 /**
  * カードカテゴリー（人生カード用）
  */
@@ -46,6 +51,11 @@ export type DreamCategory = 'physical' | 'intellectual' | 'mixed'
  */
 export type RewardType = 'insurance' | 'vitality' | 'card'
 
+/**
+ * リスク・リワードチャレンジのリスクレベル
+ */
+export type RiskLevel = 'low' | 'medium' | 'high' | 'extreme'
+
 /**
  * カード効果タイプ
  */
@@ -115,6 +125,8 @@ export interface ICard {
   remainingTurns?: number // 定期保険の残りターン数（定期保険のみ）
   insuranceEffectType?: InsuranceEffectType // 保険効果タイプ
   insuranceTriggerType?: InsuranceTriggerType // トリガー型保険の発動条件
+  insuranceTrigger?: InsuranceTriggerCondition // 発動条件の詳細
+  insurancePayout?: InsurancePayout // 請求時の支払い内容
 
   // 落とし穴カード固有
   penalty?: number // ペナルティ値
@@ -221,6 +233,40 @@ export type InsuranceTriggerType =
   | 'on_heavy_damage'  // 10ダメージ以上受ける時（医療保険）
   | 'on_aging_gameover' // 老化カード3枚で手詰まり時（障害保険）
   | 'on_demand'        // いつでも発動可能（就業不能保険）
+  | 'on_stage_change'  // ステージが変わる時
+  | 'on_consecutive_failures' // チャレンジに続けて失敗した時
+  | 'on_challenge_category'   // 特定カテゴリーのチャレンジに失敗する時
+
+/**
+ * トリガー型保険の発動条件の詳細（省略した項目は発動条件ごとの既定値）
+ */
+export interface InsuranceTriggerCondition {
+  damageThreshold?: number // on_heavy_damage: 発動するダメージ量（既定10）
+  consecutiveFailures?: number // on_consecutive_failures: 発動する連続失敗回数（既定3）
+  challengeCategory?: DreamCategory // on_challenge_category: 対象のチャレンジカテゴリー
+  stage?: GameStage // on_stage_change: 対象の移行先ステージ（省略時はすべて）
+}
+
+/**
+ * 保険金の支払い効果
+ */
+export type InsurancePayoutEffect =
+  | 'heal'           // 活力を回復
+  | 'reduce_damage'  // 保留中のダメージを軽減
+  | 'redraw_hand'    // 手札を捨てて引き直す（支払額は引く枚数）
+  | 'skip_challenge' // 現在のチャレンジをスキップ
+
+/**
+ * トリガー型保険の支払い内容（省略時は発動条件ごとの既定値）
+ * 支払額 = floor(基準額 × payoutRatio) - deductible（基準額は amount、なければ coverage × coverageRate）
+ */
+export interface InsurancePayout {
+  effect: InsurancePayoutEffect
+  amount?: number // 固定の基準額
+  coverageRate?: number // 保障額に対する基準額の割合
+  payoutRatio?: number // 一部支払いの割合（0〜1、既定1）
+  deductible?: number // 免責額
+}
 
 /**
  * 拡張カードインターフェース
@@ -237,4 +283,16 @@ export interface IAdvancedCard extends ICard {
   unlockCondition?: string // アンロック条件
   // チャレンジカード用
   rewardType?: RewardType // チャレンジ成功時の報酬タイプ
-}
\ No newline at end of file
+}
+/**
+ * カードのスナップショット（JSONとして保存可能な形式）
+ */
+export interface CardSnapshot extends IAdvancedCard {
+  // リスク・リワードチャレンジ固有の情報
+  riskReward?: {
+    riskLevel: RiskLevel
+    successBonus: number
+    failurePenalty: number
+    insuranceImmunity: boolean
+  }
+}
@@ -0,0 +1,132 @@
+import type {
+  CardEffect,
+  DreamCategory,
+  GameStage,
+  InsuranceEffectType,
+  InsurancePayout,
+  InsuranceTriggerCondition,
+  InsuranceTriggerType,
+  InsuranceType,
+  LifeCardCategory,
+  SkillRarity
+} from './card.types'
+
+/**
+ * カードパックの形式
+ *
+ * カードの定義をJSONで記述し、TypeScriptを変更せずにゲームの内容を編集できるようにする。
+ * 各項目は省略可能で、複数のパックを指定すると順に重ねて読み込む（同じ項目の同名カードは後のパックが上書き）。
+ * JSON Schema は src/domain/data/cardPacks/card-pack.schema.json
+ */
+export interface CardPack {
+  id: string
+  name: string
+  description?: string
+  starterLifeCards?: LifeCardDefinition[] // 初期デッキの人生カード
+  insuranceTypes?: InsuranceTypeDefinition[] // チャレンジ成功時に提示する保険
+  challenges?: StageCardDefinitions<ChallengeDefinition> // ステージごとのチャレンジ
+  dreams?: ChallengeDefinition[] // 夢カード
+  agingCard?: AgingCardDefinition // 老化カード
+  skills?: StageCardDefinitions<SkillDefinition> // ステージごとのスキルカード
+  combos?: ComboDefinition[]
+  events?: StageCardDefinitions<EventDefinition> // ステージごとのイベントカード
+  legendaries?: LegendaryDefinition[]
+}
+
+/**
+ * ステージごとのカード定義
+ */
+export type StageCardDefinitions<T> = Partial<Record<GameStage, T[]>>
+
+/**
+ * 指定したパックを重ねたカード定義（CardFactory がカードを生成する元データ）
+ */
+export interface CardCatalog {
+  packIds: string[]
+  starterLifeCards: LifeCardDefinition[]
+  insuranceTypes: InsuranceTypeDefinition[]
+  challenges: Record<GameStage, ChallengeDefinition[]>
+  dreams: ChallengeDefinition[]
+  agingCard: AgingCardDefinition
+  skills: Record<GameStage, SkillDefinition[]>
+  combos: ComboDefinition[]
+  events: Record<GameStage, EventDefinition[]>
+  legendaries: LegendaryDefinition[]
+}
+
+export interface LifeCardDefinition {
+  name: string
+  description: string
+  category: LifeCardCategory
+  power: number
+  cost: number
+}
+
+export interface InsuranceTypeDefinition {
+  insuranceType: InsuranceType
+  name: string
+  description: string
+  power: number
+  insuranceEffectType: InsuranceEffectType
+  insuranceTriggerType?: InsuranceTriggerType // トリガー型保険では必須
+  insuranceTrigger?: InsuranceTriggerCondition // 発動条件の詳細（省略時は既定値）
+  insurancePayout?: InsurancePayout // 請求時の支払い内容（省略時は発動条件ごとの既定値）
+  coverage?: number // 保障額（保障額に比例する支払いに使う）
+  termOption: { cost: number; duration: number; description: string } // 定期（プランA）
+  wholeLifeOption: { cost: number; description: string } // 終身（プランB）
+}
+
+export interface ChallengeDefinition {
+  name: string
+  description: string
+  power: number
+  damage: number // 失敗時のペナルティ
+  dreamCategory?: DreamCategory
+  isDream?: boolean
+}
+
+export interface AgingCardDefinition {
+  name: string
+  description: string
+  effects: CardEffect[]
+}
+
+export interface SkillDefinition {
+  name: string
+  description: string
+  rarity: SkillRarity
+  power: number
+  cooldown: number
+}
+
+export interface ComboDefinition {
+  name: string
+  description: string
+  power: number
+  requiredCards: string[] // 一緒に使う必要があるカテゴリー・タイプ・カード名
+  comboBonus: number
+}
+
+export interface EventDefinition {
+  name: string
+  description: string
+  power: number
+  duration: number
+  globalEffect: boolean
+}
+
+export interface LegendaryDefinition {
+  name: string
+  description: string
+  power: number
+  unlockCondition: string
+}
+
+/**
+ * カードパックの検証結果
+ */
+export interface CardPackValidationResult {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+}
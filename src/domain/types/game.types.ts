@@ -1,7 +1,12 @@
-import type { Difficulty, GameStage, InsuranceType, ICard, InsuranceTriggerType } from './card.types'
+import type { CardSnapshot, Difficulty, GameStage, InsuranceType, ICard, InsuranceTriggerType, RiskLevel } from './card.types'
 export type { ICard }
 import type { Card } from '../entities/Card'
 import type { Deck } from '../entities/Deck'
+import type { PlayerHistory } from '../services/InsurancePremiumCalculationService'
+import type { AIStrategyType } from '../services/AIStrategyService'
+import type { DailyChallenge, RandomEvent } from '../services/ReplayabilityService'
+import type { RiskFactorType } from '../valueObjects/RiskFactor'
+import type { IdSequenceState } from '../../common/IdGenerator'
 
 /**
  * ゲーム状態
@@ -62,6 +67,17 @@ export interface GameConfig {
   // バランス調整設定
   balanceConfig?: BalanceConfig
   characterId?: string // 選択されたキャラクターID
+  seed?: number // 乱数シード（同じシードなら同じカード展開になる）
+  // プレイヤー進行（メタプログレッション）による補正
+  vitalityBonus?: number // 初期活力と最大活力への加算
+  unlockedFeatures?: string[] // 解放済み機能（未指定なら全機能を利用可能）
+  // 日替りチャレンジなどの特別ルール
+  startingCards?: string[] // 初期デッキを構成するカード名（未指定なら標準の初期デッキ）
+  bannedCards?: string[] // 使用禁止カード名（デッキ・チャレンジ・保険の選択肢から除外）
+  endless?: boolean // エンドレスモード（充実期の後も難易度を上げながら続き、生き延びたターン数を競う）
+  cardPacks?: string[] // 使うカードパックのID（指定順に重ねる。未指定なら標準パック）
+  rewardRarityBonus?: number // 報酬カードのレア度ボーナス（大きいほどレア度の高い報酬カードが出やすい）
+  dynamicDifficulty?: boolean // 直近の成績でチャレンジの必要パワーと報酬を調整する（通常プレイ用。未指定なら調整しない）
 }
 
 /**
@@ -74,8 +90,22 @@ export interface Character {
   initialVitalityModifier: number
   initialSavings?: number
   specialAbility: string
+  requiredFeature?: string // 選択に必要な解放済み機能
 }
 
+/**
+ * プレイヤーレベルで解放される機能
+ */
+export const PROGRESSION_FEATURES = {
+  adventurer: '冒険家',
+  minimalist: 'ミニマリスト',
+  riskChallenges: 'リスクチャレンジ',
+  skillCards: 'スキルカード',
+  comboCards: 'コンボシステム',
+  eventCards: 'イベントカード',
+  legendaryCards: 'レジェンダリーカード'
+} as const
+
 /**
  * 利用可能なキャラクターリスト
  */
@@ -92,14 +122,16 @@ export const AVAILABLE_CHARACTERS: Character[] = [
     name: '冒険家',
     description: 'リスク志向。初期活力は低いが、チャンスに強い。',
     initialVitalityModifier: -5,
-    specialAbility: 'risk_taker'
+    specialAbility: 'risk_taker',
+    requiredFeature: PROGRESSION_FEATURES.adventurer
   },
   {
     id: 'minimalist',
     name: 'ミニマリスト',
     description: '効率重視。バランスの取れた生活スタイル。',
     initialVitalityModifier: 10,
-    specialAbility: 'efficiency'
+    specialAbility: 'efficiency',
+    requiredFeature: PROGRESSION_FEATURES.minimalist
   }
 ]
 
@@ -132,6 +164,10 @@ export interface BalanceConfig {
     failurePenaltyRatio?: number
     enableDynamicDifficulty?: boolean
   }
+  lifeEventSettings?: {
+    enabled?: boolean
+    eventChance?: number
+  }
   progressionSettings?: {
     maxTurns?: number
     stageTransitionTurns?: {
@@ -192,9 +228,55 @@ export interface ChallengeResult {
     insurance: number
     burden: number
     total: number
+    skill?: number // スキルカード（クールダウン中は0）
+    combo?: number // コンボ成立ボーナス
+    event?: number // イベントカードと発動中のイベント
+    effect?: number // カード効果（CardEffect）によるパワー
+  }
+  // リスク・リワードチャレンジの結果（リスクチャレンジのみ）
+  riskOutcome?: {
+    riskLevel: RiskLevel
+    insuranceImmunity: boolean
+    successBonus: number // 成功時に加わった活力（失敗時は0）
+    failurePenalty: number // 失敗時に追加で受けたダメージ（成功時は0）
   }
 }
 
+/**
+ * リスク・リワードチャレンジに挑む前に提示する損得の見込み
+ */
+export interface ChallengeStakes {
+  riskLevel: RiskLevel
+  insuranceImmunity: boolean
+  expectedGain: number // 成功時の活力増加（過労ダメージを除く）
+  expectedLoss: number // 失敗時の活力減少（保険による軽減込み）
+}
+
+/**
+ * 動的難易度によるチャレンジの調整記録
+ * 適応あり・なしのシミュレーションを比較できるよう、調整したチャレンジごとに残す
+ */
+export interface DifficultyAdjustment {
+  turn: number
+  stage: GameStage
+  challengeName: string
+  originalPower: number
+  adjustedPower: number
+  rewardMultiplier: number // 成功時の活力報酬に掛かる倍率
+  successRate: number // 調整の根拠にした最近のチャレンジ成功率（0-1）
+}
+
+/**
+ * 発動中のイベント（イベントカードの継続効果）
+ */
+export interface ActiveEvent {
+  name: string
+  power: number // 毎回のチャレンジに加わるパワー
+  remainingTurns: number // 効果が続く残りターン数（現在のターンを含む）
+  effects?: string[] // 表示用の効果の説明（ライフイベントの一時効果）
+  vitalityPerTurn?: number // 継続中、ターン開始時の活力の増減
+}
+
 /**
  * 保険期限切れ通知
  */
@@ -212,6 +294,7 @@ export interface TurnResult {
   insuranceExpirations?: InsuranceExpirationNotice
   newExpiredCount: number
   remainingInsuranceCount: number
+  lifeEvent?: RandomEvent // ターン開始時に起きたライフイベント
 }
 
 /**
@@ -327,3 +410,219 @@ export interface IGameState {
   startedAt?: Date
   completedAt?: Date
 }
+
+/**
+ * ゲームスナップショットの形式バージョン
+ * 形式を変更した場合はインクリメントし、Game.fromSnapshotで旧形式を移行する
+ */
+export const GAME_SNAPSHOT_VERSION = 1
+
+/**
+ * デッキのスナップショット
+ */
+export interface DeckSnapshot {
+  name: string
+  cards: CardSnapshot[]
+}
+
+/**
+ * ゲームの完全なスナップショット（JSONとして保存・復元可能な形式）
+ *
+ * getSnapshot()が返すIGameStateと異なり、山札・捨て札・老化デッキ・
+ * 保留中の保険請求・学習履歴・乱数状態まで含み、復元後もそのままプレイを継続できる。
+ */
+export interface GameSnapshot {
+  version: number
+  savedAt: string // ISO 8601
+
+  id: string
+  status: GameStatus
+  phase: GamePhase
+  stage: GameStage
+  turn: number
+  score: number
+  config: GameConfig
+
+  // 値オブジェクト
+  vitality: { value: number; max: number }
+  insuranceBurden: number
+  riskFactors: { type: RiskFactorType; value: number }[]
+
+  // 乱数状態
+  random: { seed: number; state: number }
+
+  // カード管理
+  hand: CardSnapshot[]
+  discardPile: CardSnapshot[]
+  playerDeck: DeckSnapshot
+  challengeDeck: DeckSnapshot
+  agingDeck: DeckSnapshot
+  selectedCardIds: string[]
+  cardChoices: CardSnapshot[] | undefined
+  managedInsuranceMarket: CardSnapshot[]
+  managedActiveInsurances: CardSnapshot[]
+
+  // チャレンジ・保険
+  currentChallenge: CardSnapshot | undefined
+  selectedDream: CardSnapshot | undefined
+  activeInsurances: CardSnapshot[]
+  expiredInsurances: CardSnapshot[]
+  insuranceMarket: CardSnapshot[]
+  insuranceTypeChoices: InsuranceTypeChoice[] | undefined
+  rewardCardChoices?: CardSnapshot[] | undefined
+  activeEvents?: ActiveEvent[] | undefined
+  cardVitalityBonus?: number | undefined
+  pendingInsuranceClaim: (Omit<PendingInsuranceClaim, 'insurance'> & { insurance: CardSnapshot }) | undefined
+  pendingLifeEventId?: string | undefined
+  lifeEventRandomState?: number | undefined
+  idSequence?: IdSequenceState | undefined
+
+  // 進行状況
+  stats: PlayerStats
+  playerHistory: PlayerHistory
+  learningHistory: [string, number][]
+  challengeDifficultyModifier: number
+  recentChallengeResults?: number[] | undefined // 動的難易度の根拠（成功1・失敗0）
+  difficultyAdjustments?: DifficultyAdjustment[] | undefined
+  consecutiveFailures?: number | undefined // 連続失敗で発動する保険の判定用
+  ai: { enabled: boolean; strategy: AIStrategyType }
+  actionLog?: GameActionLog | undefined
+
+  startedAt?: string | undefined // ISO 8601
+  completedAt?: string | undefined // ISO 8601
+}
+
+/**
+ * バージョンのない旧形式（v0）のカード
+ * Cardをそのまま JSON にしたもので、パワーとコストは値オブジェクトのまま保存されている
+ */
+export type LegacyCardSnapshot = Partial<CardSnapshot> & Pick<CardSnapshot, 'id' | 'name' | 'type'> & {
+  _power?: { value: number }
+  _cost?: { value: number }
+}
+
+/**
+ * バージョンのない旧形式（v0）のスナップショット
+ * GameSnapshot の導入前に getSnapshot() の結果をそのまま JSON にして保存していたもの。
+ * 山札・乱数状態などは含まれないため、Game.fromSnapshot は同じ設定の新しいゲームで補って移行する
+ */
+export interface LegacyGameSnapshot {
+  version?: undefined
+  id: string
+  status: GameStatus
+  phase: GamePhase
+  stage: GameStage
+  turn: number
+  vitality: number
+  maxVitality?: number
+  insuranceBurden?: number
+  score?: number
+  playerDeck?: { name?: string; cards: LegacyCardSnapshot[] }
+  challengeDeck?: { name?: string; cards: LegacyCardSnapshot[] }
+  hand?: LegacyCardSnapshot[]
+  discardPile?: LegacyCardSnapshot[]
+  currentChallenge?: LegacyCardSnapshot
+  selectedCards?: LegacyCardSnapshot[]
+  cardChoices?: LegacyCardSnapshot[]
+  insuranceTypeChoices?: InsuranceTypeChoice[]
+  activeInsurances?: LegacyCardSnapshot[]
+  insuranceCards?: LegacyCardSnapshot[] // activeInsurances の旧名
+  expiredInsurances?: LegacyCardSnapshot[]
+  stats?: Partial<PlayerStats>
+  config?: GameConfig
+  startedAt?: string // ISO 8601
+  completedAt?: string // ISO 8601
+}
+
+/**
+ * プレイヤーの意思決定（アクションログの1件）
+ *
+ * カードはIDではなく選択肢・手札・有効な保険内の位置で参照する。
+ * カードIDは実行ごとに変わるが、同じシードで同じ操作を行えば位置は一致するため、
+ * 新しいGameに対してそのまま再実行できる。
+ */
+export type GameAction =
+  | { type: 'start' }
+  | { type: 'select_character'; characterId: string }
+  | { type: 'start_dream_selection' }
+  | { type: 'select_dream'; choiceIndex: number }
+  | { type: 'draw_cards'; count: number }
+  | { type: 'start_challenge_phase' }
+  | { type: 'draw_challenge_card' }
+  // 選択肢以外のカード（直接引いたカードなど）に挑戦した場合はcardを記録する
+  | { type: 'start_challenge'; choiceIndex?: number | undefined; card?: CardSnapshot | undefined }
+  | { type: 'toggle_card_selection'; handIndex: number }
+  | { type: 'resolve_challenge' }
+  | { type: 'select_card'; choiceIndex: number }
+  | { type: 'select_insurance_type'; insuranceType: string; durationType: 'term' | 'whole_life' }
+  | { type: 'skip_insurance_selection' }
+  | { type: 'select_reward_card'; choiceIndex: number }
+  | { type: 'skip_reward_card' }
+  | { type: 'renew_insurance'; insuranceIndex: number }
+  | { type: 'decline_insurance_renewal'; insuranceIndex: number }
+  | { type: 'trigger_insurance_claim'; insuranceIndex: number; triggerType: InsuranceTriggerType }
+  | { type: 'accept_insurance_claim' }
+  | { type: 'decline_insurance_claim' }
+  | { type: 'choose_life_event'; choiceIndex: number }
+  | { type: 'next_turn' }
+  | { type: 'advance_stage' }
+  | { type: 'refill_challenge_deck' }
+
+/**
+ * ゲームのアクションログ
+ */
+export interface GameActionLog {
+  config: GameConfig // 記録開始時の設定（シードを含む）
+  actions: GameAction[]
+}
+
+/**
+ * リプレイファイル（.replay.json）の形式バージョン
+ */
+export const GAME_REPLAY_VERSION = 1
+
+/**
+ * リプレイファイル（.replay.json）の内容
+ *
+ * configとactionsから新しいGameを再実行し、finalStateと一致するか検証できる。
+ */
+export interface GameReplay extends GameActionLog {
+  version: number
+  createdAt: string // ISO 8601
+  finalState: GameSnapshot
+}
+
+/**
+ * セーブデータ（セーブスロットに保存する内容）
+ *
+ * gameStateはGame.toSnapshot()の結果で、フェーズの途中（保険選択中など）でもそのまま再開できる。
+ */
+export interface SaveData {
+  version: number // gameStateの形式バージョン（GAME_SNAPSHOT_VERSION）
+  gameState: GameSnapshot
+  metadata: SaveMetadata
+}
+
+/**
+ * セーブデータの付加情報
+ */
+export interface SaveMetadata {
+  savedAt: string // ISO 8601
+  playtime: number // ゲーム開始からの経過時間（ミリ秒）
+  preview: SaveSlotPreview
+  challenge?: DailyChallenge | undefined // 日替り・週替りチャレンジ中のセーブ
+}
+
+/**
+ * セーブスロットの一覧に表示する概要
+ */
+export interface SaveSlotPreview {
+  stage: GameStage
+  turn: number
+  phase: GamePhase
+  vitality: number
+  maxVitality: number
+  insurances: string[] // 有効な保険の名前
+  dreamName?: string | undefined
+  isEndless: boolean
+}
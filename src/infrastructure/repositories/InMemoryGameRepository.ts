@@ -1,5 +1,6 @@
 import type { IGameRepository } from '../../domain/repositories/IGameRepository'
 import type { Game } from '../../domain/entities/Game'
+import { Game as GameEntity } from '../../domain/entities/Game'
 
 /**
  * ゲームリポジトリのインメモリ実装
@@ -52,9 +53,7 @@ export class InMemoryGameRepository implements IGameRepository {
    * ゲームオブジェクトをクローン（防御的コピー）
    */
   private cloneGame(game: Game): Game {
-    // 簡易的なディープクローン
-    // 実際のプロダクションコードでは、より堅牢な実装が必要
-    return JSON.parse(JSON.stringify(game))
+    return GameEntity.fromSnapshot(game.toSnapshot())
   }
 
   /**
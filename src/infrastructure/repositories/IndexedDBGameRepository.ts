@@ -9,6 +9,7 @@ import type { IGameRepository } from '@/domain/repositories/IGameRepository'
 import type { Game } from '@/domain/entities/Game'
 import { IndexedDBManager, type SerializedGame } from '../storage/IndexedDBManager'
 import { Game as GameEntity } from '@/domain/entities/Game'
+import type { GameSnapshot, LegacyGameSnapshot } from '@/domain/types/game.types'
 
 export class IndexedDBGameRepository implements IGameRepository {
   private readonly indexedDB: IndexedDBManager
@@ -244,104 +245,12 @@ export class IndexedDBGameRepository implements IGameRepository {
   
   /**
    * SerializedGameからGameインスタンスを復元
+   * バージョンのない旧形式の保存データはGame.fromSnapshotがv0として移行する
    */
   private async deserializeGame(serialized: SerializedGame): Promise<Game> {
     try {
-      const gameState = JSON.parse(serialized.data)
-      
-      // Gameインスタンスを作成
-      const game = new GameEntity(gameState.config)
-      
-      // 基本プロパティを復元
-      Object.assign(game, {
-        id: gameState.id,
-        status: gameState.status,
-        phase: gameState.phase,
-        stage: gameState.stage,
-        turn: gameState.turn,
-        vitality: gameState.vitality,
-        maxVitality: gameState.maxVitality,
-        insuranceBurden: gameState.insuranceBurden,
-        startedAt: serialized.startedAt,
-        completedAt: serialized.completedAt
-      })
-      
-      // 統計情報を復元
-      if (gameState.stats) {
-        game.stats = { ...gameState.stats }
-      }
-      
-      // カード情報を復元
-      if (gameState.hand) {
-        game.hand = gameState.hand.map((cardData: any) => ({
-          id: cardData.id,
-          name: cardData.name,
-          type: cardData.type,
-          power: cardData.power,
-          cost: cardData.cost || 0,
-          description: cardData.description || '',
-          rarity: cardData.rarity || 'common',
-          stage: cardData.stage || 'youth',
-          insuranceType: cardData.insuranceType,
-          durationType: cardData.durationType,
-          imageUrl: cardData.imageUrl,
-          effect: cardData.effect
-        }))
-      }
-      
-      if (gameState.selectedCards) {
-        game.selectedCards = gameState.selectedCards.map((cardData: any) => ({
-          id: cardData.id,
-          name: cardData.name,
-          type: cardData.type,
-          power: cardData.power,
-          cost: cardData.cost || 0,
-          description: cardData.description || '',
-          rarity: cardData.rarity || 'common',
-          stage: cardData.stage || 'youth',
-          insuranceType: cardData.insuranceType,
-          durationType: cardData.durationType,
-          imageUrl: cardData.imageUrl,
-          effect: cardData.effect
-        }))
-      }
-      
-      if (gameState.insuranceCards) {
-        game.insuranceCards = gameState.insuranceCards.map((cardData: any) => ({
-          id: cardData.id,
-          name: cardData.name,
-          type: cardData.type,
-          power: cardData.power,
-          cost: cardData.cost || 0,
-          description: cardData.description || '',
-          rarity: cardData.rarity || 'common',
-          stage: cardData.stage || 'youth',
-          insuranceType: cardData.insuranceType,
-          durationType: cardData.durationType,
-          imageUrl: cardData.imageUrl,
-          effect: cardData.effect,
-          remainingTurns: cardData.remainingTurns
-        }))
-      }
-      
-      if (gameState.currentChallenge) {
-        game.currentChallenge = {
-          id: gameState.currentChallenge.id,
-          name: gameState.currentChallenge.name,
-          type: gameState.currentChallenge.type,
-          power: gameState.currentChallenge.power,
-          cost: gameState.currentChallenge.cost || 0,
-          description: gameState.currentChallenge.description || '',
-          rarity: gameState.currentChallenge.rarity || 'common',
-          stage: gameState.currentChallenge.stage || 'youth',
-          insuranceType: gameState.currentChallenge.insuranceType,
-          durationType: gameState.currentChallenge.durationType,
-          imageUrl: gameState.currentChallenge.imageUrl,
-          effect: gameState.currentChallenge.effect
-        }
-      }
-      
-      return game
+      const snapshot = JSON.parse(serialized.data) as GameSnapshot | LegacyGameSnapshot
+      return GameEntity.fromSnapshot(snapshot)
     } catch (error) {
       console.error('deserializeGame error:', error)
       throw new Error('ゲームデータの復元に失敗しました')
@@ -352,8 +261,6 @@ export class IndexedDBGameRepository implements IGameRepository {
    * ゲームオブジェクトをクローン（防御的コピー）
    */
   private cloneGame(game: Game): Game {
-    // 簡易的なディープクローン
-    // 実際のプロダクションコードでは、より堅牢な実装が必要
-    return JSON.parse(JSON.stringify(game))
+    return GameEntity.fromSnapshot(game.toSnapshot())
   }
 }
\ No newline at end of file
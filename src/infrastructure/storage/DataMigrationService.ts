@@ -7,7 +7,7 @@
 
 import { IndexedDBManager } from './IndexedDBManager'
 import { secureLocalStorage } from '@/utils/security'
-import type { SaveData } from '@/game/state/GameStateManager'
+import type { SaveData } from '@/domain/types/game.types'
 import type { StatisticsData } from '@/domain/services/StatisticsDataService'
 
 export interface MigrationResult {
@@ -0,0 +1,67 @@
+/**
+ * ファイルシステムストレージ
+ *
+ * CUI（Node.js）用の保存先。キーごとに1つのJSONファイルとして読み書きする。
+ * LocalStorageと同じ getItem / setItem / removeItem を持つため、StorageAdapterの保存先として差し替えられる。
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { KeyValueStorage } from './StorageAdapter'
+
+export class FileSystemStorage implements KeyValueStorage {
+  /**
+   * @param directory 保存先ディレクトリ（存在しなければ最初の保存時に作成する）
+   */
+  constructor(private readonly directory: string = 'save-data') {}
+
+  async setItem(key: string, value: unknown): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+
+    // 書き込み途中で中断されても壊れたファイルが残らないよう、一時ファイルに書いてから置き換える
+    const filePath = this.getFilePath(key)
+    const tempPath = `${filePath}.tmp`
+    await writeFile(tempPath, JSON.stringify(value, null, 2), 'utf-8')
+    await rename(tempPath, filePath)
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    try {
+      const content = await readFile(this.getFilePath(key), 'utf-8')
+      return JSON.parse(content) as T
+    } catch (error) {
+      if (this.isNotFound(error)) return null
+      throw new Error(`ストレージ読み込みに失敗: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await rm(this.getFilePath(key), { force: true })
+  }
+
+  /**
+   * 保存されている全てのキー
+   */
+  async keys(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory)
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+    } catch (error) {
+      if (this.isNotFound(error)) return []
+      throw error
+    }
+  }
+
+  /**
+   * キーに対応するファイルのパス（ファイル名に使えない文字は置き換える）
+   */
+  private getFilePath(key: string): string {
+    return join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`)
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return (error as { code?: string } | undefined)?.code === 'ENOENT'
+  }
+}
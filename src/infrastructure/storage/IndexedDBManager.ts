@@ -5,7 +5,7 @@
  * LocalStorageの5MB制限を超えるデータにも対応
  */
 
-import type { SaveData } from '@/game/state/GameStateManager'
+import type { SaveData } from '@/domain/types/game.types'
 import type { StatisticsData } from '@/domain/services/StatisticsDataService'
 import type { Game } from '@/domain/entities/Game'
 
@@ -58,7 +58,7 @@ export interface SerializedGame {
   vitality: number
   turn: number
   score: number
-  data: string // JSON stringified game data
+  data: string // JSON stringified GameSnapshot (Game.toSnapshot())
 }
 
 export interface Achievement {
@@ -335,7 +335,7 @@ export class IndexedDBManager {
       vitality: game.vitality,
       turn: game.turn,
       score: game.stats.score || 0,
-      data: JSON.stringify(game.getSnapshot())
+      data: JSON.stringify(game.toSnapshot())
     }
     
     return new Promise((resolve, reject) => {
@@ -3,15 +3,29 @@
  * 
  * LocalStorageとIndexedDBの統一インターフェースを提供
  * 自動的に適切なストレージを選択し、フォールバック機能を提供
+ * CUIではファイルシステム（FileSystemStorage）を保存先にできる
  */
 
 import { IndexedDBManager } from './IndexedDBManager'
 import { DataMigrationService } from './DataMigrationService'
 import { secureLocalStorage } from '@/utils/security'
-import type { SaveData } from '@/game/state/GameStateManager'
+import type { SaveData } from '@/domain/types/game.types'
 import type { StatisticsData } from '@/domain/services/StatisticsDataService'
+import { AchievementSystemService, type PlayerAchievements } from '@/domain/services/AchievementSystemService'
+import { PlayerProgressionService, type PlayerProgression } from '@/domain/services/PlayerProgressionService'
+import type { DailyChallenge } from '@/domain/services/ReplayabilityService'
+import type { EndlessHighScore } from '@/domain/services/EndlessModeService'
 
-export type StorageType = 'indexeddb' | 'localstorage'
+export type StorageType = 'indexeddb' | 'localstorage' | 'filesystem'
+
+/**
+ * キーと値で読み書きする保存先（LocalStorage・ファイルシステム）
+ */
+export interface KeyValueStorage {
+  setItem(key: string, value: unknown): Promise<void>
+  getItem<T>(key: string): Promise<T | null>
+  removeItem(key: string): void | Promise<void>
+}
 
 export interface StorageCapabilities {
   available: boolean
@@ -24,13 +38,17 @@ export class StorageAdapter {
   private static instance: StorageAdapter | null = null
   private readonly indexedDBManager: IndexedDBManager
   private readonly migrationService: DataMigrationService
-  private readonly localStorage = secureLocalStorage()
+  private readonly keyValueStorage: KeyValueStorage
   private primaryStorage: StorageType = 'indexeddb'
   private isInitialized = false
   
-  private constructor() {
+  private constructor(fileStorage?: KeyValueStorage) {
     this.indexedDBManager = IndexedDBManager.getInstance()
     this.migrationService = DataMigrationService.getInstance()
+    this.keyValueStorage = fileStorage ?? secureLocalStorage()
+    if (fileStorage) {
+      this.primaryStorage = 'filesystem'
+    }
   }
   
   static getInstance(): StorageAdapter {
@@ -39,12 +57,25 @@ export class StorageAdapter {
     }
     return StorageAdapter.instance
   }
+
+  /**
+   * ファイルシステムを保存先にしたアダプターを作成（CUI用）
+   * IndexedDBは使わず、LocalStorageの代わりに指定した保存先へ読み書きする
+   */
+  static createFileSystemAdapter(fileStorage: KeyValueStorage): StorageAdapter {
+    return new StorageAdapter(fileStorage)
+  }
   
   /**
    * ストレージアダプターを初期化
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) return
+
+    if (this.primaryStorage === 'filesystem') {
+      this.isInitialized = true
+      return
+    }
     
     try {
       // IndexedDBの初期化を試行
@@ -74,6 +105,15 @@ export class StorageAdapter {
    * 利用可能なストレージ機能を確認
    */
   async checkCapabilities(): Promise<StorageCapabilities> {
+    if (this.primaryStorage === 'filesystem') {
+      return {
+        available: true,
+        type: 'filesystem',
+        maxSize: Infinity,
+        persistent: true
+      }
+    }
+
     if (this.primaryStorage === 'indexeddb') {
       try {
         const size = await this.indexedDBManager.getDatabaseSize()
@@ -114,7 +154,7 @@ export class StorageAdapter {
     
     // LocalStorageフォールバック
     const saveKey = `game_save_${slotId}`
-    await this.localStorage.setItem(saveKey, saveData)
+    await this.keyValueStorage.setItem(saveKey, saveData)
   }
   
   /**
@@ -134,7 +174,7 @@ export class StorageAdapter {
     
     // LocalStorageフォールバック
     const saveKey = `game_save_${slotId}`
-    return await this.localStorage.getItem<SaveData>(saveKey)
+    return await this.keyValueStorage.getItem<SaveData>(saveKey)
   }
   
   /**
@@ -157,7 +197,7 @@ export class StorageAdapter {
     for (let i = 1; i <= 3; i++) {
       const slotId = i.toString()
       const saveKey = `game_save_${slotId}`
-      const saveData = await this.localStorage.getItem<SaveData>(saveKey)
+      const saveData = await this.keyValueStorage.getItem<SaveData>(saveKey)
       
       if (saveData) {
         saves.push({ ...saveData, id: slotId })
@@ -165,7 +205,7 @@ export class StorageAdapter {
     }
     
     // 自動セーブも確認
-    const autoSave = await this.localStorage.getItem<SaveData>('game_save_auto')
+    const autoSave = await this.keyValueStorage.getItem<SaveData>('game_save_auto')
     if (autoSave) {
       saves.push({ ...autoSave, id: 'auto' })
     }
@@ -190,7 +230,7 @@ export class StorageAdapter {
     
     // LocalStorageからも削除
     const saveKey = `game_save_${slotId}`
-    this.localStorage.removeItem(saveKey)
+    await this.keyValueStorage.removeItem(saveKey)
   }
   
   /**
@@ -209,7 +249,7 @@ export class StorageAdapter {
     }
     
     // LocalStorageフォールバック
-    await this.localStorage.setItem('game_statistics', stats)
+    await this.keyValueStorage.setItem('game_statistics', stats)
   }
   
   /**
@@ -228,7 +268,7 @@ export class StorageAdapter {
     }
     
     // LocalStorageフォールバック
-    return await this.localStorage.getItem<StatisticsData>('game_statistics')
+    return await this.keyValueStorage.getItem<StatisticsData>('game_statistics')
   }
   
   /**
@@ -247,7 +287,7 @@ export class StorageAdapter {
     }
     
     // LocalStorageフォールバック
-    await this.localStorage.setItem(key, value)
+    await this.keyValueStorage.setItem(key, value)
   }
   
   /**
@@ -266,9 +306,125 @@ export class StorageAdapter {
     }
     
     // LocalStorageフォールバック
-    return await this.localStorage.getItem<T>(key)
+    return await this.keyValueStorage.getItem<T>(key)
   }
   
+  /**
+   * アチーブメントを保存
+   * 解除済みのものは実績として、未解除の進捗は設定として保存する
+   */
+  async saveAchievements(data: PlayerAchievements): Promise<void> {
+    await this.ensureInitialized()
+
+    const progress = Object.fromEntries(data.achievements.map(achievement => [achievement.id, achievement.progress]))
+    const unlocked = data.achievements.filter(achievement => achievement.isUnlocked && achievement.unlockedAt)
+
+    if (this.primaryStorage === 'indexeddb') {
+      try {
+        for (const achievement of unlocked) {
+          await this.indexedDBManager.saveAchievement({
+            id: achievement.id,
+            name: achievement.name,
+            description: achievement.description,
+            unlockedAt: achievement.unlockedAt!,
+            category: achievement.type,
+            progress: achievement.progress
+          })
+        }
+        await this.indexedDBManager.savePreference('achievement_progress', progress)
+        return
+      } catch (error) {
+        console.warn('IndexedDB実績保存失敗、LocalStorageにフォールバック:', error)
+      }
+    }
+
+    // LocalStorageフォールバック
+    await this.keyValueStorage.setItem('game_achievements', unlocked.map(achievement => ({
+      id: achievement.id,
+      unlockedAt: achievement.unlockedAt
+    })))
+    await this.keyValueStorage.setItem('game_achievement_progress', progress)
+  }
+
+  /**
+   * アチーブメントを読み込み
+   */
+  async loadAchievements(): Promise<PlayerAchievements | null> {
+    await this.ensureInitialized()
+
+    if (this.primaryStorage === 'indexeddb') {
+      try {
+        const unlocked = await this.indexedDBManager.getAllAchievements()
+        const progress = await this.indexedDBManager.loadPreference<Record<string, number>>('achievement_progress')
+        if (unlocked.length > 0 || progress) {
+          return AchievementSystemService.restorePlayerAchievements(progress ?? {}, unlocked)
+        }
+      } catch (error) {
+        console.warn('IndexedDB実績読み込み失敗、LocalStorageから試行:', error)
+      }
+    }
+
+    // LocalStorageフォールバック
+    const unlocked = await this.keyValueStorage.getItem<Array<{ id: string, unlockedAt: string }>>('game_achievements')
+    const progress = await this.keyValueStorage.getItem<Record<string, number>>('game_achievement_progress')
+    if (!unlocked && !progress) return null
+
+    return AchievementSystemService.restorePlayerAchievements(progress ?? {}, unlocked ?? [])
+  }
+
+  /**
+   * プレイヤー進行データを保存
+   */
+  async saveProgression(playerId: string, progression: PlayerProgression): Promise<void> {
+    await this.savePreference(this.getProgressionKey(playerId), progression)
+  }
+
+  /**
+   * プレイヤー進行データを読み込み
+   */
+  async loadProgression(playerId: string): Promise<PlayerProgression | null> {
+    const saved = await this.loadPreference<PlayerProgression>(this.getProgressionKey(playerId))
+    return saved ? PlayerProgressionService.restoreProgression(saved) : null
+  }
+
+  /**
+   * 日替り・週替りチャレンジの達成状況を保存
+   */
+  async saveChallengeProgress(challenge: DailyChallenge): Promise<void> {
+    await this.savePreference(this.getChallengeKey(challenge.id), {
+      completionStatus: challenge.completionStatus,
+      bestScore: challenge.bestScore
+    })
+  }
+
+  /**
+   * 保存済みの達成状況をチャレンジに反映して返す
+   */
+  async loadChallengeProgress(challenge: DailyChallenge): Promise<DailyChallenge> {
+    const saved = await this.loadPreference<Pick<DailyChallenge, 'completionStatus' | 'bestScore'>>(this.getChallengeKey(challenge.id))
+    if (!saved) return challenge
+
+    return {
+      ...challenge,
+      completionStatus: saved.completionStatus,
+      ...(saved.bestScore !== undefined ? { bestScore: saved.bestScore } : {})
+    }
+  }
+
+  /**
+   * エンドレスモードのハイスコア表を保存
+   */
+  async saveEndlessHighScores(highScores: EndlessHighScore[]): Promise<void> {
+    await this.savePreference('game_endless_high_scores', highScores)
+  }
+
+  /**
+   * エンドレスモードのハイスコア表を読み込み
+   */
+  async loadEndlessHighScores(): Promise<EndlessHighScore[]> {
+    return await this.loadPreference<EndlessHighScore[]>('game_endless_high_scores') ?? []
+  }
+
   /**
    * ストレージ使用状況を取得
    */
@@ -425,6 +581,20 @@ export class StorageAdapter {
     console.log('✅ 全てのゲームデータをクリアしました')
   }
   
+  /**
+   * プレイヤー進行データの保存キー
+   */
+  private getProgressionKey(playerId: string): string {
+    return `game_progression_${playerId}`
+  }
+
+  /**
+   * チャレンジ達成状況の保存キー
+   */
+  private getChallengeKey(challengeId: string): string {
+    return `game_challenge_${challengeId}`
+  }
+
   /**
    * 初期化確認
    */
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FileSystemStorage } from '../FileSystemStorage'
+import { StorageAdapter } from '../StorageAdapter'
+import { Game } from '@/domain/entities/Game'
+import { SaveSlotService } from '@/domain/services/SaveSlotService'
+import { GameControllerFactory } from '@/controllers/GameController'
+import { MockRenderer } from '@/__tests__/utils/TestHelpers'
+import type { GameConfig } from '@/domain/types/game.types'
+
+describe('FileSystemStorage - CUIのセーブデータ', () => {
+  const config: GameConfig = {
+    difficulty: 'normal',
+    startingVitality: 100,
+    startingHandSize: 5,
+    maxHandSize: 7,
+    dreamCardCount: 3,
+    seed: 20,
+    balanceConfig: { lifeEventSettings: { enabled: false } }
+  }
+
+  let directory: string
+  let storage: StorageAdapter
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'save-data-'))
+    storage = StorageAdapter.createFileSystemAdapter(new FileSystemStorage(directory))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  const createStartedGame = async () => {
+    const game = new Game(config)
+    game.start()
+    game.selectCharacter('solid')
+    await game.selectDream(game.cardChoices![0]!)
+    return game
+  }
+
+  it('StorageAdapterを通してスロットごとのJSONファイルに保存・削除できる', async () => {
+    const game = await createStartedGame()
+    const saveData = SaveSlotService.createSaveData(game)
+
+    await storage.saveSaveData('2', saveData)
+    await storage.saveSaveData(SaveSlotService.AUTO_SAVE_SLOT, saveData)
+
+    expect((await readdir(directory)).sort()).toEqual(['game_save_2.json', 'game_save_auto.json'])
+    expect(await storage.loadSaveData('2')).toEqual(JSON.parse(JSON.stringify(saveData)))
+    expect((await storage.getAllSaveData()).map(save => save.id)).toEqual(['2', 'auto'])
+    expect(await storage.checkCapabilities()).toMatchObject({ type: 'filesystem', persistent: true })
+
+    await storage.deleteSaveData('2')
+    expect(await storage.loadSaveData('2')).toBeNull()
+    expect(await new FileSystemStorage(directory).keys()).toEqual(['game_save_auto'])
+  })
+
+  it('ターンの途中で中断したゲームはターン開始時点の状態で保存され、そこから再開できる', async () => {
+    const game = await createStartedGame()
+    const renderer = new MockRenderer()
+    // 課題の選択中に中断（Ctrl-C）する
+    const askChallengeSelection = vi.fn().mockRejectedValue(new Error('User force closed the prompt'))
+    Object.assign(renderer, { askChallengeSelection })
+
+    const controller = GameControllerFactory.resume(game, renderer)
+    await controller.playGame()
+
+    expect(renderer.getAllCalls('showMessage').map(call => call.args[0])).toContain('ターン1から再開します')
+    expect(game.status).toBe('in_progress')
+    expect(game.phase).toBe('challenge_choice')
+
+    await storage.saveSaveData(SaveSlotService.AUTO_SAVE_SLOT, SaveSlotService.createSaveData(controller.getSavableGame()))
+    const saveData = (await storage.loadSaveData(SaveSlotService.AUTO_SAVE_SLOT))!
+    expect(SaveSlotService.isResumable(saveData)).toBe(true)
+    expect(saveData.metadata.preview.phase).toBe('draw')
+
+    // 再開すると中断したターンと同じ課題が並ぶ
+    const restored = SaveSlotService.restoreGame(saveData)
+    restored.startChallengePhase()
+    expect(restored.cardChoices!.map(card => card.name)).toEqual(askChallengeSelection.mock.calls[0]![0].map((card: { name: string }) => card.name))
+  })
+})
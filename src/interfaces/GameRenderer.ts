@@ -1,6 +1,10 @@
 import type { Game } from '@/domain/entities/Game'
 import type { Card } from '@/domain/entities/Card'
-import type { ChallengeResult, PlayerStats } from '@/domain/types/game.types'
+import type { ChallengeResult, ChallengeStakes, PendingInsuranceClaim, PlayerStats } from '@/domain/types/game.types'
+import type { Achievement } from '@/domain/services/AchievementSystemService'
+import type { PremiumBreakdown } from '@/domain/services/InsurancePremiumCalculationService'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import type { RandomEvent } from '@/domain/services/ReplayabilityService'
 
 /**
  * ゲーム表示・操作の抽象化インターフェース
@@ -96,9 +100,25 @@ export interface GameRenderer {
    * 保険更新の意思決定を要求
    * @param insurance 更新対象の保険カード
    * @param cost 更新にかかるコスト
+   * @param breakdown 更新保険料の内訳（年齢・リスク・請求実績などの調整）
    * @returns 更新('renew')か失効('expire')
    */
-  askInsuranceRenewalChoice(insurance: Card, cost: number): Promise<'renew' | 'expire'>
+  askInsuranceRenewalChoice(insurance: Card, cost: number, breakdown?: PremiumBreakdown): Promise<'renew' | 'expire'>
+
+  /**
+   * 保険請求の意思決定を要求
+   * @param claim 保留中の保険請求
+   * @param payout 請求した場合の支払い見込み
+   * @returns 請求する場合true
+   */
+  askInsuranceClaim(claim: PendingInsuranceClaim, payout: InsurancePayoutQuote): Promise<boolean>
+
+  /**
+   * ライフイベントの選択肢の選択を要求
+   * @param event 選択待ちのライフイベント
+   * @returns 選択された選択肢の番号
+   */
+  askLifeEventChoice(event: RandomEvent): Promise<number>
 
   /**
    * 夢カードの選択を要求
@@ -110,9 +130,10 @@ export interface GameRenderer {
   /**
    * 挑戦する試練カードの選択を要求
    * @param challenges 選択可能な試練カード一覧（通常2枚）
+   * @param stakes 各試練カードの損得の見込み（challengesと同じ順、リスクチャレンジ以外はundefined）
    * @returns 選択された試練カード
    */
-  askChallengeSelection(challenges: Card[]): Promise<Card>
+  askChallengeSelection(challenges: Card[], stakes?: (ChallengeStakes | undefined)[]): Promise<Card>
 
   /**
    * Yes/No の確認を要求
@@ -162,6 +183,12 @@ export interface GameRenderer {
    */
   showStageClear(stage: string, stats: PlayerStats): void
 
+  /**
+   * アチーブメント解除を表示（省略時は showMessage で通知）
+   * @param achievement 解除されたアチーブメント
+   */
+  showAchievementUnlocked?(achievement: Achievement): void
+
   // === システム制御 ===
 
   /**
@@ -3,7 +3,22 @@ import { ref, computed, shallowRef } from 'vue'
 import { Game } from '@/domain/entities/Game'
 import { Vitality } from '@/domain/valueObjects/Vitality'
 import type { Card } from '@/domain/entities/Card'
-import type { GameConfig, PendingInsuranceClaim } from '@/domain/types/game.types'
+import type { ActiveEvent, ChallengeStakes, GameConfig, PendingInsuranceClaim, SaveData } from '@/domain/types/game.types'
+import type { Achievement } from '@/domain/services/AchievementSystemService'
+import { AchievementTracker, type AchievementUpdate } from '@/domain/services/AchievementTracker'
+import {
+    PlayerProgressionService,
+    type GameCompletionResult,
+    type PlayerProgression
+} from '@/domain/services/PlayerProgressionService'
+import { StorageAdapter } from '@/infrastructure/storage/StorageAdapter'
+import { ReplayabilityService, type DailyChallenge, type RandomEvent } from '@/domain/services/ReplayabilityService'
+import { EndlessModeService, type EndlessHighScore } from '@/domain/services/EndlessModeService'
+import type { InsurancePayoutQuote } from '@/domain/services/InsuranceClaimRegistry'
+import { SaveSlotService } from '@/domain/services/SaveSlotService'
+import { BALANCE_CONSTANTS } from '@/domain/constants/GameConstants'
+import { BotRegistry } from '@/ai/BotRegistry'
+import { BotPlayer } from '@/ai/BotPlayer'
 
 export const useGameStore = defineStore('game', () => {
     // State - using shallowRef to avoid deep reactivity on Game instance
@@ -28,10 +43,32 @@ export const useGameStore = defineStore('game', () => {
     const scoreState = ref(0)
     const cardChoicesState = ref<Card[]>([])
     const insuranceTypeChoicesState = ref<any[]>([])
+    const rewardCardChoicesState = ref<Card[]>([]) // チャレンジ成功時の報酬カード
 
     const pendingInsuranceClaimState = ref<PendingInsuranceClaim | undefined>(undefined) // 保留中の保険請求
+    const pendingInsuranceClaimPayoutState = ref<InsurancePayoutQuote | undefined>(undefined) // 保留中の請求の支払い見込み
     const availableOnDemandInsurancesState = ref<Card[]>([]) // 使用可能な就業不能保険
+    const pendingLifeEventState = shallowRef<RandomEvent | undefined>(undefined) // 選択待ちのライフイベント
+    const activeEventsState = ref<ActiveEvent[]>([]) // 発動中のイベント・ライフイベントの一時効果
     const maxTurnsState = ref(20) // Default 20
+    const achievementToasts = ref<Achievement[]>([]) // 表示待ちのアチーブメント解除通知
+
+    // Player progression (cross-game)
+    const playerId = ref('player_default')
+    const playerProgression = ref<PlayerProgression>(PlayerProgressionService.createInitialProgression())
+    const lastGameCompletion = ref<GameCompletionResult | null>(null) // 直前のゲームで得た経験値・レベルアップ
+
+    // Daily / weekly challenge mode
+    const activeChallenge = ref<DailyChallenge | null>(null)
+
+    // Endless mode
+    const isEndlessMode = ref(false)
+    const endlessHighScores = ref<EndlessHighScore[]>([])
+    const lastEndlessRank = ref<number | undefined>(undefined) // 直前のゲームのハイスコア順位（圏外ならundefined）
+
+    // Save slots
+    const saveSlots = ref<Array<SaveData & { id: string }>>([])
+    const continueSave = computed(() => SaveSlotService.findLatest(saveSlots.value)) // 「続きから」で再開するセーブ
 
     // Tutorial State
     const isTutorialMode = ref(false)
@@ -54,13 +91,17 @@ export const useGameStore = defineStore('game', () => {
     const insuranceTypeChoices = computed(() => insuranceTypeChoicesState.value)
 
     const pendingInsuranceClaim = computed(() => pendingInsuranceClaimState.value)
+    const pendingInsuranceClaimPayout = computed(() => pendingInsuranceClaimPayoutState.value)
     const availableOnDemandInsurances = computed(() => availableOnDemandInsurancesState.value)
+    const pendingLifeEvent = computed(() => pendingLifeEventState.value)
+    const activeEvents = computed(() => activeEventsState.value)
 
     const activeInsurances = computed(() => activeInsurancesState.value)
     const insuranceMarket = computed(() => insuranceMarketState.value)
     const score = computed(() => scoreState.value)
     const maxTurns = computed(() => maxTurnsState.value)
     const cardChoices = computed(() => cardChoicesState.value)
+    const rewardCardChoices = computed(() => rewardCardChoicesState.value)
 
 
     const lastMessage = ref<string>('')
@@ -68,7 +109,17 @@ export const useGameStore = defineStore('game', () => {
     // Actions
     function initializeGame(config?: GameConfig) {
         console.log('[GameStore] initializeGame called with config:', JSON.stringify(config))
-        game.value = new Game(config)
+        // プレイヤーレベルの補正（活力ボーナス・解放済み機能）を適用
+        const bonuses = PlayerProgressionService.createGameBonuses(playerProgression.value)
+        const baseConfig = config ? { ...config, ...bonuses, ...(isEndlessMode.value ? { endless: true } : {}) } : undefined
+        // 日替りチャレンジ中はルールとシードを適用（同じ日なら誰でも同じ展開）
+        // 通常プレイでは動的難易度を有効にする（チャレンジは全員同じ難易度で競うため調整しない）
+        game.value = new Game(activeChallenge.value && baseConfig
+            ? ReplayabilityService.createChallengeGameConfig(activeChallenge.value, baseConfig)
+            : baseConfig && { ...baseConfig, dynamicDifficulty: true })
+        lastGameCompletion.value = null
+        lastEndlessRank.value = undefined
+        trackAchievements(game.value)
 
         // Force Vitality Cheat if configured (Bypass Game constructor clamping)
         if (config?.startingVitality && config.startingVitality > 200) {
@@ -81,6 +132,257 @@ export const useGameStore = defineStore('game', () => {
         triggerUpdate()
     }
 
+    /**
+     * アチーブメントの記録を開始し、保存済みの進捗を読み込む
+     */
+    function trackAchievements(target: Game) {
+        const tracker = new AchievementTracker()
+        let achievementExperience = 0
+        tracker.addListener(update => {
+            achievementExperience += update.newlyUnlocked.reduce((sum, achievement) => sum + achievement.reward.experience, 0)
+            onAchievementUpdate(update)
+            if (update.type === 'game_end') {
+                completeGame(target, tracker.getBestStreak(), achievementExperience)
+            }
+        })
+        target.setAchievementTracker(tracker)
+
+        StorageAdapter.getInstance().loadAchievements()
+            .then(saved => {
+                if (saved) tracker.restore(saved)
+            })
+            .catch(error => console.warn('[GameStore] Failed to load achievements:', error))
+    }
+
+    function onAchievementUpdate(update: AchievementUpdate) {
+        if (update.newlyUnlocked.length > 0) {
+            achievementToasts.value = [...achievementToasts.value, ...update.newlyUnlocked]
+        }
+
+        // 解除時とゲーム終了時（通算進捗の確定）に保存
+        if (update.newlyUnlocked.length > 0 || update.type === 'game_end') {
+            StorageAdapter.getInstance().saveAchievements(update.achievements)
+                .catch(error => console.warn('[GameStore] Failed to save achievements:', error))
+        }
+    }
+
+    /**
+     * プレイヤー進行データを読み込む
+     */
+    async function loadPlayerProfile(id: string = playerId.value) {
+        playerId.value = id
+        try {
+            const saved = await StorageAdapter.getInstance().loadProgression(id)
+            playerProgression.value = saved ?? PlayerProgressionService.createInitialProgression()
+        } catch (error) {
+            console.warn('[GameStore] Failed to load player progression:', error)
+            playerProgression.value = PlayerProgressionService.createInitialProgression()
+        }
+    }
+
+    /**
+     * ゲーム終了時に経験値を付与して進行データを保存する
+     */
+    function completeGame(target: Game, bestStreak: number, achievementExperience: number) {
+        if (lastGameCompletion.value || (target.status !== 'victory' && target.status !== 'game_over')) return
+
+        const startedAt = target.startedAt?.getTime() ?? Date.now()
+        const completedAt = target.completedAt?.getTime() ?? Date.now()
+        const challengeBonus = recordChallengeAttempt(target, (completedAt - startedAt) / 1000)
+        recordEndlessHighScore(target)
+        const result = PlayerProgressionService.completeGame(playerProgression.value, {
+            outcome: target.status,
+            stats: target.stats,
+            playTimeMinutes: Math.round((completedAt - startedAt) / 60000),
+            bestStreak,
+            achievementExperience,
+            ...challengeBonus
+        })
+
+        lastGameCompletion.value = result
+        playerProgression.value = result.updatedProgression
+        StorageAdapter.getInstance().saveProgression(playerId.value, result.updatedProgression)
+            .catch(error => console.warn('[GameStore] Failed to save player progression:', error))
+
+        // 終了したゲームは「続きから」再開させない
+        deleteSave(SaveSlotService.AUTO_SAVE_SLOT)
+            .catch(error => console.warn('[GameStore] Failed to delete auto save:', error))
+    }
+
+    /**
+     * セーブスロットの一覧を読み込む
+     */
+    async function loadSaveSlots() {
+        try {
+            saveSlots.value = await StorageAdapter.getInstance().getAllSaveData()
+        } catch (error) {
+            console.warn('[GameStore] Failed to load save slots:', error)
+            saveSlots.value = []
+        }
+    }
+
+    /**
+     * 現在のゲームをセーブスロットに保存する
+     */
+    async function saveGame(slotId: string) {
+        if (!game.value) return
+        const saveData = SaveSlotService.createSaveData(game.value, activeChallenge.value)
+        await StorageAdapter.getInstance().saveSaveData(slotId, saveData)
+        saveSlots.value = [...saveSlots.value.filter(save => save.id !== slotId), { ...saveData, id: slotId }]
+    }
+
+    /**
+     * セーブスロットからゲームを再開する（保存時のフェーズの途中から続ける）
+     * @returns 再開できた場合true
+     */
+    async function loadGame(slotId: string): Promise<boolean> {
+        const saveData = await StorageAdapter.getInstance().loadSaveData(slotId)
+        if (!saveData) return false
+
+        try {
+            game.value = SaveSlotService.restoreGame(saveData)
+        } catch (error) {
+            console.warn('[GameStore] Failed to restore save data:', error)
+            return false
+        }
+        activeChallenge.value = saveData.metadata.challenge ?? null
+        isEndlessMode.value = game.value.isEndlessMode()
+        lastGameCompletion.value = null
+        lastEndlessRank.value = undefined
+        trackAchievements(game.value)
+
+        isInitialized.value = true
+        lastMessage.value = `ターン ${game.value.turn} から再開しました`
+        triggerUpdate()
+        return true
+    }
+
+    /**
+     * セーブスロットを削除する
+     */
+    async function deleteSave(slotId: string) {
+        await StorageAdapter.getInstance().deleteSaveData(slotId)
+        saveSlots.value = saveSlots.value.filter(save => save.id !== slotId)
+    }
+
+    /**
+     * ターン終了時に自動セーブする
+     */
+    function autoSave() {
+        if (game.value?.status !== 'in_progress') return
+        saveGame(SaveSlotService.AUTO_SAVE_SLOT)
+            .catch(error => console.warn('[GameStore] Failed to auto save:', error))
+    }
+
+    /**
+     * 日替り・週替りチャレンジを準備する
+     * 次の initializeGame からチャレンジのルールで新しいゲームを始める
+     */
+    async function startDailyChallenge(kind: 'daily' | 'weekly', date: Date = new Date()) {
+        const generated = kind === 'daily'
+            ? ReplayabilityService.generateDailyChallenge(date)
+            : ReplayabilityService.generateWeeklyChallenge(ReplayabilityService.getWeekStart(date))
+
+        const storage = StorageAdapter.getInstance()
+        let challenge = generated
+        try {
+            challenge = await storage.loadChallengeProgress(generated)
+        } catch (error) {
+            console.warn('[GameStore] Failed to load challenge progress:', error)
+        }
+
+        activeChallenge.value = ReplayabilityService.startChallenge(challenge)
+        storage.saveChallengeProgress(activeChallenge.value)
+            .catch(error => console.warn('[GameStore] Failed to save challenge progress:', error))
+
+        isEndlessMode.value = false
+        game.value = null
+        isInitialized.value = false
+    }
+
+    /**
+     * チャレンジモードを終了する（次のゲームは通常ルール）
+     */
+    function leaveDailyChallenge() {
+        if (!activeChallenge.value) return
+        activeChallenge.value = null
+        game.value = null
+        isInitialized.value = false
+    }
+
+    /**
+     * チャレンジの結果を記録し、経験値の補正を返す
+     */
+    function recordChallengeAttempt(target: Game, elapsedSeconds: number) {
+        const challenge = activeChallenge.value
+        if (!challenge || (target.status !== 'victory' && target.status !== 'game_over')) return {}
+
+        const updated = ReplayabilityService.recordChallengeAttempt(challenge, {
+            outcome: target.status,
+            score: target.score,
+            elapsedSeconds
+        })
+        activeChallenge.value = updated
+        StorageAdapter.getInstance().saveChallengeProgress(updated)
+            .catch(error => console.warn('[GameStore] Failed to save challenge progress:', error))
+
+        // 報酬経験値は初回クリア時のみ
+        const firstClear = challenge.completionStatus !== 'completed' && updated.completionStatus === 'completed'
+        return {
+            experienceMultiplier: challenge.rules.modifiers?.experienceMultiplier ?? 1,
+            bonusExperience: firstClear ? challenge.rewards.experience : 0
+        }
+    }
+
+    /**
+     * エンドレスモードを準備する
+     * 次の initializeGame から充実期の後も続くゲームを始める
+     */
+    async function startEndlessMode() {
+        try {
+            endlessHighScores.value = await StorageAdapter.getInstance().loadEndlessHighScores()
+        } catch (error) {
+            console.warn('[GameStore] Failed to load endless high scores:', error)
+        }
+
+        activeChallenge.value = null
+        isEndlessMode.value = true
+        game.value = null
+        isInitialized.value = false
+    }
+
+    /**
+     * エンドレスモードを終了する（次のゲームは通常ルール）
+     */
+    function leaveEndlessMode() {
+        if (!isEndlessMode.value) return
+        isEndlessMode.value = false
+        game.value = null
+        isInitialized.value = false
+    }
+
+    /**
+     * エンドレスモードの結果をハイスコア表に記録する
+     */
+    function recordEndlessHighScore(target: Game) {
+        if (!target.isEndlessMode()) return
+
+        const { table, rank } = EndlessModeService.recordHighScore(endlessHighScores.value, {
+            turnsSurvived: target.getTurnsSurvived(),
+            endlessLevel: target.getEndlessLevel(),
+            ...(target.config.characterId ? { characterId: target.config.characterId } : {}),
+            achievedAt: (target.completedAt ?? new Date()).toISOString()
+        })
+        endlessHighScores.value = table
+        lastEndlessRank.value = rank
+        StorageAdapter.getInstance().saveEndlessHighScores(table)
+            .catch(error => console.warn('[GameStore] Failed to save endless high scores:', error))
+    }
+
+    function dismissAchievementToast(id: string) {
+        achievementToasts.value = achievementToasts.value.filter(achievement => achievement.id !== id)
+    }
+
     function startGame() {
         if (!game.value) return
         game.value.start()
@@ -116,11 +418,16 @@ export const useGameStore = defineStore('game', () => {
 
         // v2: 課題選択後にカードを7枚引く（ドキドキ感のため）
         console.log('[GameStore] 課題選択後、カードを7枚ドロー')
-        await game.value.drawCards(7)
+        await game.value.drawCards(BALANCE_CONSTANTS.CARD_LIMITS.challengeDrawCount)
 
         triggerUpdate()
     }
 
+    // リスクチャレンジの損得の見込み（通常のチャレンジはundefined）
+    function getChallengeStakes(card: Card): ChallengeStakes | undefined {
+        return game.value?.getChallengeStakes(card)
+    }
+
     async function selectDream(card: any) {
         if (!game.value) return
         await game.value.selectDream(card as Card)
@@ -182,7 +489,18 @@ export const useGameStore = defineStore('game', () => {
 
         lastHandAction.value = 'play'
         const result = game.value.resolveChallenge()
-        lastMessage.value = result.message
+        // スキル・コンボ・イベント・カード効果でパワーが加わった場合は内訳を添える
+        const breakdown = result.powerBreakdown
+        const bonusEntries: [string, number | undefined][] = [
+            ['スキル', breakdown?.skill],
+            ['コンボ', breakdown?.combo],
+            ['イベント', breakdown?.event],
+            ['効果', breakdown?.effect]
+        ]
+        const bonuses = bonusEntries
+            .filter((entry): entry is [string, number] => !!entry[1])
+            .map(([label, value]) => `${label}${value > 0 ? '+' : ''}${value}`)
+        lastMessage.value = bonuses.length > 0 ? `${result.message} (${bonuses.join(' / ')})` : result.message
 
         triggerUpdate()
 
@@ -223,6 +541,20 @@ export const useGameStore = defineStore('game', () => {
         triggerUpdate()
     }
 
+    function selectRewardCard(card: Card) {
+        if (!game.value) return
+        game.value.selectRewardCard(card.id)
+        lastMessage.value = `${card.name}をデッキに加えました`
+        triggerUpdate()
+    }
+
+    function skipRewardCard() {
+        if (!game.value) return
+        game.value.skipRewardCard()
+        lastMessage.value = '報酬カードを見送りました'
+        triggerUpdate()
+    }
+
     async function claimInsurance() {
         if (!game.value) return
         await game.value.resolveInsuranceClaim()
@@ -244,15 +576,40 @@ export const useGameStore = defineStore('game', () => {
         lastMessage.value = '就業不能保険の使用を確認しています...'
     }
 
+    function chooseLifeEventOption(choiceIndex: number) {
+        if (!game.value?.pendingLifeEvent) return
+        const event = game.value.pendingLifeEvent
+        game.value.chooseLifeEventOption(choiceIndex)
+        lastMessage.value = `${event.name}: ${event.choices?.[choiceIndex]?.label ?? ''}を選びました`
+        triggerUpdate()
+    }
+
     function endTurn() {
         if (!game.value) return
         const result = game.value.nextTurn()
         if (result.insuranceExpirations) {
             lastMessage.value = result.insuranceExpirations.message
+        } else if (result.lifeEvent) {
+            lastMessage.value = `ライフイベント「${result.lifeEvent.name}」: ${result.lifeEvent.description}`
         } else {
             lastMessage.value = `ターン ${game.value.turn} 開始`
         }
         triggerUpdate()
+        autoSave()
+    }
+
+    /**
+     * 指定したボットに今のターンの残りを自動でプレイさせる（ターン終了まで）
+     * @param botName BotRegistryに登録されたボット名
+     */
+    async function autoPlayTurn(botName: string) {
+        if (!game.value) return
+        // ボット自身の乱数はゲームの乱数列を消費しないよう別系列にする
+        const bot = BotRegistry.create(botName, game.value.getRandom().fork(`bot-${game.value.turn}`))
+        const actions = await BotPlayer.playTurn(game.value, bot)
+        lastMessage.value = `${botName}が${actions.length}回の操作でターンを進めました`
+        triggerUpdate()
+        autoSave()
     }
 
     function toggleCardSelection(card: Card) {
@@ -291,8 +648,12 @@ export const useGameStore = defineStore('game', () => {
 
         cardChoicesState.value = game.value.cardChoices ? [...game.value.cardChoices] : []
         insuranceTypeChoicesState.value = game.value.insuranceTypeChoices ? [...game.value.insuranceTypeChoices] : []
+        rewardCardChoicesState.value = game.value.rewardCardChoices ? [...game.value.rewardCardChoices] : []
         pendingInsuranceClaimState.value = game.value.pendingInsuranceClaim
+        pendingInsuranceClaimPayoutState.value = game.value.getInsuranceClaimPayout()
         availableOnDemandInsurancesState.value = game.value.availableOnDemandInsurances
+        pendingLifeEventState.value = game.value.pendingLifeEvent
+        activeEventsState.value = game.value.activeEvents.map(event => ({ ...event }))
 
         console.log('[GameStore] State synced. Hand size:', handState.value.length)
 
@@ -327,12 +688,20 @@ export const useGameStore = defineStore('game', () => {
         selectInsurance,
 
         skipInsurance, // 保険スキップ（保険に入らない選択）
+        rewardCardChoices,
+        selectRewardCard,
+        skipRewardCard,
         pendingInsuranceClaim,
+        pendingInsuranceClaimPayout,
         claimInsurance,
         declineInsuranceClaim,
         availableOnDemandInsurances,
         useOnDemandInsurance,
+        pendingLifeEvent,
+        activeEvents,
+        chooseLifeEventOption,
         endTurn,
+        autoPlayTurn,
         toggleCardSelection,
         triggerUpdate,
         // v2
@@ -343,10 +712,31 @@ export const useGameStore = defineStore('game', () => {
         cardChoices,
         startChallengePhase,
         selectChallengeChoice,
+        getChallengeStakes,
         selectDream,
         selectCharacter,
         buyInsurance,
         isTutorialMode,
-        toggleTutorialMode
+        toggleTutorialMode,
+        achievementToasts,
+        dismissAchievementToast,
+        playerId,
+        playerProgression,
+        lastGameCompletion,
+        loadPlayerProfile,
+        activeChallenge,
+        startDailyChallenge,
+        leaveDailyChallenge,
+        isEndlessMode,
+        endlessHighScores,
+        lastEndlessRank,
+        startEndlessMode,
+        leaveEndlessMode,
+        saveSlots,
+        continueSave,
+        loadSaveSlots,
+        saveGame,
+        loadGame,
+        deleteSave
     }
 })